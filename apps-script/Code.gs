@@ -13,7 +13,7 @@
  * Setup:
  * 1. Copy this code to Apps Script bound to your Google Sheet
  * 2. Set API token in Script Properties: key="API_TOKEN", value="your-secret-token"
- * 3. Run installTriggers() function once to set up onEdit trigger
+ * 3. Run installTriggers() function once to install the onChange trigger (row deletions) and seed key sets
  * 4. Deploy as Web App with "Anyone" access
  */
 
@@ -22,6 +22,9 @@ const SHEET_ID = '1KOOSLJVGdDZHBV1MUmb4D9oVIKUJj5TIgYCerjkWYcE'; // Your spreads
 const CHANGE_LOG_SHEET_NAME = 'ChangeLog';
 const KEY_COLUMN_NAME = 'Ticker'; // Column used as unique key
 const MONITORED_SHEETS = ['DashBoard', 'SMA']; // Sheets to track changes for
+const CHANGE_LOG_HEADERS = ['changeId', 'tsISO', 'sheetName', 'rowIndex', 'key', 'changedColumns', 'rowValuesJson', 'op', 'previousKey'];
+const KEY_SET_PROPERTY_PREFIX = 'KEYSET_'; // Script Properties holding the last seen keys per sheet (JSON array, chunked)
+const KEY_SET_CHUNK_SIZE = 8000; // Characters per key set property (a Script Property value holds about 9 KB)
 
 /**
  * Get token from request. Header-first when Apps Script exposes headers; body fallback.
@@ -250,6 +253,7 @@ function handleChanges(sheetName, sinceVersion) {
     // Parse change log (skip header row)
     const changes = [];
     var maxVersion = sinceVersion;
+    var needsFullResync = false;
     
     // Column indices in ChangeLog sheet
     var changeIdCol = 0;
@@ -259,6 +263,8 @@ function handleChanges(sheetName, sinceVersion) {
     var keyCol = 4;
     var changedColumnsCol = 5;
     var rowValuesJsonCol = 6;
+    var opCol = 7; // Missing in rows logged before delete/rename support => 'upsert'
+    var previousKeyCol = 8;
     
     for (var i = 1; i < changeLogData.length; i++) {
       var row = changeLogData[i];
@@ -274,14 +280,28 @@ function handleChanges(sheetName, sinceVersion) {
           var changedColumnsJson = row[changedColumnsCol];
           var changedColumns = changedColumnsJson ? JSON.parse(changedColumnsJson) : [];
           
-          changes.push({
+          var op = String(row[opCol] || '').trim() || 'upsert';
+          if (op === 'resync') {
+            // Deletions may have been missed (see saveKeySet): the client must reload the snapshot
+            needsFullResync = true;
+            if (changeId > maxVersion) {
+              maxVersion = changeId;
+            }
+            continue;
+          }
+          var change = {
             id: changeId,
             tsISO: String(row[tsISOCol] || ''),
             key: String(row[keyCol] || '').trim(),
             rowIndex: parseInt(row[rowIndexCol], 10),
             changedColumns: changedColumns,
-            values: rowValues
-          });
+            values: rowValues,
+            op: op
+          };
+          if (op === 'rename') {
+            change.previousKey = String(row[previousKeyCol] || '').trim();
+          }
+          changes.push(change);
           
           if (changeId > maxVersion) {
             maxVersion = changeId;
@@ -294,7 +314,6 @@ function handleChanges(sheetName, sinceVersion) {
     }
     
     // If sinceVersion is too old (e.g., ChangeLog was cleared), suggest full resync
-    var needsFullResync = false;
     if (sinceVersion > 0 && changes.length === 0 && maxVersion > sinceVersion) {
       // This shouldn't happen, but if it does, suggest resync
       needsFullResync = true;
@@ -308,13 +327,22 @@ function handleChanges(sheetName, sinceVersion) {
     
     const currentVersion = getCurrentVersion();
     
-    return createSuccessResponse({
+    // Integrity fingerprint of the current sheet: the client compares it with its cached keys
+    var dataSheet = ss.getSheetByName(sheetName);
+    var currentKeys = dataSheet ? readSheetKeys(dataSheet) : null;
+    
+    var response = {
       ok: true,
       fromVersion: sinceVersion,
       toVersion: currentVersion,
       changes: changes,
       needsFullResync: needsFullResync
-    });
+    };
+    if (currentKeys) {
+      response.rowCount = currentKeys.length;
+      response.keyHash = computeKeySetHash(currentKeys);
+    }
+    return createSuccessResponse(response);
   } catch (error) {
     return createErrorResponse('Failed to get changes: ' + error.toString(), 500);
   }
@@ -391,6 +419,20 @@ function onEdit(e) {
     }
     
     var key = editedRow[keyColumnIndex] ? String(editedRow[keyColumnIndex]).trim() : '';
+    
+    // Single-cell edit of the key column: e.oldValue tells us the previous key (rename or delete)
+    var isKeyCellEdit = range.getNumRows() === 1 && range.getNumColumns() === 1 && columnIndex - 1 === keyColumnIndex;
+    var previousKey = isKeyCellEdit && e.oldValue !== undefined ? String(e.oldValue).trim() : '';
+    if (previousKey && previousKey !== key) {
+      if (key) {
+        appendChangeLogRow(changeLogSheet, sheetName, rowIndex, key, [KEY_COLUMN_NAME], editedRow, 'rename', previousKey);
+      } else {
+        appendChangeLogRow(changeLogSheet, sheetName, rowIndex, previousKey, [KEY_COLUMN_NAME], [], 'delete', '');
+      }
+      saveKeySet(sheetName, readSheetKeys(sheet));
+      return;
+    }
+    
     if (!key) {
       return; // No key value, skip logging
     }
@@ -406,23 +448,12 @@ function onEdit(e) {
       }
     }
     
-    // Get next changeId
-    var changeId = getNextChangeId();
-    
-    // Log the change
-    var timestamp = new Date().toISOString();
-    var rowValuesJson = JSON.stringify(editedRow);
-    var changedColumnsJson = JSON.stringify(changedColumns);
+    appendChangeLogRow(changeLogSheet, sheetName, rowIndex, key, changedColumns, editedRow, 'upsert', '');
     
-    changeLogSheet.appendRow([
-      changeId,
-      timestamp,
-      sheetName,
-      rowIndex,
-      key,
-      changedColumnsJson,
-      rowValuesJson
-    ]);
+    // New keys must be in the stored key set, otherwise a later row removal cannot be detected
+    if (changedColumns.indexOf(KEY_COLUMN_NAME) !== -1) {
+      saveKeySet(sheetName, readSheetKeys(sheet));
+    }
     
   } catch (error) {
     // Log error but don't throw (onEdit triggers should not throw)
@@ -430,6 +461,207 @@ function onEdit(e) {
   }
 }
 
+/**
+ * Installable onChange trigger - logs deleted rows as 'delete' operations.
+ * onEdit does not fire for row removal, so the current keys are compared with the stored key set.
+ */
+function onSheetChange(e) {
+  try {
+    if (!e || e.changeType !== 'REMOVE_ROW') {
+      return;
+    }
+    
+    var ss = SpreadsheetApp.openById(SHEET_ID);
+    var changeLogSheet = ensureChangeLogSheet(ss);
+    if (!changeLogSheet) {
+      return;
+    }
+    
+    for (var s = 0; s < MONITORED_SHEETS.length; s++) {
+      var sheetName = MONITORED_SHEETS[s];
+      var sheet = ss.getSheetByName(sheetName);
+      if (!sheet) {
+        continue;
+      }
+      
+      var currentKeys = readSheetKeys(sheet);
+      var storedKeys = loadKeySet(sheetName);
+      if (!currentKeys || !storedKeys) {
+        if (currentKeys) {
+          // Without the previous keys the removed rows are unknown
+          logResyncMarker(sheetName, 'key set missing');
+          saveKeySet(sheetName, currentKeys);
+        }
+        continue;
+      }
+      
+      // Multiset difference: each stored key occurrence without a current counterpart was deleted
+      var remaining = {};
+      for (var i = 0; i < currentKeys.length; i++) {
+        remaining[currentKeys[i]] = (remaining[currentKeys[i]] || 0) + 1;
+      }
+      for (var j = 0; j < storedKeys.length; j++) {
+        var key = storedKeys[j];
+        if (remaining[key]) {
+          remaining[key]--;
+        } else {
+          appendChangeLogRow(changeLogSheet, sheetName, 0, key, [], [], 'delete', '');
+        }
+      }
+      
+      saveKeySet(sheetName, currentKeys);
+    }
+  } catch (error) {
+    console.error('Error in onSheetChange trigger:', error);
+  }
+}
+
+/**
+ * Append one operation ('upsert' | 'delete' | 'rename' | 'resync') to the ChangeLog sheet
+ */
+function appendChangeLogRow(changeLogSheet, sheetName, rowIndex, key, changedColumns, rowValues, op, previousKey) {
+  changeLogSheet.appendRow([
+    getNextChangeId(),
+    new Date().toISOString(),
+    sheetName,
+    rowIndex,
+    key,
+    JSON.stringify(changedColumns),
+    JSON.stringify(rowValues),
+    op,
+    previousKey || ''
+  ]);
+}
+
+/**
+ * Keys (KEY_COLUMN_NAME values) of all data rows with a key, in sheet order. Matches the rows in handleSnapshot.
+ * Returns null when the key column is missing.
+ */
+function readSheetKeys(sheet) {
+  var lastRow = sheet.getLastRow();
+  var lastColumn = sheet.getLastColumn();
+  if (lastRow < 1 || lastColumn < 1) {
+    return [];
+  }
+  var headers = sheet.getRange(1, 1, 1, lastColumn).getValues()[0].map(function(h) {
+    return String(h).trim();
+  });
+  var keyColumnIndex = headers.indexOf(KEY_COLUMN_NAME);
+  if (keyColumnIndex === -1) {
+    return null;
+  }
+  if (lastRow < 2) {
+    return [];
+  }
+  var keys = [];
+  var values = sheet.getRange(2, keyColumnIndex + 1, lastRow - 1, 1).getValues();
+  for (var i = 0; i < values.length; i++) {
+    var key = values[i][0] ? String(values[i][0]).trim() : '';
+    if (key) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+/**
+ * FNV-1a (32-bit, hex) over the sorted, de-duplicated keys joined by newlines.
+ * Must match computeKeySetHash in src/utils/deltaSyncIntegrity.ts.
+ */
+function computeKeySetHash(keys) {
+  var unique = {};
+  for (var i = 0; i < keys.length; i++) {
+    unique[keys[i]] = true;
+  }
+  var sorted = Object.keys(unique).sort();
+  var joined = sorted.join('\n');
+  var hash = 0x811c9dc5;
+  for (var j = 0; j < joined.length; j++) {
+    hash ^= joined.charCodeAt(j);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  var hex = hash.toString(16);
+  while (hex.length < 8) {
+    hex = '0' + hex;
+  }
+  return hex;
+}
+
+/**
+ * Stored key set for a sheet (null when not seeded yet or unreadable).
+ * The JSON array is split over KEYSET_<sheet>_0..n-1, with the chunk count in KEYSET_<sheet>_COUNT.
+ */
+function loadKeySet(sheetName) {
+  try {
+    var props = PropertiesService.getScriptProperties().getProperties();
+    var prefix = KEY_SET_PROPERTY_PREFIX + sheetName + '_';
+    var count = parseInt(props[prefix + 'COUNT'] || '', 10);
+    if (!(count > 0)) {
+      // Key set stored before chunking
+      var legacy = props[KEY_SET_PROPERTY_PREFIX + sheetName];
+      return legacy ? JSON.parse(legacy) : null;
+    }
+    var raw = '';
+    for (var i = 0; i < count; i++) {
+      var chunk = props[prefix + i];
+      if (chunk === undefined || chunk === null) {
+        return null;
+      }
+      raw += chunk;
+    }
+    return JSON.parse(raw);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Store the key set for a sheet (compared against on the next row removal), in chunks small enough for
+ * one Script Property each. All chunks are written in one call; stale chunks of a larger earlier set are removed.
+ * When the set cannot be stored, deletions can no longer be detected: a 'resync' marker is logged so clients reload.
+ */
+function saveKeySet(sheetName, keys) {
+  if (!keys) {
+    return;
+  }
+  try {
+    var store = PropertiesService.getScriptProperties();
+    var prefix = KEY_SET_PROPERTY_PREFIX + sheetName + '_';
+    var previousCount = parseInt(store.getProperty(prefix + 'COUNT') || '0', 10) || 0;
+    var json = JSON.stringify(keys);
+    var chunks = {};
+    var count = 0;
+    for (var start = 0; start < json.length; start += KEY_SET_CHUNK_SIZE) {
+      chunks[prefix + count] = json.substring(start, start + KEY_SET_CHUNK_SIZE);
+      count++;
+    }
+    chunks[prefix + 'COUNT'] = String(count);
+    store.setProperties(chunks);
+    for (var i = count; i < previousCount; i++) {
+      store.deleteProperty(prefix + i);
+    }
+    // Key sets stored before chunking
+    store.deleteProperty(KEY_SET_PROPERTY_PREFIX + sheetName);
+  } catch (error) {
+    console.error('Failed to save key set for ' + sheetName + ':', error);
+    logResyncMarker(sheetName, 'key set not stored');
+  }
+}
+
+/**
+ * Log a 'resync' operation: handleChanges answers needsFullResync to clients that have not seen it yet
+ */
+function logResyncMarker(sheetName, reason) {
+  try {
+    var changeLogSheet = ensureChangeLogSheet(SpreadsheetApp.openById(SHEET_ID));
+    if (changeLogSheet) {
+      appendChangeLogRow(changeLogSheet, sheetName, 0, '', [], [], 'resync', reason);
+    }
+  } catch (error) {
+    console.error('Failed to log resync marker for ' + sheetName + ':', error);
+  }
+}
+
 /**
  * Ensure ChangeLog sheet exists, create if needed
  */
@@ -442,20 +674,15 @@ function ensureChangeLogSheet(ss) {
       changeLogSheet = ss.insertSheet(CHANGE_LOG_SHEET_NAME);
       
       // Add headers
-      changeLogSheet.getRange(1, 1, 1, 7).setValues([[
-        'changeId',
-        'tsISO',
-        'sheetName',
-        'rowIndex',
-        'key',
-        'changedColumns',
-        'rowValuesJson'
-      ]]);
+      changeLogSheet.getRange(1, 1, 1, CHANGE_LOG_HEADERS.length).setValues([CHANGE_LOG_HEADERS]);
       
       // Format header row
-      var headerRange = changeLogSheet.getRange(1, 1, 1, 7);
+      var headerRange = changeLogSheet.getRange(1, 1, 1, CHANGE_LOG_HEADERS.length);
       headerRange.setFontWeight('bold');
       headerRange.setBackground('#e0e0e0');
+    } else if (changeLogSheet.getLastColumn() < CHANGE_LOG_HEADERS.length) {
+      // ChangeLog created before op/previousKey columns: extend the header row
+      changeLogSheet.getRange(1, 1, 1, CHANGE_LOG_HEADERS.length).setValues([CHANGE_LOG_HEADERS]);
     }
     
     return changeLogSheet;
@@ -551,26 +778,36 @@ function createSuccessResponse(data) {
 }
 
 /**
- * Install onEdit trigger (run this once after deploying)
+ * Install triggers (run this once after deploying)
  */
 function installTriggers() {
   try {
     var ss = SpreadsheetApp.openById(SHEET_ID);
     var triggers = ScriptApp.getProjectTriggers();
     
-    // Remove existing onEdit triggers for this function
+    // Remove existing onEdit / onSheetChange triggers for these functions
     for (var i = 0; i < triggers.length; i++) {
-      if (triggers[i].getHandlerFunction() === 'onEdit') {
+      var handler = triggers[i].getHandlerFunction();
+      if (handler === 'onEdit' || handler === 'onSheetChange') {
         ScriptApp.deleteTrigger(triggers[i]);
       }
     }
     
     // Note: onEdit is a simple trigger that doesn't need to be installed
     // It's automatically triggered by Google Sheets on edits
-    // This function is kept for documentation purposes
-    
     console.log('onEdit trigger is automatically handled by Google Sheets');
-    console.log('No manual trigger installation needed');
+    
+    // Row deletions only reach installable onChange triggers
+    ScriptApp.newTrigger('onSheetChange').forSpreadsheet(ss).onChange().create();
+    
+    // Seed key sets so the first row removal can be detected
+    for (var s = 0; s < MONITORED_SHEETS.length; s++) {
+      var sheet = ss.getSheetByName(MONITORED_SHEETS[s]);
+      if (sheet) {
+        saveKeySet(MONITORED_SHEETS[s], readSheetKeys(sheet));
+      }
+    }
+    console.log('onSheetChange trigger installed and key sets seeded');
     
   } catch (error) {
     console.error('Error in installTriggers:', error);
@@ -2,15 +2,27 @@
  * Admin Refresh Helpers
  *
  * Fetch from Apps Script, transform, and write to viewData.
- * Self-contained transformer logic (no imports from client src).
+ * The transforms come from shared/sheetTransforms.ts, the same module the client and its worker use.
  */
 
 import * as admin from 'firebase-admin';
+import {
+  SHEET_TRANSFORM_VERSION,
+  buildScoreBoardLookups,
+  transformBenjaminGrahamRows,
+  transformIndustryThresholdRows,
+  transformPEIndustryRows,
+  transformSMARows,
+  transformScoreBoardRows,
+  type DataRow,
+  type SheetSMARow,
+  type SheetScoreBoardRow,
+} from '../../shared/sheetTransforms';
+import { DASHBOARD_SCHEMA, INDUSTRY_THRESHOLD_SCHEMA, SMA_SCHEMA, type SheetSchema } from '../../shared/sheetSchema';
+import { diagnoseSheet } from '../../shared/sheetDiagnostics';
+import { diffAgainstStoredView, type ViewRefreshDiff } from './refreshDiffHelpers';
 
-// Types matching client
-type DataRow = Record<string, string | number | undefined>;
-
-interface SnapshotResponse {
+export interface SnapshotResponse {
   ok: boolean;
   version: number;
   headers: string[];
@@ -28,76 +40,7 @@ interface SnapshotResponse {
 
 const DEFAULT_TTL_MS = 30 * 60 * 1000;
 
-function getValue(possibleNames: string[], row: DataRow): string {
-  for (const name of possibleNames) {
-    const value = row[name];
-    if (value !== undefined && value !== null && value !== '') {
-      return String(value).trim();
-    }
-    const lowerName = name.toLowerCase();
-    for (const key in row) {
-      if (key.toLowerCase() === lowerName) {
-        const val = row[key];
-        if (val !== undefined && val !== null && val !== '') {
-          return String(val).trim();
-        }
-      }
-    }
-  }
-  return '';
-}
-
-function getValueAllowZero(possibleNames: string[], row: DataRow): string {
-  for (const name of possibleNames) {
-    const value = row[name];
-    if (value !== undefined && value !== null) {
-      if (value === 0 || value === '0') return '0';
-      if (value === '') continue;
-      return String(value).trim();
-    }
-    const lowerName = name.toLowerCase();
-    for (const key in row) {
-      if (key.toLowerCase() === lowerName) {
-        const val = row[key];
-        if (val !== undefined && val !== null) {
-          if (val === 0 || val === '0') return '0';
-          if (val === '') continue;
-          return String(val).trim();
-        }
-      }
-    }
-  }
-  return '';
-}
-
-function isValidValue(value: string): boolean {
-  if (!value) return false;
-  const n = value.trim().toUpperCase();
-  return n !== '#N/A' && n !== 'N/A' && n !== '#NUM!' && n !== '#VALUE!' && n !== '#DIV/0!' && n !== '#REF!' && n !== 'LOADING...';
-}
-
-function parseNum(s: string): number | null {
-  if (!s || typeof s !== 'string' || !isValidValue(s)) return null;
-  const cleaned = String(s).replace(/,/g, '.').replace(/\s/g, '').replace(/#/g, '').replace(/%/g, '').replace(/\$/g, '');
-  const n = parseFloat(cleaned);
-  if (typeof n !== 'number' || isNaN(n) || !isFinite(n)) return null;
-  return n;
-}
-
-function parsePct(s: string): number | null {
-  return parseNum(s);
-}
-
-function median(values: number[]): number | null {
-  if (!values || values.length === 0) return null;
-  const valid = values.filter((v) => typeof v === 'number' && !isNaN(v) && isFinite(v));
-  if (valid.length === 0) return null;
-  const sorted = [...valid].sort((a, b) => a - b);
-  const mid = Math.floor(sorted.length / 2);
-  return sorted.length % 2 === 0 ? (sorted[mid - 1]! + sorted[mid]!) / 2 : sorted[mid]!;
-}
-
-function snapshotToDataRows(snapshot: SnapshotResponse): DataRow[] {
+export function snapshotToDataRows(snapshot: SnapshotResponse): DataRow[] {
   const dataRows: DataRow[] = [];
   for (const row of snapshot.rows || []) {
     if (!row?.values || !Array.isArray(row.values)) continue;
@@ -111,146 +54,19 @@ function snapshotToDataRows(snapshot: SnapshotResponse): DataRow[] {
   return dataRows;
 }
 
-function transformBenjaminGraham(data: DataRow[]): Array<Record<string, unknown>> {
-  return data
-    .map((row) => {
-      const companyName = getValue(['Company Name', 'Company', 'company'], row);
-      const ticker = getValue(['Ticker', 'ticker', 'Ticket', 'ticket', 'Symbol', 'symbol'], row);
-      if (!isValidValue(companyName) || !isValidValue(ticker)) return null;
-      return {
-        companyName,
-        ticker,
-        price: parseNum(getValue(['Price', 'price', 'PRICE'], row)),
-        ivFcf: parseNum(getValue(['IV (FCF)', 'IV(FCF)', 'iv fcf', 'ivfcf'], row)),
-        irr1: parseNum(getValue(['IRR1', 'irr1', 'IRR 1', 'irr 1'], row)),
-      };
-    })
-    .filter((x): x is NonNullable<typeof x> => x !== null);
-}
-
-function transformPEIndustry(data: DataRow[]): Array<Record<string, unknown>> {
-  const industryMap = new Map<string, { pe: number[]; pe1: number[]; pe2: number[]; count: number }>();
-  for (const row of data) {
-    const companyName = getValue(['Company Name', 'Company', 'company'], row);
-    const ticker = getValue(['Ticker', 'ticker', 'Ticket', 'ticket', 'Symbol', 'symbol'], row);
-    const industry = getValue(['INDUSTRY', 'Industry', 'industry'], row);
-    if (!isValidValue(companyName) || !isValidValue(ticker) || !isValidValue(industry)) continue;
-    let d = industryMap.get(industry);
-    if (!d) {
-      d = { pe: [], pe1: [], pe2: [], count: 0 };
-      industryMap.set(industry, d);
-    }
-    d.count++;
-    const pe = parseNum(getValue(['P/E', 'P/E', 'pe', 'PE'], row));
-    const pe1 = parseNum(getValue(['P/E1', 'P/E 1', 'pe1', 'PE1'], row));
-    const pe2 = parseNum(getValue(['P/E2', 'P/E 2', 'pe2', 'PE2'], row));
-    if (pe !== null) d.pe.push(pe);
-    if (pe1 !== null) d.pe1.push(pe1);
-    if (pe2 !== null) d.pe2.push(pe2);
-  }
-  return Array.from(industryMap.entries())
-    .filter(([, d]) => d.count > 0)
-    .map(([industry, d]) => ({
-      industry,
-      pe: median(d.pe),
-      pe1: median(d.pe1),
-      pe2: median(d.pe2),
-      companyCount: d.count,
-    }));
+/** Score board rows from DashBoard rows, with P/E vs industry median and the SMA values joined in */
+export function buildScoreBoard(dashData: DataRow[], smaData: SheetSMARow[]): SheetScoreBoardRow[] {
+  return transformScoreBoardRows(dashData, buildScoreBoardLookups(transformPEIndustryRows(dashData), smaData));
 }
 
-function transformIndustryThreshold(data: DataRow[]): Array<Record<string, unknown>> {
-  return data
-    .map((row) => {
-      const industry = getValue(['Industry', 'INDUSTRY', 'industry'], row);
-      if (!isValidValue(industry)) return null;
-      const leverageF2Min = parseNum(getValue(['Leverage F2 Min', 'Leverage F2 min', 'leverageF2Min', 'leverageF2Min'], row));
-      const leverageF2Max = parseNum(getValue(['Leverage F2 Max', 'Leverage F2 max', 'leverageF2Max', 'leverageF2Max'], row));
-      const cashSdebtMin = parseNum(getValue(['Cash/SDebt Min', 'Cash/SDebt min', 'cashSdebtMin', 'cashSdebtMin'], row));
-      const cashSdebtMax = parseNum(getValue(['Cash/SDebt Max', 'Cash/SDebt max', 'cashSdebtMax', 'cashSdebtMax'], row));
-      const currentRatioMin = parseNum(getValue(['Current Ratio Min', 'Current Ratio min', 'currentRatioMin', 'currentRatioMin'], row));
-      const currentRatioMax = parseNum(getValue(['Current Ratio Max', 'Current Ratio max', 'currentRatioMax', 'currentRatioMax'], row));
-      return {
-        industry,
-        leverageF2Min: leverageF2Min ?? 0,
-        leverageF2Max: leverageF2Max ?? 0,
-        cashSdebtMin: cashSdebtMin ?? 0,
-        cashSdebtMax: cashSdebtMax ?? 0,
-        currentRatioMin: currentRatioMin ?? 0,
-        currentRatioMax: currentRatioMax ?? 0,
-      };
-    })
-    .filter((x): x is NonNullable<typeof x> => x !== null);
-}
-
-function transformSMA(data: DataRow[]): Array<Record<string, unknown>> {
-  return data
-    .map((row) => {
-      const companyName = getValue(['Company Name', 'Company', 'company'], row);
-      const ticker = getValue(['Ticker', 'ticker', 'Ticket', 'ticket', 'Symbol', 'symbol'], row);
-      if (!isValidValue(companyName) && !isValidValue(ticker)) return null;
-      return {
-        companyName,
-        ticker,
-        sma9: parseNum(getValue(['SMA(9)', 'sma(9)', 'sma9', 'SMA9'], row)),
-        sma21: parseNum(getValue(['SMA(21)', 'sma(21)', 'sma21', 'SMA21'], row)),
-        sma55: parseNum(getValue(['SMA(55)', 'sma(55)', 'sma55', 'SMA55'], row)),
-        sma200: parseNum(getValue(['SMA(200)', 'SMA(200)', 'sma(200)', 'sma200', 'SMA200'], row)),
-      };
-    })
-    .filter((x): x is NonNullable<typeof x> => x !== null);
-}
-
-function transformScoreBoard(
-  data: DataRow[],
-  industryPe1Map: Map<string, number>,
-  industryPe2Map: Map<string, number>,
-  smaDataMap: Map<string, { sma200: number | null }>
-): Array<Record<string, unknown>> {
-  return data
-    .map((row) => {
-      const companyName = getValueAllowZero(['Company Name', 'Company', 'company'], row);
-      const ticker = getValueAllowZero(['Ticker', 'ticker', 'Ticket', 'ticket', 'Symbol', 'symbol'], row);
-      const industryStr = getValueAllowZero(['INDUSTRY', 'Industry', 'industry'], row);
-      if (!isValidValue(companyName) || !isValidValue(ticker)) return null;
-      const cashSdebtStr = getValueAllowZero(['Cash/SDebt', 'Cash/SDebt', 'cash/sdebt', 'CASH/SDEBT'], row);
-      const isDiv0 =
-        cashSdebtStr &&
-        (cashSdebtStr.trim().toUpperCase() === '#DIV/0!' ||
-          cashSdebtStr.trim().toUpperCase() === 'INF' ||
-          cashSdebtStr.trim().toUpperCase() === '∞');
-      const cashSdebt = parseNum(cashSdebtStr);
-      const finalCashSdebt = isDiv0 ? 0 : cashSdebt;
-      const pe1 = parseNum(getValueAllowZero(['P/E1', 'P/E 1', 'pe1', 'PE1'], row));
-      const pe2 = parseNum(getValueAllowZero(['P/E2', 'P/E 2', 'pe2', 'PE2'], row));
-      let pe1Industry: number | null = null;
-      let pe2Industry: number | null = null;
-      if (isValidValue(industryStr) && pe1 !== null && pe1 > 0) {
-        const m = industryPe1Map.get(industryStr.trim().toLowerCase());
-        if (m !== undefined && m > 0) pe1Industry = ((pe1 - m) / m) * 100;
-      }
-      if (isValidValue(industryStr) && pe2 !== null && pe2 > 0) {
-        const m = industryPe2Map.get(industryStr.trim().toLowerCase());
-        if (m !== undefined && m > 0) pe2Industry = ((pe2 - m) / m) * 100;
-      }
-      const tickerKey = ticker.toLowerCase().trim();
-      const smaMatch = smaDataMap.get(tickerKey);
-      return {
-        companyName,
-        ticker,
-        industry: industryStr || '',
-        mungerQualityScore: parseNum(getValueAllowZero(['Munger Quality Score', 'Munger Quality Score', 'munger quality score', 'MUNGER QUALITY SCORE'], row)),
-        valueCreation: parsePct(getValueAllowZero(['VALUE CREATION', 'Value Creation', 'value creation', 'VALUE_CREATION'], row)),
-        leverageF2: parseNum(getValueAllowZero(['Leverage F2', 'Leverage F2', 'leverage f2', 'LEVERAGE F2'], row)),
-        currentRatio: parseNum(getValueAllowZero(['Current Ratio', 'Current Ratio', 'current ratio', 'CURRENT RATIO'], row)),
-        cashSdebt: finalCashSdebt,
-        isCashSdebtDivZero: !!isDiv0,
-        pe1Industry,
-        pe2Industry,
-        sma200: smaMatch?.sma200 ?? null,
-      };
-    })
-    .filter((x): x is NonNullable<typeof x> => x !== null);
+/**
+ * Store the column-mapping diagnostics of a fetched sheet in sheetDiagnostics/{schemaId} (Data Health admin view).
+ * Snapshots without headers (a failed SMA fetch is replaced by an empty one) are skipped.
+ */
+async function writeSheetDiagnostics(schema: SheetSchema, snapshot: SnapshotResponse | null): Promise<void> {
+  if (!snapshot || snapshot.headers.length === 0) return;
+  const diagnostics = diagnoseSheet(schema, snapshot.headers, snapshotToDataRows(snapshot));
+  await admin.firestore().collection('sheetDiagnostics').doc(schema.id).set(diagnostics);
 }
 
 export interface RefreshResult {
@@ -260,6 +76,8 @@ export interface RefreshResult {
   wroteViewData: boolean;
   wroteAppCache: boolean;
   durationMs: number;
+  /** Diff against the previous viewData payload */
+  changes: ViewRefreshDiff | null;
 }
 
 const VIEWIDS_FROM_SHEETS = ['score', 'score-board', 'entry-exit-benjamin-graham', 'fundamental-pe-industry', 'industry-threshold'] as const;
@@ -309,7 +127,8 @@ export async function runAdminRefresh(
   viewIds: string[],
   adminUid: string,
   migrationMode: 'dual-write' | 'dual-read' | 'cutover',
-  dryRun: boolean
+  dryRun: boolean,
+  source: 'adminRefreshCache' | 'scheduledRefreshCache' = 'adminRefreshCache'
 ): Promise<{ refreshed: RefreshResult[]; errors: string[] }> {
   const refreshed: RefreshResult[] = [];
   const errors: string[] = [];
@@ -321,6 +140,7 @@ export async function runAdminRefresh(
 
   let dashboardSnapshot: SnapshotResponse | null = null;
   let smaSnapshot: SnapshotResponse | null = null;
+  let thresholdSnapshot: SnapshotResponse | null = null;
 
   for (const viewId of effectiveViewIds) {
     const start = Date.now();
@@ -337,21 +157,12 @@ export async function runAdminRefresh(
             smaSnapshot = { ok: true, version: 0, headers: [], rows: [], generatedAt: new Date().toISOString() };
           }
         }
-        const dashData = snapshotToDataRows(dashboardSnapshot);
-        const peData = transformPEIndustry(dashData);
-        const smaData = transformSMA(snapshotToDataRows(smaSnapshot));
-        const industryPe1Map = new Map<string, number>();
-        const industryPe2Map = new Map<string, number>();
-        for (const p of peData as Array<{ industry: string; pe1?: number | null; pe2?: number | null }>) {
-          if (p.pe1 != null) industryPe1Map.set(p.industry.toLowerCase(), p.pe1);
-          if (p.pe2 != null) industryPe2Map.set(p.industry.toLowerCase(), p.pe2);
-        }
-        const smaDataMap = new Map<string, { sma200: number | null }>();
-        for (const s of smaData as Array<{ ticker: string; sma200?: number | null }>) {
-          smaDataMap.set(s.ticker.toLowerCase().trim(), { sma200: s.sma200 ?? null });
-        }
-        const scoreBoard = transformScoreBoard(dashData, industryPe1Map, industryPe2Map, smaDataMap);
+        const scoreBoard = buildScoreBoard(
+          snapshotToDataRows(dashboardSnapshot),
+          transformSMARows(snapshotToDataRows(smaSnapshot))
+        );
         const payload = { scoreBoard };
+        const changes = await diffAgainstStoredView(viewId, payload);
         if (!dryRun) {
           const now = Date.now();
           const doc = {
@@ -359,7 +170,8 @@ export async function runAdminRefresh(
             timestamp: now,
             ttl: DEFAULT_TTL_MS,
             schemaVersion: 1,
-            source: 'adminRefreshCache',
+            transformVersion: SHEET_TRANSFORM_VERSION,
+            source,
             updatedBy: adminUid,
           };
           await db.collection('viewData').doc(viewId).set(doc, { merge: false });
@@ -380,18 +192,20 @@ export async function runAdminRefresh(
         refreshed.push({
           viewId,
           rows: scoreBoard.length,
-          source: 'adminRefreshCache',
+          source,
           wroteViewData: !dryRun,
           wroteAppCache: !dryRun && migrationMode !== 'cutover' && viewId === 'score-board',
           durationMs: Date.now() - start,
+          changes,
         });
       } else if (viewId === 'entry-exit-benjamin-graham') {
         if (!dashboardSnapshot) {
           dashboardSnapshot = await fetchAppsScriptSnapshot(baseUrl, token, 'DashBoard');
         }
         const dashData = snapshotToDataRows(dashboardSnapshot);
-        const benjaminGraham = transformBenjaminGraham(dashData);
+        const benjaminGraham = transformBenjaminGrahamRows(dashData);
         const payload = { benjaminGraham };
+        const changes = await diffAgainstStoredView(viewId, payload);
         if (!dryRun) {
           const now = Date.now();
           await db.collection('viewData').doc(viewId).set(
@@ -400,7 +214,8 @@ export async function runAdminRefresh(
               timestamp: now,
               ttl: DEFAULT_TTL_MS,
               schemaVersion: 1,
-              source: 'adminRefreshCache',
+              transformVersion: SHEET_TRANSFORM_VERSION,
+              source,
               updatedBy: adminUid,
             },
             { merge: false }
@@ -422,18 +237,20 @@ export async function runAdminRefresh(
         refreshed.push({
           viewId,
           rows: benjaminGraham.length,
-          source: 'adminRefreshCache',
+          source,
           wroteViewData: !dryRun,
           wroteAppCache: !dryRun && migrationMode !== 'cutover',
           durationMs: Date.now() - start,
+          changes,
         });
       } else if (viewId === 'fundamental-pe-industry') {
         if (!dashboardSnapshot) {
           dashboardSnapshot = await fetchAppsScriptSnapshot(baseUrl, token, 'DashBoard');
         }
         const dashData = snapshotToDataRows(dashboardSnapshot);
-        const peIndustry = transformPEIndustry(dashData);
+        const peIndustry = transformPEIndustryRows(dashData);
         const payload = { peIndustry };
+        const changes = await diffAgainstStoredView(viewId, payload);
         if (!dryRun) {
           const now = Date.now();
           await db.collection('viewData').doc(viewId).set(
@@ -442,7 +259,8 @@ export async function runAdminRefresh(
               timestamp: now,
               ttl: DEFAULT_TTL_MS,
               schemaVersion: 1,
-              source: 'adminRefreshCache',
+              transformVersion: SHEET_TRANSFORM_VERSION,
+              source,
               updatedBy: adminUid,
             },
             { merge: false }
@@ -464,16 +282,18 @@ export async function runAdminRefresh(
         refreshed.push({
           viewId,
           rows: peIndustry.length,
-          source: 'adminRefreshCache',
+          source,
           wroteViewData: !dryRun,
           wroteAppCache: !dryRun && migrationMode !== 'cutover',
           durationMs: Date.now() - start,
+          changes,
         });
       } else if (viewId === 'industry-threshold') {
         const sheetName = VIEWID_TO_SHEET['industry-threshold'] ?? 'IndustryThreshold';
-        const thresholdSnapshot = await fetchAppsScriptSnapshot(baseUrl, token, sheetName);
+        thresholdSnapshot = await fetchAppsScriptSnapshot(baseUrl, token, sheetName);
         const thresholdData = snapshotToDataRows(thresholdSnapshot);
-        const industryThreshold = transformIndustryThreshold(thresholdData);
+        const industryThreshold = transformIndustryThresholdRows(thresholdData);
+        const changes = await diffAgainstStoredView(viewId, { industryThreshold });
         if (!dryRun) {
           const now = Date.now();
           await db.collection('viewData').doc('industry-threshold').set(
@@ -482,7 +302,8 @@ export async function runAdminRefresh(
               timestamp: now,
               ttl: DEFAULT_TTL_MS,
               schemaVersion: 1,
-              source: 'adminRefreshCache',
+              transformVersion: SHEET_TRANSFORM_VERSION,
+              source,
               updatedBy: adminUid,
             },
             { merge: true }
@@ -504,10 +325,11 @@ export async function runAdminRefresh(
         refreshed.push({
           viewId,
           rows: industryThreshold.length,
-          source: 'adminRefreshCache',
+          source,
           wroteViewData: !dryRun,
           wroteAppCache: !dryRun && migrationMode !== 'cutover',
           durationMs: Date.now() - start,
+          changes,
         });
       }
     } catch (err) {
@@ -516,5 +338,15 @@ export async function runAdminRefresh(
     }
   }
 
+  if (!dryRun) {
+    try {
+      await writeSheetDiagnostics(DASHBOARD_SCHEMA, dashboardSnapshot);
+      await writeSheetDiagnostics(SMA_SCHEMA, smaSnapshot);
+      await writeSheetDiagnostics(INDUSTRY_THRESHOLD_SCHEMA, thresholdSnapshot);
+    } catch (err) {
+      errors.push(`sheetDiagnostics: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
   return { refreshed, errors };
 }
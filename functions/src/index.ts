@@ -4,11 +4,21 @@ import * as admin from 'firebase-admin';
 admin.initializeApp();
 
 // Middleware för att verifiera admin-autentisering
+// The ID token is re-verified with checkRevoked, so a disabled or revoked admin is refused at once rather than
+// when the token expires
 async function verifyAdmin(context: functions.https.CallableContext): Promise<void> {
   if (!context.auth) {
     throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
   }
 
+  const idToken = context.rawRequest?.headers.authorization?.replace(/^Bearer\s+/i, '');
+  try {
+    if (!idToken) throw new Error('Missing ID token');
+    await admin.auth().verifyIdToken(idToken, true);
+  } catch {
+    throw new functions.https.HttpsError('unauthenticated', 'Session has expired or been revoked');
+  }
+
   const token = await admin.auth().getUser(context.auth.uid);
   const claims = token.customClaims || {};
   
@@ -93,6 +103,16 @@ export const adminRefreshCache = functions.https.onCall(async (data, context) =>
 
     const resultsSummary = { refreshed: refreshed.length, errors: errors.length };
 
+    if (!isDryRun) {
+      const { recordRefreshRun } = await import('./refreshDiffHelpers');
+      await recordRefreshRun(
+        'manual',
+        adminUid,
+        refreshed.flatMap((r) => (r.changes ? [r.changes] : [])),
+        errors
+      );
+    }
+
     await admin.firestore().collection('adminActions').add({
       action: 'adminRefreshCache',
       adminUid,
@@ -116,6 +136,163 @@ export const adminRefreshCache = functions.https.onCall(async (data, context) =>
   }
 });
 
+// Scheduled refresh of all viewData during market hours (cron and time zone configurable via env, read at deploy).
+// Covers the default universe only: extra universes are client config (VITE_UNIVERSES) and refresh from the client.
+const SCHEDULED_REFRESH_CRON = process.env.SCHEDULED_REFRESH_CRON || '*/30 9-22 * * 1-5';
+const SCHEDULED_REFRESH_TIME_ZONE = process.env.SCHEDULED_REFRESH_TIME_ZONE || 'Europe/Stockholm';
+
+export const scheduledRefreshCache = functions.pubsub
+  .schedule(SCHEDULED_REFRESH_CRON)
+  .timeZone(SCHEDULED_REFRESH_TIME_ZONE)
+  .onRun(async () => {
+    const appsScriptUrl =
+      (process.env.VITE_APPS_SCRIPT_URL as string) ||
+      (functions.config().apps_script?.url as string) ||
+      '';
+    const appsScriptToken =
+      (process.env.APPS_SCRIPT_TOKEN as string) ||
+      (functions.config().apps_script?.token as string) ||
+      '';
+
+    if (!appsScriptUrl) {
+      console.error('scheduledRefreshCache: APPS_SCRIPT_URL not configured');
+      return null;
+    }
+
+    const { runAdminRefresh } = await import('./adminRefreshHelpers');
+    const { recordRefreshRun } = await import('./refreshDiffHelpers');
+    const migrationMode = (
+      (process.env.VIEWDATA_MIGRATION_MODE as string) ||
+      (functions.config().viewdata?.migration_mode as string) ||
+      'dual-read'
+    ) as 'dual-write' | 'dual-read' | 'cutover';
+
+    try {
+      const { refreshed, errors } = await runAdminRefresh(
+        appsScriptUrl,
+        appsScriptToken || undefined,
+        [],
+        'system',
+        migrationMode,
+        false,
+        'scheduledRefreshCache'
+      );
+      await recordRefreshRun(
+        'scheduled',
+        'system',
+        refreshed.flatMap((r) => (r.changes ? [r.changes] : [])),
+        errors
+      );
+
+      await admin.firestore().collection('adminActions').add({
+        action: 'scheduledRefreshCache',
+        adminUid: 'system',
+        viewIds: ['all'],
+        resultsSummary: { refreshed: refreshed.length, errors: errors.length },
+        refreshed: refreshed.map((r) => ({ viewId: r.viewId, rows: r.rows, durationMs: r.durationMs })),
+        errors,
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } catch (error: unknown) {
+      console.error('scheduledRefreshCache error:', error);
+      await admin.firestore().collection('adminActions').add({
+        action: 'scheduledRefreshCache',
+        adminUid: 'system',
+        errors: [error instanceof Error ? error.message : String(error)],
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+    return null;
+  });
+
+// Daily score snapshot - stores each ticker's score, per-metric colors and price in scoreHistory.
+// Default universe only; the client hides score history for other universes.
+export const dailyScoreSnapshot = functions.pubsub
+  .schedule('30 22 * * *')
+  .timeZone('Europe/Stockholm')
+  .onRun(async () => {
+    const appsScriptUrl =
+      (process.env.VITE_APPS_SCRIPT_URL as string) ||
+      (functions.config().apps_script?.url as string) ||
+      '';
+    const appsScriptToken =
+      (process.env.APPS_SCRIPT_TOKEN as string) ||
+      (functions.config().apps_script?.token as string) ||
+      '';
+
+    if (!appsScriptUrl) {
+      console.error('dailyScoreSnapshot: APPS_SCRIPT_URL not configured');
+      return null;
+    }
+
+    const { runScoreSnapshot } = await import('./scoreSnapshotHelpers');
+
+    try {
+      const result = await runScoreSnapshot(appsScriptUrl, appsScriptToken || undefined);
+
+      await admin.firestore().collection('adminActions').add({
+        action: 'dailyScoreSnapshot',
+        adminUid: 'system',
+        resultsSummary: { tickers: result.tickers, date: result.date, modelVersion: result.modelVersion },
+        durationMs: result.durationMs,
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } catch (error: unknown) {
+      console.error('dailyScoreSnapshot error:', error);
+      await admin.firestore().collection('adminActions').add({
+        action: 'dailyScoreSnapshot',
+        adminUid: 'system',
+        errors: [error instanceof Error ? error.message : String(error)],
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+    return null;
+  });
+
+// Daily portfolio snapshot - values every user's portfolio in USD and base currency in
+// userPortfolios/{uid}/snapshots. The Personal Portfolio view only writes today's snapshot when this one is missing.
+export const dailyPortfolioSnapshot = functions.pubsub
+  .schedule('45 22 * * *')
+  .timeZone('Europe/Stockholm')
+  .onRun(async () => {
+    const appsScriptUrl =
+      (process.env.VITE_APPS_SCRIPT_URL as string) ||
+      (functions.config().apps_script?.url as string) ||
+      '';
+    const appsScriptToken =
+      (process.env.APPS_SCRIPT_TOKEN as string) ||
+      (functions.config().apps_script?.token as string) ||
+      '';
+
+    if (!appsScriptUrl) {
+      console.error('dailyPortfolioSnapshot: APPS_SCRIPT_URL not configured');
+      return null;
+    }
+
+    const { runPortfolioSnapshots } = await import('./portfolioSnapshotHelpers');
+
+    try {
+      const result = await runPortfolioSnapshots(appsScriptUrl, appsScriptToken || undefined);
+
+      await admin.firestore().collection('adminActions').add({
+        action: 'dailyPortfolioSnapshot',
+        adminUid: 'system',
+        resultsSummary: { portfolios: result.portfolios, written: result.written, date: result.date },
+        durationMs: result.durationMs,
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } catch (error: unknown) {
+      console.error('dailyPortfolioSnapshot error:', error);
+      await admin.firestore().collection('adminActions').add({
+        action: 'dailyPortfolioSnapshot',
+        adminUid: 'system',
+        errors: [error instanceof Error ? error.message : String(error)],
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+    return null;
+  });
+
 /**
  * Apps Script Proxy - allows client to send token in Authorization header only.
  * Proxy validates token and forwards to Apps Script with token in body (Apps Script cannot read headers).
@@ -252,3 +429,138 @@ export const deleteUserAccount = functions.https.onCall(async (data, context) =>
     deletedDocs,
   };
 });
+
+// Admin user management - list users from userData with role, allowedViews and disabled state from Auth
+export const adminListUsers = functions.https.onCall(async (_data, context) => {
+  await verifyAdmin(context);
+
+  try {
+    const { listManagedUsers } = await import('./userAdminHelpers');
+    const users = await listManagedUsers();
+    return { users };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('adminListUsers error:', error);
+    throw new functions.https.HttpsError('internal', errorMessage);
+  }
+});
+
+// Admin user management - grant or revoke a single view for a viewer
+export const adminSetUserView = functions.https.onCall(async (data, context) => {
+  await verifyAdmin(context);
+
+  const adminUid = context.auth!.uid;
+  const { uid, viewId, allowed } = data || {};
+  const helpers = await import('./userAdminHelpers');
+
+  if (typeof uid !== 'string' || !uid) {
+    throw new functions.https.HttpsError('invalid-argument', 'uid is required');
+  }
+  if (!helpers.isGrantableViewId(viewId)) {
+    throw new functions.https.HttpsError('invalid-argument', `View cannot be granted: ${String(viewId)}`);
+  }
+  if (typeof allowed !== 'boolean') {
+    throw new functions.https.HttpsError('invalid-argument', 'allowed must be a boolean');
+  }
+
+  try {
+    const userRecord = await admin.auth().getUser(uid);
+    const claims = (userRecord.customClaims || {}) as Record<string, unknown>;
+    const before = helpers.readAllowedViews(claims).filter((v) => v !== 'score');
+    const after = allowed
+      ? Array.from(new Set([...before, viewId])).sort()
+      : before.filter((v) => v !== viewId);
+
+    await admin.auth().setCustomUserClaims(uid, { ...claims, allowedViews: helpers.toAllowedViewsClaim(after) });
+    await admin.firestore().doc(`userData/${uid}`).set({ allowedViews: after }, { merge: true });
+    await helpers.recordUserAdminAction(
+      allowed ? 'grantView' : 'revokeView',
+      adminUid,
+      uid,
+      { allowedViews: before },
+      { allowedViews: after, viewId }
+    );
+
+    return { success: true, allowedViews: after };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('adminSetUserView error:', error);
+    throw new functions.https.HttpsError('internal', errorMessage);
+  }
+});
+
+// Admin user management - promote to admin or demote to viewer
+export const adminSetUserRole = functions.https.onCall(async (data, context) => {
+  await verifyAdmin(context);
+
+  const adminUid = context.auth!.uid;
+  const { uid, role } = data || {};
+
+  if (typeof uid !== 'string' || !uid) {
+    throw new functions.https.HttpsError('invalid-argument', 'uid is required');
+  }
+  if (role !== 'viewer' && role !== 'admin') {
+    throw new functions.https.HttpsError('invalid-argument', 'role must be viewer or admin');
+  }
+  if (uid === adminUid && role !== 'admin') {
+    throw new functions.https.HttpsError('failed-precondition', 'You cannot demote your own account');
+  }
+
+  const helpers = await import('./userAdminHelpers');
+
+  try {
+    const userRecord = await admin.auth().getUser(uid);
+    const claims = (userRecord.customClaims || {}) as Record<string, unknown>;
+    const before = helpers.readRole(claims);
+
+    await admin.auth().setCustomUserClaims(uid, { ...claims, role });
+    await admin.firestore().doc(`userData/${uid}`).set({ role }, { merge: true });
+    await helpers.recordUserAdminAction(role === 'admin' ? 'promoteAdmin' : 'demoteAdmin', adminUid, uid, { role: before }, { role });
+
+    return { success: true, role };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('adminSetUserRole error:', error);
+    throw new functions.https.HttpsError('internal', errorMessage);
+  }
+});
+
+// Admin user management - disable or re-enable an account (disabling also revokes refresh tokens).
+// The callables refuse a disabled user at once (verifyAdmin checks revocation), but Firestore rules do not:
+// the user's current ID token keeps its read access until it expires, at most an hour later
+export const adminSetUserDisabled = functions.https.onCall(async (data, context) => {
+  await verifyAdmin(context);
+
+  const adminUid = context.auth!.uid;
+  const { uid, disabled } = data || {};
+
+  if (typeof uid !== 'string' || !uid) {
+    throw new functions.https.HttpsError('invalid-argument', 'uid is required');
+  }
+  if (typeof disabled !== 'boolean') {
+    throw new functions.https.HttpsError('invalid-argument', 'disabled must be a boolean');
+  }
+  if (uid === adminUid && disabled) {
+    throw new functions.https.HttpsError('failed-precondition', 'You cannot disable your own account');
+  }
+
+  const { recordUserAdminAction } = await import('./userAdminHelpers');
+
+  try {
+    const userRecord = await admin.auth().getUser(uid);
+    const before = userRecord.disabled;
+
+    await admin.auth().updateUser(uid, { disabled });
+    if (disabled) {
+      await admin.auth().revokeRefreshTokens(uid);
+    }
+    await admin.firestore().doc(`userData/${uid}`).set({ disabled }, { merge: true });
+    await recordUserAdminAction(disabled ? 'disableUser' : 'enableUser', adminUid, uid, { disabled: before }, { disabled });
+
+    return { success: true, disabled };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('adminSetUserDisabled error:', error);
+    throw new functions.https.HttpsError('internal', errorMessage);
+  }
+});
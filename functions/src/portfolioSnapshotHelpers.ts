@@ -0,0 +1,156 @@
+/**
+ * Portfolio Snapshot Helpers
+ *
+ * Daily valuation snapshot of every user's portfolio in userPortfolios/{userId}/snapshots/{YYYY-MM-DD}.
+ * Holdings and valuation come from shared/portfolioSnapshot, the same module the Personal Portfolio view
+ * uses for its fallback write; prices from the DashBoard sheet, FX from the open ExchangeRate API with the
+ * client's cached rates (appCache/currency_rates_usd) as fallback.
+ */
+
+import * as admin from 'firebase-admin';
+import { transformBenjaminGrahamRows } from '../../shared/sheetTransforms';
+import {
+  createUSDRateLookup,
+  inferCurrencyFromTicker,
+  toSnapshotHoldings,
+  valuePortfolio,
+  type SnapshotPortfolioItem,
+} from '../../shared/portfolioSnapshot';
+import { fetchAppsScriptSnapshot, snapshotToDataRows } from './adminRefreshHelpers';
+import { toSnapshotDate } from './scoreSnapshotHelpers';
+
+export interface PortfolioSnapshotResult {
+  date: string;
+  portfolios: number;
+  written: number;
+  durationMs: number;
+}
+
+const PORTFOLIO_COLLECTION = 'userPortfolios';
+const SNAPSHOT_SUBCOLLECTION = 'snapshots';
+const BATCH_LIMIT = 450;
+const EXCHANGE_RATE_API_URL = 'https://open.er-api.com/v6/latest/USD';
+const DEFAULT_BASE_CURRENCY = 'USD';
+
+function toRateTable(raw: unknown): Record<string, number> | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const rates: Record<string, number> = {};
+  for (const [currency, rate] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof rate === 'number' && Number.isFinite(rate) && rate > 0) rates[currency] = rate;
+  }
+  return Object.keys(rates).length > 0 ? rates : null;
+}
+
+/** USD rates (units per 1 USD): the open API first, the client's cached rates when it fails */
+async function loadUSDRates(db: admin.firestore.Firestore): Promise<Record<string, number>> {
+  try {
+    const res = await fetch(EXCHANGE_RATE_API_URL);
+    if (res.ok) {
+      const json = (await res.json()) as { result?: string; rates?: unknown };
+      const rates = json.result === 'success' ? toRateTable(json.rates) : null;
+      if (rates) return rates;
+    }
+  } catch (error: unknown) {
+    console.warn('portfolioSnapshot: exchange rate API failed, using cached rates', error);
+  }
+  const cached = await db.doc('appCache/currency_rates_usd').get();
+  const rates = cached.exists ? toRateTable(cached.data()?.data?.rates) : null;
+  if (!rates) throw new Error('No exchange rates available');
+  return rates;
+}
+
+/** Stored portfolio lines with the fields the snapshot reads; malformed lines are skipped */
+export function parseSnapshotPortfolioItems(raw: unknown): SnapshotPortfolioItem[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((item: Record<string, unknown> | null) =>
+    item &&
+    typeof item.ticker === 'string' &&
+    typeof item.companyName === 'string' &&
+    typeof item.quantity === 'number'
+      ? [
+          {
+            ticker: item.ticker,
+            companyName: item.companyName,
+            quantity: item.quantity,
+            price: typeof item.price === 'number' ? item.price : null,
+          },
+        ]
+      : []
+  );
+}
+
+/**
+ * Fetch current DashBoard prices and write today's snapshot for every stored portfolio in the owner's base
+ * currency (userPreferences/{userId}.baseCurrency). Re-running on the same day overwrites.
+ */
+export async function runPortfolioSnapshots(
+  baseUrl: string,
+  token: string | undefined,
+  now: Date = new Date()
+): Promise<PortfolioSnapshotResult> {
+  const start = Date.now();
+  const db = admin.firestore();
+  const date = toSnapshotDate(now);
+
+  const dashboardSnapshot = await fetchAppsScriptSnapshot(baseUrl, token, 'DashBoard');
+  const prices = transformBenjaminGrahamRows(snapshotToDataRows(dashboardSnapshot));
+
+  const [portfolioSnap, entryExitSnap, usdRates] = await Promise.all([
+    db.collection(PORTFOLIO_COLLECTION).get(),
+    db.collection('entiryExit').get(),
+    loadUSDRates(db),
+  ]);
+  const getRate = createUSDRateLookup(usdRates);
+
+  // Currencies are keyed by company name on the client (getCurrencyForStock)
+  const currencyByCompany = new Map<string, string>();
+  entryExitSnap.forEach((d) => {
+    const data = d.data();
+    const companyName = typeof data.companyName === 'string' ? data.companyName : d.id;
+    if (typeof data.currency === 'string' && data.currency.trim() !== '') {
+      currencyByCompany.set(companyName, data.currency);
+    }
+  });
+  const currencyOf = (ticker: string, companyName: string) =>
+    currencyByCompany.get(companyName) ?? inferCurrencyFromTicker(ticker);
+
+  let batch = db.batch();
+  let pending = 0;
+  let written = 0;
+
+  for (const portfolioDoc of portfolioSnap.docs) {
+    const data = portfolioDoc.data();
+    const items = parseSnapshotPortfolioItems(data.portfolio);
+    if (items.length === 0) continue;
+
+    const prefs = await db.collection('userPreferences').doc(portfolioDoc.id).get();
+    const storedCurrency = prefs.exists ? prefs.data()?.baseCurrency : undefined;
+    const baseCurrency = typeof storedCurrency === 'string' ? storedCurrency : DEFAULT_BASE_CURRENCY;
+    const benchmarkTicker = data.performanceSettings?.benchmarkTicker;
+
+    const { holdings, benchmark } = toSnapshotHoldings(
+      items,
+      prices,
+      typeof benchmarkTicker === 'string' ? benchmarkTicker : null,
+      currencyOf
+    );
+    const snapshot = await valuePortfolio(holdings, benchmark, baseCurrency, date, getRate);
+    if (!snapshot) continue;
+
+    batch.set(
+      db.collection(PORTFOLIO_COLLECTION).doc(portfolioDoc.id).collection(SNAPSHOT_SUBCOLLECTION).doc(date),
+      snapshot
+    );
+    pending++;
+    written++;
+
+    if (pending >= BATCH_LIMIT) {
+      await batch.commit();
+      batch = db.batch();
+      pending = 0;
+    }
+  }
+  if (pending > 0) await batch.commit();
+
+  return { date, portfolios: portfolioSnap.size, written, durationMs: Date.now() - start };
+}
@@ -0,0 +1,121 @@
+/**
+ * Refresh Diff Helpers
+ *
+ * Compares a refreshed viewData payload with the previous one and stores per-run summaries in refreshRuns.
+ * Row changes are counted by shared/dataChanges.ts, the same detector the client data hooks use.
+ */
+
+import * as admin from 'firebase-admin';
+import { detectDataChanges, type DataChangeSummary } from '../../shared/dataChanges';
+
+/** Largest change in one score input for one company */
+export interface TopMover {
+  ticker: string;
+  companyName: string;
+  field: string;
+  oldValue: number;
+  newValue: number;
+  /** Relative change in percent (absolute change when the old value is 0) */
+  changePercent: number;
+}
+
+export interface ViewRefreshDiff extends DataChangeSummary {
+  viewId: string;
+  topMovers: TopMover[];
+}
+
+type Row = Record<string, unknown>;
+
+/** Score inputs compared for top movers (score-board / score rows) */
+export const SCORE_INPUT_FIELDS = [
+  'mungerQualityScore',
+  'valueCreation',
+  'leverageF2',
+  'currentRatio',
+  'cashSdebt',
+  'pe1Industry',
+  'pe2Industry',
+  'sma200',
+] as const;
+
+export const TOP_MOVERS_LIMIT = 10;
+
+/** Array key in viewData.data and the row key per view (matches the client hooks) */
+const VIEW_DIFF_CONFIG: Record<string, { dataKey: string; getKey: (row: Row) => string }> = {
+  'score-board': { dataKey: 'scoreBoard', getKey: (row) => `${row.ticker}-${row.companyName}` },
+  'score': { dataKey: 'scoreBoard', getKey: (row) => `${row.ticker}-${row.companyName}` },
+  'entry-exit-benjamin-graham': { dataKey: 'benjaminGraham', getKey: (row) => `${row.ticker}-${row.companyName}` },
+  'fundamental-pe-industry': { dataKey: 'peIndustry', getKey: (row) => String(row.industry) },
+  'industry-threshold': { dataKey: 'industryThreshold', getKey: (row) => String(row.industry) },
+};
+
+/** Companies whose score inputs moved the most (one entry per company, its largest relative move) */
+export function findTopMovers(oldRows: Row[], newRows: Row[], limit: number = TOP_MOVERS_LIMIT): TopMover[] {
+  const getKey = VIEW_DIFF_CONFIG['score-board']!.getKey;
+  const oldMap = new Map(oldRows.map((row) => [getKey(row), row]));
+  const movers: TopMover[] = [];
+
+  for (const row of newRows) {
+    const prev = oldMap.get(getKey(row));
+    if (!prev) continue;
+    let best: TopMover | null = null;
+    for (const field of SCORE_INPUT_FIELDS) {
+      const oldValue = prev[field];
+      const newValue = row[field];
+      if (typeof oldValue !== 'number' || typeof newValue !== 'number' || oldValue === newValue) continue;
+      const changePercent = oldValue !== 0 ? ((newValue - oldValue) / Math.abs(oldValue)) * 100 : newValue - oldValue;
+      if (!best || Math.abs(changePercent) > Math.abs(best.changePercent)) {
+        best = { ticker: String(row.ticker), companyName: String(row.companyName), field, oldValue, newValue, changePercent };
+      }
+    }
+    if (best) movers.push(best);
+  }
+
+  return movers.sort((a, b) => Math.abs(b.changePercent) - Math.abs(a.changePercent)).slice(0, limit);
+}
+
+/** Diff of one view's payload against the previous viewData payload; null for views without diff config */
+export function diffViewPayload(viewId: string, previousData: unknown, nextData: Record<string, unknown>): ViewRefreshDiff | null {
+  const config = VIEW_DIFF_CONFIG[viewId];
+  if (!config) return null;
+  const prevRows = previousData && typeof previousData === 'object' ? (previousData as Row)[config.dataKey] : null;
+  const oldRows = Array.isArray(prevRows) ? (prevRows as Row[]) : [];
+  const newRows = Array.isArray(nextData[config.dataKey]) ? (nextData[config.dataKey] as Row[]) : [];
+  const isScoreView = config.dataKey === 'scoreBoard';
+
+  return {
+    viewId,
+    ...detectDataChanges(oldRows, newRows, config.getKey),
+    topMovers: isScoreView ? findTopMovers(oldRows, newRows) : [],
+  };
+}
+
+/** Reads the current viewData payload for a view (before it is overwritten) and diffs the new payload against it */
+export async function diffAgainstStoredView(viewId: string, nextData: Record<string, unknown>): Promise<ViewRefreshDiff | null> {
+  const snap = await admin.firestore().collection('viewData').doc(viewId).get();
+  return diffViewPayload(viewId, snap.exists ? snap.get('data') : null, nextData);
+}
+
+/**
+ * Stores one refresh run in refreshRuns. 'score' duplicates 'score-board', so it is left out of the summary.
+ */
+export async function recordRefreshRun(
+  trigger: 'scheduled' | 'manual',
+  triggeredBy: string,
+  diffs: ViewRefreshDiff[],
+  errors: string[]
+): Promise<void> {
+  const views = diffs.filter((d) => d.viewId !== 'score');
+  await admin.firestore().collection('refreshRuns').add({
+    trigger,
+    triggeredBy,
+    views,
+    totals: {
+      added: views.reduce((sum, v) => sum + v.added, 0),
+      removed: views.reduce((sum, v) => sum + v.removed, 0),
+      updated: views.reduce((sum, v) => sum + v.updated, 0),
+    },
+    errors,
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
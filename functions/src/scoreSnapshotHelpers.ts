@@ -0,0 +1,166 @@
+/**
+ * Score Snapshot Helpers
+ *
+ * Daily snapshot of each ticker's score, per-metric colors and price. Colors, industry resolution and the
+ * scoring model come from shared/ (colorLogic, industries, scoringModel), the same modules the Score view uses.
+ */
+
+import * as admin from 'firebase-admin';
+import { transformBenjaminGrahamRows, transformSMARows, type SheetScoreBoardRow } from '../../shared/sheetTransforms';
+import { getSMATableColor, type ColorType, type TheoEntryValues } from '../../shared/colorLogic';
+import {
+  attachIndustryAliases,
+  buildIndustryThresholds,
+  type IndustryAliasTable,
+  type IndustryThreshold,
+  type IndustryThresholdValues,
+} from '../../shared/industries';
+import {
+  DEFAULT_SCORING_MODEL,
+  SCORE_METRIC_IDS,
+  getMetricColor,
+  parseScoringModel,
+  scoreFromColors,
+  type ScoreMetricId,
+} from '../../shared/scoringModel';
+import { fetchAppsScriptSnapshot, snapshotToDataRows, buildScoreBoard } from './adminRefreshHelpers';
+
+export interface ScoreSnapshotResult {
+  date: string;
+  tickers: number;
+  modelVersion: number;
+  durationMs: number;
+}
+
+const SNAPSHOT_COLLECTION = 'scoreHistory';
+const SNAPSHOT_SUBCOLLECTION = 'snapshots';
+const BATCH_LIMIT = 450;
+
+/** Doc id for a ticker under scoreHistory (matches client scoreHistoryService) */
+export function toSnapshotTickerKey(ticker: string): string {
+  return ticker.trim().toLowerCase().replace(/\//g, '_');
+}
+
+/** YYYY-MM-DD in Europe/Stockholm */
+export function toSnapshotDate(date: Date): string {
+  return new Intl.DateTimeFormat('sv-SE', {
+    timeZone: 'Europe/Stockholm',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+function isNum(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v);
+}
+
+/**
+ * Metric colors of one Score Board row, as the Score view computes them: SMA colors from the price (equal
+ * to the SMA has no color) and industry thresholds through findIndustryThreshold, aliases included.
+ */
+export function getSnapshotColors(
+  row: SheetScoreBoardRow,
+  thresholds: IndustryThreshold[],
+  price: number | null,
+  entryExit: TheoEntryValues | undefined
+): Partial<Record<ScoreMetricId, ColorType>> {
+  const metricRow = {
+    ...row,
+    sma9Color: getSMATableColor(price, row.sma9),
+    sma21Color: getSMATableColor(price, row.sma21),
+  };
+  const colors: Partial<Record<ScoreMetricId, ColorType>> = {};
+  for (const id of SCORE_METRIC_IDS) {
+    colors[id] = getMetricColor(id, metricRow, thresholds, price, entryExit);
+  }
+  return colors;
+}
+
+/**
+ * Fetch current sheet data, score every ticker and write
+ * scoreHistory/{tickerKey}/snapshots/{YYYY-MM-DD}. Re-running on the same day overwrites.
+ */
+export async function runScoreSnapshot(
+  baseUrl: string,
+  token: string | undefined,
+  now: Date = new Date()
+): Promise<ScoreSnapshotResult> {
+  const start = Date.now();
+  const db = admin.firestore();
+  const date = toSnapshotDate(now);
+
+  const dashboardSnapshot = await fetchAppsScriptSnapshot(baseUrl, token, 'DashBoard');
+  const smaSnapshot = await fetchAppsScriptSnapshot(baseUrl, token, 'SMA');
+  const dashData = snapshotToDataRows(dashboardSnapshot);
+  const smaData = transformSMARows(snapshotToDataRows(smaSnapshot));
+  const scoreBoard = buildScoreBoard(dashData, smaData);
+  const benjaminGraham = transformBenjaminGrahamRows(dashData);
+
+  const [modelDoc, thresholdSnap, entryExitSnap, aliasDoc] = await Promise.all([
+    db.doc('appConfig/scoringModel').get(),
+    db.collection('industryThresholds').get(),
+    db.collection('entiryExit').get(),
+    db.doc('appConfig/industryAliases').get(),
+  ]);
+  // An invalid stored model falls back to the default, as on the client
+  const model = parseScoringModel(modelDoc.exists ? modelDoc.data() : null) ?? DEFAULT_SCORING_MODEL;
+
+  const thresholdValues: Record<string, Partial<IndustryThresholdValues>> = {};
+  thresholdSnap.forEach((d) => {
+    thresholdValues[d.id] = d.data() as Partial<IndustryThresholdValues>;
+  });
+  const rawAliases = aliasDoc.exists ? aliasDoc.data()?.aliases : undefined;
+  const industryAliases: IndustryAliasTable = rawAliases && typeof rawAliases === 'object' ? rawAliases : {};
+  const thresholds = attachIndustryAliases(buildIndustryThresholds(thresholdValues), industryAliases);
+
+  // Entry/exit values are keyed by company name on the client
+  const entryExitByCompany = new Map<string, TheoEntryValues>();
+  entryExitSnap.forEach((d) => {
+    const data = d.data();
+    const companyName = typeof data.companyName === 'string' ? data.companyName : d.id;
+    entryExitByCompany.set(companyName, {
+      entry1: isNum(data.entry1) ? data.entry1 : 0,
+      entry2: isNum(data.entry2) ? data.entry2 : 0,
+      exit1: isNum(data.exit1) ? data.exit1 : 0,
+      exit2: isNum(data.exit2) ? data.exit2 : 0,
+    });
+  });
+
+  const priceByTicker = new Map<string, number | null>();
+  for (const bg of benjaminGraham) priceByTicker.set(bg.ticker.toLowerCase().trim(), bg.price);
+
+  const createdAt = admin.firestore.FieldValue.serverTimestamp();
+  let batch = db.batch();
+  let pending = 0;
+  let written = 0;
+
+  for (const row of scoreBoard) {
+    const tickerKey = toSnapshotTickerKey(row.ticker);
+    if (!tickerKey) continue;
+    const price = priceByTicker.get(row.ticker.toLowerCase().trim()) ?? null;
+    const colors = getSnapshotColors(row, thresholds, price, entryExitByCompany.get(row.companyName));
+
+    batch.set(db.collection(SNAPSHOT_COLLECTION).doc(tickerKey).collection(SNAPSHOT_SUBCOLLECTION).doc(date), {
+      date,
+      ticker: row.ticker,
+      companyName: row.companyName,
+      score: scoreFromColors(model, colors),
+      price,
+      colors,
+      modelVersion: model.version,
+      createdAt,
+    });
+    pending++;
+    written++;
+
+    if (pending >= BATCH_LIMIT) {
+      await batch.commit();
+      batch = db.batch();
+      pending = 0;
+    }
+  }
+  if (pending > 0) await batch.commit();
+
+  return { date, tickers: written, modelVersion: model.version, durationMs: Date.now() - start };
+}
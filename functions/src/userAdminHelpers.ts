@@ -0,0 +1,105 @@
+/**
+ * Helpers for the admin user management callables (adminListUsers, adminSetUserView,
+ * adminSetUserRole, adminSetUserDisabled).
+ *
+ * Roles and view access live in custom claims: { role: 'viewer' | 'admin', allowedViews: { [viewId]: true } }.
+ * userData/{uid} mirrors role, allowedViews and disabled so the console can list users from Firestore.
+ */
+
+import * as admin from 'firebase-admin';
+
+export type ManagedRole = 'viewer' | 'admin';
+
+export { isGrantableViewId } from '../../shared/viewAccess';
+
+export interface ManagedUserRecord {
+  uid: string;
+  email: string;
+  role: ManagedRole | null;
+  allowedViews: string[];
+  disabled: boolean;
+  createdAt: string | null;
+  lastSignInAt: string | null;
+}
+
+/** Reads allowedViews from claims; accepts the MAP format and the legacy array format */
+export function readAllowedViews(claims: Record<string, unknown>): string[] {
+  const av = claims.allowedViews;
+  if (Array.isArray(av)) return av.filter((v): v is string => typeof v === 'string').sort();
+  if (av && typeof av === 'object') {
+    return Object.keys(av)
+      .filter((k) => (av as Record<string, unknown>)[k] === true)
+      .sort();
+  }
+  return [];
+}
+
+export function readRole(claims: Record<string, unknown>): ManagedRole | null {
+  return claims.role === 'admin' || claims.role === 'viewer' ? claims.role : null;
+}
+
+export function toAllowedViewsClaim(views: string[]): Record<string, true> {
+  const claim: Record<string, true> = { score: true };
+  for (const viewId of views) claim[viewId] = true;
+  return claim;
+}
+
+function toIso(value: unknown): string | null {
+  if (value instanceof admin.firestore.Timestamp) return value.toDate().toISOString();
+  if (typeof value === 'string' && value) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+  return null;
+}
+
+/**
+ * Lists users from userData, with role, views and disabled state taken from Auth (the source of truth).
+ * Users whose Auth record no longer exists are skipped.
+ */
+export async function listManagedUsers(): Promise<ManagedUserRecord[]> {
+  const snapshot = await admin.firestore().collection('userData').get();
+  const docs = snapshot.docs.map((d) => ({ uid: d.id, data: d.data() }));
+  const users: ManagedUserRecord[] = [];
+
+  // getUsers accepts at most 100 identifiers per call
+  for (let i = 0; i < docs.length; i += 100) {
+    const batch = docs.slice(i, i + 100);
+    const result = await admin.auth().getUsers(batch.map((d) => ({ uid: d.uid })));
+    const byUid = new Map(result.users.map((u) => [u.uid, u]));
+    for (const { uid, data } of batch) {
+      const record = byUid.get(uid);
+      if (!record) continue;
+      const claims = (record.customClaims || {}) as Record<string, unknown>;
+      users.push({
+        uid,
+        email: record.email ?? (typeof data.email === 'string' ? data.email : ''),
+        role: readRole(claims),
+        allowedViews: readAllowedViews(claims).filter((v) => v !== 'score'),
+        disabled: record.disabled,
+        createdAt: toIso(data.createdAt) ?? toIso(record.metadata.creationTime),
+        lastSignInAt: toIso(record.metadata.lastSignInTime),
+      });
+    }
+  }
+
+  return users.sort((a, b) => a.email.localeCompare(b.email));
+}
+
+/** Writes one user-management change to the adminActions audit collection */
+export async function recordUserAdminAction(
+  action: string,
+  adminUid: string,
+  targetUid: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): Promise<void> {
+  await admin.firestore().collection('adminActions').add({
+    action,
+    adminUid,
+    targetUid,
+    before,
+    after,
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
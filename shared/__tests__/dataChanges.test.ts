@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { detectDataChanges, isSameData } from '../dataChanges';
+
+type Row = { ticker: string; price: number | null; extra?: unknown };
+
+const key = (row: Row) => row.ticker;
+
+describe('isSameData', () => {
+  it('ignores object key order and undefined keys', () => {
+    expect(isSameData({ a: 1, b: { c: [1, 2] } }, { b: { c: [1, 2] }, a: 1 })).toBe(true);
+    expect(isSameData({ a: 1, b: undefined }, { a: 1 })).toBe(true);
+    expect(isSameData({ a: 1 }, { a: 2 })).toBe(false);
+    expect(isSameData({ a: [1, 2] }, { a: [2, 1] })).toBe(false);
+    expect(isSameData({ a: null }, { a: 0 })).toBe(false);
+  });
+});
+
+describe('detectDataChanges', () => {
+  it('does not count rows whose keys only came back in another order', () => {
+    const oldRows: Row[] = [{ ticker: 'A', price: 1 }, { ticker: 'B', price: 2 }];
+    const newRows = [{ price: 1, ticker: 'A' }, { price: 2, ticker: 'B' }] as Row[];
+    expect(detectDataChanges(oldRows, newRows, key)).toEqual({
+      added: 0,
+      removed: 0,
+      updated: 0,
+      total: 2,
+      hasSignificantChanges: false,
+    });
+  });
+
+  it('counts added, removed and updated rows', () => {
+    const oldRows: Row[] = [{ ticker: 'A', price: 1 }, { ticker: 'B', price: 2 }];
+    const newRows: Row[] = [{ ticker: 'A', price: 1.5 }, { ticker: 'C', price: 3 }];
+    expect(detectDataChanges(oldRows, newRows, key)).toMatchObject({ added: 1, removed: 1, updated: 1, total: 2 });
+  });
+});
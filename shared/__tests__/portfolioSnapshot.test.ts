@@ -0,0 +1,77 @@
+/**
+ * Portfolio snapshot valuation, as written by dailyPortfolioSnapshot and the Personal Portfolio view fallback.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSnapshotPortfolioItems } from '../../functions/src/portfolioSnapshotHelpers';
+import { createUSDRateLookup, inferCurrencyFromTicker, toSnapshotHoldings, valuePortfolio } from '../portfolioSnapshot';
+
+const getRate = createUSDRateLookup({ SEK: 10, EUR: 0.5 });
+
+const prices = [
+  { ticker: 'AAPL', companyName: 'Apple Inc.', price: 200 },
+  { ticker: 'VOLV-B', companyName: 'Volvo', price: 250 },
+  { ticker: 'SPY', companyName: 'SPDR S&P 500', price: 500 },
+];
+
+const currencyOf = (ticker: string) => inferCurrencyFromTicker(ticker);
+
+describe('portfolio snapshot', () => {
+  it('prices holdings from the DashBoard row and falls back to the item price', () => {
+    const { holdings, benchmark } = toSnapshotHoldings(
+      [
+        { ticker: 'AAPL', companyName: 'Apple Inc.', quantity: 2, price: 150 },
+        { ticker: 'MSFT', companyName: 'Microsoft', quantity: 1, price: 300 },
+      ],
+      prices,
+      'SPY',
+      currencyOf
+    );
+    expect(holdings.map((h) => h.price)).toEqual([200, 300]);
+    expect(benchmark).toEqual({ ticker: 'SPY', quantity: 0, price: 500, currency: 'USD' });
+  });
+
+  it('values holdings in USD and the base currency', async () => {
+    const { holdings, benchmark } = toSnapshotHoldings(
+      [
+        { ticker: 'AAPL', companyName: 'Apple Inc.', quantity: 2, price: 150 },
+        { ticker: 'VOLV-B', companyName: 'Volvo', quantity: 10, price: 240 },
+      ],
+      prices,
+      'SPY',
+      currencyOf
+    );
+    const snapshot = await valuePortfolio(holdings, benchmark, 'SEK', '2026-10-19', getRate);
+    expect(snapshot).toMatchObject({
+      date: '2026-10-19',
+      valueUSD: 650,
+      usdToBase: 10,
+      valueBase: 6500,
+      pricesUSD: { AAPL: 200, 'VOLV-B': 25, SPY: 500 },
+      missingPrices: [],
+    });
+    expect(snapshot?.usdRates).toEqual({ SEK: 10, USD: 1, EUR: 0.5 });
+  });
+
+  it('leaves holdings without an FX rate out of the value', async () => {
+    const snapshot = await valuePortfolio(
+      [{ ticker: 'NOVO-B', quantity: 3, price: 700, currency: 'DKK' }],
+      null,
+      'USD',
+      '2026-10-19',
+      getRate
+    );
+    expect(snapshot?.valueUSD).toBe(0);
+    expect(snapshot?.missingPrices).toEqual(['NOVO-B']);
+  });
+
+  it('skips malformed stored portfolio lines', () => {
+    expect(
+      parseSnapshotPortfolioItems([
+        { ticker: 'AAPL', companyName: 'Apple Inc.', quantity: 2, price: 150 },
+        { ticker: 'BAD', quantity: '2' },
+        null,
+      ])
+    ).toEqual([{ ticker: 'AAPL', companyName: 'Apple Inc.', quantity: 2, price: 150 }]);
+  });
+});
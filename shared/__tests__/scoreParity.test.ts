@@ -0,0 +1,93 @@
+/**
+ * Score parity between the Score view and the daily score snapshot.
+ *
+ * The same rows, thresholds, aliases and model go through the client's calculateScore and the Cloud Function's
+ * snapshot colors + scoreFromColors; both must give the same score.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateScore } from '../../src/utils/calculateScore';
+import { getSnapshotColors } from '../../functions/src/scoreSnapshotHelpers';
+import { getSMATableColor } from '../colorLogic';
+import { attachIndustryAliases, buildIndustryThresholds } from '../industries';
+import { DEFAULT_SCORING_MODEL, parseScoringModel, scoreFromColors } from '../scoringModel';
+import type { SheetScoreBoardRow } from '../sheetTransforms';
+import type { EntryExitValuesForScore } from '../../src/types/score';
+
+const thresholds = attachIndustryAliases(
+  buildIndustryThresholds({
+    retailTrade: { leverageF2Min: 2, leverageF2Max: 3, cashSdebtMin: 0.7, cashSdebtMax: 1.2, currentRatioMin: 1.1, currentRatioMax: 2 },
+  }),
+  { 'retail stores': 'retailTrade' }
+);
+
+const entryExit: EntryExitValuesForScore = { entry1: 100, entry2: 80, exit1: 200, exit2: 0, currency: 'USD', dateOfUpdate: null };
+
+function row(values: Partial<SheetScoreBoardRow>): SheetScoreBoardRow {
+  return {
+    companyName: 'Test Co',
+    ticker: 'TEST',
+    industry: 'Retail Trade',
+    mungerQualityScore: 55,
+    valueCreation: 3,
+    leverageF2: 2.5,
+    pe1Industry: -4,
+    pe2Industry: 6,
+    currentRatio: 1.5,
+    cashSdebt: 0.9,
+    isCashSdebtDivZero: false,
+    sma9: 98,
+    sma21: 110,
+    sma55: null,
+    sma200: null,
+    ...values,
+  };
+}
+
+function clientScore(scoreRow: SheetScoreBoardRow, price: number, model = DEFAULT_SCORING_MODEL): number {
+  const scoreBoardData = {
+    ...scoreRow,
+    sma9Color: getSMATableColor(price, scoreRow.sma9),
+    sma21Color: getSMATableColor(price, scoreRow.sma21),
+  };
+  return calculateScore(
+    scoreBoardData,
+    thresholds,
+    [{ companyName: scoreRow.companyName, ticker: scoreRow.ticker, price }],
+    new Map([[scoreRow.companyName, entryExit]]),
+    model
+  );
+}
+
+function snapshotScore(scoreRow: SheetScoreBoardRow, price: number, model = DEFAULT_SCORING_MODEL): number {
+  return scoreFromColors(model, getSnapshotColors(scoreRow, thresholds, price, entryExit));
+}
+
+describe('score parity', () => {
+  it.each([
+    ['canonical industry', row({})],
+    ['industry spelled differently', row({ industry: 'retail & trade' })],
+    ['industry resolved through an alias', row({ industry: 'Retail Stores' })],
+    ['unknown industry', row({ industry: 'Unknown' })],
+    ['Cash/SDebt without debt', row({ cashSdebt: null, isCashSdebtDivZero: true })],
+  ])('snapshot scores like the Score view: %s', (_, scoreRow) => {
+    expect(snapshotScore(scoreRow, 99)).toBe(clientScore(scoreRow, 99));
+  });
+
+  it('leaves SMA equal to the price without color', () => {
+    const colors = getSnapshotColors(row({ sma9: 99 }), thresholds, 99, entryExit);
+    expect(colors.sma9).toBe('BLANK');
+  });
+
+  it('resolves aliased industries to their thresholds', () => {
+    const colors = getSnapshotColors(row({ industry: 'Retail Stores' }), thresholds, 99, entryExit);
+    expect(colors.leverageF2).toBe('ORANGE');
+  });
+
+  it('scores with the default model when the stored model is invalid', () => {
+    const stored = { version: 3, metrics: [{ id: 'valueCreation', weight: 'nine', method: '3Band' }], colorFactors: {} };
+    const model = parseScoringModel(stored) ?? DEFAULT_SCORING_MODEL;
+    expect(model).toBe(DEFAULT_SCORING_MODEL);
+    expect(snapshotScore(row({}), 99, model)).toBe(clientScore(row({}), 99));
+  });
+});
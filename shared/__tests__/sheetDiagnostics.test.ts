@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { diagnoseSheet, resolveFieldHeader } from '../sheetDiagnostics';
+import { DASHBOARD_SCHEMA, SMA_SCHEMA } from '../sheetSchema';
+
+const NOW = 1_700_000_000_000;
+
+function column(result: ReturnType<typeof diagnoseSheet>, field: string) {
+  const found = result.columns.find((c) => c.field === field);
+  if (!found) throw new Error(`no column ${field}`);
+  return found;
+}
+
+describe('resolveFieldHeader', () => {
+  it('prefers an exact alias and falls back to a case-insensitive match', () => {
+    expect(resolveFieldHeader(DASHBOARD_SCHEMA.fields.pe, ['pe', 'P/E'])).toBe('P/E');
+    expect(resolveFieldHeader(DASHBOARD_SCHEMA.fields.price, ['PrIcE'])).toBe('PrIcE');
+    expect(resolveFieldHeader(DASHBOARD_SCHEMA.fields.price, ['Kurs'])).toBeNull();
+  });
+});
+
+describe('diagnoseSheet', () => {
+  it('reports renamed required headers as missing and the new name as unmapped', () => {
+    const headers = ['Company Name', 'Symbol', 'Sector', 'Price'];
+    const rows = [{ 'Company Name': 'Acme', Symbol: 'ACM', Sector: 'Tools', Price: '10' }];
+
+    const result = diagnoseSheet(DASHBOARD_SCHEMA, headers, rows, { now: NOW });
+
+    expect(result.missingRequired).toEqual(['industry']);
+    expect(result.unmappedHeaders).toEqual(['Sector']);
+    expect(column(result, 'ticker').header).toBe('Symbol');
+    expect(result.rowCount).toBe(1);
+    expect(result.generatedAt).toBe(NOW);
+    expect(result.sheetName).toBe('DashBoard');
+  });
+
+  it('counts parse failures per filled cell and ignores empty cells', () => {
+    const headers = ['Ticker', 'SMA(9)'];
+    const rows = [
+      { Ticker: 'A', 'SMA(9)': '1,5' },
+      { Ticker: 'B', 'SMA(9)': '#N/A' },
+      { Ticker: 'C', 'SMA(9)': '' },
+      { Ticker: 'D', 'SMA(9)': 'abc' },
+    ];
+
+    const sma9 = column(diagnoseSheet(SMA_SCHEMA, headers, rows), 'sma9');
+
+    expect(sma9.filled).toBe(3);
+    expect(sma9.parseFailures).toBe(2);
+    expect(sma9.parseFailureRate).toBeCloseTo(2 / 3);
+  });
+
+  it('does not count special tokens such as #DIV/0! as failures', () => {
+    const rows = [{ 'Cash/SDebt': '#DIV/0!' }, { 'Cash/SDebt': 'inf' }, { 'Cash/SDebt': '2.1' }];
+
+    const cashSdebt = column(diagnoseSheet(DASHBOARD_SCHEMA, ['Cash/SDebt'], rows), 'cashSdebt');
+
+    expect(cashSdebt.filled).toBe(3);
+    expect(cashSdebt.parseFailures).toBe(0);
+  });
+
+  it('uses the given sheet name and skips blank headers', () => {
+    const result = diagnoseSheet(SMA_SCHEMA, ['Ticker', '', '  '], [], { sheetName: 'SMA US' });
+
+    expect(result.sheetName).toBe('SMA US');
+    expect(result.unmappedHeaders).toEqual([]);
+    expect(column(result, 'ticker').parseFailureRate).toBe(0);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Golden-file tests for the shared sheet transforms.
+ *
+ * The same Apps Script snapshots go through each runtime's real entry points — the client services, the data
+ * transform worker and the Cloud Functions refresh helpers — and all three must produce identical output, equal
+ * to the golden files in ./golden. When a transform change is intended, bump SHEET_TRANSFORM_VERSION and
+ * regenerate the golden files with `npx vitest run shared -u`.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { snapshotToTransformerFormat, type SnapshotResponse } from '../../src/services/deltaSyncService';
+import { transformBenjaminGrahamData } from '../../src/services/sheets/benjaminGrahamService';
+import { transformPEIndustryData } from '../../src/services/sheets/peIndustryService';
+import { transformSMAData } from '../../src/services/sheets/smaService';
+import { createScoreBoardTransformer, type SMADataMapEntry } from '../../src/services/sheets/scoreBoardService';
+import { runTransform, type TransformMessage } from '../../src/workers/dataTransformWorker';
+import { snapshotToDataRows, buildScoreBoard } from '../../functions/src/adminRefreshHelpers';
+import {
+  SHEET_TRANSFORM_VERSION,
+  transformBenjaminGrahamRows,
+  transformIndustryThresholdRows,
+  transformPEIndustryRows,
+  transformSMARows,
+  type SheetPEIndustryRow,
+  type SheetSMARow,
+} from '../sheetTransforms';
+import dashboardSnapshot from './fixtures/dashboard.snapshot.json';
+import smaSnapshot from './fixtures/sma.snapshot.json';
+import industryThresholdSnapshot from './fixtures/industryThreshold.snapshot.json';
+
+vi.mock('../../src/config/firebase', () => ({ db: {} }));
+
+const dashboard = dashboardSnapshot as SnapshotResponse;
+const sma = smaSnapshot as SnapshotResponse;
+const industryThreshold = industryThresholdSnapshot as SnapshotResponse;
+
+function golden(name: string, output: unknown): Promise<void> {
+  const body = JSON.stringify({ transformVersion: SHEET_TRANSFORM_VERSION, output }, null, 2) + '\n';
+  return expect(body).toMatchFileSnapshot(`./golden/${name}.json`);
+}
+
+/** Client: snapshot → transformer format → services/sheets transforms, with the maps built as useScoreBoardData does */
+function runClient() {
+  const dashRows = snapshotToTransformerFormat(dashboard);
+  const smaRows = snapshotToTransformerFormat(sma);
+  const peIndustry = transformPEIndustryData(dashRows);
+  const smaData = transformSMAData(smaRows);
+
+  const industryPe1Map = new Map<string, number>();
+  const industryPe2Map = new Map<string, number>();
+  peIndustry.forEach((row) => {
+    if (row.pe1 !== null) industryPe1Map.set(row.industry.toLowerCase(), row.pe1);
+    if (row.pe2 !== null) industryPe2Map.set(row.industry.toLowerCase(), row.pe2);
+  });
+  const smaDataMap = new Map<string, SMADataMapEntry>();
+  smaData.forEach((row) => {
+    smaDataMap.set(row.ticker.toLowerCase().trim(), { sma9: row.sma9, sma21: row.sma21, sma55: row.sma55, sma200: row.sma200 });
+  });
+
+  return {
+    benjaminGraham: transformBenjaminGrahamData(dashRows),
+    peIndustry,
+    sma: smaData,
+    scoreBoard: createScoreBoardTransformer(industryPe1Map, industryPe2Map, smaDataMap)(dashRows),
+  };
+}
+
+/** Worker: the same messages the client posts, with the lookups as plain objects */
+function runWorker() {
+  const dashRows = snapshotToTransformerFormat(dashboard);
+  const smaRows = snapshotToTransformerFormat(sma);
+  const message = (transformerId: string, rows: typeof dashRows, extra: Partial<TransformMessage> = {}): TransformMessage => ({
+    type: 'transform',
+    transformerId,
+    data: rows.data,
+    meta: rows.meta,
+    jobId: `golden-${transformerId}`,
+    ...extra,
+  });
+
+  const peIndustry = runTransform(message('pe-industry', dashRows)) as SheetPEIndustryRow[];
+  const smaData = runTransform(message('sma', smaRows)) as SheetSMARow[];
+
+  const industryPe1Map: Record<string, number> = {};
+  const industryPe2Map: Record<string, number> = {};
+  peIndustry.forEach((row) => {
+    if (row.pe1 !== null) industryPe1Map[row.industry.toLowerCase()] = row.pe1;
+    if (row.pe2 !== null) industryPe2Map[row.industry.toLowerCase()] = row.pe2;
+  });
+  const smaDataMap: Record<string, SMADataMapEntry> = {};
+  smaData.forEach((row) => {
+    smaDataMap[row.ticker.toLowerCase().trim()] = { sma9: row.sma9, sma21: row.sma21, sma55: row.sma55, sma200: row.sma200 };
+  });
+
+  return {
+    benjaminGraham: runTransform(message('benjamin-graham', dashRows)),
+    peIndustry,
+    sma: smaData,
+    scoreBoard: runTransform(message('score-board', dashRows, { industryPe1Map, industryPe2Map, smaDataMap })),
+  };
+}
+
+/** Cloud Functions: snapshotToDataRows and the transforms runAdminRefresh writes to viewData */
+function runFunctions() {
+  const dashData = snapshotToDataRows(dashboard);
+  const smaData = transformSMARows(snapshotToDataRows(sma));
+  return {
+    benjaminGraham: transformBenjaminGrahamRows(dashData),
+    peIndustry: transformPEIndustryRows(dashData),
+    sma: smaData,
+    scoreBoard: buildScoreBoard(dashData, smaData),
+  };
+}
+
+describe('sheet transforms golden files', () => {
+  const client = runClient();
+  const worker = runWorker();
+  const functions = runFunctions();
+
+  it.each(['benjaminGraham', 'peIndustry', 'sma', 'scoreBoard'] as const)('%s is identical in every runtime', async (name) => {
+    expect(worker[name]).toStrictEqual(client[name]);
+    expect(functions[name]).toStrictEqual(client[name]);
+    await golden(name, client[name]);
+  });
+
+  it('industryThreshold matches its golden file', async () => {
+    // Only the Cloud Functions build industry thresholds from the sheet
+    await golden('industryThreshold', transformIndustryThresholdRows(snapshotToDataRows(industryThreshold)));
+  });
+});
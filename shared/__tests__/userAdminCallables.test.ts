@@ -0,0 +1,132 @@
+/**
+ * Guards of the user management callables (functions/src/index.ts): admin only with an unrevoked ID token, no
+ * self-demotion, no self-disable and only whitelisted views (shared/viewAccess.ts) can be granted.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const {
+  users,
+  revokedTokens,
+  setCustomUserClaims,
+  updateUser,
+  revokeRefreshTokens,
+  setUserData,
+  addAdminAction,
+} = vi.hoisted(() => ({
+  users: new Map<string, { customClaims: Record<string, unknown>; disabled: boolean }>(),
+  revokedTokens: new Set<string>(),
+  setCustomUserClaims: vi.fn(),
+  updateUser: vi.fn(),
+  revokeRefreshTokens: vi.fn(),
+  setUserData: vi.fn(),
+  addAdminAction: vi.fn(),
+}));
+
+vi.mock('firebase-admin', () => ({
+  initializeApp: vi.fn(),
+  auth: () => ({
+    getUser: async (uid: string) => {
+      const user = users.get(uid);
+      if (!user) throw new Error(`No user ${uid}`);
+      return { uid, ...user };
+    },
+    verifyIdToken: async (token: string, checkRevoked?: boolean) => {
+      if (checkRevoked && revokedTokens.has(token)) throw new Error('auth/id-token-revoked');
+      return { uid: token.replace(/^token-/, '') };
+    },
+    setCustomUserClaims,
+    updateUser,
+    revokeRefreshTokens,
+  }),
+  firestore: Object.assign(
+    () => ({ doc: () => ({ set: setUserData }), collection: () => ({ add: addAdminAction }) }),
+    { FieldValue: { serverTimestamp: () => 'now' }, Timestamp: class {} }
+  ),
+}));
+
+import { adminSetUserDisabled, adminSetUserRole, adminSetUserView } from '../../functions/src/index';
+import { GRANTABLE_VIEW_IDS } from '../viewAccess';
+
+type Callable = (data: unknown, context: unknown) => Promise<unknown>;
+
+const call = (callable: unknown, data: unknown, uid: string | null = 'admin-1') =>
+  (callable as Callable)(data, {
+    auth: uid ? { uid } : undefined,
+    rawRequest: { headers: uid ? { authorization: `Bearer token-${uid}` } : {} },
+  });
+
+describe('user management callables', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    users.clear();
+    revokedTokens.clear();
+    users.set('admin-1', { customClaims: { role: 'admin' }, disabled: false });
+    users.set('viewer-1', { customClaims: { role: 'viewer', allowedViews: { score: true, sma: true } }, disabled: false });
+  });
+
+  it.each([
+    ['adminSetUserRole', adminSetUserRole, { uid: 'viewer-1', role: 'admin' }],
+    ['adminSetUserView', adminSetUserView, { uid: 'viewer-1', viewId: 'sma', allowed: true }],
+    ['adminSetUserDisabled', adminSetUserDisabled, { uid: 'viewer-1', disabled: true }],
+  ])('%s is admin only', async (_, callable, data) => {
+    await expect(call(callable, data, null)).rejects.toMatchObject({ code: 'unauthenticated' });
+    await expect(call(callable, data, 'viewer-1')).rejects.toMatchObject({ code: 'permission-denied' });
+    expect(setCustomUserClaims).not.toHaveBeenCalled();
+    expect(updateUser).not.toHaveBeenCalled();
+  });
+
+  it('refuses an admin whose ID token was revoked', async () => {
+    revokedTokens.add('token-admin-1');
+    await expect(call(adminSetUserDisabled, { uid: 'viewer-1', disabled: true })).rejects.toMatchObject({
+      code: 'unauthenticated',
+    });
+    expect(updateUser).not.toHaveBeenCalled();
+  });
+
+  it('refuses to demote the calling admin', async () => {
+    await expect(call(adminSetUserRole, { uid: 'admin-1', role: 'viewer' })).rejects.toMatchObject({
+      code: 'failed-precondition',
+    });
+    expect(setCustomUserClaims).not.toHaveBeenCalled();
+  });
+
+  it('promotes another user and records the change', async () => {
+    await expect(call(adminSetUserRole, { uid: 'viewer-1', role: 'admin' })).resolves.toEqual({ success: true, role: 'admin' });
+    expect(setCustomUserClaims).toHaveBeenCalledWith('viewer-1', expect.objectContaining({ role: 'admin' }));
+    expect(addAdminAction).toHaveBeenCalledWith(expect.objectContaining({ action: 'promoteAdmin', targetUid: 'viewer-1' }));
+  });
+
+  it('refuses to disable the calling admin', async () => {
+    await expect(call(adminSetUserDisabled, { uid: 'admin-1', disabled: true })).rejects.toMatchObject({
+      code: 'failed-precondition',
+    });
+    expect(updateUser).not.toHaveBeenCalled();
+  });
+
+  it('disables another user and revokes their sessions', async () => {
+    await call(adminSetUserDisabled, { uid: 'viewer-1', disabled: true });
+    expect(updateUser).toHaveBeenCalledWith('viewer-1', { disabled: true });
+    expect(revokeRefreshTokens).toHaveBeenCalledWith('viewer-1');
+  });
+
+  it.each(['admin-users', 'score', 'personal-portfolio', 'unknown-view', 42])(
+    'refuses to grant a view outside the whitelist: %s',
+    async (viewId) => {
+      await expect(call(adminSetUserView, { uid: 'viewer-1', viewId, allowed: true })).rejects.toMatchObject({
+        code: 'invalid-argument',
+      });
+      expect(setCustomUserClaims).not.toHaveBeenCalled();
+    }
+  );
+
+  it('grants a whitelisted view on top of the existing ones', async () => {
+    const viewId = GRANTABLE_VIEW_IDS.find((id) => id !== 'sma') ?? 'score-board';
+    const result = await call(adminSetUserView, { uid: 'viewer-1', viewId, allowed: true });
+    expect(result).toEqual({ success: true, allowedViews: [viewId, 'sma'].sort() });
+    expect(setCustomUserClaims).toHaveBeenCalledWith('viewer-1', {
+      role: 'viewer',
+      allowedViews: { score: true, sma: true, [viewId]: true },
+    });
+  });
+});
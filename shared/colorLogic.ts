@@ -0,0 +1,247 @@
+/**
+ * Color Logic
+ *
+ * Metric color classification and the TheoEntry (RR1/RR2) green rule, shared by the client (tables, score) and
+ * the Cloud Functions (daily score snapshot) so both color every stock the same way. Runtime-agnostic: no
+ * imports outside shared/.
+ */
+
+import { findIndustryThreshold, type IndustryThreshold } from './industries';
+
+/** Color classification for score calculation (GREEN=1.0, ORANGE=0.70, RED=0, BLANK=0) */
+export type ColorType = 'GREEN' | 'ORANGE' | 'RED' | 'BLANK';
+
+/** Entry/exit values TheoEntry reads (entiryExit/{companyKey}) */
+export interface TheoEntryValues {
+  entry1: number;
+  entry2: number;
+  exit1: number;
+  exit2: number;
+}
+
+export const PRICE_TOLERANCE_GREEN = 1.05; // 5% above entry (TheoEntry / RR coloring)
+export const RR1_GREEN_THRESHOLD_PERCENT = 60;
+export const MUNGER_QUALITY_SCORE_RED_THRESHOLD = 40;
+export const MUNGER_QUALITY_SCORE_GREEN_THRESHOLD = 60;
+
+export function getMungerQualityScoreColor(mungerQualityScore: number | null): ColorType {
+  if (mungerQualityScore === null || !isFinite(mungerQualityScore)) return 'BLANK';
+  if (mungerQualityScore < MUNGER_QUALITY_SCORE_RED_THRESHOLD) return 'RED';
+  if (
+    mungerQualityScore >= MUNGER_QUALITY_SCORE_RED_THRESHOLD &&
+    mungerQualityScore <= MUNGER_QUALITY_SCORE_GREEN_THRESHOLD
+  )
+    return 'ORANGE';
+  return 'GREEN';
+}
+
+export function getValueCreationColor(valueCreation: number | null): ColorType {
+  if (valueCreation === null || !isFinite(valueCreation)) return 'BLANK';
+  return valueCreation >= 0 ? 'GREEN' : 'RED';
+}
+
+export function getLeverageF2Color(
+  leverageF2Value: number | null,
+  industry: string,
+  thresholdData: IndustryThreshold[]
+): ColorType {
+  if (leverageF2Value === null || !isFinite(leverageF2Value)) return 'BLANK';
+  if (!industry || industry.trim() === '') return 'BLANK';
+
+  const threshold = findIndustryThreshold(industry, thresholdData);
+  if (!threshold) return 'BLANK';
+
+  const { leverageF2Min, leverageF2Max } = threshold;
+  if (leverageF2Value <= leverageF2Min) return 'GREEN';
+  if (leverageF2Value <= leverageF2Max) return 'ORANGE';
+  return 'RED';
+}
+
+export function getCashSdebtColor(
+  cashSdebt: number | null,
+  isDivZero: boolean,
+  industry: string,
+  thresholdData: IndustryThreshold[]
+): ColorType {
+  if (isDivZero) return 'GREEN';
+  if (cashSdebt === null || !isFinite(cashSdebt)) return 'BLANK';
+  if (!industry || industry.trim() === '') return 'BLANK';
+
+  const threshold = findIndustryThreshold(industry, thresholdData);
+  if (!threshold) return 'BLANK';
+
+  const { cashSdebtMin, cashSdebtMax } = threshold;
+  if (cashSdebt <= cashSdebtMin) return 'RED';
+  if (cashSdebt >= cashSdebtMax) return 'GREEN';
+  return 'ORANGE';
+}
+
+export function getCurrentRatioColor(
+  currentRatio: number | null,
+  industry: string,
+  thresholdData: IndustryThreshold[]
+): ColorType {
+  if (currentRatio === null || !isFinite(currentRatio)) return 'BLANK';
+  if (!industry || industry.trim() === '') return 'BLANK';
+
+  const threshold = findIndustryThreshold(industry, thresholdData);
+  if (!threshold) return 'BLANK';
+
+  const { currentRatioMin, currentRatioMax } = threshold;
+  if (currentRatio < currentRatioMin) return 'RED';
+  if (currentRatio >= currentRatioMin && currentRatio < currentRatioMax) return 'GREEN';
+  return 'ORANGE';
+}
+
+export function getPEPercentageColor(peIndustry: number | null): ColorType {
+  if (peIndustry === null || !isFinite(peIndustry)) return 'BLANK';
+  return peIndustry <= 0 ? 'GREEN' : 'RED';
+}
+
+export function getSMAColor(
+  price: number | null | undefined,
+  smaValue: number | null
+): ColorType {
+  if (
+    price === null ||
+    price === undefined ||
+    !isFinite(price) ||
+    smaValue === null ||
+    !isFinite(smaValue)
+  ) {
+    return 'BLANK';
+  }
+  if (price > smaValue) return 'GREEN';
+  if (price < smaValue) return 'RED';
+  return 'ORANGE';
+}
+
+/** SMA color as the tables show and score it: price equal to the SMA (ORANGE) has no color */
+export function getSMATableColor(price: number | null | undefined, smaValue: number | null): 'GREEN' | 'RED' | null {
+  const color = getSMAColor(price, smaValue);
+  return color === 'GREEN' || color === 'RED' ? color : null;
+}
+
+function calculateRR1(entry1: number, exit: number): number | null {
+  if (!entry1 || !exit || entry1 === 0) return null;
+  const rr1 = ((exit - entry1) / entry1) * 100;
+  return isNaN(rr1) || !isFinite(rr1) ? null : rr1;
+}
+
+/**
+ * Returns RR1 for display: (Exit - Entry1) / Entry1 * 100.
+ * Uses Exit1 when present and > 0, otherwise Exit2 (fallback when Exit1 cell is empty).
+ */
+export function getRR1Value(
+  entryExitValues: TheoEntryValues | undefined
+): number | null {
+  if (!entryExitValues) return null;
+  const entry1 = entryExitValues.entry1 || 0;
+  const exit1 = entryExitValues.exit1 || 0;
+  const exit2 = entryExitValues.exit2 || 0;
+  const exitForRR1 = exit1 > 0 ? exit1 : exit2;
+  return calculateRR1(entry1, exitForRR1);
+}
+
+function calculateRR2(entry2: number, exit: number): number | null {
+  if (!entry2 || !exit || entry2 === 0) return null;
+  const rr2 = ((exit - entry2) / entry2) * 100;
+  return isNaN(rr2) || !isFinite(rr2) ? null : rr2;
+}
+
+/**
+ * Returns RR2 for display: (Exit - Entry2) / Entry2 * 100.
+ * Uses Exit2 when present and > 0, otherwise Exit1 (fallback when Exit2 cell is empty).
+ */
+export function getRR2Value(
+  entryExitValues: TheoEntryValues | undefined
+): number | null {
+  if (!entryExitValues) return null;
+  const entry2 = entryExitValues.entry2 || 0;
+  const exit1 = entryExitValues.exit1 || 0;
+  const exit2 = entryExitValues.exit2 || 0;
+  const exitForRR2 = exit2 > 0 ? exit2 : exit1;
+  return calculateRR2(entry2, exitForRR2);
+}
+
+export function isRR1Green(
+  entryExitValues: TheoEntryValues | undefined,
+  price: number | null | undefined
+): boolean {
+  if (!entryExitValues) return false;
+  const entry1 = entryExitValues.entry1 || 0;
+  const exit1 = entryExitValues.exit1 || 0;
+  const exit2 = entryExitValues.exit2 || 0;
+  const exitForRR1 = exit1 > 0 ? exit1 : exit2;
+  const rr1 = calculateRR1(entry1, exitForRR1);
+  return (
+    rr1 !== null &&
+    rr1 >= RR1_GREEN_THRESHOLD_PERCENT &&
+    price !== null &&
+    price !== undefined &&
+    price > 0 &&
+    entry1 > 0 &&
+    price <= entry1 * PRICE_TOLERANCE_GREEN
+  );
+}
+
+export function isEntry1Green(
+  entryExitValues: TheoEntryValues | undefined,
+  price: number | null | undefined
+): boolean {
+  if (!entryExitValues) return false;
+  const entry1 = entryExitValues.entry1 || 0;
+  return (
+    entry1 > 0 &&
+    price !== null &&
+    price !== undefined &&
+    price > 0 &&
+    price <= entry1 * PRICE_TOLERANCE_GREEN
+  );
+}
+
+export function isRR2GreenForTheoEntry(
+  entryExitValues: TheoEntryValues | undefined,
+  price: number | null | undefined
+): boolean {
+  if (!entryExitValues) return false;
+  const entry2 = entryExitValues.entry2 || 0;
+  const exit1 = entryExitValues.exit1 || 0;
+  const exit2 = entryExitValues.exit2 || 0;
+  const exitForRR2 = exit2 > 0 ? exit2 : exit1;
+  const rr2 = calculateRR2(entry2, exitForRR2);
+  return (
+    rr2 !== null &&
+    rr2 > RR1_GREEN_THRESHOLD_PERCENT &&
+    price !== null &&
+    price !== undefined &&
+    price > 0 &&
+    entry2 > 0 &&
+    price <= entry2 * PRICE_TOLERANCE_GREEN
+  );
+}
+
+export function isEntry2Green(
+  entryExitValues: TheoEntryValues | undefined,
+  price: number | null | undefined
+): boolean {
+  if (!entryExitValues) return false;
+  const entry2 = entryExitValues.entry2 || 0;
+  return (
+    entry2 > 0 &&
+    price !== null &&
+    price !== undefined &&
+    price > 0 &&
+    price <= entry2 * PRICE_TOLERANCE_GREEN
+  );
+}
+
+export function isTheoEntryGreen(
+  entryExitValues: TheoEntryValues | undefined,
+  price: number | null | undefined
+): boolean {
+  const rr1Path = isRR1Green(entryExitValues, price) && isEntry1Green(entryExitValues, price);
+  const rr2Path =
+    isRR2GreenForTheoEntry(entryExitValues, price) && isEntry2Green(entryExitValues, price);
+  return rr1Path || rr2Path;
+}
@@ -0,0 +1,105 @@
+/**
+ * Data Changes
+ *
+ * Row-level change detection between two versions of a data array, shared by the client data hooks (change
+ * notifications) and the Cloud Functions (refreshRuns summaries). Runtime-agnostic: no imports outside shared/.
+ */
+
+export interface DataChangeSummary {
+  added: number;
+  removed: number;
+  updated: number;
+  total: number;
+  hasSignificantChanges: boolean;
+}
+
+/**
+ * Deep equality of two JSON-like values, independent of object key order. Keys holding undefined count as
+ * missing, as in JSON and Firestore.
+ */
+export function isSameData(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => isSameData(item, b[i]));
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  const objA = a as Record<string, unknown>;
+  const objB = b as Record<string, unknown>;
+  const keysA = Object.keys(objA).filter((key) => objA[key] !== undefined);
+  const keysB = Object.keys(objB).filter((key) => objB[key] !== undefined);
+  return keysA.length === keysB.length && keysA.every((key) => key in objB && isSameData(objA[key], objB[key]));
+}
+
+/**
+ * Compare two data arrays and detect changes
+ *
+ * @param oldData Previous data array
+ * @param newData New data array
+ * @param getKey Function to extract unique key from data item
+ * @param threshold Minimum percentage change to consider significant (default: 5%)
+ * @returns Summary of changes
+ */
+export function detectDataChanges<T>(
+  oldData: T[],
+  newData: T[],
+  getKey: (item: T) => string,
+  threshold: number = 0.05
+): DataChangeSummary {
+  if (!oldData || oldData.length === 0) {
+    return {
+      added: newData.length,
+      removed: 0,
+      updated: 0,
+      total: newData.length,
+      hasSignificantChanges: newData.length > 0,
+    };
+  }
+
+  if (!newData || newData.length === 0) {
+    return {
+      added: 0,
+      removed: oldData.length,
+      updated: 0,
+      total: 0,
+      hasSignificantChanges: oldData.length > 0,
+    };
+  }
+
+  // Create maps for efficient lookup
+  const oldMap = new Map<string, T>();
+  const newMap = new Map<string, T>();
+  oldData.forEach((item) => oldMap.set(getKey(item), item));
+  newData.forEach((item) => newMap.set(getKey(item), item));
+
+  let added = 0;
+  let removed = 0;
+  let updated = 0;
+
+  // Added items, and updated items (same key but different content)
+  newMap.forEach((newItem, key) => {
+    const oldItem = oldMap.get(key);
+    if (oldItem === undefined) added++;
+    else if (!isSameData(oldItem, newItem)) updated++;
+  });
+
+  // Removed items
+  oldMap.forEach((_item, key) => {
+    if (!newMap.has(key)) removed++;
+  });
+
+  const total = newData.length;
+  const totalChanges = added + removed + updated;
+  const changePercentage = total > 0 ? totalChanges / total : 0;
+  const hasSignificantChanges = changePercentage >= threshold || totalChanges > 10;
+
+  return {
+    added,
+    removed,
+    updated,
+    total,
+    hasSignificantChanges,
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Industries
+ *
+ * The canonical industry list and how a DashBoard industry resolves to its threshold row, shared by the client
+ * (colors, threshold views) and the Cloud Functions (daily score snapshot). Names are compared normalized
+ * ('&' = 'and', case, punctuation and spacing ignored); names that still differ resolve through the
+ * admin-maintained alias table (appConfig/industryAliases). Runtime-agnostic: no imports outside shared/.
+ */
+
+/** camelCase keys (Firestore doc ids of industryThresholds) → display labels */
+export const INDUSTRY_MAP: Record<string, string> = {
+  apparelLeatherAndAlliedProducts: 'Apparel, Leather & Allied Products',
+  chemicalProducts: 'Chemical Products',
+  computerAndElectronicProducts: 'Computer & Electronic Products',
+  electricalEquipmentAppliancesAndComponents: 'Electrical Equipment, Appliances & Components',
+  fabricatedMetalProducts: 'Fabricated Metal Products',
+  foodBeverageAndTobaccoProducts: 'Food, Beverage & Tobacco Products',
+  furnitureAndRelatedProducts: 'Furniture & Related Products',
+  machinery: 'Machinery',
+  miscellaneousManufacturing: 'Miscellaneous Manufacturing',
+  nonmetallicMineralProducts: 'Nonmetallic Mineral Products',
+  paperProducts: 'Paper Products',
+  petroleumAndCoalProducts: 'Petroleum & Coal Products',
+  primaryMetals: 'Primary Metals',
+  printingAndRelatedSupportActivities: 'Printing & Related Support Activities',
+  plasticsAndRubberProducts: 'Plastics & Rubber Products',
+  textileMills: 'Textile Mills',
+  transportationEquipment17: 'Transportation Equipment',
+  woodProducts: 'Wood Products',
+  accommodationAndFoodServices: 'Accommodation & Food Services',
+  agricultureForestryFishingAndHunting: 'Agriculture, Forestry, Fishing & Hunting',
+  artsEntertainmentAndRecreation: 'Arts, Entertainment & Recreation',
+  construction: 'Construction',
+  educationalServices: 'Educational Services',
+  financeAndInsurance: 'Finance & Insurance',
+  healthCareAndSocialAssistance: 'Health Care & Social Assistance',
+  information: 'Information',
+  managementOfCompaniesAndSupportServices: 'Management of Companies & Support Services',
+  mining: 'Mining',
+  otherServices: 'Other Services',
+  professionalScientificAndTechnicalServices: 'Professional, Scientific & Technical Services',
+  publicAdministration: 'Public Administration',
+  realEstateRentalAndLeasing: 'Real Estate, Rental & Leasing',
+  retailTrade: 'Retail Trade',
+  transportationAndWarehousing: 'Transportation & Warehousing',
+  utilities: 'Utilities',
+  wholesaleTrade: 'Wholesale Trade',
+};
+
+/** Normalized alias (see normalizeIndustryName) → INDUSTRY_MAP key */
+export type IndustryAliasTable = Record<string, string>;
+
+/** The threshold values of one industry (industryThresholds/{industryKey}) */
+export type IndustryThresholdValues = {
+  leverageF2Min: number;
+  leverageF2Max: number;
+  cashSdebtMin: number;
+  cashSdebtMax: number;
+  currentRatioMin: number;
+  currentRatioMax: number;
+};
+
+/** Threshold row of one industry as the colors read it */
+export type IndustryThreshold = IndustryThresholdValues & {
+  industryKey: string;
+  industry: string;
+  /** Normalized industry aliases that resolve to this row */
+  aliases?: string[];
+};
+
+export function normalizeIndustryName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+const CANONICAL_BY_NAME = new Map<string, string>(
+  Object.entries(INDUSTRY_MAP).flatMap(([key, label]) => [
+    [normalizeIndustryName(label), key],
+    [normalizeIndustryName(key), key],
+  ])
+);
+
+/** INDUSTRY_MAP key of an industry name, via its normalized label/key or the alias table; null when unresolved */
+export function resolveIndustryKey(industry: string, aliases: IndustryAliasTable = {}): string | null {
+  const name = normalizeIndustryName(industry);
+  if (name === '') return null;
+  const key = CANONICAL_BY_NAME.get(name) ?? aliases[name];
+  return key !== undefined && key in INDUSTRY_MAP ? key : null;
+}
+
+/** Threshold rows with the normalized aliases that resolve to each industry */
+export function attachIndustryAliases<T extends IndustryThreshold>(thresholdData: T[], aliases: IndustryAliasTable): T[] {
+  const aliasesByKey = new Map<string, string[]>();
+  Object.entries(aliases).forEach(([alias, key]) => {
+    aliasesByKey.set(key, [...(aliasesByKey.get(key) ?? []), alias]);
+  });
+  return thresholdData.map((row) => ({ ...row, aliases: aliasesByKey.get(row.industryKey) ?? [] }));
+}
+
+/**
+ * One threshold row per INDUSTRY_MAP industry from the stored values per industry key; industries without
+ * stored values get 0 for every field.
+ */
+export function buildIndustryThresholds(
+  valuesByKey: Record<string, Partial<IndustryThresholdValues> | undefined>
+): IndustryThreshold[] {
+  return Object.entries(INDUSTRY_MAP).map(([industryKey, industry]) => {
+    const entry = valuesByKey[industryKey];
+    return {
+      industryKey,
+      industry,
+      leverageF2Min: entry?.leverageF2Min ?? 0,
+      leverageF2Max: entry?.leverageF2Max ?? 0,
+      cashSdebtMin: entry?.cashSdebtMin ?? 0,
+      cashSdebtMax: entry?.cashSdebtMax ?? 0,
+      currentRatioMin: entry?.currentRatioMin ?? 0,
+      currentRatioMax: entry?.currentRatioMax ?? 0,
+    };
+  });
+}
+
+/**
+ * Threshold row for an industry: a case-insensitive label match, then the normalized label, then the
+ * row's aliases. Used by every industry-banded color.
+ */
+export function findIndustryThreshold<T extends IndustryThreshold>(industry: string, thresholdData: T[]): T | undefined {
+  if (!industry || industry.trim() === '') return undefined;
+  const exact = thresholdData.find((t) => t.industry.toLowerCase() === industry.toLowerCase());
+  if (exact) return exact;
+  const name = normalizeIndustryName(industry);
+  return thresholdData.find((t) => normalizeIndustryName(t.industry) === name || (t.aliases?.includes(name) ?? false));
+}
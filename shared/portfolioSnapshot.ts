@@ -0,0 +1,165 @@
+/**
+ * Portfolio Snapshot
+ *
+ * Daily valuation of a portfolio in USD and in the chosen base currency, shared by the Cloud Functions
+ * (dailyPortfolioSnapshot) and the client (fallback write from the Personal Portfolio view) so both value a
+ * portfolio the same way. FX rates come from the caller. Runtime-agnostic: no imports outside shared/.
+ */
+
+/** Stored in userPortfolios/{userId}/snapshots/{YYYY-MM-DD} */
+export interface PortfolioSnapshot {
+  date: string; // YYYY-MM-DD
+  valueUSD: number;
+  baseCurrency: string;
+  usdToBase: number; // Units of baseCurrency per 1 USD on the snapshot date
+  valueBase: number;
+  /** Units per 1 USD for each supported base currency, so history can be shown in any of them */
+  usdRates: Record<string, number>;
+  /** Price per ticker in USD (holdings and the benchmark) */
+  pricesUSD: Record<string, number>;
+  /** Held tickers that had no price or FX rate and are excluded from the value */
+  missingPrices: string[];
+}
+
+/** One priced line of the snapshot; price is in the stock's own currency */
+export interface SnapshotHolding {
+  ticker: string;
+  quantity: number;
+  price: number | null;
+  currency: string;
+}
+
+/** Units of `to` per 1 `from`, or null when the rate is unavailable */
+export type ExchangeRateLookup = (from: string, to: string) => Promise<number | null>;
+
+/** Base currencies offered by the performance panel; every snapshot stores a USD rate for each */
+export const PORTFOLIO_BASE_CURRENCIES = ['SEK', 'USD', 'EUR', 'GBP', 'DKK', 'NOK', 'CHF', 'AUD', 'CAD'];
+
+/** Nasdaq Nordic ticker suffixes that typically trade in SEK */
+const SEK_TICKER_SUFFIXES = ['-B', '-A'];
+
+/** Trading currency guessed from the ticker when entry/exit values have none */
+export function inferCurrencyFromTicker(ticker: string): string {
+  const upper = ticker.toUpperCase();
+  if (SEK_TICKER_SUFFIXES.some((s) => upper.endsWith(s))) {
+    return 'SEK';
+  }
+  return 'USD';
+}
+
+/** Rate lookup over a USD rate table (rates[X] = units of X per 1 USD), crossed via USD */
+export function createUSDRateLookup(rates: Record<string, number>): ExchangeRateLookup {
+  const perUSD = (currency: string): number | null => (currency === 'USD' ? 1 : rates[currency] ?? null);
+  return async (from, to) => {
+    const fromPerUSD = perUSD(from.toUpperCase());
+    const toPerUSD = perUSD(to.toUpperCase());
+    if (fromPerUSD == null || toPerUSD == null) return null;
+    const rate = toPerUSD / fromPerUSD;
+    return isFinite(rate) && rate > 0 ? rate : null;
+  };
+}
+
+/** Portfolio line as stored in userPortfolios/{userId}.portfolio (the fields the snapshot reads) */
+export interface SnapshotPortfolioItem {
+  ticker: string;
+  companyName: string;
+  quantity: number;
+  price: number | null;
+}
+
+/** Current price of one DashBoard stock (benjaminGraham rows) */
+export interface SnapshotPriceRow {
+  ticker: string;
+  companyName: string;
+  price: number | null;
+}
+
+/**
+ * Snapshot lines of a portfolio: each item priced from the DashBoard row with the same ticker and company
+ * (falling back to the item's own price), plus the benchmark when it has a DashBoard row.
+ */
+export function toSnapshotHoldings(
+  items: SnapshotPortfolioItem[],
+  prices: SnapshotPriceRow[],
+  benchmarkTicker: string | null,
+  currencyOf: (ticker: string, companyName: string) => string
+): { holdings: SnapshotHolding[]; benchmark: SnapshotHolding | null } {
+  const holdings = items.map((item) => {
+    const match = prices.find((row) => row.ticker === item.ticker && row.companyName === item.companyName);
+    return {
+      ticker: item.ticker,
+      quantity: item.quantity,
+      price: match?.price ?? item.price,
+      currency: currencyOf(item.ticker, item.companyName),
+    };
+  });
+  const benchmarkMatch = benchmarkTicker ? prices.find((row) => row.ticker === benchmarkTicker) : undefined;
+  const benchmark = benchmarkMatch
+    ? {
+        ticker: benchmarkMatch.ticker,
+        quantity: 0,
+        price: benchmarkMatch.price,
+        currency: currencyOf(benchmarkMatch.ticker, benchmarkMatch.companyName),
+      }
+    : null;
+  return { holdings, benchmark };
+}
+
+/**
+ * Value the holdings (and price the benchmark) in USD and base currency.
+ * Holdings without a price or FX rate are listed in missingPrices and left out of the value.
+ */
+export async function valuePortfolio(
+  holdings: SnapshotHolding[],
+  benchmark: SnapshotHolding | null,
+  baseCurrency: string,
+  date: string,
+  getRate: ExchangeRateLookup
+): Promise<PortfolioSnapshot | null> {
+  const usdToBase = await getRate('USD', baseCurrency);
+  if (usdToBase == null) return null;
+
+  const usdRates: Record<string, number> = {};
+  for (const currency of PORTFOLIO_BASE_CURRENCIES) {
+    const rate = currency === baseCurrency ? usdToBase : await getRate('USD', currency);
+    if (rate != null) usdRates[currency] = rate;
+  }
+
+  const ratesToUSD = new Map<string, number | null>();
+  const toUSD = async (line: SnapshotHolding): Promise<number | null> => {
+    if (line.price == null) return null;
+    const currency = line.currency.toUpperCase();
+    if (!ratesToUSD.has(currency)) ratesToUSD.set(currency, await getRate(currency, 'USD'));
+    const rate = ratesToUSD.get(currency);
+    return rate == null ? null : line.price * rate;
+  };
+
+  let valueUSD = 0;
+  const pricesUSD: Record<string, number> = {};
+  const missingPrices: string[] = [];
+  for (const holding of holdings) {
+    if (holding.quantity <= 0) continue;
+    const priceUSD = await toUSD(holding);
+    if (priceUSD == null) {
+      missingPrices.push(holding.ticker);
+      continue;
+    }
+    pricesUSD[holding.ticker] = priceUSD;
+    valueUSD += priceUSD * holding.quantity;
+  }
+  if (benchmark) {
+    const priceUSD = await toUSD(benchmark);
+    if (priceUSD != null) pricesUSD[benchmark.ticker] = priceUSD;
+  }
+
+  return {
+    date,
+    valueUSD,
+    baseCurrency,
+    usdToBase,
+    valueBase: valueUSD * usdToBase,
+    usdRates,
+    pricesUSD,
+    missingPrices,
+  };
+}
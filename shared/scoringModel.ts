@@ -0,0 +1,313 @@
+/**
+ * Scoring Model
+ *
+ * The scoring model (appConfig/scoringModel), its validation and the per-metric evaluation, shared by the
+ * client (calculateScore, calculateScoreDetailed, the model editor) and the Cloud Functions (daily score
+ * snapshot) so a stored snapshot scores exactly like the Score view. Runtime-agnostic: no imports outside shared/.
+ */
+
+import {
+  getCashSdebtColor,
+  getCurrentRatioColor,
+  getLeverageF2Color,
+  getMungerQualityScoreColor,
+  getPEPercentageColor,
+  getValueCreationColor,
+  isTheoEntryGreen,
+  type ColorType,
+  type TheoEntryValues,
+} from './colorLogic';
+import type { IndustryThreshold } from './industries';
+
+/** Identifier of a metric that can contribute to the score. */
+export type ScoreMetricId =
+  | 'valueCreation'
+  | 'mungerQualityScore'
+  | 'leverageF2'
+  | 'cashSdebt'
+  | 'currentRatio'
+  | 'pe1Industry'
+  | 'pe2Industry'
+  | 'theoEntry'
+  | 'sma9'
+  | 'sma21';
+
+/**
+ * How a metric's color turns into points:
+ * - 3Band: weight * color factor (GREEN / ORANGE / RED / BLANK)
+ * - GreenOnly: full weight if GREEN, otherwise 0
+ */
+export type ScoreMetricMethod = '3Band' | 'GreenOnly';
+
+export type ScoreMetricCategory = 'Fundamental' | 'Technical';
+
+export interface ScoreMetricConfig {
+  id: ScoreMetricId;
+  /** Display name used in breakdowns (e.g. 'VALUE CREATION', 'THEOENTRY') */
+  label: string;
+  weight: number;
+  method: ScoreMetricMethod;
+  category: ScoreMetricCategory;
+  /** Disabled metrics contribute neither points nor weight */
+  enabled: boolean;
+}
+
+/** Factor applied per color for 3Band metrics. */
+export interface ScoreColorFactors {
+  GREEN: number;
+  ORANGE: number;
+  RED: number;
+  BLANK: number;
+}
+
+/**
+ * Versioned scoring model (appConfig/scoringModel in Firestore).
+ * Every score is computed from exactly one model version.
+ */
+export interface ScoringModel {
+  version: number;
+  metrics: ScoreMetricConfig[];
+  colorFactors: ScoreColorFactors;
+  updatedAt: Date | null;
+  updatedBy: string | null;
+}
+
+/** The Score Board values the metric colors read; SMA colors are pre-computed (see getSMATableColor) */
+export interface ScoreMetricRow {
+  industry: string;
+  valueCreation: number | null;
+  mungerQualityScore: number | null;
+  leverageF2: number | null;
+  cashSdebt: number | null;
+  isCashSdebtDivZero: boolean;
+  currentRatio: number | null;
+  pe1Industry: number | null;
+  pe2Industry: number | null;
+  sma9Color?: 'GREEN' | 'RED' | null;
+  sma21Color?: 'GREEN' | 'RED' | null;
+}
+
+export const COLOR_FACTOR_GREEN = 1.00;
+export const COLOR_FACTOR_ORANGE_BLUE = 0.70;
+
+export const DEFAULT_SCORE_METRICS: ScoreMetricConfig[] = [
+  // Fundamental (50p)
+  { id: 'valueCreation', label: 'VALUE CREATION', weight: 9, method: '3Band', category: 'Fundamental', enabled: true },
+  { id: 'mungerQualityScore', label: 'Munger Quality Score', weight: 12, method: '3Band', category: 'Fundamental', enabled: true },
+  { id: 'leverageF2', label: 'LEVERAGE F2', weight: 7, method: '3Band', category: 'Fundamental', enabled: true },
+  { id: 'cashSdebt', label: 'Cash/SDebt', weight: 7, method: '3Band', category: 'Fundamental', enabled: true },
+  { id: 'currentRatio', label: 'Current Ratio', weight: 5, method: '3Band', category: 'Fundamental', enabled: true },
+  { id: 'pe1Industry', label: 'P/E1 INDUSTRY', weight: 5, method: '3Band', category: 'Fundamental', enabled: true },
+  { id: 'pe2Industry', label: 'P/E2 INDUSTRY', weight: 5, method: '3Band', category: 'Fundamental', enabled: true },
+  // Technical (50p)
+  { id: 'theoEntry', label: 'THEOENTRY', weight: 45, method: 'GreenOnly', category: 'Technical', enabled: true },
+  { id: 'sma9', label: 'SMA(9)', weight: 2.5, method: 'GreenOnly', category: 'Technical', enabled: true },
+  { id: 'sma21', label: 'SMA(21)', weight: 2.5, method: 'GreenOnly', category: 'Technical', enabled: true },
+];
+
+/** Version 0 marks the built-in model (never stored in Firestore). */
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  version: 0,
+  metrics: DEFAULT_SCORE_METRICS,
+  colorFactors: {
+    GREEN: COLOR_FACTOR_GREEN,
+    ORANGE: COLOR_FACTOR_ORANGE_BLUE,
+    RED: 0.0,
+    BLANK: 0.0,
+  },
+  updatedAt: null,
+  updatedBy: null,
+};
+
+/** Upper bound for a single metric weight in the admin editor. */
+export const MAX_SCORE_METRIC_WEIGHT = 100;
+
+export const SCORE_METRIC_IDS: ScoreMetricId[] = DEFAULT_SCORING_MODEL.metrics.map((m) => m.id);
+
+function smaColorToColorType(color: ScoreMetricRow['sma9Color']): ColorType {
+  return color === 'GREEN' ? 'GREEN' : color === 'RED' ? 'RED' : 'BLANK';
+}
+
+/**
+ * Classifies one metric for a stock (GREEN / ORANGE / RED / BLANK).
+ * TheoEntry is GREEN or BLANK only; SMA colors come pre-computed on the row.
+ */
+export function getMetricColor(
+  metricId: ScoreMetricId,
+  row: ScoreMetricRow,
+  thresholdData: IndustryThreshold[],
+  price: number | null,
+  entryExitValue: TheoEntryValues | undefined
+): ColorType {
+  switch (metricId) {
+    case 'valueCreation':
+      return getValueCreationColor(row.valueCreation);
+    case 'mungerQualityScore':
+      return getMungerQualityScoreColor(row.mungerQualityScore);
+    case 'leverageF2':
+      return getLeverageF2Color(row.leverageF2, row.industry, thresholdData);
+    case 'cashSdebt':
+      return getCashSdebtColor(row.cashSdebt, row.isCashSdebtDivZero, row.industry, thresholdData);
+    case 'currentRatio':
+      return getCurrentRatioColor(row.currentRatio, row.industry, thresholdData);
+    case 'pe1Industry':
+      return getPEPercentageColor(row.pe1Industry);
+    case 'pe2Industry':
+      return getPEPercentageColor(row.pe2Industry);
+    case 'theoEntry':
+      return isTheoEntryGreen(entryExitValue, price) ? 'GREEN' : 'BLANK';
+    case 'sma9':
+      return smaColorToColorType(row.sma9Color);
+    case 'sma21':
+      return smaColorToColorType(row.sma21Color);
+    default:
+      return 'BLANK';
+  }
+}
+
+/**
+ * Factor (0..1) applied to a metric's weight for a given color.
+ * GreenOnly: 1 when GREEN, otherwise 0. 3Band: model color factor.
+ */
+export function getMetricFactor(
+  metric: ScoreMetricConfig,
+  color: ColorType,
+  colorFactors: ScoreColorFactors
+): number {
+  if (metric.method === 'GreenOnly') {
+    return color === 'GREEN' ? 1 : 0;
+  }
+  return colorFactors[color];
+}
+
+/** Metrics that contribute to the score (enabled and with positive weight). */
+export function getActiveMetrics(model: ScoringModel): ScoreMetricConfig[] {
+  return model.metrics.filter((m) => m.enabled && m.weight > 0);
+}
+
+/** Sum of active metric weights; the score is scaled against this to 0–100. */
+export function getTotalWeight(model: ScoringModel): number {
+  return getActiveMetrics(model).reduce((sum, m) => sum + m.weight, 0);
+}
+
+/** Max points a category can contribute under the model. */
+export function getCategoryMaxPoints(model: ScoringModel, category: ScoreMetricCategory): number {
+  return getActiveMetrics(model)
+    .filter((m) => m.category === category)
+    .reduce((sum, m) => sum + m.weight, 0);
+}
+
+/** Scales raw points to 0–100 (1 decimal) against the model's total weight. */
+export function scaleScore(totalPoints: number, totalWeight: number): number {
+  const scaled = totalWeight > 0
+    ? Math.max(0, Math.min(100, (totalPoints / totalWeight) * 100))
+    : 0;
+  return Math.round(scaled * 10) / 10;
+}
+
+/** Score 0–100 (1 decimal) of a stock from its metric colors; missing colors count as BLANK. */
+export function scoreFromColors(model: ScoringModel, colors: Partial<Record<ScoreMetricId, ColorType>>): number {
+  const totalPoints = getActiveMetrics(model).reduce(
+    (sum, metric) => sum + metric.weight * getMetricFactor(metric, colors[metric.id] ?? 'BLANK', model.colorFactors),
+    0
+  );
+  return scaleScore(totalPoints, getTotalWeight(model));
+}
+
+function isValidFactor(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+}
+
+function isValidWeight(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_SCORE_METRIC_WEIGHT;
+}
+
+/**
+ * Validates the problems an admin can introduce when editing a model.
+ * Returns a list of human-readable errors (empty when the model is usable).
+ */
+export function validateScoringModel(model: Pick<ScoringModel, 'metrics' | 'colorFactors'>): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  for (const metric of model.metrics) {
+    if (!SCORE_METRIC_IDS.includes(metric.id)) {
+      errors.push(`Unknown metric: ${metric.id}`);
+    }
+    if (seen.has(metric.id)) {
+      errors.push(`Duplicate metric: ${metric.id}`);
+    }
+    seen.add(metric.id);
+    if (!isValidWeight(metric.weight)) {
+      errors.push(`Invalid weight for ${metric.label}: ${metric.weight}`);
+    }
+    if (metric.method !== '3Band' && metric.method !== 'GreenOnly') {
+      errors.push(`Invalid method for ${metric.label}: ${String(metric.method)}`);
+    }
+  }
+
+  for (const color of ['GREEN', 'ORANGE', 'RED', 'BLANK'] as const) {
+    if (!isValidFactor(model.colorFactors[color])) {
+      errors.push(`Invalid color factor for ${color}: ${model.colorFactors[color]}`);
+    }
+  }
+
+  if (getTotalWeight({ ...DEFAULT_SCORING_MODEL, ...model }) <= 0) {
+    errors.push('At least one enabled metric with weight > 0 is required');
+  }
+
+  return errors;
+}
+
+/**
+ * Builds a ScoringModel from a raw Firestore document.
+ * Metrics missing from the document are added (disabled) so newly introduced
+ * metrics never change existing scores. Returns null when the document is invalid.
+ */
+export function parseScoringModel(raw: unknown): ScoringModel | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as Record<string, unknown>;
+
+  if (typeof data.version !== 'number' || !Array.isArray(data.metrics)) return null;
+
+  const storedMetrics = new Map<string, Record<string, unknown>>();
+  for (const m of data.metrics as unknown[]) {
+    if (m && typeof m === 'object' && typeof (m as Record<string, unknown>).id === 'string') {
+      storedMetrics.set((m as Record<string, unknown>).id as string, m as Record<string, unknown>);
+    }
+  }
+
+  const metrics: ScoreMetricConfig[] = DEFAULT_SCORING_MODEL.metrics.map((defaultMetric) => {
+    const stored = storedMetrics.get(defaultMetric.id);
+    if (!stored) {
+      return { ...defaultMetric, enabled: false };
+    }
+    return {
+      id: defaultMetric.id,
+      label: defaultMetric.label,
+      category: defaultMetric.category,
+      weight: stored.weight as number,
+      method: stored.method as ScoreMetricConfig['method'],
+      enabled: stored.enabled !== false,
+    };
+  });
+
+  const rawFactors = (data.colorFactors ?? {}) as Record<string, unknown>;
+  const colorFactors: ScoreColorFactors = {
+    GREEN: rawFactors.GREEN as number,
+    ORANGE: rawFactors.ORANGE as number,
+    RED: rawFactors.RED as number,
+    BLANK: rawFactors.BLANK as number,
+  };
+
+  if (validateScoringModel({ metrics, colorFactors }).length > 0) return null;
+
+  const updatedAt = data.updatedAt as { toDate?: () => Date } | undefined;
+  return {
+    version: data.version,
+    metrics,
+    colorFactors,
+    updatedAt: typeof updatedAt?.toDate === 'function' ? updatedAt.toDate() : null,
+    updatedBy: typeof data.updatedBy === 'string' ? data.updatedBy : null,
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Sheet Diagnostics
+ *
+ * Column-mapping report for one fetched sheet against its schema: headers no field reads, required fields
+ * without a matching header, and per field the header it was read from and how many filled cells failed to
+ * parse. A renamed header shows up here instead of as silent nulls in the views.
+ */
+
+import type { SheetFieldSchema, SheetFieldType, SheetSchema } from './sheetSchema';
+import { getSpecialToken, isValidValue, parseNumericValueNullable, type DataRow } from './sheetTransforms';
+
+export interface SheetColumnDiagnostics {
+  field: string;
+  type: SheetFieldType;
+  required: boolean;
+  /** Sheet header the field is read from, or null when no alias matched */
+  header: string | null;
+  /** Cells with a value */
+  filled: number;
+  /** Filled cells that did not parse (special tokens such as #DIV/0! are not failures) */
+  parseFailures: number;
+  /** parseFailures / filled, 0 when no cell is filled */
+  parseFailureRate: number;
+}
+
+export interface SheetDiagnostics {
+  schemaId: string;
+  sheetName: string;
+  rowCount: number;
+  /** Headers that no schema field reads */
+  unmappedHeaders: string[];
+  /** Required fields without a matching header */
+  missingRequired: string[];
+  columns: SheetColumnDiagnostics[];
+  generatedAt: number;
+}
+
+/** Header a field is read from: per alias an exact match first, then a case-insensitive one (as getValue) */
+export function resolveFieldHeader(field: SheetFieldSchema, headers: readonly string[]): string | null {
+  for (const alias of field.aliases) {
+    if (headers.includes(alias)) return alias;
+    const lowerAlias = alias.toLowerCase();
+    const match = headers.find((header) => header.toLowerCase() === lowerAlias);
+    if (match !== undefined) return match;
+  }
+  return null;
+}
+
+function isParseFailure(field: SheetFieldSchema, value: string): boolean {
+  if (getSpecialToken(field, value)) return false;
+  return field.type === 'text' ? !isValidValue(value) : parseNumericValueNullable(value) === null;
+}
+
+/**
+ * Diagnostics for the rows of a sheet. Headers are the sheet's column names (snapshot headers or the keys of
+ * the first row); empty headers are ignored. sheetName defaults to the schema's (universes may rename sheets).
+ */
+export function diagnoseSheet(
+  schema: SheetSchema,
+  headers: readonly string[],
+  rows: DataRow[],
+  options: { sheetName?: string; now?: number } = {}
+): SheetDiagnostics {
+  const sheetHeaders = headers.filter((header) => header.trim() !== '');
+  const columns: SheetColumnDiagnostics[] = [];
+
+  for (const [fieldName, field] of Object.entries(schema.fields)) {
+    const header = resolveFieldHeader(field, sheetHeaders);
+    let filled = 0;
+    let parseFailures = 0;
+
+    if (header !== null) {
+      for (const row of rows) {
+        const cell = row[header];
+        const value = cell === undefined || cell === null ? '' : String(cell).trim();
+        if (value === '') continue;
+        filled++;
+        if (isParseFailure(field, value)) parseFailures++;
+      }
+    }
+
+    columns.push({
+      field: fieldName,
+      type: field.type,
+      required: field.required === true,
+      header,
+      filled,
+      parseFailures,
+      parseFailureRate: filled > 0 ? parseFailures / filled : 0,
+    });
+  }
+
+  // Every spelling of a field counts as mapped, so a sheet with both "Ticker" and "Symbol" reports neither
+  const aliasSet = new Set(
+    Object.values(schema.fields).flatMap((field) => field.aliases.map((alias) => alias.toLowerCase()))
+  );
+
+  return {
+    schemaId: schema.id,
+    sheetName: options.sheetName ?? schema.sheetName,
+    rowCount: rows.length,
+    unmappedHeaders: sheetHeaders.filter((header) => !aliasSet.has(header.toLowerCase())),
+    missingRequired: columns.filter((column) => column.required && column.header === null).map((column) => column.field),
+    columns,
+    generatedAt: options.now ?? Date.now(),
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Sheet Schema
+ *
+ * Declarative description of the sheets the app reads: per field the accepted header spellings, the value
+ * type, whether the sheet is unusable without it, and cell tokens that carry a meaning of their own. The
+ * transforms in sheetTransforms.ts read every column through these schemas and sheetDiagnostics.ts reports
+ * how well a fetched sheet matches them. Shared by the client, the worker and the Cloud Functions.
+ */
+
+export type SheetFieldType = 'text' | 'number' | 'percent';
+
+/** Meaning of a special cell token; 'divZero' = division by zero in the sheet formula */
+export type SheetSpecialToken = 'divZero';
+
+export interface SheetFieldSchema {
+  /** Accepted header spellings, in lookup order; lookups also match case-insensitively */
+  aliases: readonly string[];
+  type: SheetFieldType;
+  /** The sheet is unusable without this column */
+  required?: boolean;
+  /** Upper-cased cell values that are not parse failures but mean something (e.g. '#DIV/0!') */
+  specialTokens?: Readonly<Record<string, SheetSpecialToken>>;
+}
+
+export interface SheetSchema<F extends string = string> {
+  /** Stable id, used as the sheetDiagnostics document id */
+  id: string;
+  /** Sheet name in the default spreadsheet (universes may name it differently) */
+  sheetName: string;
+  fields: Readonly<Record<F, SheetFieldSchema>>;
+}
+
+const DIV_ZERO_TOKENS = { '#DIV/0!': 'divZero', INF: 'divZero', '∞': 'divZero' } as const;
+
+const COMPANY_NAME: SheetFieldSchema = { aliases: ['Company Name', 'Company', 'company'], type: 'text' };
+const TICKER: SheetFieldSchema = { aliases: ['Ticker', 'ticker', 'Ticket', 'ticket', 'Symbol', 'symbol'], type: 'text' };
+
+/** DashBoard: one row per company; source of Benjamin Graham, P/E Industry and Score Board */
+export const DASHBOARD_SCHEMA: SheetSchema<
+  | 'companyName'
+  | 'ticker'
+  | 'industry'
+  | 'price'
+  | 'ivFcf'
+  | 'irr1'
+  | 'pe'
+  | 'pe1'
+  | 'pe2'
+  | 'mungerQualityScore'
+  | 'valueCreation'
+  | 'leverageF2'
+  | 'currentRatio'
+  | 'cashSdebt'
+> = {
+  id: 'dashboard',
+  sheetName: 'DashBoard',
+  fields: {
+    companyName: { ...COMPANY_NAME, required: true },
+    ticker: { ...TICKER, required: true },
+    industry: { aliases: ['INDUSTRY', 'Industry', 'industry'], type: 'text', required: true },
+    price: { aliases: ['Price', 'price', 'PRICE'], type: 'number' },
+    ivFcf: { aliases: ['IV (FCF)', 'IV(FCF)', 'iv fcf', 'ivfcf'], type: 'number' },
+    irr1: { aliases: ['IRR1', 'irr1', 'IRR 1', 'irr 1'], type: 'number' },
+    pe: { aliases: ['P/E', 'pe', 'PE'], type: 'number' },
+    pe1: { aliases: ['P/E1', 'P/E 1', 'pe1', 'PE1'], type: 'number' },
+    pe2: { aliases: ['P/E2', 'P/E 2', 'pe2', 'PE2'], type: 'number' },
+    mungerQualityScore: { aliases: ['Munger Quality Score', 'munger quality score', 'MUNGER QUALITY SCORE'], type: 'number' },
+    valueCreation: { aliases: ['VALUE CREATION', 'Value Creation', 'value creation', 'VALUE_CREATION'], type: 'percent' },
+    leverageF2: { aliases: ['Leverage F2', 'leverage f2', 'LEVERAGE F2'], type: 'number' },
+    currentRatio: { aliases: ['Current Ratio', 'current ratio', 'CURRENT RATIO'], type: 'number' },
+    // No short-term debt makes the sheet divide by zero: the best possible value, not missing data
+    cashSdebt: { aliases: ['Cash/SDebt', 'cash/sdebt', 'CASH/SDEBT'], type: 'number', specialTokens: DIV_ZERO_TOKENS },
+  },
+};
+
+/** SMA: moving averages per ticker (rows are kept when either company name or ticker is present) */
+export const SMA_SCHEMA: SheetSchema<'companyName' | 'ticker' | 'sma9' | 'sma21' | 'sma55' | 'sma200'> = {
+  id: 'sma',
+  sheetName: 'SMA',
+  fields: {
+    companyName: COMPANY_NAME,
+    ticker: { ...TICKER, required: true },
+    sma9: { aliases: ['SMA(9)', 'sma(9)', 'sma9', 'SMA9'], type: 'number' },
+    sma21: { aliases: ['SMA(21)', 'sma(21)', 'sma21', 'SMA21'], type: 'number' },
+    sma55: { aliases: ['SMA(55)', 'sma(55)', 'sma55', 'SMA55'], type: 'number' },
+    sma200: { aliases: ['SMA(200)', 'sma(200)', 'sma200', 'SMA200'], type: 'number' },
+  },
+};
+
+/** IndustryThreshold: min/max bands per industry */
+export const INDUSTRY_THRESHOLD_SCHEMA: SheetSchema<
+  'industry' | 'leverageF2Min' | 'leverageF2Max' | 'cashSdebtMin' | 'cashSdebtMax' | 'currentRatioMin' | 'currentRatioMax'
+> = {
+  id: 'industryThreshold',
+  sheetName: 'IndustryThreshold',
+  fields: {
+    industry: { aliases: ['Industry', 'INDUSTRY', 'industry'], type: 'text', required: true },
+    leverageF2Min: { aliases: ['Leverage F2 Min', 'Leverage F2 min', 'leverageF2Min'], type: 'number', required: true },
+    leverageF2Max: { aliases: ['Leverage F2 Max', 'Leverage F2 max', 'leverageF2Max'], type: 'number', required: true },
+    cashSdebtMin: { aliases: ['Cash/SDebt Min', 'Cash/SDebt min', 'cashSdebtMin'], type: 'number', required: true },
+    cashSdebtMax: { aliases: ['Cash/SDebt Max', 'Cash/SDebt max', 'cashSdebtMax'], type: 'number', required: true },
+    currentRatioMin: { aliases: ['Current Ratio Min', 'Current Ratio min', 'currentRatioMin'], type: 'number', required: true },
+    currentRatioMax: { aliases: ['Current Ratio Max', 'Current Ratio max', 'currentRatioMax'], type: 'number', required: true },
+  },
+};
+
+export const SHEET_SCHEMAS: readonly SheetSchema[] = [DASHBOARD_SCHEMA, SMA_SCHEMA, INDUSTRY_THRESHOLD_SCHEMA];
@@ -0,0 +1,383 @@
+/**
+ * Sheet Transforms
+ *
+ * Sheet rows → model rows, shared by the client (services/sheets), the data transform worker and the Cloud
+ * Functions (adminRefreshHelpers). Every column is read through the schemas in sheetSchema.ts. Runtime-agnostic:
+ * no imports outside shared/ and no DOM or Node APIs, so every runtime compiles this file as-is.
+ *
+ * SHEET_TRANSFORM_VERSION is stamped on viewData built with these transforms. Bump it whenever the output of
+ * a transform changes, and regenerate the golden files (`npx vitest run shared -u`).
+ */
+
+import {
+  DASHBOARD_SCHEMA,
+  INDUSTRY_THRESHOLD_SCHEMA,
+  SMA_SCHEMA,
+  type SheetFieldSchema,
+  type SheetSpecialToken,
+} from './sheetSchema';
+
+export const SHEET_TRANSFORM_VERSION = 1;
+
+/** One sheet row keyed by header (CSV, Apps Script JSON and snapshot rows all map to this) */
+export type DataRow = Record<string, string | number | undefined>;
+
+export type SheetBenjaminGrahamRow = {
+  companyName: string;
+  ticker: string;
+  price: number | null;
+  ivFcf: number | null;
+  irr1: number | null;
+};
+
+export type SheetPEIndustryRow = {
+  industry: string;
+  pe: number | null;
+  pe1: number | null;
+  pe2: number | null;
+  companyCount: number;
+};
+
+export type SheetSMARow = {
+  companyName: string;
+  ticker: string;
+  sma9: number | null;
+  sma21: number | null;
+  sma55: number | null;
+  sma200: number | null;
+};
+
+export type SMALookupEntry = Pick<SheetSMARow, 'sma9' | 'sma21' | 'sma55' | 'sma200'>;
+
+export type SheetScoreBoardRow = {
+  companyName: string;
+  ticker: string;
+  industry: string;
+  mungerQualityScore: number | null;
+  valueCreation: number | null;
+  leverageF2: number | null;
+  pe1Industry: number | null;
+  pe2Industry: number | null;
+  currentRatio: number | null;
+  cashSdebt: number | null;
+  isCashSdebtDivZero: boolean;
+  sma9: number | null;
+  sma21: number | null;
+  sma55: number | null;
+  sma200: number | null;
+};
+
+export type SheetIndustryThresholdRow = {
+  industry: string;
+  leverageF2Min: number;
+  leverageF2Max: number;
+  cashSdebtMin: number;
+  cashSdebtMax: number;
+  currentRatioMin: number;
+  currentRatioMax: number;
+};
+
+/**
+ * Industry P/E medians (keyed by lowercased industry) and SMA values (keyed by lowercased ticker) joined into
+ * Score Board rows. Plain objects so the lookups can be posted to the worker.
+ */
+export interface ScoreBoardLookups {
+  industryPe1: Record<string, number>;
+  industryPe2: Record<string, number>;
+  sma: Record<string, SMALookupEntry>;
+}
+
+// ============================================================================
+// Value helpers
+// ============================================================================
+
+function lookup<T>(record: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+}
+
+/**
+ * First non-empty value of the given columns (exact header first, then case-insensitive), trimmed.
+ * Returns '' when no column has a value.
+ */
+export function getValue(possibleNames: readonly string[], row: DataRow): string {
+  if (!row || typeof row !== 'object') return '';
+
+  for (const name of possibleNames) {
+    const value = row[name];
+    if (value !== undefined && value !== null && value !== '') {
+      return String(value).trim();
+    }
+    const lowerName = name.toLowerCase();
+    for (const key in row) {
+      if (key.toLowerCase() === lowerName) {
+        const val = row[key];
+        if (val !== undefined && val !== null && val !== '') {
+          return String(val).trim();
+        }
+      }
+    }
+  }
+  return '';
+}
+
+/**
+ * Like getValue, but a numeric or string zero is returned as '0' (a meaningful value, not missing data).
+ */
+export function getValueAllowZero(possibleNames: readonly string[], row: DataRow): string {
+  if (!row || typeof row !== 'object') return '';
+
+  for (const name of possibleNames) {
+    const value = row[name];
+    if (value !== undefined && value !== null) {
+      if (value === 0 || value === '0') return '0';
+      if (value === '') continue;
+      return String(value).trim();
+    }
+    const lowerName = name.toLowerCase();
+    for (const key in row) {
+      if (key.toLowerCase() === lowerName) {
+        const val = row[key];
+        if (val !== undefined && val !== null) {
+          if (val === 0 || val === '0') return '0';
+          if (val === '') continue;
+          return String(val).trim();
+        }
+      }
+    }
+  }
+  return '';
+}
+
+/** False for empty values, spreadsheet errors (#N/A, #DIV/0!, …) and "Loading..." */
+export function isValidValue(value: string): boolean {
+  if (!value) return false;
+  const normalized = value.trim().toUpperCase();
+  return (
+    normalized !== '#N/A' &&
+    normalized !== 'N/A' &&
+    normalized !== '#NUM!' &&
+    normalized !== '#VALUE!' &&
+    normalized !== '#DIV/0!' &&
+    normalized !== '#REF!' &&
+    normalized !== 'LOADING...'
+  );
+}
+
+/**
+ * Number from a sheet value (decimal comma, spaces, #, % and $ are ignored). Null for invalid or missing
+ * values, so a real zero stays distinguishable from missing data.
+ */
+export function parseNumericValueNullable(valueStr: string): number | null {
+  if (typeof valueStr !== 'string' || !isValidValue(valueStr)) return null;
+
+  const cleaned = valueStr
+    .replace(/,/g, '.')
+    .replace(/\s/g, '')
+    .replace(/#/g, '')
+    .replace(/%/g, '')
+    .replace(/\$/g, '');
+
+  const parsed = parseFloat(cleaned);
+  if (isNaN(parsed) || !isFinite(parsed)) return null;
+  return parsed;
+}
+
+/** Percentage from a sheet value ("15%" → 15); same rules as parseNumericValueNullable */
+export function parsePercentageValueNullable(valueStr: string): number | null {
+  return parseNumericValueNullable(valueStr);
+}
+
+/** Median of the finite values, or null when there are none */
+export function calculateMedian(values: number[]): number | null {
+  if (!Array.isArray(values) || values.length === 0) return null;
+
+  const validNumbers = values.filter((v) => typeof v === 'number' && !isNaN(v) && isFinite(v));
+  if (validNumbers.length === 0) return null;
+
+  const sorted = [...validNumbers].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// ============================================================================
+// Schema readers
+// ============================================================================
+
+/** Cell of a schema field (first matching alias; a zero is a value), trimmed; '' when the row has none */
+export function readText(field: SheetFieldSchema, row: DataRow): string {
+  return getValueAllowZero(field.aliases, row);
+}
+
+/** Numeric value of a number or percent field; null for missing, invalid and special-token cells */
+export function readNumber(field: SheetFieldSchema, row: DataRow): number | null {
+  const value = readText(field, row);
+  return field.type === 'percent' ? parsePercentageValueNullable(value) : parseNumericValueNullable(value);
+}
+
+/** Special token of a cell value ('#DIV/0!' → 'divZero'), or null */
+export function getSpecialToken(field: SheetFieldSchema, value: string): SheetSpecialToken | null {
+  if (!field.specialTokens) return null;
+  return lookup(field.specialTokens, value.trim().toUpperCase()) ?? null;
+}
+
+// ============================================================================
+// Transforms
+// ============================================================================
+
+/** DashBoard rows with a valid company name and ticker → price, IV (FCF) and IRR1 */
+export function transformBenjaminGrahamRows(rows: DataRow[]): SheetBenjaminGrahamRow[] {
+  const fields = DASHBOARD_SCHEMA.fields;
+  const result: SheetBenjaminGrahamRow[] = [];
+  for (const row of rows) {
+    const companyName = readText(fields.companyName, row);
+    const ticker = readText(fields.ticker, row);
+    // DashBoard rule: rows whose company name or ticker is N/A carry no data
+    if (!isValidValue(companyName) || !isValidValue(ticker)) continue;
+
+    result.push({
+      companyName,
+      ticker,
+      price: readNumber(fields.price, row),
+      ivFcf: readNumber(fields.ivFcf, row),
+      irr1: readNumber(fields.irr1, row),
+    });
+  }
+  return result;
+}
+
+/** DashBoard rows grouped by industry → median P/E, P/E1 and P/E2 (in first-seen industry order) */
+export function transformPEIndustryRows(rows: DataRow[]): SheetPEIndustryRow[] {
+  const fields = DASHBOARD_SCHEMA.fields;
+  const industryMap = new Map<string, { pe: number[]; pe1: number[]; pe2: number[]; count: number }>();
+
+  for (const row of rows) {
+    const companyName = readText(fields.companyName, row);
+    const ticker = readText(fields.ticker, row);
+    const industry = readText(fields.industry, row);
+    if (!isValidValue(companyName) || !isValidValue(ticker) || !isValidValue(industry)) continue;
+
+    let industryData = industryMap.get(industry);
+    if (!industryData) {
+      industryData = { pe: [], pe1: [], pe2: [], count: 0 };
+      industryMap.set(industry, industryData);
+    }
+    industryData.count++;
+
+    // Zeros count towards the median; invalid or missing values do not
+    const pe = readNumber(fields.pe, row);
+    const pe1 = readNumber(fields.pe1, row);
+    const pe2 = readNumber(fields.pe2, row);
+    if (pe !== null) industryData.pe.push(pe);
+    if (pe1 !== null) industryData.pe1.push(pe1);
+    if (pe2 !== null) industryData.pe2.push(pe2);
+  }
+
+  return Array.from(industryMap.entries()).map(([industry, data]) => ({
+    industry,
+    pe: calculateMedian(data.pe),
+    pe1: calculateMedian(data.pe1),
+    pe2: calculateMedian(data.pe2),
+    companyCount: data.count,
+  }));
+}
+
+/** SMA sheet rows → SMA(9/21/55/200); a row is kept when either company name or ticker is valid */
+export function transformSMARows(rows: DataRow[]): SheetSMARow[] {
+  const fields = SMA_SCHEMA.fields;
+  const result: SheetSMARow[] = [];
+  for (const row of rows) {
+    const companyName = readText(fields.companyName, row);
+    const ticker = readText(fields.ticker, row);
+    if (!isValidValue(companyName) && !isValidValue(ticker)) continue;
+
+    result.push({
+      companyName,
+      ticker,
+      sma9: readNumber(fields.sma9, row),
+      sma21: readNumber(fields.sma21, row),
+      sma55: readNumber(fields.sma55, row),
+      sma200: readNumber(fields.sma200, row),
+    });
+  }
+  return result;
+}
+
+/** Score Board lookups from the P/E Industry rows and the SMA rows */
+export function buildScoreBoardLookups(peIndustry: SheetPEIndustryRow[], sma: SheetSMARow[]): ScoreBoardLookups {
+  const lookups: ScoreBoardLookups = { industryPe1: {}, industryPe2: {}, sma: {} };
+  for (const row of peIndustry) {
+    const industryKey = row.industry.toLowerCase();
+    if (row.pe1 !== null) lookups.industryPe1[industryKey] = row.pe1;
+    if (row.pe2 !== null) lookups.industryPe2[industryKey] = row.pe2;
+  }
+  for (const row of sma) {
+    lookups.sma[row.ticker.toLowerCase().trim()] = { sma9: row.sma9, sma21: row.sma21, sma55: row.sma55, sma200: row.sma200 };
+  }
+  return lookups;
+}
+
+/** Percentage difference of a P/E against its industry median, or null without a positive P/E and median */
+function industryDifference(pe: number | null, industry: string, medians: Record<string, number>): number | null {
+  if (!isValidValue(industry) || pe === null || pe <= 0) return null;
+  const median = lookup(medians, industry.trim().toLowerCase());
+  if (median === undefined || median <= 0) return null;
+  return ((pe - median) / median) * 100;
+}
+
+/** DashBoard rows → Score Board rows, with P/E vs industry median and the SMA values joined in */
+export function transformScoreBoardRows(rows: DataRow[], lookups: ScoreBoardLookups): SheetScoreBoardRow[] {
+  const fields = DASHBOARD_SCHEMA.fields;
+  const result: SheetScoreBoardRow[] = [];
+  for (const row of rows) {
+    const companyName = readText(fields.companyName, row);
+    const ticker = readText(fields.ticker, row);
+    if (!isValidValue(companyName) || !isValidValue(ticker)) continue;
+
+    const industry = readText(fields.industry, row);
+    const cashSdebtStr = readText(fields.cashSdebt, row);
+    // Division by zero (no short-term debt) counts as the best value: cashSdebt 0 with the flag set
+    const isCashSdebtDivZero = getSpecialToken(fields.cashSdebt, cashSdebtStr) === 'divZero';
+    const sma = lookup(lookups.sma, ticker.toLowerCase().trim());
+
+    result.push({
+      companyName,
+      ticker,
+      industry,
+      mungerQualityScore: readNumber(fields.mungerQualityScore, row),
+      valueCreation: readNumber(fields.valueCreation, row),
+      leverageF2: readNumber(fields.leverageF2, row),
+      pe1Industry: industryDifference(readNumber(fields.pe1, row), industry, lookups.industryPe1),
+      pe2Industry: industryDifference(readNumber(fields.pe2, row), industry, lookups.industryPe2),
+      currentRatio: readNumber(fields.currentRatio, row),
+      cashSdebt: isCashSdebtDivZero ? 0 : parseNumericValueNullable(cashSdebtStr),
+      isCashSdebtDivZero,
+      sma9: sma ? sma.sma9 : null,
+      sma21: sma ? sma.sma21 : null,
+      sma55: sma ? sma.sma55 : null,
+      sma200: sma ? sma.sma200 : null,
+    });
+  }
+  return result;
+}
+
+/** IndustryThreshold sheet rows → min/max per industry (missing values become 0) */
+export function transformIndustryThresholdRows(rows: DataRow[]): SheetIndustryThresholdRow[] {
+  const fields = INDUSTRY_THRESHOLD_SCHEMA.fields;
+  const result: SheetIndustryThresholdRow[] = [];
+  for (const row of rows) {
+    const industry = readText(fields.industry, row);
+    if (!isValidValue(industry)) continue;
+
+    const read = (field: SheetFieldSchema) => readNumber(field, row) ?? 0;
+    result.push({
+      industry,
+      leverageF2Min: read(fields.leverageF2Min),
+      leverageF2Max: read(fields.leverageF2Max),
+      cashSdebtMin: read(fields.cashSdebtMin),
+      cashSdebtMax: read(fields.cashSdebtMax),
+      currentRatioMin: read(fields.currentRatioMin),
+      currentRatioMax: read(fields.currentRatioMax),
+    });
+  }
+  return result;
+}
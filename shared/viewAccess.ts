@@ -0,0 +1,31 @@
+/**
+ * View Access
+ *
+ * Views an admin can grant to a viewer through the allowedViews claim, shared by the admin console (client)
+ * and the adminSetUserView callable (Cloud Functions). score and personal-portfolio are always available and
+ * admin-* views are admin-only. Runtime-agnostic: no imports outside shared/.
+ */
+
+export const GRANTABLE_VIEW_IDS = [
+  'score-board',
+  'ism-posture-positioning',
+  'sma',
+  'teknikal-tachart',
+  'entry-exit-benjamin-graham',
+  'entry-exit-entry2',
+  'entry-exit-exit1',
+  'entry-exit-exit2',
+  'entry-exit-irr1',
+  'entry-exit-iv-fcf',
+  'fundamental-pe-industry',
+  'fundamental-current-ratio',
+  'fundamental-cash-sdebt',
+  'industry-threshold',
+  'management-monitoring',
+] as const;
+
+export type GrantableViewId = (typeof GRANTABLE_VIEW_IDS)[number];
+
+export function isGrantableViewId(viewId: unknown): viewId is GrantableViewId {
+  return typeof viewId === 'string' && (GRANTABLE_VIEW_IDS as readonly string[]).includes(viewId);
+}
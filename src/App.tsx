@@ -14,6 +14,7 @@ import { useUserRole } from './hooks/useUserRole';
 import { RefreshProvider, useRefresh } from './contexts/RefreshContext';
 import { AutoRefreshProvider } from './contexts/AutoRefreshContext';
 import { LoadingProgressProvider } from './contexts/LoadingProgressContext';
+import { useUniverse } from './contexts/UniverseContext';
 import { useToast } from './contexts/ToastContext';
 import ToastContainer from './components/ToastContainer';
 import LoadingFallback from './components/LoadingFallback';
@@ -30,8 +31,12 @@ const EntryExitView = lazyWithRetry<typeof import('./components/views/EntryExitV
 const FundamentalView = lazyWithRetry<typeof import('./components/views/FundamentalView').default>(() => import('./components/views/FundamentalView'), 'FundamentalView');
 const IndustryThresholdView = lazyWithRetry<typeof import('./components/views/IndustryThresholdView').default>(() => import('./components/views/IndustryThresholdView'), 'IndustryThresholdView');
 const PersonalPortfolioView = lazyWithRetry<typeof import('./components/views/PersonalPortfolioView').default>(() => import('./components/views/PersonalPortfolioView'), 'PersonalPortfolioView');
+const AdminUsersView = lazyWithRetry<typeof import('./components/views/AdminUsersView').default>(() => import('./components/views/AdminUsersView'), 'AdminUsersView');
+const AuditLogView = lazyWithRetry<typeof import('./components/views/AuditLogView').default>(() => import('./components/views/AuditLogView'), 'AuditLogView');
+const DataHealthView = lazyWithRetry<typeof import('./components/views/DataHealthView').default>(() => import('./components/views/DataHealthView'), 'DataHealthView');
 const ISMPostureView = lazyWithRetry<typeof import('./components/views/ISMPostureView').default>(() => import('./components/views/ISMPostureView'), 'ISMPostureView');
 const SMAView = lazyWithRetry<typeof import('./components/views/SMAView').default>(() => import('./components/views/SMAView'), 'SMAView');
+const TAChartView = lazyWithRetry<typeof import('./components/views/TAChartView').default>(() => import('./components/views/TAChartView'), 'TAChartView');
 const ManagementMonitoringPage = lazyWithRetry<typeof import('./pages/ManagementMonitoringPage').default>(() => import('./pages/ManagementMonitoringPage'), 'ManagementMonitoringPage');
 
 // Lazy load modal components
@@ -44,11 +49,22 @@ const MAIN_VIEW_IDS: ViewId[] = [
   'score-board',
   'ism-posture-positioning',
   'sma',
+  'teknikal-tachart',
   'entry-exit-benjamin-graham',
+  'entry-exit-entry2',
+  'entry-exit-exit1',
+  'entry-exit-exit2',
+  'entry-exit-irr1',
+  'entry-exit-iv-fcf',
   'fundamental-pe-industry',
+  'fundamental-current-ratio',
+  'fundamental-cash-sdebt',
   'industry-threshold',
   'management-monitoring',
   'personal-portfolio',
+  'admin-users',
+  'admin-audit',
+  'admin-data-health',
 ];
 
 function isValidViewPath(path: string): path is ViewId {
@@ -166,12 +182,23 @@ function App() {
       'score-board': t('navigation.scoreBoard'),
       'ism-posture-positioning': t('navigation.ismPosturePositioning'),
       'sma': t('navigation.sma'),
+      'teknikal-tachart': t('navigation.tachart'),
       'score': t('navigation.score'),
       'entry-exit-benjamin-graham': t('navigation.benjaminGraham'),
+      'entry-exit-entry2': t('navigation.entry2'),
+      'entry-exit-exit1': t('navigation.exit1'),
+      'entry-exit-exit2': t('navigation.exit2'),
+      'entry-exit-irr1': t('navigation.irr1'),
+      'entry-exit-iv-fcf': t('navigation.ivFcf'),
       'fundamental-pe-industry': t('navigation.peIndustry'),
+      'fundamental-current-ratio': t('navigation.currentRatio'),
+      'fundamental-cash-sdebt': t('navigation.cashSdebt'),
       'industry-threshold': t('navigation.industryThreshold'),
       'management-monitoring': t('navigation.managementMonitoring'),
       'personal-portfolio': t('navigation.personalPortfolio'),
+      'admin-users': t('navigation.adminUsers'),
+      'admin-audit': t('navigation.adminAudit'),
+      'admin-data-health': t('navigation.adminDataHealth'),
     };
     return names[viewId] || viewId;
   };
@@ -209,6 +236,14 @@ function App() {
       );
     }
 
+    if (activeView === 'teknikal-tachart') {
+      return (
+        <Suspense fallback={<LoadingFallback />}>
+          <TAChartView />
+        </Suspense>
+      );
+    }
+
     if (activeView.startsWith('entry-exit-')) {
       return (
         <Suspense fallback={<LoadingFallback />}>
@@ -241,6 +276,30 @@ function App() {
       );
     }
 
+    if (activeView === 'admin-users') {
+      return (
+        <Suspense fallback={<LoadingFallback />}>
+          <AdminUsersView />
+        </Suspense>
+      );
+    }
+
+    if (activeView === 'admin-audit') {
+      return (
+        <Suspense fallback={<LoadingFallback />}>
+          <AuditLogView />
+        </Suspense>
+      );
+    }
+
+    if (activeView === 'admin-data-health') {
+      return (
+        <Suspense fallback={<LoadingFallback />}>
+          <DataHealthView />
+        </Suspense>
+      );
+    }
+
     if (activeView === 'personal-portfolio') {
       return (
         <Suspense fallback={<LoadingFallback />}>
@@ -337,6 +396,7 @@ function AppContent({
   const { toasts, removeToast } = useToast();
   const { t } = useTranslation();
   const { refreshAll, isRefreshing } = useRefresh();
+  const { activeUniverse } = useUniverse();
 
   // Pull-to-refresh for mobile
   const { containerRef, pullDistance, pullProgress, isRefreshing: isPullRefreshing } = usePullToRefresh({
@@ -433,7 +493,8 @@ function AppContent({
           </div>
         )}
         <Breadcrumbs activeView={activeView} onViewChange={setActiveView} />
-        <div className="h-full transition-all duration-300 ease-in-out animate-fade-in" aria-live="polite" aria-atomic="true" role="region">
+        {/* Keyed by universe: switching remounts the views so their data hooks reload for the new universe */}
+        <div key={activeUniverse.id} className="h-full transition-all duration-300 ease-in-out animate-fade-in" aria-live="polite" aria-atomic="true" role="region">
           {renderView()}
         </div>
       </main>
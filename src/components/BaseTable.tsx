@@ -17,6 +17,9 @@ import { useColumnFilters, ColumnFilters, ColumnFilter } from '../hooks/useColum
 import { UniqueValue } from '../hooks/useColumnUniqueValues';
 import ColumnFilterMenu from './ColumnFilterMenu';
 import BaseTableToolbar from './BaseTableToolbar';
+import TAChartRowButton from './TAChartRowButton';
+import { exportTable, extractCell, TableExportFormat } from '../utils/tableExport';
+import { buildSharedTableUrl } from '../utils/shareableTableState';
 
 /** Deterministic stringify for row hashing (keys sorted, max length capped) */
 function stableStringify(obj: unknown, maxLen = 500): string {
@@ -133,6 +136,13 @@ export interface BaseTableProps<T> {
   initialColumnFilters?: ColumnFilters;
   initialSearchValue?: string;
   initialSortConfig?: { key: string; direction: 'asc' | 'desc' };
+  initialVisibleColumns?: string[];
+
+  // "Copy link" action in the toolbar (table must hydrate from useShareableTableState)
+  enableShareLink?: boolean;
+
+  // TAChart button in the first cell of rows with a string ticker (stock tables)
+  showTAChartButton?: boolean;
 
   // Retry callback for error state (e.g. offline, network failure)
   onRetry?: () => void;
@@ -177,6 +187,9 @@ export default function BaseTable<T extends Record<string, unknown>>({
   initialColumnFilters,
   initialSearchValue,
   initialSortConfig,
+  initialVisibleColumns,
+  enableShareLink = false,
+  showTAChartButton = false,
   onRetry,
 }: BaseTableProps<T>) {
   const { t } = useTranslation();
@@ -225,6 +238,7 @@ export default function BaseTable<T extends Record<string, unknown>>({
   } = useColumnVisibility({
     tableId,
     columns,
+    initialVisibleColumns,
   });
 
   // Column resizing
@@ -334,6 +348,39 @@ export default function BaseTable<T extends Record<string, unknown>>({
   // Data to display (paginated if enabled, otherwise all sorted data)
   const displayData = enablePagination ? paginatedData : sortedData;
 
+  // Export what the table shows: visible columns in display order, all filtered + sorted rows (every page)
+  const handleExport = useCallback((format: TableExportFormat) => {
+    const exportColumns = orderedColumns.filter((col) => isColumnVisible(col.key));
+    const rows = sortedData.map((item, index) =>
+      exportColumns.map((column) => {
+        return extractCell(
+          column.renderCell ? column.renderCell(item, column, index, index) : renderCell(item, column, index, index),
+          (item as Record<string, unknown>)[column.key]
+        );
+      })
+    );
+    const date = new Date().toISOString().slice(0, 10);
+    exportTable(
+      { title: ariaLabel || tableId, columns: exportColumns.map((col) => col.label), rows },
+      format,
+      `${tableId}-${date}`
+    );
+  }, [orderedColumns, isColumnVisible, sortedData, renderCell, ariaLabel, tableId]);
+
+  const getShareUrl = useCallback(() => {
+    const state: ShareableTableState = {
+      filterState: filterValues,
+      columnFilters,
+      searchValue,
+      sortConfig: sortConfig.key ? { key: String(sortConfig.key), direction: sortConfig.direction } : undefined,
+      visibleColumns: columns.filter((col) => isColumnVisible(col.key)).map((col) => col.key),
+    };
+    // Route path relative to the router basename (BASE_URL) is the view id
+    const baseUrl = new URL(import.meta.env.BASE_URL || '/', window.location.origin);
+    const viewId = window.location.pathname.slice(baseUrl.pathname.replace(/\/$/, '').length).replace(/^\//, '');
+    return buildSharedTableUrl({ viewId, tableId, state }, baseUrl.href);
+  }, [filterValues, columnFilters, searchValue, sortConfig, columns, isColumnVisible, tableId]);
+
   const getSortIcon = useCallback((columnKey: string) => {
     if (sortConfig.key !== columnKey) {
       return null;
@@ -718,6 +765,9 @@ export default function BaseTable<T extends Record<string, unknown>>({
           onResetToDefaults={resetToDefaults}
           isColumnVisible={isColumnVisible}
           headerActions={headerActions}
+          onExport={handleExport}
+          exportRowCount={sortedData.length}
+          getShareUrl={enableShareLink ? getShareUrl : undefined}
         />
 
         {/* Table View */}
@@ -857,6 +907,7 @@ export default function BaseTable<T extends Record<string, unknown>>({
                                 aria-colindex={colIndex + 1}
                               >
                                 {cellContent}
+                                {showTAChartButton && colIndex === 0 && typeof item.ticker === 'string' && <TAChartRowButton ticker={item.ticker} />}
                               </td>
                             );
                           })}
@@ -959,6 +1010,7 @@ export default function BaseTable<T extends Record<string, unknown>>({
                                   aria-colindex={colIndex + 1}
                                 >
                                   {cellContent}
+                                  {showTAChartButton && colIndex === 0 && typeof item.ticker === 'string' && <TAChartRowButton ticker={item.ticker} />}
                                 </td>
                               );
                             })}
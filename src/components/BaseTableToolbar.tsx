@@ -6,6 +6,9 @@
 import React, { ReactNode } from 'react';
 import TableSearchBar from './TableSearchBar';
 import ColumnVisibilityToggle from './ColumnVisibilityToggle';
+import TableExportMenu from './TableExportMenu';
+import TableShareButton from './TableShareButton';
+import type { TableExportFormat } from '../utils/tableExport';
 
 export interface BaseTableToolbarProps<T = unknown> {
   searchValue: string;
@@ -21,6 +24,12 @@ export interface BaseTableToolbarProps<T = unknown> {
   onResetToDefaults: () => void;
   isColumnVisible: (key: string) => boolean;
   headerActions?: ReactNode | ((api: { toggleColumn: (key: string) => void; isColumnVisible: (key: string) => boolean }) => ReactNode);
+  /** Export visible columns of all filtered rows; menu is hidden when omitted */
+  onExport?: (format: TableExportFormat) => void;
+  /** Rows the export will contain (column filters included) */
+  exportRowCount?: number;
+  /** Builds a shareable link to the current table state; button is hidden when omitted */
+  getShareUrl?: () => string;
 }
 
 export default function BaseTableToolbar<T = unknown>({
@@ -37,6 +46,9 @@ export default function BaseTableToolbar<T = unknown>({
   onResetToDefaults,
   isColumnVisible,
   headerActions,
+  onExport,
+  exportRowCount,
+  getShareUrl,
 }: BaseTableToolbarProps<T>) {
   return (
     <div className="bg-white dark:bg-gray-800 border-b border-gray-300 dark:border-gray-500 px-4 py-3 flex items-center justify-between gap-4 flex-shrink-0">
@@ -59,6 +71,8 @@ export default function BaseTableToolbar<T = unknown>({
           onReset={onResetToDefaults}
           isColumnVisible={isColumnVisible}
         />
+        {onExport && <TableExportMenu onExport={onExport} rowCount={exportRowCount ?? filteredRows} />}
+        {getShareUrl && <TableShareButton getShareUrl={getShareUrl} />}
         {typeof headerActions === 'function' ? headerActions({ toggleColumn: onToggleColumn, isColumnVisible }) : headerActions}
       </div>
     </div>
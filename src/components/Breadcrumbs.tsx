@@ -30,6 +30,9 @@ function getViewLabel(viewId: ViewId, t: (key: string) => string): string {
     'fundamental-cash-sdebt': t('navigation.cashSdebt'),
     'industry-threshold': t('navigation.industryThreshold'),
     'management-monitoring': t('navigation.managementMonitoring'),
+    'admin-users': t('navigation.adminUsers'),
+    'admin-audit': t('navigation.adminAudit'),
+    'admin-data-health': t('navigation.adminDataHealth'),
     'personal-portfolio': t('navigation.personalPortfolio'),
     'teknikal-tachart': t('navigation.tachart'),
   };
@@ -0,0 +1,28 @@
+import { useTranslation } from 'react-i18next';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import type { DataQualityTickerIssues } from '../types/dataQuality';
+
+/**
+ * Marker next to a ticker whose DashBoard values were flagged by the latest data quality check (Score and
+ * Score Board tables). The row is still scored; the tooltip names the checks, the Data Health view has details.
+ */
+export default function DataQualityFlag({ issues }: { issues: DataQualityTickerIssues | undefined }) {
+  const { t } = useTranslation();
+
+  if (!issues) return null;
+
+  const checks = Array.from(new Set(issues.issues.map((issue) => t(`dataQuality.checks.${issue.check}`, issue.check))));
+  const label = t('dataQuality.flag', { checks: checks.join(', '), defaultValue: 'Datakvalitet: {{checks}}' });
+  return (
+    <span
+      className={`ml-1 inline-flex align-middle ${
+        issues.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-yellow-600 dark:text-yellow-400'
+      }`}
+      title={label}
+      aria-label={label}
+      role="img"
+    >
+      <ExclamationTriangleIcon className="h-4 w-4" aria-hidden="true" />
+    </span>
+  );
+}
@@ -0,0 +1,232 @@
+import { Fragment, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChevronDownIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import type {
+  DataQualityCheck,
+  DataQualityIssue,
+  DataQualityReport,
+  DataQualitySeverity,
+  DataQualityTickerIssues,
+} from '../types/dataQuality';
+
+const SEVERITY_CLASSES: Record<DataQualitySeverity, string> = {
+  warning: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+  error: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+};
+
+const CHECKS: DataQualityCheck[] = ['duplicateTicker', 'unknownIndustry', 'priceMove', 'peOutOfRange', 'staleEntryExit'];
+
+/** Worst severity among the issues of one check */
+function checkSeverity(issues: DataQualityIssue[], check: DataQualityCheck): DataQualitySeverity {
+  return issues.some((issue) => issue.check === check && issue.severity === 'error') ? 'error' : 'warning';
+}
+
+function formatValue(value: number | string | null): string {
+  if (value === null) return '–';
+  return typeof value === 'number' ? value.toLocaleString('sv-SE', { maximumFractionDigits: 2 }) : value;
+}
+
+interface DataQualityPanelProps {
+  report: DataQualityReport | null;
+  tickers: DataQualityTickerIssues[];
+}
+
+/**
+ * Data quality issues of the latest DashBoard fetch: a count per check and one row per flagged ticker that
+ * expands into its issues.
+ */
+export default function DataQualityPanel({ report, tickers }: DataQualityPanelProps) {
+  const { t } = useTranslation();
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const checkLabel = (check: DataQualityCheck) => {
+    switch (check) {
+      case 'priceMove':
+        return t('dataQuality.checks.priceMove', 'Stor kursrörelse');
+      case 'peOutOfRange':
+        return t('dataQuality.checks.peOutOfRange', 'Orimligt P/E');
+      case 'duplicateTicker':
+        return t('dataQuality.checks.duplicateTicker', 'Dubblett');
+      case 'unknownIndustry':
+        return t('dataQuality.checks.unknownIndustry', 'Okänd bransch');
+      case 'staleEntryExit':
+        return t('dataQuality.checks.staleEntryExit', 'Gamla entry/exit-värden');
+    }
+  };
+
+  const describeIssue = (issue: DataQualityIssue) => {
+    const value = formatValue(issue.value);
+    const reference = formatValue(issue.reference);
+    switch (issue.check) {
+      case 'priceMove': {
+        const movePct =
+          typeof issue.value === 'number' && typeof issue.reference === 'number' && issue.reference !== 0
+            ? formatValue(((issue.value - issue.reference) / issue.reference) * 100)
+            : '–';
+        return t('dataQuality.details.priceMove', {
+          value,
+          reference,
+          movePct,
+          defaultValue: 'Kurs {{value}}, förra snapshoten {{reference}} ({{movePct}} %)',
+        });
+      }
+      case 'peOutOfRange':
+        return t('dataQuality.details.peOutOfRange', {
+          field: issue.field,
+          value,
+          reference,
+          defaultValue: '{{field}} = {{value}} (gräns {{reference}})',
+        });
+      case 'duplicateTicker':
+        return t('dataQuality.details.duplicateTicker', {
+          count: Number(issue.reference ?? 0),
+          defaultValue: 'Tickern finns på {{count}} rader',
+        });
+      case 'unknownIndustry':
+        return issue.value === null
+          ? t('dataQuality.details.missingIndustry', 'Bransch saknas')
+          : t('dataQuality.details.unknownIndustry', {
+              value,
+              defaultValue: '"{{value}}" matchar ingen bransch med tröskelvärden',
+            });
+      case 'staleEntryExit':
+        return t('dataQuality.details.staleEntryExit', {
+          value,
+          days: reference,
+          defaultValue: 'Uppdaterad {{value}}, äldre än {{days}} dagar',
+        });
+    }
+  };
+
+  const toggle = (ticker: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(ticker)) next.delete(ticker);
+      else next.add(ticker);
+      return next;
+    });
+  };
+
+  if (!report) {
+    return (
+      <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {t('dataQuality.empty', 'Ingen DashBoard-data kontrollerad ännu.')}
+        </p>
+      </div>
+    );
+  }
+
+  const allIssues = tickers.flatMap((group) => group.issues);
+  const columns = [
+    '',
+    t('dataQuality.columns.ticker', 'Ticker'),
+    t('dataQuality.columns.company', 'Bolag'),
+    t('dataQuality.columns.issues', 'Avvikelser'),
+  ];
+
+  return (
+    <section className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600">
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        {t('dataQuality.summary', {
+          rows: report.rowCount,
+          time: new Date(report.generatedAt).toLocaleString('sv-SE'),
+          defaultValue: '{{rows}} rader kontrollerade {{time}}',
+        })}
+        {' · '}
+        {report.comparedWith !== null
+          ? t('dataQuality.comparedWith', {
+              time: new Date(report.comparedWith).toLocaleString('sv-SE'),
+              defaultValue: 'kurser jämförda med snapshoten från {{time}}',
+            })
+          : t('dataQuality.noBaseline', 'ingen tidigare snapshot att jämföra kurser med')}
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {CHECKS.map((check) => {
+          const count = allIssues.filter((issue) => issue.check === check).length;
+          return (
+            <span
+              key={check}
+              className={`px-2 py-0.5 text-xs font-semibold rounded ${
+                count === 0
+                  ? 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300'
+                  : SEVERITY_CLASSES[checkSeverity(allIssues, check)]
+              }`}
+            >
+              {checkLabel(check)}: {count}
+            </span>
+          );
+        })}
+      </div>
+
+      {tickers.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('dataQuality.noIssues', 'Inga avvikelser.')}</p>
+      ) : (
+        <div className="overflow-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                {columns.map((label, index) => (
+                  <th
+                    key={index}
+                    scope="col"
+                    className="px-3 py-2 text-left text-xs font-bold text-gray-700 dark:text-gray-200 uppercase tracking-wider"
+                  >
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {tickers.map((group) => {
+                const isExpanded = expanded.has(group.ticker);
+                return (
+                  <Fragment key={group.ticker}>
+                    <tr
+                      className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                      onClick={() => toggle(group.ticker)}
+                      aria-expanded={isExpanded}
+                    >
+                      <td className="px-3 py-2 w-6 text-gray-500 dark:text-gray-400">
+                        {isExpanded ? <ChevronDownIcon className="w-4 h-4" /> : <ChevronRightIcon className="w-4 h-4" />}
+                      </td>
+                      <td className="px-3 py-2 font-medium text-black dark:text-white">{group.ticker}</td>
+                      <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{group.companyName || '–'}</td>
+                      <td className="px-3 py-2">
+                        <div className="flex flex-wrap gap-1">
+                          {Array.from(new Set(group.issues.map((issue) => issue.check))).map((check) => (
+                            <span
+                              key={check}
+                              className={`px-2 py-0.5 text-xs font-semibold rounded ${SEVERITY_CLASSES[checkSeverity(group.issues, check)]}`}
+                            >
+                              {checkLabel(check)}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-gray-50 dark:bg-gray-900/50">
+                        <td />
+                        <td colSpan={3} className="px-3 py-2">
+                          <ul className="space-y-1 text-gray-700 dark:text-gray-300">
+                            {group.issues.map((issue, index) => (
+                              <li key={`${issue.check}-${issue.field}-${index}`}>
+                                <span className="font-medium">{checkLabel(issue.check)}:</span> {describeIssue(issue)}
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,227 @@
+import { useMemo, useCallback, type ReactNode } from 'react';
+import BaseTable, { ColumnDefinition, HeaderRenderProps } from './BaseTable';
+import ColumnTooltip from './ColumnTooltip';
+import { getColumnMetadata } from '../config/tableMetadata';
+import { FilterConfig } from './AdvancedFilters';
+import { ShareableTableState } from '../types/filters';
+import { useTranslation } from 'react-i18next';
+import { colorTypeToCssClass, type ColorType } from '../utils/colorThresholds';
+
+/** One stock ranked by an Entry/Exit metric (distance to Entry2, upside to Exit1/Exit2, RR1, IV (FCF) margin) */
+export interface EntryExitMetricRow extends Record<string, unknown> {
+  companyName: string;
+  ticker: string;
+  currency: string;
+  price: number | null;
+  /** Level the metric is measured against (Entry2, Exit1, Exit2, Entry1 or IV (FCF)) */
+  reference: number | null;
+  /** Metric in percent */
+  metric: number | null;
+  color: ColorType;
+}
+
+interface EntryExitMetricTableProps {
+  tableId: string;
+  referenceLabel: string;
+  metricLabel: string;
+  /** 'asc' ranks the lowest metric first (e.g. distance to Entry2) */
+  rankDirection: 'asc' | 'desc';
+  data: EntryExitMetricRow[];
+  loading: boolean;
+  error: string | null;
+  initialTableState?: ShareableTableState;
+}
+
+const CURRENCIES = ['USD', 'EUR', 'SEK', 'DKK', 'NOK', 'GBP', 'AUD', 'CAD', 'NZD'];
+const COLOR_ORDER: ColorType[] = ['GREEN', 'ORANGE', 'RED', 'BLANK'];
+
+function formatNumber(value: number | null): string {
+  return value !== null && isFinite(value) ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : 'N/A';
+}
+
+function formatPercent(value: number | null): string {
+  return value !== null && isFinite(value) ? `${Math.round(value)}%` : 'N/A';
+}
+
+export default function EntryExitMetricTable({
+  tableId,
+  referenceLabel,
+  metricLabel,
+  rankDirection,
+  data,
+  loading,
+  error,
+  initialTableState,
+}: EntryExitMetricTableProps) {
+  const { t } = useTranslation();
+
+  const colorLabel = useCallback(
+    (color: ColorType) => t(`fundamentalBands.colors.${color}`, color),
+    [t]
+  );
+
+  const columns: ColumnDefinition<EntryExitMetricRow>[] = useMemo(
+    () => [
+      { key: 'antal', label: 'Row', required: true, sticky: true, sortable: false },
+      { key: 'companyName', label: 'Company Name', required: true, sticky: true, sortable: true },
+      { key: 'ticker', label: 'Ticker', required: true, sticky: false, sortable: true },
+      { key: 'currency', label: 'Currency', defaultVisible: true, sortable: true, align: 'center' },
+      { key: 'price', label: 'Price', defaultVisible: true, sortable: true, align: 'center' },
+      { key: 'reference', label: referenceLabel, defaultVisible: true, sortable: true, align: 'center' },
+      { key: 'metric', label: metricLabel, required: true, sortable: true, align: 'center' },
+      { key: 'color', label: t('fundamentalBands.columns.color', 'Färg'), defaultVisible: true, sortable: true, align: 'center' },
+    ],
+    [t, referenceLabel, metricLabel]
+  );
+
+  const filters: FilterConfig[] = useMemo(
+    () => [
+      { key: 'companyName', label: 'Företagsnamn', type: 'text' },
+      { key: 'ticker', label: 'Ticker', type: 'text' },
+      { key: 'currency', label: 'Valuta', type: 'select', options: CURRENCIES.map((c) => ({ value: c, label: c })) },
+      { key: 'price', label: 'Pris', type: 'numberRange', min: 0, step: 0.01 },
+      { key: 'reference', label: referenceLabel, type: 'numberRange', min: 0, step: 0.01 },
+      { key: 'metric', label: `${metricLabel} (%)`, type: 'numberRange', step: 1 },
+      {
+        key: 'color',
+        label: t('fundamentalBands.columns.color', 'Färg'),
+        type: 'select',
+        options: COLOR_ORDER.map((color) => ({ value: color, label: colorLabel(color) })),
+      },
+    ],
+    [t, referenceLabel, metricLabel, colorLabel]
+  );
+
+  const renderHeader = useCallback(
+    (props: HeaderRenderProps<EntryExitMetricRow>) => {
+      const { column, getStickyPosition } = props;
+      const metadata = getColumnMetadata(tableId, column.key);
+      const isSticky = column.sticky;
+      const stickyClass = isSticky ? `sm:sticky sm:top-0 ${getStickyPosition(column.key)} z-50` : '';
+
+      return (
+        <th
+          className={`px-6 py-3 text-left text-xs font-bold text-gray-700 dark:text-gray-200 uppercase tracking-wider ${stickyClass} bg-gray-50 dark:bg-gray-900`}
+          scope="col"
+          role="columnheader"
+        >
+          {metadata ? (
+            <ColumnTooltip metadata={metadata}>
+              <span>{column.label}</span>
+            </ColumnTooltip>
+          ) : (
+            <span>{column.label}</span>
+          )}
+        </th>
+      );
+    },
+    [tableId]
+  );
+
+  const renderMetric = useCallback(
+    (item: EntryExitMetricRow) => (
+      <span className={`font-medium ${colorTypeToCssClass(item.color) || 'text-black dark:text-white'}`}>
+        {formatPercent(item.metric)}
+      </span>
+    ),
+    []
+  );
+
+  const renderColor = useCallback(
+    (color: ColorType) => (
+      <span className={`text-sm ${colorTypeToCssClass(color) || 'text-gray-500 dark:text-gray-400'}`}>{colorLabel(color)}</span>
+    ),
+    [colorLabel]
+  );
+
+  const renderCell = useCallback(
+    (item: EntryExitMetricRow, column: ColumnDefinition<EntryExitMetricRow>, _index: number, globalIndex: number) => {
+      switch (column.key) {
+        case 'antal':
+          return <span className="text-sm text-black dark:text-white">{globalIndex + 1}</span>;
+        case 'companyName':
+          return <span className="font-medium text-black dark:text-white">{item.companyName}</span>;
+        case 'ticker':
+          return <span className="text-sm text-gray-600 dark:text-gray-300">{item.ticker}</span>;
+        case 'currency':
+          return <span className="text-sm text-black dark:text-white">{item.currency}</span>;
+        case 'price':
+          return <span className="text-black dark:text-white">{formatNumber(item.price)}</span>;
+        case 'reference':
+          return <span className="text-black dark:text-white">{formatNumber(item.reference)}</span>;
+        case 'metric':
+          return renderMetric(item);
+        case 'color':
+          return renderColor(item.color);
+        default:
+          return null;
+      }
+    },
+    [renderMetric, renderColor]
+  );
+
+  const renderMobileCard = useCallback(
+    (item: EntryExitMetricRow, _index: number, globalIndex: number) => {
+      const rowBgClass = globalIndex % 2 === 0 ? 'bg-white dark:bg-gray-800' : 'bg-gray-50 dark:bg-gray-800/50';
+      const rows: Array<[string, ReactNode]> = [
+        ['Ticker', <span className="text-sm text-gray-600 dark:text-gray-300">{item.ticker}</span>],
+        ['Price', <span className="text-sm text-black dark:text-white">{formatNumber(item.price)} {item.currency}</span>],
+        [referenceLabel, <span className="text-sm text-black dark:text-white">{formatNumber(item.reference)}</span>],
+        [metricLabel, renderMetric(item)],
+      ];
+
+      return (
+        <div className={`${rowBgClass} rounded-lg border border-gray-300 dark:border-gray-600 shadow-sm`}>
+          <div className="p-4 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <span className="font-medium text-black dark:text-white">{item.companyName}</span>
+              {renderColor(item.color)}
+            </div>
+            {rows.map(([label, content]) => (
+              <div key={label} className="flex items-center justify-between gap-4">
+                <span className="text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase tracking-wider">{label}</span>
+                {content}
+              </div>
+            ))}
+          </div>
+        </div>
+      );
+    },
+    [referenceLabel, metricLabel, renderMetric, renderColor]
+  );
+
+  return (
+    <BaseTable<EntryExitMetricRow>
+      data={data}
+      loading={loading}
+      error={error}
+      columns={columns}
+      filters={filters}
+      tableId={tableId}
+      renderCell={renderCell}
+      renderHeader={renderHeader}
+      renderMobileCard={renderMobileCard}
+      enableVirtualScroll={true}
+      virtualScrollRowHeight={52}
+      virtualScrollOverscan={10}
+      enableMobileExpand={false}
+      searchFields={['companyName', 'ticker']}
+      searchPlaceholder={t('common.search', 'Sök...')}
+      defaultSortKey="metric"
+      defaultSortDirection={rankDirection}
+      stickyColumns={['antal', 'companyName']}
+      headerCellPaddingClass="px-2 py-2"
+      cellPaddingClass="px-2 py-2"
+      ariaLabel={metricLabel}
+      minTableWidth="100%"
+      getRowKey={(item) => `${item.ticker}-${item.companyName}`}
+      initialFilterState={initialTableState?.filterState}
+      initialColumnFilters={initialTableState?.columnFilters}
+      initialSearchValue={initialTableState?.searchValue}
+      initialSortConfig={initialTableState?.sortConfig}
+      initialVisibleColumns={initialTableState?.visibleColumns}
+      enableShareLink
+      showTAChartButton
+    />
+  );
+}
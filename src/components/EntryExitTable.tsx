@@ -784,6 +784,9 @@ function EntryExitTable({ data, loading, error, initialTableState }: EntryExitTa
         initialColumnFilters={initialTableState?.columnFilters}
         initialSearchValue={initialTableState?.searchValue}
         initialSortConfig={initialTableState?.sortConfig}
+        initialVisibleColumns={initialTableState?.visibleColumns}
+        enableShareLink
+        showTAChartButton
       />
 
       {editingRow && (
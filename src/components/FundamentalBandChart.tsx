@@ -0,0 +1,85 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Legend, CartesianGrid } from 'recharts';
+import { useTheme } from '../contexts/ThemeContext';
+import type { ColorType } from '../utils/colorThresholds';
+import type { FundamentalBandRow } from './FundamentalBandTable';
+
+interface FundamentalBandChartProps {
+  data: FundamentalBandRow[];
+}
+
+type IndustryColorCounts = { industry: string; total: number } & Record<ColorType, number>;
+
+/** Bar fills matching the table text colors (ORANGE renders blue, as in colorTypeToCssClass) */
+const BAR_COLORS: Record<ColorType, string> = {
+  GREEN: '#15803d',
+  ORANGE: '#1d4ed8',
+  RED: '#b91c1c',
+  BLANK: '#9ca3af',
+};
+
+const STACK_ORDER: ColorType[] = ['GREEN', 'ORANGE', 'RED', 'BLANK'];
+
+/**
+ * Stacked bar per industry: how many companies fall in each color band.
+ */
+export default function FundamentalBandChart({ data }: FundamentalBandChartProps) {
+  const { t } = useTranslation();
+  const { resolvedTheme } = useTheme();
+  const isDarkMode = resolvedTheme === 'dark';
+  const tickColor = isDarkMode ? '#e5e7eb' : '#374151';
+
+  const counts: IndustryColorCounts[] = useMemo(() => {
+    const byIndustry = new Map<string, IndustryColorCounts>();
+    for (const row of data) {
+      const industry = row.industry && row.industry.trim() ? row.industry : 'N/A';
+      let entry = byIndustry.get(industry);
+      if (!entry) {
+        entry = { industry, total: 0, GREEN: 0, ORANGE: 0, RED: 0, BLANK: 0 };
+        byIndustry.set(industry, entry);
+      }
+      entry[row.color] += 1;
+      entry.total += 1;
+    }
+    return Array.from(byIndustry.values()).sort((a, b) => b.total - a.total || a.industry.localeCompare(b.industry));
+  }, [data]);
+
+  if (counts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600">
+      <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-3">
+        {t('fundamentalBands.distributionTitle', 'Färgfördelning per bransch')}
+      </h2>
+      <div style={{ height: Math.max(200, counts.length * 22 + 60) }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={counts} layout="vertical" margin={{ top: 0, right: 16, bottom: 0, left: 8 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? '#374151' : '#e5e7eb'} horizontal={false} />
+            <XAxis type="number" allowDecimals={false} tick={{ fill: tickColor, fontSize: 11 }} />
+            <YAxis type="category" dataKey="industry" width={180} interval={0} tick={{ fill: tickColor, fontSize: 11 }} />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: isDarkMode ? '#1f2937' : '#ffffff',
+                borderColor: isDarkMode ? '#374151' : '#e5e7eb',
+                color: tickColor,
+              }}
+            />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            {STACK_ORDER.map((color) => (
+              <Bar
+                key={color}
+                dataKey={color}
+                name={t(`fundamentalBands.colors.${color}`, color)}
+                stackId="bands"
+                fill={BAR_COLORS[color]}
+              />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useMemo, useCallback, type ReactNode } from 'react';
+import BaseTable, { ColumnDefinition, HeaderRenderProps } from './BaseTable';
+import ColumnTooltip from './ColumnTooltip';
+import { getColumnMetadata } from '../config/tableMetadata';
+import { FilterConfig } from './AdvancedFilters';
+import { ShareableTableState } from '../types/filters';
+import { useTranslation } from 'react-i18next';
+import { colorTypeToCssClass, type BandedMetric, type ColorType } from '../utils/colorThresholds';
+
+/** One company's value placed in its industry band (see getCurrentRatioBandPosition / getCashSdebtBandPosition) */
+export interface FundamentalBandRow extends Record<string, unknown> {
+  companyName: string;
+  ticker: string;
+  industry: string;
+  value: number | null;
+  /** Cash/SDebt only: no short-term debt */
+  isDivZero: boolean;
+  min: number | null;
+  max: number | null;
+  color: ColorType;
+  nextColor: ColorType | null;
+  distance: number | null;
+}
+
+interface FundamentalBandTableProps {
+  metric: BandedMetric;
+  tableId: string;
+  data: FundamentalBandRow[];
+  loading: boolean;
+  error: string | null;
+  onRetry?: () => void;
+  initialTableState?: ShareableTableState;
+}
+
+const COLOR_ORDER: ColorType[] = ['GREEN', 'ORANGE', 'RED', 'BLANK'];
+
+function formatNumber(value: number | null): string {
+  return value !== null && isFinite(value) ? value.toFixed(2) : 'N/A';
+}
+
+function formatDistance(value: number | null): string {
+  if (value === null || !isFinite(value)) return '–';
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+export default function FundamentalBandTable({
+  metric,
+  tableId,
+  data,
+  loading,
+  error,
+  onRetry,
+  initialTableState,
+}: FundamentalBandTableProps) {
+  const { t } = useTranslation();
+  const valueLabel = metric === 'currentRatio' ? 'Current Ratio' : 'Cash/SDebt';
+
+  const colorLabel = useCallback(
+    (color: ColorType | null) => (color ? t(`fundamentalBands.colors.${color}`, color) : '–'),
+    [t]
+  );
+
+  const columns: ColumnDefinition<FundamentalBandRow>[] = useMemo(
+    () => [
+      { key: 'antal', label: 'Antal', required: true, sticky: true, sortable: false },
+      { key: 'companyName', label: 'Company Name', required: true, sticky: true, sortable: true },
+      { key: 'ticker', label: 'Ticker', required: true, sticky: true, sortable: true },
+      { key: 'industry', label: 'Industry', defaultVisible: true, sortable: true },
+      { key: 'value', label: valueLabel, defaultVisible: true, sortable: true, align: 'center' },
+      { key: 'min', label: t('fundamentalBands.columns.min', 'Bransch min'), defaultVisible: true, sortable: true, align: 'center' },
+      { key: 'max', label: t('fundamentalBands.columns.max', 'Bransch max'), defaultVisible: true, sortable: true, align: 'center' },
+      { key: 'color', label: t('fundamentalBands.columns.color', 'Färg'), defaultVisible: true, sortable: true, align: 'center' },
+      { key: 'nextColor', label: t('fundamentalBands.columns.nextColor', 'Nästa färg'), defaultVisible: true, sortable: true, align: 'center' },
+      { key: 'distance', label: t('fundamentalBands.columns.distance', 'Avstånd'), defaultVisible: true, sortable: true, align: 'center' },
+    ],
+    [t, valueLabel]
+  );
+
+  const uniqueIndustries = useMemo(() => {
+    const industries = new Set<string>();
+    data.forEach((item) => {
+      if (item.industry && item.industry.trim()) industries.add(item.industry);
+    });
+    return Array.from(industries).sort().map((ind) => ({ value: ind, label: ind }));
+  }, [data]);
+
+  const filters: FilterConfig[] = useMemo(
+    () => [
+      { key: 'industry', label: 'Industri', type: 'select', options: uniqueIndustries },
+      {
+        key: 'color',
+        label: t('fundamentalBands.columns.color', 'Färg'),
+        type: 'select',
+        options: COLOR_ORDER.map((color) => ({ value: color, label: colorLabel(color) })),
+      },
+      { key: 'value', label: valueLabel, type: 'numberRange', step: 0.1 },
+      { key: 'distance', label: t('fundamentalBands.columns.distance', 'Avstånd'), type: 'numberRange', step: 0.1 },
+    ],
+    [t, uniqueIndustries, colorLabel, valueLabel]
+  );
+
+  const renderHeader = useCallback(
+    (props: HeaderRenderProps<FundamentalBandRow>) => {
+      const { column, getStickyPosition } = props;
+      const metadata = getColumnMetadata(tableId, column.key);
+      const isSticky = column.sticky;
+      const stickyClass = isSticky ? `sm:sticky sm:top-0 ${getStickyPosition(column.key)} z-50` : '';
+
+      return (
+        <th
+          className={`px-6 py-3 text-left text-xs font-bold text-gray-700 dark:text-gray-200 uppercase tracking-wider ${stickyClass} bg-gray-50 dark:bg-gray-900`}
+          scope="col"
+          role="columnheader"
+        >
+          {metadata ? (
+            <ColumnTooltip metadata={metadata}>
+              <span>{column.label}</span>
+            </ColumnTooltip>
+          ) : (
+            <span>{column.label}</span>
+          )}
+        </th>
+      );
+    },
+    [tableId]
+  );
+
+  const renderValue = useCallback(
+    (item: FundamentalBandRow) => (
+      <span className={colorTypeToCssClass(item.color) || 'text-black dark:text-white'}>
+        {item.isDivZero ? t('fundamentalBands.noShortTermDebt', 'Ingen kort skuld') : formatNumber(item.value)}
+      </span>
+    ),
+    [t]
+  );
+
+  const renderColor = useCallback(
+    (color: ColorType | null) => (
+      <span className={`text-sm font-medium ${(color && colorTypeToCssClass(color)) || 'text-gray-500 dark:text-gray-400'}`}>
+        {colorLabel(color)}
+      </span>
+    ),
+    [colorLabel]
+  );
+
+  const renderCell = useCallback(
+    (item: FundamentalBandRow, column: ColumnDefinition<FundamentalBandRow>, _index: number, globalIndex: number) => {
+      switch (column.key) {
+        case 'antal':
+          return <span className="text-sm text-black dark:text-white">{globalIndex + 1}</span>;
+        case 'companyName':
+          return <span className="font-medium text-black dark:text-white">{item.companyName}</span>;
+        case 'ticker':
+          return <span className="text-sm text-gray-600 dark:text-gray-300">{item.ticker}</span>;
+        case 'industry':
+          return <span className="text-sm text-black dark:text-white">{item.industry || 'N/A'}</span>;
+        case 'value':
+          return renderValue(item);
+        case 'min':
+          return <span className="text-sm text-black dark:text-white">{formatNumber(item.min)}</span>;
+        case 'max':
+          return <span className="text-sm text-black dark:text-white">{formatNumber(item.max)}</span>;
+        case 'color':
+          return renderColor(item.color);
+        case 'nextColor':
+          return renderColor(item.nextColor);
+        case 'distance':
+          return <span className="text-sm tabular-nums text-black dark:text-white">{formatDistance(item.distance)}</span>;
+        default:
+          return null;
+      }
+    },
+    [renderValue, renderColor]
+  );
+
+  const renderMobileCard = useCallback(
+    (item: FundamentalBandRow, _index: number, globalIndex: number) => {
+      const rowBgClass = globalIndex % 2 === 0 ? 'bg-white dark:bg-gray-800' : 'bg-gray-50 dark:bg-gray-800/50';
+      const rows: Array<[string, ReactNode]> = [
+        ['Ticker', <span className="text-sm text-gray-600 dark:text-gray-300">{item.ticker}</span>],
+        ['Industry', <span className="text-sm text-black dark:text-white text-right">{item.industry || 'N/A'}</span>],
+        [valueLabel, renderValue(item)],
+        [
+          t('fundamentalBands.columns.band', 'Bransch min–max'),
+          <span className="text-sm text-black dark:text-white">
+            {formatNumber(item.min)} – {formatNumber(item.max)}
+          </span>,
+        ],
+        [t('fundamentalBands.columns.color', 'Färg'), renderColor(item.color)],
+        [
+          t('fundamentalBands.columns.distance', 'Avstånd'),
+          <span className="text-sm tabular-nums text-black dark:text-white">
+            {formatDistance(item.distance)} {item.nextColor ? `→ ${colorLabel(item.nextColor)}` : ''}
+          </span>,
+        ],
+      ];
+
+      return (
+        <div className={`${rowBgClass} rounded-lg border border-gray-300 dark:border-gray-600 shadow-sm`}>
+          <div className="p-4 space-y-3">
+            <div className="font-medium text-black dark:text-white">{item.companyName}</div>
+            {rows.map(([label, content]) => (
+              <div key={label} className="flex items-center justify-between gap-4">
+                <span className="text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase tracking-wider">{label}</span>
+                {content}
+              </div>
+            ))}
+          </div>
+        </div>
+      );
+    },
+    [t, valueLabel, renderValue, renderColor, colorLabel]
+  );
+
+  return (
+    <BaseTable<FundamentalBandRow>
+      data={data}
+      loading={loading}
+      error={error}
+      columns={columns}
+      filters={filters}
+      tableId={tableId}
+      renderCell={renderCell}
+      renderHeader={renderHeader}
+      renderMobileCard={renderMobileCard}
+      enableVirtualScroll={true}
+      virtualScrollRowHeight={52}
+      virtualScrollOverscan={10}
+      enableMobileExpand={false}
+      searchFields={['companyName', 'ticker', 'industry']}
+      searchPlaceholder={t('common.search', 'Sök...')}
+      defaultSortKey="industry"
+      defaultSortDirection="asc"
+      stickyColumns={['antal', 'companyName', 'ticker']}
+      headerCellPaddingClass="px-2 py-2"
+      cellPaddingClass="px-2 py-2"
+      ariaLabel={valueLabel}
+      minTableWidth="100%"
+      getRowKey={(item) => item.ticker}
+      onRetry={onRetry}
+      initialFilterState={initialTableState?.filterState}
+      initialColumnFilters={initialTableState?.columnFilters}
+      initialSearchValue={initialTableState?.searchValue}
+      initialSortConfig={initialTableState?.sortConfig}
+      initialVisibleColumns={initialTableState?.visibleColumns}
+      enableShareLink
+      showTAChartButton
+    />
+  );
+}
@@ -6,6 +6,7 @@ import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import { useNotifications } from '../contexts/NotificationContext';
 import { useUserRole } from '../hooks/useUserRole';
+import { useUniverse } from '../contexts/UniverseContext';
 import GlobalSearch from './GlobalSearch';
 import NotificationCenter from './NotificationCenter';
 import { ViewId } from '../types/navigation';
@@ -25,6 +26,7 @@ export default function Header({ onNavigate, activeView, sidebarCollapsed = fals
   const { showToast } = useToast();
   const { unreadCount } = useNotifications();
   const { isAdmin } = useUserRole();
+  const { universes, activeUniverse, setActiveUniverse } = useUniverse();
   const [themeMenuOpen, setThemeMenuOpen] = useState(false);
   const themeMenuRef = useRef<HTMLDivElement>(null);
   const [languageMenuOpen, setLanguageMenuOpen] = useState(false);
@@ -153,12 +155,28 @@ export default function Header({ onNavigate, activeView, sidebarCollapsed = fals
         )}
         {/* Global Search */}
         <div className="flex-1 max-w-md mx-2 sm:mx-4">
-          {onNavigate && <GlobalSearch onNavigate={onNavigate} />}
+          {onNavigate && <GlobalSearch key={activeUniverse.id} onNavigate={onNavigate} />}
         </div>
       </div>
 
       {/* Right side controls */}
       <div className="flex items-center space-x-2 sm:space-x-3">
+        {/* Universe Switcher - only when more than one stock universe is configured */}
+        {currentUser && universes.length > 1 && (
+          <select
+            value={activeUniverse.id}
+            onChange={(e) => setActiveUniverse(e.target.value)}
+            className="h-10 px-3 text-sm font-medium rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-0 focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[44px] touch-manipulation"
+            title={t('universe.select', 'Välj aktielista')}
+            aria-label={t('universe.select', 'Välj aktielista')}
+          >
+            {universes.map((universe) => (
+              <option key={universe.id} value={universe.id}>
+                {universe.label}
+              </option>
+            ))}
+          </select>
+        )}
         {/* Help Button - only when view has help modal */}
         {hasHelpModal && (
           <button
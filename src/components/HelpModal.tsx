@@ -14,7 +14,14 @@ const HELP_VIEW_IDS: ViewId[] = [
   'ism-posture-positioning',
   'sma',
   'entry-exit-benjamin-graham',
+  'entry-exit-entry2',
+  'entry-exit-exit1',
+  'entry-exit-exit2',
+  'entry-exit-irr1',
+  'entry-exit-iv-fcf',
   'fundamental-pe-industry',
+  'fundamental-current-ratio',
+  'fundamental-cash-sdebt',
   'industry-threshold',
   'personal-portfolio',
 ];
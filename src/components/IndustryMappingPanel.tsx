@@ -0,0 +1,212 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useIndustryAliases } from '../contexts/IndustryAliasContext';
+import { useToast } from '../contexts/ToastContext';
+import { INDUSTRY_MAP } from '../config/industryThresholdData';
+import { findUnresolvedIndustries, normalizeIndustryName } from '../utils/industryResolution';
+import type { IndustryThresholdData } from '../types/stock';
+
+const buttonClass =
+  'px-2 py-1 text-xs font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation';
+
+const inputClass =
+  'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-black dark:text-white';
+
+const thClass = 'px-3 py-2 text-left text-xs font-bold text-gray-700 dark:text-gray-200 uppercase tracking-wider';
+
+const INDUSTRY_OPTIONS = Object.entries(INDUSTRY_MAP).sort((a, b) => a[1].localeCompare(b[1]));
+
+/** Number of tickers listed per unresolved industry before "+N" */
+const MAX_LISTED_TICKERS = 8;
+
+interface IndustryMappingPanelProps {
+  /** DashBoard rows of the latest fetch (the Score Board rows) */
+  rows: Array<{ ticker: string; companyName: string; industry: string }>;
+  thresholdData: IndustryThresholdData[];
+}
+
+/**
+ * Industry mapping editor: rows whose industry does not resolve to a threshold, with fuzzy suggestions to
+ * map the spelling in one click, and the alias table.
+ */
+export default function IndustryMappingPanel({ rows, thresholdData }: IndustryMappingPanelProps) {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const { aliases, saveAlias, removeAlias } = useIndustryAliases();
+  const [saving, setSaving] = useState(false);
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const [newAlias, setNewAlias] = useState('');
+  const [newIndustryKey, setNewIndustryKey] = useState('');
+
+  const unresolved = useMemo(() => findUnresolvedIndustries(rows, thresholdData), [rows, thresholdData]);
+  const aliasEntries = useMemo(() => Object.entries(aliases).sort((a, b) => a[0].localeCompare(b[0])), [aliases]);
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    try {
+      await action();
+    } catch {
+      showToast(t('industryMapping.saveError', 'Kunde inte spara branschmappningen'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const mapIndustry = (alias: string, industryKey: string) => {
+    if (!industryKey) return;
+    void run(() => saveAlias(alias, industryKey));
+  };
+
+  const handleAdd = () => {
+    if (normalizeIndustryName(newAlias) === '' || !newIndustryKey) return;
+    void run(async () => {
+      await saveAlias(newAlias, newIndustryKey);
+      setNewAlias('');
+      setNewIndustryKey('');
+    });
+  };
+
+  return (
+    <section className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600">
+      <h3 className="text-sm font-semibold text-black dark:text-white mb-2">
+        {t('industryMapping.unresolvedTitle', {
+          count: unresolved.reduce((sum, group) => sum + group.rows.length, 0),
+          defaultValue: 'Rader utan tröskelvärden ({{count}})',
+        })}
+      </h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          {t('industryMapping.noRows', 'Ingen DashBoard-data hämtad ännu i den här sessionen.')}
+        </p>
+      ) : unresolved.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          {t('industryMapping.allResolved', 'Alla branscher matchar ett tröskelvärde.')}
+        </p>
+      ) : (
+        <div className="overflow-auto mb-6">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th scope="col" className={thClass}>{t('industryMapping.columns.industry', 'Bransch i arket')}</th>
+                <th scope="col" className={thClass}>{t('industryMapping.columns.tickers', 'Tickers')}</th>
+                <th scope="col" className={thClass}>{t('industryMapping.columns.mapTo', 'Mappa till')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {unresolved.map((group) => (
+                <tr key={group.industry} className="align-top">
+                  <td className="px-3 py-2 text-black dark:text-white">
+                    {group.industry || (
+                      <span className="text-red-600 dark:text-red-400">{t('industryMapping.missing', 'Bransch saknas')}</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-gray-700 dark:text-gray-300">
+                    {group.rows
+                      .slice(0, MAX_LISTED_TICKERS)
+                      .map((row) => row.ticker)
+                      .join(', ')}
+                    {group.rows.length > MAX_LISTED_TICKERS && ` +${group.rows.length - MAX_LISTED_TICKERS}`}
+                  </td>
+                  <td className="px-3 py-2">
+                    {group.industry === '' ? (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {t('industryMapping.fixInSheet', 'Fyll i branschen i arket')}
+                      </span>
+                    ) : (
+                      <div className="flex flex-col gap-1">
+                        <div className="flex flex-wrap gap-1">
+                          {group.suggestions.map((suggestion) => (
+                            <button
+                              key={suggestion.industryKey}
+                              type="button"
+                              className={buttonClass}
+                              disabled={saving}
+                              onClick={() => mapIndustry(group.industry, suggestion.industryKey)}
+                              title={t('industryMapping.similarity', {
+                                score: Math.round(suggestion.score * 100),
+                                defaultValue: 'Likhet {{score}} %',
+                              })}
+                            >
+                              {suggestion.label}
+                            </button>
+                          ))}
+                        </div>
+                        <div className="flex gap-1">
+                          <select
+                            className={inputClass}
+                            value={selected[group.industry] ?? ''}
+                            onChange={(e) => setSelected((prev) => ({ ...prev, [group.industry]: e.target.value }))}
+                          >
+                            <option value="">{t('industryMapping.choose', 'Välj bransch…')}</option>
+                            {INDUSTRY_OPTIONS.map(([key, label]) => (
+                              <option key={key} value={key}>
+                                {label}
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            type="button"
+                            className={buttonClass}
+                            disabled={saving || !selected[group.industry]}
+                            onClick={() => mapIndustry(group.industry, selected[group.industry] ?? '')}
+                          >
+                            {t('industryMapping.map', 'Mappa')}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <h3 className="text-sm font-semibold text-black dark:text-white mb-2">
+        {t('industryMapping.aliasesTitle', 'Alias')}
+      </h3>
+      <div className="flex flex-wrap gap-2 mb-3">
+        <input
+          type="text"
+          className={inputClass}
+          value={newAlias}
+          placeholder={t('industryMapping.aliasPlaceholder', 'Stavning i arket')}
+          onChange={(e) => setNewAlias(e.target.value)}
+        />
+        <select className={inputClass} value={newIndustryKey} onChange={(e) => setNewIndustryKey(e.target.value)}>
+          <option value="">{t('industryMapping.choose', 'Välj bransch…')}</option>
+          {INDUSTRY_OPTIONS.map(([key, label]) => (
+            <option key={key} value={key}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className={buttonClass}
+          disabled={saving || normalizeIndustryName(newAlias) === '' || !newIndustryKey}
+          onClick={handleAdd}
+        >
+          {t('industryMapping.add', 'Lägg till')}
+        </button>
+      </div>
+      {aliasEntries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('industryMapping.noAliases', 'Inga alias.')}</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          {aliasEntries.map(([alias, industryKey]) => (
+            <li key={alias} className="flex items-center justify-between gap-2 py-1.5">
+              <span className="text-gray-700 dark:text-gray-300">
+                {alias} → <span className="text-black dark:text-white">{INDUSTRY_MAP[industryKey]}</span>
+              </span>
+              <button type="button" className={buttonClass} disabled={saving} onClick={() => void run(() => removeAlias(alias))}>
+                {t('industryMapping.remove', 'Ta bort')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
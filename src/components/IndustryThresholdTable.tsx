@@ -465,6 +465,8 @@ export default function IndustryThresholdTable({ data, loading, error, initialTa
         initialColumnFilters={initialTableState?.columnFilters}
         initialSearchValue={initialTableState?.searchValue}
         initialSortConfig={initialTableState?.sortConfig}
+        initialVisibleColumns={initialTableState?.visibleColumns}
+        enableShareLink
       />
 
       {editingRow && (
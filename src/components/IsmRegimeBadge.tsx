@@ -0,0 +1,26 @@
+import { useTranslation } from 'react-i18next';
+import type { IsmRegime } from '../types/ism';
+
+const REGIME_CLASSES: Record<IsmRegime, string> = {
+  expansion: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  slowdown: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  contraction: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+  recovery: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300',
+};
+
+const REGIME_LABELS: Record<IsmRegime, string> = {
+  expansion: 'Expansion',
+  slowdown: 'Avmattning',
+  contraction: 'Kontraktion',
+  recovery: 'Återhämtning',
+};
+
+/** Colored chip with the regime name (ISM Posture view, Score view) */
+export default function IsmRegimeBadge({ regime, className = '' }: { regime: IsmRegime; className?: string }) {
+  const { t } = useTranslation();
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold ${REGIME_CLASSES[regime]} ${className}`}>
+      {t(`ism.regime.${regime}`, REGIME_LABELS[regime])}
+    </span>
+  );
+}
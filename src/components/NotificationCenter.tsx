@@ -1,8 +1,10 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, lazy, Suspense } from 'react';
 import { useNotifications } from '../contexts/NotificationContext';
 import { Notification, NotificationType } from '../services/notificationService';
 import { useTranslation } from 'react-i18next';
 
+const PriceAlertsModal = lazy(() => import('./PriceAlertsModal'));
+
 interface NotificationCenterProps {
   isOpen: boolean;
   onClose: () => void;
@@ -22,6 +24,7 @@ export default function NotificationCenter({ isOpen, onClose }: NotificationCent
   } = useNotifications();
 
   const [filter, setFilter] = useState<NotificationType | 'all'>('all');
+  const [priceAlertsOpen, setPriceAlertsOpen] = useState(false);
 
   const getNotificationIcon = (type: NotificationType): string => {
     switch (type) {
@@ -35,6 +38,8 @@ export default function NotificationCenter({ isOpen, onClose }: NotificationCent
         return 'ℹ';
       case 'data-update':
         return '🔄';
+      case 'price-alert':
+        return '🔔';
       default:
         return '•';
     }
@@ -52,6 +57,8 @@ export default function NotificationCenter({ isOpen, onClose }: NotificationCent
         return 'bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-200 border-blue-300 dark:border-blue-700';
       case 'data-update':
         return 'bg-purple-100 dark:bg-purple-900/20 text-purple-800 dark:text-purple-200 border-purple-300 dark:border-purple-700';
+      case 'price-alert':
+        return 'bg-orange-100 dark:bg-orange-900/20 text-orange-800 dark:text-orange-200 border-orange-300 dark:border-orange-700';
       default:
         return 'bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200 border-gray-300 dark:border-gray-700';
     }
@@ -120,6 +127,12 @@ export default function NotificationCenter({ isOpen, onClose }: NotificationCent
             )}
           </div>
           <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPriceAlertsOpen(true)}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+            >
+              {t('priceAlerts.manage', 'Prisalarm')}
+            </button>
             {permissionState !== 'granted' && (
               <button
                 onClick={handleRequestPermission}
@@ -180,6 +193,16 @@ export default function NotificationCenter({ isOpen, onClose }: NotificationCent
           >
             {t('notifications.dataUpdates', 'Data Updates')}
           </button>
+          <button
+            onClick={() => setFilter('price-alert')}
+            className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors whitespace-nowrap ${
+              filter === 'price-alert'
+                ? 'bg-blue-600 text-white dark:bg-blue-500'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            {t('notifications.priceAlerts', 'Prisalarm')}
+          </button>
           <button
             onClick={() => setFilter('error')}
             className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors whitespace-nowrap ${
@@ -269,6 +292,15 @@ export default function NotificationCenter({ isOpen, onClose }: NotificationCent
           )}
         </div>
       </div>
+
+      {/* Clicks inside the alert editor must not close the notification center behind it */}
+      {priceAlertsOpen && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <Suspense fallback={null}>
+            <PriceAlertsModal isOpen={priceAlertsOpen} onClose={() => setPriceAlertsOpen(false)} />
+          </Suspense>
+        </div>
+      )}
     </div>
   );
 }
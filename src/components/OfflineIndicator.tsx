@@ -1,14 +1,54 @@
+import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { getOldestServedDataTimestamp, getQueuedEditCount, subscribeToOfflineStore } from '../services/offlineStore';
+import { getDataAge } from '../utils/offlineData';
+
+/** Re-render interval for the data age while offline */
+const AGE_REFRESH_MS = 60 * 1000;
 
 export default function OfflineIndicator() {
   const { t } = useTranslation();
   const isOnline = useOnlineStatus();
+  const [dataTimestamp, setDataTimestamp] = useState<number | null>(null);
+  const [queuedEdits, setQueuedEdits] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (isOnline) return;
+
+    let cancelled = false;
+    const refresh = () => {
+      setDataTimestamp(getOldestServedDataTimestamp());
+      setNow(Date.now());
+      getQueuedEditCount().then((count) => {
+        if (!cancelled) setQueuedEdits(count);
+      });
+    };
+
+    refresh();
+    const unsubscribe = subscribeToOfflineStore(refresh);
+    const interval = setInterval(refresh, AGE_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [isOnline]);
 
   if (isOnline) {
     return null;
   }
 
+  const age = dataTimestamp !== null ? getDataAge(dataTimestamp, now) : null;
+  const ageText = age
+    ? age.unit === 'minutes'
+      ? t('offline.dataAgeMinutes', { count: age.count, defaultValue: 'Data från {{count}} min sedan' })
+      : age.unit === 'hours'
+        ? t('offline.dataAgeHours', { count: age.count, defaultValue: 'Data från {{count}} h sedan' })
+        : t('offline.dataAgeDays', { count: age.count, defaultValue: 'Data från {{count}} d sedan' })
+    : null;
+
   return (
     <div
       className="fixed bottom-4 right-4 z-50 bg-yellow-500 dark:bg-yellow-600 text-white px-4 py-2 rounded-lg shadow-lg flex items-center gap-2 animate-fade-in"
@@ -29,9 +69,20 @@ export default function OfflineIndicator() {
           d="M18.364 5.636a9 9 0 010 12.728m0 0l-2.829-2.829m2.829 2.829L21 21M15.536 8.464a5 5 0 010 7.072m0 0l-2.829-2.829m-4.243 2.829a4.978 4.978 0 01-1.414-2.83m-1.414 5.658a9 9 0 01-2.167-9.238m7.824 2.167a1 1 0 111.414 1.414m-1.414-1.414L3 3m8.293 8.293l1.414 1.414"
         />
       </svg>
-      <span className="text-sm font-medium">
-        {t('offline.indicator', 'Offline – data kan vara inaktuell')}
-      </span>
+      <div className="flex flex-col">
+        <span className="text-sm font-medium">
+          {t('offline.indicator', 'Offline – data kan vara inaktuell')}
+        </span>
+        {ageText && <span className="text-xs">{ageText}</span>}
+        {queuedEdits > 0 && (
+          <span className="text-xs">
+            {t('offline.queuedEdits', {
+              count: queuedEdits,
+              defaultValue: '{{count}} ändringar sparas när du är online igen',
+            })}
+          </span>
+        )}
+      </div>
     </div>
   );
 }
@@ -12,6 +12,7 @@ interface PEIndustryTableProps {
   data: PEIndustryData[];
   loading: boolean;
   error: string | null;
+  initialTableState?: ShareableTableState;
 }
 
 const PE_INDUSTRY_COLUMNS: ColumnDefinition<PEIndustryData>[] = [
@@ -371,6 +372,8 @@ export default function PEIndustryTable({ data, loading, error, initialTableStat
       initialColumnFilters={initialTableState?.columnFilters}
       initialSearchValue={initialTableState?.searchValue}
       initialSortConfig={initialTableState?.sortConfig}
+      initialVisibleColumns={initialTableState?.visibleColumns}
+      enableShareLink
     />
   );
 }
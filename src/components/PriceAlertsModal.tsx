@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { usePriceAlerts } from '../contexts/PriceAlertContext';
+import { useToast } from '../contexts/ToastContext';
+import { describePriceAlertCondition, toAlertTickerKey } from '../utils/priceAlerts';
+import { MAX_PRICE_ALERTS } from '../services/priceAlertService';
+import type { PriceAlertCondition, PriceAlertConditionType } from '../types/priceAlert';
+
+interface PriceAlertsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CONDITION_TYPES: { type: PriceAlertConditionType; labelKey: string; fallback: string }[] = [
+  { type: 'price-below-entry', labelKey: 'priceAlerts.type.priceBelowEntry', fallback: 'Pris ≤ Entry × faktor' },
+  { type: 'price-above-exit', labelKey: 'priceAlerts.type.priceAboveExit', fallback: 'Pris ≥ Exit' },
+  { type: 'price-below', labelKey: 'priceAlerts.type.priceBelow', fallback: 'Pris ≤ nivå' },
+  { type: 'price-above', labelKey: 'priceAlerts.type.priceAbove', fallback: 'Pris ≥ nivå' },
+  { type: 'score-crosses', labelKey: 'priceAlerts.type.scoreCrosses', fallback: 'Score passerar nivå' },
+  { type: 'theo-entry-green', labelKey: 'priceAlerts.type.theoEntryGreen', fallback: 'TheoEntry blir GRÖN' },
+];
+
+const inputClass =
+  'w-full px-2 py-1 border border-gray-300 dark:border-gray-500 rounded-md bg-white dark:bg-gray-700 text-black dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function parseNumber(value: string): number | null {
+  const n = Number(value.trim().replace(',', '.'));
+  return value.trim() !== '' && Number.isFinite(n) ? n : null;
+}
+
+export default function PriceAlertsModal({ isOpen, onClose }: PriceAlertsModalProps) {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const { alerts, loading, knownTickers, addAlert, removeAlert, setAlertEnabled } = usePriceAlerts();
+  const [ticker, setTicker] = useState('');
+  const [type, setType] = useState<PriceAlertConditionType>('price-below-entry');
+  const [entryTarget, setEntryTarget] = useState<'entry1' | 'entry2'>('entry1');
+  const [exitTarget, setExitTarget] = useState<'exit1' | 'exit2'>('exit1');
+  const [factor, setFactor] = useState('1.05');
+  const [level, setLevel] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  if (!isOpen) return null;
+
+  const matchedTicker = knownTickers.find((k) => toAlertTickerKey(k.ticker) === toAlertTickerKey(ticker));
+
+  const buildCondition = (): PriceAlertCondition | null => {
+    switch (type) {
+      case 'price-below-entry': {
+        const f = parseNumber(factor);
+        return f !== null && f > 0 ? { type, target: entryTarget, factor: f } : null;
+      }
+      case 'price-above-exit':
+        return { type, target: exitTarget };
+      case 'price-below':
+      case 'price-above':
+      case 'score-crosses': {
+        const value = parseNumber(level);
+        return value !== null ? { type, value } : null;
+      }
+      case 'theo-entry-green':
+        return { type };
+    }
+  };
+
+  const condition = buildCondition();
+  const canAdd = !!matchedTicker && condition !== null && alerts.length < MAX_PRICE_ALERTS && !saving;
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    try {
+      await action();
+    } catch {
+      showToast(t('priceAlerts.saveError', 'Kunde inte spara prisalarm'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = () => {
+    if (!matchedTicker || !condition) return;
+    void run(async () => {
+      await addAlert(matchedTicker.ticker, matchedTicker.companyName, condition);
+      setTicker('');
+      setLevel('');
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="price-alerts-title"
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-3xl w-full mx-4 shadow-xl max-h-[90vh] overflow-y-auto">
+        <h2 id="price-alerts-title" className="text-xl font-semibold mb-1 text-black dark:text-white">
+          {t('priceAlerts.title', 'Prisalarm')}
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          {t(
+            'priceAlerts.description',
+            'Alarm kontrolleras när nya priser hämtas. Score-alarm kontrolleras när Score-vyn har räknat om poängen. Ett alarm utlöses när villkoret blir uppfyllt.'
+          )}
+        </p>
+
+        {/* New alert */}
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end mb-6">
+          <label className="text-xs text-gray-600 dark:text-gray-400">
+            {t('priceAlerts.ticker', 'Ticker')}
+            <input
+              className={inputClass}
+              list="price-alert-tickers"
+              value={ticker}
+              onChange={(e) => setTicker(e.target.value)}
+              placeholder="AAPL"
+            />
+            <datalist id="price-alert-tickers">
+              {knownTickers.map((k) => (
+                <option key={k.ticker} value={k.ticker}>
+                  {k.companyName}
+                </option>
+              ))}
+            </datalist>
+          </label>
+          <label className="text-xs text-gray-600 dark:text-gray-400">
+            {t('priceAlerts.condition.label', 'Villkor')}
+            <select className={inputClass} value={type} onChange={(e) => setType(e.target.value as PriceAlertConditionType)}>
+              {CONDITION_TYPES.map((c) => (
+                <option key={c.type} value={c.type}>
+                  {t(c.labelKey, c.fallback)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="flex gap-2">
+            {type === 'price-below-entry' && (
+              <>
+                <select className={inputClass} value={entryTarget} onChange={(e) => setEntryTarget(e.target.value as 'entry1' | 'entry2')}>
+                  <option value="entry1">Entry1</option>
+                  <option value="entry2">Entry2</option>
+                </select>
+                <input
+                  className={inputClass}
+                  inputMode="decimal"
+                  value={factor}
+                  onChange={(e) => setFactor(e.target.value)}
+                  aria-label={t('priceAlerts.factor', 'Faktor')}
+                />
+              </>
+            )}
+            {type === 'price-above-exit' && (
+              <select className={inputClass} value={exitTarget} onChange={(e) => setExitTarget(e.target.value as 'exit1' | 'exit2')}>
+                <option value="exit1">Exit1</option>
+                <option value="exit2">Exit2</option>
+              </select>
+            )}
+            {(type === 'price-below' || type === 'price-above' || type === 'score-crosses') && (
+              <input
+                className={inputClass}
+                inputMode="decimal"
+                value={level}
+                onChange={(e) => setLevel(e.target.value)}
+                placeholder={type === 'score-crosses' ? '70' : ''}
+                aria-label={t('priceAlerts.level', 'Nivå')}
+              />
+            )}
+          </div>
+          <button
+            onClick={handleAdd}
+            disabled={!canAdd}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-md transition-colors min-h-[44px] touch-manipulation"
+          >
+            {t('priceAlerts.add', 'Lägg till')}
+          </button>
+        </div>
+        {ticker.trim() !== '' && !matchedTicker && (
+          <p className="-mt-4 mb-4 text-xs text-red-600 dark:text-red-400">
+            {t('priceAlerts.unknownTicker', 'Okänd ticker – välj en ticker från listan')}
+          </p>
+        )}
+
+        {/* Existing alerts */}
+        {loading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('priceAlerts.loading', 'Laddar…')}</p>
+        ) : alerts.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('priceAlerts.empty', 'Inga prisalarm ännu.')}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 dark:text-gray-400">
+                <th className="py-1 pr-2">{t('priceAlerts.ticker', 'Ticker')}</th>
+                <th className="py-1 pr-2">{t('priceAlerts.condition.label', 'Villkor')}</th>
+                <th className="py-1 pr-2">{t('priceAlerts.lastTriggered', 'Senast utlöst')}</th>
+                <th className="py-1 pr-2 w-16 text-center">{t('priceAlerts.enabled', 'Aktiv')}</th>
+                <th className="py-1 w-10" />
+              </tr>
+            </thead>
+            <tbody>
+              {alerts.map((alert) => (
+                <tr key={alert.id} className="border-t border-gray-200 dark:border-gray-700">
+                  <td className="py-1 pr-2 text-black dark:text-white">
+                    <span className="font-medium">{alert.ticker}</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">{alert.companyName}</span>
+                  </td>
+                  <td className="py-1 pr-2 text-black dark:text-white">{describePriceAlertCondition(alert.condition, t)}</td>
+                  <td className="py-1 pr-2 text-gray-600 dark:text-gray-400">
+                    {alert.lastTriggeredAt ? new Date(alert.lastTriggeredAt).toLocaleString() : '–'}
+                  </td>
+                  <td className="py-1 text-center">
+                    <input
+                      type="checkbox"
+                      checked={alert.enabled}
+                      disabled={saving}
+                      onChange={(e) => void run(() => setAlertEnabled(alert.id, e.target.checked))}
+                      aria-label={t('priceAlerts.enabled', 'Aktiv')}
+                    />
+                  </td>
+                  <td className="py-1 text-right">
+                    <button
+                      onClick={() => void run(() => removeAlert(alert.id))}
+                      disabled={saving}
+                      className="p-2 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 rounded-md disabled:opacity-50"
+                      aria-label={t('priceAlerts.remove', 'Ta bort')}
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-300 dark:bg-gray-600 hover:bg-gray-400 dark:hover:bg-gray-500 text-black dark:text-white rounded-md transition-colors min-h-[44px] touch-manipulation"
+          >
+            {t('common.close', 'Stäng')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
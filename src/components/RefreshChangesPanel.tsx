@@ -0,0 +1,106 @@
+import { useTranslation } from 'react-i18next';
+import { useRefreshChanges } from '../hooks/useRefreshChanges';
+
+const VIEW_LABEL_KEYS: Record<string, string> = {
+  'score-board': 'navigation.scoreBoard',
+  'entry-exit-benjamin-graham': 'navigation.benjaminGraham',
+  'fundamental-pe-industry': 'navigation.peIndustry',
+  'industry-threshold': 'navigation.industryThreshold',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  mungerQualityScore: 'Munger Quality Score',
+  valueCreation: 'Value Creation',
+  leverageF2: 'Leverage F2',
+  currentRatio: 'Current Ratio',
+  cashSdebt: 'Cash/SDebt',
+  pe1Industry: 'P/E1 Industry',
+  pe2Industry: 'P/E2 Industry',
+  sma200: 'SMA(200)',
+};
+
+function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+/**
+ * "What changed since you last looked": rows added/removed/updated per view and the largest score input moves
+ * from server refresh runs the user has not marked as seen.
+ */
+export default function RefreshChangesPanel() {
+  const { t } = useTranslation();
+  const { summary, lastSeenAt, markSeen } = useRefreshChanges();
+
+  if (!summary || (summary.views.length === 0 && summary.topMovers.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 flex-shrink-0 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600">
+      <div className="flex items-start justify-between gap-4 mb-2">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-200">
+            {t('refreshChanges.title', 'Sedan du senast tittade')}
+          </h2>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {lastSeenAt
+              ? t('refreshChanges.since', {
+                  runs: summary.runs,
+                  time: lastSeenAt.toLocaleString('sv-SE'),
+                  defaultValue: '{{runs}} uppdateringar sedan {{time}}',
+                })
+              : t('refreshChanges.latestRun', 'Senaste serveruppdateringen')}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => markSeen()}
+          className="px-3 py-1.5 text-sm font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors touch-manipulation"
+        >
+          {t('refreshChanges.markSeen', 'Markera som sett')}
+        </button>
+      </div>
+
+      {summary.views.length > 0 && (
+        <ul className="text-xs text-gray-700 dark:text-gray-300 space-y-0.5 mb-2">
+          {summary.views.map((view) => (
+            <li key={view.viewId}>
+              <span className="font-medium">{VIEW_LABEL_KEYS[view.viewId] ? t(VIEW_LABEL_KEYS[view.viewId]) : view.viewId}</span>
+              {': '}
+              {t('refreshChanges.rowCounts', {
+                added: view.added,
+                removed: view.removed,
+                updated: view.updated,
+                defaultValue: '{{added}} tillagda, {{removed}} borttagna, {{updated}} uppdaterade',
+              })}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {summary.topMovers.length > 0 && (
+        <>
+          <h3 className="text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase tracking-wider mb-1">
+            {t('refreshChanges.topMovers', 'Största förändringar i score-underlag')}
+          </h3>
+          <ul className="text-xs text-gray-700 dark:text-gray-300 grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-0.5">
+            {summary.topMovers.map((mover) => (
+              <li key={`${mover.ticker}-${mover.field}`} className="flex justify-between gap-2">
+                <span>
+                  <span className="font-medium text-black dark:text-white">{mover.ticker}</span> {FIELD_LABELS[mover.field] ?? mover.field}
+                </span>
+                <span className="tabular-nums">
+                  {formatNumber(mover.oldValue)} → {formatNumber(mover.newValue)}{' '}
+                  <span className={mover.changePercent >= 0 ? 'text-green-700 dark:text-green-200' : 'text-red-700 dark:text-red-400'}>
+                    ({mover.changePercent >= 0 ? '+' : ''}
+                    {Math.round(mover.changePercent)}%)
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
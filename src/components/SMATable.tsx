@@ -199,6 +199,9 @@ export default function SMATable({ data, loading, error, onRetry, initialTableSt
       initialColumnFilters={initialTableState?.columnFilters}
       initialSearchValue={initialTableState?.searchValue}
       initialSortConfig={initialTableState?.sortConfig}
+      initialVisibleColumns={initialTableState?.visibleColumns}
+      enableShareLink
+      showTAChartButton
     />
   );
 }
@@ -0,0 +1,273 @@
+import { useState, ChangeEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useToast } from '../contexts/ToastContext';
+import { useUniverse } from '../contexts/UniverseContext';
+import { DEFAULT_UNIVERSE_ID } from '../config/universes';
+import { loadScoreHistory } from '../services/scoreHistoryService';
+import {
+  DEFAULT_BACKTEST_RULE_SETS,
+  mergeScoreHistory,
+  parsePriceHistoryCsv,
+  runBacktest,
+  type BacktestExitTarget,
+  type BacktestResult,
+  type BacktestRuleSet,
+  type BacktestTickerInput,
+  type PriceHistoryParseResult,
+} from '../utils/backtest';
+import { logger } from '../utils/logger';
+import type { EntryExitValuesForScore } from '../types/score';
+
+interface ScoreBacktestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Current Entry/Exit values keyed by lower-case ticker */
+  entryExitByTicker: Map<string, EntryExitValuesForScore>;
+}
+
+const inputClass =
+  'w-full px-2 py-1 border border-gray-300 dark:border-gray-500 rounded-md bg-white dark:bg-gray-700 text-black dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function parseOptionalNumber(value: string): number | null {
+  if (value.trim() === '') return null;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function formatPct(value: number | null): string {
+  return value === null ? '–' : `${value.toFixed(1)}%`;
+}
+
+export default function ScoreBacktestModal({ isOpen, onClose, entryExitByTicker }: ScoreBacktestModalProps) {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  // Score snapshots are only taken for the default universe (dailyScoreSnapshot)
+  const hasStoredScores = useUniverse().activeUniverse.id === DEFAULT_UNIVERSE_ID;
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [priceHistory, setPriceHistory] = useState<PriceHistoryParseResult | null>(null);
+  const [useStoredScores, setUseStoredScores] = useState(true);
+  const [ruleSets, setRuleSets] = useState<BacktestRuleSet[]>(DEFAULT_BACKTEST_RULE_SETS);
+  const [results, setResults] = useState<BacktestResult[]>([]);
+  const [running, setRunning] = useState(false);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const parsed = parsePriceHistoryCsv(await file.text());
+    setFileName(file.name);
+    setPriceHistory(parsed);
+    setUseStoredScores(!parsed.hasScores);
+    setResults([]);
+    if (parsed.series.size === 0) {
+      showToast(parsed.errors[0] ?? t('backtest.noRows', 'Filen innehåller inga prisrader'), 'error');
+    }
+  };
+
+  const updateRuleSet = (id: string, patch: Partial<BacktestRuleSet>) => {
+    setRuleSets((prev) => prev.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  };
+
+  const addRuleSet = () => {
+    setRuleSets((prev) => [
+      ...prev,
+      { id: `rule-${Date.now()}`, name: `${t('backtest.ruleSet', 'Regel')} ${prev.length + 1}`, buyScoreMin: 70, buyOnTheoEntryGreen: false, sellAt: null, sellScoreBelow: 50 },
+    ]);
+  };
+
+  const handleRun = async () => {
+    if (!priceHistory || priceHistory.series.size === 0) return;
+    setRunning(true);
+    try {
+      const tickers = [...priceHistory.series.keys()];
+      // Stored snapshots are optional: the CSV alone (with a Score column) runs fully offline
+      const snapshots = hasStoredScores && useStoredScores && navigator.onLine
+        ? await Promise.allSettled(tickers.map((ticker) => loadScoreHistory(ticker, 3650)))
+        : [];
+
+      const inputs: BacktestTickerInput[] = tickers.map((ticker, i) => {
+        const series = priceHistory.series.get(ticker) ?? [];
+        const stored = snapshots[i];
+        return {
+          ticker,
+          series: stored?.status === 'fulfilled' ? mergeScoreHistory(series, stored.value) : series,
+          entryExit: entryExitByTicker.get(ticker.toLowerCase().trim()),
+        };
+      });
+      setResults(ruleSets.map((ruleSet) => runBacktest(inputs, ruleSet)));
+    } catch (error: unknown) {
+      logger.error('Error running backtest', error, { component: 'ScoreBacktestModal', operation: 'run' });
+      showToast(t('backtest.runError', 'Backtestet kunde inte köras'), 'error');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="score-backtest-title"
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-5xl w-full mx-4 shadow-xl max-h-[90vh] overflow-y-auto">
+        <h2 id="score-backtest-title" className="text-xl font-semibold mb-1 text-black dark:text-white">
+          {t('backtest.title', 'Backtest av Score')}
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          {t('backtest.description', 'Ladda en pris-CSV (Date, Ticker, Close, valfri Score). Entry/Exit-värden hämtas från tabellerna.')}
+        </p>
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+          <label className="px-4 py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-sm text-black dark:text-white rounded-md cursor-pointer min-h-[44px] flex items-center">
+            {t('backtest.chooseFile', 'Välj pris-CSV')}
+            <input type="file" accept=".csv,text/csv" className="sr-only" onChange={handleFileChange} />
+          </label>
+          {fileName && priceHistory && (
+            <span className="text-xs text-gray-600 dark:text-gray-400">
+              {t('backtest.fileSummary', {
+                file: fileName,
+                tickers: priceHistory.series.size,
+                errors: priceHistory.errors.length,
+                defaultValue: `${fileName}: ${priceHistory.series.size} tickers, ${priceHistory.errors.length} ogiltiga rader`,
+              })}
+            </span>
+          )}
+          {hasStoredScores && (
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input type="checkbox" checked={useStoredScores} onChange={(e) => setUseStoredScores(e.target.checked)} />
+              {t('backtest.useStoredScores', 'Fyll saknade poäng från sparad historik')}
+            </label>
+          )}
+        </div>
+
+        <table className="w-full text-sm mb-2">
+          <thead>
+            <tr className="text-left text-gray-600 dark:text-gray-400">
+              <th className="py-1 pr-2">{t('backtest.ruleSet', 'Regel')}</th>
+              <th className="py-1 pr-2 w-24">{t('backtest.buyScoreMin', 'Köp score ≥')}</th>
+              <th className="py-1 pr-2 w-24 text-center">{t('backtest.buyOnTheoEntry', 'Köp TheoEntry')}</th>
+              <th className="py-1 pr-2 w-28">{t('backtest.sellAt', 'Sälj vid')}</th>
+              <th className="py-1 pr-2 w-24">{t('backtest.sellScoreBelow', 'Sälj score <')}</th>
+              <th className="py-1 w-10" />
+            </tr>
+          </thead>
+          <tbody>
+            {ruleSets.map((ruleSet) => (
+              <tr key={ruleSet.id} className="border-t border-gray-200 dark:border-gray-700">
+                <td className="py-1 pr-2">
+                  <input value={ruleSet.name} onChange={(e) => updateRuleSet(ruleSet.id, { name: e.target.value })} className={inputClass} />
+                </td>
+                <td className="py-1 pr-2">
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={ruleSet.buyScoreMin ?? ''}
+                    onChange={(e) => updateRuleSet(ruleSet.id, { buyScoreMin: parseOptionalNumber(e.target.value) })}
+                    className={inputClass}
+                  />
+                </td>
+                <td className="py-1 pr-2 text-center">
+                  <input
+                    type="checkbox"
+                    checked={ruleSet.buyOnTheoEntryGreen}
+                    onChange={(e) => updateRuleSet(ruleSet.id, { buyOnTheoEntryGreen: e.target.checked })}
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  <select
+                    value={ruleSet.sellAt ?? ''}
+                    onChange={(e) => updateRuleSet(ruleSet.id, { sellAt: (e.target.value || null) as BacktestExitTarget | null })}
+                    className={inputClass}
+                  >
+                    <option value="">–</option>
+                    <option value="exit1">Exit1</option>
+                    <option value="exit2">Exit2</option>
+                  </select>
+                </td>
+                <td className="py-1 pr-2">
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={ruleSet.sellScoreBelow ?? ''}
+                    onChange={(e) => updateRuleSet(ruleSet.id, { sellScoreBelow: parseOptionalNumber(e.target.value) })}
+                    className={inputClass}
+                  />
+                </td>
+                <td className="py-1 text-center">
+                  <button
+                    onClick={() => setRuleSets((prev) => prev.filter((r) => r.id !== ruleSet.id))}
+                    className="text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                    aria-label={t('backtest.removeRuleSet', 'Ta bort regel')}
+                  >
+                    ×
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button onClick={addRuleSet} className="text-sm text-blue-600 dark:text-blue-400 hover:underline mb-4">
+          {t('backtest.addRuleSet', '+ Lägg till regel')}
+        </button>
+
+        {results.length > 0 && (
+          <table className="w-full text-sm mb-4" aria-label={t('backtest.results', 'Resultat')}>
+            <thead>
+              <tr className="text-left text-gray-600 dark:text-gray-400">
+                <th className="py-1 pr-2">{t('backtest.ruleSet', 'Regel')}</th>
+                <th className="py-1 pr-2 text-right">{t('backtest.trades', 'Affärer')}</th>
+                <th className="py-1 pr-2 text-right">{t('backtest.hitRate', 'Träffsäkerhet')}</th>
+                <th className="py-1 pr-2 text-right">{t('backtest.avgReturn', 'Snittavkastning')}</th>
+                <th className="py-1 pr-2 text-right">{t('backtest.totalReturn', 'Total avkastning')}</th>
+                <th className="py-1 pr-2 text-right">{t('backtest.maxDrawdown', 'Max drawdown')}</th>
+                <th className="py-1 text-right">{t('backtest.avgHoldingDays', 'Snitt innehav (dagar)')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((result) => (
+                <tr key={result.ruleSet.id} className="border-t border-gray-200 dark:border-gray-700 text-black dark:text-white">
+                  <td className="py-1 pr-2">{result.ruleSet.name}</td>
+                  <td className="py-1 pr-2 text-right">
+                    {result.closedTrades}
+                    {result.trades.length > result.closedTrades && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {' '}
+                        {t('backtest.openTrades', { count: result.trades.length - result.closedTrades, defaultValue: `(+${result.trades.length - result.closedTrades} öppna)` })}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1 pr-2 text-right">{formatPct(result.hitRate)}</td>
+                  <td className="py-1 pr-2 text-right">{formatPct(result.avgReturnPct)}</td>
+                  <td className="py-1 pr-2 text-right">{formatPct(result.totalReturnPct)}</td>
+                  <td className="py-1 pr-2 text-right">{formatPct(result.maxDrawdownPct)}</td>
+                  <td className="py-1 text-right">{result.avgHoldingDays === null ? '–' : result.avgHoldingDays.toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={handleRun}
+            disabled={running || !priceHistory || priceHistory.series.size === 0 || ruleSets.length === 0}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-md transition-colors min-h-[44px] touch-manipulation"
+          >
+            {running ? t('backtest.running', 'Kör…') : t('backtest.run', 'Kör backtest')}
+          </button>
+          <button
+            onClick={onClose}
+            disabled={running}
+            className="px-4 py-2 bg-gray-300 dark:bg-gray-600 hover:bg-gray-400 dark:hover:bg-gray-500 text-black dark:text-white rounded-md transition-colors min-h-[44px] touch-manipulation disabled:opacity-50"
+          >
+            {t('common.close', 'Stäng')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ import { ShareableTableState } from '../types/filters';
 import { useTranslation } from 'react-i18next';
 import { useEntryExitValues } from '../contexts/EntryExitContext';
 import { useBenjaminGrahamData } from '../hooks/useBenjaminGrahamData';
+import { useDataQualityFlags } from '../hooks/useDataQuality';
+import DataQualityFlag from './DataQualityFlag';
 import {
   getMungerQualityScoreColor,
   getValueCreationColor,
@@ -47,6 +49,7 @@ export default function ScoreBoardTable({ data, loading, error, thresholdData =
   const { t } = useTranslation();
   const { getEntryExitValue } = useEntryExitValues();
   const { data: benjaminGrahamData } = useBenjaminGrahamData();
+  const dataQualityFlags = useDataQualityFlags();
   
   // Get unique industries for filter dropdown
   const uniqueIndustries = useMemo(() => {
@@ -301,7 +304,12 @@ export default function ScoreBoardTable({ data, loading, error, thresholdData =
       case 'companyName':
         return <span className="font-medium">{item.companyName}</span>;
       case 'ticker':
-        return <span className="text-gray-600 dark:text-gray-300">{item.ticker}</span>;
+        return (
+          <span className="text-gray-600 dark:text-gray-300">
+            {item.ticker}
+            <DataQualityFlag issues={dataQualityFlags.get(item.ticker.trim().toUpperCase())} />
+          </span>
+        );
       case 'mungerQualityScore':
         return (
           <span className={colorTypeToCssClass(getMungerQualityScoreColor(item.mungerQualityScore), { orangeVariant: 'blue' }) || 'text-black dark:text-white'}>
@@ -357,7 +365,7 @@ export default function ScoreBoardTable({ data, loading, error, thresholdData =
       default:
         return null;
     }
-  }, [thresholdData, isTheoEntryGreenForRow]);
+  }, [thresholdData, isTheoEntryGreenForRow, dataQualityFlags]);
 
   // Render mobile card with expandable view
   const renderMobileCard = useCallback((item: ScoreBoardData, index: number, globalIndex: number, isExpanded: boolean, toggleExpand: () => void) => {
@@ -379,7 +387,10 @@ export default function ScoreBoardTable({ data, loading, error, thresholdData =
             </div>
             <div className="flex items-center justify-between">
               <span className="text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase tracking-wider">Ticker</span>
-              <span className="text-sm text-gray-600 dark:text-gray-300">{item.ticker}</span>
+              <span className="text-sm text-gray-600 dark:text-gray-300">
+                {item.ticker}
+                <DataQualityFlag issues={dataQualityFlags.get(item.ticker.trim().toUpperCase())} />
+              </span>
             </div>
           </div>
           <button
@@ -416,7 +427,7 @@ export default function ScoreBoardTable({ data, loading, error, thresholdData =
         )}
       </div>
     );
-  }, [renderCell]);
+  }, [renderCell, dataQualityFlags]);
 
   return (
     <BaseTable<ScoreBoardData>
@@ -444,6 +455,9 @@ export default function ScoreBoardTable({ data, loading, error, thresholdData =
       initialColumnFilters={initialTableState?.columnFilters}
       initialSearchValue={initialTableState?.searchValue}
       initialSortConfig={initialTableState?.sortConfig}
+      initialVisibleColumns={initialTableState?.visibleColumns}
+      enableShareLink
+      showTAChartButton
       onRetry={onRetry}
     />
   );
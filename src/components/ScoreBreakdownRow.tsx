@@ -1,10 +1,6 @@
 import { useMemo } from 'react';
 import { ResponsiveContainer, BarChart, Bar, Cell, XAxis, YAxis, Tooltip } from 'recharts';
-import {
-  ScoreBreakdown,
-  FUNDAMENTAL_MAX_SCORE_POINTS,
-  TECHNICAL_MAX_SCORE_POINTS,
-} from '../utils/calculateScoreDetailed';
+import { ScoreBreakdown } from '../utils/calculateScoreDetailed';
 import { useTheme } from '../contexts/ThemeContext';
 
 interface ScoreBreakdownRowProps {
@@ -70,16 +66,14 @@ export default function ScoreBreakdownRow({ breakdown }: ScoreBreakdownRowProps)
   };
 
   const getMultiplierText = (factor: number) => {
-    if (factor === 1.00) return '100%';
-    if (factor === 0.70) return '70%';
-    return '0%';
+    return `${Math.round(factor * 100)}%`;
   };
 
   // Custom tooltip for stacked bar
   const StackedBarTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
       const data = payload[0];
-      const cap = data.name === 'Fundamental' ? FUNDAMENTAL_MAX_SCORE_POINTS : TECHNICAL_MAX_SCORE_POINTS;
+      const cap = data.name === 'Fundamental' ? breakdown.fundamentalMax : breakdown.technicalMax;
       return (
         <div className="bg-white dark:bg-gray-800 p-3 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
           <p className="font-semibold text-black dark:text-white">{data.name}</p>
@@ -107,7 +101,7 @@ export default function ScoreBreakdownRow({ breakdown }: ScoreBreakdownRowProps)
           >
             <XAxis 
               type="number" 
-              domain={[0, Math.max(FUNDAMENTAL_MAX_SCORE_POINTS, TECHNICAL_MAX_SCORE_POINTS)]}
+              domain={[0, Math.max(breakdown.fundamentalMax, breakdown.technicalMax)]}
               tick={{ fill: isDarkMode ? '#e5e7eb' : '#374151', fontSize: 12 }}
             />
             <YAxis 
@@ -140,7 +134,7 @@ export default function ScoreBreakdownRow({ breakdown }: ScoreBreakdownRowProps)
             <div className="flex items-center justify-between mb-2">
               <span className="text-xs font-semibold text-blue-600 dark:text-blue-400">Fundamental</span>
               <span className="text-xs text-gray-600 dark:text-gray-400">
-                ({breakdown.fundamentalTotal.toFixed(1)} / {FUNDAMENTAL_MAX_SCORE_POINTS}p)
+                ({breakdown.fundamentalTotal.toFixed(1)} / {breakdown.fundamentalMax}p)
               </span>
             </div>
             <div className="space-y-1">
@@ -168,7 +162,7 @@ export default function ScoreBreakdownRow({ breakdown }: ScoreBreakdownRowProps)
             <div className="flex items-center justify-between mb-2">
               <span className="text-xs font-semibold text-green-600 dark:text-green-400">Technical</span>
               <span className="text-xs text-gray-600 dark:text-gray-400">
-                ({breakdown.technicalTotal.toFixed(1)} / {TECHNICAL_MAX_SCORE_POINTS}p)
+                ({breakdown.technicalTotal.toFixed(1)} / {breakdown.technicalMax}p)
               </span>
             </div>
             <div className="space-y-1">
@@ -196,6 +190,7 @@ export default function ScoreBreakdownRow({ breakdown }: ScoreBreakdownRowProps)
             <div className="flex items-center space-x-4 text-[10px] text-gray-500 dark:text-gray-400">
               <span>v = vikt</span>
               <span>● = färg</span>
+              <span>Modell v{breakdown.modelVersion}</span>
             </div>
           </div>
         </div>
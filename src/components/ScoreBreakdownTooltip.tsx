@@ -1,9 +1,5 @@
 import { useState, useRef, useEffect, useId } from 'react';
-import {
-  ScoreBreakdown,
-  FUNDAMENTAL_MAX_SCORE_POINTS,
-  TECHNICAL_MAX_SCORE_POINTS,
-} from '../utils/calculateScoreDetailed';
+import { ScoreBreakdown } from '../utils/calculateScoreDetailed';
 
 interface ScoreBreakdownTooltipProps {
   breakdown: ScoreBreakdown;
@@ -72,9 +68,7 @@ export default function ScoreBreakdownTooltip({ breakdown, children }: ScoreBrea
   };
 
   const getMultiplierText = (factor: number) => {
-    if (factor === 1.00) return '100%';
-    if (factor === 0.70) return '70%';
-    return '0%';
+    return `${Math.round(factor * 100)}%`;
   };
 
   const fundamentalItems = breakdown.items.filter(item => item.category === 'Fundamental');
@@ -111,13 +105,14 @@ export default function ScoreBreakdownTooltip({ breakdown, children }: ScoreBrea
             <div className="border-b border-gray-700 pb-2">
               <div className="text-xs text-gray-400 mb-1">Total Score</div>
               <div className="text-2xl font-bold text-white">{breakdown.totalScore.toFixed(1)}</div>
+              <div className="text-xs text-gray-500 mt-1">Modell v{breakdown.modelVersion}</div>
             </div>
 
             {/* Fundamental Section */}
             <div>
               <div className="flex items-center justify-between mb-2">
                 <span className="font-semibold text-blue-400">Fundamental</span>
-                <span className="text-gray-300 text-xs">({breakdown.fundamentalTotal.toFixed(1)} / {FUNDAMENTAL_MAX_SCORE_POINTS}p)</span>
+                <span className="text-gray-300 text-xs">({breakdown.fundamentalTotal.toFixed(1)} / {breakdown.fundamentalMax}p)</span>
               </div>
               <div className="space-y-1 max-h-48 overflow-y-auto">
                 {fundamentalItems.map((item, index) => (
@@ -140,7 +135,7 @@ export default function ScoreBreakdownTooltip({ breakdown, children }: ScoreBrea
             <div>
               <div className="flex items-center justify-between mb-2">
                 <span className="font-semibold text-green-400">Technical</span>
-                <span className="text-gray-300 text-xs">({breakdown.technicalTotal.toFixed(1)} / {TECHNICAL_MAX_SCORE_POINTS}p)</span>
+                <span className="text-gray-300 text-xs">({breakdown.technicalTotal.toFixed(1)} / {breakdown.technicalMax}p)</span>
               </div>
               <div className="space-y-1 max-h-48 overflow-y-auto">
                 {technicalItems.map((item, index) => (
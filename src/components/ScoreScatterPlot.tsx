@@ -5,6 +5,7 @@ import { useTheme } from '../contexts/ThemeContext';
 import { ScoreData } from './views/ScoreView';
 import { IndustryThresholdData, BenjaminGrahamData } from '../types/stock';
 import { EntryExitValues } from '../contexts/EntryExitContext';
+import { useScoringModel } from '../contexts/ScoringModelContext';
 import { calculateDetailedScoreBreakdown } from '../utils/calculateScoreDetailed';
 
 interface ScoreScatterPlotProps {
@@ -30,6 +31,7 @@ export default function ScoreScatterPlot({
 }: ScoreScatterPlotProps) {
   const { resolvedTheme } = useTheme();
   const isDarkMode = resolvedTheme === 'dark';
+  const { scoringModel } = useScoringModel();
 
   // Calculate scatter plot data points, separated by color based on total score
   const { greenPoints, bluePoints, grayPoints } = useMemo(() => {
@@ -47,7 +49,8 @@ export default function ScoreScatterPlot({
         item.scoreBoardData,
         thresholdData,
         benjaminGrahamData,
-        entryExitValues
+        entryExitValues,
+        scoringModel
       );
 
       const point: ScatterDataPoint = {
@@ -77,7 +80,7 @@ export default function ScoreScatterPlot({
     });
 
     return { greenPoints: green, bluePoints: blue, grayPoints: gray };
-  }, [data, thresholdData, benjaminGrahamData, entryExitValues]);
+  }, [data, thresholdData, benjaminGrahamData, entryExitValues, scoringModel]);
 
   // Custom tooltip
   const ScatterTooltip = ({ active, payload }: any) => {
@@ -3,10 +3,14 @@ import BaseTable, { ColumnDefinition } from './BaseTable';
 import { ScoreData } from './views/ScoreView';
 import { ScoreBoardData, IndustryThresholdData, BenjaminGrahamData } from '../types/stock';
 import { EntryExitValues } from '../contexts/EntryExitContext';
+import { useScoringModel } from '../contexts/ScoringModelContext';
 import { calculateDetailedScoreBreakdown } from '../utils/calculateScoreDetailed';
 import { FilterConfig, ShareableTableState } from '../types/filters';
 import { ChevronDownIcon } from '@heroicons/react/24/outline';
 import ScoreBreakdownRow from './ScoreBreakdownRow';
+import ScoreTimelineChart from './ScoreTimelineChart';
+import DataQualityFlag from './DataQualityFlag';
+import { useDataQualityFlags } from '../hooks/useDataQuality';
 import {
   isEntry1GreenForCell,
   isEntry2GreenForCell,
@@ -26,17 +30,24 @@ const MemoizedScoreBreakdownExpandedRow = memo(function MemoizedScoreBreakdownEx
   benjaminGrahamData: BenjaminGrahamData[];
   entryExitValues: Map<string, EntryExitValues>;
 }) {
+  const { scoringModel } = useScoringModel();
   const breakdown = useMemo(
     () =>
       calculateDetailedScoreBreakdown(
         scoreBoardData,
         thresholdData,
         benjaminGrahamData,
-        entryExitValues
+        entryExitValues,
+        scoringModel
       ),
-    [scoreBoardData, thresholdData, benjaminGrahamData, entryExitValues]
+    [scoreBoardData, thresholdData, benjaminGrahamData, entryExitValues, scoringModel]
+  );
+  return (
+    <>
+      <ScoreBreakdownRow breakdown={breakdown} />
+      <ScoreTimelineChart ticker={scoreBoardData.ticker} />
+    </>
   );
-  return <ScoreBreakdownRow breakdown={breakdown} />;
 });
 
 interface ScoreTableProps {
@@ -84,6 +95,8 @@ const SCORE_FILTERS: FilterConfig[] = [
 ];
 
 export default function ScoreTable({ data, loading, error, thresholdData = [], benjaminGrahamData = [], entryExitValues = new Map(), initialTableState }: ScoreTableProps) {
+  const dataQualityFlags = useDataQualityFlags();
+
   // Helper function to generate row key - must be used consistently everywhere.
   // Stable identifier (no index) so expanded state survives sort/filter changes.
   const generateRowKey = useCallback((item: ScoreData): string => {
@@ -130,7 +143,12 @@ export default function ScoreTable({ data, loading, error, thresholdData = [], b
       case 'companyName':
         return <span className="font-medium">{item.companyName}</span>;
       case 'ticker':
-        return <span className="text-gray-500 dark:text-gray-300">{item.ticker}</span>;
+        return (
+          <span className="text-gray-500 dark:text-gray-300">
+            {item.ticker}
+            <DataQualityFlag issues={dataQualityFlags.get(item.ticker.trim().toUpperCase())} />
+          </span>
+        );
       case 'currency':
         return <span className="text-black dark:text-white">{item.currency || 'USD'}</span>;
       case 'price':
@@ -157,14 +175,14 @@ export default function ScoreTable({ data, loading, error, thresholdData = [], b
       }
       case 'score':
         return (
-          <span className={getScoreColorClass(item.score)}>
+          <span className={getScoreColorClass(item.score)} title={`Modell v${item.scoreModelVersion}`}>
             {item.score.toFixed(1)}
           </span>
         );
       default:
         return null;
     }
-  }, [getScoreColorClass, generateRowKey]);
+  }, [getScoreColorClass, generateRowKey, dataQualityFlags]);
 
   const renderMobileCard = useCallback((item: ScoreData, index: number, globalIndex: number, isExpanded: boolean, toggleExpand: () => void) => {
     return (
@@ -186,7 +204,10 @@ export default function ScoreTable({ data, loading, error, thresholdData = [], b
           </div>
           <div className="flex items-center justify-between">
             <span className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Ticker</span>
-            <span className="text-sm text-gray-500 dark:text-gray-400">{item.ticker}</span>
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {item.ticker}
+              <DataQualityFlag issues={dataQualityFlags.get(item.ticker.trim().toUpperCase())} />
+            </span>
           </div>
           <div className="flex items-center justify-between">
             <span className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Currency</span>
@@ -219,7 +240,7 @@ export default function ScoreTable({ data, loading, error, thresholdData = [], b
         </div>
       </div>
     );
-  }, [getScoreColorClass]);
+  }, [getScoreColorClass, dataQualityFlags]);
 
   const renderExpandedRow = useCallback(
     (item: ScoreData) => (
@@ -259,6 +280,9 @@ export default function ScoreTable({ data, loading, error, thresholdData = [], b
       initialColumnFilters={initialTableState?.columnFilters}
       initialSearchValue={initialTableState?.searchValue}
       initialSortConfig={initialTableState?.sortConfig}
+      initialVisibleColumns={initialTableState?.visibleColumns}
+      enableShareLink
+      showTAChartButton
     />
   );
 }
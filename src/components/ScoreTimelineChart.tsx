@@ -0,0 +1,141 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
+import { useTheme } from '../contexts/ThemeContext';
+import { useScoringModel } from '../contexts/ScoringModelContext';
+import { useUniverse } from '../contexts/UniverseContext';
+import { DEFAULT_UNIVERSE_ID } from '../config/universes';
+import { loadScoreHistory } from '../services/scoreHistoryService';
+import type { ScoreSnapshot } from '../types/score';
+
+interface ScoreTimelineChartProps {
+  ticker: string;
+}
+
+const COLOR_CELL_CLASSES: Record<string, string> = {
+  GREEN: 'bg-green-500',
+  ORANGE: 'bg-orange-400',
+  RED: 'bg-red-500',
+  BLANK: 'bg-gray-200 dark:bg-gray-700',
+};
+
+export default function ScoreTimelineChart({ ticker }: ScoreTimelineChartProps) {
+  const { t } = useTranslation();
+  const { resolvedTheme } = useTheme();
+  const isDarkMode = resolvedTheme === 'dark';
+  const { scoringModel } = useScoringModel();
+  // Score snapshots are only taken for the default universe (dailyScoreSnapshot)
+  const hasHistory = useUniverse().activeUniverse.id === DEFAULT_UNIVERSE_ID;
+  const [history, setHistory] = useState<ScoreSnapshot[]>([]);
+  const [loading, setLoading] = useState(hasHistory);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    if (!hasHistory) return;
+    let isMounted = true;
+    loadScoreHistory(ticker)
+      .then((rows) => {
+        if (isMounted) setHistory(rows);
+      })
+      .catch(() => {
+        if (isMounted) setError(true);
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [ticker, hasHistory]);
+
+  // Metric rows follow the active model order; labels come from the model
+  const metricRows = useMemo(
+    () => scoringModel.metrics.filter((m) => history.some((h) => h.colors[m.id] !== undefined)),
+    [scoringModel.metrics, history]
+  );
+
+  const tickColor = isDarkMode ? '#e5e7eb' : '#374151';
+
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-900/50 border-t border-gray-200 dark:border-gray-700">
+      <h4 className="text-sm font-semibold text-black dark:text-white mb-3">
+        {t('scoreHistory.title', 'Poänghistorik')}
+      </h4>
+
+      {loading && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">{t('scoreHistory.loading', 'Laddar historik…')}</p>
+      )}
+      {!loading && error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{t('scoreHistory.loadError', 'Kunde inte ladda historik')}</p>
+      )}
+      {!hasHistory && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {t('scoreHistory.defaultUniverseOnly', 'Poänghistorik sparas bara för standardlistan.')}
+        </p>
+      )}
+      {hasHistory && !loading && !error && history.length === 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {t('scoreHistory.empty', 'Ingen historik ännu – ögonblicksbilder sparas dagligen.')}
+        </p>
+      )}
+
+      {!loading && !error && history.length > 0 && (
+        <>
+          <ResponsiveContainer width="100%" height={180}>
+            <LineChart data={history} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? '#374151' : '#e5e7eb'} />
+              <XAxis dataKey="date" tick={{ fill: tickColor, fontSize: 11 }} minTickGap={24} />
+              <YAxis domain={[0, 100]} tick={{ fill: tickColor, fontSize: 11 }} width={32} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: isDarkMode ? '#1f2937' : '#ffffff',
+                  borderColor: isDarkMode ? '#374151' : '#e5e7eb',
+                  fontSize: 12,
+                }}
+                formatter={(value: number, _name, item) => [
+                  `${value.toFixed(1)} (${t('scoringModel.modelVersion', {
+                    version: (item.payload as ScoreSnapshot).modelVersion,
+                    defaultValue: `Modell v${(item.payload as ScoreSnapshot).modelVersion}`,
+                  })})`,
+                  'Score',
+                ]}
+              />
+              <Line
+                type="monotone"
+                dataKey="score"
+                stroke={isDarkMode ? '#93c5fd' : '#2563eb'}
+                strokeWidth={2}
+                dot={history.length <= 31}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+
+          {/* Per-metric color strips: one cell per snapshot day */}
+          <div className="mt-3 space-y-1" role="table" aria-label={t('scoreHistory.metricColors', 'Färg per mått')}>
+            {metricRows.map((metric) => (
+              <div key={metric.id} className="flex items-center gap-2" role="row">
+                <span className="w-32 flex-shrink-0 truncate text-[10px] text-gray-600 dark:text-gray-400" role="rowheader">
+                  {metric.label}
+                </span>
+                <div className="flex flex-1 gap-px min-w-0">
+                  {history.map((snapshot) => {
+                    const color = snapshot.colors[metric.id] ?? 'BLANK';
+                    return (
+                      <span
+                        key={snapshot.date}
+                        role="cell"
+                        title={`${snapshot.date}: ${color}`}
+                        className={`h-3 flex-1 min-w-[2px] ${COLOR_CELL_CLASSES[color]}`}
+                      />
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useScoringModel } from '../contexts/ScoringModelContext';
+import { useToast } from '../contexts/ToastContext';
+import { DEFAULT_SCORING_MODEL } from '../config/scoringModel';
+import { validateScoringModel, getCategoryMaxPoints, getTotalWeight } from '../utils/scoringModel';
+import { logger } from '../utils/logger';
+import type { ScoreColorFactors, ScoreMetricConfig, ScoreMetricMethod } from '../types/score';
+
+interface ScoringModelModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const COLOR_KEYS: Array<keyof ScoreColorFactors> = ['GREEN', 'ORANGE', 'RED', 'BLANK'];
+
+const inputClass =
+  'w-full px-2 py-1 border border-gray-300 dark:border-gray-500 rounded-md bg-white dark:bg-gray-700 text-black dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function ScoringModelModal({ isOpen, onClose }: ScoringModelModalProps) {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const { scoringModel, saveScoringModel } = useScoringModel();
+  const [metrics, setMetrics] = useState<ScoreMetricConfig[]>([]);
+  const [colorFactors, setColorFactors] = useState<ScoreColorFactors>(DEFAULT_SCORING_MODEL.colorFactors);
+  const [saving, setSaving] = useState(false);
+
+  // Reset draft from the active model each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setMetrics(scoringModel.metrics.map((m) => ({ ...m })));
+      setColorFactors({ ...scoringModel.colorFactors });
+    }
+  }, [isOpen, scoringModel]);
+
+  const draft = useMemo(
+    () => ({ ...scoringModel, metrics, colorFactors }),
+    [scoringModel, metrics, colorFactors]
+  );
+  const errors = useMemo(() => validateScoringModel(draft), [draft]);
+
+  const updateMetric = (id: ScoreMetricConfig['id'], patch: Partial<ScoreMetricConfig>) => {
+    setMetrics((prev) => prev.map((m) => (m.id === id ? { ...m, ...patch } : m)));
+  };
+
+  const handleResetToDefault = () => {
+    setMetrics(DEFAULT_SCORING_MODEL.metrics.map((m) => ({ ...m })));
+    setColorFactors({ ...DEFAULT_SCORING_MODEL.colorFactors });
+  };
+
+  const handleSave = async () => {
+    if (errors.length > 0) return;
+    setSaving(true);
+    try {
+      const saved = await saveScoringModel({ metrics, colorFactors });
+      showToast(t('scoringModel.saved', { version: saved.version, defaultValue: `Poängmodell v${saved.version} sparad` }), 'success');
+      onClose();
+    } catch (error: unknown) {
+      logger.error('Error saving scoring model', error, { component: 'ScoringModelModal', operation: 'save' });
+      showToast(t('scoringModel.saveError', 'Kunde inte spara poängmodellen'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="scoring-model-title"
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-3xl w-full mx-4 shadow-xl max-h-[90vh] overflow-y-auto">
+        <h2 id="scoring-model-title" className="text-xl font-semibold mb-1 text-black dark:text-white">
+          {t('scoringModel.title', 'Poängmodell')}
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          {t('scoringModel.activeVersion', {
+            version: scoringModel.version,
+            defaultValue: `Aktiv version: v${scoringModel.version}`,
+          })}
+          {scoringModel.updatedAt && ` · ${scoringModel.updatedAt.toLocaleString()}`}
+        </p>
+
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-gray-600 dark:text-gray-400">
+              <th className="py-1 pr-2">{t('scoringModel.metric', 'Mått')}</th>
+              <th className="py-1 pr-2">{t('scoringModel.category', 'Kategori')}</th>
+              <th className="py-1 pr-2 w-24">{t('scoringModel.weight', 'Vikt')}</th>
+              <th className="py-1 pr-2 w-32">{t('scoringModel.method', 'Metod')}</th>
+              <th className="py-1 w-16 text-center">{t('scoringModel.enabled', 'Aktiv')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {metrics.map((metric) => (
+              <tr key={metric.id} className="border-t border-gray-200 dark:border-gray-700">
+                <td className="py-1 pr-2 text-black dark:text-white">{metric.label}</td>
+                <td className="py-1 pr-2 text-gray-600 dark:text-gray-400">{metric.category}</td>
+                <td className="py-1 pr-2">
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={metric.weight}
+                    onChange={(e) => updateMetric(metric.id, { weight: parseFloat(e.target.value) || 0 })}
+                    className={inputClass}
+                    aria-label={`${metric.label} ${t('scoringModel.weight', 'Vikt')}`}
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  <select
+                    value={metric.method}
+                    onChange={(e) => updateMetric(metric.id, { method: e.target.value as ScoreMetricMethod })}
+                    className={inputClass}
+                    aria-label={`${metric.label} ${t('scoringModel.method', 'Metod')}`}
+                  >
+                    <option value="3Band">3Band</option>
+                    <option value="GreenOnly">GreenOnly</option>
+                  </select>
+                </td>
+                <td className="py-1 text-center">
+                  <input
+                    type="checkbox"
+                    checked={metric.enabled}
+                    onChange={(e) => updateMetric(metric.id, { enabled: e.target.checked })}
+                    aria-label={`${metric.label} ${t('scoringModel.enabled', 'Aktiv')}`}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <p className="text-xs text-gray-600 dark:text-gray-400 mb-4">
+          {t('scoringModel.totals', {
+            fundamental: getCategoryMaxPoints(draft, 'Fundamental'),
+            technical: getCategoryMaxPoints(draft, 'Technical'),
+            total: getTotalWeight(draft),
+            defaultValue: `Fundamental ${getCategoryMaxPoints(draft, 'Fundamental')}p · Teknisk ${getCategoryMaxPoints(draft, 'Technical')}p · Totalt ${getTotalWeight(draft)}p (skalas till 0–100)`,
+          })}
+        </p>
+
+        <h3 className="text-sm font-semibold text-black dark:text-white mb-2">
+          {t('scoringModel.colorFactors', 'Färgfaktorer (3Band)')}
+        </h3>
+        <div className="grid grid-cols-4 gap-3 mb-4">
+          {COLOR_KEYS.map((color) => (
+            <div key={color}>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">{color}</label>
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={colorFactors[color]}
+                onChange={(e) =>
+                  setColorFactors((prev) => ({ ...prev, [color]: parseFloat(e.target.value) || 0 }))
+                }
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="text-sm text-red-600 dark:text-red-400 mb-4 list-disc pl-5" role="alert">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-between gap-2 mt-6">
+          <button
+            onClick={handleResetToDefault}
+            disabled={saving}
+            className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors min-h-[44px] touch-manipulation disabled:opacity-50"
+          >
+            {t('scoringModel.resetToDefault', 'Återställ standard')}
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving || errors.length > 0}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-md transition-colors min-h-[44px] touch-manipulation"
+            >
+              {saving ? t('scoringModel.saving', 'Sparar…') : t('scoringModel.saveNewVersion', 'Spara ny version')}
+            </button>
+            <button
+              onClick={onClose}
+              disabled={saving}
+              className="px-4 py-2 bg-gray-300 dark:bg-gray-600 hover:bg-gray-400 dark:hover:bg-gray-500 text-black dark:text-white rounded-md transition-colors min-h-[44px] touch-manipulation disabled:opacity-50"
+            >
+              {t('common.close', 'Stäng')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
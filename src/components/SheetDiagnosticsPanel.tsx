@@ -0,0 +1,152 @@
+import { useTranslation } from 'react-i18next';
+import { DEFAULT_UNIVERSE_ID } from '../config/universes';
+import { getColumnStatus, getReportStatus, type SheetDiagnosticsStatus } from '../utils/sheetDiagnostics';
+import type { SheetDiagnosticsReport } from '../types/sheetDiagnostics';
+
+const STATUS_CLASSES: Record<SheetDiagnosticsStatus, string> = {
+  ok: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  warning: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+  error: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+};
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toLocaleString(undefined, { maximumFractionDigits: 1 })} %`;
+}
+
+interface SheetDiagnosticsPanelProps {
+  reports: SheetDiagnosticsReport[];
+}
+
+/**
+ * Column-mapping diagnostics per fetched sheet: missing required columns, headers no field reads, and per
+ * field the header it is read from and its parse-failure rate.
+ */
+export default function SheetDiagnosticsPanel({ reports }: SheetDiagnosticsPanelProps) {
+  const { t } = useTranslation();
+
+  const statusLabel = (status: SheetDiagnosticsStatus) =>
+    status === 'ok'
+      ? t('sheetDiagnostics.status.ok', 'OK')
+      : status === 'warning'
+        ? t('sheetDiagnostics.status.warning', 'Varning')
+        : t('sheetDiagnostics.status.error', 'Fel');
+
+  const columns = [
+    t('sheetDiagnostics.columns.field', 'Fält'),
+    t('sheetDiagnostics.columns.header', 'Kolumn i arket'),
+    t('sheetDiagnostics.columns.type', 'Typ'),
+    t('sheetDiagnostics.columns.filled', 'Ifyllda'),
+    t('sheetDiagnostics.columns.failures', 'Tolkningsfel'),
+    t('sheetDiagnostics.columns.failureRate', 'Felandel'),
+    t('sheetDiagnostics.columns.status', 'Status'),
+  ];
+
+  if (reports.length === 0) {
+    return (
+      <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {t('sheetDiagnostics.empty', 'Inga rapporter ännu. Rapporter skapas när ett ark hämtas eller när servern uppdaterar data.')}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {reports.map((report) => {
+        const reportStatus = getReportStatus(report);
+        return (
+          <section
+            key={`${report.source}-${report.universeId}-${report.schemaId}`}
+            className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600"
+          >
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              <h2 className="text-base font-semibold text-black dark:text-white">{report.sheetName}</h2>
+              <span className={`px-2 py-0.5 text-xs font-semibold rounded ${STATUS_CLASSES[reportStatus]}`}>
+                {statusLabel(reportStatus)}
+              </span>
+              <span className="px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                {report.source === 'session'
+                  ? t('sheetDiagnostics.source.session', 'Den här sessionen')
+                  : t('sheetDiagnostics.source.server', 'Serveruppdatering')}
+              </span>
+              {report.universeId !== DEFAULT_UNIVERSE_ID && (
+                <span className="px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                  {report.universeId}
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              {t('sheetDiagnostics.summary', {
+                rows: report.rowCount,
+                time: report.generatedAt ? new Date(report.generatedAt).toLocaleString('sv-SE') : '–',
+                defaultValue: '{{rows}} rader, hämtat {{time}}',
+              })}
+            </p>
+
+            {report.missingRequired.length > 0 && (
+              <p className="mb-2 text-sm text-red-600 dark:text-red-400">
+                {t('sheetDiagnostics.missingRequired', {
+                  fields: report.missingRequired.join(', '),
+                  defaultValue: 'Obligatoriska kolumner saknas: {{fields}}',
+                })}
+              </p>
+            )}
+            {report.unmappedHeaders.length > 0 && (
+              <details className="mb-3 text-sm text-gray-700 dark:text-gray-300">
+                <summary className="cursor-pointer">
+                  {t('sheetDiagnostics.unmappedHeaders', {
+                    count: report.unmappedHeaders.length,
+                    defaultValue: '{{count}} kolumner används inte',
+                  })}
+                </summary>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 break-words">{report.unmappedHeaders.join(', ')}</p>
+              </details>
+            )}
+
+            <div className="overflow-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-900">
+                  <tr>
+                    {columns.map((label) => (
+                      <th
+                        key={label}
+                        scope="col"
+                        className="px-3 py-2 text-left text-xs font-bold text-gray-700 dark:text-gray-200 uppercase tracking-wider"
+                      >
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {report.columns.map((column) => {
+                    const status = getColumnStatus(column);
+                    return (
+                      <tr key={column.field}>
+                        <td className="px-3 py-2 text-black dark:text-white">
+                          {column.field}
+                          {column.required && <span className="text-red-600 dark:text-red-400"> *</span>}
+                        </td>
+                        <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{column.header ?? '–'}</td>
+                        <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{column.type}</td>
+                        <td className="px-3 py-2 tabular-nums text-gray-700 dark:text-gray-300">{column.filled}</td>
+                        <td className="px-3 py-2 tabular-nums text-gray-700 dark:text-gray-300">{column.parseFailures}</td>
+                        <td className="px-3 py-2 tabular-nums text-gray-700 dark:text-gray-300">{formatRate(column.parseFailureRate)}</td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 py-0.5 text-xs font-semibold rounded ${STATUS_CLASSES[status]}`}>
+                            {statusLabel(status)}
+                          </span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
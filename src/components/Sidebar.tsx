@@ -16,6 +16,16 @@ import {
   UserIcon,
   ArrowTrendingUpIcon,
   PresentationChartLineIcon,
+  PresentationChartBarIcon,
+  ScaleIcon,
+  BanknotesIcon,
+  ArrowDownCircleIcon,
+  ArrowUpCircleIcon,
+  ReceiptPercentIcon,
+  CurrencyDollarIcon,
+  ShieldCheckIcon,
+  ClipboardDocumentListIcon,
+  HeartIcon,
 } from '@heroicons/react/24/outline';
 
 interface SidebarProps {
@@ -54,10 +64,23 @@ const getAllNavigationSections = (t: (key: string) => string): NavigationSection
     items: [{ id: 'sma', label: t('navigation.sma') }],
     collapsible: false,
   },
+  {
+    id: 'teknikal-tachart',
+    label: t('navigation.tachart'),
+    items: [{ id: 'teknikal-tachart', label: t('navigation.tachart') }],
+    collapsible: false,
+  },
   {
     id: 'entry-exit-benjamin-graham',
     label: t('navigation.benjaminGraham'),
-    items: [{ id: 'entry-exit-benjamin-graham', label: t('navigation.benjaminGraham') }],
+    items: [
+      { id: 'entry-exit-benjamin-graham', label: t('navigation.benjaminGraham') },
+      { id: 'entry-exit-entry2', label: t('navigation.entry2') },
+      { id: 'entry-exit-exit1', label: t('navigation.exit1') },
+      { id: 'entry-exit-exit2', label: t('navigation.exit2') },
+      { id: 'entry-exit-irr1', label: t('navigation.irr1') },
+      { id: 'entry-exit-iv-fcf', label: t('navigation.ivFcf') },
+    ],
     collapsible: false,
   },
   {
@@ -66,6 +89,18 @@ const getAllNavigationSections = (t: (key: string) => string): NavigationSection
     items: [{ id: 'fundamental-pe-industry', label: t('navigation.peIndustry') }],
     collapsible: false,
   },
+  {
+    id: 'fundamental-current-ratio',
+    label: t('navigation.currentRatio'),
+    items: [{ id: 'fundamental-current-ratio', label: t('navigation.currentRatio') }],
+    collapsible: false,
+  },
+  {
+    id: 'fundamental-cash-sdebt',
+    label: t('navigation.cashSdebt'),
+    items: [{ id: 'fundamental-cash-sdebt', label: t('navigation.cashSdebt') }],
+    collapsible: false,
+  },
   {
     id: 'industry-threshold',
     label: t('navigation.industryThreshold'),
@@ -78,6 +113,24 @@ const getAllNavigationSections = (t: (key: string) => string): NavigationSection
     items: [{ id: 'management-monitoring', label: t('navigation.managementMonitoring') }],
     collapsible: false,
   },
+  {
+    id: 'admin-users',
+    label: t('navigation.adminUsers'),
+    items: [{ id: 'admin-users', label: t('navigation.adminUsers') }],
+    collapsible: false,
+  },
+  {
+    id: 'admin-audit',
+    label: t('navigation.adminAudit'),
+    items: [{ id: 'admin-audit', label: t('navigation.adminAudit') }],
+    collapsible: false,
+  },
+  {
+    id: 'admin-data-health',
+    label: t('navigation.adminDataHealth'),
+    items: [{ id: 'admin-data-health', label: t('navigation.adminDataHealth') }],
+    collapsible: false,
+  },
 ];
 
 // Icon mapping for each view
@@ -91,14 +144,35 @@ const getViewIcon = (viewId: ViewId) => {
       return PresentationChartLineIcon;
     case 'sma':
       return ArrowTrendingUpIcon;
+    case 'teknikal-tachart':
+      return PresentationChartBarIcon;
     case 'entry-exit-benjamin-graham':
       return CursorArrowRaysIcon;
+    case 'entry-exit-entry2':
+      return ArrowDownCircleIcon;
+    case 'entry-exit-exit1':
+    case 'entry-exit-exit2':
+      return ArrowUpCircleIcon;
+    case 'entry-exit-irr1':
+      return ReceiptPercentIcon;
+    case 'entry-exit-iv-fcf':
+      return CurrencyDollarIcon;
     case 'fundamental-pe-industry':
       return ChartPieIcon;
+    case 'fundamental-current-ratio':
+      return ScaleIcon;
+    case 'fundamental-cash-sdebt':
+      return BanknotesIcon;
     case 'industry-threshold':
       return BuildingOfficeIcon;
     case 'management-monitoring':
       return UserGroupIcon;
+    case 'admin-users':
+      return ShieldCheckIcon;
+    case 'admin-audit':
+      return ClipboardDocumentListIcon;
+    case 'admin-data-health':
+      return HeartIcon;
     default:
       return null;
   }
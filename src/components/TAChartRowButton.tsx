@@ -0,0 +1,30 @@
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { PresentationChartLineIcon } from '@heroicons/react/24/outline';
+import { useUserRole } from '../hooks/useUserRole';
+
+/** Row action in BaseTable: opens the TAChart view for the row's ticker (shown on row hover/focus) */
+export default function TAChartRowButton({ ticker }: { ticker: string }) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { canView } = useUserRole();
+
+  if (!ticker.trim() || !canView('teknikal-tachart')) return null;
+
+  const label = t('taChart.openForTicker', { ticker, defaultValue: `Öppna TAChart för ${ticker}` });
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        navigate(`/teknikal-tachart?ticker=${encodeURIComponent(ticker.trim().toUpperCase())}`);
+      }}
+      onKeyDown={(e) => e.stopPropagation()}
+      className="ml-1 inline-flex align-middle p-0.5 rounded text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+      title={label}
+      aria-label={label}
+    >
+      <PresentationChartLineIcon className="h-4 w-4" aria-hidden="true" />
+    </button>
+  );
+}
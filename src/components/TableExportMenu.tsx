@@ -0,0 +1,94 @@
+import { useState, useRef, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { useToast } from '../contexts/ToastContext';
+import type { TableExportFormat } from '../utils/tableExport';
+
+interface TableExportMenuProps {
+  onExport: (format: TableExportFormat) => void;
+  /** Number of rows that will be exported (filtered rows, all pages) */
+  rowCount: number;
+}
+
+const FORMATS: { format: TableExportFormat; labelKey: string; fallback: string }[] = [
+  { format: 'csv', labelKey: 'tableExport.csv', fallback: 'CSV' },
+  { format: 'xlsx', labelKey: 'tableExport.xlsx', fallback: 'Excel (XLSX)' },
+  { format: 'pdf', labelKey: 'tableExport.pdf', fallback: 'PDF (utskrift)' },
+];
+
+export default function TableExportMenu({ onExport, rowCount }: TableExportMenuProps) {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const handleExport = (format: TableExportFormat) => {
+    setIsOpen(false);
+    try {
+      onExport(format);
+    } catch {
+      showToast(
+        format === 'pdf'
+          ? t('tableExport.popupBlocked', 'Kunde inte öppna utskriftsfönstret. Tillåt popup-fönster och försök igen.')
+          : t('tableExport.error', 'Export misslyckades'),
+        'error'
+      );
+    }
+  };
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={rowCount === 0}
+        className="px-3 sm:px-3 py-3 sm:py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-500 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200 hover:shadow-md active:scale-95 flex items-center space-x-2 min-h-[44px] touch-manipulation disabled:opacity-50 disabled:cursor-not-allowed"
+        title={t('tableExport.title', 'Exportera tabell')}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <ArrowDownTrayIcon className="w-4 h-4" />
+        <span>{t('tableExport.button', 'Exportera')}</span>
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-2 w-56 bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-500 z-50 animate-fade-in-up"
+          role="menu"
+        >
+          <p className="px-3 pt-3 pb-2 text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-500">
+            {t('tableExport.rowCount', { count: rowCount, defaultValue: `${rowCount} rader, synliga kolumner` })}
+          </p>
+          <div className="p-1">
+            {FORMATS.map(({ format, labelKey, fallback }) => (
+              <button
+                key={format}
+                role="menuitem"
+                onClick={() => handleExport(format)}
+                className="w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-300 rounded hover:bg-gray-50 dark:hover:bg-gray-700 min-h-[44px] sm:min-h-0 touch-manipulation"
+              >
+                {t(labelKey, fallback)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
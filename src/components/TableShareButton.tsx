@@ -0,0 +1,32 @@
+import { useTranslation } from 'react-i18next';
+import { LinkIcon } from '@heroicons/react/24/outline';
+import { useToast } from '../contexts/ToastContext';
+
+interface TableShareButtonProps {
+  getShareUrl: () => string;
+}
+
+export default function TableShareButton({ getShareUrl }: TableShareButtonProps) {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl());
+      showToast(t('shareLink.copied', 'Länk kopierad – filter, sortering och kolumner följer med'), 'success');
+    } catch {
+      showToast(t('shareLink.copyError', 'Kunde inte kopiera länken'), 'error');
+    }
+  };
+
+  return (
+    <button
+      onClick={handleCopy}
+      className="px-3 sm:px-3 py-3 sm:py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-500 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200 hover:shadow-md active:scale-95 flex items-center space-x-2 min-h-[44px] touch-manipulation"
+      title={t('shareLink.title', 'Kopiera länk till den här vyn med aktuella filter')}
+    >
+      <LinkIcon className="w-4 h-4" />
+      <span>{t('shareLink.button', 'Kopiera länk')}</span>
+    </button>
+  );
+}
@@ -0,0 +1,216 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useThresholdValues } from '../contexts/ThresholdContext';
+import { useScoreBoardData } from '../hooks/useScoreBoardData';
+import { DEFAULT_SUGGESTION_PERCENTILES, MIN_SUGGESTION_SAMPLE_SIZE, SUGGESTION_PERCENTILE_OPTIONS } from '../config/thresholdSuggestions';
+import { suggestIndustryThresholds, THRESHOLD_METRIC_FIELDS } from '../utils/thresholdSuggestions';
+import type { IndustryThresholdData } from '../types/stock';
+import type { IndustryThresholdSuggestion, ThresholdField, ThresholdMetric } from '../types/thresholdSuggestion';
+
+const buttonClass =
+  'px-2 py-1 text-xs font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation';
+
+const inputClass =
+  'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-black dark:text-white';
+
+const thClass = 'px-3 py-2 text-left text-xs font-bold text-gray-700 dark:text-gray-200 uppercase tracking-wider';
+
+const METRIC_LABELS: Record<ThresholdMetric, string> = {
+  leverageF2: 'Leverage F2',
+  cashSdebt: 'Cash/SDebt',
+  currentRatio: 'Current Ratio',
+};
+
+interface ThresholdSuggestionsPanelProps {
+  /** Threshold rows of the view, with aliases; current values are read from ThresholdContext */
+  thresholdData: IndustryThresholdData[];
+}
+
+/**
+ * Auto-suggest mode of the industry threshold view (admin only): percentile bands per industry from the Score
+ * Board population next to the current values, with the number of stocks that would change color. Accepted
+ * values are written through ThresholdContext like manual edits.
+ */
+export default function ThresholdSuggestionsPanel({ thresholdData }: ThresholdSuggestionsPanelProps) {
+  const { t } = useTranslation();
+  const { data: scoreBoardRows, loading, error } = useScoreBoardData();
+  const { getFieldValue, setFieldValue, commitFields, thresholdValues } = useThresholdValues();
+  const [percentileIndex, setPercentileIndex] = useState(() =>
+    SUGGESTION_PERCENTILE_OPTIONS.findIndex(
+      (option) =>
+        option.lower === DEFAULT_SUGGESTION_PERCENTILES.lower && option.upper === DEFAULT_SUGGESTION_PERCENTILES.upper
+    )
+  );
+  const pendingCommitsRef = useRef<Array<{ industryKey: string; field: ThresholdField }>>([]);
+  const percentiles = SUGGESTION_PERCENTILE_OPTIONS[percentileIndex] ?? DEFAULT_SUGGESTION_PERCENTILES;
+
+  // commitFields reads the draft of the render it was created in: accepted values are committed once the
+  // draft holding them has rendered, one write per industry so the fields do not overwrite each other
+  useEffect(() => {
+    if (pendingCommitsRef.current.length === 0) return;
+    const fieldsPerIndustry = new Map<string, ThresholdField[]>();
+    pendingCommitsRef.current.forEach(({ industryKey, field }) =>
+      fieldsPerIndustry.set(industryKey, [...(fieldsPerIndustry.get(industryKey) ?? []), field])
+    );
+    pendingCommitsRef.current = [];
+    fieldsPerIndustry.forEach((fields, industryKey) => void commitFields(industryKey, fields));
+  }, [commitFields]);
+
+  const currentThresholds = useMemo(
+    () => thresholdData.map((row) => ({ ...row, ...thresholdValues.get(row.industryKey) })),
+    [thresholdData, thresholdValues]
+  );
+
+  const suggestions = useMemo(
+    () => suggestIndustryThresholds(scoreBoardRows, currentThresholds, percentiles),
+    [scoreBoardRows, currentThresholds, percentiles]
+  );
+
+  const accept = (industryKey: string, values: Partial<Record<ThresholdField, number>>) => {
+    (Object.entries(values) as Array<[ThresholdField, number]>).forEach(([field, value]) => {
+      if (getFieldValue(industryKey, field) === value) return;
+      setFieldValue(industryKey, field, value);
+      pendingCommitsRef.current.push({ industryKey, field });
+    });
+  };
+
+  const pendingFields = (suggestion: IndustryThresholdSuggestion) =>
+    (Object.entries(suggestion.suggested) as Array<[ThresholdField, number]>).filter(
+      ([field, value]) => getFieldValue(suggestion.industryKey, field) !== value
+    );
+
+  const renderField = (suggestion: IndustryThresholdSuggestion, field: ThresholdField, label: string) => {
+    const suggested = suggestion.suggested[field];
+    const current = getFieldValue(suggestion.industryKey, field);
+    return (
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-gray-500 dark:text-gray-400">{label}</span>
+        <span className="text-black dark:text-white">
+          {current}
+          {suggested !== undefined && suggested !== current && (
+            <>
+              {' → '}
+              <span className="font-semibold text-blue-700 dark:text-blue-300">{suggested}</span>
+            </>
+          )}
+        </span>
+        {suggested !== undefined && suggested !== current && (
+          <button
+            type="button"
+            className={buttonClass}
+            onClick={() => accept(suggestion.industryKey, { [field]: suggested })}
+            title={t('thresholdSuggestions.acceptField', 'Acceptera förslaget')}
+          >
+            {t('thresholdSuggestions.colorChanges', {
+              count: suggestion.fieldChanges[field] ?? 0,
+              defaultValue: '✓ {{count}} byter färg',
+            })}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <section className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600 mb-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h2 className="text-sm font-semibold text-black dark:text-white">
+          {t('thresholdSuggestions.title', 'Förslag från Score Board')}
+        </h2>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          {t('thresholdSuggestions.percentiles', 'Percentiler')}
+          <select
+            className={inputClass}
+            value={percentileIndex}
+            onChange={(e) => setPercentileIndex(Number(e.target.value))}
+          >
+            {SUGGESTION_PERCENTILE_OPTIONS.map((option, index) => (
+              <option key={`${option.lower}-${option.upper}`} value={index}>
+                P{option.lower}/P{option.upper}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        {t('thresholdSuggestions.description', {
+          lower: percentiles.lower,
+          upper: percentiles.upper,
+          minSample: MIN_SUGGESTION_SAMPLE_SIZE,
+          defaultValue:
+            'MIN föreslås som P{{lower}} och MAX som P{{upper}} av branschens värden. Branscher med färre än {{minSample}} värden per nyckeltal får inget förslag.',
+        })}
+      </p>
+
+      {error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : loading && scoreBoardRows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('thresholdSuggestions.loading', 'Laddar Score Board…')}</p>
+      ) : suggestions.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {t('thresholdSuggestions.empty', 'Inga Score Board-rader matchar en bransch.')}
+        </p>
+      ) : (
+        <div className="overflow-auto max-h-[50vh]">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900 sticky top-0">
+              <tr>
+                <th scope="col" className={thClass}>{t('thresholdSuggestions.columns.industry', 'Bransch')}</th>
+                <th scope="col" className={thClass}>{t('thresholdSuggestions.columns.stocks', 'Aktier')}</th>
+                {(Object.keys(THRESHOLD_METRIC_FIELDS) as ThresholdMetric[]).map((metric) => (
+                  <th key={metric} scope="col" className={thClass}>
+                    {METRIC_LABELS[metric]}
+                  </th>
+                ))}
+                <th scope="col" className={thClass}>{t('thresholdSuggestions.columns.industryAccept', 'Hela branschen')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {suggestions.map((suggestion) => {
+                const pending = pendingFields(suggestion);
+                return (
+                  <tr key={suggestion.industryKey} className="align-top">
+                    <td className="px-3 py-2 font-medium text-black dark:text-white">{suggestion.industry}</td>
+                    <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{suggestion.stockCount}</td>
+                    {(Object.entries(THRESHOLD_METRIC_FIELDS) as Array<[ThresholdMetric, { min: ThresholdField; max: ThresholdField }]>).map(
+                      ([metric, fields]) => (
+                        <td key={metric} className="px-3 py-2 min-w-[14rem]">
+                          {suggestion.suggested[fields.min] === undefined ? (
+                            <span className="text-xs text-gray-500 dark:text-gray-400">
+                              {t('thresholdSuggestions.tooFewValues', {
+                                count: suggestion.sampleSizes[metric],
+                                defaultValue: 'För få värden ({{count}})',
+                              })}
+                            </span>
+                          ) : (
+                            <div className="flex flex-col gap-1">
+                              {renderField(suggestion, fields.min, 'MIN')}
+                              {renderField(suggestion, fields.max, 'MAX')}
+                            </div>
+                          )}
+                        </td>
+                      )
+                    )}
+                    <td className="px-3 py-2">
+                      <button
+                        type="button"
+                        className={buttonClass}
+                        disabled={pending.length === 0}
+                        onClick={() => accept(suggestion.industryKey, Object.fromEntries(pending))}
+                      >
+                        {t('thresholdSuggestions.acceptIndustry', {
+                          count: suggestion.industryChanges,
+                          defaultValue: 'Acceptera alla ({{count}} byter färg)',
+                        })}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
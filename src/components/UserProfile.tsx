@@ -12,6 +12,8 @@ import {
   updateNotificationPreferences,
   NotificationPreferences,
   DEFAULT_NOTIFICATION_PREFERENCES,
+  DEFAULT_DO_NOT_DISTURB_START,
+  DEFAULT_DO_NOT_DISTURB_END,
 } from '../services/userPreferencesService';
 import Checkbox from './ui/Checkbox';
 
@@ -222,6 +224,16 @@ export default function UserProfile({ onClose }: UserProfileProps) {
                         disabled={savingPrefs}
                       />
                     </div>
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                        {t('profile.priceAlerts', 'Prisalarm')}
+                      </label>
+                      <Checkbox
+                        checked={notificationPrefs.priceAlerts}
+                        onChange={(e) => handleNotificationPrefChange('priceAlerts', e.target.checked)}
+                        disabled={savingPrefs}
+                      />
+                    </div>
                     <div className="flex items-center justify-between">
                       <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
                         {t('profile.errors', 'Errors')}
@@ -280,6 +292,31 @@ export default function UserProfile({ onClose }: UserProfileProps) {
                       disabled={savingPrefs}
                     />
                   </div>
+
+                  {notificationPrefs.doNotDisturb && (
+                    <div className="flex items-center gap-3 pl-4">
+                      <label className="text-sm text-gray-700 dark:text-gray-300">
+                        {t('profile.doNotDisturbFrom', 'Från')}
+                        <input
+                          type="time"
+                          className="ml-2 px-2 py-1 border border-gray-300 dark:border-gray-500 rounded-md bg-white dark:bg-gray-700 text-black dark:text-white text-sm"
+                          value={notificationPrefs.doNotDisturbStart ?? DEFAULT_DO_NOT_DISTURB_START}
+                          onChange={(e) => e.target.value && handleNotificationPrefChange('doNotDisturbStart', e.target.value)}
+                          disabled={savingPrefs}
+                        />
+                      </label>
+                      <label className="text-sm text-gray-700 dark:text-gray-300">
+                        {t('profile.doNotDisturbTo', 'Till')}
+                        <input
+                          type="time"
+                          className="ml-2 px-2 py-1 border border-gray-300 dark:border-gray-500 rounded-md bg-white dark:bg-gray-700 text-black dark:text-white text-sm"
+                          value={notificationPrefs.doNotDisturbEnd ?? DEFAULT_DO_NOT_DISTURB_END}
+                          onChange={(e) => e.target.value && handleNotificationPrefChange('doNotDisturbEnd', e.target.value)}
+                          disabled={savingPrefs}
+                        />
+                      </label>
+                    </div>
+                  )}
                 </>
               )}
             </div>
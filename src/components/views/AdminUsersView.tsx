@@ -0,0 +1,274 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useManagedUsers } from '../../hooks/useManagedUsers';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { GRANTABLE_VIEW_IDS } from '../../config/viewAccess';
+import type { ViewId } from '../../types/navigation';
+import type { ManagedUser } from '../../types/userAdmin';
+import ProgressIndicator from '../ProgressIndicator';
+
+const VIEW_LABEL_KEYS: Partial<Record<ViewId, string>> = {
+  'score-board': 'navigation.scoreBoard',
+  'ism-posture-positioning': 'navigation.ismPosturePositioning',
+  'sma': 'navigation.sma',
+  'teknikal-tachart': 'navigation.tachart',
+  'entry-exit-benjamin-graham': 'navigation.benjaminGraham',
+  'entry-exit-entry2': 'navigation.entry2',
+  'entry-exit-exit1': 'navigation.exit1',
+  'entry-exit-exit2': 'navigation.exit2',
+  'entry-exit-irr1': 'navigation.irr1',
+  'entry-exit-iv-fcf': 'navigation.ivFcf',
+  'fundamental-pe-industry': 'navigation.peIndustry',
+  'fundamental-current-ratio': 'navigation.currentRatio',
+  'fundamental-cash-sdebt': 'navigation.cashSdebt',
+  'industry-threshold': 'navigation.industryThreshold',
+  'management-monitoring': 'navigation.managementMonitoring',
+};
+
+const buttonClass =
+  'px-3 py-1.5 text-sm font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation';
+
+function formatDate(iso: string | null): string {
+  return iso ? iso.slice(0, 10) : '–';
+}
+
+export default function AdminUsersView() {
+  const { t } = useTranslation();
+  const { currentUser } = useAuth();
+  const { showToast } = useToast();
+  const { users, loading, error, savingUid, refetch, setViewAccess, setRole, setDisabled } = useManagedUsers();
+  const [search, setSearch] = useState('');
+  const [expandedUid, setExpandedUid] = useState<string | null>(null);
+
+  const visibleUsers = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return users;
+    return users.filter((u) => u.email.toLowerCase().includes(query) || u.uid.toLowerCase().includes(query));
+  }, [users, search]);
+
+  const runAction = async (action: () => Promise<void>, successMessage: string) => {
+    try {
+      await action();
+      showToast(successMessage, 'success');
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      showToast(t('adminUsers.saveFailed', { message, defaultValue: 'Ändringen kunde inte sparas: {{message}}' }), 'error');
+    }
+  };
+
+  const handleToggleView = (user: ManagedUser, viewId: ViewId, allowed: boolean) =>
+    runAction(
+      () => setViewAccess(user.uid, viewId, allowed),
+      allowed
+        ? t('adminUsers.viewGranted', { email: user.email, defaultValue: 'Vy tilldelad {{email}}' })
+        : t('adminUsers.viewRevoked', { email: user.email, defaultValue: 'Vy borttagen för {{email}}' })
+    );
+
+  const handleToggleRole = (user: ManagedUser) => {
+    const nextRole = user.role === 'admin' ? 'viewer' : 'admin';
+    const question =
+      nextRole === 'admin'
+        ? t('adminUsers.confirmPromote', { email: user.email, defaultValue: 'Gör {{email}} till admin?' })
+        : t('adminUsers.confirmDemote', { email: user.email, defaultValue: 'Ta bort adminrollen för {{email}}?' });
+    if (!window.confirm(question)) return;
+    return runAction(() => setRole(user.uid, nextRole), t('adminUsers.roleUpdated', 'Roll uppdaterad'));
+  };
+
+  const handleToggleDisabled = (user: ManagedUser) => {
+    const confirmText = t('adminUsers.confirmDisable', {
+      email: user.email,
+      defaultValue:
+        'Inaktivera kontot {{email}}? Personen kan inte längre logga in, men en öppen session behåller läsbehörigheten tills den går ut (högst en timme).',
+    });
+    if (!user.disabled && !window.confirm(confirmText)) {
+      return;
+    }
+    return runAction(
+      () => setDisabled(user.uid, !user.disabled),
+      user.disabled ? t('adminUsers.enabled', 'Kontot är aktiverat') : t('adminUsers.disabled', 'Kontot är inaktiverat')
+    );
+  };
+
+  return (
+    <div className="h-full bg-gray-100 dark:bg-gray-900 py-4 sm:py-6 lg:py-8 px-3 sm:px-4 lg:px-6 flex flex-col transition-all duration-300 ease-in-out">
+      <div className="w-full flex flex-col flex-1 min-h-0">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6 sm:mb-8 flex-shrink-0 gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-black dark:text-white mb-1 tracking-tight">
+              {t('navigation.adminUsers', 'Användare')}
+            </h1>
+            <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 font-medium">
+              {t('adminUsers.subtitle', 'Roller, vybehörigheter och kontostatus. Ändringar loggas i adminActions.')}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t('adminUsers.searchPlaceholder', 'Sök e-post eller uid...')}
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-black dark:text-white"
+              aria-label={t('adminUsers.searchPlaceholder', 'Sök e-post eller uid...')}
+            />
+            <button type="button" className={buttonClass} onClick={() => refetch()} disabled={loading}>
+              {t('adminUsers.reload', 'Ladda om')}
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <ProgressIndicator isLoading={true} label={t('adminUsers.loading', 'Laddar användare...')} />
+        ) : error ? (
+          <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600">
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 overflow-auto bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-900">
+                <tr>
+                  {[
+                    t('adminUsers.columns.email', 'E-post'),
+                    t('adminUsers.columns.role', 'Roll'),
+                    t('adminUsers.columns.views', 'Vyer'),
+                    t('adminUsers.columns.status', 'Status'),
+                    t('adminUsers.columns.lastSignIn', 'Senast inloggad'),
+                    t('adminUsers.columns.actions', 'Åtgärder'),
+                  ].map((label) => (
+                    <th
+                      key={label}
+                      scope="col"
+                      className="px-3 py-2 text-left text-xs font-bold text-gray-700 dark:text-gray-200 uppercase tracking-wider"
+                    >
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {visibleUsers.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-3 py-6 text-center text-gray-500 dark:text-gray-400">
+                      {t('adminUsers.empty', 'Inga användare')}
+                    </td>
+                  </tr>
+                )}
+                {visibleUsers.map((user) => {
+                  const isSelf = user.uid === currentUser?.uid;
+                  const isSaving = savingUid === user.uid;
+                  const isExpanded = expandedUid === user.uid;
+                  return (
+                    <UserRow
+                      key={user.uid}
+                      user={user}
+                      isSelf={isSelf}
+                      isSaving={isSaving}
+                      isExpanded={isExpanded}
+                      onToggleExpand={() => setExpandedUid(isExpanded ? null : user.uid)}
+                      onToggleRole={() => handleToggleRole(user)}
+                      onToggleDisabled={() => handleToggleDisabled(user)}
+                      onToggleView={(viewId, allowed) => handleToggleView(user, viewId, allowed)}
+                    />
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface UserRowProps {
+  user: ManagedUser;
+  isSelf: boolean;
+  isSaving: boolean;
+  isExpanded: boolean;
+  onToggleExpand: () => void;
+  onToggleRole: () => void;
+  onToggleDisabled: () => void;
+  onToggleView: (viewId: ViewId, allowed: boolean) => void;
+}
+
+function UserRow({ user, isSelf, isSaving, isExpanded, onToggleExpand, onToggleRole, onToggleDisabled, onToggleView }: UserRowProps) {
+  const { t } = useTranslation();
+  const isAdminUser = user.role === 'admin';
+
+  return (
+    <>
+      <tr className={user.disabled ? 'opacity-60' : undefined}>
+        <td className="px-3 py-2 text-black dark:text-white">
+          <div className="font-medium">{user.email || user.uid}</div>
+          {isSelf && <div className="text-xs text-gray-500 dark:text-gray-400">{t('adminUsers.you', 'Du')}</div>}
+        </td>
+        <td className="px-3 py-2">
+          <span
+            className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+              isAdminUser
+                ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-200'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200'
+            }`}
+          >
+            {isAdminUser ? t('adminUsers.roleAdmin', 'Admin') : user.role === 'viewer' ? t('adminUsers.roleViewer', 'Viewer') : '–'}
+          </span>
+        </td>
+        <td className="px-3 py-2 text-gray-700 dark:text-gray-300">
+          {isAdminUser ? t('adminUsers.allViews', 'Alla') : user.allowedViews.length}
+        </td>
+        <td className="px-3 py-2">
+          <span className={user.disabled ? 'text-red-700 dark:text-red-400' : 'text-green-700 dark:text-green-200'}>
+            {user.disabled ? t('adminUsers.statusDisabled', 'Inaktiverad') : t('adminUsers.statusActive', 'Aktiv')}
+          </span>
+        </td>
+        <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{formatDate(user.lastSignInAt)}</td>
+        <td className="px-3 py-2">
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              className={buttonClass}
+              onClick={onToggleExpand}
+              disabled={isAdminUser}
+              aria-expanded={isExpanded}
+            >
+              {t('adminUsers.editViews', 'Vyer')}
+            </button>
+            <button type="button" className={buttonClass} onClick={onToggleRole} disabled={isSaving || isSelf}>
+              {isAdminUser ? t('adminUsers.demote', 'Gör till viewer') : t('adminUsers.promote', 'Gör till admin')}
+            </button>
+            <button type="button" className={buttonClass} onClick={onToggleDisabled} disabled={isSaving || isSelf}>
+              {user.disabled ? t('adminUsers.enable', 'Aktivera') : t('adminUsers.disable', 'Inaktivera')}
+            </button>
+          </div>
+        </td>
+      </tr>
+      {isExpanded && !isAdminUser && (
+        <tr>
+          <td colSpan={6} className="px-3 py-3 bg-gray-50 dark:bg-gray-900/40">
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+              {t('adminUsers.viewsHint', 'Score och Personal Portfolio är alltid tillgängliga.')}
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+              {GRANTABLE_VIEW_IDS.map((viewId) => {
+                const checked = user.allowedViews.includes(viewId);
+                const labelKey = VIEW_LABEL_KEYS[viewId];
+                return (
+                  <label key={viewId} className="flex items-center gap-2 text-sm text-black dark:text-white">
+                    <input
+                      type="checkbox"
+                      checked={checked}
+                      disabled={isSaving}
+                      onChange={() => onToggleView(viewId, !checked)}
+                    />
+                    <span>{labelKey ? t(labelKey) : viewId}</span>
+                  </label>
+                );
+              })}
+            </div>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,209 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuditLog } from '../../hooks/useAuditLog';
+import { useToast } from '../../contexts/ToastContext';
+import { EMPTY_AUDIT_FILTERS, filterAuditRows, type AuditLogFilters } from '../../utils/auditLog';
+import type { AuditLogRow, EditValue } from '../../types/audit';
+import ProgressIndicator from '../ProgressIndicator';
+
+const buttonClass =
+  'px-3 py-1.5 text-sm font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation';
+
+const inputClass =
+  'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-black dark:text-white';
+
+function formatTimestamp(date: Date | null): string {
+  return date ? date.toLocaleString('sv-SE') : '–';
+}
+
+function formatValue(value: EditValue): string {
+  if (value === null) return '–';
+  return typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 4 }) : value;
+}
+
+/** Default range: the last 30 days */
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date.toLocaleDateString('sv-SE');
+}
+
+export default function AuditLogView() {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const [filters, setFilters] = useState<AuditLogFilters>(() => ({ ...EMPTY_AUDIT_FILTERS, from: daysAgo(30) }));
+  const { rows, loading, error, revertingId, refetch, revert } = useAuditLog(filters.from, filters.to);
+
+  const setFilter = (key: keyof AuditLogFilters, value: string) => setFilters((prev) => ({ ...prev, [key]: value }));
+
+  const userOptions = useMemo(() => {
+    const labels = new Map<string, string>();
+    for (const row of rows) {
+      if (!row.userId) continue;
+      const email = row.edit?.userEmail;
+      if (email || !labels.has(row.userId)) labels.set(row.userId, email || row.userId);
+    }
+    return Array.from(labels.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [rows]);
+
+  const userLabels = useMemo(() => new Map(userOptions), [userOptions]);
+
+  const actionOptions = useMemo(() => Array.from(new Set(rows.map((r) => r.action))).sort(), [rows]);
+
+  const visibleRows = useMemo(() => filterAuditRows(rows, filters), [rows, filters]);
+
+  const actionLabel = (action: string) => t(`auditLog.actions.${action}`, action);
+
+  const handleRevert = async (row: AuditLogRow) => {
+    const edit = row.edit;
+    if (!edit) return;
+    const question = t('auditLog.confirmRevert', {
+      field: edit.field,
+      target: edit.key,
+      value: formatValue(edit.oldValue),
+      defaultValue: 'Återställ {{field}} för {{target}} till {{value}}?',
+    });
+    if (!window.confirm(question)) return;
+    try {
+      await revert(edit);
+      showToast(t('auditLog.reverted', 'Ändringen är återställd'), 'success');
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      showToast(t('auditLog.revertFailed', { message, defaultValue: 'Kunde inte återställa: {{message}}' }), 'error');
+    }
+  };
+
+  const columns = [
+    t('auditLog.columns.time', 'Tid'),
+    t('auditLog.columns.user', 'Användare'),
+    t('auditLog.columns.action', 'Åtgärd'),
+    t('auditLog.columns.industry', 'Bransch'),
+    t('auditLog.columns.ticker', 'Ticker'),
+    t('auditLog.columns.field', 'Fält'),
+    t('auditLog.columns.oldValue', 'Gammalt värde'),
+    t('auditLog.columns.newValue', 'Nytt värde'),
+    t('auditLog.columns.details', 'Detaljer'),
+    '',
+  ];
+
+  return (
+    <div className="h-full bg-gray-100 dark:bg-gray-900 py-4 sm:py-6 lg:py-8 px-3 sm:px-4 lg:px-6 flex flex-col transition-all duration-300 ease-in-out">
+      <div className="w-full flex flex-col flex-1 min-h-0">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6 sm:mb-8 flex-shrink-0 gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-black dark:text-white mb-1 tracking-tight">
+              {t('navigation.adminAudit', 'Granskningslogg')}
+            </h1>
+            <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 font-medium">
+              {t('auditLog.subtitle', 'Adminåtgärder och ändringar av trösklar och Entry/Exit-värden, med gammalt och nytt värde.')}
+            </p>
+          </div>
+          <button type="button" className={buttonClass} onClick={() => refetch()} disabled={loading}>
+            {t('auditLog.reload', 'Ladda om')}
+          </button>
+        </div>
+
+        <div className="mb-4 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600 grid grid-cols-1 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+          <label className="flex flex-col gap-1 text-xs font-semibold text-gray-600 dark:text-gray-300">
+            {t('auditLog.columns.user', 'Användare')}
+            <select className={inputClass} value={filters.userId} onChange={(e) => setFilter('userId', e.target.value)}>
+              <option value="">{t('auditLog.all', 'Alla')}</option>
+              {userOptions.map(([uid, label]) => (
+                <option key={uid} value={uid}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-semibold text-gray-600 dark:text-gray-300">
+            {t('auditLog.columns.action', 'Åtgärd')}
+            <select className={inputClass} value={filters.action} onChange={(e) => setFilter('action', e.target.value)}>
+              <option value="">{t('auditLog.all', 'Alla')}</option>
+              {actionOptions.map((action) => (
+                <option key={action} value={action}>
+                  {actionLabel(action)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-semibold text-gray-600 dark:text-gray-300">
+            {t('auditLog.columns.industry', 'Bransch')}
+            <input type="search" className={inputClass} value={filters.industry} onChange={(e) => setFilter('industry', e.target.value)} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-semibold text-gray-600 dark:text-gray-300">
+            {t('auditLog.columns.ticker', 'Ticker')}
+            <input type="search" className={inputClass} value={filters.ticker} onChange={(e) => setFilter('ticker', e.target.value)} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-semibold text-gray-600 dark:text-gray-300">
+            {t('auditLog.from', 'Från')}
+            <input type="date" className={inputClass} value={filters.from} onChange={(e) => setFilter('from', e.target.value)} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-semibold text-gray-600 dark:text-gray-300">
+            {t('auditLog.to', 'Till')}
+            <input type="date" className={inputClass} value={filters.to} onChange={(e) => setFilter('to', e.target.value)} />
+          </label>
+        </div>
+
+        {loading ? (
+          <ProgressIndicator isLoading={true} label={t('auditLog.loading', 'Laddar logg...')} />
+        ) : error ? (
+          <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600">
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 overflow-auto bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-900">
+                <tr>
+                  {columns.map((label, index) => (
+                    <th
+                      key={`${label}-${index}`}
+                      scope="col"
+                      className="px-3 py-2 text-left text-xs font-bold text-gray-700 dark:text-gray-200 uppercase tracking-wider"
+                    >
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {visibleRows.length === 0 && (
+                  <tr>
+                    <td colSpan={columns.length} className="px-3 py-6 text-center text-gray-500 dark:text-gray-400">
+                      {t('auditLog.empty', 'Inga händelser för valda filter')}
+                    </td>
+                  </tr>
+                )}
+                {visibleRows.map((row) => (
+                  <tr key={`${row.source}-${row.id}`}>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300">{formatTimestamp(row.timestamp)}</td>
+                    <td className="px-3 py-2 text-black dark:text-white">{userLabels.get(row.userId) ?? (row.userId || '–')}</td>
+                    <td className="px-3 py-2 text-black dark:text-white">{actionLabel(row.action)}</td>
+                    <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{row.industry ?? '–'}</td>
+                    <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{row.ticker ?? '–'}</td>
+                    <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{row.field ?? '–'}</td>
+                    <td className="px-3 py-2 tabular-nums text-gray-700 dark:text-gray-300 break-all">{formatValue(row.oldValue)}</td>
+                    <td className="px-3 py-2 tabular-nums text-black dark:text-white break-all">{formatValue(row.newValue)}</td>
+                    <td className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">{row.details ?? ''}</td>
+                    <td className="px-3 py-2">
+                      {row.edit && (
+                        <button
+                          type="button"
+                          className={buttonClass}
+                          onClick={() => handleRevert(row)}
+                          disabled={revertingId !== null}
+                        >
+                          {t('auditLog.revert', 'Återställ')}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useTranslation } from 'react-i18next';
+import { EntryExitProvider } from '../../contexts/EntryExitContext';
+import { useDataQuality } from '../../hooks/useDataQuality';
+import { useIndustryThresholdData } from '../../hooks/useIndustryThresholdData';
+import { useSheetDiagnostics } from '../../hooks/useSheetDiagnostics';
+import DataQualityPanel from '../DataQualityPanel';
+import IndustryMappingPanel from '../IndustryMappingPanel';
+import ProgressIndicator from '../ProgressIndicator';
+import SheetDiagnosticsPanel from '../SheetDiagnosticsPanel';
+
+const buttonClass =
+  'px-3 py-1.5 text-sm font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation';
+
+const sectionTitleClass = 'text-lg font-semibold text-black dark:text-white mb-3';
+
+function DataHealthViewInner() {
+  const { t } = useTranslation();
+  const { reports, loading, error, refetch } = useSheetDiagnostics();
+  const quality = useDataQuality();
+  const { data: thresholdData } = useIndustryThresholdData();
+
+  return (
+    <div className="h-full bg-gray-100 dark:bg-gray-900 py-4 sm:py-6 lg:py-8 px-3 sm:px-4 lg:px-6 flex flex-col transition-all duration-300 ease-in-out">
+      <div className="w-full flex flex-col flex-1 min-h-0">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6 sm:mb-8 flex-shrink-0 gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-black dark:text-white mb-1 tracking-tight">
+              {t('navigation.adminDataHealth', 'Datahälsa')}
+            </h1>
+            <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 font-medium">
+              {t('dataHealth.subtitle', 'Rimlighetskontroller och kolumnmatchning för de hämtade arken.')}
+            </p>
+          </div>
+          <button
+            type="button"
+            className={buttonClass}
+            onClick={() => Promise.all([refetch(), quality.runChecks()])}
+            disabled={loading || quality.loading}
+          >
+            {t('dataHealth.reload', 'Ladda om')}
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-auto">
+          <h2 className={sectionTitleClass}>{t('dataHealth.qualityTitle', 'Datakvalitet')}</h2>
+          {quality.error && (
+            <div className="mb-4 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600">
+              <p className="text-red-600 dark:text-red-400">{quality.error}</p>
+            </div>
+          )}
+          {quality.loading && !quality.report ? (
+            <ProgressIndicator isLoading={true} label={t('dataHealth.checking', 'Kontrollerar DashBoard...')} />
+          ) : (
+            <DataQualityPanel report={quality.report} tickers={quality.tickers} />
+          )}
+
+          <h2 className={`${sectionTitleClass} mt-8`}>{t('dataHealth.industryTitle', 'Branschmappning')}</h2>
+          <IndustryMappingPanel rows={quality.rows} thresholdData={thresholdData} />
+
+          <h2 className={`${sectionTitleClass} mt-8`}>{t('dataHealth.columnsTitle', 'Kolumner')}</h2>
+          {error && (
+            <div className="mb-4 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600">
+              <p className="text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+          {loading ? (
+            <ProgressIndicator isLoading={true} label={t('dataHealth.loading', 'Laddar rapporter...')} />
+          ) : (
+            <SheetDiagnosticsPanel reports={reports} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function DataHealthView() {
+  return (
+    <EntryExitProvider>
+      <DataHealthViewInner />
+    </EntryExitProvider>
+  );
+}
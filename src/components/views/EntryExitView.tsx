@@ -2,16 +2,174 @@ import { lazy, Suspense, useMemo, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { ViewId } from '../../types/navigation';
 import { useBenjaminGrahamData } from '../../hooks/useBenjaminGrahamData';
+import { useShareableTableState } from '../../hooks/useShareableTableState';
 import { TableSkeleton } from '../SkeletonLoader';
-import { EntryExitProvider } from '../../contexts/EntryExitContext';
+import { EntryExitProvider, useEntryExitValues } from '../../contexts/EntryExitContext';
+import {
+  getEntry2DistancePercent,
+  getEntry2DistanceColor,
+  getExitUpsidePercent,
+  getExit1UpsideColor,
+  getExit2UpsideColor,
+  getRR1Value,
+  getIRR1Color,
+  getIvFcfMarginPercent,
+  getIvFcfMarginColor,
+  type ColorType,
+} from '../../utils/colorThresholds';
+import type { BenjaminGrahamData } from '../../types/stock';
+import type { EntryExitValuesForScore } from '../../types/score';
+import type { EntryExitMetricRow } from '../EntryExitMetricTable';
 
 // Lazy load table components
 const EntryExitTable = lazy(() => import('../EntryExitTable'));
+const EntryExitMetricTable = lazy(() => import('../EntryExitMetricTable'));
 
 interface EntryExitViewProps {
   viewId: ViewId;
 }
 
+interface EntryExitMetricView {
+  referenceLabel: string;
+  metricLabel: string;
+  rankDirection: 'asc' | 'desc';
+  compute: (
+    item: BenjaminGrahamData,
+    values: EntryExitValuesForScore | undefined
+  ) => { reference: number | null; metric: number | null; color: ColorType };
+}
+
+function positiveOrNull(value: number | null | undefined): number | null {
+  return value !== null && value !== undefined && value > 0 ? value : null;
+}
+
+// Table id equals the view id for the metric views (see viewTableMap)
+const METRIC_VIEWS: Partial<Record<ViewId, EntryExitMetricView>> = {
+  'entry-exit-entry2': {
+    referenceLabel: 'ENTRY2',
+    metricLabel: 'Price vs Entry2',
+    rankDirection: 'asc',
+    compute: (item, values) => {
+      const entry2 = values?.entry2 || 0;
+      return {
+        reference: positiveOrNull(entry2),
+        metric: getEntry2DistancePercent(item.price, entry2),
+        color: getEntry2DistanceColor(item.price, entry2),
+      };
+    },
+  },
+  'entry-exit-exit1': {
+    referenceLabel: 'EXIT1',
+    metricLabel: 'Upside to Exit1',
+    rankDirection: 'desc',
+    compute: (item, values) => {
+      const exit1 = values?.exit1 || 0;
+      return {
+        reference: positiveOrNull(exit1),
+        metric: getExitUpsidePercent(item.price, exit1),
+        color: getExit1UpsideColor(item.price, exit1),
+      };
+    },
+  },
+  'entry-exit-exit2': {
+    referenceLabel: 'EXIT2',
+    metricLabel: 'Upside to Exit2',
+    rankDirection: 'desc',
+    compute: (item, values) => {
+      const exit2 = values?.exit2 || 0;
+      return {
+        reference: positiveOrNull(exit2),
+        metric: getExitUpsidePercent(item.price, exit2),
+        color: getExit2UpsideColor(item.price, exit2),
+      };
+    },
+  },
+  'entry-exit-irr1': {
+    referenceLabel: 'ENTRY1',
+    metricLabel: 'RR1',
+    rankDirection: 'desc',
+    compute: (item, values) => ({
+      reference: positiveOrNull(values?.entry1),
+      metric: getRR1Value(values),
+      color: getIRR1Color(item.price, values),
+    }),
+  },
+  'entry-exit-iv-fcf': {
+    referenceLabel: 'IV (FCF)',
+    metricLabel: 'Margin of Safety',
+    rankDirection: 'desc',
+    compute: (item) => ({
+      reference: positiveOrNull(item.ivFcf),
+      metric: getIvFcfMarginPercent(item.price, item.ivFcf),
+      color: getIvFcfMarginColor(item.price, item.ivFcf),
+    }),
+  },
+};
+
+interface EntryExitMetricContentProps {
+  tableId: string;
+  view: EntryExitMetricView;
+  title: string;
+  data: BenjaminGrahamData[];
+  loading: boolean;
+  error: string | null;
+}
+
+// Inner component that reads Entry/Exit levels from EntryExitContext
+function EntryExitMetricContent({ tableId, view, title, data, loading, error }: EntryExitMetricContentProps) {
+  const { t } = useTranslation();
+  const sharedTableState = useShareableTableState(tableId);
+  const { getEntryExitValue } = useEntryExitValues();
+
+  const rows: EntryExitMetricRow[] = useMemo(
+    () =>
+      data.map((item) => {
+        const values = getEntryExitValue(item.ticker, item.companyName);
+        return {
+          companyName: item.companyName,
+          ticker: item.ticker,
+          currency: values?.currency || 'USD',
+          price: item.price,
+          ...view.compute(item, values),
+        };
+      }),
+    [data, view, getEntryExitValue]
+  );
+
+  return (
+    <div className="h-full bg-gray-100 dark:bg-gray-900 py-4 sm:py-6 lg:py-8 px-3 sm:px-4 lg:px-6 flex flex-col transition-all duration-300 ease-in-out">
+      <div className="w-full flex flex-col flex-1 min-h-0">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6 sm:mb-8 flex-shrink-0 gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-black dark:text-white mb-1 tracking-tight">{title}</h1>
+            <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 font-medium">
+              {t(`entryExitMetrics.subtitle.${tableId}`)}
+            </p>
+          </div>
+        </div>
+        <div className="flex-1 min-h-0 transition-all duration-300 ease-in-out">
+          {error && !loading && data.length === 0 ? (
+            <div className="text-red-600 dark:text-red-400 p-4">{error}</div>
+          ) : (
+            <Suspense fallback={<TableSkeleton rows={10} columns={8} hasStickyColumns={true} />}>
+              <EntryExitMetricTable
+                tableId={tableId}
+                referenceLabel={view.referenceLabel}
+                metricLabel={view.metricLabel}
+                rankDirection={view.rankDirection}
+                data={rows}
+                loading={loading}
+                error={error}
+                initialTableState={sharedTableState}
+              />
+            </Suspense>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default function EntryExitView({ viewId }: EntryExitViewProps) {
   const { t } = useTranslation();
   const isBenjaminGraham = viewId === 'entry-exit-benjamin-graham';
@@ -19,16 +177,36 @@ export default function EntryExitView({ viewId }: EntryExitViewProps) {
 
   const VIEW_ID = 'entry-exit-benjamin-graham';
   const TABLE_ID = 'benjamin-graham';
+  const sharedTableState = useShareableTableState(TABLE_ID);
   
   const getViewTitle = () => {
     const titles: Partial<Record<ViewId, string>> = {
       'entry-exit-benjamin-graham': t('navigation.benjaminGraham'),
+      'entry-exit-entry2': t('navigation.entry2'),
+      'entry-exit-exit1': t('navigation.exit1'),
+      'entry-exit-exit2': t('navigation.exit2'),
       'entry-exit-irr1': t('navigation.irr1'),
       'entry-exit-iv-fcf': t('navigation.ivFcf'),
     };
     return titles[viewId] || t('navigation.entryExit');
   };
 
+  const metricView = METRIC_VIEWS[viewId];
+  if (metricView) {
+    return (
+      <EntryExitProvider>
+        <EntryExitMetricContent
+          tableId={viewId}
+          view={metricView}
+          title={getViewTitle()}
+          data={benjaminGrahamData}
+          loading={benjaminGrahamLoading}
+          error={benjaminGrahamError}
+        />
+      </EntryExitProvider>
+    );
+  }
+
   if (isBenjaminGraham) {
     // Benjamin Graham view only depends on benjaminGrahamData, so no progressive loading needed
     return (
@@ -44,7 +222,7 @@ export default function EntryExitView({ viewId }: EntryExitViewProps) {
             <div className="flex-1 min-h-0 transition-all duration-300 ease-in-out">
               {!benjaminGrahamLoading && benjaminGrahamData.length > 0 ? (
                 <Suspense fallback={<TableSkeleton rows={10} columns={5} hasStickyColumns={true} />}>
-                  <EntryExitTable data={benjaminGrahamData} loading={false} error={benjaminGrahamError} />
+                  <EntryExitTable data={benjaminGrahamData} loading={false} error={benjaminGrahamError} initialTableState={sharedTableState} />
                 </Suspense>
               ) : benjaminGrahamLoading ? (
                 <TableSkeleton rows={10} columns={5} hasStickyColumns={true} />
@@ -2,10 +2,23 @@ import { useTranslation } from 'react-i18next';
 import { lazy, Suspense, useMemo, useEffect } from 'react';
 import { ViewId } from '../../types/navigation';
 import { usePEIndustryData } from '../../hooks/usePEIndustryData';
+import { useShareableTableState } from '../../hooks/useShareableTableState';
+import { useScoreBoardData } from '../../hooks/useScoreBoardData';
+import { useIndustryThresholdData } from '../../hooks/useIndustryThresholdData';
+import { ThresholdProvider, useThresholdValues } from '../../contexts/ThresholdContext';
+import {
+  getCashSdebtBandPosition,
+  getCurrentRatioBandPosition,
+  type BandedMetric,
+} from '../../utils/colorThresholds';
+import type { IndustryThresholdData } from '../../types/stock';
+import type { FundamentalBandRow } from '../FundamentalBandTable';
 import { TableSkeleton } from '../SkeletonLoader';
 
-// Lazy load table component
+// Lazy load table components
 const PEIndustryTable = lazy(() => import('../PEIndustryTable'));
+const FundamentalBandTable = lazy(() => import('../FundamentalBandTable'));
+const FundamentalBandChart = lazy(() => import('../FundamentalBandChart'));
 
 interface FundamentalViewProps {
   viewId: ViewId;
@@ -14,8 +27,92 @@ interface FundamentalViewProps {
 const VIEW_ID = 'fundamental-pe-industry';
 const TABLE_ID = 'pe-industry';
 
+const BAND_VIEWS: Partial<Record<ViewId, { metric: BandedMetric; tableId: string }>> = {
+  'fundamental-current-ratio': { metric: 'currentRatio', tableId: 'current-ratio' },
+  'fundamental-cash-sdebt': { metric: 'cashSdebt', tableId: 'cash-sdebt' },
+};
+
+interface FundamentalBandContentProps {
+  metric: BandedMetric;
+  tableId: string;
+  title: string;
+}
+
+// Inner component that reads live industry bands from ThresholdContext
+function FundamentalBandContent({ metric, tableId, title }: FundamentalBandContentProps) {
+  const { t } = useTranslation();
+  const sharedTableState = useShareableTableState(tableId);
+  const { data, loading, error, refetch } = useScoreBoardData();
+  const { data: thresholdRows } = useIndustryThresholdData();
+  const { getThresholdValue } = useThresholdValues();
+
+  // Same rows as useIndustryThresholdData, with the shared values from ThresholdContext applied
+  const thresholdData: IndustryThresholdData[] = useMemo(
+    () => thresholdRows.map((row) => ({ ...row, ...getThresholdValue(row.industryKey) })),
+    [thresholdRows, getThresholdValue]
+  );
+
+  const rows: FundamentalBandRow[] = useMemo(
+    () =>
+      data.map((item) => {
+        const isDivZero = metric === 'cashSdebt' && item.isCashSdebtDivZero;
+        const value = metric === 'currentRatio' ? item.currentRatio : item.cashSdebt;
+        const position =
+          metric === 'currentRatio'
+            ? getCurrentRatioBandPosition(value, item.industry, thresholdData)
+            : getCashSdebtBandPosition(value, isDivZero, item.industry, thresholdData);
+        return {
+          companyName: item.companyName,
+          ticker: item.ticker,
+          industry: item.industry,
+          value,
+          isDivZero,
+          ...position,
+        };
+      }),
+    [data, metric, thresholdData]
+  );
+
+  const bandRule =
+    metric === 'currentRatio'
+      ? t('fundamentalBands.currentRatioRule', 'Under min = RÖD, min till max = GRÖN, från max och uppåt = ORANGE')
+      : t('fundamentalBands.cashSdebtRule', 'Till och med min = RÖD, mellan min och max = ORANGE, från max och uppåt (eller ingen kort skuld) = GRÖN');
+
+  return (
+    <div className="h-full bg-gray-100 dark:bg-gray-900 py-4 sm:py-6 lg:py-8 px-3 sm:px-4 lg:px-6 flex flex-col transition-all duration-300 ease-in-out">
+      <div className="w-full flex flex-col flex-1 min-h-0 gap-4">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-2 sm:mb-4 flex-shrink-0 gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-black dark:text-white mb-1 tracking-tight">{title}</h1>
+            <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 font-medium">{bandRule}</p>
+          </div>
+        </div>
+        <div className="flex-shrink-0">
+          <Suspense fallback={null}>
+            <FundamentalBandChart data={rows} />
+          </Suspense>
+        </div>
+        <div className="flex-1 min-h-0 transition-all duration-300 ease-in-out">
+          <Suspense fallback={<TableSkeleton rows={10} columns={10} hasStickyColumns={true} />}>
+            <FundamentalBandTable
+              metric={metric}
+              tableId={tableId}
+              data={rows}
+              loading={loading}
+              error={error}
+              onRetry={() => refetch()}
+              initialTableState={sharedTableState}
+            />
+          </Suspense>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default function FundamentalView({ viewId }: FundamentalViewProps) {
   const { t } = useTranslation();
+  const sharedTableState = useShareableTableState(TABLE_ID);
   const isPEIndustry = viewId === 'fundamental-pe-industry';
   const { data, loading, error } = usePEIndustryData();
 
@@ -28,6 +125,15 @@ export default function FundamentalView({ viewId }: FundamentalViewProps) {
     return titles[viewId] || t('navigation.fundamental');
   };
 
+  const bandView = BAND_VIEWS[viewId];
+  if (bandView) {
+    return (
+      <ThresholdProvider>
+        <FundamentalBandContent metric={bandView.metric} tableId={bandView.tableId} title={getViewTitle()} />
+      </ThresholdProvider>
+    );
+  }
+
   if (isPEIndustry) {
     return (
       <div className="h-full bg-gray-100 dark:bg-gray-900 py-4 sm:py-6 lg:py-8 px-3 sm:px-4 lg:px-6 flex flex-col transition-all duration-300 ease-in-out">
@@ -40,7 +146,7 @@ export default function FundamentalView({ viewId }: FundamentalViewProps) {
           </div>
           <div className="flex-1 min-h-0 transition-all duration-300 ease-in-out">
             <Suspense fallback={<TableSkeleton rows={10} columns={5} hasStickyColumns={true} />}>
-              <PEIndustryTable data={data} loading={loading} error={error} />
+              <PEIndustryTable data={data} loading={loading} error={error} initialTableState={sharedTableState} />
             </Suspense>
           </div>
         </div>
@@ -1,7 +1,118 @@
+import { useMemo, useState, type ChangeEvent } from 'react';
 import { useTranslation } from 'react-i18next';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, Legend, ReferenceLine } from 'recharts';
+import { useIsmData } from '../../hooks/useIsmData';
+import { useScoreBoardData } from '../../hooks/useScoreBoardData';
+import { useUserRole } from '../../hooks/useUserRole';
+import { useAuth } from '../../contexts/AuthContext';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useToast } from '../../contexts/ToastContext';
+import { parseIsmCsv } from '../../services/sheets/ismService';
+import { ISM_NEUTRAL_LEVEL, ISM_TREND_MONTHS } from '../../config/ismRegime';
+import { getIndustryTilts } from '../../utils/ismRegime';
+import type { IndustryTilt } from '../../types/ism';
+import IsmRegimeBadge from '../IsmRegimeBadge';
+import ProgressIndicator from '../ProgressIndicator';
+
+type ChartRange = '2Y' | '5Y' | '10Y' | 'ALL';
+
+const RANGES: ChartRange[] = ['2Y', '5Y', '10Y', 'ALL'];
+const RANGE_MONTHS: Record<ChartRange, number | null> = { '2Y': 24, '5Y': 60, '10Y': 120, ALL: null };
+
+const TILT_CLASSES: Record<IndustryTilt, string> = {
+  favored: 'text-green-700 dark:text-green-400',
+  neutral: 'text-gray-600 dark:text-gray-400',
+  unfavored: 'text-red-700 dark:text-red-400',
+};
+
+const buttonClass =
+  'px-4 py-2 text-sm font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors min-h-[44px] touch-manipulation';
+
+function formatChange(value: number | null): string {
+  if (value == null) return '–';
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+}
 
 export default function ISMPostureView() {
   const { t } = useTranslation();
+  const { resolvedTheme } = useTheme();
+  const isDarkMode = resolvedTheme === 'dark';
+  const { showToast } = useToast();
+  const { currentUser } = useAuth();
+  const { isAdmin } = useUserRole();
+  const { readings, current, sheetCount, sheetError, upload, loading, error, refetch, saveUpload, clearUpload } = useIsmData();
+  const { data: scoreBoardData } = useScoreBoardData();
+  const [range, setRange] = useState<ChartRange>('5Y');
+  const [saving, setSaving] = useState(false);
+
+  const chartData = useMemo(() => {
+    const months = RANGE_MONTHS[range];
+    return months == null ? readings : readings.slice(-months);
+  }, [readings, range]);
+
+  // Companies per industry label, to show how much of the Score Board each tilt covers
+  const companiesByIndustry = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const item of scoreBoardData || []) {
+      const key = item.industry.trim().toLowerCase();
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    return counts;
+  }, [scoreBoardData]);
+
+  const tilts = useMemo(() => (current ? getIndustryTilts(current.regime) : []), [current]);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !currentUser) return;
+    const parsed = parseIsmCsv(await file.text());
+    if (parsed.missingColumns.length > 0) {
+      showToast(
+        t('ism.missingColumns', {
+          columns: parsed.missingColumns.join(', '),
+          defaultValue: `Saknade kolumner: ${parsed.missingColumns.join(', ')}`,
+        }),
+        'error'
+      );
+      return;
+    }
+    if (parsed.readings.length === 0) {
+      showToast(t('ism.noRows', 'Filen innehåller inga giltiga ISM-rader'), 'error');
+      return;
+    }
+    setSaving(true);
+    try {
+      await saveUpload(parsed.readings, file.name, currentUser.uid);
+      showToast(
+        t('ism.uploaded', {
+          count: parsed.readings.length,
+          skipped: parsed.skipped,
+          defaultValue: `${parsed.readings.length} månader sparade (${parsed.skipped} rader hoppades över)`,
+        }),
+        'success'
+      );
+    } catch {
+      showToast(t('ism.uploadError', 'Kunde inte spara ISM-data'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClearUpload = async () => {
+    if (!currentUser) return;
+    setSaving(true);
+    try {
+      await clearUpload(currentUser.uid);
+      showToast(t('ism.uploadCleared', 'Uppladdad ISM-data borttagen'), 'success');
+    } catch {
+      showToast(t('ism.uploadError', 'Kunde inte spara ISM-data'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const tickColor = isDarkMode ? '#e5e7eb' : '#374151';
 
   return (
     <div className="h-full bg-gray-100 dark:bg-gray-900 py-4 sm:py-6 lg:py-8 px-3 sm:px-4 lg:px-6 flex flex-col">
@@ -12,13 +123,172 @@ export default function ISMPostureView() {
               {t('navigation.ismPosturePositioning')}
             </h1>
             <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 font-medium">
-              ISM Posture & Positioning
+              {t('ism.subtitle', 'ISM Manufacturing PMI, delindex och makroregim')}
             </p>
           </div>
+          <div className="flex flex-wrap gap-2 self-start sm:self-auto">
+            <button type="button" onClick={refetch} disabled={loading} className={buttonClass}>
+              {t('ism.refresh', 'Uppdatera')}
+            </button>
+            {isAdmin && (
+              <label className={`${buttonClass} cursor-pointer flex items-center ${saving ? 'opacity-50 pointer-events-none' : ''}`}>
+                {t('ism.upload', 'Ladda upp CSV')}
+                <input type="file" accept=".csv,text/csv" className="sr-only" onChange={handleFileChange} />
+              </label>
+            )}
+            {isAdmin && upload && (
+              <button type="button" onClick={handleClearUpload} disabled={saving} className={buttonClass}>
+                {t('ism.clearUpload', 'Ta bort uppladdning')}
+              </button>
+            )}
+          </div>
         </div>
-        <div className="flex-1 min-h-0 flex items-center justify-center text-gray-500 dark:text-gray-400">
-          <p className="text-sm">Innehåll kommer snart.</p>
-        </div>
+
+        {loading && (
+          <div className="mb-4 flex-shrink-0">
+            <ProgressIndicator isLoading={true} label={t('ism.loading', 'Laddar ISM-data...')} />
+          </div>
+        )}
+
+        {!loading && error && (
+          <div className="text-red-600 dark:text-red-400 p-4">
+            <p>{error}</p>
+            <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+              {t('ism.sourceHelp', 'Lägg till fliken ISM (Date, PMI, New Orders, Inventories, Prices) i Dashboard-arket eller ladda upp en CSV med samma kolumner.')}
+            </p>
+          </div>
+        )}
+
+        {!loading && current && (
+          <div className="flex-1 min-h-0 overflow-y-auto space-y-4">
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {t('ism.sources', {
+                sheet: sheetCount,
+                defaultValue: `Arkflik ISM: ${sheetCount} månader`,
+              })}
+              {upload &&
+                ` · ${t('ism.uploadSource', {
+                  file: upload.fileName ?? 'CSV',
+                  count: upload.readings.length,
+                  defaultValue: `Uppladdad ${upload.fileName ?? 'CSV'}: ${upload.readings.length} månader`,
+                })}`}
+              {sheetError && upload && ` · ${t('ism.sheetUnavailable', 'arkfliken kunde inte läsas')}`}
+            </p>
+
+            <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600">
+              <div className="flex flex-wrap items-center gap-3 mb-3">
+                <h2 className="text-lg font-semibold text-black dark:text-white">{t('ism.currentRegime', 'Aktuell regim')}</h2>
+                <IsmRegimeBadge regime={current.regime} className="text-sm" />
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {t('ism.since', { month: current.since, defaultValue: `sedan ${current.since}` })}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-6 mb-2">
+                <div className="flex items-baseline gap-2">
+                  <span className="text-sm font-medium text-gray-600 dark:text-gray-400">PMI ({current.date}):</span>
+                  <span className={`text-lg font-semibold ${current.pmi >= ISM_NEUTRAL_LEVEL ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {current.pmi.toFixed(1)}
+                  </span>
+                </div>
+                <div className="flex items-baseline gap-2">
+                  <span className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                    {t('ism.pmiChange', { months: ISM_TREND_MONTHS, defaultValue: `Förändring ${ISM_TREND_MONTHS} mån` })}:
+                  </span>
+                  <span className="text-lg font-semibold text-black dark:text-white">{formatChange(current.pmiChange)}</span>
+                </div>
+                <div
+                  className="flex items-baseline gap-2"
+                  title={t('ism.spreadHelp', 'New Orders minus Inventories – ledande indikator, används när PMI-trenden är platt')}
+                >
+                  <span className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                    {t('ism.spread', 'New Orders − Inventories')}:
+                  </span>
+                  <span className="text-lg font-semibold text-black dark:text-white">
+                    {formatChange(current.newOrdersLessInventories)}
+                  </span>
+                </div>
+              </div>
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                {t('ism.modelHelp', {
+                  level: ISM_NEUTRAL_LEVEL,
+                  months: ISM_TREND_MONTHS,
+                  defaultValue: `PMI över ${ISM_NEUTRAL_LEVEL} och stigande = expansion, över ${ISM_NEUTRAL_LEVEL} och fallande = avmattning, under ${ISM_NEUTRAL_LEVEL} och fallande = kontraktion, under ${ISM_NEUTRAL_LEVEL} och stigande = återhämtning (trend över ${ISM_TREND_MONTHS} månader).`,
+                })}
+              </p>
+            </div>
+
+            <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                <h2 className="text-lg font-semibold text-black dark:text-white">{t('ism.history', 'Historik')}</h2>
+                <div className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden" role="group">
+                  {RANGES.map((r) => (
+                    <button
+                      key={r}
+                      type="button"
+                      onClick={() => setRange(r)}
+                      aria-pressed={range === r}
+                      className={`px-2 py-1 text-xs font-medium min-h-[32px] touch-manipulation ${
+                        range === r
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      {t(`ism.range.${r}`, r === 'ALL' ? 'Allt' : r.replace('Y', ' år'))}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <ResponsiveContainer width="100%" height={280}>
+                <LineChart data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? '#374151' : '#e5e7eb'} />
+                  <XAxis dataKey="date" tick={{ fill: tickColor, fontSize: 11 }} minTickGap={24} />
+                  <YAxis tick={{ fill: tickColor, fontSize: 11 }} width={40} domain={['auto', 'auto']} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: isDarkMode ? '#1f2937' : '#ffffff',
+                      borderColor: isDarkMode ? '#374151' : '#e5e7eb',
+                      fontSize: 12,
+                    }}
+                  />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <ReferenceLine y={ISM_NEUTRAL_LEVEL} stroke={isDarkMode ? '#9ca3af' : '#6b7280'} strokeDasharray="4 4" />
+                  <Line type="monotone" dataKey="pmi" name="PMI" stroke={isDarkMode ? '#93c5fd' : '#2563eb'} strokeWidth={2} dot={false} isAnimationActive={false} />
+                  <Line type="monotone" dataKey="newOrders" name={t('ism.newOrders', 'New Orders')} stroke={isDarkMode ? '#86efac' : '#16a34a'} strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+                  <Line type="monotone" dataKey="inventories" name={t('ism.inventories', 'Inventories')} stroke={isDarkMode ? '#fca5a5' : '#dc2626'} strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+                  <Line type="monotone" dataKey="prices" name={t('ism.prices', 'Prices')} stroke={isDarkMode ? '#fcd34d' : '#d97706'} strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600">
+              <h2 className="text-lg font-semibold text-black dark:text-white mb-1">{t('ism.tilts', 'Branschlutning')}</h2>
+              <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+                {t('ism.tiltsHelp', 'Branscher i Score Board som regimen gynnar eller missgynnar. Antal = bolag i Score Board.')}
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {(['favored', 'neutral', 'unfavored'] as IndustryTilt[]).map((tilt) => (
+                  <div key={tilt}>
+                    <h3 className={`text-sm font-semibold mb-2 ${TILT_CLASSES[tilt]}`}>
+                      {t(`ism.tilt.${tilt}`, tilt === 'favored' ? 'Gynnade' : tilt === 'neutral' ? 'Neutrala' : 'Missgynnade')}
+                    </h3>
+                    <ul className="space-y-1 text-sm text-black dark:text-white">
+                      {tilts
+                        .filter((row) => row.tilt === tilt)
+                        .map((row) => (
+                          <li key={row.industryKey} className="flex justify-between gap-2">
+                            <span>{row.industry}</span>
+                            <span className="text-gray-500 dark:text-gray-400 tabular-nums">
+                              {companiesByIndustry.get(row.industry.toLowerCase()) ?? 0}
+                            </span>
+                          </li>
+                        ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,18 +1,24 @@
 import { useTranslation } from 'react-i18next';
-import { lazy, Suspense, useMemo, useEffect } from 'react';
+import { lazy, Suspense, useState } from 'react';
 import { useIndustryThresholdData } from '../../hooks/useIndustryThresholdData';
+import { useShareableTableState } from '../../hooks/useShareableTableState';
 import { TableSkeleton } from '../SkeletonLoader';
 import { ThresholdProvider } from '../../contexts/ThresholdContext';
+import { useAuth } from '../../contexts/AuthContext';
 
 // Lazy load table component
 const IndustryThresholdTable = lazy(() => import('../IndustryThresholdTable'));
+const ThresholdSuggestionsPanel = lazy(() => import('../ThresholdSuggestionsPanel'));
 
 const VIEW_ID = 'industry-threshold';
 const TABLE_ID = 'industry-threshold';
 
 export default function IndustryThresholdView() {
   const { t } = useTranslation();
+  const sharedTableState = useShareableTableState(TABLE_ID);
   const { data, loading, error } = useIndustryThresholdData();
+  const { userRole } = useAuth();
+  const [showSuggestions, setShowSuggestions] = useState(false);
 
   return (
     <ThresholdProvider>
@@ -25,10 +31,29 @@ export default function IndustryThresholdView() {
               </h1>
               <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 font-medium">Tröskelvärden per bransch</p>
             </div>
+            {userRole === 'admin' && (
+              <button
+                type="button"
+                onClick={() => setShowSuggestions((show) => !show)}
+                aria-pressed={showSuggestions}
+                className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                  showSuggestions
+                    ? 'text-white bg-blue-600 hover:bg-blue-700'
+                    : 'text-blue-700 dark:text-blue-200 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/40'
+                }`}
+              >
+                {t('thresholdSuggestions.toggle', 'Auto-föreslå')}
+              </button>
+            )}
           </div>
+          {showSuggestions && (
+            <Suspense fallback={<TableSkeleton rows={4} columns={6} />}>
+              <ThresholdSuggestionsPanel thresholdData={data} />
+            </Suspense>
+          )}
           <div className="flex-1 min-h-0 transition-all duration-300 ease-in-out">
             <Suspense fallback={<TableSkeleton rows={10} columns={8} hasStickyColumns={true} />}>
-              <IndustryThresholdTable data={data} loading={loading} error={error} />
+              <IndustryThresholdTable data={data} loading={loading} error={error} initialTableState={sharedTableState} />
             </Suspense>
           </div>
         </div>
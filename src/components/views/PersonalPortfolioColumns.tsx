@@ -1,35 +1,57 @@
 /**
  * Column definitions and table item type for Personal Portfolio view.
- * Refactored out of PersonalPortfolioView (refactor-only, no behavior change).
+ * Amount columns are labelled with the user's base currency.
  */
 
 import type { ColumnDefinition } from '../BaseTable';
 import type { PortfolioItem } from '../../types/portfolio';
 
+/** Per-broker breakdown row; amounts in the user's base currency */
+export interface PortfolioBrokerBreakdown {
+  broker: string;
+  quantity: number;
+  investedAmount: number | null;
+  investmentCurrency: string;
+  investedBase: number | null;
+  marketValueBase: number | null;
+}
+
+/** Table row; price, cost and P/L fields are in the user's base currency */
 export interface PortfolioTableItem extends PortfolioItem {
   rowNumber?: number;
   currentPrice?: number | null;
-  currentPriceUSD?: number | null;
+  currentPriceBase?: number | null;
+  average?: number | null;
   invested?: number | null;
   marketValue?: number | null;
   profitLoss?: number | null;
+  profitLossPrice?: number | null;
+  profitLossCurrency?: number | null;
   profitLossPercent?: number | null;
+  realizedProfitLossBase?: number | null;
   marketWeight?: number | null;
+  brokerBreakdown?: PortfolioBrokerBreakdown[];
 }
 
-export const PORTFOLIO_COLUMNS: ColumnDefinition<PortfolioTableItem>[] = [
-  { key: 'rowNumber', label: 'Antal', required: true, sticky: true, sortable: false },
-  { key: 'companyName', label: 'Company Name', required: true, sticky: true, sortable: true },
-  { key: 'ticker', label: 'Ticker', required: true, sticky: true, sortable: true },
-  { key: 'currency', label: 'Currency', defaultVisible: false, sticky: true, sortable: true, align: 'center' },
-  { key: 'currentPrice', label: 'Current Price', defaultVisible: false, sortable: true, align: 'center' },
-  { key: 'currentPriceUSD', label: 'Current Price($)', defaultVisible: true, sortable: true, align: 'center' },
-  { key: 'quantity', label: 'Quantity', defaultVisible: true, sortable: true, align: 'center' },
-  { key: 'average', label: 'Average ($)', defaultVisible: true, sortable: true, align: 'center' },
-  { key: 'invested', label: 'Invested ($)', defaultVisible: true, sortable: true, align: 'center' },
-  { key: 'marketValue', label: 'Market Value ($)', defaultVisible: true, sortable: true, align: 'center' },
-  { key: 'profitLoss', label: 'P/L ($)', defaultVisible: true, sortable: true, align: 'center' },
-  { key: 'profitLossPercent', label: 'P/L%', defaultVisible: true, sortable: true, align: 'center' },
-  { key: 'marketWeight', label: 'Market Weight', defaultVisible: true, sortable: true, align: 'center' },
-  { key: 'actions', label: 'Actions', required: false, sortable: false, align: 'right' },
-];
+export function getPortfolioColumns(baseCurrency: string): ColumnDefinition<PortfolioTableItem>[] {
+  const c = baseCurrency;
+  return [
+    { key: 'rowNumber', label: 'Antal', required: true, sticky: true, sortable: false },
+    { key: 'companyName', label: 'Company Name', required: true, sticky: true, sortable: true },
+    { key: 'ticker', label: 'Ticker', required: true, sticky: true, sortable: true },
+    { key: 'currency', label: 'Currency', defaultVisible: false, sticky: true, sortable: true, align: 'center' },
+    { key: 'currentPrice', label: 'Current Price', defaultVisible: false, sortable: true, align: 'center' },
+    { key: 'currentPriceBase', label: `Current Price (${c})`, defaultVisible: true, sortable: true, align: 'center' },
+    { key: 'quantity', label: 'Quantity', defaultVisible: true, sortable: true, align: 'center' },
+    { key: 'average', label: `Average (${c})`, defaultVisible: true, sortable: true, align: 'center' },
+    { key: 'invested', label: `Invested (${c})`, defaultVisible: true, sortable: true, align: 'center' },
+    { key: 'marketValue', label: `Market Value (${c})`, defaultVisible: true, sortable: true, align: 'center' },
+    { key: 'profitLoss', label: `Unrealized P/L (${c})`, defaultVisible: true, sortable: true, align: 'center' },
+    { key: 'profitLossPrice', label: `P/L Price (${c})`, defaultVisible: false, sortable: true, align: 'center' },
+    { key: 'profitLossCurrency', label: `P/L Currency (${c})`, defaultVisible: false, sortable: true, align: 'center' },
+    { key: 'profitLossPercent', label: 'P/L%', defaultVisible: true, sortable: true, align: 'center' },
+    { key: 'realizedProfitLossBase', label: `Realized P/L (${c})`, defaultVisible: true, sortable: true, align: 'center' },
+    { key: 'marketWeight', label: 'Market Weight', defaultVisible: true, sortable: true, align: 'center' },
+    { key: 'actions', label: 'Actions', required: false, sortable: false, align: 'right' },
+  ];
+}
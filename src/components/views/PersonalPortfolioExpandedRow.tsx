@@ -1,25 +1,29 @@
 /**
- * Expanded row content for Personal Portfolio: per-broker breakdown table.
- * Refactored out of PersonalPortfolioView (refactor-only, no behavior change).
+ * Expanded row content for Personal Portfolio: per-broker breakdown (also in base currency) and transaction ledger.
+ * Refactored out of PersonalPortfolioView.
  */
 
 import React from 'react';
 import { useTranslation } from 'react-i18next';
-import type { PortfolioPosition } from '../../types/portfolio';
-import type { PortfolioTableItem } from './PersonalPortfolioColumns';
+import type { PortfolioBrokerBreakdown, PortfolioTableItem } from './PersonalPortfolioColumns';
+import { sortTransactions } from '../../services/personalPortfolioService';
 
 interface PersonalPortfolioExpandedRowProps {
   item: PortfolioTableItem;
+  baseCurrency: string;
   formatCurrency: (amount: number, currency: string) => string;
+  formatBase: (amount: number | null | undefined) => string;
 }
 
 export function PersonalPortfolioExpandedRow({
   item,
+  baseCurrency,
   formatCurrency,
+  formatBase,
 }: PersonalPortfolioExpandedRowProps) {
   const { t } = useTranslation();
-  const positions: PortfolioPosition[] =
-    item.positions && item.positions.length > 0 ? item.positions : [];
+  const positions: PortfolioBrokerBreakdown[] = item.brokerBreakdown ?? [];
+  const transactions = sortTransactions(item.transactions ?? []);
 
   return (
     <div className="px-6 py-4">
@@ -29,7 +33,13 @@ export function PersonalPortfolioExpandedRow({
             <th className="py-2 pr-4 font-semibold">{t('portfolio.broker', 'Broker')}</th>
             <th className="py-2 pr-4 font-semibold">{t('portfolio.quantity', 'Antal')}</th>
             <th className="py-2 pr-4 font-semibold">{t('portfolio.investedAmount', 'Investerat belopp')}</th>
-            <th className="py-2 font-semibold">{t('portfolio.investmentCurrency', 'Valuta')}</th>
+            <th className="py-2 pr-4 font-semibold">{t('portfolio.investmentCurrency', 'Valuta')}</th>
+            <th className="py-2 pr-4 font-semibold">
+              {t('portfolio.investedIn', { currency: baseCurrency, defaultValue: `Investerat (${baseCurrency})` })}
+            </th>
+            <th className="py-2 font-semibold">
+              {t('portfolio.marketValueIn', { currency: baseCurrency, defaultValue: `Marknadsvärde (${baseCurrency})` })}
+            </th>
           </tr>
         </thead>
         <tbody>
@@ -42,14 +52,50 @@ export function PersonalPortfolioExpandedRow({
               <td className="py-2 pr-4">{pos.quantity}</td>
               <td className="py-2 pr-4">
                 {pos.investedAmount != null && pos.investedAmount > 0
-                  ? formatCurrency(pos.investedAmount, pos.investmentCurrency || 'USD')
+                  ? formatCurrency(pos.investedAmount, pos.investmentCurrency)
                   : '-'}
               </td>
-              <td className="py-2">{pos.investmentCurrency || 'USD'}</td>
+              <td className="py-2 pr-4">{pos.investmentCurrency}</td>
+              <td className="py-2 pr-4">{formatBase(pos.investedBase)}</td>
+              <td className="py-2">{formatBase(pos.marketValueBase)}</td>
             </tr>
           ))}
         </tbody>
       </table>
+      {transactions.length > 0 && (
+        <table className="w-full mt-4 text-xs text-left text-gray-600 dark:text-gray-400">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-600">
+              <th className="py-1 pr-4 font-semibold">{t('portfolio.tradeDate', 'Affärsdag')}</th>
+              <th className="py-1 pr-4 font-semibold">{t('portfolio.transactionTypeLabel', 'Typ')}</th>
+              <th className="py-1 pr-4 font-semibold">{t('portfolio.broker', 'Broker')}</th>
+              <th className="py-1 pr-4 font-semibold">{t('portfolio.quantity', 'Antal')}</th>
+              <th className="py-1 pr-4 font-semibold">{t('portfolio.transactionPrice', 'Kurs / belopp')}</th>
+              <th className="py-1 font-semibold">{t('portfolio.fxRate', 'Valutakurs')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {transactions.map((tx) => (
+              <tr key={tx.id} className="border-b border-gray-100 dark:border-gray-700 last:border-0">
+                <td className="py-1 pr-4">{tx.tradeDate}</td>
+                <td className="py-1 pr-4">{t(`portfolio.transactionType.${tx.type}`, tx.type)}</td>
+                <td className="py-1 pr-4">{tx.broker}</td>
+                <td className="py-1 pr-4">
+                  {tx.type === 'split' ? `${tx.splitRatio ?? '-'}:1` : tx.type === 'buy' || tx.type === 'sell' ? tx.quantity : ''}
+                </td>
+                <td className="py-1 pr-4">
+                  {tx.type === 'buy' || tx.type === 'sell'
+                    ? formatCurrency(tx.price, tx.currency)
+                    : tx.type === 'dividend' || tx.type === 'fee'
+                      ? formatCurrency(tx.amount ?? 0, tx.currency)
+                      : ''}
+                </td>
+                <td className="py-1">{tx.currency === 'USD' ? '-' : tx.fxRateToUSD.toFixed(4)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
     </div>
   );
 }
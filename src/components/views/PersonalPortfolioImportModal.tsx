@@ -0,0 +1,379 @@
+/**
+ * Import wizard for Personal Portfolio: broker statement → matched Score Board tickers → diff preview → save.
+ */
+
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { CostBasisMethod, PortfolioItem } from '../../types/portfolio';
+import { useScoreBoardData } from '../../hooks/useScoreBoardData';
+import { getExchangeRate } from '../../services/currencyService';
+import {
+  previewPortfolioImport,
+  type PortfolioImportGroup,
+  type PortfolioImportPreview,
+} from '../../services/personalPortfolioService';
+import {
+  BROKER_FORMAT_NAMES,
+  decodeStatementFile,
+  detectBrokerFormat,
+  matchImportedTransactions,
+  parseBrokerStatement,
+  toPortfolioTransactions,
+  type BrokerFormat,
+  type BrokerParseResult,
+  type UniverseInstrument,
+} from '../../utils/brokerImport';
+import { logger } from '../../utils/logger';
+
+interface PersonalPortfolioImportModalProps {
+  portfolio: PortfolioItem[];
+  costBasisMethod: CostBasisMethod;
+  instrumentMappings: Record<string, string>;
+  getStockInfo: (ticker: string, companyName: string) => { currency: string; price: number | null };
+  onSave: (portfolio: PortfolioItem[], instrumentMappings: Record<string, string>) => Promise<void>;
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview';
+
+const inputClass =
+  'w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-500 rounded bg-white dark:bg-gray-700 text-black dark:text-white';
+
+export function PersonalPortfolioImportModal({
+  portfolio,
+  costBasisMethod,
+  instrumentMappings,
+  getStockInfo,
+  onSave,
+  onClose,
+}: PersonalPortfolioImportModalProps) {
+  const { t } = useTranslation();
+  const { data: scoreBoardData, loading: universeLoading } = useScoreBoardData();
+  const [step, setStep] = useState<Step>('upload');
+  const [format, setFormat] = useState<BrokerFormat>('avanza');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [mappings, setMappings] = useState<Record<string, string>>(instrumentMappings);
+  const [preview, setPreview] = useState<PortfolioImportPreview | null>(null);
+  const [estimatedFx, setEstimatedFx] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const universe: UniverseInstrument[] = useMemo(
+    () => scoreBoardData.map((item) => ({ ticker: item.ticker, companyName: item.companyName })),
+    [scoreBoardData]
+  );
+
+  const parsed: BrokerParseResult | null = useMemo(
+    () => (fileText !== null ? parseBrokerStatement(fileText, format) : null),
+    [fileText, format]
+  );
+
+  const match = useMemo(
+    () => (parsed ? matchImportedTransactions(parsed.transactions, universe, mappings) : null),
+    [parsed, universe, mappings]
+  );
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      const text = decodeStatementFile(await file.arrayBuffer());
+      const detected = detectBrokerFormat(text);
+      if (detected) setFormat(detected);
+      setFileName(file.name);
+      setFileText(text);
+    } catch (err) {
+      logger.error('Failed to read broker statement', err, { component: 'PersonalPortfolioImportModal' });
+      setError(t('portfolioImport.readError', 'Filen kunde inte läsas'));
+    }
+  };
+
+  const buildPreview = async () => {
+    if (!match) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const currencies = new Set<string>();
+      for (const entry of match.matched.values()) {
+        for (const tx of entry.transactions) if (tx.currency !== 'USD') currencies.add(tx.currency);
+      }
+      const rates: Record<string, number> = {};
+      const missing: string[] = [];
+      for (const ccy of currencies) {
+        const rate = await getExchangeRate(ccy, 'USD');
+        if (rate === null) missing.push(ccy);
+        else rates[ccy] = rate;
+      }
+      if (missing.length > 0) {
+        setError(t('portfolioImport.fxMissing', { currencies: missing.join(', '), defaultValue: `Valutakurs saknas för ${missing.join(', ')}` }));
+        return;
+      }
+
+      const groups: PortfolioImportGroup[] = [...match.matched.values()].map(({ instrument, transactions }) => {
+        const info = getStockInfo(instrument.ticker, instrument.companyName);
+        return {
+          ticker: instrument.ticker,
+          companyName: instrument.companyName,
+          currency: info.currency,
+          price: info.price,
+          transactions: toPortfolioTransactions(format, transactions, rates),
+        };
+      });
+      setEstimatedFx([...currencies]);
+      setPreview(previewPortfolioImport(portfolio, groups, costBasisMethod));
+      setStep('preview');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!preview) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await onSave(preview.portfolio, mappings);
+    } catch (err) {
+      logger.error('Failed to save imported portfolio', err, { component: 'PersonalPortfolioImportModal' });
+      setError(t('portfolioImport.saveError', 'Importen kunde inte sparas'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const formatUSD = (value: number | null) => (value === null ? '-' : `$${value.toFixed(2)}`);
+  const formatQuantity = (value: number) => Number(value.toFixed(6)).toString();
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 overflow-y-auto py-8"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="portfolio-import-title"
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-4xl w-full mx-4 shadow-xl my-auto">
+        <h3 id="portfolio-import-title" className="text-lg font-semibold text-black dark:text-white mb-4">
+          {t('portfolioImport.title', 'Importera från broker')}
+        </h3>
+
+        {step === 'upload' && (
+          <div className="space-y-3">
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              {t('portfolioImport.broker', 'Broker')}
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as BrokerFormat)}
+                className={`${inputClass} mt-1`}
+              >
+                {(Object.keys(BROKER_FORMAT_NAMES) as BrokerFormat[]).map((key) => (
+                  <option key={key} value={key}>
+                    {BROKER_FORMAT_NAMES[key]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              {t('portfolioImport.file', 'Transaktionsfil (CSV)')}
+              <input
+                type="file"
+                accept=".csv,.txt,.tsv,text/csv,text/plain"
+                onChange={(e) => void handleFile(e.target.files?.[0])}
+                className="block mt-1 text-sm"
+              />
+            </label>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {t(
+                'portfolioImport.fileHelp',
+                'Avanza: Transaktioner (CSV). Nordnet: Transaktioner och notor. eToro: kontoutdragets flik Account Activity sparad som CSV. Interactive Brokers: Activity Statement (CSV).'
+              )}
+            </p>
+            {parsed && (
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                {t('portfolioImport.parsed', {
+                  file: fileName,
+                  count: parsed.transactions.length,
+                  skipped: parsed.skipped.length,
+                  defaultValue: `${fileName}: ${parsed.transactions.length} transaktioner, ${parsed.skipped.length} rader hoppades över`,
+                })}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'map' && match && (
+          <div>
+            <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">
+              {t('portfolioImport.matched', {
+                matched: match.matched.size,
+                unmatched: match.unmatched.length,
+                defaultValue: `${match.matched.size} värdepapper matchade, ${match.unmatched.length} omatchade`,
+              })}
+            </p>
+            {match.unmatched.length > 0 && (
+              <>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                  {t('portfolioImport.mapHelp', 'Välj ticker för omatchade värdepapper. Omatchade värdepapper importeras inte. Kopplingen sparas till nästa import.')}
+                </p>
+                <div className="max-h-[45vh] overflow-auto">
+                  <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300">
+                    <thead>
+                      <tr className="border-b border-gray-200 dark:border-gray-600">
+                        <th className="py-2 pr-2 font-semibold">{t('portfolioImport.security', 'Värdepapper')}</th>
+                        <th className="py-2 pr-2 font-semibold">ISIN</th>
+                        <th className="py-2 pr-2 font-semibold">{t('portfolioImport.transactionCount', 'Transaktioner')}</th>
+                        <th className="py-2 font-semibold">{t('portfolioImport.ticker', 'Ticker')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {match.unmatched.map((item) => (
+                        <tr key={item.key} className="border-b border-gray-100 dark:border-gray-700">
+                          <td className="py-1 pr-2">{item.symbol && item.symbol !== item.name ? `${item.name} (${item.symbol})` : item.name}</td>
+                          <td className="py-1 pr-2">{item.isin ?? '-'}</td>
+                          <td className="py-1 pr-2">{item.transactionCount}</td>
+                          <td className="py-1">
+                            <input
+                              list="portfolio-import-universe"
+                              defaultValue=""
+                              onBlur={(e) => {
+                                const ticker = e.target.value.trim();
+                                if (ticker && universe.some((u) => u.ticker === ticker)) {
+                                  setMappings((prev) => ({ ...prev, [item.key]: ticker }));
+                                }
+                              }}
+                              className={inputClass}
+                              aria-label={t('portfolioImport.ticker', 'Ticker')}
+                            />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <datalist id="portfolio-import-universe">
+                    {universe.map((u) => (
+                      <option key={u.ticker} value={u.ticker}>
+                        {u.companyName}
+                      </option>
+                    ))}
+                  </datalist>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && preview && (
+          <div>
+            {estimatedFx.length > 0 && (
+              <p className="text-xs text-yellow-700 dark:text-yellow-400 mb-2">
+                {t('portfolioImport.fxEstimated', {
+                  currencies: estimatedFx.join(', '),
+                  defaultValue: `Filen saknar USD-kurser; dagens kurs används för ${estimatedFx.join(', ')}. Justera i transaktionsloggen vid behov.`,
+                })}
+              </p>
+            )}
+            {preview.duplicateCount > 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                {t('portfolioImport.duplicates', {
+                  count: preview.duplicateCount,
+                  defaultValue: `${preview.duplicateCount} transaktioner finns redan och hoppas över`,
+                })}
+              </p>
+            )}
+            {preview.diff.length === 0 ? (
+              <p className="text-sm text-gray-700 dark:text-gray-300">{t('portfolioImport.noChanges', 'Inga ändringar att importera')}</p>
+            ) : (
+              <div className="max-h-[45vh] overflow-auto">
+                <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300">
+                  <thead>
+                    <tr className="border-b border-gray-200 dark:border-gray-600">
+                      <th className="py-2 pr-2 font-semibold">{t('portfolioImport.security', 'Värdepapper')}</th>
+                      <th className="py-2 pr-2 font-semibold">{t('portfolioImport.status', 'Status')}</th>
+                      <th className="py-2 pr-2 font-semibold">{t('portfolio.quantity', 'Antal')}</th>
+                      <th className="py-2 pr-2 font-semibold">{t('portfolioImport.average', 'Genomsnitt ($)')}</th>
+                      <th className="py-2 font-semibold">{t('portfolioImport.transactionCount', 'Transaktioner')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.diff.map((row) => (
+                      <tr key={row.ticker} className="border-b border-gray-100 dark:border-gray-700">
+                        <td className="py-1 pr-2">
+                          <span className="font-medium">{row.ticker}</span>{' '}
+                          <span className="text-xs text-gray-500 dark:text-gray-400">{row.companyName}</span>
+                        </td>
+                        <td className="py-1 pr-2">
+                          {row.status === 'added'
+                            ? <span className="text-green-600 dark:text-green-400">{t('portfolioImport.added', 'Ny')}</span>
+                            : <span className="text-blue-600 dark:text-blue-400">{t('portfolioImport.changed', 'Ändrad')}</span>}
+                          {row.oversold && (
+                            <span className="block text-xs text-red-600 dark:text-red-400">
+                              {t('portfolioImport.oversold', 'Försäljning utan motsvarande köp')}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-1 pr-2">
+                          {formatQuantity(row.quantityBefore)} → {formatQuantity(row.quantityAfter)}
+                        </td>
+                        <td className="py-1 pr-2">
+                          {formatUSD(row.averagePriceBefore)} → {formatUSD(row.averagePriceAfter)}
+                        </td>
+                        <td className="py-1">+{row.newTransactions}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <div className="flex gap-2 mt-6">
+          {step === 'upload' && (
+            <button
+              onClick={() => setStep('map')}
+              disabled={!parsed || parsed.transactions.length === 0 || universeLoading}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-md transition-colors min-h-[44px] touch-manipulation"
+            >
+              {universeLoading ? t('common.loading', 'Laddar...') : t('portfolioImport.next', 'Nästa')}
+            </button>
+          )}
+          {step === 'map' && (
+            <button
+              onClick={() => void buildPreview()}
+              disabled={busy || !match || match.matched.size === 0}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-md transition-colors min-h-[44px] touch-manipulation"
+            >
+              {t('portfolioImport.showPreview', 'Förhandsgranska')}
+            </button>
+          )}
+          {step === 'preview' && (
+            <button
+              onClick={() => void handleSave()}
+              disabled={busy || !preview || preview.diff.length === 0}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-md transition-colors min-h-[44px] touch-manipulation"
+            >
+              {t('portfolioImport.save', 'Importera')}
+            </button>
+          )}
+          {step !== 'upload' && (
+            <button
+              onClick={() => setStep(step === 'preview' ? 'map' : 'upload')}
+              disabled={busy}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-black dark:text-white rounded-md transition-colors min-h-[44px] touch-manipulation"
+            >
+              {t('portfolioImport.back', 'Tillbaka')}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-300 dark:bg-gray-600 hover:bg-gray-400 dark:hover:bg-gray-500 text-black dark:text-white rounded-md transition-colors min-h-[44px] touch-manipulation"
+          >
+            {t('common.cancel', 'Avbryt')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
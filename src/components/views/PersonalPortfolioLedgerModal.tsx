@@ -0,0 +1,344 @@
+/**
+ * Edit modal for Personal Portfolio: transaction ledger for one ticker.
+ * Positions, average price and realized P/L are derived from the ledger (preview shown before saving).
+ */
+
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { CostBasisMethod, PortfolioTransaction, PortfolioTransactionType } from '../../types/portfolio';
+import type { PortfolioTableItem } from './PersonalPortfolioColumns';
+import { createTransactionId, deriveHolding, sortTransactions, toTradeDate } from '../../services/personalPortfolioService';
+import { getExchangeRate } from '../../services/currencyService';
+import { DEFAULT_BROKERS } from '../../config/brokers';
+
+interface PersonalPortfolioLedgerModalProps {
+  item: PortfolioTableItem;
+  costBasisMethod: CostBasisMethod;
+  onSave: (transactions: PortfolioTransaction[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const TRANSACTION_TYPES: { type: PortfolioTransactionType; labelKey: string; fallback: string }[] = [
+  { type: 'buy', labelKey: 'portfolio.transactionType.buy', fallback: 'Köp' },
+  { type: 'sell', labelKey: 'portfolio.transactionType.sell', fallback: 'Sälj' },
+  { type: 'dividend', labelKey: 'portfolio.transactionType.dividend', fallback: 'Utdelning' },
+  { type: 'fee', labelKey: 'portfolio.transactionType.fee', fallback: 'Avgift' },
+  { type: 'split', labelKey: 'portfolio.transactionType.split', fallback: 'Split' },
+];
+
+const CURRENCIES = ['USD', 'SEK', 'EUR', 'GBP', 'DKK', 'NOK', 'CHF', 'AUD', 'CAD'];
+
+const inputClass =
+  'w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-500 rounded bg-white dark:bg-gray-700 text-black dark:text-white';
+
+function toNumberOrNull(value: string): number | null {
+  if (value.trim() === '') return null;
+  const n = parseFloat(value);
+  return isNaN(n) ? null : n;
+}
+
+/** Whether a transaction has the fields its type needs */
+function isValidTransaction(tx: PortfolioTransaction): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(tx.tradeDate) || !tx.broker.trim() || !(tx.fxRateToUSD > 0)) return false;
+  switch (tx.type) {
+    case 'buy':
+    case 'sell':
+      return tx.quantity > 0 && tx.price >= 0 && (tx.fee ?? 0) >= 0;
+    case 'dividend':
+    case 'fee':
+      return tx.amount != null && tx.amount >= 0;
+    case 'split':
+      return tx.splitRatio != null && tx.splitRatio > 0;
+  }
+}
+
+export function PersonalPortfolioLedgerModal({
+  item,
+  costBasisMethod,
+  onSave,
+  onClose,
+}: PersonalPortfolioLedgerModalProps) {
+  const { t } = useTranslation();
+  const [transactions, setTransactions] = useState<PortfolioTransaction[]>(() =>
+    sortTransactions(item.transactions ?? []).map((tx) => ({ ...tx }))
+  );
+  const [saving, setSaving] = useState(false);
+
+  const holding = useMemo(() => deriveHolding(transactions, costBasisMethod), [transactions, costBasisMethod]);
+  const invalidIds = useMemo(
+    () => new Set(transactions.filter((tx) => !isValidTransaction(tx)).map((tx) => tx.id)),
+    [transactions]
+  );
+  const oversoldIds = useMemo(() => new Set(holding.oversoldTransactionIds), [holding]);
+  const canSave = transactions.length > 0 && invalidIds.size === 0 && oversoldIds.size === 0 && !saving;
+
+  const updateTransaction = (id: string, updates: Partial<PortfolioTransaction>) => {
+    setTransactions((prev) => prev.map((tx) => (tx.id === id ? { ...tx, ...updates } : tx)));
+  };
+
+  const changeCurrency = async (id: string, currency: string) => {
+    updateTransaction(id, { currency });
+    // Prefill with today's rate; the user adjusts it for older trades
+    const rate = await getExchangeRate(currency, 'USD');
+    if (rate !== null) updateTransaction(id, { fxRateToUSD: rate });
+  };
+
+  const addTransaction = () => {
+    const last = transactions[transactions.length - 1];
+    setTransactions((prev) => [
+      ...prev,
+      {
+        id: createTransactionId(),
+        type: 'buy',
+        broker: last?.broker ?? DEFAULT_BROKERS[0],
+        tradeDate: toTradeDate(),
+        quantity: 0,
+        price: 0,
+        amount: null,
+        fee: null,
+        splitRatio: null,
+        currency: last?.currency ?? 'USD',
+        fxRateToUSD: last?.fxRateToUSD ?? 1,
+        note: null,
+      },
+    ]);
+  };
+
+  const removeTransaction = (id: string) => {
+    setTransactions((prev) => prev.filter((tx) => tx.id !== id));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(sortTransactions(transactions));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 overflow-y-auto py-8"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="edit-investment-title"
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-5xl w-full mx-4 shadow-xl my-auto">
+        <h3 id="edit-investment-title" className="text-lg font-semibold text-black dark:text-white mb-2">
+          {t('portfolio.transactions', 'Transaktioner')}
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          {item.companyName} ({item.ticker}) ·{' '}
+          {t('portfolio.fxRateHelp', 'Valutakurs = USD per 1 enhet av transaktionens valuta på affärsdagen')}
+        </p>
+
+        <div className="mb-4 max-h-[50vh] overflow-auto">
+          <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-600">
+                <th className="py-2 pr-2 font-semibold">{t('portfolio.tradeDate', 'Affärsdag')}</th>
+                <th className="py-2 pr-2 font-semibold">{t('portfolio.transactionTypeLabel', 'Typ')}</th>
+                <th className="py-2 pr-2 font-semibold">{t('portfolio.broker', 'Broker')}</th>
+                <th className="py-2 pr-2 font-semibold">{t('portfolio.quantity', 'Antal')}</th>
+                <th className="py-2 pr-2 font-semibold">{t('portfolio.transactionPrice', 'Kurs / belopp')}</th>
+                <th className="py-2 pr-2 font-semibold">{t('portfolio.transactionFee', 'Courtage')}</th>
+                <th className="py-2 pr-2 font-semibold">{t('portfolio.investmentCurrency', 'Valuta')}</th>
+                <th className="py-2 pr-2 font-semibold">{t('portfolio.fxRate', 'Valutakurs')}</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {transactions.map((tx) => {
+                const isTrade = tx.type === 'buy' || tx.type === 'sell';
+                const rowError = invalidIds.has(tx.id) || oversoldIds.has(tx.id);
+                return (
+                  <tr
+                    key={tx.id}
+                    className={`border-b border-gray-100 dark:border-gray-700 ${rowError ? 'bg-red-50 dark:bg-red-900/20' : ''}`}
+                  >
+                    <td className="py-1 pr-2">
+                      <input
+                        type="date"
+                        value={tx.tradeDate}
+                        onChange={(e) => updateTransaction(tx.id, { tradeDate: e.target.value })}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <select
+                        value={tx.type}
+                        onChange={(e) => updateTransaction(tx.id, { type: e.target.value as PortfolioTransactionType })}
+                        className={inputClass}
+                      >
+                        {TRANSACTION_TYPES.map((option) => (
+                          <option key={option.type} value={option.type}>
+                            {t(option.labelKey, option.fallback)}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="text"
+                        value={tx.broker}
+                        onChange={(e) => updateTransaction(tx.id, { broker: e.target.value })}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      {isTrade && (
+                        <input
+                          type="number"
+                          value={tx.quantity}
+                          min="0"
+                          step="any"
+                          onChange={(e) => updateTransaction(tx.id, { quantity: parseFloat(e.target.value) || 0 })}
+                          className={`${inputClass} w-24`}
+                        />
+                      )}
+                      {tx.type === 'split' && (
+                        <input
+                          type="number"
+                          value={tx.splitRatio ?? ''}
+                          min="0"
+                          step="any"
+                          placeholder={t('portfolio.splitRatio', 'Kvot')}
+                          title={t('portfolio.splitRatioHelp', 'Nya aktier per gammal aktie, t.ex. 2 för 2:1')}
+                          onChange={(e) => updateTransaction(tx.id, { splitRatio: toNumberOrNull(e.target.value) })}
+                          className={`${inputClass} w-24`}
+                        />
+                      )}
+                    </td>
+                    <td className="py-1 pr-2">
+                      {isTrade && (
+                        <input
+                          type="number"
+                          value={tx.price}
+                          min="0"
+                          step="any"
+                          onChange={(e) => updateTransaction(tx.id, { price: parseFloat(e.target.value) || 0 })}
+                          className={`${inputClass} w-24`}
+                        />
+                      )}
+                      {(tx.type === 'dividend' || tx.type === 'fee') && (
+                        <input
+                          type="number"
+                          value={tx.amount ?? ''}
+                          min="0"
+                          step="any"
+                          onChange={(e) => updateTransaction(tx.id, { amount: toNumberOrNull(e.target.value) })}
+                          className={`${inputClass} w-24`}
+                        />
+                      )}
+                    </td>
+                    <td className="py-1 pr-2">
+                      {isTrade && (
+                        <input
+                          type="number"
+                          value={tx.fee ?? ''}
+                          min="0"
+                          step="any"
+                          placeholder="—"
+                          onChange={(e) => updateTransaction(tx.id, { fee: toNumberOrNull(e.target.value) })}
+                          className={`${inputClass} w-20`}
+                        />
+                      )}
+                    </td>
+                    <td className="py-1 pr-2">
+                      <select
+                        value={tx.currency}
+                        onChange={(e) => void changeCurrency(tx.id, e.target.value)}
+                        className={inputClass}
+                      >
+                        {(CURRENCIES.includes(tx.currency) ? CURRENCIES : [tx.currency, ...CURRENCIES]).map((ccy) => (
+                          <option key={ccy} value={ccy}>{ccy}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="number"
+                        value={tx.fxRateToUSD}
+                        min="0"
+                        step="any"
+                        disabled={tx.currency === 'USD'}
+                        onChange={(e) => updateTransaction(tx.id, { fxRateToUSD: parseFloat(e.target.value) || 0 })}
+                        className={`${inputClass} w-24 disabled:opacity-50`}
+                      />
+                    </td>
+                    <td className="py-1 text-right">
+                      <button
+                        type="button"
+                        onClick={() => removeTransaction(tx.id)}
+                        className="px-2 py-1 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                        aria-label={t('portfolio.removeTransaction', 'Ta bort transaktion')}
+                      >
+                        {t('portfolio.removePosition', 'Ta bort')}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mb-4">
+          <button
+            type="button"
+            onClick={addTransaction}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {t('portfolio.addTransaction', 'Lägg till transaktion')}
+          </button>
+        </div>
+
+        {oversoldIds.size > 0 && (
+          <p className="mb-2 text-sm text-red-600 dark:text-red-400">
+            {t('portfolio.oversold', 'En försäljning överstiger innehavet hos brokern på affärsdagen.')}
+          </p>
+        )}
+        {invalidIds.size > 0 && (
+          <p className="mb-2 text-sm text-red-600 dark:text-red-400">
+            {t('portfolio.transactionInvalid', 'Markerade transaktioner saknar värden eller har ogiltiga värden.')}
+          </p>
+        )}
+
+        <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-md text-sm text-gray-700 dark:text-gray-300 flex flex-wrap gap-x-6 gap-y-1">
+          <span>
+            <span className="font-medium">{t('portfolio.quantity', 'Antal')}:</span> {holding.quantity}
+          </span>
+          <span>
+            <span className="font-medium">{t('portfolio.calculatedAverage', 'Beräknat genomsnitt:')}</span>{' '}
+            {holding.averagePriceUSD !== null ? `$${holding.averagePriceUSD.toFixed(2)}` : '-'}
+          </span>
+          <span>
+            <span className="font-medium">{t('portfolio.totalRealized', 'Realiserat ($)')}:</span>{' '}
+            ${holding.realizedProfitLossUSD.toFixed(2)}
+          </span>
+          <span>
+            <span className="font-medium">{t('portfolio.dividends', 'Utdelningar ($)')}:</span>{' '}
+            ${holding.dividendsUSD.toFixed(2)}
+          </span>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-md transition-colors min-h-[44px] touch-manipulation"
+          >
+            {t('common.save', 'Spara')}
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-300 dark:bg-gray-600 hover:bg-gray-400 dark:hover:bg-gray-500 text-black dark:text-white rounded-md transition-colors min-h-[44px] touch-manipulation"
+          >
+            {t('common.cancel', 'Avbryt')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
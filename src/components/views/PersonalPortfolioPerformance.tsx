@@ -0,0 +1,299 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, Legend } from 'recharts';
+import { useTheme } from '../../contexts/ThemeContext';
+import { toTradeDate } from '../../services/personalPortfolioService';
+import { computePerformance, ledgerCashFlows } from '../../utils/portfolioPerformance';
+import type { PortfolioItem, PortfolioPerformanceSettings, PortfolioSnapshot } from '../../types/portfolio';
+
+type PerformanceRange = '1M' | '3M' | 'YTD' | '1Y' | 'ALL';
+
+const RANGES: PerformanceRange[] = ['1M', '3M', 'YTD', '1Y', 'ALL'];
+
+interface PersonalPortfolioPerformanceProps {
+  portfolio: PortfolioItem[];
+  snapshots: PortfolioSnapshot[];
+  loading: boolean;
+  settings: PortfolioPerformanceSettings;
+  /** User's base currency preference */
+  baseCurrency: string;
+  benchmarkOptions: { ticker: string; companyName: string }[];
+  onSettingsChange: (settings: PortfolioPerformanceSettings) => void;
+}
+
+function rangeStartDate(range: PerformanceRange, today: Date = new Date()): string | null {
+  const start = new Date(today);
+  switch (range) {
+    case '1M':
+      start.setMonth(start.getMonth() - 1);
+      break;
+    case '3M':
+      start.setMonth(start.getMonth() - 3);
+      break;
+    case 'YTD':
+      start.setMonth(0, 1);
+      break;
+    case '1Y':
+      start.setFullYear(start.getFullYear() - 1);
+      break;
+    case 'ALL':
+      return null;
+  }
+  return toTradeDate(start);
+}
+
+function formatPercent(value: number | null): string {
+  if (value === null || !isFinite(value)) return '–';
+  const percent = value * 100;
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(2)} %`;
+}
+
+function formatAmount(value: number | null, currency: string): string {
+  if (value === null) return '–';
+  return `${value.toLocaleString(undefined, { maximumFractionDigits: 0 })} ${currency}`;
+}
+
+function returnClass(value: number | null): string {
+  if (value === null) return 'text-black dark:text-white';
+  return value >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+}
+
+const inputClass =
+  'px-2 py-1 border border-gray-300 dark:border-gray-500 rounded-md bg-white dark:bg-gray-700 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export function PersonalPortfolioPerformance({
+  portfolio,
+  snapshots,
+  loading,
+  settings,
+  baseCurrency,
+  benchmarkOptions,
+  onSettingsChange,
+}: PersonalPortfolioPerformanceProps) {
+  const { t } = useTranslation();
+  const { resolvedTheme } = useTheme();
+  const isDarkMode = resolvedTheme === 'dark';
+  const [range, setRange] = useState<PerformanceRange>('ALL');
+  const [inBaseCurrency, setInBaseCurrency] = useState(true);
+  const [benchmarkInput, setBenchmarkInput] = useState(settings.benchmarkTicker ?? '');
+  const [benchmarkError, setBenchmarkError] = useState(false);
+  const [savedBenchmark, setSavedBenchmark] = useState(settings.benchmarkTicker);
+
+  // Follow the saved benchmark when it changes from outside (e.g. portfolio reload)
+  if (savedBenchmark !== settings.benchmarkTicker) {
+    setSavedBenchmark(settings.benchmarkTicker);
+    setBenchmarkInput(settings.benchmarkTicker ?? '');
+  }
+
+  const currency = inBaseCurrency ? baseCurrency : 'USD';
+  const flows = useMemo(() => ledgerCashFlows(portfolio), [portfolio]);
+  const performance = useMemo(
+    () =>
+      computePerformance(snapshots, flows, {
+        currency,
+        benchmarkTicker: settings.benchmarkTicker,
+        startDate: rangeStartDate(range),
+      }),
+    [snapshots, flows, currency, settings.benchmarkTicker, range]
+  );
+  const chartData = useMemo(
+    () =>
+      performance.points.map((point) => ({
+        date: point.date,
+        portfolio: point.portfolioReturn * 100,
+        benchmark: point.benchmarkReturn != null ? point.benchmarkReturn * 100 : null,
+      })),
+    [performance.points]
+  );
+  const latest = snapshots.length > 0 ? snapshots[snapshots.length - 1] : null;
+
+  const commitBenchmark = () => {
+    const value = benchmarkInput.trim().toUpperCase();
+    if (!value) {
+      setBenchmarkError(false);
+      if (settings.benchmarkTicker !== null) onSettingsChange({ ...settings, benchmarkTicker: null });
+      return;
+    }
+    const match = benchmarkOptions.find((option) => option.ticker.toUpperCase() === value);
+    if (!match) {
+      setBenchmarkError(true);
+      return;
+    }
+    setBenchmarkError(false);
+    setBenchmarkInput(match.ticker);
+    if (match.ticker !== settings.benchmarkTicker) onSettingsChange({ ...settings, benchmarkTicker: match.ticker });
+  };
+
+  const tickColor = isDarkMode ? '#e5e7eb' : '#374151';
+  const benchmarkLabel = settings.benchmarkTicker ?? t('portfolioPerformance.benchmark', 'Jämförelseindex');
+
+  return (
+    <div className="mb-4 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600 flex-shrink-0">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h2 className="text-lg font-semibold text-black dark:text-white">
+          {t('portfolioPerformance.title', 'Utveckling')}
+        </h2>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600 dark:text-gray-400">
+          <div className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden" role="group">
+            {RANGES.map((r) => (
+              <button
+                key={r}
+                type="button"
+                onClick={() => setRange(r)}
+                aria-pressed={range === r}
+                className={`px-2 py-1 text-xs font-medium min-h-[32px] touch-manipulation ${
+                  range === r
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                {t(`portfolioPerformance.range.${r}`, r === 'ALL' ? 'Allt' : r)}
+              </button>
+            ))}
+          </div>
+          {baseCurrency !== 'USD' && (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={inBaseCurrency}
+                onChange={(e) => setInBaseCurrency(e.target.checked)}
+                className="rounded border-gray-300 dark:border-gray-600"
+              />
+              {t('portfolioPerformance.showInBase', { currency: baseCurrency, defaultValue: `Visa i ${baseCurrency}` })}
+            </label>
+          )}
+          <label className="flex items-center gap-2">
+            {t('portfolioPerformance.benchmark', 'Jämförelseindex')}:
+            <input
+              type="text"
+              list="portfolio-benchmark-options"
+              value={benchmarkInput}
+              onChange={(e) => {
+                setBenchmarkInput(e.target.value);
+                setBenchmarkError(false);
+              }}
+              onBlur={commitBenchmark}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitBenchmark();
+              }}
+              placeholder={t('portfolioPerformance.benchmarkPlaceholder', 'Ticker')}
+              aria-invalid={benchmarkError}
+              className={`${inputClass} w-28`}
+            />
+            <datalist id="portfolio-benchmark-options">
+              {benchmarkOptions.map((option) => (
+                <option key={`${option.ticker}-${option.companyName}`} value={option.ticker}>
+                  {option.companyName}
+                </option>
+              ))}
+            </datalist>
+          </label>
+        </div>
+      </div>
+
+      {benchmarkError && (
+        <p className="mb-2 text-xs text-red-600 dark:text-red-400">
+          {t('portfolioPerformance.unknownBenchmark', 'Tickern finns inte i Score Board')}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-6 mb-3">
+        <div className="flex items-baseline gap-2">
+          <span className="text-sm font-medium text-gray-600 dark:text-gray-400">
+            {t('portfolioPerformance.value', 'Värde')}:
+          </span>
+          <span className="text-lg font-semibold text-black dark:text-white">
+            {formatAmount(performance.endValue, currency)}
+          </span>
+        </div>
+        <div className="flex items-baseline gap-2" title={t('portfolioPerformance.twrHelp', 'Tidsviktad avkastning – påverkas inte av insättningar och uttag')}>
+          <span className="text-sm font-medium text-gray-600 dark:text-gray-400">
+            {t('portfolioPerformance.twr', 'TWR')}:
+          </span>
+          <span className={`text-lg font-semibold ${returnClass(performance.twr)}`}>
+            {formatPercent(performance.twr)}
+          </span>
+        </div>
+        <div className="flex items-baseline gap-2" title={t('portfolioPerformance.xirrHelp', 'Pengaviktad avkastning per år (XIRR) – tar hänsyn till när du köpt och sålt')}>
+          <span className="text-sm font-medium text-gray-600 dark:text-gray-400">
+            {t('portfolioPerformance.xirr', 'XIRR (per år)')}:
+          </span>
+          <span className={`text-lg font-semibold ${returnClass(performance.xirr)}`}>
+            {formatPercent(performance.xirr)}
+          </span>
+        </div>
+        {settings.benchmarkTicker && (
+          <div className="flex items-baseline gap-2">
+            <span className="text-sm font-medium text-gray-600 dark:text-gray-400">{benchmarkLabel}:</span>
+            <span className={`text-lg font-semibold ${returnClass(performance.benchmarkReturn)}`}>
+              {formatPercent(performance.benchmarkReturn)}
+            </span>
+          </div>
+        )}
+        <div className="flex items-baseline gap-2">
+          <span className="text-sm font-medium text-gray-600 dark:text-gray-400">
+            {t('portfolioPerformance.netContributions', 'Nettoinsättningar')}:
+          </span>
+          <span className="text-lg font-semibold text-black dark:text-white">
+            {formatAmount(performance.netContributions, currency)}
+          </span>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">{t('portfolioPerformance.loading', 'Laddar historik…')}</p>
+      ) : chartData.length < 2 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {t('portfolioPerformance.empty', 'Portföljen värderas en gång per dag när du öppnar den – grafen fylls på över tid.')}
+        </p>
+      ) : (
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? '#374151' : '#e5e7eb'} />
+            <XAxis dataKey="date" tick={{ fill: tickColor, fontSize: 11 }} minTickGap={24} />
+            <YAxis tick={{ fill: tickColor, fontSize: 11 }} width={48} tickFormatter={(v: number) => `${v.toFixed(0)} %`} />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: isDarkMode ? '#1f2937' : '#ffffff',
+                borderColor: isDarkMode ? '#374151' : '#e5e7eb',
+                fontSize: 12,
+              }}
+              formatter={(value: number) => `${value.toFixed(2)} %`}
+            />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Line
+              type="monotone"
+              dataKey="portfolio"
+              name={t('portfolioPerformance.portfolio', 'Portfölj (TWR)')}
+              stroke={isDarkMode ? '#93c5fd' : '#2563eb'}
+              strokeWidth={2}
+              dot={chartData.length <= 31}
+              isAnimationActive={false}
+            />
+            {settings.benchmarkTicker && (
+              <Line
+                type="monotone"
+                dataKey="benchmark"
+                name={benchmarkLabel}
+                stroke={isDarkMode ? '#fcd34d' : '#d97706'}
+                strokeWidth={2}
+                dot={false}
+                connectNulls
+                isAnimationActive={false}
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+
+      {latest && latest.missingPrices.length > 0 && (
+        <p className="mt-2 text-xs text-amber-700 dark:text-amber-400">
+          {t('portfolioPerformance.missingPrices', {
+            tickers: latest.missingPrices.join(', '),
+            defaultValue: `Saknar pris eller valutakurs och ingår inte i värdet: ${latest.missingPrices.join(', ')}`,
+          })}
+        </p>
+      )}
+    </div>
+  );
+}
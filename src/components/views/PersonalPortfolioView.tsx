@@ -1,11 +1,46 @@
-import React, { useState, useEffect, useRef, useCallback, useMemo, Fragment } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo, Fragment, lazy, Suspense } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../../contexts/AuthContext';
 import { useBenjaminGrahamData } from '../../hooks/useBenjaminGrahamData';
-import { EntryExitProvider, useEntryExitValues } from '../../contexts/EntryExitContext';
-import { getUserPortfolio, addPortfolioItem, removePortfolioItem, updatePortfolioItem, getCurrencyForStock, computeAveragePriceUSD } from '../../services/personalPortfolioService';
-import { getExchangeRate, refreshCurrencyRatesCache } from '../../services/currencyService';
-import { PortfolioItem, PortfolioPosition } from '../../types/portfolio';
+import { EntryExitProvider, useEntryExitValues, type EntryExitValues } from '../../contexts/EntryExitContext';
+import {
+  getUserPortfolio,
+  addPortfolioItem,
+  removePortfolioItem,
+  updatePortfolioItem,
+  saveUserPortfolio,
+  saveInstrumentMappings,
+  getCurrencyForStock,
+  setCostBasisMethod,
+  savePerformanceSettings,
+  deriveHolding,
+  createTransactionId,
+  toTradeDate,
+  DEFAULT_COST_BASIS_METHOD,
+  DEFAULT_PERFORMANCE_SETTINGS,
+} from '../../services/personalPortfolioService';
+import {
+  buildPortfolioSnapshot,
+  loadPortfolioSnapshots,
+  savePortfolioSnapshot,
+  toSnapshotHoldings,
+  PORTFOLIO_BASE_CURRENCIES,
+} from '../../services/portfolioSnapshotService';
+import {
+  getExchangeRate,
+  getExchangeRateInfo,
+  refreshCurrencyRatesCache,
+  type ExchangeRateInfo,
+} from '../../services/currencyService';
+import { DEFAULT_BASE_CURRENCY, getUserPreferences, updateBaseCurrency } from '../../services/userPreferencesService';
+import { createTradeDateRateLookup, splitUnrealizedProfitLoss } from '../../utils/portfolioBaseCurrency';
+import {
+  CostBasisMethod,
+  PortfolioItem,
+  PortfolioPerformanceSettings,
+  PortfolioSnapshot,
+  PortfolioTransaction,
+} from '../../types/portfolio';
 import { usePortfolioSearch, StockSearchResult } from '../../hooks/usePortfolioSearch';
 import { useDebounce } from '../../hooks/useDebounce';
 import { TableSkeleton } from '../SkeletonLoader';
@@ -15,8 +50,27 @@ import ColumnFilterMenu from '../ColumnFilterMenu';
 import ColumnTooltip from '../ColumnTooltip';
 import { getColumnMetadata } from '../../config/tableMetadata';
 import { DEFAULT_BROKERS, BROKER_OTHER } from '../../config/brokers';
-import { PORTFOLIO_COLUMNS, type PortfolioTableItem } from './PersonalPortfolioColumns';
+import { getPortfolioColumns, type PortfolioTableItem } from './PersonalPortfolioColumns';
 import { PersonalPortfolioExpandedRow } from './PersonalPortfolioExpandedRow';
+import { PersonalPortfolioLedgerModal } from './PersonalPortfolioLedgerModal';
+import { PersonalPortfolioPerformance } from './PersonalPortfolioPerformance';
+
+const PersonalPortfolioImportModal = lazy(() =>
+  import('./PersonalPortfolioImportModal').then((m) => ({ default: m.PersonalPortfolioImportModal }))
+);
+
+/** Currencies the table needs a USD rate for: each stock's quote currency and the currencies it was bought in */
+function portfolioCurrencies(portfolio: PortfolioItem[], entryExitValues: Map<string, EntryExitValues>): Set<string> {
+  const currencies = new Set<string>();
+  for (const item of portfolio) {
+    currencies.add(getCurrencyForStock(item.ticker, item.companyName, entryExitValues));
+    for (const position of item.positions ?? []) {
+      currencies.add((position.investmentCurrency || 'USD').toUpperCase());
+    }
+  }
+  currencies.delete('USD');
+  return currencies;
+}
 
 const VIEW_ID = 'personal-portfolio';
 const TABLE_ID = 'personal-portfolio';
@@ -40,10 +94,16 @@ function PersonalPortfolioViewInner() {
   const [brokerSelect, setBrokerSelect] = useState<string>(DEFAULT_BROKERS[0]);
   const [brokerCustom, setBrokerCustom] = useState('');
   const [editingItem, setEditingItem] = useState<PortfolioTableItem | null>(null);
-  const [editPositions, setEditPositions] = useState<PortfolioPosition[]>([]);
-  const [editAveragePreview, setEditAveragePreview] = useState<number | null>(null);
-  const [editAverageLoading, setEditAverageLoading] = useState(false);
+  const [tradeDate, setTradeDate] = useState(() => toTradeDate());
+  const [costBasisMethod, setCostBasisMethodState] = useState<CostBasisMethod>(DEFAULT_COST_BASIS_METHOD);
+  const [instrumentMappings, setInstrumentMappings] = useState<Record<string, string>>({});
+  const [importOpen, setImportOpen] = useState(false);
   const [exchangeRatesByCurrency, setExchangeRatesByCurrency] = useState<Record<string, number>>({ USD: 1 });
+  const [performanceSettings, setPerformanceSettingsState] = useState<PortfolioPerformanceSettings>(DEFAULT_PERFORMANCE_SETTINGS);
+  const [snapshots, setSnapshots] = useState<PortfolioSnapshot[]>([]);
+  const [snapshotsLoading, setSnapshotsLoading] = useState(true);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
+  const [baseRateInfo, setBaseRateInfo] = useState<ExchangeRateInfo | null>(null);
   const searchRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const headerRefs = useRef<{ [key: string]: HTMLElement | null }>({});
@@ -76,6 +136,9 @@ function PersonalPortfolioViewInner() {
       setError(null);
       const userPortfolio = await getUserPortfolio(currentUser.uid);
       setPortfolio(userPortfolio?.portfolio || []);
+      setCostBasisMethodState(userPortfolio?.costBasisMethod ?? DEFAULT_COST_BASIS_METHOD);
+      setInstrumentMappings(userPortfolio?.instrumentMappings ?? {});
+      setPerformanceSettingsState(userPortfolio?.performanceSettings ?? DEFAULT_PERFORMANCE_SETTINGS);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load portfolio';
       setError(errorMessage);
@@ -93,7 +156,8 @@ function PersonalPortfolioViewInner() {
     loadPortfolio();
   }, [currentUser, loadPortfolio]);
 
-  // Periodic update of exchange rates and average recalculation from positions (every 15 minutes)
+  // Periodic update of exchange rates (every 15 minutes).
+  // Average prices come from the ledger at trade-time FX and are not recalculated here.
   useEffect(() => {
     if (!portfolio.length || !currentUser) return;
 
@@ -104,29 +168,48 @@ function PersonalPortfolioViewInner() {
         // ignore
       }
 
-      const itemsWithPositions = portfolio.filter((item) => item.positions && item.positions.length > 0);
-      for (const item of itemsWithPositions) {
-        try {
-          const newAveragePrice = await computeAveragePriceUSD(item.positions!);
-          const currentAvg = item.averagePrice ?? null;
-          const changed =
-            newAveragePrice === null
-              ? currentAvg !== null
-              : currentAvg === null || Math.abs(currentAvg - newAveragePrice) > 0.01;
-          if (changed) {
-            await updatePortfolioItem(currentUser.uid, item.ticker, { positions: item.positions });
-          }
-        } catch {
-          // ignore errors for individual items
-        }
-      }
-
       await loadPortfolio();
     }, 15 * 60 * 1000);
 
     return () => clearInterval(updateInterval);
   }, [portfolio, currentUser, loadPortfolio]);
 
+  // Daily valuation snapshots are written nightly by the dailyPortfolioSnapshot Cloud Function. As a fallback,
+  // today's snapshot is written here when it is missing, with prices from benjaminGrahamData (same source as
+  // currentPriceUSD) and FX from currencyService.
+  useEffect(() => {
+    if (!currentUser || loading || benjaminGrahamLoading) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const history = await loadPortfolioSnapshots(currentUser.uid);
+        const today = toTradeDate();
+        if (portfolio.length > 0 && benjaminGrahamData && !history.some((snapshot) => snapshot.date === today)) {
+          const { holdings, benchmark } = toSnapshotHoldings(
+            portfolio,
+            benjaminGrahamData,
+            performanceSettings.benchmarkTicker,
+            (ticker, companyName) => getCurrencyForStock(ticker, companyName, entryExitValues)
+          );
+          const snapshot = await buildPortfolioSnapshot(holdings, benchmark, baseCurrency);
+          if (snapshot && !cancelled) {
+            await savePortfolioSnapshot(currentUser.uid, snapshot);
+            history.push(snapshot);
+          }
+        }
+        if (!cancelled) setSnapshots(history);
+      } catch {
+        // Performance history is optional; the table still works without it
+      } finally {
+        if (!cancelled) setSnapshotsLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser, loading, portfolio, benjaminGrahamData, benjaminGrahamLoading, entryExitValues, performanceSettings, baseCurrency]);
+
   // Close search results when clicking outside
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -150,11 +233,7 @@ function PersonalPortfolioViewInner() {
       setExchangeRatesByCurrency({ USD: 1 });
       return;
     }
-    const currencies = new Set<string>();
-    for (const item of portfolio) {
-      const ccy = getCurrencyForStock(item.ticker, item.companyName, entryExitValues);
-      if (ccy !== 'USD') currencies.add(ccy);
-    }
+    const currencies = portfolioCurrencies(portfolio, entryExitValues);
     if (currencies.size === 0) {
       setExchangeRatesByCurrency({ USD: 1 });
       return;
@@ -177,13 +256,9 @@ function PersonalPortfolioViewInner() {
   // Fetch any missing exchange rates (e.g. when entryExitValues loads after portfolio)
   useEffect(() => {
     if (!portfolio.length) return;
-    const missing: string[] = [];
-    for (const item of portfolio) {
-      const ccy = getCurrencyForStock(item.ticker, item.companyName, entryExitValues);
-      if (ccy !== 'USD' && exchangeRatesByCurrency[ccy] == null && !missing.includes(ccy)) {
-        missing.push(ccy);
-      }
-    }
+    const missing = [...portfolioCurrencies(portfolio, entryExitValues)].filter(
+      (ccy) => exchangeRatesByCurrency[ccy] == null
+    );
     if (missing.length === 0) return;
     let cancelled = false;
     (async () => {
@@ -200,6 +275,29 @@ function PersonalPortfolioViewInner() {
     };
   }, [portfolio, entryExitValues, exchangeRatesByCurrency]);
 
+  // Base currency preference
+  useEffect(() => {
+    if (!currentUser) return;
+    let cancelled = false;
+    getUserPreferences(currentUser.uid).then((prefs) => {
+      if (!cancelled) setBaseCurrency(prefs?.baseCurrency ?? DEFAULT_BASE_CURRENCY);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser]);
+
+  // USD → base rate with its source and age (refetched whenever the USD rates are refreshed)
+  useEffect(() => {
+    let cancelled = false;
+    getExchangeRateInfo('USD', baseCurrency).then((info) => {
+      if (!cancelled) setBaseRateInfo(info);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [baseCurrency, exchangeRatesByCurrency]);
+
   // Show search results when query changes
   useEffect(() => {
     if (debouncedSearchQuery.trim().length >= 2 && searchResults.length > 0) {
@@ -210,25 +308,6 @@ function PersonalPortfolioViewInner() {
     }
   }, [debouncedSearchQuery, searchResults]);
 
-  // Auto-calculate aggregate average (USD) from editPositions
-  useEffect(() => {
-    if (!editingItem || editPositions.length === 0) {
-      setEditAveragePreview(null);
-      return;
-    }
-
-    let cancelled = false;
-    setEditAverageLoading(true);
-    computeAveragePriceUSD(editPositions).then((avg) => {
-      if (!cancelled) {
-        setEditAveragePreview(avg);
-      }
-    }).finally(() => {
-      if (!cancelled) setEditAverageLoading(false);
-    });
-    return () => { cancelled = true; };
-  }, [editingItem, editPositions]);
-
   // Handle keyboard navigation in search results
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (!showSearchResults || searchResults.length === 0) return;
@@ -266,7 +345,7 @@ function PersonalPortfolioViewInner() {
     if (!currentUser || !selectedStock || !quantity.trim()) return;
 
     const quantityNum = parseFloat(quantity);
-    if (isNaN(quantityNum) || quantityNum < 0) {
+    if (isNaN(quantityNum) || quantityNum <= 0) {
       setError(t('portfolio.quantityInvalid', 'Ogiltigt antal'));
       return;
     }
@@ -279,44 +358,20 @@ function PersonalPortfolioViewInner() {
         entryExitValues
       );
 
-      let calculatedAveragePrice: number | null = null;
-      let investedAmountValue: number | null = null;
-      let investmentCurrencyValue: string | null = null;
-
-      if (investedAmount.trim()) {
-        const investedAmountNum = parseFloat(investedAmount);
-        if (!isNaN(investedAmountNum) && investedAmountNum > 0) {
-          investedAmountValue = investedAmountNum;
-          investmentCurrencyValue = investmentCurrency;
-          const averagePerShare = investedAmountNum / quantityNum;
-          if (investmentCurrency === 'USD') {
-            calculatedAveragePrice = averagePerShare;
-          } else {
-            const exchangeRate = await getExchangeRate(investmentCurrency, 'USD');
-            if (exchangeRate !== null) {
-              calculatedAveragePrice = averagePerShare * exchangeRate;
-            } else {
-              calculatedAveragePrice = selectedStock.price;
-              setError(t('portfolio.exchangeRateUnavailable', 'Valutakurs kunde inte hämtas. Använder nuvarande pris.'));
-            }
-          }
-        }
+      // Trade price: invested amount per share in the investment currency, else current price in the stock's currency
+      const investedAmountNum = investedAmount.trim() ? parseFloat(investedAmount) : NaN;
+      const hasInvestedAmount = !isNaN(investedAmountNum) && investedAmountNum > 0;
+      const tradeCurrency = hasInvestedAmount ? investmentCurrency : currency;
+      const tradePrice = hasInvestedAmount ? investedAmountNum / quantityNum : selectedStock.price;
+      if (tradePrice === null || tradePrice === undefined) {
+        setError(t('portfolio.investedAmountRequired', 'Aktuellt pris saknas – ange investerat belopp'));
+        return;
       }
 
-      if (calculatedAveragePrice === null) {
-        if (currency === 'USD') {
-          calculatedAveragePrice = selectedStock.price;
-        } else if (selectedStock.price != null) {
-          const rate = await getExchangeRate(currency, 'USD');
-          if (rate !== null) {
-            calculatedAveragePrice = selectedStock.price * rate;
-          } else {
-            calculatedAveragePrice = selectedStock.price;
-            setError(t('portfolio.exchangeRateUnavailable', 'Valutakurs kunde inte hämtas. Använder nuvarande pris.'));
-          }
-        } else {
-          calculatedAveragePrice = selectedStock.price;
-        }
+      const fxRateToUSD = await getExchangeRate(tradeCurrency, 'USD');
+      if (fxRateToUSD === null) {
+        setError(t('portfolio.exchangeRateMissing', 'Valutakurs kunde inte hämtas. Försök igen senare.'));
+        return;
       }
 
       const brokerName = brokerSelect === BROKER_OTHER ? brokerCustom.trim() : brokerSelect;
@@ -325,23 +380,29 @@ function PersonalPortfolioViewInner() {
         return;
       }
 
+      const transaction: PortfolioTransaction = {
+        id: createTransactionId(),
+        type: 'buy',
+        broker: brokerName,
+        tradeDate: tradeDate || toTradeDate(),
+        quantity: quantityNum,
+        price: tradePrice,
+        amount: null,
+        fee: null,
+        splitRatio: null,
+        currency: tradeCurrency,
+        fxRateToUSD,
+        note: null,
+      };
+
       const item: PortfolioItem = {
         ticker: selectedStock.ticker,
         companyName: selectedStock.companyName,
         quantity: quantityNum,
         currency,
         price: selectedStock.price,
-        averagePrice: calculatedAveragePrice,
-        investedAmount: investedAmountValue ?? undefined,
-        investmentCurrency: investmentCurrencyValue ?? undefined,
-        positions: [
-          {
-            broker: brokerName,
-            quantity: quantityNum,
-            investedAmount: investedAmountValue ?? undefined,
-            investmentCurrency: investmentCurrencyValue ?? 'USD',
-          },
-        ],
+        averagePrice: null,
+        transactions: [transaction],
       };
 
       await addPortfolioItem(currentUser.uid, item);
@@ -354,6 +415,7 @@ function PersonalPortfolioViewInner() {
       setInvestmentCurrency('USD');
       setBrokerSelect(DEFAULT_BROKERS[0]);
       setBrokerCustom('');
+      setTradeDate(toTradeDate());
       setShowSearchResults(false);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to add item';
@@ -373,43 +435,78 @@ function PersonalPortfolioViewInner() {
     }
   };
 
-  const handleUpdateItem = async () => {
+  const handleSaveTransactions = async (transactions: PortfolioTransaction[]) => {
     if (!currentUser || !editingItem) return;
 
-    if (editPositions.length === 0) {
-      setError(t('portfolio.atLeastOnePosition', 'Minst en position krävs'));
-      return;
+    try {
+      setError(null);
+      await updatePortfolioItem(currentUser.uid, editingItem.ticker, { transactions });
+      await loadPortfolio();
+      setEditingItem(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update item';
+      setError(errorMessage);
     }
-    const invalid = editPositions.some((p) => typeof p.quantity !== 'number' || p.quantity < 0);
-    if (invalid) {
-      setError(t('portfolio.quantityInvalid', 'Ogiltigt antal'));
-      return;
+  };
+
+  const handleImportSave = async (nextPortfolio: PortfolioItem[], nextMappings: Record<string, string>) => {
+    if (!currentUser) return;
+
+    await saveUserPortfolio(currentUser.uid, nextPortfolio);
+    if (JSON.stringify(nextMappings) !== JSON.stringify(instrumentMappings)) {
+      await saveInstrumentMappings(currentUser.uid, nextMappings);
     }
+    setImportOpen(false);
+    await loadPortfolio();
+  };
+
+  // Current price and currency for a ticker (same sources as the table)
+  const getStockInfo = useCallback(
+    (ticker: string, companyName: string) => ({
+      currency: getCurrencyForStock(ticker, companyName, entryExitValues),
+      price: benjaminGrahamData?.find((bg) => bg.ticker === ticker)?.price ?? null,
+    }),
+    [entryExitValues, benjaminGrahamData]
+  );
+
+  const handleCostBasisMethodChange = async (method: CostBasisMethod) => {
+    if (!currentUser) return;
 
     try {
       setError(null);
-      await updatePortfolioItem(currentUser.uid, editingItem.ticker, { positions: editPositions });
+      setCostBasisMethodState(method);
+      await setCostBasisMethod(currentUser.uid, method);
       await loadPortfolio();
-      setEditingItem(null);
-      setEditPositions([]);
-      setEditAveragePreview(null);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to update item';
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update cost basis method';
       setError(errorMessage);
     }
   };
 
-  const updateEditPosition = useCallback((index: number, updates: Partial<PortfolioPosition>) => {
-    setEditPositions((prev) => prev.map((p, i) => (i === index ? { ...p, ...updates } : p)));
-  }, []);
+  const handleBaseCurrencyChange = async (currency: string) => {
+    if (!currentUser) return;
 
-  const removeEditPosition = useCallback((index: number) => {
-    setEditPositions((prev) => (prev.length <= 1 ? prev : prev.filter((_, i) => i !== index)));
-  }, []);
+    setBaseCurrency(currency);
+    await updateBaseCurrency(currentUser.uid, currency);
+  };
 
-  const addEditPosition = useCallback(() => {
-    setEditPositions((prev) => [...prev, { broker: DEFAULT_BROKERS[0], quantity: 0, investedAmount: undefined, investmentCurrency: 'USD' }]);
-  }, []);
+  const handlePerformanceSettingsChange = async (settings: PortfolioPerformanceSettings) => {
+    if (!currentUser) return;
+
+    try {
+      setError(null);
+      setPerformanceSettingsState(settings);
+      await savePerformanceSettings(currentUser.uid, settings);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save performance settings';
+      setError(errorMessage);
+    }
+  };
+
+  const benchmarkOptions = useMemo(
+    () => (benjaminGrahamData ?? []).map((bg) => ({ ticker: bg.ticker, companyName: bg.companyName })),
+    [benjaminGrahamData]
+  );
 
   const formatPrice = (price: number | null): string => {
     if (price === null) return '-';
@@ -420,75 +517,136 @@ function PersonalPortfolioViewInner() {
     return `${value.toFixed(2)} ${currency}`;
   };
 
-  const formatUSD = (value: number | null | undefined): string => {
-    if (value === null || value === undefined) return '-';
-    return `$${value.toFixed(2)}`;
-  };
+  const formatBase = useCallback(
+    (value: number | null | undefined): string => {
+      if (value === null || value === undefined) return '-';
+      return baseCurrency === 'USD' ? `$${value.toFixed(2)}` : `${value.toFixed(2)} ${baseCurrency}`;
+    },
+    [baseCurrency]
+  );
+
+  // USD → base now; null while the rate is loading or unavailable
+  const usdToBase = baseCurrency === 'USD' ? 1 : baseRateInfo?.rate ?? null;
+
+  // Units of base currency per 1 unit of `currency` at today's rate
+  const rateToBaseNow = useCallback(
+    (currency: string): number | null => {
+      const toUSD = currency === 'USD' ? 1 : exchangeRatesByCurrency[currency];
+      return toUSD != null && usdToBase != null ? toUSD * usdToBase : null;
+    },
+    [exchangeRatesByCurrency, usdToBase]
+  );
+
+  // FX tooltip: rate into the base currency, where it came from and how old it is
+  const fxTooltip = useCallback(
+    (currency: string): string | undefined => {
+      if (currency === baseCurrency) return undefined;
+      const rate = rateToBaseNow(currency);
+      if (rate == null) return t('portfolio.fxUnavailable', 'Valutakurs saknas');
+      const parts = [`1 ${currency} = ${rate.toFixed(4)} ${baseCurrency}`];
+      if (baseRateInfo) {
+        parts.push(t('portfolio.fxSource', { source: baseRateInfo.source, defaultValue: `Källa: ${baseRateInfo.source}` }));
+        if (baseRateInfo.fetchedAt != null) {
+          const minutes = Math.max(0, Math.round((Date.now() - baseRateInfo.fetchedAt) / 60000));
+          parts.push(
+            minutes < 120
+              ? t('portfolio.fxAgeMinutes', { minutes, defaultValue: `Uppdaterad för ${minutes} min sedan` })
+              : t('portfolio.fxAgeHours', { hours: Math.round(minutes / 60), defaultValue: `Uppdaterad för ${Math.round(minutes / 60)} h sedan` })
+          );
+        }
+      }
+      return parts.join(' · ');
+    },
+    [baseCurrency, baseRateInfo, rateToBaseNow, t]
+  );
 
-  // Transform portfolio data and compute total market value (both in USD)
-  // CURRENT PRICE: lookup from benjaminGrahamData (same source as Entry/Exit Price), fallback to stored item.price
-  const { transformedPortfolio, totalMarketValue, totalInvested } = useMemo(() => {
+  // Transform portfolio data and compute totals, all in the base currency.
+  // CURRENT PRICE: lookup from benjaminGrahamData (same source as Entry/Exit Price), fallback to stored item.price.
+  // Cost basis and realized P/L use trade-date rates (see createTradeDateRateLookup).
+  const { transformedPortfolio, totalMarketValue, totalInvested, totalUnrealized, totalRealized } = useMemo(() => {
     const bgData = benjaminGrahamData ?? [];
-    const withUSD = portfolio.map((item, index) => {
+    const tradeRate = usdToBase != null ? createTradeDateRateLookup(snapshots, baseCurrency, usdToBase) : undefined;
+    const withBase = portfolio.map((item, index) => {
       const match = bgData.find(
         (bg) => bg.ticker === item.ticker && bg.companyName === item.companyName
       );
       const currentPrice = match?.price ?? item.price;
-      const quantity = item.quantity;
-      const averagePrice = item.averagePrice;
       const currency = getCurrencyForStock(item.ticker, item.companyName, entryExitValues);
-      let currentPriceUSD: number | null = null;
-      if (currentPrice !== null && currentPrice !== undefined) {
-        if (currency === 'USD') {
-          currentPriceUSD = currentPrice;
-        } else {
-          const rate = exchangeRatesByCurrency[currency];
-          if (rate != null) currentPriceUSD = currentPrice * rate;
-        }
-      }
-      return {
-        ...item,
-        rowNumber: index + 1,
-        currentPrice,
-        currentPriceUSD,
-        currency,
-        quantity,
-        averagePrice,
-      };
+      const rate = rateToBaseNow(currency);
+      const currentPriceBase = currentPrice != null && rate != null ? currentPrice * rate : null;
+      const transactions = item.transactions ?? [];
+      const holding = tradeRate ? deriveHolding(transactions, costBasisMethod, tradeRate) : null;
+      return { item, index, currentPrice, currentPriceBase, currency, holding, transactions };
     });
-    const total = withUSD.reduce((sum, x) => {
-      if (x.currentPriceUSD != null && x.quantity > 0) return sum + x.currentPriceUSD * x.quantity;
+    const total = withBase.reduce((sum, x) => {
+      if (x.currentPriceBase != null && x.item.quantity > 0) return sum + x.currentPriceBase * x.item.quantity;
       return sum;
     }, 0);
-    const transformed: PortfolioTableItem[] = withUSD.map((x) => {
-      const invested =
-        x.averagePrice != null && x.averagePrice !== undefined && x.quantity > 0
-          ? x.averagePrice * x.quantity
-          : null;
-      const marketValue =
-        x.currentPriceUSD != null && x.currentPriceUSD !== undefined && x.quantity > 0
-          ? x.currentPriceUSD * x.quantity
-          : null;
+    const transformed: PortfolioTableItem[] = withBase.map(({ item, index, currentPrice, currentPriceBase, currency, holding, transactions }) => {
+      const quantity = item.quantity;
+      const invested = holding?.costBasisBase != null && quantity > 0 ? holding.costBasisBase : null;
+      const marketValue = currentPriceBase != null && quantity > 0 ? currentPriceBase * quantity : null;
       const profitLoss = invested != null && marketValue != null ? marketValue - invested : null;
+      const split =
+        invested != null && marketValue != null
+          ? splitUnrealizedProfitLoss(marketValue, invested, item.positions ?? [], rateToBaseNow)
+          : null;
       const profitLossPercent =
         invested != null && invested !== 0 && profitLoss != null ? (profitLoss / invested) * 100 : null;
       // Market Weight (%) = this stock's market value / total portfolio market value
       const marketWeight = total > 0 && marketValue != null ? (marketValue / total) * 100 : null;
+      const brokerBreakdown = (item.positions ?? []).map((position) => {
+        const broker = position.broker.trim().toLowerCase();
+        const investmentCurrency = (position.investmentCurrency || 'USD').toUpperCase();
+        const brokerHolding = holding
+          ? deriveHolding(
+              transactions.filter(
+                (tx) =>
+                  tx.broker.trim().toLowerCase() === broker &&
+                  (tx.currency || 'USD').toUpperCase() === investmentCurrency
+              ),
+              costBasisMethod,
+              tradeRate
+            )
+          : null;
+        return {
+          broker: position.broker,
+          quantity: position.quantity,
+          investedAmount: position.investedAmount ?? null,
+          investmentCurrency,
+          investedBase: brokerHolding?.costBasisBase ?? null,
+          marketValueBase: currentPriceBase != null ? currentPriceBase * position.quantity : null,
+        };
+      });
       return {
-        ...x,
+        ...item,
+        rowNumber: index + 1,
+        currentPrice,
+        currentPriceBase,
+        currency,
+        quantity,
+        average: invested != null && quantity > 0 ? invested / quantity : null,
         invested,
         marketValue,
         profitLoss,
+        profitLossPrice: split?.price ?? null,
+        profitLossCurrency: split?.currency ?? null,
         profitLossPercent,
+        realizedProfitLossBase: holding?.realizedProfitLossBase ?? null,
         marketWeight,
+        brokerBreakdown,
       };
     });
     const totalInvested = transformed.reduce((sum, x) => {
       if (x.invested != null && x.invested > 0) return sum + x.invested;
       return sum;
     }, 0);
-    return { transformedPortfolio: transformed, totalMarketValue: total, totalInvested };
-  }, [portfolio, benjaminGrahamData, entryExitValues, exchangeRatesByCurrency]);
+    const totalUnrealized = transformed.reduce((sum, x) => sum + (x.profitLoss ?? 0), 0);
+    const totalRealized = transformed.reduce((sum, x) => sum + (x.realizedProfitLossBase ?? 0), 0);
+    return { transformedPortfolio: transformed, totalMarketValue: total, totalInvested, totalUnrealized, totalRealized };
+  }, [portfolio, benjaminGrahamData, entryExitValues, snapshots, baseCurrency, usdToBase, rateToBaseNow, costBasisMethod]);
+
+  const portfolioColumns = useMemo(() => getPortfolioColumns(baseCurrency), [baseCurrency]);
 
   // Row key for expand; must match getRowKey passed to BaseTable.
   // Stable identifier (ticker-companyName) so expanded state survives sort/filter changes.
@@ -546,28 +704,28 @@ function PersonalPortfolioViewInner() {
       case 'ticker':
         return <span className="text-gray-600 dark:text-gray-300">{item.ticker}</span>;
       case 'currency':
-        return <span className="text-black dark:text-white">{currency}</span>;
+        return <span className="text-black dark:text-white" title={fxTooltip(currency)}>{currency}</span>;
       case 'currentPrice':
         return item.currentPrice !== null && item.currentPrice !== undefined 
           ? <span className="text-black dark:text-white">{formatPrice(item.currentPrice)}</span>
           : <span className="text-gray-500 dark:text-gray-400">-</span>;
-      case 'currentPriceUSD':
-        return item.currentPriceUSD !== null && item.currentPriceUSD !== undefined
-          ? <span className="text-black dark:text-white">{formatUSD(item.currentPriceUSD)}</span>
-          : <span className="text-gray-500 dark:text-gray-400">-</span>;
+      case 'currentPriceBase':
+        return item.currentPriceBase !== null && item.currentPriceBase !== undefined
+          ? <span className="text-black dark:text-white" title={fxTooltip(currency)}>{formatBase(item.currentPriceBase)}</span>
+          : <span className="text-gray-500 dark:text-gray-400" title={fxTooltip(currency)}>-</span>;
       case 'quantity':
         return <span className="text-black dark:text-white">{item.quantity}</span>;
       case 'average':
-        return item.averagePrice !== null && item.averagePrice !== undefined
-          ? <span className="text-black dark:text-white">{formatUSD(item.averagePrice)}</span>
+        return item.average !== null && item.average !== undefined
+          ? <span className="text-black dark:text-white">{formatBase(item.average)}</span>
           : <span className="text-gray-500 dark:text-gray-400">-</span>;
       case 'invested':
         return item.invested !== null && item.invested !== undefined
-          ? <span className="text-black dark:text-white">{formatUSD(item.invested)}</span>
+          ? <span className="text-black dark:text-white">{formatBase(item.invested)}</span>
           : <span className="text-gray-500 dark:text-gray-400">-</span>;
       case 'marketValue':
         return item.marketValue !== null && item.marketValue !== undefined
-          ? <span className="text-black dark:text-white">{formatUSD(item.marketValue)}</span>
+          ? <span className="text-black dark:text-white" title={fxTooltip(currency)}>{formatBase(item.marketValue)}</span>
           : <span className="text-gray-500 dark:text-gray-400">-</span>;
       case 'profitLoss':
         if (item.profitLoss === null || item.profitLoss === undefined) {
@@ -578,9 +736,21 @@ function PersonalPortfolioViewInner() {
           : 'text-red-600 dark:text-red-400';
         return (
           <span className={profitLossColor}>
-            {formatUSD(item.profitLoss)}
+            {formatBase(item.profitLoss)}
           </span>
         );
+      case 'profitLossPrice':
+      case 'profitLossCurrency': {
+        const value = column.key === 'profitLossPrice' ? item.profitLossPrice : item.profitLossCurrency;
+        if (value === null || value === undefined) {
+          return <span className="text-gray-500 dark:text-gray-400">-</span>;
+        }
+        return (
+          <span className={value >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+            {formatBase(value)}
+          </span>
+        );
+      }
       case 'profitLossPercent':
         if (item.profitLossPercent === null || item.profitLossPercent === undefined) {
           return <span className="text-gray-500 dark:text-gray-400">-</span>;
@@ -593,6 +763,15 @@ function PersonalPortfolioViewInner() {
             {item.profitLossPercent.toFixed(2)}%
           </span>
         );
+      case 'realizedProfitLossBase':
+        if (item.realizedProfitLossBase === null || item.realizedProfitLossBase === undefined) {
+          return <span className="text-gray-500 dark:text-gray-400">-</span>;
+        }
+        return (
+          <span className={item.realizedProfitLossBase >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+            {formatBase(item.realizedProfitLossBase)}
+          </span>
+        );
       case 'marketWeight':
         return item.marketWeight !== null && item.marketWeight !== undefined
           ? <span className="text-black dark:text-white">{item.marketWeight.toFixed(2)}%</span>
@@ -603,10 +782,6 @@ function PersonalPortfolioViewInner() {
             <button
               onClick={() => {
                 setEditingItem(item);
-                const positions = item.positions && item.positions.length > 0
-                  ? item.positions.map((p) => ({ ...p }))
-                  : [{ broker: '—', quantity: item.quantity, investedAmount: item.investedAmount ?? undefined, investmentCurrency: item.investmentCurrency ?? 'USD' }];
-                setEditPositions(positions);
               }}
               className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300 transition-colors min-h-[44px] min-w-[44px] touch-manipulation px-3 py-1 rounded"
               aria-label={t('portfolio.edit', 'Redigera')}
@@ -625,14 +800,19 @@ function PersonalPortfolioViewInner() {
       default:
         return null;
     }
-  }, [entryExitValues, formatPrice, formatUSD, t, handleRemoveItem, getRowKey]);
+  }, [entryExitValues, formatPrice, formatBase, fxTooltip, t, handleRemoveItem, getRowKey]);
 
   // Expanded row: per-broker breakdown (delegated to PersonalPortfolioExpandedRow)
   const renderExpandedRow = useCallback(
     (item: PortfolioTableItem) => (
-      <PersonalPortfolioExpandedRow item={item} formatCurrency={formatCurrency} />
+      <PersonalPortfolioExpandedRow
+        item={item}
+        baseCurrency={baseCurrency}
+        formatCurrency={formatCurrency}
+        formatBase={formatBase}
+      />
     ),
-    [formatCurrency]
+    [baseCurrency, formatCurrency, formatBase]
   );
 
   // Custom header renderer with ColumnFilterMenu
@@ -829,6 +1009,13 @@ function PersonalPortfolioViewInner() {
               {t('portfolio.description', 'Hantera din personliga aktieportfölj')}
             </p>
           </div>
+          <button
+            onClick={() => setImportOpen(true)}
+            disabled={loading}
+            className="self-start sm:self-auto px-4 py-2 text-sm font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 rounded-md transition-colors min-h-[44px] touch-manipulation"
+          >
+            {t('portfolioImport.open', 'Importera från broker')}
+          </button>
         </div>
 
         {loading && (
@@ -1019,6 +1206,26 @@ function PersonalPortfolioViewInner() {
             </div>
           )}
 
+          {/* Trade date */}
+          {selectedStock && (
+            <div className="mb-3">
+              <label htmlFor="trade-date-input" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {t('portfolio.tradeDate', 'Affärsdag')}
+              </label>
+              <input
+                id="trade-date-input"
+                type="date"
+                value={tradeDate}
+                max={toTradeDate()}
+                onChange={(e) => setTradeDate(e.target.value)}
+                className="w-full sm:w-auto px-3 py-2 border border-gray-300 dark:border-gray-500 rounded-md bg-white dark:bg-gray-700 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {t('portfolio.tradeDateHelp', 'Köpet sparas i transaktionsloggen med dagens valutakurs. Justera kursen via Redigera för äldre affärer.')}
+              </p>
+            </div>
+          )}
+
           {/* Add button */}
           <div className="flex justify-end">
             <button
@@ -1031,124 +1238,27 @@ function PersonalPortfolioViewInner() {
           </div>
         </div>
 
-        {/* Edit Modal – positions per broker */}
+        {/* Edit Modal – transaction ledger */}
         {editingItem && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 overflow-y-auto py-8" role="dialog" aria-modal="true" aria-labelledby="edit-investment-title">
-            <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-2xl w-full mx-4 shadow-xl my-auto">
-              <h3 id="edit-investment-title" className="text-lg font-semibold text-black dark:text-white mb-2">
-                {t('portfolio.editInvestment', 'Redigera investering')}
-              </h3>
-              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-                {editingItem.companyName} ({editingItem.ticker})
-              </p>
-              <div className="space-y-4 mb-4 max-h-[50vh] overflow-y-auto">
-                {editPositions.map((pos, index) => (
-                  <div key={`pos-${index}`} className="p-3 border border-gray-300 dark:border-gray-600 rounded-md bg-gray-50 dark:bg-gray-700/50 space-y-2">
-                    <div className="flex items-center justify-between gap-2">
-                      <label className="text-xs font-medium text-gray-600 dark:text-gray-400 shrink-0 w-20">{t('portfolio.broker', 'Broker')}</label>
-                      <input
-                        type="text"
-                        value={pos.broker}
-                        onChange={(e) => updateEditPosition(index, { broker: e.target.value })}
-                        className="flex-1 px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-500 rounded bg-white dark:bg-gray-700 text-black dark:text-white"
-                      />
-                      <button
-                        type="button"
-                        onClick={() => removeEditPosition(index)}
-                        disabled={editPositions.length <= 1}
-                        className="shrink-0 px-2 py-1 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded disabled:opacity-50 disabled:cursor-not-allowed"
-                        aria-label={t('portfolio.removePosition', 'Ta bort position')}
-                      >
-                        {t('portfolio.removePosition', 'Ta bort')}
-                      </button>
-                    </div>
-                    <div className="flex flex-wrap gap-2 items-center">
-                      <div className="flex items-center gap-1">
-                        <label className="text-xs text-gray-600 dark:text-gray-400">{t('portfolio.quantity', 'Antal')}</label>
-                        <input
-                          type="number"
-                          value={pos.quantity}
-                          onChange={(e) => updateEditPosition(index, { quantity: parseFloat(e.target.value) || 0 })}
-                          min="0"
-                          step="0.01"
-                          className="w-24 px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-500 rounded bg-white dark:bg-gray-700 text-black dark:text-white"
-                        />
-                      </div>
-                      <div className="flex items-center gap-1">
-                        <label className="text-xs text-gray-600 dark:text-gray-400">{t('portfolio.investedAmount', 'Investerat')}</label>
-                        <input
-                          type="number"
-                          value={pos.investedAmount ?? ''}
-                          onChange={(e) => updateEditPosition(index, { investedAmount: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
-                          min="0"
-                          step="0.01"
-                          placeholder="—"
-                          className="w-28 px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-500 rounded bg-white dark:bg-gray-700 text-black dark:text-white"
-                        />
-                      </div>
-                      <div className="flex items-center gap-1">
-                        <label className="text-xs text-gray-600 dark:text-gray-400">{t('portfolio.investmentCurrency', 'Valuta')}</label>
-                        <select
-                          value={pos.investmentCurrency ?? 'USD'}
-                          onChange={(e) => updateEditPosition(index, { investmentCurrency: e.target.value })}
-                          className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-500 rounded bg-white dark:bg-gray-700 text-black dark:text-white"
-                        >
-                          <option value="USD">USD</option>
-                          <option value="SEK">SEK</option>
-                          <option value="EUR">EUR</option>
-                          <option value="GBP">GBP</option>
-                          <option value="DKK">DKK</option>
-                          <option value="NOK">NOK</option>
-                          <option value="CHF">CHF</option>
-                          <option value="AUD">AUD</option>
-                          <option value="CAD">CAD</option>
-                        </select>
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-              <div className="mb-4">
-                <button
-                  type="button"
-                  onClick={addEditPosition}
-                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
-                >
-                  {t('portfolio.addPosition', 'Lägg till position')}
-                </button>
-              </div>
-              {editAveragePreview !== null && (
-                <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-md">
-                  <p className="text-sm text-gray-700 dark:text-gray-300">
-                    <span className="font-medium">{t('portfolio.calculatedAverage', 'Beräknat genomsnitt:')}</span>{' '}
-                    {editAverageLoading ? (
-                      <span className="text-gray-500 dark:text-gray-400">{t('common.loading', 'Laddar...')}</span>
-                    ) : (
-                      <span className="text-blue-600 dark:text-blue-400">${editAveragePreview.toFixed(2)}</span>
-                    )}
-                  </p>
-                </div>
-              )}
-              <div className="flex gap-2">
-                <button
-                  onClick={handleUpdateItem}
-                  className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors min-h-[44px] touch-manipulation"
-                >
-                  {t('common.save', 'Spara')}
-                </button>
-                <button
-                  onClick={() => {
-                    setEditingItem(null);
-                    setEditPositions([]);
-                    setEditAveragePreview(null);
-                  }}
-                  className="flex-1 px-4 py-2 bg-gray-300 dark:bg-gray-600 hover:bg-gray-400 dark:hover:bg-gray-500 text-black dark:text-white rounded-md transition-colors min-h-[44px] touch-manipulation"
-                >
-                  {t('common.cancel', 'Avbryt')}
-                </button>
-              </div>
-            </div>
-          </div>
+          <PersonalPortfolioLedgerModal
+            item={editingItem}
+            costBasisMethod={costBasisMethod}
+            onSave={handleSaveTransactions}
+            onClose={() => setEditingItem(null)}
+          />
+        )}
+
+        {importOpen && (
+          <Suspense fallback={null}>
+            <PersonalPortfolioImportModal
+              portfolio={portfolio}
+              costBasisMethod={costBasisMethod}
+              instrumentMappings={instrumentMappings}
+              getStockInfo={getStockInfo}
+              onSave={handleImportSave}
+              onClose={() => setImportOpen(false)}
+            />
+          </Suspense>
         )}
 
         {/* Summary: Total Invested and Market Value */}
@@ -1156,23 +1266,77 @@ function PersonalPortfolioViewInner() {
           <div className="mb-4 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600 flex-shrink-0 flex flex-wrap items-center gap-6">
             <div className="flex items-baseline gap-2">
               <span className="text-sm font-medium text-gray-600 dark:text-gray-400">
-                {t('portfolio.totalInvested', 'Total Invested ($)')}:
+                {t('portfolio.totalInvested', { currency: baseCurrency, defaultValue: `Totalt investerat (${baseCurrency})` })}:
               </span>
               <span className="text-lg font-semibold text-black dark:text-white">
-                {formatUSD(totalInvested)}
+                {formatBase(totalInvested)}
               </span>
             </div>
             <div className="flex items-baseline gap-2">
               <span className="text-sm font-medium text-gray-600 dark:text-gray-400">
-                {t('portfolio.totalMarketValue', 'Market Value ($)')}:
+                {t('portfolio.totalMarketValue', { currency: baseCurrency, defaultValue: `Marknadsvärde (${baseCurrency})` })}:
               </span>
               <span className="text-lg font-semibold text-black dark:text-white">
-                {formatUSD(totalMarketValue)}
+                {formatBase(totalMarketValue)}
+              </span>
+            </div>
+            <div className="flex items-baseline gap-2">
+              <span className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                {t('portfolio.totalUnrealized', { currency: baseCurrency, defaultValue: `Orealiserat (${baseCurrency})` })}:
+              </span>
+              <span className={`text-lg font-semibold ${totalUnrealized >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                {formatBase(totalUnrealized)}
               </span>
             </div>
+            <div className="flex items-baseline gap-2">
+              <span className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                {t('portfolio.totalRealized', { currency: baseCurrency, defaultValue: `Realiserat (${baseCurrency})` })}:
+              </span>
+              <span className={`text-lg font-semibold ${totalRealized >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                {formatBase(totalRealized)}
+              </span>
+            </div>
+            <label
+              className="flex items-center gap-2 ml-auto text-sm text-gray-600 dark:text-gray-400"
+              title={fxTooltip('USD')}
+            >
+              {t('portfolio.baseCurrency', 'Basvaluta')}:
+              <select
+                value={baseCurrency}
+                onChange={(e) => handleBaseCurrencyChange(e.target.value)}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-500 rounded-md bg-white dark:bg-gray-700 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {PORTFOLIO_BASE_CURRENCIES.map((c) => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              {t('portfolio.costBasisMethod', 'Anskaffningsvärde')}:
+              <select
+                value={costBasisMethod}
+                onChange={(e) => handleCostBasisMethodChange(e.target.value as CostBasisMethod)}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-500 rounded-md bg-white dark:bg-gray-700 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="average">{t('portfolio.costBasisAverage', 'Genomsnittsmetoden')}</option>
+                <option value="fifo">{t('portfolio.costBasisFifo', 'FIFO')}</option>
+              </select>
+            </label>
           </div>
         )}
 
+        {!loading && portfolio.length > 0 && (
+          <PersonalPortfolioPerformance
+            portfolio={portfolio}
+            snapshots={snapshots}
+            loading={snapshotsLoading}
+            settings={performanceSettings}
+            baseCurrency={baseCurrency}
+            benchmarkOptions={benchmarkOptions}
+            onSettingsChange={handlePerformanceSettingsChange}
+          />
+        )}
+
         {/* Portfolio table */}
         {loading ? (
           <div className="flex-1 min-h-0">
@@ -1195,7 +1359,7 @@ function PersonalPortfolioViewInner() {
               data={transformedPortfolio}
               loading={false}
               error={error}
-              columns={PORTFOLIO_COLUMNS}
+              columns={portfolioColumns}
               filters={[]}
               tableId="personal-portfolio"
               renderCell={renderCell}
@@ -2,6 +2,7 @@ import { useTranslation } from 'react-i18next';
 import { useMemo, useEffect } from 'react';
 import { useSMAData } from '../../hooks/useSMAData';
 import { useBenjaminGrahamData } from '../../hooks/useBenjaminGrahamData';
+import { useShareableTableState } from '../../hooks/useShareableTableState';
 import { getSMAColor } from '../../utils/colorThresholds/colorLogic';
 import SMATable from '../SMATable';
 import type { SMAData } from '../../types/stock';
@@ -15,6 +16,7 @@ function toSmaColor(color: ReturnType<typeof getSMAColor>): 'GREEN' | 'RED' | nu
 
 export default function SMAView() {
   const { t } = useTranslation();
+  const sharedTableState = useShareableTableState(TABLE_ID);
   const { data, loading, error, refetch } = useSMAData();
   const { data: benjaminGrahamData } = useBenjaminGrahamData();
 
@@ -56,6 +58,7 @@ export default function SMAView() {
             loading={loading}
             error={error}
             onRetry={refetch}
+            initialTableState={sharedTableState}
           />
         </div>
       </div>
@@ -4,9 +4,10 @@ import { useScoreBoardData } from '../../hooks/useScoreBoardData';
 import { useIndustryThresholdData } from '../../hooks/useIndustryThresholdData';
 import { useBenjaminGrahamData } from '../../hooks/useBenjaminGrahamData';
 import { useOnlineStatus } from '../../hooks/useOnlineStatus';
+import { useShareableTableState } from '../../hooks/useShareableTableState';
 import LastUpdated from '../LastUpdated';
 import { ScoreBoardData, EntryExitData } from '../../types/stock';
-import { getSMAColor } from '../../utils/colorThresholds/colorLogic';
+import { getSMATableColor } from '../../utils/colorThresholds/colorLogic';
 import ProgressIndicator from '../ProgressIndicator';
 import EnhancedLoadingState from '../EnhancedLoadingState';
 import { TableSkeleton } from '../SkeletonLoader';
@@ -21,6 +22,7 @@ const TABLE_ID = 'score-board';
 // Inner component that uses EntryExitContext
 function ScoreBoardViewInner() {
   const { t } = useTranslation();
+  const sharedTableState = useShareableTableState(TABLE_ID);
   const isOnline = useOnlineStatus();
   const { data, loading, error, lastUpdated, refetch } = useScoreBoardData();
   const { data: thresholdData, loading: thresholdLoading } = useIndustryThresholdData();
@@ -62,10 +64,10 @@ function ScoreBoardViewInner() {
     return data.map(item => {
       const tickerKey = item.ticker.toLowerCase().trim();
       const price = priceMap.get(tickerKey) ?? null;
-      const sma9Color = (() => { const c = getSMAColor(price, item.sma9); return c === 'GREEN' || c === 'RED' ? c : null; })();
-      const sma21Color = (() => { const c = getSMAColor(price, item.sma21); return c === 'GREEN' || c === 'RED' ? c : null; })();
-      const sma55Color = (() => { const c = getSMAColor(price, item.sma55); return c === 'GREEN' || c === 'RED' ? c : null; })();
-      const sma200Color = (() => { const c = getSMAColor(price, item.sma200); return c === 'GREEN' || c === 'RED' ? c : null; })();
+      const sma9Color = getSMATableColor(price, item.sma9);
+      const sma21Color = getSMATableColor(price, item.sma21);
+      const sma55Color = getSMATableColor(price, item.sma55);
+      const sma200Color = getSMATableColor(price, item.sma200);
 
       return {
         ...item,
@@ -113,7 +115,7 @@ function ScoreBoardViewInner() {
         <div className="flex-1 min-h-0 transition-all duration-300 ease-in-out">
           {!isLoading && dataWithPrice.length > 0 ? (
             <Suspense fallback={<TableSkeleton rows={15} columns={12} hasStickyColumns={true} />}>
-              <ScoreBoardTable data={dataWithPrice} loading={false} error={error} thresholdData={thresholdData} onRetry={() => refetch(true)} />
+              <ScoreBoardTable data={dataWithPrice} initialTableState={sharedTableState} loading={false} error={error} thresholdData={thresholdData} onRetry={() => refetch(true)} />
             </Suspense>
           ) : isLoading ? (
             <TableSkeleton rows={15} columns={12} hasStickyColumns={true} />
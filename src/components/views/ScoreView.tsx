@@ -1,18 +1,31 @@
 import { useTranslation } from 'react-i18next';
-import { useMemo, lazy, Suspense, useEffect } from 'react';
+import { useMemo, lazy, Suspense, useEffect, useState } from 'react';
 import { useScoreBoardData } from '../../hooks/useScoreBoardData';
 import { useIndustryThresholdData } from '../../hooks/useIndustryThresholdData';
 import { useBenjaminGrahamData } from '../../hooks/useBenjaminGrahamData';
 import { EntryExitData, ScoreBoardData } from '../../types/stock';
-import { getSMAColor } from '../../utils/colorThresholds/colorLogic';
+import type { EntryExitValuesForScore } from '../../types/score';
+import { getSMATableColor } from '../../utils/colorThresholds/colorLogic';
 import ProgressIndicator from '../ProgressIndicator';
 import { TableSkeleton } from '../SkeletonLoader';
 import { EntryExitProvider, useEntryExitValues } from '../../contexts/EntryExitContext';
 import { calculateDetailedScore } from '../../utils/calculateScoreDetailed';
+import { useScoringModel } from '../../contexts/ScoringModelContext';
+import { useUserRole } from '../../hooks/useUserRole';
+import { usePriceAlerts } from '../../contexts/PriceAlertContext';
+import { useShareableTableState } from '../../hooks/useShareableTableState';
 import ScoreDashboard from '../ScoreDashboard';
+import IsmRegimeBadge from '../IsmRegimeBadge';
+import RefreshChangesPanel from '../RefreshChangesPanel';
+import { useUniverse } from '../../contexts/UniverseContext';
+import { DEFAULT_UNIVERSE_ID } from '../../config/universes';
+import { useIsmData } from '../../hooks/useIsmData';
+import { getIndustryTilt } from '../../utils/ismRegime';
 
 // Lazy load table component
 const ScoreTable = lazy(() => import('../ScoreTable'));
+const ScoringModelModal = lazy(() => import('../ScoringModelModal'));
+const ScoreBacktestModal = lazy(() => import('../ScoreBacktestModal'));
 
 export interface ScoreData extends Record<string, unknown> {
   companyName: string;
@@ -24,6 +37,7 @@ export interface ScoreData extends Record<string, unknown> {
   exit1: number;
   exit2: number;
   score: number;
+  scoreModelVersion: number; // Scoring model version that produced score
   scoreBoardData: ScoreBoardData; // Full data for breakdown calculation
 }
 
@@ -33,10 +47,19 @@ const TABLE_ID = 'score';
 // Inner component that uses EntryExitContext
 function ScoreViewInner() {
   const { t } = useTranslation();
+  const { activeUniverse } = useUniverse();
+  const sharedTableState = useShareableTableState(TABLE_ID);
   const { data: scoreBoardData, loading, error } = useScoreBoardData();
   const { data: thresholdData, loading: thresholdLoading } = useIndustryThresholdData();
   const { data: benjaminGrahamData, loading: bgLoading } = useBenjaminGrahamData();
   const { initializeFromData, entryExitValues } = useEntryExitValues();
+  const { scoringModel } = useScoringModel();
+  const { isAdmin } = useUserRole();
+  const { reportScores } = usePriceAlerts();
+  const [scoringModelOpen, setScoringModelOpen] = useState(false);
+  const [backtestOpen, setBacktestOpen] = useState(false);
+  const { current: ismRegime } = useIsmData();
+  const [regimeFavoredOnly, setRegimeFavoredOnly] = useState(false);
   
   // Progressive loading: Only block rendering on main data (scoreBoardData)
   // Allow thresholdData and benjaminGrahamData to load in background
@@ -75,10 +98,10 @@ function ScoreViewInner() {
     return scoreBoardData.map(item => {
       const tickerKey = item.ticker.toLowerCase().trim();
       const price = priceMap.get(tickerKey) ?? null;
-      const sma9Color = (() => { const c = getSMAColor(price, item.sma9); return c === 'GREEN' || c === 'RED' ? c : null; })();
-      const sma21Color = (() => { const c = getSMAColor(price, item.sma21); return c === 'GREEN' || c === 'RED' ? c : null; })();
-      const sma55Color = (() => { const c = getSMAColor(price, item.sma55); return c === 'GREEN' || c === 'RED' ? c : null; })();
-      const sma200Color = (() => { const c = getSMAColor(price, item.sma200); return c === 'GREEN' || c === 'RED' ? c : null; })();
+      const sma9Color = getSMATableColor(price, item.sma9);
+      const sma21Color = getSMATableColor(price, item.sma21);
+      const sma55Color = getSMATableColor(price, item.sma55);
+      const sma200Color = getSMATableColor(price, item.sma200);
 
       const enhancedData: ScoreBoardData = {
         ...item,
@@ -102,7 +125,8 @@ function ScoreViewInner() {
         enhancedData,
         thresholdData || [],
         benjaminGrahamData || [],
-        entryExitValues
+        entryExitValues,
+        scoringModel
       );
 
       return {
@@ -115,10 +139,44 @@ function ScoreViewInner() {
         exit1: exit1,
         exit2: exit2,
         score: score,
+        scoreModelVersion: scoringModel.version,
         scoreBoardData: enhancedData,
       };
     });
-  }, [scoreBoardData, benjaminGrahamData, thresholdData, entryExitValues]);
+  }, [scoreBoardData, benjaminGrahamData, thresholdData, entryExitValues, scoringModel]);
+
+  // Score alerts: only report complete scores (thresholds and prices loaded), partial ones would cross spuriously
+  useEffect(() => {
+    if (isBackgroundLoading || scoreData.length === 0) return;
+    reportScores(scoreData);
+  }, [scoreData, isBackgroundLoading, reportScores]);
+
+  // ISM regime tilt: industries the current regime favors (see ISM Posture & Positioning)
+  const regimeFavoredIndustries = useMemo(() => {
+    if (!ismRegime) return [];
+    const industries = new Set(
+      scoreData
+        .map((item) => item.scoreBoardData.industry)
+        .filter((industry) => industry && getIndustryTilt(industry, ismRegime.regime) === 'favored')
+    );
+    return [...industries].sort((a, b) => a.localeCompare(b));
+  }, [scoreData, ismRegime]);
+
+  const visibleScoreData = useMemo(() => {
+    if (!regimeFavoredOnly || !ismRegime) return scoreData;
+    const favored = new Set(regimeFavoredIndustries);
+    return scoreData.filter((item) => favored.has(item.scoreBoardData.industry));
+  }, [scoreData, regimeFavoredOnly, ismRegime, regimeFavoredIndustries]);
+
+  // Backtest matches price files by ticker; Entry/Exit values are keyed by company name
+  const entryExitByTicker = useMemo(() => {
+    const map = new Map<string, EntryExitValuesForScore>();
+    for (const item of scoreBoardData || []) {
+      const value = entryExitValues.get(item.companyName);
+      if (value) map.set(item.ticker.toLowerCase().trim(), value);
+    }
+    return map;
+  }, [scoreBoardData, entryExitValues]);
 
   return (
     <div className="h-full bg-gray-100 dark:bg-gray-900 py-4 sm:py-6 lg:py-8 px-3 sm:px-4 lg:px-6 flex flex-col transition-all duration-300 ease-in-out">
@@ -126,7 +184,25 @@ function ScoreViewInner() {
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6 sm:mb-8 flex-shrink-0 gap-4">
           <div>
             <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-black dark:text-white mb-1 tracking-tight">Score</h1>
-            <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 font-medium">Poängsystem baserat på färgkodning (0-100)</p>
+            <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 font-medium">
+              Poängsystem baserat på färgkodning (0-100) · {t('scoringModel.modelVersion', { version: scoringModel.version, defaultValue: `Modell v${scoringModel.version}` })}
+            </p>
+          </div>
+          <div className="flex gap-2 self-start sm:self-auto">
+            <button
+              onClick={() => setBacktestOpen(true)}
+              className="px-4 py-2 text-sm font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors min-h-[44px] touch-manipulation"
+            >
+              {t('backtest.open', 'Backtest')}
+            </button>
+            {isAdmin && (
+              <button
+                onClick={() => setScoringModelOpen(true)}
+                className="px-4 py-2 text-sm font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors min-h-[44px] touch-manipulation"
+              >
+                {t('scoringModel.edit', 'Redigera poängmodell')}
+              </button>
+            )}
           </div>
         </div>
         {isLoading && (
@@ -141,13 +217,38 @@ function ScoreViewInner() {
             </p>
           </div>
         )}
+        {/* Server refresh runs only cover the default universe */}
+        {!isLoading && activeUniverse.id === DEFAULT_UNIVERSE_ID && <RefreshChangesPanel />}
+        {!isLoading && ismRegime && scoreData.length > 0 && (
+          <div className="mb-4 flex-shrink-0 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+            <span className="flex items-center gap-1">
+              {t('ism.scoreRegime', 'ISM-regim')}:
+              <IsmRegimeBadge regime={ismRegime.regime} />
+              <span>(PMI {ismRegime.pmi.toFixed(1)}, {ismRegime.date})</span>
+            </span>
+            <span>
+              {t('ism.regimeFavored', 'Regimgynnade branscher')}:{' '}
+              {regimeFavoredIndustries.length > 0 ? regimeFavoredIndustries.join(', ') : '–'}
+            </span>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={regimeFavoredOnly}
+                onChange={(e) => setRegimeFavoredOnly(e.target.checked)}
+                className="rounded border-gray-300 dark:border-gray-600"
+              />
+              {t('ism.regimeFavoredOnly', 'Visa endast regimgynnade')}
+            </label>
+          </div>
+        )}
         {!isLoading && scoreData.length > 0 ? (
           <div className="flex-1 min-h-0 flex flex-col lg:flex-row gap-4 transition-all duration-300 ease-in-out">
             {/* Left side: Table */}
             <div className="flex-[3] min-h-0 min-w-0">
               <Suspense fallback={<TableSkeleton rows={15} columns={4} hasStickyColumns={true} />}>
                 <ScoreTable 
-                  data={scoreData} 
+                  initialTableState={sharedTableState}
+                  data={visibleScoreData} 
                   loading={false}
                   error={error}
                   thresholdData={thresholdData || []}
@@ -159,7 +260,7 @@ function ScoreViewInner() {
             {/* Right side: Dashboard with Heatmap and Scatter Plot */}
             <div className="flex-[2] lg:flex-shrink-0 flex flex-col min-h-0">
               <ScoreDashboard 
-                data={scoreData} 
+                data={visibleScoreData} 
                 loading={false}
                 thresholdData={thresholdData || []}
                 benjaminGrahamData={benjaminGrahamData || []}
@@ -175,6 +276,20 @@ function ScoreViewInner() {
           <div className="text-red-600 dark:text-red-400 p-4">{error}</div>
         ) : null}
       </div>
+      {scoringModelOpen && (
+        <Suspense fallback={null}>
+          <ScoringModelModal isOpen={scoringModelOpen} onClose={() => setScoringModelOpen(false)} />
+        </Suspense>
+      )}
+      {backtestOpen && (
+        <Suspense fallback={null}>
+          <ScoreBacktestModal
+            isOpen={backtestOpen}
+            onClose={() => setBacktestOpen(false)}
+            entryExitByTicker={entryExitByTicker}
+          />
+        </Suspense>
+      )}
     </div>
   );
 }
@@ -0,0 +1,383 @@
+import { useMemo, useState, type ChangeEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useLocation, useNavigate } from 'react-router-dom';
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  Legend,
+  ReferenceLine,
+  ReferenceDot,
+} from 'recharts';
+import { useScoreBoardData } from '../../hooks/useScoreBoardData';
+import { usePriceSeries } from '../../hooks/usePriceSeries';
+import { EntryExitProvider, useEntryExitValues } from '../../contexts/EntryExitContext';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useToast } from '../../contexts/ToastContext';
+import { createLocalPriceSource, type PriceSeriesSource } from '../../services/priceSeriesService';
+import {
+  SMA_PERIODS,
+  buildTAChartPoints,
+  findSMAFlips,
+  hasOHLC,
+  parsePriceBarsCsv,
+  type SMAPeriod,
+  type TAChartPoint,
+} from '../../utils/taChart';
+
+type ChartRange = '3M' | '6M' | '1Y' | '2Y' | 'ALL';
+type ChartMode = 'candle' | 'line';
+
+const RANGES: ChartRange[] = ['3M', '6M', '1Y', '2Y', 'ALL'];
+const RANGE_DAYS: Record<ChartRange, number | null> = { '3M': 91, '6M': 182, '1Y': 365, '2Y': 730, ALL: null };
+
+const SMA_COLORS: Record<SMAPeriod, string> = {
+  9: '#8b5cf6',
+  21: '#0ea5e9',
+  55: '#f59e0b',
+  200: '#ec4899',
+};
+
+const ENTRY_EXIT_LINES = [
+  { key: 'entry1', label: 'Entry1', color: '#16a34a' },
+  { key: 'entry2', label: 'Entry2', color: '#4ade80' },
+  { key: 'exit1', label: 'Exit1', color: '#dc2626' },
+  { key: 'exit2', label: 'Exit2', color: '#f87171' },
+] as const;
+
+const buttonClass =
+  'px-4 py-2 text-sm font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors min-h-[44px] touch-manipulation';
+
+function rangeStart(range: ChartRange, lastDate: string): string | null {
+  const days = RANGE_DAYS[range];
+  if (days == null) return null;
+  const start = new Date(`${lastDate}T00:00:00Z`);
+  start.setUTCDate(start.getUTCDate() - days);
+  return start.toISOString().slice(0, 10);
+}
+
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: TAChartPoint;
+}
+
+/** Candlestick drawn inside the Bar's [low, high] box */
+function CandleShape({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) {
+  if (!payload || payload.open == null || payload.high == null || payload.low == null) return null;
+  const { open, close, high, low } = payload;
+  const range = high - low;
+  const yOf = (value: number) => (range > 0 ? y + ((high - value) / range) * height : y);
+  const color = close >= open ? '#16a34a' : '#dc2626';
+  const bodyTop = yOf(Math.max(open, close));
+  const bodyHeight = Math.max(1, Math.abs(yOf(open) - yOf(close)));
+  const center = x + width / 2;
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={x + width * 0.15} y={bodyTop} width={Math.max(1, width * 0.7)} height={bodyHeight} fill={color} />
+    </g>
+  );
+}
+
+function TAChartViewInner() {
+  const { t } = useTranslation();
+  const { resolvedTheme } = useTheme();
+  const isDarkMode = resolvedTheme === 'dark';
+  const { showToast } = useToast();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { data: scoreBoardData } = useScoreBoardData();
+  const { getEntryExitValue } = useEntryExitValues();
+
+  const ticker = new URLSearchParams(location.search).get('ticker')?.trim().toUpperCase() || null;
+  const [tickerInput, setTickerInput] = useState(ticker ?? '');
+  const [urlTicker, setUrlTicker] = useState(ticker);
+  const [range, setRange] = useState<ChartRange>('1Y');
+  const [mode, setMode] = useState<ChartMode>('candle');
+  const [visibleSMAs, setVisibleSMAs] = useState<Set<SMAPeriod>>(new Set([21, 200]));
+  const [showFlips, setShowFlips] = useState(true);
+  const [localSource, setLocalSource] = useState<{ source: PriceSeriesSource; fileName: string } | null>(null);
+
+  // Follow ticker changes from the URL (row "open chart" links)
+  if (ticker !== urlTicker) {
+    setUrlTicker(ticker);
+    setTickerInput(ticker ?? '');
+  }
+
+  const { bars, loading, error } = usePriceSeries(ticker, localSource?.source);
+
+  const company = useMemo(
+    () => (scoreBoardData || []).find((item) => item.ticker.trim().toUpperCase() === ticker),
+    [scoreBoardData, ticker]
+  );
+  const entryExit = ticker && company ? getEntryExitValue(ticker, company.companyName) : undefined;
+
+  const allPoints = useMemo(() => buildTAChartPoints(bars), [bars]);
+  const points = useMemo(() => {
+    if (allPoints.length === 0) return allPoints;
+    const start = rangeStart(range, allPoints[allPoints.length - 1].date);
+    return start ? allPoints.filter((p) => p.date >= start) : allPoints;
+  }, [allPoints, range]);
+  const candles = mode === 'candle' && hasOHLC(bars);
+
+  // Flips are found on the full series so the first point of the window is not a false flip
+  const flips = useMemo(() => {
+    if (!showFlips || points.length === 0) return [];
+    const start = points[0].date;
+    return SMA_PERIODS.filter((period) => visibleSMAs.has(period))
+      .flatMap((period) => findSMAFlips(allPoints, period))
+      .filter((flip) => flip.date >= start);
+  }, [allPoints, points, visibleSMAs, showFlips]);
+
+  const selectTicker = (value: string) => {
+    const next = value.trim().toUpperCase();
+    navigate(next ? `/teknikal-tachart?ticker=${encodeURIComponent(next)}` : '/teknikal-tachart', { replace: true });
+  };
+
+  const toggleSMA = (period: SMAPeriod) => {
+    setVisibleSMAs((prev) => {
+      const next = new Set(prev);
+      if (next.has(period)) next.delete(period);
+      else next.add(period);
+      return next;
+    });
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const series = parsePriceBarsCsv(await file.text(), ticker ?? '');
+    if (series.size === 0) {
+      showToast(t('taChart.noRows', 'Filen innehåller inga prisrader (Date, Close krävs)'), 'error');
+      return;
+    }
+    setLocalSource({ source: createLocalPriceSource(`file:${file.name}`, series), fileName: file.name });
+    if (!ticker && series.size === 1) selectTicker([...series.keys()][0]);
+  };
+
+  const tickColor = isDarkMode ? '#e5e7eb' : '#374151';
+
+  return (
+    <div className="h-full bg-gray-100 dark:bg-gray-900 py-4 sm:py-6 lg:py-8 px-3 sm:px-4 lg:px-6 flex flex-col">
+      <div className="w-full flex flex-col flex-1 min-h-0">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6 sm:mb-8 flex-shrink-0 gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-black dark:text-white mb-1 tracking-tight">
+              {t('navigation.tachart')}
+            </h1>
+            <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 font-medium">
+              {company ? `${company.companyName} (${company.ticker})` : t('taChart.subtitle', 'Pris med SMA och Entry/Exit-nivåer')}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 self-start sm:self-auto">
+            <input
+              type="text"
+              list="tachart-ticker-options"
+              value={tickerInput}
+              onChange={(e) => setTickerInput(e.target.value)}
+              onBlur={() => selectTicker(tickerInput)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') selectTicker(tickerInput);
+              }}
+              placeholder={t('taChart.tickerPlaceholder', 'Ticker')}
+              aria-label={t('taChart.ticker', 'Ticker')}
+              className="w-32 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-black dark:text-white min-h-[44px]"
+            />
+            <datalist id="tachart-ticker-options">
+              {(scoreBoardData || []).map((item) => (
+                <option key={`${item.ticker}-${item.companyName}`} value={item.ticker}>
+                  {item.companyName}
+                </option>
+              ))}
+            </datalist>
+            <label className={`${buttonClass} cursor-pointer flex items-center`}>
+              {t('taChart.loadFile', 'Läs pris-CSV')}
+              <input type="file" accept=".csv,text/csv" className="sr-only" onChange={handleFileChange} />
+            </label>
+            {localSource && (
+              <button type="button" onClick={() => setLocalSource(null)} className={buttonClass}>
+                {t('taChart.clearFile', 'Använd poänghistorik')}
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-600 flex flex-col">
+          <div className="flex flex-wrap items-center gap-3 mb-3 text-sm text-gray-600 dark:text-gray-400">
+            <div className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden" role="group">
+              {RANGES.map((r) => (
+                <button
+                  key={r}
+                  type="button"
+                  onClick={() => setRange(r)}
+                  aria-pressed={range === r}
+                  className={`px-2 py-1 text-xs font-medium min-h-[32px] touch-manipulation ${
+                    range === r
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  {t(`taChart.range.${r}`, r === 'ALL' ? 'Allt' : r)}
+                </button>
+              ))}
+            </div>
+            <div className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden" role="group">
+              {(['candle', 'line'] as ChartMode[]).map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => setMode(m)}
+                  aria-pressed={mode === m}
+                  className={`px-2 py-1 text-xs font-medium min-h-[32px] touch-manipulation ${
+                    mode === m
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  {m === 'candle' ? t('taChart.candles', 'Candles') : t('taChart.line', 'Linje')}
+                </button>
+              ))}
+            </div>
+            {SMA_PERIODS.map((period) => (
+              <label key={period} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={visibleSMAs.has(period)}
+                  onChange={() => toggleSMA(period)}
+                  className="rounded border-gray-300 dark:border-gray-600"
+                />
+                <span style={{ color: SMA_COLORS[period] }}>SMA({period})</span>
+              </label>
+            ))}
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={showFlips}
+                onChange={(e) => setShowFlips(e.target.checked)}
+                className="rounded border-gray-300 dark:border-gray-600"
+              />
+              {t('taChart.flips', 'SMA-korsningar')}
+            </label>
+          </div>
+
+          {localSource && (
+            <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+              {t('taChart.fileSource', { file: localSource.fileName, defaultValue: `Priser från ${localSource.fileName}` })}
+            </p>
+          )}
+          {mode === 'candle' && bars.length > 0 && !candles && (
+            <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+              {t('taChart.closeOnly', 'Källan har bara stängningskurser – visar linje.')}
+            </p>
+          )}
+
+          {!ticker ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {t('taChart.chooseTicker', 'Välj en ticker, eller öppna grafen från en tabellrad.')}
+            </p>
+          ) : loading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('taChart.loading', 'Laddar priser...')}</p>
+          ) : error ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          ) : points.length < 2 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {t('taChart.empty', 'Ingen prishistorik för tickern ännu. Läs in en pris-CSV för att se grafen.')}
+            </p>
+          ) : (
+            <div className="flex-1 min-h-[320px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={points} margin={{ top: 5, right: 60, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? '#374151' : '#e5e7eb'} />
+                  <XAxis dataKey="date" tick={{ fill: tickColor, fontSize: 11 }} minTickGap={24} />
+                  <YAxis tick={{ fill: tickColor, fontSize: 11 }} width={56} domain={['auto', 'auto']} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: isDarkMode ? '#1f2937' : '#ffffff',
+                      borderColor: isDarkMode ? '#374151' : '#e5e7eb',
+                      fontSize: 12,
+                    }}
+                    formatter={(value: number | [number, number]) =>
+                      Array.isArray(value) ? `${value[0].toFixed(2)} – ${value[1].toFixed(2)}` : value.toFixed(2)
+                    }
+                  />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  {candles ? (
+                    <Bar dataKey="candle" name={t('taChart.price', 'Pris')} shape={<CandleShape />} isAnimationActive={false} />
+                  ) : (
+                    <Line
+                      type="monotone"
+                      dataKey="close"
+                      name={t('taChart.price', 'Pris')}
+                      stroke={isDarkMode ? '#e5e7eb' : '#111827'}
+                      strokeWidth={1.5}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  )}
+                  {SMA_PERIODS.filter((period) => visibleSMAs.has(period)).map((period) => (
+                    <Line
+                      key={period}
+                      type="monotone"
+                      dataKey={`sma${period}`}
+                      name={`SMA(${period})`}
+                      stroke={SMA_COLORS[period]}
+                      strokeWidth={1.5}
+                      dot={false}
+                      connectNulls
+                      isAnimationActive={false}
+                    />
+                  ))}
+                  {entryExit &&
+                    ENTRY_EXIT_LINES.filter((line) => entryExit[line.key] > 0).map((line) => (
+                      <ReferenceLine
+                        key={line.key}
+                        y={entryExit[line.key]}
+                        stroke={line.color}
+                        strokeDasharray="6 3"
+                        label={{ value: line.label, position: 'right', fill: line.color, fontSize: 11 }}
+                        ifOverflow="extendDomain"
+                      />
+                    ))}
+                  {flips.map((flip) => (
+                    <ReferenceDot
+                      key={`${flip.period}-${flip.date}`}
+                      x={flip.date}
+                      y={flip.price}
+                      r={4}
+                      fill={flip.color === 'GREEN' ? '#16a34a' : '#dc2626'}
+                      stroke={SMA_COLORS[flip.period]}
+                      strokeWidth={2}
+                    />
+                  ))}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {ticker && !entryExit && points.length >= 2 && (
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              {t('taChart.noEntryExit', 'Inga Entry/Exit-värden för tickern.')}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function TAChartView() {
+  return (
+    <EntryExitProvider>
+      <TAChartViewInner />
+    </EntryExitProvider>
+  );
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_UNIVERSE_ID,
+  getSheetCsvUrl,
+  getThresholdCollectionPath,
+  parseUniverses,
+  scopeCacheKey,
+  scopeViewId,
+} from '../universes';
+import { CACHE_KEYS } from '../../services/cacheKeys';
+
+describe('parseUniverses', () => {
+  it('returns only the default universe without configuration', () => {
+    expect(parseUniverses(undefined).map((u) => u.id)).toEqual([DEFAULT_UNIVERSE_ID]);
+    expect(parseUniverses('not json').map((u) => u.id)).toEqual([DEFAULT_UNIVERSE_ID]);
+  });
+
+  it('adds valid entries with sheet name defaults', () => {
+    const universes = parseUniverses(
+      JSON.stringify([{ id: 'us-small', label: 'US Small', spreadsheetId: 'abc', dashboardGid: '1', smaGid: '2' }])
+    );
+    expect(universes).toHaveLength(2);
+    expect(universes[1]).toEqual({
+      id: 'us-small',
+      label: 'US Small',
+      spreadsheetId: 'abc',
+      dashboardSheet: 'DashBoard',
+      dashboardGid: '1',
+      smaSheet: 'SMA',
+      smaGid: '2',
+    });
+  });
+
+  it('skips invalid and duplicate entries', () => {
+    const universes = parseUniverses(
+      JSON.stringify([
+        { id: 'Bad Id', spreadsheetId: 'abc', dashboardGid: '1', smaGid: '2' },
+        { id: 'nordic', spreadsheetId: 'abc', dashboardGid: '1' },
+        { id: DEFAULT_UNIVERSE_ID, spreadsheetId: 'abc', dashboardGid: '1', smaGid: '2' },
+        { id: 'us', spreadsheetId: 'abc', dashboardGid: '1', smaGid: '2' },
+        { id: 'us', spreadsheetId: 'def', dashboardGid: '1', smaGid: '2' },
+      ])
+    );
+    expect(universes.map((u) => u.id)).toEqual([DEFAULT_UNIVERSE_ID, 'us']);
+    expect(universes[1].label).toBe('us');
+  });
+});
+
+describe('universe scoping', () => {
+  it('keeps default universe ids unchanged', () => {
+    expect(scopeCacheKey(CACHE_KEYS.SCORE_BOARD, DEFAULT_UNIVERSE_ID)).toBe(CACHE_KEYS.SCORE_BOARD);
+    expect(scopeViewId('score-board', DEFAULT_UNIVERSE_ID)).toBe('score-board');
+    expect(getThresholdCollectionPath(DEFAULT_UNIVERSE_ID)).toBe('industryThresholds');
+  });
+
+  it('scopes sheet data to other universes', () => {
+    expect(scopeCacheKey(CACHE_KEYS.SCORE_BOARD, 'us')).toBe(`${CACHE_KEYS.SCORE_BOARD}__us`);
+    expect(scopeViewId('score-board', 'us')).toBe('score-board__us');
+    expect(getThresholdCollectionPath('us')).toBe('universes/us/industryThresholds');
+  });
+
+  it('leaves shared keys and views unscoped', () => {
+    expect(scopeCacheKey(CACHE_KEYS.ISM, 'us')).toBe(CACHE_KEYS.ISM);
+    expect(scopeViewId('personal-portfolio', 'us')).toBe('personal-portfolio');
+  });
+});
+
+describe('getSheetCsvUrl', () => {
+  it('builds the CSV export URL of the requested sheet', () => {
+    const [, universe] = parseUniverses(
+      JSON.stringify([{ id: 'us', spreadsheetId: 'abc', dashboardGid: '1', smaGid: '2' }])
+    );
+    expect(getSheetCsvUrl(universe, 'sma')).toBe('https://docs.google.com/spreadsheets/d/abc/export?format=csv&gid=2');
+  });
+});
@@ -6,22 +6,24 @@
  * readability and maintainability.
  */
 
+// Score color thresholds and factors, shared with the Cloud Functions
+export {
+  PRICE_TOLERANCE_GREEN,
+  RR1_GREEN_THRESHOLD_PERCENT,
+  MUNGER_QUALITY_SCORE_RED_THRESHOLD,
+  MUNGER_QUALITY_SCORE_GREEN_THRESHOLD,
+} from '../../shared/colorLogic';
+export { COLOR_FACTOR_GREEN, COLOR_FACTOR_ORANGE_BLUE } from '../../shared/scoringModel';
+
 // Price tolerance multipliers
-export const PRICE_TOLERANCE_GREEN = 1.05; // 5% above entry (TheoEntry / RR coloring)
 export const PRICE_TOLERANCE_RED_EXIT_LOW = 0.95; // Red when price >= exit * this (within 5% below exit, at exit, or above exit)
 
 // Return rate thresholds (percentages)
-export const RR1_GREEN_THRESHOLD_PERCENT = 60;
 export const RR2_GREEN_THRESHOLD_PERCENT = 90;
 
-// Munger Quality Score thresholds
-export const MUNGER_QUALITY_SCORE_RED_THRESHOLD = 40;
-export const MUNGER_QUALITY_SCORE_GREEN_THRESHOLD = 60;
+// Entry/Exit analysis views (entry-exit-entry2 / exit1 / exit2 / iv-fcf)
+export const ENTRY_DISTANCE_ORANGE_PERCENT = 15; // Orange when price is within 15% above Entry2 (green within 5%)
+export const IV_FCF_MARGIN_GREEN_PERCENT = 30; // Green when price is at least 30% below IV (FCF)
 
 // Date thresholds (days)
 export const DATE_NEAR_OLD_THRESHOLD_DAYS = 30;
-
-// Color factors
-export const COLOR_FACTOR_GREEN = 1.00;
-export const COLOR_FACTOR_ORANGE_BLUE = 0.70;
-
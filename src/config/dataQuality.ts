@@ -0,0 +1,16 @@
+/**
+ * Data quality check configuration.
+ *
+ * Limits used by utils/dataQuality to flag DashBoard rows that are structurally valid but implausible. The
+ * flags are advisory: rows are still scored but marked in the Score and Score Board tables, and the Data Health
+ * view lists them for follow-up in the sheet.
+ */
+
+/** Price moves above this share (percent) since the previous snapshot are flagged (splits, wrong currency, typos) */
+export const MAX_PRICE_MOVE_PCT = 30;
+
+/** P/E, P/E1 and P/E2 outside [min, max] are flagged; 0 or below usually means losses, not a usable multiple */
+export const PE_PLAUSIBLE_RANGE = { min: 0, max: 200 } as const;
+
+/** Entry/exit values whose dateOfUpdate is older than this are flagged for review */
+export const STALE_ENTRY_EXIT_DAYS = 180;
@@ -1,44 +1,10 @@
 /**
  * Industry Threshold configuration
  *
- * Fixed mapping of camelCase keys (Firestore keys) to display labels.
+ * Fixed mapping of camelCase keys (Firestore keys) to display labels: the canonical industry list.
+ * Sheet spellings that differ from a label resolve through the industry alias table
+ * (utils/industryResolution, appConfig/industryAliases). Defined in shared/industries.ts so the
+ * Cloud Functions resolve industries from the same list.
  */
 
-export const INDUSTRY_MAP: Record<string, string> = {
-  apparelLeatherAndAlliedProducts: 'Apparel, Leather & Allied Products',
-  chemicalProducts: 'Chemical Products',
-  computerAndElectronicProducts: 'Computer & Electronic Products',
-  electricalEquipmentAppliancesAndComponents: 'Electrical Equipment, Appliances & Components',
-  fabricatedMetalProducts: 'Fabricated Metal Products',
-  foodBeverageAndTobaccoProducts: 'Food, Beverage & Tobacco Products',
-  furnitureAndRelatedProducts: 'Furniture & Related Products',
-  machinery: 'Machinery',
-  miscellaneousManufacturing: 'Miscellaneous Manufacturing',
-  nonmetallicMineralProducts: 'Nonmetallic Mineral Products',
-  paperProducts: 'Paper Products',
-  petroleumAndCoalProducts: 'Petroleum & Coal Products',
-  primaryMetals: 'Primary Metals',
-  printingAndRelatedSupportActivities: 'Printing & Related Support Activities',
-  plasticsAndRubberProducts: 'Plastics & Rubber Products',
-  textileMills: 'Textile Mills',
-  transportationEquipment17: 'Transportation Equipment',
-  woodProducts: 'Wood Products',
-  accommodationAndFoodServices: 'Accommodation & Food Services',
-  agricultureForestryFishingAndHunting: 'Agriculture, Forestry, Fishing & Hunting',
-  artsEntertainmentAndRecreation: 'Arts, Entertainment & Recreation',
-  construction: 'Construction',
-  educationalServices: 'Educational Services',
-  financeAndInsurance: 'Finance & Insurance',
-  healthCareAndSocialAssistance: 'Health Care & Social Assistance',
-  information: 'Information',
-  managementOfCompaniesAndSupportServices: 'Management of Companies & Support Services',
-  mining: 'Mining',
-  otherServices: 'Other Services',
-  professionalScientificAndTechnicalServices: 'Professional, Scientific & Technical Services',
-  publicAdministration: 'Public Administration',
-  realEstateRentalAndLeasing: 'Real Estate, Rental & Leasing',
-  retailTrade: 'Retail Trade',
-  transportationAndWarehousing: 'Transportation & Warehousing',
-  utilities: 'Utilities',
-  wholesaleTrade: 'Wholesale Trade',
-};
+export { INDUSTRY_MAP } from '../../shared/industries';
@@ -0,0 +1,76 @@
+/**
+ * ISM regime model configuration.
+ *
+ * The regime is read from the PMI level (above/below 50) and its direction over TREND_MONTHS;
+ * each regime tilts the Score Board industries (INDUSTRY_MAP keys) in the usual business-cycle order:
+ * recovery favors early cyclicals, expansion capital goods and tech, slowdown materials and energy,
+ * contraction defensives. Industries not listed are neutral.
+ */
+
+import type { IsmRegime } from '../types/ism';
+
+/** PMI level separating expansion from contraction */
+export const ISM_NEUTRAL_LEVEL = 50;
+
+/** Months between the readings compared for the PMI trend */
+export const ISM_TREND_MONTHS = 3;
+
+export const ISM_REGIMES: IsmRegime[] = ['recovery', 'expansion', 'slowdown', 'contraction'];
+
+export const REGIME_INDUSTRY_TILTS: Record<IsmRegime, { favored: string[]; unfavored: string[] }> = {
+  recovery: {
+    favored: [
+      'construction',
+      'furnitureAndRelatedProducts',
+      'woodProducts',
+      'transportationEquipment17',
+      'financeAndInsurance',
+      'realEstateRentalAndLeasing',
+      'retailTrade',
+      'accommodationAndFoodServices',
+    ],
+    unfavored: ['utilities', 'healthCareAndSocialAssistance', 'foodBeverageAndTobaccoProducts'],
+  },
+  expansion: {
+    favored: [
+      'computerAndElectronicProducts',
+      'information',
+      'machinery',
+      'electricalEquipmentAppliancesAndComponents',
+      'fabricatedMetalProducts',
+      'professionalScientificAndTechnicalServices',
+      'transportationAndWarehousing',
+      'wholesaleTrade',
+    ],
+    unfavored: ['utilities', 'publicAdministration'],
+  },
+  slowdown: {
+    favored: [
+      'petroleumAndCoalProducts',
+      'mining',
+      'primaryMetals',
+      'chemicalProducts',
+      'nonmetallicMineralProducts',
+      'paperProducts',
+      'healthCareAndSocialAssistance',
+    ],
+    unfavored: ['computerAndElectronicProducts', 'information', 'retailTrade', 'realEstateRentalAndLeasing'],
+  },
+  contraction: {
+    favored: [
+      'utilities',
+      'healthCareAndSocialAssistance',
+      'foodBeverageAndTobaccoProducts',
+      'publicAdministration',
+      'educationalServices',
+    ],
+    unfavored: [
+      'construction',
+      'transportationEquipment17',
+      'primaryMetals',
+      'fabricatedMetalProducts',
+      'financeAndInsurance',
+      'realEstateRentalAndLeasing',
+    ],
+  },
+};
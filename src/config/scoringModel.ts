@@ -0,0 +1,11 @@
+/**
+ * Default scoring model.
+ *
+ * Used until an admin has saved a model to Firestore (appConfig/scoringModel),
+ * and as the fallback when the stored document is missing or invalid.
+ *
+ * Total weight: 100 points (50 fundamental + 50 technical), score scale 0–100.
+ * Defined in shared/scoringModel.ts so the client and the Cloud Functions score with the same defaults.
+ */
+
+export { DEFAULT_SCORE_METRICS, DEFAULT_SCORING_MODEL, MAX_SCORE_METRIC_WEIGHT } from '../../shared/scoringModel';
@@ -122,6 +122,196 @@ export const tableMetadata: TableMetadata[] = [
       }
     ]
   },
+  {
+    tableId: 'entry-exit-entry2',
+    columns: [
+      {
+        columnKey: 'price',
+        dataSource: 'Dashboard sheet, kolumn "Price"',
+        conditions: [
+          'Visa N/A om värdet är null eller ogiltigt'
+        ]
+      },
+      {
+        columnKey: 'reference',
+        dataSource: 'Entry/Exit-värden (Firestore), fält "entry2"',
+        conditions: [
+          'Visa N/A om Entry2 saknas eller är 0'
+        ]
+      },
+      {
+        columnKey: 'metric',
+        dataSource: 'Beräknat från Price och Entry2',
+        formula: '(Price - Entry2) / Entry2 * 100',
+        conditions: [
+          'Visa N/A om Price eller Entry2 saknas',
+          'Formateras som procent med noll decimaler',
+          'Rader utan värde sorteras sist'
+        ]
+      },
+      {
+        columnKey: 'color',
+        dataSource: 'Beräknat (colorThresholds/entryExitMetrics)',
+        conditions: [
+          'GRÖN om Price <= Entry2 * 1.05',
+          'ORANGE om Price ligger högst 15% över Entry2',
+          'RÖD annars'
+        ]
+      }
+    ]
+  },
+  {
+    tableId: 'entry-exit-exit1',
+    columns: [
+      {
+        columnKey: 'price',
+        dataSource: 'Dashboard sheet, kolumn "Price"',
+        conditions: [
+          'Visa N/A om värdet är null eller ogiltigt'
+        ]
+      },
+      {
+        columnKey: 'reference',
+        dataSource: 'Entry/Exit-värden (Firestore), fält "exit1"',
+        conditions: [
+          'Visa N/A om Exit1 saknas eller är 0'
+        ]
+      },
+      {
+        columnKey: 'metric',
+        dataSource: 'Beräknat från Price och Exit1',
+        formula: '(Exit1 - Price) / Price * 100',
+        conditions: [
+          'Visa N/A om Price eller Exit1 saknas',
+          'Formateras som procent med noll decimaler',
+          'Rader utan värde sorteras sist'
+        ]
+      },
+      {
+        columnKey: 'color',
+        dataSource: 'Beräknat (colorThresholds/entryExitMetrics)',
+        conditions: [
+          'RÖD om Price >= Exit1 * 0.95',
+          'GRÖN om uppsidan är minst 60%',
+          'ORANGE annars'
+        ]
+      }
+    ]
+  },
+  {
+    tableId: 'entry-exit-exit2',
+    columns: [
+      {
+        columnKey: 'price',
+        dataSource: 'Dashboard sheet, kolumn "Price"',
+        conditions: [
+          'Visa N/A om värdet är null eller ogiltigt'
+        ]
+      },
+      {
+        columnKey: 'reference',
+        dataSource: 'Entry/Exit-värden (Firestore), fält "exit2"',
+        conditions: [
+          'Visa N/A om Exit2 saknas eller är 0'
+        ]
+      },
+      {
+        columnKey: 'metric',
+        dataSource: 'Beräknat från Price och Exit2',
+        formula: '(Exit2 - Price) / Price * 100',
+        conditions: [
+          'Visa N/A om Price eller Exit2 saknas',
+          'Formateras som procent med noll decimaler',
+          'Rader utan värde sorteras sist'
+        ]
+      },
+      {
+        columnKey: 'color',
+        dataSource: 'Beräknat (colorThresholds/entryExitMetrics)',
+        conditions: [
+          'RÖD om Price >= Exit2 * 0.95',
+          'GRÖN om uppsidan är minst 90%',
+          'ORANGE annars'
+        ]
+      }
+    ]
+  },
+  {
+    tableId: 'entry-exit-irr1',
+    columns: [
+      {
+        columnKey: 'price',
+        dataSource: 'Dashboard sheet, kolumn "Price"',
+        conditions: [
+          'Visa N/A om värdet är null eller ogiltigt'
+        ]
+      },
+      {
+        columnKey: 'reference',
+        dataSource: 'Entry/Exit-värden (Firestore), fält "entry1"',
+        conditions: [
+          'Visa N/A om Entry1 saknas eller är 0'
+        ]
+      },
+      {
+        columnKey: 'metric',
+        dataSource: 'Beräknat från Price och Entry1',
+        formula: 'RR1 = (Exit - Entry1) / Entry1 * 100, där Exit = Exit1 om ifyllt annars Exit2',
+        conditions: [
+          'Visa N/A om Price eller Entry1 saknas',
+          'Formateras som procent med noll decimaler',
+          'Rader utan värde sorteras sist'
+        ]
+      },
+      {
+        columnKey: 'color',
+        dataSource: 'Beräknat (colorThresholds/entryExitMetrics)',
+        conditions: [
+          'GRÖN om RR1 >= 60% OCH Price <= Entry1 * 1.05',
+          'ORANGE om RR1 >= 60% men Price ligger över Entry1 * 1.05',
+          'RÖD om RR1 < 60%'
+        ]
+      }
+    ]
+  },
+  {
+    tableId: 'entry-exit-iv-fcf',
+    columns: [
+      {
+        columnKey: 'price',
+        dataSource: 'Dashboard sheet, kolumn "Price"',
+        conditions: [
+          'Visa N/A om värdet är null eller ogiltigt'
+        ]
+      },
+      {
+        columnKey: 'reference',
+        dataSource: 'Dashboard sheet, kolumn "IV (FCF)"',
+        conditions: [
+          'Visa N/A om IV (FCF) saknas eller är 0'
+        ]
+      },
+      {
+        columnKey: 'metric',
+        dataSource: 'Beräknat från Price och IV (FCF)',
+        formula: 'Margin of Safety = (IV (FCF) - Price) / IV (FCF) * 100',
+        conditions: [
+          'Visa N/A om Price eller IV (FCF) saknas',
+          'Formateras som procent med noll decimaler',
+          'Rader utan värde sorteras sist'
+        ]
+      },
+      {
+        columnKey: 'color',
+        dataSource: 'Beräknat (colorThresholds/entryExitMetrics)',
+        conditions: [
+          'GRÖN om Margin of Safety >= 30%',
+          'ORANGE om Price ligger under IV (FCF) med mindre marginal',
+          'RÖD om Price >= IV (FCF)'
+        ]
+      }
+    ]
+  },
   {
     tableId: 'pe-industry',
     columns: [
@@ -178,6 +368,105 @@ export const tableMetadata: TableMetadata[] = [
       }
     ]
   },
+  {
+    tableId: 'current-ratio',
+    columns: [
+      {
+        columnKey: 'value',
+        dataSource: 'Dashboard sheet, kolumn "Current Ratio"',
+        conditions: [
+          'Visa N/A om värdet saknas eller är ogiltigt',
+          'Färg enligt branschens min/max (se Färg)'
+        ]
+      },
+      {
+        columnKey: 'min',
+        dataSource: 'Industry Threshold (Firestore industryThresholds), fält "currentRatioMin"',
+        conditions: [
+          'Matchas på Industry (skiftlägesokänsligt)',
+          'Uppdateras direkt när tröskelvärden ändras i Industry Threshold',
+          'Visa N/A om branschen saknas i Industry Threshold'
+        ]
+      },
+      {
+        columnKey: 'max',
+        dataSource: 'Industry Threshold (Firestore industryThresholds), fält "currentRatioMax"',
+        conditions: [
+          'Matchas på Industry (skiftlägesokänsligt)',
+          'Visa N/A om branschen saknas i Industry Threshold'
+        ]
+      },
+      {
+        columnKey: 'color',
+        dataSource: 'Beräknat från Current Ratio och branschens min/max',
+        conditions: [
+          'RÖD om Current Ratio < min',
+          'GRÖN om min <= Current Ratio < max',
+          'ORANGE om Current Ratio >= max'
+        ]
+      },
+      {
+        columnKey: 'distance',
+        dataSource: 'Beräknat från Current Ratio och branschens min/max',
+        formula: 'RÖD: min - värde, ORANGE: max - värde',
+        conditions: [
+          'Positivt värde = Current Ratio måste öka, negativt = måste minska',
+          'För GRÖN visas marginalen till närmaste sämre färg',
+          'Visa – om färgen saknas'
+        ]
+      }
+    ]
+  },
+  {
+    tableId: 'cash-sdebt',
+    columns: [
+      {
+        columnKey: 'value',
+        dataSource: 'Dashboard sheet, kolumn "Cash/SDebt"',
+        conditions: [
+          'Visa N/A om värdet saknas eller är ogiltigt',
+          'Färg enligt branschens min/max (se Färg)'
+        ]
+      },
+      {
+        columnKey: 'min',
+        dataSource: 'Industry Threshold (Firestore industryThresholds), fält "cashSdebtMin"',
+        conditions: [
+          'Matchas på Industry (skiftlägesokänsligt)',
+          'Uppdateras direkt när tröskelvärden ändras i Industry Threshold',
+          'Visa N/A om branschen saknas i Industry Threshold'
+        ]
+      },
+      {
+        columnKey: 'max',
+        dataSource: 'Industry Threshold (Firestore industryThresholds), fält "cashSdebtMax"',
+        conditions: [
+          'Matchas på Industry (skiftlägesokänsligt)',
+          'Visa N/A om branschen saknas i Industry Threshold'
+        ]
+      },
+      {
+        columnKey: 'color',
+        dataSource: 'Beräknat från Cash/SDebt och branschens min/max',
+        conditions: [
+          'GRÖN om bolaget saknar kort skuld (division med noll)',
+          'RÖD om Cash/SDebt <= min',
+          'GRÖN om Cash/SDebt >= max',
+          'ORANGE annars'
+        ]
+      },
+      {
+        columnKey: 'distance',
+        dataSource: 'Beräknat från Cash/SDebt och branschens min/max',
+        formula: 'RÖD: min - värde, ORANGE/GRÖN: max - värde',
+        conditions: [
+          'Positivt värde = Cash/SDebt måste öka, negativt = måste minska',
+          'För GRÖN visas marginalen till närmaste sämre färg',
+          'Visa – om färgen saknas eller bolaget saknar kort skuld'
+        ]
+      }
+    ]
+  },
   {
     tableId: 'score',
     columns: [
@@ -544,7 +833,24 @@ export const tableMetadata: TableMetadata[] = [
         dataSource: 'Speglat från Entry/Exit-tabellen',
         conditions: [
           'Standardvärde är USD om currency saknas',
-          'Currency kan endast redigeras i Entry/Exit-tabellen'
+          'Currency kan endast redigeras i Entry/Exit-tabellen',
+          'Hovra för valutakurs till basvalutan, källa och ålder'
+        ]
+      },
+      {
+        columnKey: 'profitLossPrice',
+        dataSource: 'Beräknat: Marknadsvärde − investerat belopp omräknat till dagens valutakurs',
+        conditions: [
+          'Den del av orealiserad P/L som kommer från aktiekursens rörelse',
+          'Visas i basvalutan'
+        ]
+      },
+      {
+        columnKey: 'profitLossCurrency',
+        dataSource: 'Beräknat: Investerat belopp till dagens valutakurs − till valutakursen på affärsdagen',
+        conditions: [
+          'Den del av orealiserad P/L som kommer från valutans rörelse mot basvalutan',
+          'Affärsdagens kurs hämtas från portföljens dagliga ögonblicksbilder, annars dagens kurs'
         ]
       }
     ]
@@ -0,0 +1,26 @@
+/**
+ * Threshold suggestion configuration.
+ *
+ * Percentile bands used by utils/thresholdSuggestions to derive industry thresholds from the Score Board
+ * population. Suggestions are only a starting point: admins accept them per field or per industry.
+ */
+
+export interface SuggestionPercentiles {
+  /** Percentile (0-100) suggested as the MIN threshold */
+  lower: number;
+  /** Percentile (0-100) suggested as the MAX threshold */
+  upper: number;
+}
+
+/** Bands offered in the suggestion panel, narrowest orange band last */
+export const SUGGESTION_PERCENTILE_OPTIONS: readonly SuggestionPercentiles[] = [
+  { lower: 10, upper: 90 },
+  { lower: 20, upper: 80 },
+  { lower: 25, upper: 75 },
+  { lower: 33, upper: 67 },
+];
+
+export const DEFAULT_SUGGESTION_PERCENTILES: SuggestionPercentiles = { lower: 25, upper: 75 };
+
+/** Fewer values than this per industry and metric give no suggestion; percentiles of a handful of stocks are noise */
+export const MIN_SUGGESTION_SAMPLE_SIZE = 5;
@@ -0,0 +1,131 @@
+/**
+ * Stock universes.
+ *
+ * A universe is one stock list in its own spreadsheet (DashBoard + SMA sheets). The default universe is the
+ * original spreadsheet and keeps the unscoped appCache keys, viewData docs and industryThresholds collection,
+ * so existing data stays where it is. Other universes get scoped ids (`<id>__<universeId>`) and
+ * universes/{universeId}/industryThresholds.
+ *
+ * Extra universes come from VITE_UNIVERSES, a JSON array of
+ * { id, label, spreadsheetId, dashboardGid, smaGid, dashboardSheet?, smaSheet?, appsScriptUrl? }.
+ */
+
+import { CACHE_KEYS } from '../services/cacheKeys';
+
+export interface UniverseConfig {
+  /** Lowercase letters, digits and dashes; used in cache keys and Firestore doc ids */
+  id: string;
+  label: string;
+  spreadsheetId: string;
+  dashboardSheet: string;
+  dashboardGid: string;
+  smaSheet: string;
+  smaGid: string;
+  /** Apps Script Web App bound to this spreadsheet. Without it the universe loads through the CSV export. */
+  appsScriptUrl?: string;
+}
+
+export const DEFAULT_UNIVERSE_ID = 'default';
+
+export const DEFAULT_UNIVERSE: UniverseConfig = {
+  id: DEFAULT_UNIVERSE_ID,
+  label: import.meta.env.VITE_DEFAULT_UNIVERSE_LABEL || 'Standard',
+  spreadsheetId: '1KOOSLJVGdDZHBV1MUmb4D9oVIKUJj5TIgYCerjkWYcE',
+  dashboardSheet: 'DashBoard',
+  dashboardGid: '1180885830',
+  smaSheet: 'SMA',
+  smaGid: '1413104083',
+};
+
+/** Separator between a cache key / view id and the universe id */
+export const UNIVERSE_SCOPE_SEPARATOR = '__';
+
+const UNIVERSE_ID_PATTERN = /^[a-z0-9-]+$/;
+
+/** appCache keys that hold sheet data (scoped per universe); ISM and currency rates are shared */
+const UNIVERSE_SCOPED_CACHE_KEYS = new Set<string>([
+  CACHE_KEYS.SCORE_BOARD,
+  CACHE_KEYS.BENJAMIN_GRAHAM,
+  CACHE_KEYS.PE_INDUSTRY,
+  CACHE_KEYS.SMA,
+  CACHE_KEYS.THRESHOLD_INDUSTRY,
+]);
+
+/** viewData docs built from sheet data (scoped per universe) */
+const UNIVERSE_SCOPED_VIEW_IDS = new Set<string>([
+  'score',
+  'score-board',
+  'entry-exit-benjamin-graham',
+  'fundamental-pe-industry',
+  'industry-threshold',
+]);
+
+function readString(raw: Record<string, unknown>, key: string): string | null {
+  const value = raw[key];
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+/**
+ * Default universe followed by the valid, unique entries of VITE_UNIVERSES. Invalid JSON or entries are skipped.
+ */
+export function parseUniverses(raw: string | undefined): UniverseConfig[] {
+  const universes: UniverseConfig[] = [DEFAULT_UNIVERSE];
+  if (!raw) return universes;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return universes;
+  }
+  if (!Array.isArray(parsed)) return universes;
+
+  for (const item of parsed) {
+    if (!item || typeof item !== 'object') continue;
+    const entry = item as Record<string, unknown>;
+    const id = readString(entry, 'id');
+    const spreadsheetId = readString(entry, 'spreadsheetId');
+    const dashboardGid = readString(entry, 'dashboardGid');
+    const smaGid = readString(entry, 'smaGid');
+    if (!id || !UNIVERSE_ID_PATTERN.test(id) || !spreadsheetId || !dashboardGid || !smaGid) continue;
+    if (universes.some((u) => u.id === id)) continue;
+
+    const appsScriptUrl = readString(entry, 'appsScriptUrl');
+    universes.push({
+      id,
+      label: readString(entry, 'label') ?? id,
+      spreadsheetId,
+      dashboardSheet: readString(entry, 'dashboardSheet') ?? DEFAULT_UNIVERSE.dashboardSheet,
+      dashboardGid,
+      smaSheet: readString(entry, 'smaSheet') ?? DEFAULT_UNIVERSE.smaSheet,
+      smaGid,
+      ...(appsScriptUrl ? { appsScriptUrl } : {}),
+    });
+  }
+  return universes;
+}
+
+/** appCache key for a universe (unchanged for the default universe and for shared keys) */
+export function scopeCacheKey(key: string, universeId: string): string {
+  return universeId === DEFAULT_UNIVERSE_ID || !UNIVERSE_SCOPED_CACHE_KEYS.has(key)
+    ? key
+    : `${key}${UNIVERSE_SCOPE_SEPARATOR}${universeId}`;
+}
+
+/** viewData doc id for a universe (unchanged for the default universe and for shared views) */
+export function scopeViewId(viewId: string, universeId: string): string {
+  return universeId === DEFAULT_UNIVERSE_ID || !UNIVERSE_SCOPED_VIEW_IDS.has(viewId)
+    ? viewId
+    : `${viewId}${UNIVERSE_SCOPE_SEPARATOR}${universeId}`;
+}
+
+/** Firestore collection path of the industry thresholds for a universe */
+export function getThresholdCollectionPath(universeId: string): string {
+  return universeId === DEFAULT_UNIVERSE_ID ? 'industryThresholds' : `universes/${universeId}/industryThresholds`;
+}
+
+/** CSV export URL of the universe's DashBoard or SMA sheet (fallback when the Apps Script API is unavailable) */
+export function getSheetCsvUrl(universe: UniverseConfig, sheet: 'dashboard' | 'sma'): string {
+  const gid = sheet === 'dashboard' ? universe.dashboardGid : universe.smaGid;
+  return `https://docs.google.com/spreadsheets/d/${universe.spreadsheetId}/export?format=csv&gid=${gid}`;
+}
@@ -0,0 +1,8 @@
+import type { ViewId } from '../types/navigation';
+import { GRANTABLE_VIEW_IDS as SHARED_GRANTABLE_VIEW_IDS } from '../../shared/viewAccess';
+
+/**
+ * Views a viewer can be granted through allowedViews (shared/viewAccess.ts, also used by the
+ * adminSetUserView callable). score and personal-portfolio are always available and admin-* views are admin-only.
+ */
+export const GRANTABLE_VIEW_IDS: readonly ViewId[] = SHARED_GRANTABLE_VIEW_IDS;
@@ -8,12 +8,23 @@ export function getTableId(viewId: ViewId): string | null {
   if (viewId === 'score-board') return 'score-board';
   if (viewId === 'ism-posture-positioning') return null;
   if (viewId === 'sma') return 'sma-100';
+  if (viewId === 'teknikal-tachart') return null;
   if (viewId === 'score') return 'score';
   if (viewId === 'entry-exit-benjamin-graham') return 'benjamin-graham';
+  if (viewId === 'entry-exit-entry2') return 'entry-exit-entry2';
+  if (viewId === 'entry-exit-exit1') return 'entry-exit-exit1';
+  if (viewId === 'entry-exit-exit2') return 'entry-exit-exit2';
+  if (viewId === 'entry-exit-irr1') return 'entry-exit-irr1';
+  if (viewId === 'entry-exit-iv-fcf') return 'entry-exit-iv-fcf';
   if (viewId === 'fundamental-pe-industry') return 'pe-industry';
+  if (viewId === 'fundamental-current-ratio') return 'current-ratio';
+  if (viewId === 'fundamental-cash-sdebt') return 'cash-sdebt';
   if (viewId === 'industry-threshold') return 'industry-threshold';
   if (viewId === 'management-monitoring') return null;
   if (viewId === 'personal-portfolio') return 'personal-portfolio';
+  if (viewId === 'admin-users') return null;
+  if (viewId === 'admin-audit') return null;
+  if (viewId === 'admin-data-health') return null;
   return null;
 }
 
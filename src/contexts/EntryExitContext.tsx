@@ -1,13 +1,19 @@
 import { createContext, useContext, ReactNode, useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { EntryExitData } from '../types/stock';
 import { useAuth } from './AuthContext';
-import { saveEntryExitValues, loadEntryExitValues } from '../services/userDataService';
+import { saveEntryExitValues, saveEntryExitFields, loadEntryExitValues } from '../services/userDataService';
 import { onSnapshot, collection } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import { isObject, isNumber, isString, isNullOrUndefined } from '../utils/typeGuards';
 import { logger } from '../utils/logger';
 import { validateEntryExitValue } from '../utils/inputValidator';
 import type { EntryExitValuesForScore } from '../types/score';
+import { recordEdits } from '../services/auditLogService';
+import { takeCommittedEdits } from '../utils/auditLog';
+import type { EditValue } from '../types/audit';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { enqueueEdit, getQueuedEdits, readLocalEntryExit, removeQueuedEdits, writeLocalEntryExit } from '../services/offlineStore';
+import { coalesceQueuedEdits, pickCommittedChanges } from '../utils/offlineData';
 
 export type EntryExitValues = EntryExitValuesForScore;
 
@@ -62,6 +68,100 @@ export function EntryExitProvider({ children }: EntryExitProviderProps) {
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const dirtyKeysRef = useRef<Set<string>>(new Set()); // Set of "companyName.field" that are being edited
   const isInitialLoadRef = useRef(true); // Track initial load to prevent listener from processing during load
+  const baselineRef = useRef<Map<string, EditValue>>(new Map()); // "companyName.field" -> value before the first unsaved edit
+  const tickersRef = useRef<Map<string, string>>(new Map()); // companyName -> ticker of edited rows
+  const replayingRef = useRef(false);
+  const isOnline = useOnlineStatus();
+
+  // Record saved draft values in editHistory (old value = baseline); dateOfUpdate is derived, not audited.
+  // Replayed offline saves pass the baselines and tickers stored with the queued edit.
+  const recordCommitted = useCallback(
+    (
+      committed: Record<string, EditValue>,
+      baselines: Map<string, EditValue> = baselineRef.current,
+      tickers: Map<string, string> = tickersRef.current
+    ) => {
+      const edits = takeCommittedEdits(baselines, committed).filter((edit) => edit.field !== 'dateOfUpdate');
+      if (edits.length === 0) return;
+      recordEdits(
+        currentUser,
+        edits.map((edit) => ({
+          target: 'entryExit',
+          action: 'edit',
+          ticker: tickers.get(edit.key) ?? null,
+          revertOf: null,
+          ...edit,
+        }))
+      ).catch(() => {
+        // Logged by recordEdits; the values themselves are saved
+      });
+    },
+    [currentUser]
+  );
+
+  // Queue the fields a save made while offline changed; its baselines move into the queue so the replay can
+  // record editHistory
+  const queueOfflineSave = useCallback(
+    async (values: Record<string, EntryExitValues>, committed: Record<string, EditValue>) => {
+      const baselines: Record<string, EditValue> = {};
+      const tickers: Record<string, string> = {};
+      for (const draftKey of Object.keys(committed)) {
+        if (baselineRef.current.has(draftKey)) {
+          baselines[draftKey] = baselineRef.current.get(draftKey) ?? null;
+        }
+        const companyName = draftKey.slice(0, draftKey.lastIndexOf('.'));
+        const ticker = tickersRef.current.get(companyName);
+        if (ticker) tickers[companyName] = ticker;
+      }
+      const queued = await enqueueEdit({
+        kind: 'entryExit',
+        changes: pickCommittedChanges(values, committed),
+        committed,
+        baselines,
+        tickers,
+        queuedAt: Date.now(),
+      });
+      if (!queued) {
+        throw new Error('Could not queue offline EntryExit save');
+      }
+      Object.keys(baselines).forEach((draftKey) => baselineRef.current.delete(draftKey));
+    },
+    []
+  );
+
+  // Replay saves queued while offline once the connection is back
+  useEffect(() => {
+    if (!isOnline || !currentUser || replayingRef.current) return;
+
+    const replay = async () => {
+      replayingRef.current = true;
+      try {
+        const queued = await getQueuedEdits();
+        const merged = coalesceQueuedEdits(queued);
+        if (!merged) return;
+        await saveEntryExitFields(currentUser, merged.changes);
+        await removeQueuedEdits(queued.map((edit) => edit.id).filter((id): id is number => id !== undefined));
+        recordCommitted(merged.committed, new Map(Object.entries(merged.baselines)), new Map(Object.entries(merged.tickers)));
+        logger.info('Replayed offline EntryExit saves', { component: 'EntryExitContext', operation: 'replayQueuedEdits', count: queued.length });
+      } catch (error: unknown) {
+        // Queue is kept; the next reconnect retries
+        logger.error('Error replaying offline EntryExit saves', error, { component: 'EntryExitContext', operation: 'replayQueuedEdits' });
+      } finally {
+        replayingRef.current = false;
+      }
+    };
+
+    replay();
+  }, [isOnline, currentUser, recordCommitted]);
+
+  // Keep the local copy current so the values are available on the next (offline) start
+  useEffect(() => {
+    if (isLoading || serverRows.size === 0) return;
+    const timeout = setTimeout(() => {
+      writeLocalEntryExit(Object.fromEntries(serverRows));
+    }, 1000);
+    return () => clearTimeout(timeout);
+  }, [serverRows, isLoading]);
 
   // Load data from Firestore and set up real-time listener
   useEffect(() => {
@@ -75,6 +175,11 @@ export function EntryExitProvider({ children }: EntryExitProviderProps) {
     const loadData = async () => {
       setIsLoading(true);
       isInitialLoadRef.current = true;
+      // Local copy first so values show instantly (and offline); Firestore values replace it below
+      const local = await readLocalEntryExit();
+      if (local) {
+        setServerRows((prev) => new Map([...Object.entries(local), ...prev]));
+      }
       try {
         const loaded = await loadEntryExitValues(currentUser);
         if (loaded) {
@@ -188,13 +293,19 @@ export function EntryExitProvider({ children }: EntryExitProviderProps) {
     }
 
     // Debounce Firestore save to avoid too many writes
+    const savedDraft = draft;
     saveTimeoutRef.current = setTimeout(async () => {
       try {
         const obj = Object.fromEntries(currentState);
-        await saveEntryExitValues(currentUser, obj);
-        // After successful save, release dirty locks + remove draft
+        if (isOnline) {
+          await saveEntryExitValues(currentUser, obj);
+        } else {
+          await queueOfflineSave(obj, savedDraft);
+        }
+        // After successful save (or queueing), release dirty locks + remove draft
         dirtyKeysRef.current.clear();
         setDraft({});
+        if (isOnline) recordCommitted(savedDraft);
       } catch (error: unknown) {
         logger.error('Error saving EntryExit values to Firestore', error, { component: 'EntryExitContext', operation: 'saveEntryExitValues' });
         // On error, keep dirty keys and draft so user's edits aren't lost
@@ -206,7 +317,7 @@ export function EntryExitProvider({ children }: EntryExitProviderProps) {
         clearTimeout(saveTimeoutRef.current);
       }
     };
-  }, [draft, serverRows, currentUser, isLoading]);
+  }, [draft, serverRows, currentUser, isLoading, isOnline, recordCommitted, queueOfflineSave]);
 
   // Display value: draft if exists, otherwise server value
   const getFieldValue = useCallback((_ticker: string, companyName: string, field: keyof EntryExitValues): number | string | null => {
@@ -258,7 +369,7 @@ export function EntryExitProvider({ children }: EntryExitProviderProps) {
   }, [serverRows, draft]);
 
   // While typing: mark dirty + update draft (and optionally optimistic update serverRows)
-  const setFieldValue = useCallback((_ticker: string, companyName: string, field: keyof EntryExitValues, value: number | string | null) => {
+  const setFieldValue = useCallback((ticker: string, companyName: string, field: keyof EntryExitValues, value: number | string | null) => {
     // Validate the value before setting
     const validation = validateEntryExitValue(field, value);
     if (!validation.isValid) {
@@ -278,12 +389,16 @@ export function EntryExitProvider({ children }: EntryExitProviderProps) {
     
     // Mark as dirty and update draft
     dirtyKeysRef.current.add(dk);
+    if (ticker) tickersRef.current.set(key, ticker);
     setDraft((d) => ({ ...d, [dk]: value }));
     
     // Optional optimistic UI update (keeps tables consistent)
     setServerRows((rows) => {
       const newRows = new Map(rows);
       const current = newRows.get(key) || { entry1: 0, entry2: 0, exit1: 0, exit2: 0, currency: 'USD', dateOfUpdate: null };
+      if (!baselineRef.current.has(dk)) {
+        baselineRef.current.set(dk, current[field]);
+      }
       const updated: EntryExitValues = { ...current, [field]: value };
       
       // Update dateOfUpdate if needed
@@ -355,7 +470,11 @@ export function EntryExitProvider({ children }: EntryExitProviderProps) {
       // Save this specific field immediately
       const allValues = Object.fromEntries(serverRows);
       allValues[key] = updated;
-      await saveEntryExitValues(currentUser, allValues);
+      if (isOnline) {
+        await saveEntryExitValues(currentUser, allValues);
+      } else {
+        await queueOfflineSave(allValues, { [dk]: value });
+      }
       
       // Release lock + remove draft
       dirtyKeysRef.current.delete(dk);
@@ -370,10 +489,11 @@ export function EntryExitProvider({ children }: EntryExitProviderProps) {
         newRows.set(key, updated);
         return newRows;
       });
+      if (isOnline) recordCommitted({ [dk]: value });
     } catch (error: unknown) {
       logger.error('Error committing field to Firestore', error, { component: 'EntryExitContext', operation: 'commitField' });
     }
-  }, [draft, serverRows, currentUser]);
+  }, [draft, serverRows, currentUser, isOnline, recordCommitted, queueOfflineSave]);
 
   const initializeFromData = useCallback((data: EntryExitData[]) => {
     setServerRows((prev) => {
@@ -0,0 +1,80 @@
+import { createContext, useContext, ReactNode, useState, useCallback, useEffect } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  subscribeToIndustryAliases,
+  saveIndustryAlias as saveIndustryAliasToFirestore,
+  removeIndustryAlias as removeIndustryAliasFromFirestore,
+} from '../services/industryAliasService';
+import type { IndustryAliasTable } from '../types/industryAlias';
+
+interface IndustryAliasContextType {
+  /** Normalized alias → INDUSTRY_MAP key (empty until Firestore has loaded) */
+  aliases: IndustryAliasTable;
+  loading: boolean;
+  /** Map a sheet spelling to an industry. Admin only; throws on validation or permission errors. */
+  saveAlias: (alias: string, industryKey: string) => Promise<void>;
+  /** Remove an alias. Admin only. */
+  removeAlias: (alias: string) => Promise<void>;
+}
+
+const EMPTY_ALIASES: IndustryAliasTable = {};
+
+export const IndustryAliasContext = createContext<IndustryAliasContextType | undefined>(undefined);
+
+interface IndustryAliasProviderProps {
+  children: ReactNode;
+}
+
+export function IndustryAliasProvider({ children }: IndustryAliasProviderProps) {
+  const { currentUser, userRole } = useAuth();
+  const [storedAliases, setStoredAliases] = useState<IndustryAliasTable | null>(null);
+  const uid = currentUser?.uid;
+
+  useEffect(() => {
+    if (!uid) return;
+
+    const unsubscribe = subscribeToIndustryAliases(setStoredAliases);
+    return () => {
+      unsubscribe();
+      setStoredAliases(null);
+    };
+  }, [uid]);
+
+  const requireAdmin = useCallback(() => {
+    if (!currentUser || userRole !== 'admin') {
+      throw new Error('Only admin can edit industry aliases');
+    }
+    return currentUser.uid;
+  }, [currentUser, userRole]);
+
+  const saveAlias = useCallback(
+    async (alias: string, industryKey: string) => {
+      await saveIndustryAliasToFirestore(alias, industryKey, requireAdmin());
+    },
+    [requireAdmin]
+  );
+
+  const removeAlias = useCallback(
+    async (alias: string) => {
+      await removeIndustryAliasFromFirestore(alias, requireAdmin());
+    },
+    [requireAdmin]
+  );
+
+  const value: IndustryAliasContextType = {
+    aliases: (uid && storedAliases) || EMPTY_ALIASES,
+    loading: !!uid && storedAliases === null,
+    saveAlias,
+    removeAlias,
+  };
+
+  return <IndustryAliasContext.Provider value={value}>{children}</IndustryAliasContext.Provider>;
+}
+
+export function useIndustryAliases(): IndustryAliasContextType {
+  const context = useContext(IndustryAliasContext);
+  if (context === undefined) {
+    throw new Error('useIndustryAliases must be used within an IndustryAliasProvider');
+  }
+  return context;
+}
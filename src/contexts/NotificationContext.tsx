@@ -1,6 +1,6 @@
 import { createContext, useContext, ReactNode, useState, useCallback, useEffect } from 'react';
 import { notificationService, Notification, NotificationType } from '../services/notificationService';
-import { getUserPreferences, NotificationPreferences, DEFAULT_NOTIFICATION_PREFERENCES } from '../services/userPreferencesService';
+import { getUserPreferences, NotificationPreferences, DEFAULT_NOTIFICATION_PREFERENCES, isDoNotDisturbActive } from '../services/userPreferencesService';
 import { useAuth } from './AuthContext';
 import { logger } from '../utils/logger';
 
@@ -83,6 +83,9 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
         case 'data-update':
           typeEnabled = userPreferences.dataUpdates;
           break;
+        case 'price-alert':
+          typeEnabled = userPreferences.priceAlerts;
+          break;
         case 'error':
           typeEnabled = userPreferences.errors;
           break;
@@ -110,8 +113,9 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
         return notification;
       }
 
-      // Check desktop notification preference
-      const showDesktop = options?.showDesktop !== false && userPreferences.desktopNotifications;
+      // Check desktop notification preference; Do Not Disturb keeps notifications in the center only
+      const showDesktop =
+        options?.showDesktop !== false && userPreferences.desktopNotifications && !isDoNotDisturbActive(userPreferences);
 
       const notification = notificationService.createNotification(type, title, message, {
         ...options,
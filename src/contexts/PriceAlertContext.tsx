@@ -0,0 +1,235 @@
+import { createContext, useContext, ReactNode, useState, useCallback, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from './AuthContext';
+import { useNotifications } from './NotificationContext';
+import { getPriceAlerts, savePriceAlerts } from '../services/priceAlertService';
+import { loadEntryExitValues } from '../services/userDataService';
+import { evaluatePriceAlerts, describePriceAlertCondition, needsEntryExit, toAlertTickerKey } from '../utils/priceAlerts';
+import { logger } from '../utils/logger';
+import type { AlertMarketData, PriceAlert, PriceAlertCondition } from '../types/priceAlert';
+import type { EntryExitValuesForScore } from '../types/score';
+
+/** Entry/Exit values are re-read at most this often for alert evaluation */
+const ENTRY_EXIT_MAX_AGE_MS = 15 * 60 * 1000;
+
+interface PriceAlertContextType {
+  alerts: PriceAlert[];
+  loading: boolean;
+  /** Tickers seen in price updates, for the alert editor */
+  knownTickers: { ticker: string; companyName: string }[];
+  addAlert: (ticker: string, companyName: string, condition: PriceAlertCondition) => Promise<void>;
+  removeAlert: (id: string) => Promise<void>;
+  setAlertEnabled: (id: string, enabled: boolean) => Promise<void>;
+  /** Called by data hooks whenever new prices arrive (full load, delta sync, cache) */
+  reportPrices: (rows: { ticker: string; companyName: string; price: number | null }[]) => void;
+  /** Called where scores are computed */
+  reportScores: (rows: { ticker: string; companyName: string; score: number }[]) => void;
+}
+
+export const PriceAlertContext = createContext<PriceAlertContextType | undefined>(undefined);
+
+interface PriceAlertProviderProps {
+  children: ReactNode;
+}
+
+export function PriceAlertProvider({ children }: PriceAlertProviderProps) {
+  const { currentUser } = useAuth();
+  const { createNotification } = useNotifications();
+  const { t } = useTranslation();
+  const uid = currentUser?.uid;
+
+  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [knownTickers, setKnownTickers] = useState<{ ticker: string; companyName: string }[]>([]);
+  const alertsRef = useRef<PriceAlert[]>([]);
+  const marketRef = useRef<Map<string, AlertMarketData>>(new Map());
+  const entryExitRef = useRef<{ values: Map<string, EntryExitValuesForScore>; loadedAt: number } | null>(null);
+  const evaluatingRef = useRef(false);
+  const pendingRef = useRef(false);
+
+  const updateAlerts = useCallback(
+    (next: PriceAlert[]) => {
+      alertsRef.current = next;
+      setAlerts(next);
+      if (!uid) return Promise.resolve();
+      return savePriceAlerts(uid, next);
+    },
+    [uid]
+  );
+
+  // Load alerts for the signed-in user
+  useEffect(() => {
+    alertsRef.current = [];
+    setAlerts([]);
+    entryExitRef.current = null;
+    if (!uid) return;
+
+    let isMounted = true;
+    setLoading(true);
+    getPriceAlerts(uid)
+      .then((loaded) => {
+        if (!isMounted) return;
+        alertsRef.current = loaded;
+        setAlerts(loaded);
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [uid]);
+
+  const getEntryExit = useCallback(async (): Promise<Map<string, EntryExitValuesForScore>> => {
+    const cached = entryExitRef.current;
+    if (cached && Date.now() - cached.loadedAt < ENTRY_EXIT_MAX_AGE_MS) return cached.values;
+    const loaded = await loadEntryExitValues(currentUser ?? null);
+    const values = new Map(Object.entries(loaded ?? {}));
+    entryExitRef.current = { values, loadedAt: Date.now() };
+    return values;
+  }, [currentUser]);
+
+  const evaluate = useCallback(async () => {
+    // One evaluation at a time; updates arriving meanwhile trigger one more pass
+    if (evaluatingRef.current) {
+      pendingRef.current = true;
+      return;
+    }
+    evaluatingRef.current = true;
+    try {
+      do {
+        pendingRef.current = false;
+        const active = alertsRef.current.filter((a) => a.enabled);
+        if (active.length === 0 || marketRef.current.size === 0) break;
+
+        if (active.some((a) => needsEntryExit(a.condition))) {
+          const entryExit = await getEntryExit();
+          marketRef.current.forEach((data) => {
+            data.entryExit = entryExit.get(data.companyName);
+          });
+        }
+
+        const result = evaluatePriceAlerts(alertsRef.current, marketRef.current);
+        result.triggered.forEach((alert) => {
+          const data = marketRef.current.get(toAlertTickerKey(alert.ticker));
+          createNotification(
+            'price-alert',
+            t('priceAlerts.notificationTitle', {
+              company: alert.companyName,
+              ticker: alert.ticker,
+              defaultValue: `Prisalarm: ${alert.companyName} (${alert.ticker})`,
+            }),
+            t('priceAlerts.notificationMessage', {
+              condition: describePriceAlertCondition(alert.condition, t),
+              price: data?.price ?? '–',
+              score: data?.score !== null && data?.score !== undefined ? data.score.toFixed(1) : '–',
+              defaultValue: `${describePriceAlertCondition(alert.condition, t)} (pris ${data?.price ?? '–'})`,
+            }),
+            { showDesktop: true, data: { alertId: alert.id, ticker: alert.ticker } }
+          );
+        });
+        if (result.changed) {
+          await updateAlerts(result.alerts);
+        }
+      } while (pendingRef.current);
+    } catch (error) {
+      logger.error('Error evaluating price alerts', error, { component: 'PriceAlertContext', operation: 'evaluate' });
+    } finally {
+      evaluatingRef.current = false;
+    }
+  }, [getEntryExit, createNotification, t, updateAlerts]);
+
+  // New or re-enabled alerts record their initial state as soon as market data is known
+  useEffect(() => {
+    if (alerts.some((a) => a.enabled && a.lastState === null)) {
+      void evaluate();
+    }
+  }, [alerts, evaluate]);
+
+  const reportPrices = useCallback(
+    (rows: { ticker: string; companyName: string; price: number | null }[]) => {
+      if (rows.length === 0) return;
+      const market = marketRef.current;
+      rows.forEach(({ ticker, companyName, price }) => {
+        const key = toAlertTickerKey(ticker);
+        const existing = market.get(key);
+        market.set(key, { ticker, companyName, price, score: existing?.score ?? null, entryExit: existing?.entryExit });
+      });
+      setKnownTickers((prev) =>
+        prev.length === market.size ? prev : [...market.values()].map(({ ticker, companyName }) => ({ ticker, companyName }))
+      );
+      void evaluate();
+    },
+    [evaluate]
+  );
+
+  const reportScores = useCallback(
+    (rows: { ticker: string; companyName: string; score: number }[]) => {
+      if (rows.length === 0) return;
+      const market = marketRef.current;
+      rows.forEach(({ ticker, companyName, score }) => {
+        const key = toAlertTickerKey(ticker);
+        const existing = market.get(key);
+        market.set(key, { ticker, companyName, price: existing?.price ?? null, score, entryExit: existing?.entryExit });
+      });
+      void evaluate();
+    },
+    [evaluate]
+  );
+
+  const addAlert = useCallback(
+    (ticker: string, companyName: string, condition: PriceAlertCondition) =>
+      updateAlerts([
+        ...alertsRef.current,
+        {
+          id: `alert-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          ticker,
+          companyName,
+          condition,
+          enabled: true,
+          createdAt: Date.now(),
+          lastTriggeredAt: null,
+          lastState: null,
+        },
+      ]),
+    [updateAlerts]
+  );
+
+  const removeAlert = useCallback(
+    (id: string) => updateAlerts(alertsRef.current.filter((a) => a.id !== id)),
+    [updateAlerts]
+  );
+
+  const setAlertEnabled = useCallback(
+    (id: string, enabled: boolean) =>
+      // Re-enabled alerts start fresh so a condition that became true while paused does not fire at once
+      updateAlerts(alertsRef.current.map((a) => (a.id === id ? { ...a, enabled, lastState: null } : a))),
+    [updateAlerts]
+  );
+
+  const value: PriceAlertContextType = {
+    alerts,
+    loading,
+    knownTickers,
+    addAlert,
+    removeAlert,
+    setAlertEnabled,
+    reportPrices,
+    reportScores,
+  };
+
+  return <PriceAlertContext.Provider value={value}>{children}</PriceAlertContext.Provider>;
+}
+
+export function usePriceAlerts(): PriceAlertContextType {
+  const context = useContext(PriceAlertContext);
+  if (context === undefined) {
+    throw new Error('usePriceAlerts must be used within a PriceAlertProvider');
+  }
+  return context;
+}
+
+/** For data hooks that also run outside the provider (tests, isolated views) */
+export function usePriceAlertsOptional(): PriceAlertContextType | undefined {
+  return useContext(PriceAlertContext);
+}
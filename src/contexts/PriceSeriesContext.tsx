@@ -0,0 +1,21 @@
+import { createContext, useContext, ReactNode } from 'react';
+import { scoreHistoryPriceSource, type PriceSeriesSource } from '../services/priceSeriesService';
+
+/**
+ * Where the TAChart view reads price series from. Defaults to score history (Firestore);
+ * wrap in PriceSeriesProvider with createLocalPriceSource to run on local data (tests, offline files).
+ */
+const PriceSeriesContext = createContext<PriceSeriesSource>(scoreHistoryPriceSource);
+
+interface PriceSeriesProviderProps {
+  source: PriceSeriesSource;
+  children: ReactNode;
+}
+
+export function PriceSeriesProvider({ source, children }: PriceSeriesProviderProps) {
+  return <PriceSeriesContext.Provider value={source}>{children}</PriceSeriesContext.Provider>;
+}
+
+export function usePriceSeriesSource(): PriceSeriesSource {
+  return useContext(PriceSeriesContext);
+}
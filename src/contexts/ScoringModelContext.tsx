@@ -0,0 +1,67 @@
+import { createContext, useContext, ReactNode, useState, useCallback, useEffect } from 'react';
+import { useAuth } from './AuthContext';
+import { DEFAULT_SCORING_MODEL } from '../config/scoringModel';
+import { subscribeToScoringModel, saveScoringModel as saveScoringModelToFirestore } from '../services/scoringModelService';
+import type { ScoringModel } from '../types/score';
+
+interface ScoringModelContextType {
+  /** Active scoring model (default model until Firestore has loaded) */
+  scoringModel: ScoringModel;
+  loading: boolean;
+  /** Save a new model version. Admin only; throws on validation or permission errors. */
+  saveScoringModel: (model: Pick<ScoringModel, 'metrics' | 'colorFactors'>) => Promise<ScoringModel>;
+}
+
+export const ScoringModelContext = createContext<ScoringModelContextType | undefined>(undefined);
+
+interface ScoringModelProviderProps {
+  children: ReactNode;
+}
+
+export function ScoringModelProvider({ children }: ScoringModelProviderProps) {
+  const { currentUser, userRole } = useAuth();
+  const [storedModel, setStoredModel] = useState<ScoringModel | null>(null);
+  const uid = currentUser?.uid;
+
+  // Listen to the shared model so all users score with the same version
+  useEffect(() => {
+    if (!uid) return;
+
+    const unsubscribe = subscribeToScoringModel(setStoredModel);
+    return () => {
+      unsubscribe();
+      setStoredModel(null);
+    };
+  }, [uid]);
+
+  const scoringModel = (uid && storedModel) || DEFAULT_SCORING_MODEL;
+  const loading = !!uid && storedModel === null;
+
+  const saveScoringModel = useCallback(
+    async (model: Pick<ScoringModel, 'metrics' | 'colorFactors'>) => {
+      if (!currentUser || userRole !== 'admin') {
+        throw new Error('Only admin can edit the scoring model');
+      }
+      const saved = await saveScoringModelToFirestore(model, currentUser.uid);
+      setStoredModel(saved);
+      return saved;
+    },
+    [currentUser, userRole]
+  );
+
+  const value: ScoringModelContextType = {
+    scoringModel,
+    loading,
+    saveScoringModel,
+  };
+
+  return <ScoringModelContext.Provider value={value}>{children}</ScoringModelContext.Provider>;
+}
+
+export function useScoringModel(): ScoringModelContextType {
+  const context = useContext(ScoringModelContext);
+  if (context === undefined) {
+    throw new Error('useScoringModel must be used within a ScoringModelProvider');
+  }
+  return context;
+}
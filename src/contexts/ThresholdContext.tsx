@@ -3,7 +3,11 @@ import { IndustryThresholdData } from '../types/stock';
 import { useAuth } from './AuthContext';
 import { collection, doc, onSnapshot, getDocs, setDoc } from 'firebase/firestore';
 import { db } from '../config/firebase';
+import { getActiveThresholdCollectionPath } from '../services/universeService';
 import { logger } from '../utils/logger';
+import { recordEdits } from '../services/auditLogService';
+import { takeCommittedEdits } from '../utils/auditLog';
+import type { EditValue } from '../types/audit';
 
 export interface ThresholdValues {
   leverageF2Min: number;
@@ -19,6 +23,8 @@ interface ThresholdContextType {
   getFieldValue: (industry: string, field: keyof ThresholdValues) => number;
   setFieldValue: (industry: string, field: keyof ThresholdValues, value: number) => void;
   commitField: (industry: string, field: keyof ThresholdValues) => Promise<void>;
+  /** Commit the drafts of several fields of one industry in one write (e.g. accepting all suggestions) */
+  commitFields: (industry: string, fields: Array<keyof ThresholdValues>) => Promise<void>;
   initializeFromData: (data: IndustryThresholdData[]) => void;
   thresholdValues: Map<string, ThresholdValues>; // Computed for backward compatibility
 }
@@ -38,6 +44,22 @@ export function ThresholdProvider({ children }: ThresholdProviderProps) {
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const dirtyKeysRef = useRef<Set<string>>(new Set()); // Set of "industry.field" that are being edited
   const isInitialLoadRef = useRef(true); // Track initial load to prevent listener from processing during load
+  const baselineRef = useRef<Map<string, EditValue>>(new Map()); // "industry.field" -> value before the first unsaved edit
+
+  // Record saved draft values in editHistory (old value = baseline)
+  const recordCommitted = useCallback(
+    (committed: Record<string, number>) => {
+      const edits = takeCommittedEdits(baselineRef.current, committed);
+      if (edits.length === 0) return;
+      recordEdits(
+        currentUser,
+        edits.map((edit) => ({ target: 'threshold', action: 'edit', ticker: null, revertOf: null, ...edit }))
+      ).catch(() => {
+        // Logged by recordEdits; the threshold itself is saved
+      });
+    },
+    [currentUser]
+  );
 
   // Load data from Firestore and set up real-time listener
   useEffect(() => {
@@ -53,7 +75,7 @@ export function ThresholdProvider({ children }: ThresholdProviderProps) {
       isInitialLoadRef.current = true;
       try {
         const values: Record<string, ThresholdValues> = {};
-        const snapshot = await getDocs(collection(db, 'industryThresholds'));
+        const snapshot = await getDocs(collection(db, getActiveThresholdCollectionPath()));
         snapshot.forEach((docSnap) => {
           values[docSnap.id] = docSnap.data() as ThresholdValues;
         });
@@ -77,7 +99,7 @@ export function ThresholdProvider({ children }: ThresholdProviderProps) {
     loadData();
 
     // Set up real-time listener for changes from other users
-    const collectionRef = collection(db, 'industryThresholds');
+    const collectionRef = collection(db, getActiveThresholdCollectionPath());
     const unsubscribe = onSnapshot(
       collectionRef,
       (snapshot) => {
@@ -170,15 +192,17 @@ export function ThresholdProvider({ children }: ThresholdProviderProps) {
       currentState.set(industry, { ...entry, [field]: draftValue });
     }
 
+    const savedDraft = draft;
     saveTimeoutRef.current = setTimeout(async () => {
       try {
         await Promise.all(
           Array.from(currentState.entries()).map(([industryKey, entry]) =>
-            setDoc(doc(db, 'industryThresholds', industryKey), entry, { merge: true })
+            setDoc(doc(db, getActiveThresholdCollectionPath(), industryKey), entry, { merge: true })
           )
         );
         dirtyKeysRef.current.clear();
         setDraft({});
+        recordCommitted(savedDraft);
       } catch (error: unknown) {
         logger.error('Error saving shared threshold to Firestore', error, {
           component: 'ThresholdContext',
@@ -192,7 +216,7 @@ export function ThresholdProvider({ children }: ThresholdProviderProps) {
         clearTimeout(saveTimeoutRef.current);
       }
     };
-  }, [draft, serverRows, currentUser, userRole, isLoading]);
+  }, [draft, serverRows, currentUser, userRole, isLoading, recordCommitted]);
 
   // Display value: draft if exists, otherwise server value
   const getFieldValue = useCallback((industry: string, field: keyof ThresholdValues): number => {
@@ -257,6 +281,9 @@ export function ThresholdProvider({ children }: ThresholdProviderProps) {
           currentRatioMin: 0,
           currentRatioMax: 0,
         };
+        if (!baselineRef.current.has(dk)) {
+          baselineRef.current.set(dk, current[field]);
+        }
         newRows.set(industry, { ...current, [field]: value });
         return newRows;
       });
@@ -264,14 +291,17 @@ export function ThresholdProvider({ children }: ThresholdProviderProps) {
     [userRole]
   );
 
-  // Commit to Firestore on blur/enter. Viewer: no-op, return early.
-  const commitField = useCallback(
-    async (industry: string, field: keyof ThresholdValues) => {
+  // Commit the drafts of several fields of one industry in a single write. Viewer: no-op, return early.
+  const commitFields = useCallback(
+    async (industry: string, fields: Array<keyof ThresholdValues>) => {
       if (userRole !== 'admin') return;
 
-      const dk = `${industry}.${field}`;
-      const value = draft[dk];
-      if (value === undefined) return;
+      const committed: Record<string, number> = {};
+      for (const field of fields) {
+        const dk = `${industry}.${field}`;
+        if (dk in draft) committed[dk] = draft[dk];
+      }
+      if (Object.keys(committed).length === 0) return;
 
       const serverEntry = serverRows.get(industry) || {
         leverageF2Min: 0,
@@ -281,13 +311,19 @@ export function ThresholdProvider({ children }: ThresholdProviderProps) {
         currentRatioMin: 0,
         currentRatioMax: 0,
       };
-      const updated: ThresholdValues = { ...serverEntry, [field]: value };
+      const updated: ThresholdValues = { ...serverEntry };
+      for (const field of fields) {
+        const value = committed[`${industry}.${field}`];
+        if (value !== undefined) updated[field] = value;
+      }
 
       try {
-        await setDoc(doc(db, 'industryThresholds', industry), updated, { merge: true });
-        dirtyKeysRef.current.delete(dk);
+        await setDoc(doc(db, getActiveThresholdCollectionPath(), industry), updated, { merge: true });
+        const committedKeys = Object.keys(committed);
+        committedKeys.forEach((dk) => dirtyKeysRef.current.delete(dk));
         setDraft((d) => {
-          const { [dk]: _, ...rest } = d;
+          const rest = { ...d };
+          committedKeys.forEach((dk) => delete rest[dk]);
           return rest;
         });
         setServerRows((rows) => {
@@ -295,14 +331,21 @@ export function ThresholdProvider({ children }: ThresholdProviderProps) {
           newRows.set(industry, updated);
           return newRows;
         });
+        recordCommitted(committed);
       } catch (error: unknown) {
-        logger.error('Error committing field to Firestore', error, {
+        logger.error('Error committing fields to Firestore', error, {
           component: 'ThresholdContext',
           operation: 'threshold.saveFailed',
         });
       }
     },
-    [draft, serverRows, currentUser, userRole]
+    [draft, serverRows, userRole, recordCommitted]
+  );
+
+  // Commit to Firestore on blur/enter. Viewer: no-op, return early.
+  const commitField = useCallback(
+    (industry: string, field: keyof ThresholdValues) => commitFields(industry, [field]),
+    [commitFields]
   );
 
   const initializeFromData = useCallback((data: IndustryThresholdData[]) => {
@@ -348,6 +391,7 @@ export function ThresholdProvider({ children }: ThresholdProviderProps) {
     getFieldValue,
     setFieldValue,
     commitField,
+    commitFields,
     initializeFromData,
     thresholdValues,
   };
@@ -0,0 +1,66 @@
+import { createContext, useContext, ReactNode, useState, useCallback, useEffect } from 'react';
+import { useAuth } from './AuthContext';
+import { DEFAULT_UNIVERSE_ID, type UniverseConfig } from '../config/universes';
+import { UNIVERSES, getActiveUniverse, setActiveUniverse as setServiceUniverse } from '../services/universeService';
+import { getUserPreferences, updateActiveUniverse } from '../services/userPreferencesService';
+
+interface UniverseContextType {
+  /** Configured universes (default first) */
+  universes: UniverseConfig[];
+  activeUniverse: UniverseConfig;
+  /** Switch universe; views remount and reload their data for it */
+  setActiveUniverse: (universeId: string) => void;
+}
+
+export const UniverseContext = createContext<UniverseContextType | undefined>(undefined);
+
+interface UniverseProviderProps {
+  children: ReactNode;
+}
+
+export function UniverseProvider({ children }: UniverseProviderProps) {
+  const { currentUser } = useAuth();
+  const [activeUniverse, setActiveUniverseState] = useState<UniverseConfig>(() => getActiveUniverse());
+  const uid = currentUser?.uid;
+
+  // Restore the universe the user last selected
+  useEffect(() => {
+    if (!uid || UNIVERSES.length < 2) return;
+
+    let cancelled = false;
+    getUserPreferences(uid).then((preferences) => {
+      if (cancelled || !preferences?.activeUniverseId) return;
+      setActiveUniverseState(setServiceUniverse(preferences.activeUniverseId));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  const setActiveUniverse = useCallback(
+    (universeId: string) => {
+      const next = setServiceUniverse(universeId);
+      setActiveUniverseState(next);
+      if (uid) {
+        updateActiveUniverse(uid, next.id === DEFAULT_UNIVERSE_ID ? null : next.id);
+      }
+    },
+    [uid]
+  );
+
+  const value: UniverseContextType = {
+    universes: UNIVERSES,
+    activeUniverse,
+    setActiveUniverse,
+  };
+
+  return <UniverseContext.Provider value={value}>{children}</UniverseContext.Provider>;
+}
+
+export function useUniverse(): UniverseContextType {
+  const context = useContext(UniverseContext);
+  if (context === undefined) {
+    throw new Error('useUniverse must be used within a UniverseProvider');
+  }
+  return context;
+}
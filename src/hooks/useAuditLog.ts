@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { loadAuditLog, revertEdit } from '../services/auditLogService';
+import type { AuditLogRow, EditHistoryEntry } from '../types/audit';
+
+function parseDay(day: string, endOfDay: boolean): Date | null {
+  if (!day) return null;
+  const date = new Date(`${day}T${endOfDay ? '23:59:59.999' : '00:00:00'}`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Hook for the audit log view: loads adminActions + editHistory for a date range (YYYY-MM-DD, inclusive)
+ * and reverts single edits, reloading the log afterwards.
+ *
+ * @returns Object with rows, loading state, error, the id currently being reverted, refetch and revert
+ */
+export function useAuditLog(from: string, to: string) {
+  const { currentUser } = useAuth();
+  const [rows, setRows] = useState<AuditLogRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setRows(await loadAuditLog(parseDay(from, false), parseDay(to, true)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const revert = useCallback(
+    async (edit: EditHistoryEntry) => {
+      setRevertingId(edit.id);
+      try {
+        await revertEdit(currentUser, edit);
+        await load();
+      } finally {
+        setRevertingId(null);
+      }
+    },
+    [currentUser, load]
+  );
+
+  return { rows, loading, error, revertingId, refetch: load, revert };
+}
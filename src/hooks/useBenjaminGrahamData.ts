@@ -1,23 +1,20 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { 
-  fetchBenjaminGrahamData, 
-  ProgressCallback,
-  getValue,
-  isValidValue,
-  parseNumericValueNullable
-} from '../services/sheets';
+import { fetchBenjaminGrahamData, ProgressCallback } from '../services/sheets';
+import { transformBenjaminGrahamRows } from '../../shared/sheetTransforms';
 import type { DataRow } from '../services/sheets';
 import { 
   initSync, 
   pollChanges, 
   loadSnapshot, 
   applyChangesToCache,
+  getSnapshotKeys,
   isDeltaSyncEnabled,
   getPollIntervalMs,
   snapshotToTransformerFormat,
   getApiBaseUrlForDeltaSync,
   type DeltaSyncConfig
 } from '../services/deltaSyncService';
+import { DASHBOARD_SCHEMA } from '../../shared/sheetSchema';
 import {
   setDeltaCacheEntry,
   getDeltaCacheEntry,
@@ -25,6 +22,7 @@ import {
   VIEWDATA_MIGRATION_MODE,
   setViewData,
   getViewDataWithFallback,
+  subscribeToViewDataRevalidation,
   CACHE_KEYS,
 } from '../services/firestoreCacheService';
 import { BenjaminGrahamData } from '../types/stock';
@@ -35,60 +33,20 @@ import { formatError, logError, createErrorHandler, isErrorType } from '../utils
 import { isDataRowArray } from '../utils/typeGuards';
 import { logger } from '../utils/logger';
 import { useNotifications } from '../contexts/NotificationContext';
+import { usePriceAlertsOptional } from '../contexts/PriceAlertContext';
 import { detectDataChanges, formatChangeSummary } from '../utils/dataChangeDetector';
+import { tickerKeyAccessor } from '../utils/deltaSyncIntegrity';
 
 const APPS_SCRIPT_URL = import.meta.env.VITE_APPS_SCRIPT_URL || '';
 const SHEET_NAME = 'DashBoard';
 const CACHE_KEY = CACHE_KEYS.BENJAMIN_GRAHAM;
 
-// Transformer function for Benjamin Graham data
+// Transformer function for Benjamin Graham data (rejects non-row input before the shared transform)
 function transformBenjaminGrahamData(results: { data: DataRow[]; meta: { fields: string[] | null } }): BenjaminGrahamData[] {
   if (!isDataRowArray(results.data)) {
-    const errorHandler = createErrorHandler({
-      operation: 'transform Benjamin Graham data',
-      component: 'useBenjaminGrahamData',
-    });
     throw new Error('Invalid data format: expected array of DataRow');
   }
-  
-  const benjaminGrahamData = results.data
-    .map((row: DataRow) => {
-      const companyName = getValue(['Company Name', 'Company', 'company'], row);
-      const ticker = getValue(['Ticker', 'ticker', 'Ticket', 'ticket', 'Symbol', 'symbol'], row);
-      const priceStr = getValue(['Price', 'price', 'PRICE'], row);
-      // Only process if company name is valid (not #N/A)
-      if (!isValidValue(companyName)) {
-        return null;
-      }
-      
-      // Filter out rows where Ticker is N/A (DashBoard rule: if Ticker is N/A, don't fetch data)
-      if (!isValidValue(ticker)) {
-        return null;
-      }
-      
-      // Parse Price value as number (handle #N/A)
-      const price = parseNumericValueNullable(priceStr);
-      
-      // Parse IV (FCF) if it exists
-      const ivFcfStr = getValue(['IV (FCF)', 'IV(FCF)', 'iv fcf', 'ivfcf'], row);
-      const ivFcf = parseNumericValueNullable(ivFcfStr);
-      
-      // Parse IRR1 if it exists
-      const irr1Str = getValue(['IRR1', 'irr1', 'IRR 1', 'irr 1'], row);
-      const irr1 = parseNumericValueNullable(irr1Str);
-      
-      // Include row if both company name and ticker are valid (we already checked above)
-      return {
-        companyName: companyName,
-        ticker: ticker,
-        price: price,
-        ivFcf: ivFcf, // Include if it exists
-        irr1: irr1, // Include if it exists
-      };
-    })
-    .filter((data) => data !== null) as BenjaminGrahamData[];
-  
-  return benjaminGrahamData;
+  return transformBenjaminGrahamRows(results.data);
 }
 
 /**
@@ -138,6 +96,7 @@ export function useBenjaminGrahamData() {
   const currentVersionRef = useRef<number>(0);
   const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const { createNotification } = useNotifications();
+  const reportPrices = usePriceAlertsOptional()?.reportPrices;
   const previousDataRef = useRef<BenjaminGrahamData[]>([]);
   const cacheLoadedRef = useRef<boolean>(false);
 
@@ -162,6 +121,7 @@ export function useBenjaminGrahamData() {
         try {
           const config: DeltaSyncConfig = {
             sheetName: SHEET_NAME,
+            schema: DASHBOARD_SCHEMA,
             apiBaseUrl: getApiBaseUrlForDeltaSync(),
             dataTypeName: 'Benjamin Graham',
           };
@@ -346,12 +306,13 @@ export function useBenjaminGrahamData() {
     try {
       const config: DeltaSyncConfig = {
         sheetName: SHEET_NAME,
+        schema: DASHBOARD_SCHEMA,
         apiBaseUrl: getApiBaseUrlForDeltaSync(),
         dataTypeName: 'Benjamin Graham',
       };
 
       const changes = await pollChanges(config, currentVersionRef.current);
-      const cacheResult = await applyChangesToCache<BenjaminGrahamData>(changes, CACHE_KEY);
+      const cacheResult = await applyChangesToCache<BenjaminGrahamData>(changes, CACHE_KEY, tickerKeyAccessor<BenjaminGrahamData>());
 
       if (cacheResult.needsReload) {
         // Changes detected, reload snapshot
@@ -360,7 +321,7 @@ export function useBenjaminGrahamData() {
         const transformedData = transformBenjaminGrahamData(transformerFormat);
         // cutover: no appCache writes for view-docs
         if (VIEWDATA_MIGRATION_MODE !== 'cutover') {
-          setDeltaCacheEntry(CACHE_KEY, transformedData, snapshot.version, true);
+          setDeltaCacheEntry(CACHE_KEY, transformedData, snapshot.version, true, undefined, getSnapshotKeys(snapshot));
         }
         setViewData('entry-exit-benjamin-graham', { benjaminGraham: transformedData }, { source: 'client-refresh' }).catch((e) =>
           logger.warn('Failed to write viewData', { component: 'useBenjaminGrahamData', error: e })
@@ -392,8 +353,14 @@ export function useBenjaminGrahamData() {
           );
         }
       } else if (cacheResult.data) {
-        // No changes, use cached data
+        // No changes, or deleted/renamed rows applied to the cached data
+        if (cacheResult.appliedOps) {
+          setViewData('entry-exit-benjamin-graham', { benjaminGraham: cacheResult.data }, { source: 'client-refresh' }).catch((e) =>
+            logger.warn('Failed to write viewData', { component: 'useBenjaminGrahamData', error: e })
+          );
+        }
         setData(cacheResult.data);
+        previousDataRef.current = cacheResult.data;
         currentVersionRef.current = cacheResult.version;
       }
     } catch (pollError) {
@@ -447,6 +414,19 @@ export function useBenjaminGrahamData() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Only run once on mount
 
+  // Fresh viewData that Firestore returns after the offline copy was served on load
+  useEffect(() => {
+    const unsubscribers = ['entry-exit-benjamin-graham'].map((viewId) =>
+      subscribeToViewDataRevalidation<{ benjaminGraham: BenjaminGrahamData[] }>(viewId, (result) => {
+        if (!result.data?.benjaminGraham?.length) return;
+        setData(result.data.benjaminGraham);
+        previousDataRef.current = result.data.benjaminGraham;
+        setLastUpdated(result.timestamp ? new Date(result.timestamp) : new Date());
+      })
+    );
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, []);
+
   // Set up polling for changes (delta-sync only)
   useEffect(() => {
     if (isDeltaSyncEnabled() && APPS_SCRIPT_URL && isPageVisible) {
@@ -515,6 +495,13 @@ export function useBenjaminGrahamData() {
     return unregister;
   }, [refreshContext, refetch]);
 
+  // Evaluate price alerts whenever new prices arrive (snapshot, delta poll or cache)
+  useEffect(() => {
+    if (reportPrices && data.length > 0) {
+      reportPrices(data);
+    }
+  }, [data, reportPrices]);
+
   return {
     data,
     loading,
@@ -11,9 +11,11 @@ export interface ColumnConfig {
 interface UseColumnVisibilityProps {
   tableId: string;
   columns: ColumnConfig[];
+  /** Visible column keys from a shared link; applied on mount only (reset still restores defaults) */
+  initialVisibleColumns?: string[];
 }
 
-export function useColumnVisibility({ tableId, columns }: UseColumnVisibilityProps) {
+export function useColumnVisibility({ tableId, columns, initialVisibleColumns }: UseColumnVisibilityProps) {
   const getInitialVisibility = useCallback(() => {
     const visibility: Record<string, boolean> = {};
     columns.forEach(col => {
@@ -26,7 +28,14 @@ export function useColumnVisibility({ tableId, columns }: UseColumnVisibilityPro
     return visibility;
   }, [tableId, columns]);
 
-  const [columnVisibility, setColumnVisibility] = useState<Record<string, boolean>>(getInitialVisibility);
+  const [columnVisibility, setColumnVisibility] = useState<Record<string, boolean>>(() => {
+    if (!initialVisibleColumns) return getInitialVisibility();
+    const visibility: Record<string, boolean> = {};
+    columns.forEach(col => {
+      visibility[col.key] = col.required === true || initialVisibleColumns.includes(col.key);
+    });
+    return visibility;
+  });
 
   const toggleColumn = useCallback((columnKey: string) => {
     setColumnVisibility(prev => {
@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useUniverse } from '../contexts/UniverseContext';
+import { useEntryExitValues } from '../contexts/EntryExitContext';
+import { useIndustryAliases } from '../contexts/IndustryAliasContext';
+import { fetchBenjaminGrahamData } from '../services/sheets';
+import {
+  getDataQualityReport,
+  getDataQualityRows,
+  loadStoredDataQuality,
+  subscribeToDataQuality,
+} from '../services/dataQualityService';
+import { checkEntryExitStaleness, groupIssuesByTicker } from '../utils/dataQuality';
+import { resolveIndustryKey } from '../utils/industryResolution';
+import type { DataQualityIssue, DataQualityTickerIssues } from '../types/dataQuality';
+import type { IndustryAliasTable } from '../types/industryAlias';
+
+/** Report issues without the unknown industries the alias table resolves */
+function withoutAliasedIndustries(issues: DataQualityIssue[], aliases: IndustryAliasTable): DataQualityIssue[] {
+  return issues.filter(
+    (issue) => issue.check !== 'unknownIndustry' || resolveIndustryKey(String(issue.value ?? ''), aliases) === null
+  );
+}
+
+/** Latest report and checked rows of the active universe, loaded from the offline store when none is in memory */
+function useDataQualityReport() {
+  const { activeUniverse } = useUniverse();
+  const [report, setReport] = useState(() => getDataQualityReport(activeUniverse.id));
+  const [rows, setRows] = useState(() => getDataQualityRows(activeUniverse.id));
+
+  useEffect(() => {
+    const update = () => {
+      setReport(getDataQualityReport(activeUniverse.id));
+      setRows(getDataQualityRows(activeUniverse.id));
+    };
+    update();
+    void loadStoredDataQuality(activeUniverse.id);
+    return subscribeToDataQuality(update);
+  }, [activeUniverse.id]);
+
+  return { universeId: activeUniverse.id, report, rows };
+}
+
+/**
+ * Hook for the data quality section of the Data Health view: the latest report of the active universe plus
+ * stale entry/exit values, grouped per ticker. Industries the alias table resolves are not reported. Must be
+ * used within an EntryExitProvider. When no DashBoard data was checked yet (this session or stored), the checks
+ * run on mount.
+ *
+ * @returns Object with the report, the checked rows, the issues per ticker, loading and error of runChecks, and runChecks
+ */
+export function useDataQuality() {
+  const { universeId, report, rows } = useDataQualityReport();
+  const { getEntryExitValue } = useEntryExitValues();
+  const { aliases } = useIndustryAliases();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Fetch the DashBoard sheet again; the fetch records a new report */
+  const runChecks = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      await fetchBenjaminGrahamData(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch DashBoard data');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadStoredDataQuality(universeId).then((available) => {
+      if (!available && !cancelled) runChecks();
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [universeId, runChecks]);
+
+  const tickers = useMemo(() => {
+    if (!report) return [];
+    const stale = checkEntryExitStaleness(
+      rows,
+      (ticker, companyName) => getEntryExitValue(ticker, companyName)?.dateOfUpdate ?? null,
+      report.generatedAt
+    );
+    return groupIssuesByTicker([...withoutAliasedIndustries(report.issues, aliases), ...stale]);
+  }, [report, rows, getEntryExitValue, aliases]);
+
+  return { report, rows, tickers, loading, error, runChecks };
+}
+
+/**
+ * Data quality issues of the latest DashBoard check per ticker (upper-cased), for the flags in the Score and
+ * Score Board tables. Industries the alias table resolves are not flagged.
+ */
+export function useDataQualityFlags(): Map<string, DataQualityTickerIssues> {
+  const { report } = useDataQualityReport();
+  const { aliases } = useIndustryAliases();
+
+  return useMemo(() => {
+    const flags = new Map<string, DataQualityTickerIssues>();
+    if (!report) return flags;
+    groupIssuesByTicker(withoutAliasedIndustries(report.issues, aliases)).forEach((group) =>
+      flags.set(group.ticker.trim().toUpperCase(), group)
+    );
+    return flags;
+  }, [report, aliases]);
+}
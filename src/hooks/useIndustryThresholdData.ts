@@ -1,11 +1,14 @@
-import { useState, useEffect, useCallback, useContext } from 'react';
+import { useState, useEffect, useCallback, useContext, useMemo } from 'react';
 import { IndustryThresholdData } from '../types/stock';
-import { INDUSTRY_MAP } from '../config/industryThresholdData';
 import { ThresholdContext } from '../contexts/ThresholdContext';
+import { IndustryAliasContext } from '../contexts/IndustryAliasContext';
 import { useAuth } from '../contexts/AuthContext';
 import { collection, getDocs } from 'firebase/firestore';
 import { db } from '../config/firebase';
+import { getActiveThresholdCollectionPath } from '../services/universeService';
 import type { ThresholdValues } from '../contexts/ThresholdContext';
+import { attachIndustryAliases } from '../utils/industryResolution';
+import { buildIndustryThresholds } from '../../shared/industries';
 
 /**
  * Hook to load  Industry threshold data from static file
@@ -18,6 +21,9 @@ import type { ThresholdValues } from '../contexts/ThresholdContext';
  * If the hook is used outside ThresholdProvider, data will still load but won't
  * initialize the context (IndustryThresholdTable will handle initialization when
  * rendered inside ThresholdProvider).
+ *
+ * Each row carries the industry aliases (IndustryAliasContext) that resolve to it, so the color functions
+ * match variant spellings; the rows change identity when the alias table changes.
  * 
  * @returns Object with data, loading state, error, lastUpdated timestamp, and refetch function
  */
@@ -32,6 +38,7 @@ export function useIndustryThresholdData() {
   // Using useContext directly allows us to check if provider exists without throwing
   const thresholdContext = useContext(ThresholdContext);
   const initializeFromData = thresholdContext?.initializeFromData;
+  const aliases = useContext(IndustryAliasContext)?.aliases;
 
   // Load data from Firestore on mount
   useEffect(() => {
@@ -42,24 +49,12 @@ export function useIndustryThresholdData() {
       try {
         const valueMap: Record<string, ThresholdValues> = {};
         if (currentUser) {
-          const snapshot = await getDocs(collection(db, 'industryThresholds'));
+          const snapshot = await getDocs(collection(db, getActiveThresholdCollectionPath()));
           snapshot.forEach((docSnap) => {
             valueMap[docSnap.id] = docSnap.data() as ThresholdValues;
           });
         }
-        const rows: IndustryThresholdData[] = Object.entries(INDUSTRY_MAP).map(([industryKey, industry]) => {
-          const entry = valueMap[industryKey] as ThresholdValues | undefined;
-          return {
-            industryKey,
-            industry,
-            leverageF2Min: entry?.leverageF2Min ?? 0,
-            leverageF2Max: entry?.leverageF2Max ?? 0,
-            cashSdebtMin: entry?.cashSdebtMin ?? 0,
-            cashSdebtMax: entry?.cashSdebtMax ?? 0,
-            currentRatioMin: entry?.currentRatioMin ?? 0,
-            currentRatioMax: entry?.currentRatioMax ?? 0,
-          };
-        });
+        const rows: IndustryThresholdData[] = buildIndustryThresholds(valueMap);
         if (!isMounted) return;
         setData(rows);
         setLastUpdated(new Date());
@@ -89,24 +84,12 @@ export function useIndustryThresholdData() {
       try {
         const valueMap: Record<string, ThresholdValues> = {};
         if (currentUser) {
-          const snapshot = await getDocs(collection(db, 'industryThresholds'));
+          const snapshot = await getDocs(collection(db, getActiveThresholdCollectionPath()));
           snapshot.forEach((docSnap) => {
             valueMap[docSnap.id] = docSnap.data() as ThresholdValues;
           });
         }
-        const rows: IndustryThresholdData[] = Object.entries(INDUSTRY_MAP).map(([industryKey, industry]) => {
-          const entry = valueMap[industryKey] as ThresholdValues | undefined;
-          return {
-            industryKey,
-            industry,
-            leverageF2Min: entry?.leverageF2Min ?? 0,
-            leverageF2Max: entry?.leverageF2Max ?? 0,
-            cashSdebtMin: entry?.cashSdebtMin ?? 0,
-            cashSdebtMax: entry?.cashSdebtMax ?? 0,
-            currentRatioMin: entry?.currentRatioMin ?? 0,
-            currentRatioMax: entry?.currentRatioMax ?? 0,
-          };
-        });
+        const rows: IndustryThresholdData[] = buildIndustryThresholds(valueMap);
         setData(rows);
         setLastUpdated(new Date());
         if (initializeFromData) {
@@ -121,8 +104,10 @@ export function useIndustryThresholdData() {
     })();
   }, [initializeFromData, currentUser]);
 
+  const dataWithAliases = useMemo(() => (aliases ? attachIndustryAliases(data, aliases) : data), [data, aliases]);
+
   return {
-    data,
+    data: dataWithAliases,
     loading,
     error,
     lastUpdated,
@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { fetchIsmData } from '../services/sheets/ismService';
+import { clearIsmUpload, loadIsmUpload, saveIsmUpload } from '../services/ismUploadService';
+import { classifyIsmHistory, mergeIsmReadings } from '../utils/ismRegime';
+import type { IsmReading, IsmUpload } from '../types/ism';
+
+/**
+ * Hook to load the ISM Manufacturing history and the regime derived from it.
+ * Combines the ISM sheet tab with the uploaded CSV history (uploaded months win);
+ * either source may be missing as long as the other has data.
+ *
+ * @returns Object with merged readings, regime history and current regime, sources, loading/error state,
+ * refetch, and saveUpload/clearUpload for admins
+ */
+export function useIsmData() {
+  const [sheetReadings, setSheetReadings] = useState<IsmReading[]>([]);
+  const [upload, setUpload] = useState<IsmUpload | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [sheetError, setSheetError] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const load = useCallback(async (forceRefresh = false) => {
+    setLoading(true);
+    try {
+      const [sheet, uploaded] = await Promise.allSettled([fetchIsmData(forceRefresh), loadIsmUpload()]);
+      if (sheet.status === 'fulfilled') {
+        setSheetReadings(sheet.value);
+        setSheetError(null);
+      } else {
+        setSheetReadings([]);
+        setSheetError(sheet.reason instanceof Error ? sheet.reason.message : 'Failed to load ISM data');
+      }
+      if (uploaded.status === 'fulfilled') {
+        setUpload(uploaded.value);
+        setUploadError(null);
+      } else {
+        setUpload(null);
+        setUploadError(uploaded.reason instanceof Error ? uploaded.reason.message : 'Failed to load ISM upload');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const refetch = useCallback(() => load(true), [load]);
+
+  const readings = useMemo(() => mergeIsmReadings(sheetReadings, upload?.readings ?? []), [sheetReadings, upload]);
+  const history = useMemo(() => classifyIsmHistory(readings), [readings]);
+  const current = history[history.length - 1] ?? null;
+  const error = readings.length === 0 ? sheetError ?? uploadError : null;
+
+  const saveUpload = useCallback(
+    async (uploadedReadings: IsmReading[], fileName: string | null, userId: string) => {
+      await saveIsmUpload(uploadedReadings, fileName, userId);
+      setUpload({ readings: uploadedReadings, fileName, updatedBy: userId, updatedAt: new Date() });
+    },
+    []
+  );
+
+  const clearUpload = useCallback(async (userId: string) => {
+    await clearIsmUpload(userId);
+    setUpload(null);
+  }, []);
+
+  return {
+    readings,
+    history,
+    current,
+    sheetCount: sheetReadings.length,
+    sheetError,
+    upload,
+    loading,
+    error,
+    refetch,
+    saveUpload,
+    clearUpload,
+  };
+}
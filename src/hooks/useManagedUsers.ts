@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  listManagedUsers,
+  setUserDisabled,
+  setUserRole,
+  setUserViewAccess,
+} from '../services/userAdminService';
+import type { ViewId } from '../types/navigation';
+import type { ManagedRole, ManagedUser } from '../types/userAdmin';
+
+/**
+ * Hook for the admin user management console: loads users via adminListUsers and applies
+ * role / view / disabled changes, updating the listed user when the callable succeeds.
+ *
+ * @returns Object with users, loading state, error, the uid currently being saved, refetch and actions
+ */
+export function useManagedUsers() {
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingUid, setSavingUid] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setUsers(await listManagedUsers());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const updateUser = useCallback(
+    async (uid: string, apply: () => Promise<Partial<ManagedUser>>) => {
+      setSavingUid(uid);
+      try {
+        const patch = await apply();
+        setUsers((prev) => prev.map((u) => (u.uid === uid ? { ...u, ...patch } : u)));
+      } finally {
+        setSavingUid(null);
+      }
+    },
+    []
+  );
+
+  const setViewAccess = useCallback(
+    (uid: string, viewId: ViewId, allowed: boolean) =>
+      updateUser(uid, async () => ({ allowedViews: await setUserViewAccess(uid, viewId, allowed) })),
+    [updateUser]
+  );
+
+  const setRole = useCallback(
+    (uid: string, role: ManagedRole) =>
+      updateUser(uid, async () => {
+        await setUserRole(uid, role);
+        return { role };
+      }),
+    [updateUser]
+  );
+
+  const setDisabled = useCallback(
+    (uid: string, disabled: boolean) =>
+      updateUser(uid, async () => {
+        await setUserDisabled(uid, disabled);
+        return { disabled };
+      }),
+    [updateUser]
+  );
+
+  return { users, loading, error, savingUid, refetch: load, setViewAccess, setRole, setDisabled };
+}
@@ -11,6 +11,7 @@ import {
   setDeltaCacheEntry,
   setViewData,
   getViewDataWithFallback,
+  subscribeToViewDataRevalidation,
   CACHE_KEYS,
   VIEWDATA_MIGRATION_MODE,
 } from '../services/firestoreCacheService';
@@ -23,12 +24,14 @@ import {
   pollChanges, 
   loadSnapshot, 
   applyChangesToCache,
+  getSnapshotKeys,
   isDeltaSyncEnabled,
   getPollIntervalMs,
   snapshotToTransformerFormat,
   getApiBaseUrlForDeltaSync,
   type DeltaSyncConfig
 } from '../services/deltaSyncService';
+import { DASHBOARD_SCHEMA } from '../../shared/sheetSchema';
 import { usePageVisibility } from './usePageVisibility';
 
 const APPS_SCRIPT_URL = import.meta.env.VITE_APPS_SCRIPT_URL || '';
@@ -92,6 +95,7 @@ export function usePEIndustryData() {
         try {
           const config: DeltaSyncConfig = {
             sheetName: SHEET_NAME,
+            schema: DASHBOARD_SCHEMA,
             apiBaseUrl: getApiBaseUrlForDeltaSync(),
             dataTypeName: 'PE Industry',
           };
@@ -276,6 +280,7 @@ export function usePEIndustryData() {
     try {
       const config: DeltaSyncConfig = {
         sheetName: SHEET_NAME,
+        schema: DASHBOARD_SCHEMA,
         apiBaseUrl: getApiBaseUrlForDeltaSync(),
         dataTypeName: 'PE Industry',
       };
@@ -290,7 +295,7 @@ export function usePEIndustryData() {
         const transformedData = transformPEIndustryData(transformerFormat);
         // cutover: no appCache writes for view-docs
         if (VIEWDATA_MIGRATION_MODE !== 'cutover') {
-          setDeltaCacheEntry(CACHE_KEY, transformedData, snapshot.version, true);
+          setDeltaCacheEntry(CACHE_KEY, transformedData, snapshot.version, true, undefined, getSnapshotKeys(snapshot));
         }
         setViewData('fundamental-pe-industry', { peIndustry: transformedData }, { source: 'client-refresh' }).catch((e) =>
           logger.warn('Failed to write viewData', { component: 'usePEIndustryData', error: e })
@@ -377,6 +382,19 @@ export function usePEIndustryData() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Only run once on mount
 
+  // Fresh viewData that Firestore returns after the offline copy was served on load
+  useEffect(() => {
+    const unsubscribers = ['fundamental-pe-industry'].map((viewId) =>
+      subscribeToViewDataRevalidation<{ peIndustry: PEIndustryData[] }>(viewId, (result) => {
+        if (!result.data?.peIndustry?.length) return;
+        setData(result.data.peIndustry);
+        previousDataRef.current = result.data.peIndustry;
+        setLastUpdated(result.timestamp ? new Date(result.timestamp) : new Date());
+      })
+    );
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, []);
+
   // Set up polling for changes (delta-sync only)
   useEffect(() => {
     if (isDeltaSyncEnabled() && APPS_SCRIPT_URL && isPageVisible) {
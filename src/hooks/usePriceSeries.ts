@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from 'react';
+import { usePriceSeriesSource } from '../contexts/PriceSeriesContext';
+import type { PriceSeriesSource } from '../services/priceSeriesService';
+import type { PriceBar } from '../utils/taChart';
+
+/**
+ * Hook to load the daily price series for a ticker from the current PriceSeriesSource
+ * (score history unless a PriceSeriesProvider overrides it, or the `source` argument).
+ *
+ * @returns Object with bars (oldest first), loading state, error, and refetch function
+ */
+export function usePriceSeries(ticker: string | null, source?: PriceSeriesSource) {
+  const contextSource = usePriceSeriesSource();
+  const activeSource = source ?? contextSource;
+  const [bars, setBars] = useState<PriceBar[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!ticker) {
+      setBars([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      setBars(await activeSource.loadSeries(ticker));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load price series';
+      setError(message);
+      setBars([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [ticker, activeSource]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return { bars, loading, error, refetch: load };
+}
@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { getUserPreferences, updateLastSeenRefreshRun } from '../services/userPreferencesService';
+import { loadRefreshRunsSince } from '../services/refreshRunService';
+import { summarizeRefreshRuns, type RefreshChangesSummary } from '../utils/refreshRuns';
+
+/**
+ * Hook for "what changed since you last looked": summarizes server refresh runs newer than the user's
+ * lastSeenRefreshRunAt preference (only the latest run when the user has never marked any as seen).
+ *
+ * @returns Object with the summary (null while loading or when nothing is unseen), the last seen time and markSeen
+ */
+export function useRefreshChanges() {
+  const { currentUser } = useAuth();
+  const [summary, setSummary] = useState<RefreshChangesSummary | null>(null);
+  const [lastSeenAt, setLastSeenAt] = useState<Date | null>(null);
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const prefs = await getUserPreferences(currentUser.uid);
+        const since = prefs?.lastSeenRefreshRunAt ?? null;
+        const runs = await loadRefreshRunsSince(since);
+        if (cancelled) return;
+        setLastSeenAt(since);
+        setSummary(runs.length > 0 ? summarizeRefreshRuns(since ? runs : runs.slice(-1)) : null);
+      } catch {
+        // Logged by loadRefreshRunsSince; the panel is optional
+        if (!cancelled) setSummary(null);
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser]);
+
+  const markSeen = useCallback(async () => {
+    if (!currentUser || !summary?.latestAt) return;
+    const latestAt = summary.latestAt;
+    setSummary(null);
+    setLastSeenAt(latestAt);
+    await updateLastSeenRefreshRun(currentUser.uid, latestAt);
+  }, [currentUser, summary]);
+
+  return { summary: currentUser ? summary : null, lastSeenAt, markSeen };
+}
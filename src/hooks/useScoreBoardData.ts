@@ -13,6 +13,7 @@ import {
   setDeltaCacheEntry,
   setViewData,
   getViewDataWithFallback,
+  subscribeToViewDataRevalidation,
   CACHE_KEYS,
   VIEWDATA_MIGRATION_MODE,
 } from '../services/firestoreCacheService';
@@ -25,12 +26,14 @@ import {
   pollChanges, 
   loadSnapshot, 
   applyChangesToCache,
+  getSnapshotKeys,
   isDeltaSyncEnabled,
   getPollIntervalMs,
   snapshotToTransformerFormat,
   getApiBaseUrlForDeltaSync,
   type DeltaSyncConfig
 } from '../services/deltaSyncService';
+import { DASHBOARD_SCHEMA } from '../../shared/sheetSchema';
 import { usePageVisibility } from './usePageVisibility';
 import { useTranslation } from 'react-i18next';
 
@@ -73,7 +76,7 @@ const CACHE_KEY = CACHE_KEYS.SCORE_BOARD;
  */
 const OFFLINE_ERROR_KEY = 'offline.dataUnavailable';
 
-type DataSource = 'viewData' | 'appCache' | 'network';
+type DataSource = 'viewData' | 'appCache' | 'local' | 'network';
 
 export function useScoreBoardData() {
   const [data, setData] = useState<ScoreBoardData[]>([]);
@@ -211,6 +214,7 @@ export function useScoreBoardData() {
 
           const config: DeltaSyncConfig = {
             sheetName: SHEET_NAME,
+            schema: DASHBOARD_SCHEMA,
             apiBaseUrl: getApiBaseUrlForDeltaSync(),
             dataTypeName: 'Score Board',
             additionalData,
@@ -413,11 +417,13 @@ export function useScoreBoardData() {
     try {
       const config: DeltaSyncConfig = {
         sheetName: SHEET_NAME,
+        schema: DASHBOARD_SCHEMA,
         apiBaseUrl: getApiBaseUrlForDeltaSync(),
         dataTypeName: 'Score Board',
       };
 
       const changesResponse = await pollChanges(config, currentVersionRef.current);
+      // No key accessor: P/E vs industry and the SMA join depend on other rows, so every change reloads
       const cacheResult = await applyChangesToCache<ScoreBoardData>(changesResponse, CACHE_KEY);
 
       if (cacheResult.needsReload) {
@@ -431,7 +437,7 @@ export function useScoreBoardData() {
         const transformedData = transformer(transformerFormat);
         // cutover: no appCache writes for view-docs
         if (VIEWDATA_MIGRATION_MODE !== 'cutover') {
-          setDeltaCacheEntry(CACHE_KEY, transformedData, snapshot.version, true);
+          setDeltaCacheEntry(CACHE_KEY, transformedData, snapshot.version, true, undefined, getSnapshotKeys(snapshot));
         }
         setViewData('score-board', { scoreBoard: transformedData }, { source: 'client-refresh' }).catch((e) =>
           logger.warn('Failed to write viewData', { component: 'useScoreBoardData', error: e })
@@ -466,8 +472,17 @@ export function useScoreBoardData() {
           );
         }
       } else if (cacheResult.data) {
-        // No changes, use cached data
+        // No changes, or deleted/renamed rows applied to the cached data
+        if (cacheResult.appliedOps) {
+          setViewData('score-board', { scoreBoard: cacheResult.data }, { source: 'client-refresh' }).catch((e) =>
+            logger.warn('Failed to write viewData', { component: 'useScoreBoardData', error: e })
+          );
+          setViewData('score', { scoreBoard: cacheResult.data }, { source: 'client-refresh' }).catch((e) =>
+            logger.warn('Failed to write viewData', { component: 'useScoreBoardData', error: e })
+          );
+        }
         setData(cacheResult.data);
+        previousDataRef.current = cacheResult.data;
         currentVersionRef.current = cacheResult.version;
       }
     } catch (pollError) {
@@ -526,6 +541,20 @@ export function useScoreBoardData() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Only run once on mount
 
+  // Fresh viewData that Firestore returns after the offline copy was served on load
+  useEffect(() => {
+    const unsubscribers = ['score-board', 'score'].map((viewId) =>
+      subscribeToViewDataRevalidation<{ scoreBoard: ScoreBoardData[] }>(viewId, (result) => {
+        if (!result.data?.scoreBoard?.length) return;
+        setData(result.data.scoreBoard);
+        previousDataRef.current = result.data.scoreBoard;
+        setLastUpdated(result.timestamp ? new Date(result.timestamp) : new Date());
+        setDataSource(result.source);
+      })
+    );
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, []);
+
   // Set up polling for changes (delta-sync only)
   useEffect(() => {
     if (isDeltaSyncEnabled() && APPS_SCRIPT_URL && isPageVisible) {
@@ -0,0 +1,37 @@
+import { useEffect, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useToast } from '../contexts/ToastContext';
+import { decodeSharedTableLink, SHARE_STATE_PARAM } from '../utils/shareableTableState';
+import { logger } from '../utils/logger';
+import type { ShareableTableState } from '../types/filters';
+
+/**
+ * Reads a shared table link from the URL and returns the state for the given table.
+ * Invalid or outdated links show a toast, are removed from the URL, and the table opens with defaults.
+ */
+export function useShareableTableState(tableId: string): ShareableTableState | undefined {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+
+  const result = useMemo(() => {
+    const param = new URLSearchParams(location.search).get(SHARE_STATE_PARAM);
+    return param ? decodeSharedTableLink(param) : null;
+  }, [location.search]);
+
+  useEffect(() => {
+    if (!result || result.ok) return;
+    logger.warn('Ignoring shared table link', { component: 'useShareableTableState', operation: 'decode', reason: result.reason });
+    showToast(
+      result.reason === 'outdated'
+        ? t('shareLink.outdated', 'Länken är från en äldre version och kunde inte användas. Tabellen visas med standardinställningar.')
+        : t('shareLink.invalid', 'Länken är ogiltig. Tabellen visas med standardinställningar.'),
+      'warning'
+    );
+    navigate(location.pathname, { replace: true });
+  }, [result, showToast, t, navigate, location.pathname]);
+
+  return result?.ok && result.link.tableId === tableId ? result.link.state : undefined;
+}
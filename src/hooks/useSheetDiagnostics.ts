@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  getSessionSheetDiagnostics,
+  loadServerSheetDiagnostics,
+  subscribeToSheetDiagnostics,
+} from '../services/sheetDiagnosticsService';
+import { sortSheetDiagnosticsReports } from '../utils/sheetDiagnostics';
+import type { SheetDiagnosticsReport } from '../types/sheetDiagnostics';
+
+/**
+ * Hook for the Data Health view: sheet diagnostics of this session's fetches (live) and of the last server
+ * refresh (loaded on mount and on refetch).
+ *
+ * @returns Object with the sorted reports, loading state and error of the server reports, and refetch
+ */
+export function useSheetDiagnostics() {
+  const [sessionReports, setSessionReports] = useState<SheetDiagnosticsReport[]>(getSessionSheetDiagnostics);
+  const [serverReports, setServerReports] = useState<SheetDiagnosticsReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeToSheetDiagnostics(() => setSessionReports(getSessionSheetDiagnostics())), []);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setServerReports(await loadServerSheetDiagnostics());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sheet diagnostics');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const reports = useMemo(
+    () => sortSheetDiagnosticsReports([...sessionReports, ...serverReports]),
+    [sessionReports, serverReports]
+  );
+
+  return { reports, loading, error, refetch: load };
+}
@@ -9,7 +9,7 @@ import { ViewId } from '../types/navigation';
  *
  * **Roles:**
  * - viewer: Can view Score table and Personal Portfolio. May have additional allowedViews if granted by admin.
- * - admin: Full access to all tables and admin functions
+ * - admin: Full access to all tables and admin functions (admin-* views are admin-only)
  *
  * **Viewer Permissions:**
  * - Viewer without allowedViews: Score + Personal Portfolio only
@@ -56,8 +56,16 @@ export function useUserRole() {
     'score-board',
     'ism-posture-positioning',
     'sma',
+    'teknikal-tachart',
     'entry-exit-benjamin-graham',
+    'entry-exit-entry2',
+    'entry-exit-exit1',
+    'entry-exit-exit2',
+    'entry-exit-irr1',
+    'entry-exit-iv-fcf',
     'fundamental-pe-industry',
+    'fundamental-current-ratio',
+    'fundamental-cash-sdebt',
     'industry-threshold',
     'management-monitoring',
     'personal-portfolio',
@@ -84,8 +92,8 @@ export function useUserRole() {
    * Check if user can view a specific view
    */
   const canView = (viewId: ViewId): boolean => {
-    // Admin view only for admin
-    if (viewId === 'admin') {
+    // Admin views (admin-*) only for admin, regardless of allowedViews
+    if (viewId.startsWith('admin')) {
       return isAdmin;
     }
     // Personal Portfolio is available to all authenticated users
@@ -8,6 +8,10 @@ import { ThemeProvider } from './contexts/ThemeContext'
 import { AuthProvider } from './contexts/AuthContext'
 import { ToastProvider } from './contexts/ToastContext'
 import { NotificationProvider } from './contexts/NotificationContext'
+import { ScoringModelProvider } from './contexts/ScoringModelContext'
+import { UniverseProvider } from './contexts/UniverseContext'
+import { IndustryAliasProvider } from './contexts/IndustryAliasContext'
+import { PriceAlertProvider } from './contexts/PriceAlertContext'
 import { ErrorBoundary } from './components/ErrorBoundary'
 import { logger } from './utils/logger'
 import { validateEnvironmentVariables } from './utils/envValidator'
@@ -204,7 +208,15 @@ ReactDOM.createRoot(rootElement).render(
           <ToastProvider>
             <AuthProvider>
               <NotificationProvider>
-                <App />
+                <PriceAlertProvider>
+                  <ScoringModelProvider>
+                    <IndustryAliasProvider>
+                      <UniverseProvider>
+                        <App />
+                      </UniverseProvider>
+                    </IndustryAliasProvider>
+                  </ScoringModelProvider>
+                </PriceAlertProvider>
               </NotificationProvider>
             </AuthProvider>
           </ToastProvider>
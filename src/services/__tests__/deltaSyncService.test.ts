@@ -0,0 +1,73 @@
+/**
+ * applyChangesToCache: which changes are applied to the cached rows and which reload the snapshot.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ChangesResponse } from '../deltaSyncService';
+
+const { cache } = vi.hoisted(() => ({
+  cache: new Map<string, { data: unknown; keys?: string[]; ttl?: number }>(),
+}));
+
+vi.mock('../../config/firebase', () => ({ db: {} }));
+vi.mock('../firestoreCacheService', () => ({
+  VIEWDATA_MIGRATION_MODE: 'dual-read',
+  getLastVersion: vi.fn(),
+  getDeltaCacheEntry: async (key: string) => cache.get(key) ?? null,
+  setDeltaCacheEntry: vi.fn(async () => undefined),
+}));
+
+import { applyChangesToCache } from '../deltaSyncService';
+import { tickerKeyAccessor } from '../../utils/deltaSyncIntegrity';
+import {
+  buildScoreBoardLookups,
+  transformPEIndustryRows,
+  transformScoreBoardRows,
+  type DataRow,
+} from '../../../shared/sheetTransforms';
+
+const dashboardRow = (ticker: string, pe1: number): DataRow => ({
+  'Company Name': `${ticker} Corp`,
+  Ticker: ticker,
+  INDUSTRY: 'Technology',
+  'P/E1': pe1,
+});
+
+const scoreBoard = (rows: DataRow[]) =>
+  transformScoreBoardRows(rows, buildScoreBoardLookups(transformPEIndustryRows(rows), []));
+
+const deleteChange = (key: string): ChangesResponse => ({
+  ok: true,
+  fromVersion: 1,
+  toVersion: 2,
+  changes: [{ id: 1, tsISO: '2026-10-19T00:00:00Z', key, rowIndex: 0, changedColumns: [], values: [], op: 'delete' }],
+});
+
+describe('applyChangesToCache', () => {
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  it('reloads Score Board on a delete, since it changes the industry median of other companies', async () => {
+    const rows = [dashboardRow('AAA', 10), dashboardRow('BBB', 20), dashboardRow('CCC', 30)];
+    const before = scoreBoard(rows);
+    const after = scoreBoard(rows.filter((row) => row.Ticker !== 'CCC'));
+    expect(before.find((row) => row.ticker === 'AAA')?.pe1Industry).toBe(-50);
+    expect(after.find((row) => row.ticker === 'AAA')?.pe1Industry).toBeCloseTo(-33.33, 2);
+
+    cache.set('scoreBoard', { data: before, keys: ['AAA', 'BBB', 'CCC'] });
+    const result = await applyChangesToCache(deleteChange('CCC'), 'scoreBoard');
+    expect(result).toEqual({ needsReload: true, version: 2 });
+  });
+
+  it('applies a delete to rows that stand alone', async () => {
+    cache.set('benjaminGraham', {
+      data: [
+        { ticker: 'AAA', price: 10 },
+        { ticker: 'BBB', price: 20 },
+      ],
+    });
+    const result = await applyChangesToCache(deleteChange('BBB'), 'benjaminGraham', tickerKeyAccessor());
+    expect(result).toEqual({ needsReload: false, version: 2, data: [{ ticker: 'AAA', price: 10 }], appliedOps: 1 });
+  });
+});
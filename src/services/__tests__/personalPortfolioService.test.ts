@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the portfolio transaction ledger (positions, cost basis and realized P/L).
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { deriveHolding, previewPortfolioImport } from '../personalPortfolioService';
+import type { PortfolioTransaction } from '../../types/portfolio';
+
+vi.mock('../../config/firebase', () => ({ db: {} }));
+vi.mock('../currencyService', () => ({ getExchangeRate: vi.fn().mockResolvedValue(1) }));
+
+let seq = 0;
+function tx(overrides: Partial<PortfolioTransaction>): PortfolioTransaction {
+  seq += 1;
+  return {
+    id: `tx-${seq}`,
+    type: 'buy',
+    broker: 'Avanza',
+    tradeDate: '2024-01-01',
+    quantity: 0,
+    price: 0,
+    amount: null,
+    fee: null,
+    splitRatio: null,
+    currency: 'USD',
+    fxRateToUSD: 1,
+    note: null,
+    ...overrides,
+  };
+}
+
+const ledger: PortfolioTransaction[] = [
+  tx({ tradeDate: '2024-01-01', quantity: 10, price: 100 }),
+  tx({ tradeDate: '2024-02-01', quantity: 10, price: 200 }),
+  tx({ type: 'sell', tradeDate: '2024-03-01', quantity: 10, price: 250 }),
+];
+
+describe('deriveHolding', () => {
+  it('keeps the FIFO cost basis of the remaining lot after a partial sale', () => {
+    const holding = deriveHolding(ledger, 'fifo');
+    expect(holding.quantity).toBe(10);
+    expect(holding.averagePriceUSD).toBe(200);
+    expect(holding.realizedTradesUSD).toBe(1500);
+  });
+
+  it('keeps the pooled average cost after a partial sale', () => {
+    const holding = deriveHolding(ledger, 'average');
+    expect(holding.quantity).toBe(10);
+    expect(holding.averagePriceUSD).toBe(150);
+    expect(holding.realizedTradesUSD).toBe(1000);
+  });
+
+  it('uses the FX rate stored on each transaction', () => {
+    const holding = deriveHolding(
+      [
+        tx({ quantity: 10, price: 100, currency: 'SEK', fxRateToUSD: 0.1, fee: 10 }),
+        tx({ type: 'sell', tradeDate: '2024-06-01', quantity: 5, price: 120, currency: 'SEK', fxRateToUSD: 0.09 }),
+      ],
+      'fifo'
+    );
+    // Cost 1010 SEK @ 0.1 = 101 USD, half sold: 50.5 USD; proceeds 600 SEK @ 0.09 = 54 USD
+    expect(holding.realizedTradesUSD).toBeCloseTo(3.5);
+    expect(holding.positions).toEqual([
+      { broker: 'Avanza', quantity: 5, investedAmount: 505, investmentCurrency: 'SEK' },
+    ]);
+  });
+
+  it('applies splits, dividends, fees and flags oversold sells', () => {
+    const sell = tx({ type: 'sell', tradeDate: '2024-05-01', quantity: 30, price: 60 });
+    const holding = deriveHolding(
+      [
+        tx({ quantity: 10, price: 100 }),
+        tx({ type: 'split', tradeDate: '2024-02-01', splitRatio: 2 }),
+        tx({ type: 'dividend', tradeDate: '2024-03-01', amount: 20 }),
+        tx({ type: 'fee', tradeDate: '2024-04-01', amount: 5 }),
+        sell,
+      ],
+      'fifo'
+    );
+    expect(holding.quantity).toBe(0);
+    expect(holding.realizedTradesUSD).toBe(200);
+    expect(holding.realizedProfitLossUSD).toBe(215);
+    expect(holding.oversoldTransactionIds).toEqual([sell.id]);
+  });
+});
+
+describe('previewPortfolioImport', () => {
+  it('adds new tickers, appends to existing ledgers and skips known transactions', () => {
+    const existingTx = tx({ quantity: 10, price: 100 });
+    const portfolio = [
+      { ticker: 'AAPL', companyName: 'Apple', quantity: 10, currency: 'USD', price: 150, averagePrice: 100, transactions: [existingTx] },
+    ];
+    const preview = previewPortfolioImport(
+      portfolio,
+      [
+        { ticker: 'AAPL', companyName: 'Apple', currency: 'USD', price: 150, transactions: [existingTx, tx({ quantity: 10, price: 200 })] },
+        { ticker: 'MSFT', companyName: 'Microsoft', currency: 'USD', price: 400, transactions: [tx({ quantity: 1, price: 300 })] },
+      ],
+      'average'
+    );
+    expect(preview.duplicateCount).toBe(1);
+    expect(preview.diff).toEqual([
+      expect.objectContaining({ ticker: 'AAPL', status: 'changed', quantityBefore: 10, quantityAfter: 20, averagePriceAfter: 150 }),
+      expect.objectContaining({ ticker: 'MSFT', status: 'added', quantityAfter: 1, newTransactions: 1 }),
+    ]);
+    expect(portfolio[0].transactions).toHaveLength(1);
+  });
+});
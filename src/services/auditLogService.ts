@@ -0,0 +1,219 @@
+/**
+ * Audit Log Service
+ *
+ * Threshold and entry/exit commits are recorded in editHistory (old value, new value, user, time) by
+ * ThresholdContext / EntryExitContext. Server-side admin actions (cache refresh, score snapshots,
+ * user management) are in adminActions. Both collections are admin-read only and entries are never
+ * updated; a revert writes the old value back and adds a 'revert' entry.
+ */
+
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  where,
+  writeBatch,
+  type QueryConstraint,
+} from 'firebase/firestore';
+import type { User } from 'firebase/auth';
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import { toEditAction } from '../utils/auditLog';
+import { getEntryExitDocId } from './userDataService';
+import { getActiveUniverse, isDefaultUniverseActive } from './universeService';
+import { DEFAULT_UNIVERSE_ID, getThresholdCollectionPath } from '../config/universes';
+import type { AuditLogRow, EditHistoryEntry, EditValue, NewEditHistoryEntry } from '../types/audit';
+
+const EDIT_HISTORY_COLLECTION = 'editHistory';
+const ADMIN_ACTIONS_COLLECTION = 'adminActions';
+
+/** Max entries read per collection for one audit log query */
+export const AUDIT_LOG_LIMIT = 500;
+
+function toEditValue(value: unknown): EditValue {
+  return typeof value === 'number' || typeof value === 'string' ? value : null;
+}
+
+function toDate(value: unknown): Date | null {
+  return value instanceof Timestamp ? value.toDate() : null;
+}
+
+function parseEditHistoryEntry(id: string, raw: Record<string, unknown>): EditHistoryEntry | null {
+  if ((raw.target !== 'threshold' && raw.target !== 'entryExit') || typeof raw.key !== 'string' || typeof raw.field !== 'string') {
+    return null;
+  }
+  return {
+    id,
+    target: raw.target,
+    action: raw.action === 'revert' ? 'revert' : 'edit',
+    key: raw.key,
+    ticker: typeof raw.ticker === 'string' ? raw.ticker : null,
+    field: raw.field,
+    oldValue: toEditValue(raw.oldValue),
+    newValue: toEditValue(raw.newValue),
+    userId: typeof raw.userId === 'string' ? raw.userId : '',
+    userEmail: typeof raw.userEmail === 'string' ? raw.userEmail : null,
+    timestamp: toDate(raw.timestamp),
+    revertOf: typeof raw.revertOf === 'string' ? raw.revertOf : null,
+    universeId: typeof raw.universeId === 'string' ? raw.universeId : null,
+  };
+}
+
+function editToRow(edit: EditHistoryEntry): AuditLogRow {
+  return {
+    id: edit.id,
+    source: 'editHistory',
+    action: toEditAction(edit),
+    userId: edit.userId,
+    timestamp: edit.timestamp,
+    industry: edit.target === 'threshold' ? edit.key : null,
+    ticker: edit.target === 'entryExit' ? edit.ticker ?? edit.key : null,
+    field: edit.field,
+    oldValue: edit.oldValue,
+    newValue: edit.newValue,
+    details: edit.target === 'entryExit' ? edit.key : edit.universeId,
+    edit,
+  };
+}
+
+function describeAdminAction(raw: Record<string, unknown>): string | null {
+  const parts: string[] = [];
+  if (Array.isArray(raw.viewIds)) parts.push(raw.viewIds.join(', '));
+  if (typeof raw.targetUid === 'string') parts.push(raw.targetUid);
+  if (raw.resultsSummary && typeof raw.resultsSummary === 'object') {
+    parts.push(
+      Object.entries(raw.resultsSummary as Record<string, unknown>)
+        .map(([k, v]) => `${k}: ${String(v)}`)
+        .join(', ')
+    );
+  }
+  if (Array.isArray(raw.errors) && raw.errors.length > 0) parts.push(`errors: ${raw.errors.length}`);
+  if (raw.dryRun === true) parts.push('dry run');
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+function adminActionToRow(id: string, raw: Record<string, unknown>): AuditLogRow {
+  const before = raw.before && typeof raw.before === 'object' ? (raw.before as Record<string, unknown>) : null;
+  const after = raw.after && typeof raw.after === 'object' ? (raw.after as Record<string, unknown>) : null;
+  return {
+    id,
+    source: 'adminActions',
+    action: typeof raw.action === 'string' ? raw.action : 'unknown',
+    userId: typeof raw.adminUid === 'string' ? raw.adminUid : '',
+    timestamp: toDate(raw.timestamp),
+    industry: null,
+    ticker: null,
+    field: null,
+    oldValue: before ? JSON.stringify(before) : null,
+    newValue: after ? JSON.stringify(after) : null,
+    details: describeAdminAction(raw),
+    edit: null,
+  };
+}
+
+/**
+ * Record committed field edits. Callers treat failures as non-fatal (the edit itself is already saved).
+ */
+export async function recordEdits(user: User | null, edits: NewEditHistoryEntry[]): Promise<void> {
+  if (!user || edits.length === 0) return;
+
+  try {
+    const batch = writeBatch(db);
+    const universeId = isDefaultUniverseActive() ? null : getActiveUniverse().id;
+    for (const edit of edits) {
+      batch.set(doc(collection(db, EDIT_HISTORY_COLLECTION)), {
+        ...edit,
+        universeId: edit.target === 'threshold' ? universeId : null,
+        userId: user.uid,
+        userEmail: user.email ?? null,
+        timestamp: serverTimestamp(),
+      });
+    }
+    await batch.commit();
+  } catch (error) {
+    logger.error('Failed to record edit history', error, {
+      component: 'auditLogService',
+      operation: 'recordEdits',
+      userId: user.uid,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Load adminActions and editHistory entries in [from, to] (newest first, at most AUDIT_LOG_LIMIT each).
+ */
+export async function loadAuditLog(from: Date | null, to: Date | null): Promise<AuditLogRow[]> {
+  const constraints: QueryConstraint[] = [];
+  if (from) constraints.push(where('timestamp', '>=', Timestamp.fromDate(from)));
+  if (to) constraints.push(where('timestamp', '<=', Timestamp.fromDate(to)));
+  constraints.push(orderBy('timestamp', 'desc'), limit(AUDIT_LOG_LIMIT));
+
+  try {
+    const [actionsSnap, editsSnap] = await Promise.all([
+      getDocs(query(collection(db, ADMIN_ACTIONS_COLLECTION), ...constraints)),
+      getDocs(query(collection(db, EDIT_HISTORY_COLLECTION), ...constraints)),
+    ]);
+
+    const rows: AuditLogRow[] = actionsSnap.docs.map((d) => adminActionToRow(d.id, d.data()));
+    for (const d of editsSnap.docs) {
+      const edit = parseEditHistoryEntry(d.id, d.data());
+      if (edit) rows.push(editToRow(edit));
+    }
+    return rows.sort((a, b) => (b.timestamp?.getTime() ?? 0) - (a.timestamp?.getTime() ?? 0));
+  } catch (error) {
+    logger.error('Failed to load audit log', error, { component: 'auditLogService', operation: 'loadAuditLog' });
+    throw error;
+  }
+}
+
+/**
+ * Write an edit's old value back to its document and record the revert (old value = the value being replaced).
+ */
+export async function revertEdit(user: User | null, edit: EditHistoryEntry): Promise<void> {
+  if (!user) return;
+
+  try {
+    const docRef =
+      edit.target === 'threshold'
+        ? doc(db, getThresholdCollectionPath(edit.universeId ?? DEFAULT_UNIVERSE_ID), edit.key)
+        : doc(db, 'entiryExit', getEntryExitDocId(edit.key));
+    const current = await getDoc(docRef);
+    const currentValue = current.exists() ? toEditValue(current.data()[edit.field]) : null;
+
+    await setDoc(
+      docRef,
+      edit.target === 'threshold' ? { [edit.field]: edit.oldValue } : { [edit.field]: edit.oldValue, companyName: edit.key },
+      { merge: true }
+    );
+    await addDoc(collection(db, EDIT_HISTORY_COLLECTION), {
+      target: edit.target,
+      action: 'revert',
+      key: edit.key,
+      ticker: edit.ticker,
+      field: edit.field,
+      oldValue: currentValue,
+      newValue: edit.oldValue,
+      revertOf: edit.id,
+      universeId: edit.universeId,
+      userId: user.uid,
+      userEmail: user.email ?? null,
+      timestamp: serverTimestamp(),
+    });
+  } catch (error) {
+    logger.error('Failed to revert edit', error, {
+      component: 'auditLogService',
+      operation: 'revertEdit',
+      userId: user.uid,
+    });
+    throw error;
+  }
+}
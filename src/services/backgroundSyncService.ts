@@ -8,9 +8,10 @@
 import { logger } from '../utils/logger';
 import { requestBackgroundSync } from '../utils/serviceWorkerRegistration';
 import { isDeltaSyncEnabled, getApiBaseUrlForDeltaSync } from './deltaSyncService';
-import { snapshotToTransformerFormat } from './deltaSyncService';
+import { snapshotToTransformerFormat, getSnapshotKeys } from './deltaSyncService';
 import type { SnapshotResponse } from './deltaSyncService';
 import { CACHE_KEYS } from './cacheKeys';
+import { getActiveUniverse } from './universeService';
 import { getCachedData, setDeltaCacheEntry, VIEWDATA_MIGRATION_MODE } from './firestoreCacheService';
 import { transformBenjaminGrahamData } from './sheets/benjaminGrahamService';
 import { transformPEIndustryData } from './sheets/peIndustryService';
@@ -18,6 +19,8 @@ import { transformSMAData } from './sheets/smaService';
 import { createScoreBoardTransformer, type SMADataMapEntry } from './sheets/scoreBoardService';
 import type { PEIndustryData } from '../types/stock';
 import type { SMAData } from '../types/stock';
+import { recordSheetDiagnostics } from './sheetDiagnosticsService';
+import { DASHBOARD_SCHEMA, SMA_SCHEMA, type SheetSchema } from '../../shared/sheetSchema';
 
 const APPS_SCRIPT_TOKEN = import.meta.env.VITE_APPS_SCRIPT_TOKEN || '';
 
@@ -25,18 +28,25 @@ const APPS_SCRIPT_TOKEN = import.meta.env.VITE_APPS_SCRIPT_TOKEN || '';
 let syncInProgressUntil = 0;
 const SYNC_COORDINATION_TIMEOUT = 5 * 60 * 1000; // 5 minutes
 
-// Unique sheets to sync (one fetch per sheet). Each sheet maps to one or more cache keys.
-const SHEETS_TO_SYNC: { sheetName: string; cacheKeys: string[] }[] = [
-  {
-    sheetName: 'DashBoard',
-    cacheKeys: [
-      CACHE_KEYS.BENJAMIN_GRAHAM,
-      CACHE_KEYS.PE_INDUSTRY,
-      CACHE_KEYS.SCORE_BOARD,
-    ],
-  },
-  { sheetName: 'SMA', cacheKeys: [CACHE_KEYS.SMA] },
-];
+/**
+ * Unique sheets of the active universe to sync (one fetch per sheet). Each sheet maps to one or more cache keys;
+ * the keys are scoped to the universe when written.
+ */
+function getSheetsToSync(): { sheetName: string; schema: SheetSchema; cacheKeys: string[] }[] {
+  const universe = getActiveUniverse();
+  return [
+    {
+      sheetName: universe.dashboardSheet,
+      schema: DASHBOARD_SCHEMA,
+      cacheKeys: [
+        CACHE_KEYS.BENJAMIN_GRAHAM,
+        CACHE_KEYS.PE_INDUSTRY,
+        CACHE_KEYS.SCORE_BOARD,
+      ],
+    },
+    { sheetName: universe.smaSheet, schema: SMA_SCHEMA, cacheKeys: [CACHE_KEYS.SMA] },
+  ];
+}
 
 function isSyncInProgress(): boolean {
   return Date.now() < syncInProgressUntil;
@@ -51,10 +61,11 @@ function clearSyncInProgress(): void {
 }
 
 /**
- * Persist snapshot to cache keys for a sheet (transform + setDeltaCacheEntry)
+ * Persist snapshot to cache keys for a sheet (diagnose + transform + setDeltaCacheEntry)
  */
 async function persistSnapshotToCache(
   sheetName: string,
+  schema: SheetSchema,
   cacheKeys: string[],
   snapshot: SnapshotResponse
 ): Promise<void> {
@@ -69,8 +80,10 @@ async function persistSnapshotToCache(
     });
     return;
   }
+  recordSheetDiagnostics(schema, transformerFormat);
 
   const version = snapshot.version ?? 0;
+  const keys = getSnapshotKeys(snapshot);
 
   // cutover: no appCache writes for view-docs
   const skipAppCacheWrite = VIEWDATA_MIGRATION_MODE === 'cutover';
@@ -79,13 +92,13 @@ async function persistSnapshotToCache(
     try {
       if (cacheKey === CACHE_KEYS.BENJAMIN_GRAHAM) {
         const data = transformBenjaminGrahamData(transformerFormat);
-        if (!skipAppCacheWrite) await setDeltaCacheEntry(cacheKey, data, version, true);
+        if (!skipAppCacheWrite) await setDeltaCacheEntry(cacheKey, data, version, true, undefined, keys);
       } else if (cacheKey === CACHE_KEYS.PE_INDUSTRY) {
         const data = transformPEIndustryData(transformerFormat);
-        if (!skipAppCacheWrite) await setDeltaCacheEntry(cacheKey, data, version, true);
+        if (!skipAppCacheWrite) await setDeltaCacheEntry(cacheKey, data, version, true, undefined, keys);
       } else if (cacheKey === CACHE_KEYS.SMA) {
         const data = transformSMAData(transformerFormat);
-        if (!skipAppCacheWrite) await setDeltaCacheEntry(cacheKey, data, version, true);
+        if (!skipAppCacheWrite) await setDeltaCacheEntry(cacheKey, data, version, true, undefined, keys);
       } else if (cacheKey === CACHE_KEYS.SCORE_BOARD) {
         const peData = await getCachedData<PEIndustryData[]>(CACHE_KEYS.PE_INDUSTRY);
         const smaData = await getCachedData<SMAData[]>(CACHE_KEYS.SMA);
@@ -108,7 +121,7 @@ async function persistSnapshotToCache(
         });
         const transformer = createScoreBoardTransformer(industryPe1Map, industryPe2Map, smaDataMap);
         const data = transformer(transformerFormat);
-        if (!skipAppCacheWrite) await setDeltaCacheEntry(cacheKey, data, version, true);
+        if (!skipAppCacheWrite) await setDeltaCacheEntry(cacheKey, data, version, true, undefined, keys);
       }
     } catch (err) {
       logger.warn('Failed to persist cache key in background sync', {
@@ -124,7 +137,7 @@ async function persistSnapshotToCache(
 /**
  * Sync a single sheet in the background (one fetch per sheet, persist to all its cache keys)
  */
-async function syncSheet(sheetName: string, cacheKeys: string[]): Promise<void> {
+async function syncSheet(sheetName: string, schema: SheetSchema, cacheKeys: string[]): Promise<void> {
   let apiBaseUrl: string;
   try {
     apiBaseUrl = getApiBaseUrlForDeltaSync();
@@ -175,7 +188,7 @@ async function syncSheet(sheetName: string, cacheKeys: string[]): Promise<void>
     ) as { type: string; sheetName?: string; snapshot?: SnapshotResponse };
 
     if (result?.type === 'SYNC_COMPLETE' && result.snapshot && result.sheetName) {
-      await persistSnapshotToCache(result.sheetName, cacheKeys, result.snapshot);
+      await persistSnapshotToCache(result.sheetName, schema, cacheKeys, result.snapshot);
     }
 
     logger.info('Background sync completed for sheet', {
@@ -205,8 +218,8 @@ export async function syncAllSheets(): Promise<void> {
     return;
   }
 
-  for (const { sheetName, cacheKeys } of SHEETS_TO_SYNC) {
-    await syncSheet(sheetName, cacheKeys);
+  for (const { sheetName, schema, cacheKeys } of getSheetsToSync()) {
+    await syncSheet(sheetName, schema, cacheKeys);
     await new Promise((r) => setTimeout(r, 1000));
   }
 }
@@ -248,8 +261,8 @@ export function initializeBackgroundSync(): void {
  */
 export async function triggerBackgroundSync(sheetName?: string): Promise<void> {
   if (sheetName) {
-    const entry = SHEETS_TO_SYNC.find((s) => s.sheetName === sheetName);
-    if (entry) await syncSheet(entry.sheetName, entry.cacheKeys);
+    const entry = getSheetsToSync().find((s) => s.sheetName === sheetName);
+    if (entry) await syncSheet(entry.sheetName, entry.schema, entry.cacheKeys);
     else logger.warn('Unknown sheet for background sync', { component: 'backgroundSyncService', sheetName });
   } else {
     await syncAllSheets();
@@ -11,6 +11,7 @@ export const CACHE_KEYS = {
   SMA: 'cache:sma',
   PE_INDUSTRY: 'cache:peIndustry',
   SCORE_BOARD: 'cache:scoreBoard',
+  ISM: 'cache:ism',
   THRESHOLD_INDUSTRY: 'cache:industryThreshold',
   CURRENCY_RATES_USD: 'cache:currency_rates_usd',
 } as const;
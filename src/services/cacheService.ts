@@ -3,7 +3,8 @@
  *
  * Data cache has been removed. This module only exports types and no-op/empty
  * implementations so existing imports do not break. All shared data comes from
- * Firestore appCache (see firestoreCacheService).
+ * Firestore appCache (see firestoreCacheService); the device-local offline copy
+ * lives in IndexedDB (see offlineStore).
  */
 
 /**
@@ -28,6 +29,8 @@ export interface DeltaCacheEntry<T> {
   lastUpdated: number;
   timestamp?: number;
   ttl?: number;
+  /** Sheet keys of the cached rows (delta sync integrity check) */
+  keys?: string[];
 }
 
 // Re-export CACHE_KEYS from centralized location for backward compatibility
@@ -20,6 +20,15 @@ const CACHE_TTL_MS = 15 * 60 * 60 * 1000; // 15 hours
 interface CurrencyRatesData {
   rates: Record<string, number>;
   source: string;
+  /** When the rates were fetched from the API (ms); missing on entries cached before it was stored */
+  fetchedAt?: number;
+}
+
+/** A rate together with where it came from and how old it is (for tooltips) */
+export interface ExchangeRateInfo {
+  rate: number;
+  source: string;
+  fetchedAt: number | null;
 }
 
 /**
@@ -42,8 +51,9 @@ export async function getExchangeRate(
   }
 
   try {
-    const rates = await getRatesWithFallback();
-    if (!rates) return null;
+    const data = await getRatesWithFallback();
+    if (!data) return null;
+    const { rates } = data;
 
     // API returns rates FROM USD to other currencies (e.g. rates.SEK = SEK per 1 USD)
     // So USD per 1 SEK = 1 / rates.SEK
@@ -64,6 +74,33 @@ export async function getExchangeRate(
   }
 }
 
+/**
+ * Rate between any two currencies (units of `toCurrency` per 1 `fromCurrency`), crossed via USD,
+ * with the source API and fetch time of the cached rates.
+ */
+export async function getExchangeRateInfo(
+  fromCurrency: string,
+  toCurrency: string
+): Promise<ExchangeRateInfo | null> {
+  const from = fromCurrency.toUpperCase();
+  const to = toCurrency.toUpperCase();
+
+  try {
+    const data = await getRatesWithFallback();
+    if (!data) return null;
+    // rates[X] = X per 1 USD
+    const perUSD = (ccy: string): number | null => (ccy === 'USD' ? 1 : data.rates[ccy] ?? null);
+    const fromPerUSD = perUSD(from);
+    const toPerUSD = perUSD(to);
+    if (fromPerUSD == null || toPerUSD == null) return null;
+    const rate = from === to ? 1 : toPerUSD / fromPerUSD;
+    if (!isFinite(rate) || rate <= 0) return null;
+    return { rate, source: data.source, fetchedAt: data.fetchedAt ?? null };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Force refresh the currency rates cache by fetching from APIs and writing to Firestore.
  * Call before getExchangeRate when fresh rates are needed (e.g. every 15 minutes in Personal Portfolio).
@@ -75,10 +112,10 @@ export async function refreshCurrencyRatesCache(): Promise<void> {
 /**
  * Try APIs in priority order until one succeeds
  */
-async function getRatesWithFallback(forceRefresh?: boolean): Promise<Record<string, number> | null> {
+async function getRatesWithFallback(forceRefresh?: boolean): Promise<CurrencyRatesData | null> {
   if (!forceRefresh) {
     const cached = await getCachedRates();
-    if (cached) return cached.rates;
+    if (cached) return cached;
   }
 
   const apiKeys = getApiKeys();
@@ -87,8 +124,7 @@ async function getRatesWithFallback(forceRefresh?: boolean): Promise<Record<stri
     const rates = await fetchEODHDRates(apiKeys.eodhd);
     if (rates) {
       const merged = await mergeMissingMajorCurrencies(rates);
-      await setCachedRates(merged, 'eodhd');
-      return merged;
+      return setCachedRates(merged, 'eodhd');
     }
   }
 
@@ -96,8 +132,7 @@ async function getRatesWithFallback(forceRefresh?: boolean): Promise<Record<stri
     const rates = await fetchMarketStackRates(apiKeys.marketstack);
     if (rates) {
       const merged = await mergeMissingMajorCurrencies(rates);
-      await setCachedRates(merged, 'marketstack');
-      return merged;
+      return setCachedRates(merged, 'marketstack');
     }
   }
 
@@ -105,8 +140,7 @@ async function getRatesWithFallback(forceRefresh?: boolean): Promise<Record<stri
     const rates = await fetchFinnhubRates(apiKeys.finnhub);
     if (rates) {
       const merged = await mergeMissingMajorCurrencies(rates);
-      await setCachedRates(merged, 'finnhub');
-      return merged;
+      return setCachedRates(merged, 'finnhub');
     }
   }
 
@@ -114,15 +148,13 @@ async function getRatesWithFallback(forceRefresh?: boolean): Promise<Record<stri
     const rates = await fetchAlphaVantageRates(apiKeys.alphaVantage);
     if (rates) {
       const merged = await mergeMissingMajorCurrencies(rates);
-      await setCachedRates(merged, 'alphavantage');
-      return merged;
+      return setCachedRates(merged, 'alphavantage');
     }
   }
 
   const rates = await fetchExchangeRateAPIRates();
   if (rates) {
-    await setCachedRates(rates, 'exchangerate-api');
-    return rates;
+    return setCachedRates(rates, 'exchangerate-api');
   }
 
   return null;
@@ -155,13 +187,14 @@ async function getCachedRates(): Promise<CurrencyRatesData | null> {
   return getCachedData<CurrencyRatesData>(CACHE_KEYS.CURRENCY_RATES_USD);
 }
 
-async function setCachedRates(rates: Record<string, number>, source: string): Promise<void> {
+async function setCachedRates(rates: Record<string, number>, source: string): Promise<CurrencyRatesData> {
+  const data: CurrencyRatesData = { rates, source, fetchedAt: Date.now() };
   try {
-    const data: CurrencyRatesData = { rates, source };
     await setCachedData(CACHE_KEYS.CURRENCY_RATES_USD, data, CACHE_TTL_MS);
   } catch {
     // Cache write failed (e.g. permission); API response still used for current call
   }
+  return data;
 }
 
 async function fetchEODHDRates(apiKey: string): Promise<Record<string, number> | null> {
@@ -0,0 +1,99 @@
+/**
+ * Data Quality Service
+ *
+ * Runs the data quality checks (utils/dataQuality.ts) on every DashBoard fetch — direct fetches, delta sync
+ * snapshots and background syncs. Deltas that change values make the client reload the snapshot, so they are
+ * checked too. The latest report per universe is kept in memory for the Data Health view and the Score and
+ * Score Board flags, and in the offline store with the price baselines, so reports and price moves carry over
+ * across sessions.
+ */
+
+import { logger } from '../utils/logger';
+import {
+  buildPriceBaseline,
+  checkSnapshotQuality,
+  rotatePriceBaselines,
+  toDataQualityRows,
+  type DataQualityRow,
+} from '../utils/dataQuality';
+import {
+  readLocalDataQuality,
+  readLocalPriceBaselines,
+  writeLocalDataQuality,
+  writeLocalPriceBaselines,
+} from './offlineStore';
+import type { DataRow } from './sheets/types';
+import type { DataQualityReport } from '../types/dataQuality';
+
+const reports = new Map<string, DataQualityReport>();
+/** Checked rows per universe, for the entry/exit staleness check in the view */
+const checkedRows = new Map<string, DataQualityRow[]>();
+const listeners = new Set<() => void>();
+
+/** Called when a report is recorded. Returns an unsubscribe function. */
+export function subscribeToDataQuality(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getDataQualityReport(universeId: string): DataQualityReport | null {
+  return reports.get(universeId) ?? null;
+}
+
+export function getDataQualityRows(universeId: string): DataQualityRow[] {
+  return checkedRows.get(universeId) ?? [];
+}
+
+/**
+ * Load the stored report of a universe when none was recorded this session. Resolves with whether a report
+ * is available.
+ */
+export async function loadStoredDataQuality(universeId: string): Promise<boolean> {
+  if (reports.has(universeId)) return true;
+  const stored = await readLocalDataQuality(universeId);
+  if (!stored || reports.has(universeId)) return reports.has(universeId);
+  checkedRows.set(universeId, stored.rows);
+  reports.set(universeId, stored.report);
+  listeners.forEach((listener) => listener());
+  return true;
+}
+
+/**
+ * Check fetched DashBoard rows and keep the report. Resolves also on failure: checks must not break a fetch.
+ */
+export async function recordDataQuality(universeId: string, data: DataRow[]): Promise<void> {
+  try {
+    const now = Date.now();
+    const rows = toDataQualityRows(data);
+    const { baselines, compareWith } = rotatePriceBaselines(
+      await readLocalPriceBaselines(universeId),
+      buildPriceBaseline(rows, now)
+    );
+    await writeLocalPriceBaselines(universeId, baselines);
+
+    const issues = checkSnapshotQuality(rows, compareWith?.prices ?? null);
+    if (issues.some((issue) => issue.severity === 'error')) {
+      logger.warn(`Data quality: ${issues.length} issue(s) in the DashBoard rows`, {
+        component: 'dataQualityService',
+        operation: 'recordDataQuality',
+        universeId,
+      });
+    }
+
+    const report: DataQualityReport = {
+      universeId,
+      rowCount: rows.length,
+      comparedWith: compareWith?.takenAt ?? null,
+      issues,
+      generatedAt: now,
+    };
+    checkedRows.set(universeId, rows);
+    reports.set(universeId, report);
+    listeners.forEach((listener) => listener());
+    await writeLocalDataQuality(universeId, { report, rows });
+  } catch (error) {
+    logger.warn('Failed to check data quality', { component: 'dataQualityService', operation: 'recordDataQuality', universeId, error });
+  }
+}
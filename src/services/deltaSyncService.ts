@@ -13,7 +13,17 @@ import { logger } from '../utils/logger';
 import { isSecureMode, requireProxyInSecureMode } from '../config/securityMode';
 import { isArray, isString } from '../utils/typeGuards';
 import { transformInWorker, getTransformerId } from './workerService';
+import {
+  applyKeyOps,
+  applyKeyOpsToRows,
+  matchesKeySetFingerprint,
+  type DeltaChangeOp,
+  type DeltaRowKeyAccessor,
+} from '../utils/deltaSyncIntegrity';
 import type { DataRow } from './sheets';
+import { recordSheetDiagnostics } from './sheetDiagnosticsService';
+import type { SheetSchema } from '../../shared/sheetSchema';
+import { getActiveUniverse, isDefaultUniverseActive } from './universeService';
 
 // Configuration
 const APPS_SCRIPT_URL = import.meta.env.VITE_APPS_SCRIPT_URL || '';
@@ -40,11 +50,25 @@ function isDirectAppsScriptUrl(url: string): boolean {
   }
 }
 
+/**
+ * Delta sync for a non-default universe goes straight to its own Apps Script deployment: the proxy and
+ * API token belong to the default spreadsheet's script.
+ */
+function canSyncActiveUniverse(): boolean {
+  return !!getActiveUniverse().appsScriptUrl && !API_TOKEN && !isSecureMode();
+}
+
 /**
  * Resolve API base URL for delta sync. When API_TOKEN is set, proxy must be used (Apps Script cannot read headers).
  * Steg C: in secure mode, require proxy when Apps Script URL is configured.
  */
 export function getApiBaseUrlForDeltaSync(): string {
+  if (!isDefaultUniverseActive()) {
+    if (!canSyncActiveUniverse()) {
+      throw new Error(`Delta sync is not available for universe "${getActiveUniverse().id}" (needs its own appsScriptUrl, no API token)`);
+    }
+    return getActiveUniverse().appsScriptUrl ?? '';
+  }
   if (isSecureMode()) {
     requireProxyInSecureMode();
     return APPS_SCRIPT_PROXY_URL;
@@ -108,9 +132,17 @@ export interface ChangesResponse {
     rowIndex: number;
     changedColumns: string[];
     values: unknown[];
+    /** Operation (default 'upsert'). 'delete' removes the row with key; 'rename' moves previousKey to key */
+    op?: DeltaChangeOp;
+    /** Key before a rename */
+    previousKey?: string;
   }>;
   /** Whether a full resync is needed instead of incremental updates */
   needsFullResync?: boolean;
+  /** Number of keyed rows in the sheet at toVersion (integrity check) */
+  rowCount?: number;
+  /** Key-set hash of the sheet at toVersion, see computeKeySetHash (integrity check) */
+  keyHash?: string;
   /** Error message if request failed */
   error?: string;
 }
@@ -139,6 +171,8 @@ export interface DeltaSyncConfig {
   dataTypeName?: string;
   /** Additional data for transformers that need it (e.g. industryPe1Map, industryPe2Map, smaDataMap for Score Board). */
   additionalData?: Record<string, unknown>;
+  /** Sheet schema each loaded snapshot is diagnosed against (Data Health admin view) */
+  schema?: SheetSchema;
 }
 
 /**
@@ -215,6 +249,13 @@ export function snapshotToTransformerFormat(snapshot: SnapshotResponse): { data:
   };
 }
 
+/**
+ * Sheet keys (KEY_COLUMN_NAME values) of a snapshot, stored with the delta cache entry for the integrity check
+ */
+export function getSnapshotKeys(snapshot: SnapshotResponse): string[] {
+  return snapshot.rows.map((row) => String(row?.key ?? '').trim()).filter((key) => key !== '');
+}
+
 /**
  * Initialize delta sync for a sheet
  * 
@@ -323,7 +364,7 @@ export async function initSync<T>(
   
   // Cache the snapshot (cutover: no appCache writes for view-docs)
   if (VIEWDATA_MIGRATION_MODE !== 'cutover') {
-    setDeltaCacheEntry(cacheKey, transformedData, snapshot.version, true);
+    setDeltaCacheEntry(cacheKey, transformedData, snapshot.version, true, undefined, getSnapshotKeys(snapshot));
   }
 
   return {
@@ -332,6 +373,16 @@ export async function initSync<T>(
   };
 }
 
+/** Diagnose a loaded snapshot against the config's schema (no-op without one) */
+function recordSnapshotDiagnostics(config: DeltaSyncConfig, snapshot: SnapshotResponse): void {
+  if (!config.schema) return;
+  try {
+    recordSheetDiagnostics(config.schema, snapshotToTransformerFormat(snapshot));
+  } catch {
+    // Malformed snapshots fail again in the caller's transform, which reports them
+  }
+}
+
 /**
  * Load full snapshot from API
  * 
@@ -399,13 +450,15 @@ export async function loadSnapshot(config: DeltaSyncConfig): Promise<SnapshotRes
           rowsCount: rows.length 
         });
         
-        return {
+        const snapshot: SnapshotResponse = {
           ok: true,
           version: Date.now(), // Use timestamp as version for legacy format
           headers: headers,
           rows: rows,
           generatedAt: new Date().toISOString(),
         };
+        recordSnapshotDiagnostics(config, snapshot);
+        return snapshot;
       }
     }
     
@@ -435,6 +488,7 @@ export async function loadSnapshot(config: DeltaSyncConfig): Promise<SnapshotRes
       throw new Error(`Invalid snapshot response: version is not a number. Got: ${typeof response.version}`);
     }
     
+    recordSnapshotDiagnostics(config, response);
     return response;
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -498,50 +552,28 @@ export async function pollChanges(
 /**
  * Apply changes to cached data
  * 
- * Analyzes changes response and determines if a full snapshot reload is needed.
- * Simplified implementation: if changes are detected or full resync is needed,
- * returns a signal to reload snapshot rather than merging changes incrementally.
- * 
- * @template T - The type of cached data
- * @param changes - Changes response from API
- * @param cacheKey - Cache key to check/update
- * @returns Object indicating if reload is needed, with version and optional cached data
- * 
- * @example
- * ```typescript
- * const result = applyChangesToCache<ScoreBoardData[]>(changes, CACHE_KEYS.SCORE_BOARD);
- * if (result.needsReload) {
- *   // Reload full snapshot
- * } else if (result.data) {
- *   // Use cached data
- * }
- * ```
- */
-/**
- * Apply changes to cached data
- * 
- * Analyzes changes response and determines if a full snapshot reload is needed.
- * Simplified implementation: if changes are detected or full resync is needed,
- * returns a signal to reload snapshot rather than merging changes incrementally.
+ * Applies delete and rename operations to the cached rows and verifies the result against the server's
+ * row count and key-set hash. Anything it cannot apply locally returns a signal to reload the snapshot.
  * 
  * **Edge Cases:**
  * - **Version mismatch**: If needsFullResync is true, triggers full reload
  * - **No existing cache**: If cache doesn't exist, triggers full snapshot load
- * - **Changes detected**: Reloads full snapshot (simpler than incremental merge)
- * 
- * **Why full reload instead of incremental merge?**
- * - Simpler and more reliable than trying to merge individual row changes
- * - Ensures data consistency (no partial updates)
- * - Full snapshot is still efficient with delta sync (only changed rows are sent)
+ * - **Upserted rows**: Reloads full snapshot (transformed values may depend on other rows, e.g. industry aggregates)
+ * - **Delete / rename without keyAccessor**: Reloads full snapshot (the rows cannot be matched to sheet keys).
+ *   Pass a keyAccessor only for views whose rows stand alone (e.g. Benjamin Graham); Score Board rows compare
+ *   each company with its industry median and join SMA values by ticker, so a delete or rename changes other rows
+ * - **Integrity mismatch**: Cached keys differ from the server's rowCount / keyHash (e.g. a missed change) -> reload.
+ *   Entries cached without keys are not checked.
  * 
- * @template T - The type of cached data
+ * @template T - The type of cached rows
  * @param changes - Changes response from API
  * @param cacheKey - Cache key to check/update
- * @returns Object indicating if reload is needed, with version and optional cached data
+ * @param keyAccessor - Reads/replaces the sheet key of a cached row; required to apply deletes and renames
+ * @returns Object indicating if reload is needed, with version, optional cached data and the number of applied operations
  * 
  * @example
  * ```typescript
- * const result = applyChangesToCache<ScoreBoardData[]>(changes, CACHE_KEYS.SCORE_BOARD);
+ * const result = await applyChangesToCache<BenjaminGrahamData>(changes, CACHE_KEYS.BENJAMIN_GRAHAM, tickerKeyAccessor());
  * if (result.needsReload) {
  *   // Reload full snapshot
  * } else if (result.data) {
@@ -551,10 +583,9 @@ export async function pollChanges(
  */
 export async function applyChangesToCache<T>(
   changes: ChangesResponse,
-  cacheKey: string
-): Promise<{ needsReload: boolean; version: number; data?: T[] }> {
-  const existing = await getDeltaCacheEntry<T[]>(cacheKey);
-
+  cacheKey: string,
+  keyAccessor?: DeltaRowKeyAccessor<T>
+): Promise<{ needsReload: boolean; version: number; data?: T[]; appliedOps?: number }> {
   // Edge case: Full resync needed (version mismatch or server request)
   if (!changes.ok || changes.needsFullResync) {
     // Need full reload
@@ -564,27 +595,46 @@ export async function applyChangesToCache<T>(
     };
   }
 
-  if (!changes.changes || changes.changes.length === 0) {
-    // No changes, return existing cache
-    if (existing) {
-      return {
-        needsReload: false,
-        version: changes.toVersion,
-        data: existing.data,
-      };
-    }
+  const existing = await getDeltaCacheEntry<T[]>(cacheKey);
+  if (!existing) {
     // Edge case: No existing cache - need to load snapshot
-    return {
-      needsReload: true,
-      version: changes.toVersion,
-    };
+    return { needsReload: true, version: changes.toVersion };
+  }
+
+  const ops = (changes.changes ?? []).map((change) => ({
+    op: change.op ?? 'upsert',
+    key: String(change.key ?? '').trim(),
+    previousKey: change.previousKey !== undefined ? String(change.previousKey).trim() : undefined,
+  }));
+  if (ops.some((op) => op.op === 'upsert') || (ops.length > 0 && !keyAccessor)) {
+    return { needsReload: true, version: changes.toVersion };
+  }
+
+  const data = ops.length > 0 && keyAccessor ? applyKeyOpsToRows(existing.data, ops, keyAccessor) : existing.data;
+  const keys = existing.keys ? applyKeyOps(existing.keys, ops) : undefined;
+
+  if (keys && !matchesKeySetFingerprint(keys, changes)) {
+    logger.warn('Delta sync integrity check failed, reloading snapshot', {
+      component: 'deltaSyncService',
+      operation: 'applyChangesToCache',
+      cacheKey,
+      cachedRowCount: keys.length,
+      serverRowCount: changes.rowCount,
+    });
+    return { needsReload: true, version: changes.toVersion };
+  }
+
+  if (ops.length > 0 && VIEWDATA_MIGRATION_MODE !== 'cutover') {
+    await setDeltaCacheEntry(cacheKey, data, changes.toVersion, false, existing.ttl, keys).catch(() => {
+      // Already logged by setDeltaCacheEntry; the applied data is still returned
+    });
   }
 
-  // Changes detected - need to reload snapshot to get updated data
-  // (This is simpler and more reliable than trying to merge changes incrementally)
   return {
-    needsReload: true,
+    needsReload: false,
     version: changes.toVersion,
+    data,
+    appliedOps: ops.length,
   };
 }
 
@@ -694,6 +744,9 @@ async function fetchWithRetry<T>(
  * Check if delta sync is enabled
  */
 export function isDeltaSyncEnabled(): boolean {
+  if (!isDefaultUniverseActive()) {
+    return DELTA_SYNC_ENABLED && canSyncActiveUniverse();
+  }
   return DELTA_SYNC_ENABLED && !!APPS_SCRIPT_URL;
 }
 
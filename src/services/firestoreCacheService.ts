@@ -18,8 +18,17 @@ import {
   Timestamp 
 } from 'firebase/firestore';
 import { db } from '../config/firebase';
+import { SHEET_TRANSFORM_VERSION } from '../../shared/sheetTransforms';
 import { logger } from '../utils/logger';
 import { DeltaCacheEntry } from './cacheService';
+import { scopeCacheKeyToActiveUniverse, scopeViewIdToActiveUniverse } from './universeService';
+import {
+  noteServedData,
+  readLocalDeltaEntry,
+  readLocalViewData,
+  writeLocalDeltaEntry,
+  writeLocalViewData,
+} from './offlineStore';
 
 // Re-export CACHE_KEYS for convenience
 export { CACHE_KEYS } from './cacheKeys';
@@ -34,6 +43,10 @@ const CACHE_COLLECTION = 'appCache';
 const VIEWDATA_COLLECTION = 'viewData';
 const CACHE_PREFIX = 'cache:';
 
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && !navigator.onLine;
+}
+
 /** Migration mode: dual-write (write both), dual-read (read viewData first, fallback appCache), cutover (viewData only) */
 export const VIEWDATA_MIGRATION_MODE = (
   import.meta.env.VITE_VIEWDATA_MIGRATION_MODE || 'dual-read'
@@ -65,22 +78,24 @@ interface FirestoreCacheEntry<T> {
   lastUpdated?: Timestamp;
   version?: number; // Optional, for delta sync compatibility
   lastSnapshotAt?: number;
+  keys?: string[]; // Sheet keys behind the cached rows (delta sync integrity check)
 }
 
 /**
- * Get document reference for cache key
+ * Get document reference for cache key (sheet data keys are scoped to the active universe)
  */
 function getCacheDocRef(key: string) {
+  const scopedKey = scopeCacheKeyToActiveUniverse(key);
   // Remove 'cache:' prefix if present for cleaner document IDs
-  const docId = key.startsWith(CACHE_PREFIX) ? key.slice(CACHE_PREFIX.length) : key;
+  const docId = scopedKey.startsWith(CACHE_PREFIX) ? scopedKey.slice(CACHE_PREFIX.length) : scopedKey;
   return doc(db, CACHE_COLLECTION, docId);
 }
 
 /**
- * Get viewData document reference
+ * Get viewData document reference (scoped to the active universe)
  */
 function getViewDataDocRef(viewId: string) {
-  return doc(db, VIEWDATA_COLLECTION, viewId);
+  return doc(db, VIEWDATA_COLLECTION, scopeViewIdToActiveUniverse(viewId));
 }
 
 /**
@@ -91,6 +106,8 @@ export interface ViewDataPayload<T = unknown> {
   timestamp: number;
   ttl: number;
   schemaVersion: number;
+  /** SHEET_TRANSFORM_VERSION of the transforms that built the data (absent on docs written before it existed) */
+  transformVersion?: number;
   source: string;
   updatedBy: string;
   meta?: { lastSnapshotAt?: number };
@@ -143,6 +160,7 @@ export async function setViewData<T>(
     timestamp: now,
     ttl,
     schemaVersion: 1,
+    transformVersion: SHEET_TRANSFORM_VERSION,
     source: options?.source ?? 'client-refresh',
     updatedBy: options?.updatedBy ?? 'system',
   };
@@ -156,22 +174,96 @@ export async function setViewData<T>(
   }
 }
 
+export interface ViewDataWithFallbackResult<T> {
+  data: T;
+  /** 'local' = last good copy from IndexedDB (offline store) */
+  source: 'viewData' | 'appCache' | 'local';
+  timestamp?: number;
+}
+
+interface ViewDataReadOptions<T> {
+  fallback: () => Promise<T | null>;
+  mode?: 'dual-write' | 'dual-read' | 'cutover';
+}
+
+type ViewDataRevalidationListener = (result: ViewDataWithFallbackResult<unknown>) => void;
+
+/** viewId → listeners for remote payloads that replace an IndexedDB copy already served */
+const revalidationListeners = new Map<string, Set<ViewDataRevalidationListener>>();
+
+/**
+ * Called with the fresh remote payload of a view after getViewDataWithFallback served the local copy and
+ * Firestore answered with a newer one. Returns an unsubscribe function.
+ */
+export function subscribeToViewDataRevalidation<T>(
+  viewId: string,
+  listener: (result: ViewDataWithFallbackResult<T>) => void
+): () => void {
+  const listeners = revalidationListeners.get(viewId) ?? new Set<ViewDataRevalidationListener>();
+  listeners.add(listener as ViewDataRevalidationListener);
+  revalidationListeners.set(viewId, listeners);
+  return () => {
+    listeners.delete(listener as ViewDataRevalidationListener);
+    if (listeners.size === 0) revalidationListeners.delete(viewId);
+  };
+}
+
 /**
  * Get view data with dual-read fallback to appCache when in dual-read mode
  * - dual-write: read from appCache only (fallback)
  * - dual-read: read viewData first, fallback to appCache if missing/denied
  * - cutover: read viewData only, no fallback
+ *
+ * Offline-first (stale-while-revalidate): when the offline store (IndexedDB) has a copy it is returned at
+ * once, and the remote read runs in the background; a newer remote payload refreshes the local copy and is
+ * pushed to subscribeToViewDataRevalidation listeners. Without a local copy the remote result is awaited.
  * @param options.mode - Optional override for tests (default: VIEWDATA_MIGRATION_MODE from env)
  */
-export interface ViewDataWithFallbackResult<T> {
-  data: T;
-  source: 'viewData' | 'appCache';
-  timestamp?: number;
+export async function getViewDataWithFallback<T>(
+  viewId: string,
+  options: ViewDataReadOptions<T>
+): Promise<ViewDataWithFallbackResult<T> | null> {
+  const localKey = scopeViewIdToActiveUniverse(viewId);
+  const serve = (result: ViewDataWithFallbackResult<T> | null) => {
+    if (result) noteServedData(localKey, result.timestamp ?? Date.now());
+    return result;
+  };
+  const readLocal = async (): Promise<ViewDataWithFallbackResult<T> | null> => {
+    const local = await readLocalViewData<T>(localKey);
+    if (!local) return null;
+    logger.info('CACHE_SOURCE=local', { component: 'firestoreCacheService', operation: 'getViewDataWithFallback', viewId });
+    return { data: local.data, source: 'local', timestamp: local.timestamp };
+  };
+
+  if (isOffline()) return serve(await readLocal());
+
+  const remote = getRemoteViewData(viewId, options).then((result) => {
+    if (result) {
+      writeLocalViewData(localKey, result.data, result.timestamp ?? Date.now());
+    }
+    return result;
+  });
+  // Rejections are handled below
+  remote.catch(() => undefined);
+  const local = await readLocal();
+  if (!local) return serve(await remote);
+
+  remote
+    .then((result) => {
+      // Same build as the local copy, or the universe changed meanwhile: nothing to push
+      if (!result || result.timestamp === local.timestamp || scopeViewIdToActiveUniverse(viewId) !== localKey) return;
+      serve(result);
+      revalidationListeners.get(viewId)?.forEach((listener) => listener(result));
+    })
+    .catch((error: unknown) => {
+      logger.warn(`Remote read of "${viewId}" failed, keeping offline copy`, { component: 'firestoreCacheService', operation: 'getViewDataWithFallback', viewId, error });
+    });
+  return serve(local);
 }
 
-export async function getViewDataWithFallback<T>(
+async function getRemoteViewData<T>(
   viewId: string,
-  options: { fallback: () => Promise<T | null>; mode?: 'dual-write' | 'dual-read' | 'cutover' }
+  options: ViewDataReadOptions<T>
 ): Promise<ViewDataWithFallbackResult<T> | null> {
   const mode = options.mode ?? VIEWDATA_MIGRATION_MODE;
   if (mode === 'dual-write') {
@@ -315,6 +407,7 @@ export async function getCachedData<T>(key: string): Promise<T | null> {
  * @returns Promise resolving to delta cache entry with version info, or null if not found or expired
  */
 export async function getDeltaCacheEntry<T>(key: string): Promise<DeltaCacheEntry<T> | null> {
+  if (isOffline()) return getLocalDeltaCacheEntry<T>(key);
   try {
     const docRef = getCacheDocRef(key);
     const docSnap = await getDoc(docRef);
@@ -349,6 +442,7 @@ export async function getDeltaCacheEntry<T>(key: string): Promise<DeltaCacheEntr
         lastUpdated: entry.timestamp || now,
         timestamp: entry.timestamp,
         ttl: entry.ttl,
+        ...(entry.keys ? { keys: entry.keys } : {}),
       };
     }
     
@@ -360,10 +454,26 @@ export async function getDeltaCacheEntry<T>(key: string): Promise<DeltaCacheEntr
       key, 
       error 
     });
-    return null;
+    return getLocalDeltaCacheEntry<T>(key);
   }
 }
 
+/**
+ * Delta cache entry from the offline store (last entry written by setDeltaCacheEntry on this device)
+ */
+async function getLocalDeltaCacheEntry<T>(key: string): Promise<DeltaCacheEntry<T> | null> {
+  const local = await readLocalDeltaEntry<T>(scopeCacheKeyToActiveUniverse(key));
+  if (!local) return null;
+  return {
+    data: local.data,
+    version: local.version,
+    lastSnapshotAt: local.lastSnapshotAt,
+    lastUpdated: local.timestamp,
+    timestamp: local.timestamp,
+    ...(local.keys ? { keys: local.keys } : {}),
+  };
+}
+
 /**
  * Get last version from cache
  * 
@@ -454,13 +564,15 @@ export async function setCachedData<T>(key: string, data: T, ttl: number = DEFAU
  * @param version - Current version (changeId) from the server
  * @param isSnapshot - Whether this is a full snapshot (true) or incremental update (false)
  * @param ttl - TTL in ms (default: DEFAULT_TTL). Delta entries expire so cache can be pruned.
+ * @param keys - Sheet keys (KEY_COLUMN_NAME values) of the rows, used by the delta sync integrity check
  */
 export async function setDeltaCacheEntry<T>(
   key: string,
   data: T,
   version: number,
   isSnapshot: boolean = false,
-  ttl?: number
+  ttl?: number,
+  keys?: string[]
 ): Promise<void> {
   try {
     const docRef = getCacheDocRef(key);
@@ -477,8 +589,18 @@ export async function setDeltaCacheEntry<T>(
       ttl: effectiveTtl,
       lastSnapshotAt: isSnapshot ? now : (existing?.lastSnapshotAt || now),
       lastUpdated: serverTimestamp() as any, // Firestore will convert this
+      ...(keys ? { keys } : {}),
     };
     
+    // Local copy first: the Firestore write fails offline and for users without appCache write access
+    writeLocalDeltaEntry(scopeCacheKeyToActiveUniverse(key), {
+      data,
+      version,
+      lastSnapshotAt: entry.lastSnapshotAt ?? now,
+      timestamp: now,
+      ...(keys ? { keys } : {}),
+    });
+    
     await setDoc(docRef, entry, { merge: false });
   } catch (error) {
     logger.warn(`Failed to set delta cache entry for key "${key}"`, { 
@@ -0,0 +1,74 @@
+/**
+ * Industry Alias Service
+ *
+ * Loads and edits the industry alias table in appConfig/industryAliases: sheet spellings of an industry
+ * (normalized) mapped to an INDUSTRY_MAP key, so rows with a variant spelling still get threshold colors.
+ * Read by all users, written by admins. The daily score snapshot function reads the same document.
+ */
+
+import { deleteField, doc, onSnapshot, setDoc, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { INDUSTRY_MAP } from '../config/industryThresholdData';
+import { logger } from '../utils/logger';
+import { normalizeIndustryName } from '../utils/industryResolution';
+import type { IndustryAliasTable } from '../types/industryAlias';
+
+const COLLECTION_NAME = 'appConfig';
+const DOC_ID = 'industryAliases';
+
+export function parseIndustryAliases(raw: unknown): IndustryAliasTable {
+  const aliases: IndustryAliasTable = {};
+  if (!raw || typeof raw !== 'object') return aliases;
+  Object.entries(raw as Record<string, unknown>).forEach(([alias, key]) => {
+    const name = normalizeIndustryName(alias);
+    if (name !== '' && typeof key === 'string' && key in INDUSTRY_MAP) aliases[name] = key;
+  });
+  return aliases;
+}
+
+/**
+ * Subscribe to the alias table. Calls onChange with an empty table when the document is missing or
+ * cannot be read.
+ */
+export function subscribeToIndustryAliases(onChange: (aliases: IndustryAliasTable) => void): () => void {
+  const ref = doc(db, COLLECTION_NAME, DOC_ID);
+  return onSnapshot(
+    ref,
+    (snapshot) => onChange(snapshot.exists() ? parseIndustryAliases(snapshot.data().aliases) : {}),
+    (error) => {
+      logger.error('Error listening to industry aliases', error, {
+        component: 'industryAliasService',
+        operation: 'subscribeToIndustryAliases',
+      });
+      onChange({});
+    }
+  );
+}
+
+/** Map a sheet spelling to an industry (admin only). Returns the normalized alias. */
+export async function saveIndustryAlias(alias: string, industryKey: string, userId: string): Promise<string> {
+  const name = normalizeIndustryName(alias);
+  if (name === '') throw new Error('Alias is empty');
+  if (!(industryKey in INDUSTRY_MAP)) throw new Error(`Unknown industry: ${industryKey}`);
+
+  await setDoc(
+    doc(db, COLLECTION_NAME, DOC_ID),
+    { aliases: { [name]: industryKey }, updatedAt: Timestamp.now(), updatedBy: userId },
+    { merge: true }
+  );
+  logger.info(`Industry alias "${name}" → ${industryKey} saved`, {
+    component: 'industryAliasService',
+    operation: 'saveIndustryAlias',
+    userId,
+  });
+  return name;
+}
+
+/** Remove an alias (admin only) */
+export async function removeIndustryAlias(alias: string, userId: string): Promise<void> {
+  await setDoc(
+    doc(db, COLLECTION_NAME, DOC_ID),
+    { aliases: { [normalizeIndustryName(alias)]: deleteField() }, updatedAt: Timestamp.now(), updatedBy: userId },
+    { merge: true }
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * ISM Upload Service
+ *
+ * Uploaded ISM Manufacturing history, stored in appConfig/ismUpload and shared by all users.
+ * Uploaded months override the ISM sheet tab (see useIsmData).
+ */
+
+import { deleteDoc, doc, getDoc, serverTimestamp, setDoc, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import type { IsmReading, IsmUpload } from '../types/ism';
+
+const COLLECTION_NAME = 'appConfig';
+const DOC_ID = 'ismUpload';
+
+function toNullableNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function parseReading(raw: unknown): IsmReading | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.date !== 'string' || typeof r.pmi !== 'number') return null;
+  return {
+    date: r.date,
+    pmi: r.pmi,
+    newOrders: toNullableNumber(r.newOrders),
+    inventories: toNullableNumber(r.inventories),
+    prices: toNullableNumber(r.prices),
+  };
+}
+
+/**
+ * Load the uploaded history, null when nothing has been uploaded.
+ */
+export async function loadIsmUpload(): Promise<IsmUpload | null> {
+  try {
+    const snapshot = await getDoc(doc(db, COLLECTION_NAME, DOC_ID));
+    if (!snapshot.exists()) return null;
+    const data = snapshot.data();
+    const readings = Array.isArray(data.readings)
+      ? data.readings.map(parseReading).filter((r): r is IsmReading => r !== null)
+      : [];
+    return {
+      readings,
+      fileName: typeof data.fileName === 'string' ? data.fileName : null,
+      updatedBy: typeof data.updatedBy === 'string' ? data.updatedBy : null,
+      updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : null,
+    };
+  } catch (error: unknown) {
+    logger.error('Error loading ISM upload', error, {
+      component: 'ismUploadService',
+      operation: 'loadIsmUpload',
+    });
+    throw error;
+  }
+}
+
+/**
+ * Replace the uploaded history (admin only).
+ */
+export async function saveIsmUpload(readings: IsmReading[], fileName: string | null, userId: string): Promise<void> {
+  try {
+    await setDoc(doc(db, COLLECTION_NAME, DOC_ID), {
+      readings,
+      fileName,
+      updatedBy: userId,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error: unknown) {
+    logger.error('Error saving ISM upload', error, {
+      component: 'ismUploadService',
+      operation: 'saveIsmUpload',
+      userId,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Remove the uploaded history so only the sheet tab is used (admin only).
+ */
+export async function clearIsmUpload(userId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(db, COLLECTION_NAME, DOC_ID));
+  } catch (error: unknown) {
+    logger.error('Error clearing ISM upload', error, {
+      component: 'ismUploadService',
+      operation: 'clearIsmUpload',
+      userId,
+    });
+    throw error;
+  }
+}
@@ -7,7 +7,7 @@
 
 import { logger } from '../utils/logger';
 
-export type NotificationType = 'data-update' | 'error' | 'success' | 'info' | 'warning';
+export type NotificationType = 'data-update' | 'price-alert' | 'error' | 'success' | 'info' | 'warning';
 
 export interface Notification {
   id: string;
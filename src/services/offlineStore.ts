@@ -0,0 +1,234 @@
+/**
+ * Offline Store
+ *
+ * IndexedDB copy of the last good viewData payloads, delta sync state and entry/exit values, plus the queue of
+ * entry/exit saves made while offline and the data quality price baselines and reports. Reads are local-first
+ * (stale-while-revalidate): getViewDataWithFallback returns the local copy at once and revalidates against
+ * Firestore in the background, replacing the copy when Firestore has newer data
+ * (subscribeToViewDataRevalidation), and entry/exit values show the local copy until Firestore answers.
+ * Firestore stays the source of truth; offline, only the local copy is served. Every call resolves, also when
+ * IndexedDB is unavailable (private mode, tests), so callers never need a try/catch.
+ */
+
+import { logger } from '../utils/logger';
+import type { LocalDeltaEntry, LocalViewData, QueuedEntryExitEdit } from '../types/offline';
+import type { PriceBaselines, StoredDataQuality } from '../types/dataQuality';
+import type { EntryExitValuesForScore } from '../types/score';
+
+const DB_NAME = 'stock-score-offline';
+const DB_VERSION = 3;
+
+const STORES = {
+  VIEW_DATA: 'viewData',
+  DELTA_ENTRIES: 'deltaEntries',
+  ENTRY_EXIT: 'entryExit',
+  EDIT_QUEUE: 'editQueue',
+  PRICE_BASELINES: 'priceBaselines',
+  DATA_QUALITY: 'dataQuality',
+} as const;
+
+type StoreName = (typeof STORES)[keyof typeof STORES];
+
+/** The entryExit store holds a single record: the whole companyName → values map */
+const ENTRY_EXIT_RECORD_KEY = 'values';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of [
+          STORES.VIEW_DATA,
+          STORES.DELTA_ENTRIES,
+          STORES.ENTRY_EXIT,
+          STORES.PRICE_BASELINES,
+          STORES.DATA_QUALITY,
+        ]) {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        }
+        if (!db.objectStoreNames.contains(STORES.EDIT_QUEUE)) {
+          db.createObjectStore(STORES.EDIT_QUEUE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        logger.warn('Failed to open offline store', { component: 'offlineStore', operation: 'openDb', error: request.error });
+        resolve(null);
+      };
+    } catch (error) {
+      logger.warn('Failed to open offline store', { component: 'offlineStore', operation: 'openDb', error });
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+/**
+ * Run one request in its own transaction. Resolves with the request result once the transaction completes,
+ * or null when IndexedDB is unavailable or the transaction fails.
+ */
+async function runRequest<T>(
+  storeName: StoreName,
+  mode: 'readonly' | 'readwrite',
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> {
+  const db = await openDb();
+  if (!db) return null;
+
+  return new Promise((resolve) => {
+    const fail = (error: unknown) => {
+      logger.warn('Offline store request failed', { component: 'offlineStore', operation: 'runRequest', storeName, mode, error });
+      resolve(null);
+    };
+    try {
+      const transaction = db.transaction(storeName, mode);
+      const request = makeRequest(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result ?? null);
+      transaction.onerror = () => fail(transaction.error);
+      transaction.onabort = () => fail(transaction.error);
+    } catch (error) {
+      fail(error);
+    }
+  });
+}
+
+// --- Change notifications (OfflineIndicator) ---
+
+const listeners = new Set<() => void>();
+
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/** Called when the edit queue or the data on screen changes. Returns an unsubscribe function. */
+export function subscribeToOfflineStore(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// --- Age of the data on screen ---
+
+/** Build timestamp of the payload last served per (universe-scoped) view; kept in memory only */
+const servedTimestamps = new Map<string, number>();
+
+export function noteServedData(key: string, timestamp: number): void {
+  servedTimestamps.set(key, timestamp);
+  notifyListeners();
+}
+
+/** Oldest build timestamp among the payloads served this session, or null when nothing was served */
+export function getOldestServedDataTimestamp(): number | null {
+  return servedTimestamps.size > 0 ? Math.min(...servedTimestamps.values()) : null;
+}
+
+// --- viewData payloads ---
+
+export async function readLocalViewData<T>(key: string): Promise<LocalViewData<T> | null> {
+  return runRequest<LocalViewData<T> | undefined>(STORES.VIEW_DATA, 'readonly', (store) => store.get(key)).then(
+    (entry) => entry ?? null
+  );
+}
+
+export async function writeLocalViewData<T>(key: string, data: T, timestamp: number): Promise<void> {
+  const entry: LocalViewData<T> = { data, timestamp, savedAt: Date.now() };
+  await runRequest(STORES.VIEW_DATA, 'readwrite', (store) => store.put(entry, key));
+}
+
+// --- Delta sync state ---
+
+export async function readLocalDeltaEntry<T>(key: string): Promise<LocalDeltaEntry<T> | null> {
+  return runRequest<LocalDeltaEntry<T> | undefined>(STORES.DELTA_ENTRIES, 'readonly', (store) => store.get(key)).then(
+    (entry) => entry ?? null
+  );
+}
+
+export async function writeLocalDeltaEntry<T>(key: string, entry: LocalDeltaEntry<T>): Promise<void> {
+  await runRequest(STORES.DELTA_ENTRIES, 'readwrite', (store) => store.put(entry, key));
+}
+
+// --- Entry/exit values ---
+
+export async function readLocalEntryExit(): Promise<Record<string, EntryExitValuesForScore> | null> {
+  return runRequest<Record<string, EntryExitValuesForScore> | undefined>(STORES.ENTRY_EXIT, 'readonly', (store) =>
+    store.get(ENTRY_EXIT_RECORD_KEY)
+  ).then((values) => values ?? null);
+}
+
+export async function writeLocalEntryExit(values: Record<string, EntryExitValuesForScore>): Promise<void> {
+  await runRequest(STORES.ENTRY_EXIT, 'readwrite', (store) => store.put(values, ENTRY_EXIT_RECORD_KEY));
+}
+
+// --- Data quality price baselines (key: universe id) ---
+
+export async function readLocalPriceBaselines(universeId: string): Promise<PriceBaselines | null> {
+  return runRequest<PriceBaselines | undefined>(STORES.PRICE_BASELINES, 'readonly', (store) => store.get(universeId)).then(
+    (baselines) => baselines ?? null
+  );
+}
+
+export async function writeLocalPriceBaselines(universeId: string, baselines: PriceBaselines): Promise<void> {
+  await runRequest(STORES.PRICE_BASELINES, 'readwrite', (store) => store.put(baselines, universeId));
+}
+
+// --- Data quality reports (key: universe id) ---
+
+export async function readLocalDataQuality(universeId: string): Promise<StoredDataQuality | null> {
+  return runRequest<StoredDataQuality | undefined>(STORES.DATA_QUALITY, 'readonly', (store) => store.get(universeId)).then(
+    (stored) => stored ?? null
+  );
+}
+
+export async function writeLocalDataQuality(universeId: string, stored: StoredDataQuality): Promise<void> {
+  await runRequest(STORES.DATA_QUALITY, 'readwrite', (store) => store.put(stored, universeId));
+}
+
+// --- Offline edit queue ---
+
+/** Queue an entry/exit save. Returns false when it could not be stored. */
+export async function enqueueEdit(edit: Omit<QueuedEntryExitEdit, 'id'>): Promise<boolean> {
+  const id = await runRequest(STORES.EDIT_QUEUE, 'readwrite', (store) => store.add(edit));
+  if (id === null) return false;
+  notifyListeners();
+  return true;
+}
+
+/** Queued saves, oldest first */
+export async function getQueuedEdits(): Promise<QueuedEntryExitEdit[]> {
+  const edits = await runRequest<QueuedEntryExitEdit[]>(STORES.EDIT_QUEUE, 'readonly', (store) => store.getAll());
+  return edits ?? [];
+}
+
+export async function getQueuedEditCount(): Promise<number> {
+  return (await runRequest(STORES.EDIT_QUEUE, 'readonly', (store) => store.count())) ?? 0;
+}
+
+export async function removeQueuedEdits(ids: number[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  if (!db) return;
+
+  await new Promise<void>((resolve) => {
+    try {
+      const transaction = db.transaction(STORES.EDIT_QUEUE, 'readwrite');
+      const store = transaction.objectStore(STORES.EDIT_QUEUE);
+      ids.forEach((id) => store.delete(id));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => resolve();
+      transaction.onabort = () => resolve();
+    } catch (error) {
+      logger.warn('Failed to remove queued edits', { component: 'offlineStore', operation: 'removeQueuedEdits', error });
+      resolve();
+    }
+  });
+  notifyListeners();
+}
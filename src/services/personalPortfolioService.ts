@@ -9,18 +9,33 @@
 import { doc, setDoc, getDoc, Timestamp } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import { logger } from '../utils/logger';
-import { PortfolioItem, PortfolioPosition, UserPortfolio } from '../types/portfolio';
+import { inferCurrencyFromTicker } from '../../shared/portfolioSnapshot';
+import {
+  CostBasisMethod,
+  PortfolioItem,
+  PortfolioPerformanceSettings,
+  PortfolioPosition,
+  PortfolioTransaction,
+  UserPortfolio,
+} from '../types/portfolio';
 import { EntryExitValues } from '../contexts/EntryExitContext';
 import { getExchangeRate } from './currencyService';
 
 const COLLECTION_NAME = 'userPortfolios';
 const LEGACY_BROKER = '—';
+const QUANTITY_EPSILON = 1e-9;
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'average';
+
+export const DEFAULT_PERFORMANCE_SETTINGS: PortfolioPerformanceSettings = {
+  benchmarkTicker: null,
+};
 
 /**
- * Normalize a portfolio item: if it has no positions, create one from legacy quantity/investedAmount/investmentCurrency.
+ * Normalize a portfolio item: if it has no positions and no ledger, create one from legacy quantity/investedAmount/investmentCurrency.
  */
 export function normalizePortfolioItem(item: PortfolioItem): PortfolioItem {
-  if (item.positions && item.positions.length > 0) {
+  if ((item.positions && item.positions.length > 0) || (item.transactions && item.transactions.length > 0)) {
     return item;
   }
   return {
@@ -36,8 +51,263 @@ export function normalizePortfolioItem(item: PortfolioItem): PortfolioItem {
   };
 }
 
+export function createTransactionId(): string {
+  return `tx-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/** Today's date as YYYY-MM-DD (local time), used as default trade date */
+export function toTradeDate(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Open lot: remaining shares and their total cost (local currency, USD and base currency at trade-time FX) */
+interface Lot {
+  quantity: number;
+  costLocal: number;
+  costUSD: number;
+  costBase: number;
+}
+
+interface LotGroup {
+  broker: string;
+  currency: string;
+  lots: Lot[];
+}
+
+/** Holding derived from a transaction ledger. All USD amounts use the FX rate stored on each transaction. */
+export interface PortfolioHolding {
+  quantity: number;
+  /** Open positions per broker and currency; investedAmount is the remaining cost basis in that currency */
+  positions: PortfolioPosition[];
+  costBasisUSD: number;
+  averagePriceUSD: number | null;
+  realizedTradesUSD: number;
+  dividendsUSD: number;
+  feesUSD: number;
+  /** Realized trades + dividends − standalone fees */
+  realizedProfitLossUSD: number;
+  /** Cost basis and realized P/L in base currency; null unless a trade-date base rate was given */
+  costBasisBase: number | null;
+  realizedProfitLossBase: number | null;
+  /** Sells for more shares than were held at that broker on the trade date */
+  oversoldTransactionIds: string[];
+}
+
+/** Ledger in trade order; transactions on the same date keep their entry order. */
+export function sortTransactions(transactions: PortfolioTransaction[]): PortfolioTransaction[] {
+  return transactions
+    .map((tx, index) => ({ tx, index }))
+    .sort((a, b) => a.tx.tradeDate.localeCompare(b.tx.tradeDate) || a.index - b.index)
+    .map(({ tx }) => tx);
+}
+
+function lotGroupKey(broker: string, currency: string): string {
+  return `${broker.trim().toLowerCase()}|${currency.trim().toUpperCase()}`;
+}
+
 /**
- * Get user portfolio from Firestore
+ * Remove `quantity` shares from a group's lots and return the cost removed.
+ * FIFO consumes the oldest lots first; average cost keeps a single pooled lot and removes a proportional share.
+ */
+function removeFromLots(group: LotGroup, quantity: number): { costLocal: number; costUSD: number; costBase: number } {
+  let remaining = quantity;
+  let costLocal = 0;
+  let costUSD = 0;
+  let costBase = 0;
+  while (remaining > QUANTITY_EPSILON && group.lots.length > 0) {
+    const lot = group.lots[0];
+    const take = Math.min(lot.quantity, remaining);
+    const share = take / lot.quantity;
+    costLocal += lot.costLocal * share;
+    costUSD += lot.costUSD * share;
+    costBase += lot.costBase * share;
+    lot.quantity -= take;
+    lot.costLocal -= lot.costLocal * share;
+    lot.costUSD -= lot.costUSD * share;
+    lot.costBase -= lot.costBase * share;
+    remaining -= take;
+    if (lot.quantity <= QUANTITY_EPSILON) group.lots.shift();
+  }
+  return { costLocal, costUSD, costBase };
+}
+
+/**
+ * Derive positions, cost basis and realized P/L from a ledger.
+ * Sells are matched against lots at the same broker and currency; selling more than is held only realizes the held shares.
+ * Buy commissions are added to the cost basis, sell commissions reduce the proceeds.
+ * `rateToBase` (units of base currency per 1 unit of the transaction currency on its trade date)
+ * enables the base-currency cost basis and realized P/L.
+ */
+export function deriveHolding(
+  transactions: PortfolioTransaction[],
+  method: CostBasisMethod,
+  rateToBase?: (tx: PortfolioTransaction) => number
+): PortfolioHolding {
+  const groups = new Map<string, LotGroup>();
+  let realizedTradesUSD = 0;
+  let dividendsUSD = 0;
+  let feesUSD = 0;
+  let realizedBase = 0;
+  const oversoldTransactionIds: string[] = [];
+
+  const groupFor = (tx: PortfolioTransaction): LotGroup => {
+    const currency = (tx.currency || 'USD').toUpperCase();
+    const key = lotGroupKey(tx.broker, currency);
+    let group = groups.get(key);
+    if (!group) {
+      group = { broker: tx.broker.trim(), currency, lots: [] };
+      groups.set(key, group);
+    }
+    return group;
+  };
+
+  for (const tx of sortTransactions(transactions)) {
+    const fx = tx.fxRateToUSD;
+    const fxBase = rateToBase ? rateToBase(tx) : 0;
+    const fee = tx.fee ?? 0;
+    switch (tx.type) {
+      case 'buy': {
+        if (tx.quantity <= 0) break;
+        const group = groupFor(tx);
+        const costLocal = tx.quantity * tx.price + fee;
+        const lot: Lot = { quantity: tx.quantity, costLocal, costUSD: costLocal * fx, costBase: costLocal * fxBase };
+        if (method === 'average' && group.lots.length > 0) {
+          const pooled = group.lots[0];
+          pooled.quantity += lot.quantity;
+          pooled.costLocal += lot.costLocal;
+          pooled.costUSD += lot.costUSD;
+          pooled.costBase += lot.costBase;
+        } else {
+          group.lots.push(lot);
+        }
+        break;
+      }
+      case 'sell': {
+        if (tx.quantity <= 0) break;
+        const group = groupFor(tx);
+        const held = group.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+        const sold = Math.min(tx.quantity, held);
+        if (tx.quantity - held > QUANTITY_EPSILON) oversoldTransactionIds.push(tx.id);
+        if (sold <= QUANTITY_EPSILON) {
+          feesUSD += fee * fx;
+          realizedBase -= fee * fxBase;
+          break;
+        }
+        const removed = removeFromLots(group, sold);
+        realizedTradesUSD += (sold * tx.price - fee) * fx - removed.costUSD;
+        realizedBase += (sold * tx.price - fee) * fxBase - removed.costBase;
+        break;
+      }
+      case 'dividend':
+        dividendsUSD += (tx.amount ?? 0) * fx;
+        realizedBase += (tx.amount ?? 0) * fxBase;
+        break;
+      case 'fee':
+        feesUSD += (tx.amount ?? 0) * fx;
+        realizedBase -= (tx.amount ?? 0) * fxBase;
+        break;
+      case 'split': {
+        const ratio = tx.splitRatio ?? 0;
+        if (ratio <= 0) break;
+        for (const lot of groupFor(tx).lots) lot.quantity *= ratio;
+        break;
+      }
+    }
+  }
+
+  const positions: PortfolioPosition[] = [];
+  let quantity = 0;
+  let costBasisUSD = 0;
+  let costBasisBase = 0;
+  for (const group of groups.values()) {
+    const groupQty = group.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    if (groupQty <= QUANTITY_EPSILON) continue;
+    const groupCostLocal = group.lots.reduce((sum, lot) => sum + lot.costLocal, 0);
+    quantity += groupQty;
+    costBasisUSD += group.lots.reduce((sum, lot) => sum + lot.costUSD, 0);
+    costBasisBase += group.lots.reduce((sum, lot) => sum + lot.costBase, 0);
+    positions.push({
+      broker: group.broker,
+      quantity: groupQty,
+      investedAmount: groupCostLocal > 0 ? groupCostLocal : null,
+      investmentCurrency: group.currency,
+    });
+  }
+
+  return {
+    quantity,
+    positions,
+    costBasisUSD,
+    averagePriceUSD: quantity > QUANTITY_EPSILON ? costBasisUSD / quantity : null,
+    realizedTradesUSD,
+    dividendsUSD,
+    feesUSD,
+    realizedProfitLossUSD: realizedTradesUSD + dividendsUSD - feesUSD,
+    costBasisBase: rateToBase ? costBasisBase : null,
+    realizedProfitLossBase: rateToBase ? realizedBase : null,
+    oversoldTransactionIds,
+  };
+}
+
+/**
+ * Apply ledger-derived positions, quantity, averagePrice and realized P/L to an item.
+ * Items without a ledger are returned unchanged.
+ */
+export function applyLedgerToItem(item: PortfolioItem, method: CostBasisMethod): PortfolioItem {
+  if (!item.transactions || item.transactions.length === 0) {
+    return item;
+  }
+  const holding = deriveHolding(item.transactions, method);
+  return {
+    ...item,
+    quantity: holding.quantity,
+    averagePrice: holding.averagePriceUSD,
+    positions: holding.positions,
+    realizedProfitLoss: holding.realizedProfitLossUSD,
+  };
+}
+
+/**
+ * Build opening buy transactions from legacy aggregate positions.
+ * Invested amounts are converted at today's FX rate (as the old aggregate average did);
+ * positions without an invested amount open at the stored USD average price.
+ */
+export async function transactionsFromPositions(
+  item: PortfolioItem,
+  tradeDate: string
+): Promise<PortfolioTransaction[]> {
+  const transactions: PortfolioTransaction[] = [];
+  for (const position of item.positions ?? []) {
+    const qty = position.quantity || 0;
+    if (qty <= 0) continue;
+    const ccy = (position.investmentCurrency || 'USD').toUpperCase();
+    const amt = position.investedAmount;
+    const rate = amt != null && amt > 0 ? await getExchangeRate(ccy, 'USD') : null;
+    const opening =
+      amt != null && amt > 0 && rate != null
+        ? { price: amt / qty, currency: ccy, fxRateToUSD: rate }
+        : { price: item.averagePrice ?? 0, currency: 'USD', fxRateToUSD: 1 };
+    transactions.push({
+      id: createTransactionId(),
+      type: 'buy',
+      broker: position.broker,
+      tradeDate,
+      quantity: qty,
+      fee: null,
+      amount: null,
+      splitRatio: null,
+      note: null,
+      ...opening,
+    });
+  }
+  return transactions;
+}
+
+/**
+ * Get user portfolio from Firestore.
+ * Legacy items (positions only) get an opening-balance ledger dated at the last portfolio update.
  */
 export async function getUserPortfolio(userId: string): Promise<UserPortfolio | null> {
   try {
@@ -50,11 +320,29 @@ export async function getUserPortfolio(userId: string): Promise<UserPortfolio |
 
     const data = docSnap.data();
     const raw = (data.portfolio as PortfolioItem[]) || [];
-    const portfolio = raw.map(normalizePortfolioItem);
+    const updatedAt = (data.updatedAt as Timestamp).toDate();
+    const costBasisMethod = (data.costBasisMethod as CostBasisMethod | undefined) ?? DEFAULT_COST_BASIS_METHOD;
+    const portfolio = await Promise.all(
+      raw.map(async (rawItem) => {
+        const item = normalizePortfolioItem(rawItem);
+        if (item.transactions && item.transactions.length > 0) {
+          return applyLedgerToItem(item, costBasisMethod);
+        }
+        const transactions = await transactionsFromPositions(item, toTradeDate(updatedAt));
+        return applyLedgerToItem({ ...item, transactions }, costBasisMethod);
+      })
+    );
     return {
       userId,
       portfolio,
-      updatedAt: (data.updatedAt as Timestamp).toDate(),
+      costBasisMethod,
+      instrumentMappings: (data.instrumentMappings as Record<string, string> | undefined) ?? {},
+      performanceSettings: {
+        benchmarkTicker:
+          (data.performanceSettings as Partial<PortfolioPerformanceSettings> | undefined)?.benchmarkTicker ??
+          DEFAULT_PERFORMANCE_SETTINGS.benchmarkTicker,
+      },
+      updatedAt,
     };
   } catch (error) {
     if (error instanceof Error && error.message.includes('permission')) {
@@ -77,19 +365,24 @@ export async function getUserPortfolio(userId: string): Promise<UserPortfolio |
 }
 
 /**
- * Save user portfolio to Firestore
+ * Save user portfolio to Firestore. The cost basis method is only written when given.
  */
 export async function saveUserPortfolio(
   userId: string,
-  portfolio: PortfolioItem[]
+  portfolio: PortfolioItem[],
+  costBasisMethod?: CostBasisMethod
 ): Promise<void> {
   try {
     const docRef = doc(db, COLLECTION_NAME, userId);
     
-    const portfolioData: Omit<UserPortfolio, 'updatedAt'> & { updatedAt: Timestamp } = {
+    const portfolioData: Omit<UserPortfolio, 'updatedAt' | 'costBasisMethod' | 'instrumentMappings' | 'performanceSettings'> & {
+      updatedAt: Timestamp;
+      costBasisMethod?: CostBasisMethod;
+    } = {
       userId,
       portfolio,
       updatedAt: Timestamp.fromDate(new Date()),
+      ...(costBasisMethod ? { costBasisMethod } : {}),
     };
 
     await setDoc(docRef, portfolioData, { merge: true });
@@ -121,52 +414,104 @@ export async function saveUserPortfolio(
 }
 
 /**
- * Total quantity from positions.
+ * Save broker import instrument mappings (merged into the portfolio document).
  */
-function totalQuantityFromPositions(positions: PortfolioPosition[]): number {
-  return positions.reduce((sum, p) => sum + (p.quantity || 0), 0);
+export async function saveInstrumentMappings(
+  userId: string,
+  instrumentMappings: Record<string, string>
+): Promise<void> {
+  try {
+    const docRef = doc(db, COLLECTION_NAME, userId);
+    await setDoc(docRef, { instrumentMappings }, { merge: true });
+  } catch (error) {
+    logger.error('Error saving instrument mappings', error, {
+      component: 'personalPortfolioService',
+      operation: 'saveInstrumentMappings',
+      userId,
+    });
+    throw error;
+  }
 }
 
-/**
- * Compute average price in USD from positions (async due to exchange rates).
- */
-export async function computeAveragePriceUSD(
-  positions: PortfolioPosition[]
-): Promise<number | null> {
-  let totalInvestedUSD = 0;
-  let totalQty = 0;
-  for (const p of positions) {
-    const qty = p.quantity || 0;
-    if (qty <= 0) continue;
-    totalQty += qty;
-    const amt = p.investedAmount;
-    const ccy = (p.investmentCurrency || 'USD').toUpperCase();
-    if (amt != null && amt > 0) {
-      const rate = ccy === 'USD' ? 1 : await getExchangeRate(ccy, 'USD');
-      if (rate != null) totalInvestedUSD += amt * rate;
-    }
-  }
-  if (totalQty <= 0) return null;
-  return totalInvestedUSD / totalQty;
+/** Imported ledger entries for one Score Board ticker */
+export interface PortfolioImportGroup {
+  ticker: string;
+  companyName: string;
+  currency: string;
+  price: number | null;
+  transactions: PortfolioTransaction[];
+}
+
+export interface PortfolioDiffRow {
+  ticker: string;
+  companyName: string;
+  status: 'added' | 'changed';
+  quantityBefore: number;
+  quantityAfter: number;
+  averagePriceBefore: number | null;
+  averagePriceAfter: number | null;
+  newTransactions: number;
+  /** Some sells exceed the holding (e.g. earlier buys are missing from the statement) */
+  oversold: boolean;
+}
+
+export interface PortfolioImportPreview {
+  portfolio: PortfolioItem[];
+  diff: PortfolioDiffRow[];
+  /** Imported transactions already in the ledger (same import id) */
+  duplicateCount: number;
 }
 
 /**
- * Apply aggregated quantity and averagePrice to item from its positions.
+ * Merge imported transactions into a portfolio without saving, and describe the change per ticker.
  */
-async function applyAggregatesToItem(item: PortfolioItem): Promise<PortfolioItem> {
-  const positions = item.positions && item.positions.length > 0 ? item.positions : [];
-  const quantity = totalQuantityFromPositions(positions);
-  const averagePrice = await computeAveragePriceUSD(positions);
-  return {
-    ...item,
-    quantity,
-    averagePrice,
-    positions,
-  };
+export function previewPortfolioImport(
+  portfolio: PortfolioItem[],
+  groups: PortfolioImportGroup[],
+  method: CostBasisMethod
+): PortfolioImportPreview {
+  const next = [...portfolio];
+  const diff: PortfolioDiffRow[] = [];
+  let duplicateCount = 0;
+
+  for (const group of groups) {
+    const index = next.findIndex((p) => p.ticker.toLowerCase() === group.ticker.toLowerCase());
+    const existing = index >= 0 ? next[index] : null;
+    const knownIds = new Set((existing?.transactions ?? []).map((tx) => tx.id));
+    const fresh = group.transactions.filter((tx) => !knownIds.has(tx.id));
+    duplicateCount += group.transactions.length - fresh.length;
+    if (fresh.length === 0) continue;
+
+    const base: PortfolioItem = existing ?? {
+      ticker: group.ticker,
+      companyName: group.companyName,
+      quantity: 0,
+      currency: group.currency,
+      price: group.price,
+      averagePrice: null,
+    };
+    const updated = applyLedgerToItem({ ...base, transactions: [...(base.transactions ?? []), ...fresh] }, method);
+    if (index >= 0) next[index] = updated;
+    else next.push(updated);
+
+    diff.push({
+      ticker: group.ticker,
+      companyName: group.companyName,
+      status: existing ? 'changed' : 'added',
+      quantityBefore: existing?.quantity ?? 0,
+      quantityAfter: updated.quantity,
+      averagePriceBefore: existing?.averagePrice ?? null,
+      averagePriceAfter: updated.averagePrice,
+      newTransactions: fresh.length,
+      oversold: deriveHolding(updated.transactions ?? [], method).oversoldTransactionIds.length > 0,
+    });
+  }
+
+  return { portfolio: next, diff, duplicateCount };
 }
 
 /**
- * Add a portfolio item (with at least one position). Same ticker + same broker: merge into that position; else append position.
+ * Add transactions for a ticker. An existing item with the same ticker gets the transactions appended to its ledger.
  */
 export async function addPortfolioItem(
   userId: string,
@@ -174,49 +519,23 @@ export async function addPortfolioItem(
 ): Promise<void> {
   const currentPortfolio = await getUserPortfolio(userId);
   const portfolio = currentPortfolio?.portfolio || [];
-  const newPositions = item.positions && item.positions.length > 0
-    ? [...item.positions]
-    : [{
-        broker: LEGACY_BROKER,
-        quantity: item.quantity,
-        investedAmount: item.investedAmount ?? null,
-        investmentCurrency: item.investmentCurrency ?? 'USD',
-      }];
+  const method = currentPortfolio?.costBasisMethod ?? DEFAULT_COST_BASIS_METHOD;
+  const newTransactions = item.transactions && item.transactions.length > 0
+    ? item.transactions
+    : await transactionsFromPositions(normalizePortfolioItem(item), toTradeDate());
 
   const existingIndex = portfolio.findIndex(
     (p) => p.ticker.toLowerCase() === item.ticker.toLowerCase()
   );
 
-  let nextItem: PortfolioItem;
   if (existingIndex >= 0) {
     const existing = portfolio[existingIndex];
-    const positions = [...(existing.positions || [])];
-    for (const newPos of newPositions) {
-      const sameBroker = positions.find(
-        (p) => p.broker.trim().toLowerCase() === newPos.broker.trim().toLowerCase()
-      );
-      const sameCurrency =
-        (sameBroker?.investmentCurrency || 'USD').toUpperCase() ===
-        (newPos.investmentCurrency || 'USD').toUpperCase();
-      if (sameBroker && sameCurrency) {
-        sameBroker.quantity += newPos.quantity;
-        sameBroker.investedAmount =
-          (sameBroker.investedAmount ?? 0) + (newPos.investedAmount ?? 0);
-      } else {
-        positions.push({ ...newPos });
-      }
-    }
-    nextItem = await applyAggregatesToItem({
-      ...existing,
-      positions,
-    });
-    portfolio[existingIndex] = nextItem;
+    portfolio[existingIndex] = applyLedgerToItem(
+      { ...existing, transactions: [...(existing.transactions ?? []), ...newTransactions] },
+      method
+    );
   } else {
-    nextItem = await applyAggregatesToItem({
-      ...item,
-      positions: newPositions,
-    });
-    portfolio.push(nextItem);
+    portfolio.push(applyLedgerToItem({ ...item, transactions: newTransactions }, method));
   }
 
   await saveUserPortfolio(userId, portfolio);
@@ -242,7 +561,7 @@ export async function removePortfolioItem(
 }
 
 /**
- * Update a portfolio item. If updates include positions, quantity and averagePrice are recomputed.
+ * Update a portfolio item. If updates include transactions, positions, quantity and averagePrice are re-derived.
  */
 export async function updatePortfolioItem(
   userId: string,
@@ -254,21 +573,46 @@ export async function updatePortfolioItem(
     return;
   }
 
-  const portfolio = await Promise.all(
-    currentPortfolio.portfolio.map(async (p) => {
-      if (p.ticker.toLowerCase() !== ticker.toLowerCase()) {
-        return p;
-      }
-      const merged = { ...p, ...updates };
-      if (merged.positions && merged.positions.length > 0) {
-        return applyAggregatesToItem(merged);
-      }
-      return merged;
-    })
-  );
+  const portfolio = currentPortfolio.portfolio.map((p) => {
+    if (p.ticker.toLowerCase() !== ticker.toLowerCase()) {
+      return p;
+    }
+    return applyLedgerToItem({ ...p, ...updates }, currentPortfolio.costBasisMethod);
+  });
 
   await saveUserPortfolio(userId, portfolio);
 }
+/**
+ * Save the performance panel's benchmark (merged into the portfolio document).
+ */
+export async function savePerformanceSettings(
+  userId: string,
+  performanceSettings: PortfolioPerformanceSettings
+): Promise<void> {
+  try {
+    const docRef = doc(db, COLLECTION_NAME, userId);
+    await setDoc(docRef, { performanceSettings }, { merge: true });
+  } catch (error) {
+    logger.error('Error saving performance settings', error, {
+      component: 'personalPortfolioService',
+      operation: 'savePerformanceSettings',
+      userId,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Switch cost basis method and re-derive every item's average price and realized P/L.
+ */
+export async function setCostBasisMethod(
+  userId: string,
+  method: CostBasisMethod
+): Promise<void> {
+  const currentPortfolio = await getUserPortfolio(userId);
+  const portfolio = (currentPortfolio?.portfolio ?? []).map((item) => applyLedgerToItem(item, method));
+  await saveUserPortfolio(userId, portfolio, method);
+}
 
 /**
  * Get currency for a stock from EntryExitValues
@@ -287,17 +631,6 @@ export async function updatePortfolioItem(
  * // Returns 'USD' or the currency from EntryExitValues
  * ```
  */
-/** Nasdaq Nordic ticker suffixes that typically trade in SEK */
-const SEK_TICKER_SUFFIXES = ['-B', '-A'];
-
-function inferCurrencyFromTicker(ticker: string): string {
-  const upper = ticker.toUpperCase();
-  if (SEK_TICKER_SUFFIXES.some((s) => upper.endsWith(s))) {
-    return 'SEK';
-  }
-  return 'USD';
-}
-
 export function getCurrencyForStock(
   ticker: string,
   companyName: string,
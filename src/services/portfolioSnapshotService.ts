@@ -0,0 +1,113 @@
+/**
+ * Portfolio Snapshot Service
+ *
+ * Daily valuation snapshots of a user's portfolio in USD and in the chosen base currency,
+ * stored in userPortfolios/{userId}/snapshots/{YYYY-MM-DD}. The dailyPortfolioSnapshot Cloud
+ * Function writes them for every portfolio; the Personal Portfolio view only writes today's
+ * snapshot when the scheduled one is missing, with the same valuation (shared/portfolioSnapshot).
+ */
+
+import { collection, doc, getDocs, limit, orderBy, query, setDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import { getExchangeRate } from './currencyService';
+import { toTradeDate } from './personalPortfolioService';
+import { valuePortfolio, type SnapshotHolding } from '../../shared/portfolioSnapshot';
+import type { PortfolioSnapshot } from '../types/portfolio';
+
+export { PORTFOLIO_BASE_CURRENCIES, toSnapshotHoldings, type SnapshotHolding } from '../../shared/portfolioSnapshot';
+
+const COLLECTION_NAME = 'userPortfolios';
+const SNAPSHOTS_SUBCOLLECTION = 'snapshots';
+
+/** Number of daily snapshots loaded for the performance chart */
+export const DEFAULT_PORTFOLIO_SNAPSHOT_DAYS = 1100;
+
+/**
+ * Value the holdings (and price the benchmark) in USD and base currency with currencyService rates.
+ * Holdings without a price or FX rate are listed in missingPrices and left out of the value.
+ */
+export async function buildPortfolioSnapshot(
+  holdings: SnapshotHolding[],
+  benchmark: SnapshotHolding | null,
+  baseCurrency: string,
+  date: string = toTradeDate()
+): Promise<PortfolioSnapshot | null> {
+  return valuePortfolio(holdings, benchmark, baseCurrency, date, getExchangeRate);
+}
+
+function toNumberRecord(raw: unknown): Record<string, number> {
+  const record: Record<string, number> = {};
+  if (raw && typeof raw === 'object') {
+    for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+      if (typeof value === 'number') record[key] = value;
+    }
+  }
+  return record;
+}
+
+function parseSnapshot(raw: Record<string, unknown>): PortfolioSnapshot | null {
+  if (
+    typeof raw.date !== 'string' ||
+    typeof raw.valueUSD !== 'number' ||
+    typeof raw.valueBase !== 'number' ||
+    typeof raw.usdToBase !== 'number'
+  ) {
+    return null;
+  }
+  return {
+    date: raw.date,
+    valueUSD: raw.valueUSD,
+    baseCurrency: typeof raw.baseCurrency === 'string' ? raw.baseCurrency : 'USD',
+    usdToBase: raw.usdToBase,
+    valueBase: raw.valueBase,
+    usdRates: toNumberRecord(raw.usdRates),
+    pricesUSD: toNumberRecord(raw.pricesUSD),
+    missingPrices: Array.isArray(raw.missingPrices)
+      ? raw.missingPrices.filter((t): t is string => typeof t === 'string')
+      : [],
+  };
+}
+
+/**
+ * Write (or overwrite) the snapshot for its date.
+ */
+export async function savePortfolioSnapshot(userId: string, snapshot: PortfolioSnapshot): Promise<void> {
+  try {
+    const docRef = doc(db, COLLECTION_NAME, userId, SNAPSHOTS_SUBCOLLECTION, snapshot.date);
+    await setDoc(docRef, snapshot);
+  } catch (error: unknown) {
+    logger.error('Error saving portfolio snapshot', error, {
+      component: 'portfolioSnapshotService',
+      operation: 'savePortfolioSnapshot',
+      userId,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Load the most recent snapshots, oldest first.
+ */
+export async function loadPortfolioSnapshots(
+  userId: string,
+  days: number = DEFAULT_PORTFOLIO_SNAPSHOT_DAYS
+): Promise<PortfolioSnapshot[]> {
+  try {
+    const snapshotsRef = collection(db, COLLECTION_NAME, userId, SNAPSHOTS_SUBCOLLECTION);
+    const snapshot = await getDocs(query(snapshotsRef, orderBy('date', 'desc'), limit(days)));
+    const snapshots: PortfolioSnapshot[] = [];
+    snapshot.forEach((docSnap) => {
+      const parsed = parseSnapshot(docSnap.data());
+      if (parsed) snapshots.push(parsed);
+    });
+    return snapshots.reverse();
+  } catch (error: unknown) {
+    logger.error('Error loading portfolio snapshots', error, {
+      component: 'portfolioSnapshotService',
+      operation: 'loadPortfolioSnapshots',
+      userId,
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Price Alert Service
+ *
+ * Stores each user's price alerts in priceAlerts/{userId} as a single `alerts` list.
+ */
+
+import { doc, setDoc, getDoc, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import { isObject, isString } from '../utils/typeGuards';
+import type { PriceAlert } from '../types/priceAlert';
+
+const COLLECTION_NAME = 'priceAlerts';
+
+/** Upper bound so one user cannot grow the document without limit */
+export const MAX_PRICE_ALERTS = 200;
+
+function isPriceAlert(value: unknown): value is PriceAlert {
+  return (
+    isObject(value) &&
+    isString(value.id) &&
+    isString(value.ticker) &&
+    isObject(value.condition) &&
+    isString(value.condition.type) &&
+    typeof value.enabled === 'boolean'
+  );
+}
+
+/**
+ * Get a user's alerts. Returns an empty list when none are stored or on read errors.
+ */
+export async function getPriceAlerts(userId: string): Promise<PriceAlert[]> {
+  try {
+    const docSnap = await getDoc(doc(db, COLLECTION_NAME, userId));
+    if (!docSnap.exists()) {
+      return [];
+    }
+    const raw = docSnap.data().alerts;
+    return Array.isArray(raw) ? raw.filter(isPriceAlert) : [];
+  } catch (error) {
+    logger.error('Error getting price alerts', error, {
+      component: 'priceAlertService',
+      operation: 'getPriceAlerts',
+      userId,
+    });
+    return [];
+  }
+}
+
+/**
+ * Replace a user's alerts.
+ */
+export async function savePriceAlerts(userId: string, alerts: PriceAlert[]): Promise<void> {
+  if (alerts.length > MAX_PRICE_ALERTS) {
+    throw new Error(`Too many alerts (max ${MAX_PRICE_ALERTS})`);
+  }
+  try {
+    await setDoc(doc(db, COLLECTION_NAME, userId), {
+      userId,
+      alerts,
+      updatedAt: Timestamp.now(),
+    });
+  } catch (error) {
+    logger.error('Error saving price alerts', error, {
+      component: 'priceAlertService',
+      operation: 'savePriceAlerts',
+      userId,
+    });
+    throw error;
+  }
+}
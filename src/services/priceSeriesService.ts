@@ -0,0 +1,45 @@
+/**
+ * Price Series Service
+ *
+ * Daily price series per ticker for the TAChart view, behind a small source interface so the
+ * chart can run on Firestore score history in the app and on in-memory series offline (tests,
+ * locally loaded price files).
+ */
+
+import { loadScoreHistory } from './scoreHistoryService';
+import type { PriceBar } from '../utils/taChart';
+
+/** Number of daily prices requested from score history (enough for SMA(200) over a year) */
+export const DEFAULT_PRICE_SERIES_DAYS = 730;
+
+export interface PriceSeriesSource {
+  /** Stable id, used to reload when the source changes */
+  id: string;
+  /** Price bars for the ticker, oldest first; empty when the source has none */
+  loadSeries: (ticker: string) => Promise<PriceBar[]>;
+}
+
+/**
+ * Close-only prices from the daily score snapshots (scoreHistory). Days without a price are skipped.
+ */
+export const scoreHistoryPriceSource: PriceSeriesSource = {
+  id: 'scoreHistory',
+  loadSeries: async (ticker) => {
+    const history = await loadScoreHistory(ticker, DEFAULT_PRICE_SERIES_DAYS);
+    return history
+      .filter((snapshot): snapshot is typeof snapshot & { price: number } => snapshot.price != null && snapshot.price > 0)
+      .map((snapshot) => ({ date: snapshot.date, open: null, high: null, low: null, close: snapshot.price }));
+  },
+};
+
+/**
+ * In-memory source over series keyed by ticker (matched case-insensitively).
+ */
+export function createLocalPriceSource(id: string, series: Map<string, PriceBar[]>): PriceSeriesSource {
+  const byTicker = new Map<string, PriceBar[]>();
+  for (const [ticker, bars] of series) byTicker.set(ticker.trim().toUpperCase(), bars);
+  return {
+    id,
+    loadSeries: async (ticker) => byTicker.get(ticker.trim().toUpperCase()) ?? [],
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Refresh Run Service
+ *
+ * Reads the per-run change summaries written by adminRefreshCache / scheduledRefreshCache
+ * (refreshRuns/{runId}). Read-only on the client.
+ */
+
+import { collection, getDocs, limit, orderBy, query, Timestamp, where, type QueryConstraint } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import type { RefreshRun, TopMover, ViewRefreshDiff } from '../types/refreshRun';
+
+const COLLECTION_NAME = 'refreshRuns';
+
+/** Max runs read at once (a full trading day of 30-minute runs) */
+export const REFRESH_RUNS_LIMIT = 30;
+
+function toNumber(value: unknown): number {
+  return typeof value === 'number' && isFinite(value) ? value : 0;
+}
+
+function parseTopMover(raw: unknown): TopMover | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const m = raw as Record<string, unknown>;
+  if (typeof m.ticker !== 'string' || typeof m.field !== 'string' || typeof m.oldValue !== 'number' || typeof m.newValue !== 'number') {
+    return null;
+  }
+  return {
+    ticker: m.ticker,
+    companyName: typeof m.companyName === 'string' ? m.companyName : m.ticker,
+    field: m.field,
+    oldValue: m.oldValue,
+    newValue: m.newValue,
+    changePercent: toNumber(m.changePercent),
+  };
+}
+
+function parseViewDiff(raw: unknown): ViewRefreshDiff | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const v = raw as Record<string, unknown>;
+  if (typeof v.viewId !== 'string') return null;
+  return {
+    viewId: v.viewId,
+    added: toNumber(v.added),
+    removed: toNumber(v.removed),
+    updated: toNumber(v.updated),
+    total: toNumber(v.total),
+    hasSignificantChanges: v.hasSignificantChanges === true,
+    topMovers: Array.isArray(v.topMovers) ? v.topMovers.map(parseTopMover).filter((m): m is TopMover => m !== null) : [],
+  };
+}
+
+/**
+ * Load refresh runs after `since` (all recent runs when null), oldest first.
+ */
+export async function loadRefreshRunsSince(since: Date | null): Promise<RefreshRun[]> {
+  const constraints: QueryConstraint[] = [];
+  if (since) constraints.push(where('timestamp', '>', Timestamp.fromDate(since)));
+  constraints.push(orderBy('timestamp', 'desc'), limit(REFRESH_RUNS_LIMIT));
+
+  try {
+    const snapshot = await getDocs(query(collection(db, COLLECTION_NAME), ...constraints));
+    return snapshot.docs
+      .map((d) => {
+        const raw = d.data();
+        return {
+          id: d.id,
+          trigger: raw.trigger === 'manual' ? 'manual' : 'scheduled',
+          timestamp: raw.timestamp instanceof Timestamp ? raw.timestamp.toDate() : null,
+          views: Array.isArray(raw.views) ? raw.views.map(parseViewDiff).filter((v): v is ViewRefreshDiff => v !== null) : [],
+          errors: Array.isArray(raw.errors) ? raw.errors.filter((e): e is string => typeof e === 'string') : [],
+        } satisfies RefreshRun;
+      })
+      .reverse();
+  } catch (error) {
+    logger.error('Failed to load refresh runs', error, { component: 'refreshRunService', operation: 'loadRefreshRunsSince' });
+    throw error;
+  }
+}
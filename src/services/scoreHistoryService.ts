@@ -0,0 +1,79 @@
+/**
+ * Score History Service
+ *
+ * Reads daily score snapshots written by the dailyScoreSnapshot Cloud Function
+ * (scoreHistory/{tickerKey}/snapshots/{YYYY-MM-DD}). Read-only on the client.
+ */
+
+import { collection, getDocs, limit, orderBy, query } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import { DEFAULT_SCORE_METRICS } from '../config/scoringModel';
+import type { ScoreMetricId, ScoreSnapshot } from '../types/score';
+
+const COLLECTION_NAME = 'scoreHistory';
+const SNAPSHOTS_SUBCOLLECTION = 'snapshots';
+
+/** Default number of days shown in the timeline */
+export const DEFAULT_SCORE_HISTORY_DAYS = 180;
+
+const METRIC_IDS = new Set<string>(DEFAULT_SCORE_METRICS.map((m) => m.id));
+const COLORS = new Set(['GREEN', 'ORANGE', 'RED', 'BLANK']);
+
+/** Doc id for a ticker (must match toSnapshotTickerKey in functions/src/scoreSnapshotHelpers.ts) */
+export function toSnapshotTickerKey(ticker: string): string {
+  return ticker.trim().toLowerCase().replace(/\//g, '_');
+}
+
+function parseSnapshot(raw: Record<string, unknown>): ScoreSnapshot | null {
+  if (typeof raw.date !== 'string' || typeof raw.score !== 'number') return null;
+
+  const colors: ScoreSnapshot['colors'] = {};
+  if (raw.colors && typeof raw.colors === 'object') {
+    for (const [id, color] of Object.entries(raw.colors as Record<string, unknown>)) {
+      if (METRIC_IDS.has(id) && typeof color === 'string' && COLORS.has(color)) {
+        colors[id as ScoreMetricId] = color as ScoreSnapshot['colors'][ScoreMetricId];
+      }
+    }
+  }
+
+  return {
+    date: raw.date,
+    ticker: typeof raw.ticker === 'string' ? raw.ticker : '',
+    companyName: typeof raw.companyName === 'string' ? raw.companyName : '',
+    score: raw.score,
+    price: typeof raw.price === 'number' ? raw.price : null,
+    colors,
+    modelVersion: typeof raw.modelVersion === 'number' ? raw.modelVersion : 0,
+  };
+}
+
+/**
+ * Load the most recent snapshots for a ticker, oldest first.
+ * Returns an empty list when no history exists yet.
+ */
+export async function loadScoreHistory(
+  ticker: string,
+  days: number = DEFAULT_SCORE_HISTORY_DAYS
+): Promise<ScoreSnapshot[]> {
+  const tickerKey = toSnapshotTickerKey(ticker);
+  if (!tickerKey) return [];
+
+  try {
+    const snapshotsRef = collection(db, COLLECTION_NAME, tickerKey, SNAPSHOTS_SUBCOLLECTION);
+    const snapshot = await getDocs(query(snapshotsRef, orderBy('date', 'desc'), limit(days)));
+    const history: ScoreSnapshot[] = [];
+    snapshot.forEach((docSnap) => {
+      const parsed = parseSnapshot(docSnap.data());
+      if (parsed) history.push(parsed);
+    });
+    return history.reverse();
+  } catch (error: unknown) {
+    logger.error('Error loading score history', error, {
+      component: 'scoreHistoryService',
+      operation: 'loadScoreHistory',
+      ticker,
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Scoring Model Service
+ *
+ * Loads and saves the versioned scoring model used by calculateScore and
+ * calculateScoreDetailed. The active model lives in appConfig/scoringModel;
+ * every saved version is also kept in appConfig/scoringModel/versions/{version}
+ * so historical scores can be traced back to the model that produced them.
+ */
+
+import { doc, onSnapshot, runTransaction, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import { DEFAULT_SCORING_MODEL } from '../config/scoringModel';
+import { parseScoringModel, validateScoringModel } from '../utils/scoringModel';
+import type { ScoringModel } from '../types/score';
+
+const COLLECTION_NAME = 'appConfig';
+const DOC_ID = 'scoringModel';
+const VERSIONS_SUBCOLLECTION = 'versions';
+
+/**
+ * Subscribe to the active scoring model.
+ * Calls onChange with the default model when the document is missing or invalid.
+ */
+export function subscribeToScoringModel(onChange: (model: ScoringModel) => void): () => void {
+  const ref = doc(db, COLLECTION_NAME, DOC_ID);
+  return onSnapshot(
+    ref,
+    (snapshot) => {
+      if (!snapshot.exists()) {
+        onChange(DEFAULT_SCORING_MODEL);
+        return;
+      }
+      const model = parseScoringModel(snapshot.data());
+      if (!model) {
+        logger.warn('Invalid scoring model in Firestore, using default', {
+          component: 'scoringModelService',
+          operation: 'subscribeToScoringModel',
+        });
+        onChange(DEFAULT_SCORING_MODEL);
+        return;
+      }
+      onChange(model);
+    },
+    (error) => {
+      logger.error('Error listening to scoring model', error, {
+        component: 'scoringModelService',
+        operation: 'subscribeToScoringModel',
+      });
+      onChange(DEFAULT_SCORING_MODEL);
+    }
+  );
+}
+
+/**
+ * Save a new scoring model version (admin only).
+ * The version number is incremented atomically from the stored version.
+ * Returns the saved model.
+ */
+export async function saveScoringModel(
+  model: Pick<ScoringModel, 'metrics' | 'colorFactors'>,
+  userId: string
+): Promise<ScoringModel> {
+  const errors = validateScoringModel(model);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+
+  const ref = doc(db, COLLECTION_NAME, DOC_ID);
+  const updatedAt = new Date();
+
+  const version = await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const currentVersion = snapshot.exists() && typeof snapshot.data().version === 'number'
+      ? (snapshot.data().version as number)
+      : DEFAULT_SCORING_MODEL.version;
+    const nextVersion = currentVersion + 1;
+
+    const payload = {
+      version: nextVersion,
+      metrics: model.metrics.map(({ id, weight, method, enabled }) => ({ id, weight, method, enabled })),
+      colorFactors: { ...model.colorFactors },
+      updatedAt: Timestamp.fromDate(updatedAt),
+      updatedBy: userId,
+    };
+
+    transaction.set(ref, payload);
+    transaction.set(doc(db, COLLECTION_NAME, DOC_ID, VERSIONS_SUBCOLLECTION, String(nextVersion)), payload);
+    return nextVersion;
+  });
+
+  logger.info(`Scoring model v${version} saved`, {
+    component: 'scoringModelService',
+    operation: 'saveScoringModel',
+    userId,
+  });
+
+  return {
+    version,
+    metrics: model.metrics,
+    colorFactors: model.colorFactors,
+    updatedAt,
+    updatedBy: userId,
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Sheet Diagnostics Service
+ *
+ * Column-mapping diagnostics (shared/sheetDiagnostics.ts) for every sheet fetched in this session, kept in
+ * memory, plus the reports the server refresh writes to sheetDiagnostics/{schemaId} (admin read only).
+ * The Data Health admin view shows both. DashBoard fetches also go through the data quality checks.
+ */
+
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { DEFAULT_UNIVERSE_ID } from '../config/universes';
+import { logger } from '../utils/logger';
+import { diagnoseSheet } from '../../shared/sheetDiagnostics';
+import { DASHBOARD_SCHEMA, SMA_SCHEMA, type SheetSchema } from '../../shared/sheetSchema';
+import type { DataRow } from './sheets/types';
+import type { SheetColumnDiagnostics, SheetDiagnosticsReport } from '../types/sheetDiagnostics';
+import { getActiveUniverse } from './universeService';
+import { recordDataQuality } from './dataQualityService';
+
+const COLLECTION_NAME = 'sheetDiagnostics';
+
+/** Latest report per universe and schema fetched in this session */
+const sessionReports = new Map<string, SheetDiagnosticsReport>();
+const listeners = new Set<() => void>();
+
+/** Called when a session report is recorded. Returns an unsubscribe function. */
+export function subscribeToSheetDiagnostics(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getSessionSheetDiagnostics(): SheetDiagnosticsReport[] {
+  return Array.from(sessionReports.values());
+}
+
+/**
+ * Diagnose fetched sheet rows against their schema and keep the report for the Data Health view. Never
+ * throws: diagnostics must not break a fetch.
+ */
+export function recordSheetDiagnostics(
+  schema: SheetSchema,
+  results: { data: DataRow[]; meta: { fields: string[] | null } }
+): void {
+  try {
+    const universe = getActiveUniverse();
+    const sheetName =
+      schema.id === DASHBOARD_SCHEMA.id ? universe.dashboardSheet : schema.id === SMA_SCHEMA.id ? universe.smaSheet : schema.sheetName;
+    const headers = results.meta.fields ?? Object.keys(results.data[0] ?? {});
+    const diagnostics = diagnoseSheet(schema, headers, results.data, { sheetName });
+
+    if (diagnostics.missingRequired.length > 0) {
+      logger.warn(`Sheet "${sheetName}" is missing required columns: ${diagnostics.missingRequired.join(', ')}`, {
+        component: 'sheetDiagnosticsService',
+        operation: 'recordSheetDiagnostics',
+        unmappedHeaders: diagnostics.unmappedHeaders,
+      });
+    }
+
+    sessionReports.set(`${universe.id}:${schema.id}`, { ...diagnostics, source: 'session', universeId: universe.id });
+    listeners.forEach((listener) => listener());
+
+    if (schema.id === DASHBOARD_SCHEMA.id) void recordDataQuality(universe.id, results.data);
+  } catch (error) {
+    logger.warn('Failed to diagnose sheet', { component: 'sheetDiagnosticsService', operation: 'recordSheetDiagnostics', schemaId: schema.id, error });
+  }
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === 'number' && isFinite(value) ? value : 0;
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function parseColumn(raw: unknown): SheetColumnDiagnostics | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const c = raw as Record<string, unknown>;
+  if (typeof c.field !== 'string') return null;
+  return {
+    field: c.field,
+    type: c.type === 'text' || c.type === 'percent' ? c.type : 'number',
+    required: c.required === true,
+    header: typeof c.header === 'string' ? c.header : null,
+    filled: toNumber(c.filled),
+    parseFailures: toNumber(c.parseFailures),
+    parseFailureRate: toNumber(c.parseFailureRate),
+  };
+}
+
+/**
+ * Load the reports of the last server refresh (default universe). Admin only.
+ */
+export async function loadServerSheetDiagnostics(): Promise<SheetDiagnosticsReport[]> {
+  try {
+    const snapshot = await getDocs(collection(db, COLLECTION_NAME));
+    return snapshot.docs.map((d) => {
+      const raw = d.data();
+      return {
+        schemaId: d.id,
+        sheetName: typeof raw.sheetName === 'string' ? raw.sheetName : d.id,
+        rowCount: toNumber(raw.rowCount),
+        unmappedHeaders: toStringArray(raw.unmappedHeaders),
+        missingRequired: toStringArray(raw.missingRequired),
+        columns: Array.isArray(raw.columns)
+          ? raw.columns.map(parseColumn).filter((c): c is SheetColumnDiagnostics => c !== null)
+          : [],
+        generatedAt: toNumber(raw.generatedAt),
+        source: 'server',
+        universeId: DEFAULT_UNIVERSE_ID,
+      } satisfies SheetDiagnosticsReport;
+    });
+  } catch (error) {
+    logger.error('Failed to load sheet diagnostics', error, { component: 'sheetDiagnosticsService', operation: 'loadServerSheetDiagnostics' });
+    throw error;
+  }
+}
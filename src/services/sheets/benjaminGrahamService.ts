@@ -7,58 +7,18 @@
 import { BenjaminGrahamData } from '../../types/stock';
 import { CACHE_KEYS, DEFAULT_TTL } from '../firestoreCacheService';
 import { fetchWithFallback } from './fetchService';
-import { getValue, isValidValue, parseNumericValueNullable } from './dataTransformers';
-import { isBenjaminGrahamData } from '../../utils/typeGuards';
+import { getActiveUniverse } from '../universeService';
+import { getSheetCsvUrl } from '../../config/universes';
+import { transformBenjaminGrahamRows } from '../../../shared/sheetTransforms';
+import { DASHBOARD_SCHEMA } from '../../../shared/sheetSchema';
 import type { DataRow, ProgressCallback } from './types';
 
-// Benjamin Graham data configuration
-const BENJAMIN_GRAHAM_SHEET_ID = '1KOOSLJVGdDZHBV1MUmb4D9oVIKUJj5TIgYCerjkWYcE';
-const BENJAMIN_GRAHAM_GID = '1180885830';
-const BENJAMIN_GRAHAM_CSV_URL = `https://docs.google.com/spreadsheets/d/${BENJAMIN_GRAHAM_SHEET_ID}/export?format=csv&gid=${BENJAMIN_GRAHAM_GID}`;
-
 /**
  * Transformer function for Benjamin Graham data
  * Exported for use in background sync persist.
  */
 export function transformBenjaminGrahamData(results: { data: DataRow[]; meta: { fields: string[] | null } }): BenjaminGrahamData[] {
-  const benjaminGrahamData = results.data
-    .map((row: DataRow) => {
-      const companyName = getValue(['Company Name', 'Company', 'company'], row);
-      const ticker = getValue(['Ticker', 'ticker', 'Ticket', 'ticket', 'Symbol', 'symbol'], row);
-      const priceStr = getValue(['Price', 'price', 'PRICE'], row);
-      // Only process if company name is valid (not #N/A)
-      if (!isValidValue(companyName)) {
-        return null;
-      }
-      
-      // Filter out rows where Ticker is N/A (DashBoard rule: if Ticker is N/A, don't fetch data)
-      if (!isValidValue(ticker)) {
-        return null;
-      }
-      
-      // Parse Price value as number (handle #N/A)
-      const price = parseNumericValueNullable(priceStr);
-      
-      // Parse IV (FCF) if it exists
-      const ivFcfStr = getValue(['IV (FCF)', 'IV(FCF)', 'iv fcf', 'ivfcf'], row);
-      const ivFcf = parseNumericValueNullable(ivFcfStr);
-      
-      // Parse IRR1 if it exists
-      const irr1Str = getValue(['IRR1', 'irr1', 'IRR 1', 'irr 1'], row);
-      const irr1 = parseNumericValueNullable(irr1Str);
-      
-      // Include row if both company name and ticker are valid (we already checked above)
-      return {
-        companyName: companyName,
-        ticker: ticker,
-        price: price,
-        ivFcf: ivFcf, // Include if it exists
-        irr1: irr1, // Include if it exists
-      };
-    })
-    .filter((data): data is BenjaminGrahamData => data !== null && isBenjaminGrahamData(data));
-  
-  return benjaminGrahamData;
+  return transformBenjaminGrahamRows(results.data);
 }
 
 /**
@@ -76,15 +36,17 @@ export async function fetchBenjaminGrahamData(
   forceRefresh: boolean = false,
   progressCallback?: ProgressCallback
 ): Promise<BenjaminGrahamData[]> {
+  const universe = getActiveUniverse();
   return fetchWithFallback<BenjaminGrahamData>({
-    sheetName: 'DashBoard',
+    sheetName: universe.dashboardSheet,
     dataTypeName: 'Benjamin Graham',
     transformer: transformBenjaminGrahamData,
     requiredColumns: ['Company Name', 'Ticker'],
+    schema: DASHBOARD_SCHEMA,
     cacheKey: CACHE_KEYS.BENJAMIN_GRAHAM,
     forceRefresh,
     ttl: DEFAULT_TTL,
     progressCallback,
-    csvUrl: BENJAMIN_GRAHAM_CSV_URL,
+    csvUrl: getSheetCsvUrl(universe, 'dashboard'),
   });
 }
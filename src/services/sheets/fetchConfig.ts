@@ -4,9 +4,18 @@
  */
 
 import { logger } from '../../utils/logger';
+import { getActiveUniverse, isDefaultUniverseActive } from '../universeService';
 
 export const APPS_SCRIPT_URL = import.meta.env.VITE_APPS_SCRIPT_URL || '';
 
+/**
+ * Apps Script Web App for the active universe: VITE_APPS_SCRIPT_URL for the default universe,
+ * the universe's own appsScriptUrl otherwise ('' = CSV export only).
+ */
+export function getAppsScriptUrl(): string {
+  return isDefaultUniverseActive() ? APPS_SCRIPT_URL : getActiveUniverse().appsScriptUrl ?? '';
+}
+
 export const CORS_PROXIES = [
   'https://api.allorigins.win/raw?url=',
   'https://corsproxy.io/?',
@@ -15,6 +15,8 @@ import {
   FETCH_TIMEOUT_SECONDS,
 } from './fetchConfig';
 import { validateCSVText } from './fetchValidation';
+import { recordSheetDiagnostics } from '../sheetDiagnosticsService';
+import type { SheetSchema } from '../../../shared/sheetSchema';
 
 export async function fetchCSVData<T>(
   csvUrl: string,
@@ -25,7 +27,8 @@ export async function fetchCSVData<T>(
   forceRefresh: boolean = false,
   ttl: number = DEFAULT_TTL,
   progressCallback?: ProgressCallback,
-  additionalData?: Record<string, unknown>
+  additionalData?: Record<string, unknown>,
+  schema?: SheetSchema
 ): Promise<T[]> {
   if (cacheKey && !forceRefresh) {
     const cachedData = await getCachedData<T[]>(cacheKey);
@@ -160,6 +163,7 @@ export async function fetchCSVData<T>(
                 data: results.data as DataRow[],
                 meta: { fields: results.meta.fields || null },
               };
+              if (schema) recordSheetDiagnostics(schema, compatibleResults);
 
               let transformedData: T[];
               const transformerId = getTransformerId(dataTypeName);
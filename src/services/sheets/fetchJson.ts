@@ -8,11 +8,14 @@ import { logger } from '../../utils/logger';
 import { checkRateLimit } from '../../utils/rateLimiter';
 import { transformInWorker, getTransformerId } from '../workerService';
 import type { DataRow, ProgressCallback } from './types';
-import { APPS_SCRIPT_URL } from './fetchConfig';
+import { getAppsScriptUrl } from './fetchConfig';
+import { getActiveUniverse, isDefaultUniverseActive } from '../universeService';
 import { convert2DArrayToObjects, createMockParseResult } from './fetchDataConversion';
 import { isSecureMode } from '../../config/securityMode';
 import { SecurityError } from '../../utils/securityErrors';
 import { snapshotToTransformerFormat } from '../deltaSyncService';
+import { recordSheetDiagnostics } from '../sheetDiagnosticsService';
+import type { SheetSchema } from '../../../shared/sheetSchema';
 
 export async function fetchJSONData<T>(
   sheetName: string,
@@ -23,7 +26,8 @@ export async function fetchJSONData<T>(
   forceRefresh: boolean = false,
   ttl: number = DEFAULT_TTL,
   progressCallback?: ProgressCallback,
-  additionalData?: Record<string, unknown>
+  additionalData?: Record<string, unknown>,
+  schema?: SheetSchema
 ): Promise<T[]> {
   if (cacheKey && !forceRefresh) {
     const cachedData = await getCachedData<T[]>(cacheKey);
@@ -49,6 +53,17 @@ export async function fetchJSONData<T>(
     throw error;
   }
 
+  const appsScriptUrl = getAppsScriptUrl();
+  if (!appsScriptUrl && !isDefaultUniverseActive()) {
+    // Universes without their own Apps Script deployment load through the CSV export
+    logger.debug(`No Apps Script URL for universe "${getActiveUniverse().id}", using CSV for ${dataTypeName}`, {
+      component: 'fetchService',
+      dataTypeName,
+      operation: 'fetchJSONData',
+    });
+    throw new Error('Apps Script URL not configured for universe');
+  }
+
   if (isSecureMode()) {
     logger.warn('Secure mode: legacy GET to Apps Script blocked', {
       component: 'fetchService',
@@ -60,7 +75,7 @@ export async function fetchJSONData<T>(
     );
   }
 
-  if (!APPS_SCRIPT_URL) {
+  if (!appsScriptUrl) {
     const isProduction = import.meta.env.PROD;
     const isVercel = typeof window !== 'undefined' && window.location.hostname.includes('vercel.app');
     if (isProduction || isVercel) {
@@ -78,7 +93,7 @@ export async function fetchJSONData<T>(
     throw new Error('Apps Script URL not configured');
   }
 
-  if (!APPS_SCRIPT_URL.includes('script.google.com/macros/s/') || !APPS_SCRIPT_URL.endsWith('/exec')) {
+  if (!appsScriptUrl.includes('script.google.com/macros/s/') || !appsScriptUrl.endsWith('/exec')) {
     logger.error(
       'Invalid Apps Script URL format. Expected: https://script.google.com/macros/s/SCRIPT_ID/exec',
       undefined,
@@ -99,7 +114,7 @@ export async function fetchJSONData<T>(
   });
 
   try {
-    const url = `${APPS_SCRIPT_URL}?sheet=${encodeURIComponent(sheetName)}`;
+    const url = `${appsScriptUrl}?sheet=${encodeURIComponent(sheetName)}`;
     let response: Response;
     try {
       response = await fetch(url, {
@@ -118,7 +133,7 @@ export async function fetchJSONData<T>(
             `CORS error: Apps Script is blocking cross-origin requests. ` +
               `SOLUTION: In Apps Script → Deploy → Manage deployments → Edit → ` +
               `Set "Who has access" to "Anyone" → Save and redeploy. ` +
-              `Also verify the URL format: ${APPS_SCRIPT_URL}`
+              `Also verify the URL format: ${appsScriptUrl}`
           );
         }
       }
@@ -127,7 +142,7 @@ export async function fetchJSONData<T>(
 
     if (!response.ok) {
       if (response.status === 404) {
-        throw new Error(`Apps Script not found (404). Please verify the URL: ${APPS_SCRIPT_URL}`);
+        throw new Error(`Apps Script not found (404). Please verify the URL: ${appsScriptUrl}`);
       }
       if (response.status === 401 || response.status === 403) {
         throw new Error(
@@ -213,6 +228,7 @@ export async function fetchJSONData<T>(
     }
 
     const mockResults = createMockParseResult(dataRows);
+    if (schema) recordSheetDiagnostics(schema, mockResults);
 
     progressCallback?.({
       stage: 'transform',
@@ -302,7 +318,7 @@ export async function fetchJSONData<T>(
     const errorHandler = createErrorHandler({
       operation: `fetch ${dataTypeName} data from Apps Script`,
       component: 'fetchService',
-      additionalInfo: { sheetName, dataTypeName, url: APPS_SCRIPT_URL },
+      additionalInfo: { sheetName, dataTypeName, url: appsScriptUrl },
     });
     const formatted = errorHandler(error);
 
@@ -323,13 +339,13 @@ export async function fetchJSONData<T>(
       errorGuidance =
         `\n\nTroubleshooting 404:\n` +
         `1. Verify VITE_APPS_SCRIPT_URL in Vercel Environment Variables\n` +
-        `2. Test the URL directly in browser: ${APPS_SCRIPT_URL}?sheet=${sheetName}\n` +
+        `2. Test the URL directly in browser: ${appsScriptUrl}?sheet=${sheetName}\n` +
         `3. Ensure Apps Script is deployed as "Web app" (not "Library")\n` +
         `4. URL should end with /exec (not /library/...)`;
     } else if (formatted.message.includes('Invalid Apps Script URL')) {
       errorGuidance =
         `\n\nExpected URL format: https://script.google.com/macros/s/SCRIPT_ID/exec\n` +
-        `Current URL: ${APPS_SCRIPT_URL || '(not set)'}`;
+        `Current URL: ${appsScriptUrl || '(not set)'}`;
     }
 
     const enhancedError = new Error(
@@ -12,6 +12,7 @@ import { fetchCSVData } from './fetchCsv';
 import { SecurityError } from '../../utils/securityErrors';
 import { convert2DArrayToObjects, createMockParseResult } from './fetchDataConversion';
 import { validateCSVText } from './fetchValidation';
+import type { SheetSchema } from '../../../shared/sheetSchema';
 
 export { convert2DArrayToObjects, createMockParseResult };
 export { validateCSVText };
@@ -29,6 +30,8 @@ export interface FetchWithFallbackConfig<T> {
   progressCallback?: ProgressCallback;
   csvUrl: string;
   additionalData?: Record<string, unknown>;
+  /** Sheet schema the fetched rows are diagnosed against (Data Health admin view) */
+  schema?: SheetSchema;
 }
 
 export async function fetchWithFallback<T>(
@@ -45,6 +48,7 @@ export async function fetchWithFallback<T>(
     progressCallback,
     csvUrl,
     additionalData,
+    schema,
   } = config;
 
   try {
@@ -57,7 +61,8 @@ export async function fetchWithFallback<T>(
       forceRefresh,
       ttl,
       progressCallback,
-      additionalData
+      additionalData,
+      schema
     );
   } catch (error: unknown) {
     if (error instanceof SecurityError) {
@@ -77,7 +82,8 @@ export async function fetchWithFallback<T>(
       forceRefresh,
       ttl,
       progressCallback,
-      additionalData
+      additionalData,
+      schema
     );
   }
 }
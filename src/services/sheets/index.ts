@@ -33,4 +33,5 @@ export { fetchBenjaminGrahamData } from './benjaminGrahamService';
 export { fetchSMAData } from './smaService';
 export { fetchPEIndustryData } from './peIndustryService';
 export { fetchScoreBoardData } from './scoreBoardService';
+export { fetchIsmData, parseIsmCsv } from './ismService';
 // Note: fetchIndustryThresholdData removed - threshold data is now static (see src/config/industryThresholdData.ts)
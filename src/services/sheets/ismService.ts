@@ -0,0 +1,89 @@
+/**
+ * ISM Service
+ *
+ * Fetches the ISM Manufacturing history (PMI, New Orders, Inventories, Prices) from the ISM tab
+ * of the Dashboard spreadsheet, and parses uploaded CSV files with the same columns.
+ */
+
+import Papa from 'papaparse';
+import type { IsmReading } from '../../types/ism';
+import { mergeIsmReadings, toIsmMonth } from '../../utils/ismRegime';
+import { CACHE_KEYS, DEFAULT_TTL } from '../firestoreCacheService';
+import { fetchWithFallback } from './fetchService';
+import { getValue, parseNumericValueNullable } from './dataTransformers';
+import type { DataRow, ProgressCallback } from './types';
+
+// ISM tab of the Dashboard sheet, addressed by name (gviz export) since it has no fixed gid
+const ISM_SHEET_ID = '1KOOSLJVGdDZHBV1MUmb4D9oVIKUJj5TIgYCerjkWYcE';
+const ISM_SHEET_NAME = 'ISM';
+const ISM_CSV_URL = `https://docs.google.com/spreadsheets/d/${ISM_SHEET_ID}/gviz/tq?tqx=out:csv&sheet=${ISM_SHEET_NAME}`;
+
+const DATE_COLUMNS = ['Date', 'Month', 'Datum', 'Månad'];
+const PMI_COLUMNS = ['PMI', 'ISM', 'ISM PMI', 'Manufacturing PMI'];
+const NEW_ORDERS_COLUMNS = ['New Orders', 'NewOrders', 'new_orders'];
+const INVENTORIES_COLUMNS = ['Inventories', 'Inventory'];
+const PRICES_COLUMNS = ['Prices', 'Prices Paid', 'Price'];
+
+/**
+ * Transformer for ISM rows (sheet or CSV). Rows without a month or PMI are skipped;
+ * a later row for the same month wins. Result is oldest first.
+ */
+export function transformIsmData(results: { data: DataRow[]; meta: { fields: string[] | null } }): IsmReading[] {
+  const readings: IsmReading[] = [];
+  for (const row of results.data) {
+    const date = toIsmMonth(getValue(DATE_COLUMNS, row));
+    const pmi = parseNumericValueNullable(getValue(PMI_COLUMNS, row));
+    if (!date || pmi === null) continue;
+    readings.push({
+      date,
+      pmi,
+      newOrders: parseNumericValueNullable(getValue(NEW_ORDERS_COLUMNS, row)),
+      inventories: parseNumericValueNullable(getValue(INVENTORIES_COLUMNS, row)),
+      prices: parseNumericValueNullable(getValue(PRICES_COLUMNS, row)),
+    });
+  }
+  return mergeIsmReadings([], readings);
+}
+
+/**
+ * Parse an uploaded ISM CSV (Date and PMI required; New Orders, Inventories, Prices optional).
+ * Returns the readings and the number of skipped rows.
+ */
+export function parseIsmCsv(text: string): { readings: IsmReading[]; skipped: number; missingColumns: string[] } {
+  const parsed = Papa.parse<DataRow>(text.replace(/^\uFEFF/, ''), { header: true, skipEmptyLines: true });
+  const fields = (parsed.meta.fields ?? []).map((f) => f.trim().toLowerCase());
+  const has = (names: string[]) => names.some((name) => fields.includes(name.toLowerCase()));
+  const missingColumns = [!has(DATE_COLUMNS) && 'Date', !has(PMI_COLUMNS) && 'PMI'].filter(
+    (c): c is string => typeof c === 'string'
+  );
+  if (missingColumns.length > 0) return { readings: [], skipped: parsed.data.length, missingColumns };
+
+  const readings = transformIsmData({ data: parsed.data, meta: { fields: parsed.meta.fields ?? null } });
+  return { readings, skipped: parsed.data.length - readings.length, missingColumns };
+}
+
+/**
+ * Fetches the ISM history from the ISM sheet tab.
+ * Tries Apps Script API first, falls back to CSV export.
+ *
+ * @param forceRefresh - If true, bypasses cache and forces network request (default: false)
+ * @param progressCallback - Optional callback for progress updates during fetch/parse/transform
+ * @returns Promise resolving to monthly readings, oldest first
+ * @throws {Error} If the tab cannot be fetched or required columns are missing
+ */
+export async function fetchIsmData(
+  forceRefresh: boolean = false,
+  progressCallback?: ProgressCallback
+): Promise<IsmReading[]> {
+  return fetchWithFallback<IsmReading>({
+    sheetName: ISM_SHEET_NAME,
+    dataTypeName: 'ISM',
+    transformer: transformIsmData,
+    requiredColumns: ['Date', 'PMI'],
+    cacheKey: CACHE_KEYS.ISM,
+    forceRefresh,
+    ttl: DEFAULT_TTL,
+    progressCallback,
+    csvUrl: ISM_CSV_URL,
+  });
+}
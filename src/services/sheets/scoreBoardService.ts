@@ -8,16 +8,18 @@
 import { ScoreBoardData, PEIndustryData } from '../../types/stock';
 import { CACHE_KEYS, DEFAULT_TTL } from '../firestoreCacheService';
 import { fetchWithFallback } from './fetchService';
-import { getValueAllowZero, isValidValue, parseNumericValueNullable, parsePercentageValueNullable } from './dataTransformers';
+import { getActiveUniverse } from '../universeService';
+import { getSheetCsvUrl } from '../../config/universes';
+import { transformScoreBoardRows, type SMALookupEntry } from '../../../shared/sheetTransforms';
+import { DASHBOARD_SCHEMA } from '../../../shared/sheetSchema';
 import { fetchPEIndustryData } from './peIndustryService';
 import { fetchSMAData } from './smaService';
 import { logger } from '../../utils/logger';
 import type { DataRow, ProgressCallback } from './types';
 
-// Score Board data configuration (uses same Dashboard sheet as P/E Industry)
-const SCORE_BOARD_SHEET_ID = '1KOOSLJVGdDZHBV1MUmb4D9oVIKUJj5TIgYCerjkWYcE';
-const SCORE_BOARD_GID = '1180885830';
-const SCORE_BOARD_CSV_URL = `https://docs.google.com/spreadsheets/d/${SCORE_BOARD_SHEET_ID}/export?format=csv&gid=${SCORE_BOARD_GID}`;
+// Spreadsheet, sheet name and CSV export URL come from the active universe (config/universes.ts)
+
+export type SMADataMapEntry = SMALookupEntry;
 
 /**
  * Creates transformer function for Score Board data
@@ -27,101 +29,18 @@ const SCORE_BOARD_CSV_URL = `https://docs.google.com/spreadsheets/d/${SCORE_BOAR
  * @param smaDataMap - Map of ticker to SMA data (from SMA table: sma9, sma21, sma55, sma200)
  * @returns Transformer function
  */
-export type SMADataMapEntry = { sma9: number | null; sma21: number | null; sma55: number | null; sma200: number | null };
-
 export function createScoreBoardTransformer(
   industryPe1Map: Map<string, number>,
   industryPe2Map: Map<string, number>,
   smaDataMap: Map<string, SMADataMapEntry>
 ) {
-  return (results: { data: DataRow[]; meta: { fields: string[] | null } }): ScoreBoardData[] => {
-    const scoreBoardData = results.data
-      .map((row: DataRow) => {
-        const companyName = getValueAllowZero(['Company Name', 'Company', 'company'], row);
-        const ticker = getValueAllowZero(['Ticker', 'ticker', 'Ticket', 'ticket', 'Symbol', 'symbol'], row);
-        const mungerQualityScoreStr = getValueAllowZero(['Munger Quality Score', 'Munger Quality Score', 'munger quality score', 'MUNGER QUALITY SCORE'], row);
-        const valueCreationStr = getValueAllowZero(['VALUE CREATION', 'Value Creation', 'value creation', 'VALUE_CREATION'], row);
-        const leverageF2Str = getValueAllowZero(['Leverage F2', 'Leverage F2', 'leverage f2', 'LEVERAGE F2'], row);
-        const currentRatioStr = getValueAllowZero(['Current Ratio', 'Current Ratio', 'current ratio', 'CURRENT RATIO'], row);
-        const cashSdebtStr = getValueAllowZero(['Cash/SDebt', 'Cash/SDebt', 'cash/sdebt', 'CASH/SDEBT'], row);
-        
-        // Detect division-by-zero for Cash/SDebt (should be treated as green)
-        const isCashSdebtDivZero = cashSdebtStr && 
-          (cashSdebtStr.trim().toUpperCase() === '#DIV/0!' || 
-           cashSdebtStr.trim().toUpperCase() === 'INF' ||
-           cashSdebtStr.trim().toUpperCase() === '∞');
-        
-        const pe1Str = getValueAllowZero(['P/E1', 'P/E 1', 'pe1', 'PE1'], row);
-        const pe2Str = getValueAllowZero(['P/E2', 'P/E 2', 'pe2', 'PE2'], row);
-        const industryStr = getValueAllowZero(['INDUSTRY', 'Industry', 'industry'], row);
-        
-        // Filter out rows where Company Name or Ticker is N/A (same rule as Benjamin Graham)
-        if (!isValidValue(companyName) || !isValidValue(ticker)) {
-          return null;
-        }
-
-        const mungerQualityScore = parseNumericValueNullable(mungerQualityScoreStr);
-        const valueCreation = parsePercentageValueNullable(valueCreationStr);
-        const leverageF2 = parseNumericValueNullable(leverageF2Str);
-        const currentRatio = parseNumericValueNullable(currentRatioStr);
-        const cashSdebt = parseNumericValueNullable(cashSdebtStr);
-        // Om #DIV/0! detekteras, sätt cashSdebt till 0 istället för null
-        const finalCashSdebt = isCashSdebtDivZero ? 0 : cashSdebt;
-        
-        // Calculate P/E1 INDUSTRY (procentuell skillnad)
-        const pe1 = parseNumericValueNullable(pe1Str);
-        let pe1Industry: number | null = null;
-        
-        if (isValidValue(industryStr) && pe1 !== null && pe1 > 0) {
-          const industryKey = industryStr.trim().toLowerCase();
-          const pe1IndustryMedian = industryPe1Map.get(industryKey);
-          
-          if (pe1IndustryMedian !== undefined && pe1IndustryMedian > 0) {
-            // Calculate percentage difference: (pe1 - pe1IndustryMedian) / pe1IndustryMedian * 100
-            pe1Industry = ((pe1 - pe1IndustryMedian) / pe1IndustryMedian) * 100;
-          }
-        }
-        
-        // Calculate P/E2 INDUSTRY (procentuell skillnad)
-        const pe2 = parseNumericValueNullable(pe2Str);
-        let pe2Industry: number | null = null;
-        
-        if (isValidValue(industryStr) && pe2 !== null && pe2 > 0) {
-          const industryKey = industryStr.trim().toLowerCase();
-          const pe2IndustryMedian = industryPe2Map.get(industryKey);
-          
-          if (pe2IndustryMedian !== undefined && pe2IndustryMedian > 0) {
-            // Calculate percentage difference: (pe2 - pe2IndustryMedian) / pe2IndustryMedian * 100
-            pe2Industry = ((pe2 - pe2IndustryMedian) / pe2IndustryMedian) * 100;
-          }
-        }
-
-        // Match SMA data from SMA table by ticker (colors computed in view from price vs SMA values)
-        const tickerKey = ticker.toLowerCase().trim();
-        const smaMatch = smaDataMap.get(tickerKey);
-
-        return {
-          companyName: companyName,
-          ticker: ticker,
-          industry: industryStr || '',
-          mungerQualityScore: mungerQualityScore,
-          valueCreation: valueCreation,
-          leverageF2: leverageF2,
-          pe1Industry: pe1Industry,
-          pe2Industry: pe2Industry,
-          currentRatio: currentRatio,
-          cashSdebt: finalCashSdebt,
-          isCashSdebtDivZero: isCashSdebtDivZero || false,
-          sma9: smaMatch ? smaMatch.sma9 : null,
-          sma21: smaMatch ? smaMatch.sma21 : null,
-          sma55: smaMatch ? smaMatch.sma55 : null,
-          sma200: smaMatch ? smaMatch.sma200 : null,
-        };
-      })
-      .filter((data): data is ScoreBoardData => data !== null);
-    
-    return scoreBoardData;
+  const lookups = {
+    industryPe1: Object.fromEntries(industryPe1Map),
+    industryPe2: Object.fromEntries(industryPe2Map),
+    sma: Object.fromEntries(smaDataMap),
   };
+  return (results: { data: DataRow[]; meta: { fields: string[] | null } }): ScoreBoardData[] =>
+    transformScoreBoardRows(results.data, lookups);
 }
 
 /**
@@ -206,16 +125,18 @@ export async function fetchScoreBoardData(
     smaDataMapObj[key] = value;
   });
 
+  const universe = getActiveUniverse();
   return fetchWithFallback<ScoreBoardData>({
-    sheetName: 'DashBoard',
+    sheetName: universe.dashboardSheet,
     dataTypeName: 'Score Board',
     transformer,
     requiredColumns: ['Company Name', 'Ticker', 'Munger Quality Score', 'VALUE CREATION'],
+    schema: DASHBOARD_SCHEMA,
     cacheKey: CACHE_KEYS.SCORE_BOARD,
     forceRefresh,
     ttl: DEFAULT_TTL,
     progressCallback,
-    csvUrl: SCORE_BOARD_CSV_URL,
+    csvUrl: getSheetCsvUrl(universe, 'dashboard'),
     additionalData: {
       industryPe1Map: industryPe1MapObj,
       industryPe2Map: industryPe2MapObj,
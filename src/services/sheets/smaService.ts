@@ -7,50 +7,18 @@
 import { SMAData } from '../../types/stock';
 import { CACHE_KEYS, DEFAULT_TTL } from '../firestoreCacheService';
 import { fetchWithFallback } from './fetchService';
-import { getValue, isValidValue, parseNumericValueNullable } from './dataTransformers';
+import { getActiveUniverse } from '../universeService';
+import { getSheetCsvUrl } from '../../config/universes';
+import { transformSMARows } from '../../../shared/sheetTransforms';
+import { SMA_SCHEMA } from '../../../shared/sheetSchema';
 import type { DataRow, ProgressCallback } from './types';
 
-// SMA data configuration (uses same Dashboard sheet as Benjamin Graham)
-const SMA_SHEET_ID = '1KOOSLJVGdDZHBV1MUmb4D9oVIKUJj5TIgYCerjkWYcE';
-const SMA_GID = '1413104083';
-const SMA_CSV_URL = `https://docs.google.com/spreadsheets/d/${SMA_SHEET_ID}/export?format=csv&gid=${SMA_GID}`;
-
 /**
  * Transformer function for SMA data
  * Exported for use in background sync persist.
  */
 export function transformSMAData(results: { data: DataRow[]; meta: { fields: string[] | null } }): SMAData[] {
-  const smaData: SMAData[] = results.data
-    .map((row: DataRow) => {
-      const companyName = getValue(['Company Name', 'Company', 'company'], row);
-      const ticker = getValue(['Ticker', 'ticker', 'Ticket', 'ticket', 'Symbol', 'symbol'], row);
-      const sma9Str = getValue(['SMA(9)', 'sma(9)', 'sma9', 'SMA9'], row);
-      const sma21Str = getValue(['SMA(21)', 'sma(21)', 'sma21', 'SMA21'], row);
-      const sma55Str = getValue(['SMA(55)', 'sma(55)', 'sma55', 'SMA55'], row);
-      const sma200Str = getValue(['SMA(200)', 'SMA(200)', 'sma(200)', 'sma200', 'SMA200'], row);
-
-      // Only skip row if both company name and ticker are invalid (keep row if either is valid, so no row is dropped e.g. ZIM)
-      if (!isValidValue(companyName) && !isValidValue(ticker)) {
-        return null;
-      }
-
-      const sma9 = parseNumericValueNullable(sma9Str);
-      const sma21 = parseNumericValueNullable(sma21Str);
-      const sma55 = parseNumericValueNullable(sma55Str);
-      const sma200 = parseNumericValueNullable(sma200Str);
-
-      return {
-        companyName,
-        ticker,
-        sma9,
-        sma21,
-        sma55,
-        sma200,
-      };
-    })
-    .filter((data): data is SMAData => data !== null);
-
-  return smaData;
+  return transformSMARows(results.data);
 }
 
 /**
@@ -68,15 +36,17 @@ export async function fetchSMAData(
   forceRefresh: boolean = false,
   progressCallback?: ProgressCallback
 ): Promise<SMAData[]> {
+  const universe = getActiveUniverse();
   return fetchWithFallback<SMAData>({
-    sheetName: 'SMA',
+    sheetName: universe.smaSheet,
     dataTypeName: 'SMA',
     transformer: transformSMAData,
     requiredColumns: ['Company Name', 'Ticker', 'SMA(9)', 'SMA(21)', 'SMA(55)', 'SMA(200)'],
+    schema: SMA_SCHEMA,
     cacheKey: CACHE_KEYS.SMA,
     forceRefresh,
     ttl: DEFAULT_TTL,
     progressCallback,
-    csvUrl: SMA_CSV_URL,
+    csvUrl: getSheetCsvUrl(universe, 'sma'),
   });
 }
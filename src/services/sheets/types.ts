@@ -8,7 +8,7 @@
  * Type for row data (compatible with both CSV and JSON)
  * Values can be string, number, or undefined
  */
-export type DataRow = Record<string, string | number | undefined>;
+export type { DataRow } from '../../../shared/sheetTransforms';
 
 /**
  * Progress callback type for tracking fetch progress
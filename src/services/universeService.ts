@@ -0,0 +1,53 @@
+/**
+ * Universe Service
+ *
+ * Holds the active stock universe for the services that read sheets and the appCache / viewData /
+ * industryThresholds documents. UniverseContext sets it (from user preferences or the Header switcher) and
+ * remounts the views, so data hooks reload against the new universe.
+ */
+
+import {
+  DEFAULT_UNIVERSE,
+  DEFAULT_UNIVERSE_ID,
+  getThresholdCollectionPath,
+  parseUniverses,
+  scopeCacheKey,
+  scopeViewId,
+  type UniverseConfig,
+} from '../config/universes';
+
+/** Configured universes (default first) */
+export const UNIVERSES: UniverseConfig[] = parseUniverses(import.meta.env.VITE_UNIVERSES);
+
+let activeUniverse: UniverseConfig = DEFAULT_UNIVERSE;
+
+export function getActiveUniverse(): UniverseConfig {
+  return activeUniverse;
+}
+
+export function isDefaultUniverseActive(): boolean {
+  return activeUniverse.id === DEFAULT_UNIVERSE_ID;
+}
+
+/**
+ * Switch the active universe. Unknown ids fall back to the default universe.
+ */
+export function setActiveUniverse(universeId: string | null): UniverseConfig {
+  activeUniverse = UNIVERSES.find((u) => u.id === universeId) ?? DEFAULT_UNIVERSE;
+  return activeUniverse;
+}
+
+/** appCache key scoped to the active universe */
+export function scopeCacheKeyToActiveUniverse(key: string): string {
+  return scopeCacheKey(key, activeUniverse.id);
+}
+
+/** viewData doc id scoped to the active universe */
+export function scopeViewIdToActiveUniverse(viewId: string): string {
+  return scopeViewId(viewId, activeUniverse.id);
+}
+
+/** industryThresholds collection path of the active universe */
+export function getActiveThresholdCollectionPath(): string {
+  return getThresholdCollectionPath(activeUniverse.id);
+}
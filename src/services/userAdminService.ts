@@ -0,0 +1,69 @@
+/**
+ * User Admin Service
+ *
+ * Client wrappers for the admin user management callables. Roles and allowedViews are custom
+ * claims, so every change goes through Cloud Functions (Admin SDK), which also records it in adminActions.
+ * Affected users see a change after their ID token refreshes (refreshUserRole or next sign-in).
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../config/firebase';
+import { logger } from '../utils/logger';
+import type { ViewId } from '../types/navigation';
+import type { ManagedRole, ManagedUser } from '../types/userAdmin';
+
+export async function listManagedUsers(): Promise<ManagedUser[]> {
+  try {
+    const call = httpsCallable<void, { users: ManagedUser[] }>(functions, 'adminListUsers');
+    const result = await call();
+    return result.data.users ?? [];
+  } catch (error) {
+    logger.error('Failed to list users', error, { component: 'userAdminService', operation: 'listManagedUsers' });
+    throw error;
+  }
+}
+
+/**
+ * Grant (allowed = true) or revoke a single view. Returns the user's resulting allowedViews.
+ */
+export async function setUserViewAccess(uid: string, viewId: ViewId, allowed: boolean): Promise<ViewId[]> {
+  try {
+    const call = httpsCallable<{ uid: string; viewId: ViewId; allowed: boolean }, { success: boolean; allowedViews: ViewId[] }>(
+      functions,
+      'adminSetUserView'
+    );
+    const result = await call({ uid, viewId, allowed });
+    return result.data.allowedViews;
+  } catch (error) {
+    logger.error('Failed to update view access', error, {
+      component: 'userAdminService',
+      operation: 'setUserViewAccess',
+      userId: uid,
+    });
+    throw error;
+  }
+}
+
+export async function setUserRole(uid: string, role: ManagedRole): Promise<void> {
+  try {
+    const call = httpsCallable<{ uid: string; role: ManagedRole }, { success: boolean }>(functions, 'adminSetUserRole');
+    await call({ uid, role });
+  } catch (error) {
+    logger.error('Failed to update user role', error, { component: 'userAdminService', operation: 'setUserRole', userId: uid });
+    throw error;
+  }
+}
+
+export async function setUserDisabled(uid: string, disabled: boolean): Promise<void> {
+  try {
+    const call = httpsCallable<{ uid: string; disabled: boolean }, { success: boolean }>(functions, 'adminSetUserDisabled');
+    await call({ uid, disabled });
+  } catch (error) {
+    logger.error('Failed to update account status', error, {
+      component: 'userAdminService',
+      operation: 'setUserDisabled',
+      userId: uid,
+    });
+    throw error;
+  }
+}
@@ -39,6 +39,11 @@ function toCamelCase(value: string): string {
   ].join('');
 }
 
+/** Doc id of a company's entiryExit document */
+export function getEntryExitDocId(companyName: string): string {
+  return toCamelCase(companyName);
+}
+
 function shouldPersistEntry(entry: { entry1: number; entry2: number; exit1: number; exit2: number; currency: string; dateOfUpdate: string | null }): boolean {
   const hasValues = entry.entry1 !== 0 || entry.entry2 !== 0 || entry.exit1 !== 0 || entry.exit2 !== 0;
   return hasValues || !!entry.dateOfUpdate;
@@ -76,6 +81,35 @@ export async function saveEntryExitValues(
   }
 }
 
+/**
+ * Save changed Entry/Exit fields to Firestore
+ *
+ * Merges only the given fields into entiryExit/{camelCaseCompanyName}, so fields other admins changed since
+ * are kept. Used to replay saves queued while offline.
+ *
+ * @param user - Firebase user object, or null if not authenticated
+ * @param changes - Changed fields per company name
+ */
+export async function saveEntryExitFields(
+  user: User | null,
+  changes: Record<string, Partial<{ entry1: number; entry2: number; exit1: number; exit2: number; currency: string; dateOfUpdate: string | null }>>
+): Promise<void> {
+  if (!user) return;
+
+  try {
+    const batch = writeBatch(db);
+    for (const [companyName, fields] of Object.entries(changes)) {
+      const docId = toCamelCase(companyName);
+      if (!docId || Object.keys(fields).length === 0) continue;
+      batch.set(doc(db, COLLECTIONS.ENTRY_EXIT, docId), { ...fields, companyName }, { merge: true });
+    }
+    await batch.commit();
+  } catch (error) {
+    logger.error('Error saving EntryExit fields to Firestore', error, { component: 'userDataService', operation: 'saveEntryExitFields' });
+    throw error;
+  }
+}
+
 /**
  * Load Entry/Exit values from Firestore
  * 
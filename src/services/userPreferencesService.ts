@@ -12,6 +12,7 @@ export interface NotificationPreferences {
   enabled: boolean;
   desktopNotifications: boolean;
   dataUpdates: boolean;
+  priceAlerts: boolean;
   errors: boolean;
   success: boolean;
   info: boolean;
@@ -25,6 +26,12 @@ export interface NotificationPreferences {
 export interface UserPreferences {
   userId: string;
   notifications: NotificationPreferences;
+  /** Currency that portfolio values, totals and P/L are shown in (ISO 4217) */
+  baseCurrency: string;
+  /** Newest refresh run the user has seen in "what changed since you last looked" */
+  lastSeenRefreshRunAt: Date | null;
+  /** Stock universe selected in the Header (null = default universe) */
+  activeUniverseId: string | null;
   updatedAt: Date;
 }
 
@@ -34,6 +41,7 @@ export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
   enabled: true,
   desktopNotifications: false,
   dataUpdates: true,
+  priceAlerts: true,
   errors: true,
   success: false,
   info: false,
@@ -42,6 +50,30 @@ export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
   doNotDisturb: false,
 };
 
+export const DEFAULT_BASE_CURRENCY = 'USD';
+
+export const DEFAULT_DO_NOT_DISTURB_START = '22:00';
+export const DEFAULT_DO_NOT_DISTURB_END = '07:00';
+
+function toMinutes(hhmm: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(hhmm);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Whether Do Not Disturb is active at the given local time.
+ * The window may wrap midnight (e.g. 22:00–07:00).
+ */
+export function isDoNotDisturbActive(preferences: NotificationPreferences, at: Date = new Date()): boolean {
+  if (!preferences.doNotDisturb) return false;
+  const start = toMinutes(preferences.doNotDisturbStart ?? DEFAULT_DO_NOT_DISTURB_START);
+  const end = toMinutes(preferences.doNotDisturbEnd ?? DEFAULT_DO_NOT_DISTURB_END);
+  if (start === null || end === null || start === end) return false;
+  const now = at.getHours() * 60 + at.getMinutes();
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
 /**
  * Get user preferences from Firestore
  */
@@ -57,7 +89,11 @@ export async function getUserPreferences(userId: string): Promise<UserPreference
     const data = docSnap.data();
     return {
       userId,
-      notifications: (data.notifications as NotificationPreferences) || DEFAULT_NOTIFICATION_PREFERENCES,
+      // Merge with defaults so preferences added later (e.g. priceAlerts) get a value
+      notifications: { ...DEFAULT_NOTIFICATION_PREFERENCES, ...(data.notifications as Partial<NotificationPreferences> | undefined) },
+      baseCurrency: typeof data.baseCurrency === 'string' ? data.baseCurrency : DEFAULT_BASE_CURRENCY,
+      lastSeenRefreshRunAt: data.lastSeenRefreshRunAt instanceof Timestamp ? data.lastSeenRefreshRunAt.toDate() : null,
+      activeUniverseId: typeof data.activeUniverseId === 'string' ? data.activeUniverseId : null,
       updatedAt: (data.updatedAt as Timestamp).toDate(),
     };
   } catch (error) {
@@ -98,6 +134,9 @@ export async function saveUserPreferences(
     const currentPreferences: UserPreferences = existing || {
       userId,
       notifications: DEFAULT_NOTIFICATION_PREFERENCES,
+      baseCurrency: DEFAULT_BASE_CURRENCY,
+      lastSeenRefreshRunAt: null,
+      activeUniverseId: null,
       updatedAt: new Date(),
     };
 
@@ -168,3 +207,24 @@ export async function updateNotificationPreferences(
     throw error;
   }
 }
+
+/**
+ * Update the portfolio base currency
+ */
+export async function updateBaseCurrency(userId: string, baseCurrency: string): Promise<void> {
+  await saveUserPreferences(userId, { baseCurrency });
+}
+
+/**
+ * Mark refresh runs up to `at` as seen
+ */
+export async function updateLastSeenRefreshRun(userId: string, at: Date): Promise<void> {
+  await saveUserPreferences(userId, { lastSeenRefreshRunAt: at });
+}
+
+/**
+ * Remember the selected stock universe
+ */
+export async function updateActiveUniverse(userId: string, activeUniverseId: string | null): Promise<void> {
+  await saveUserPreferences(userId, { activeUniverseId });
+}
@@ -0,0 +1,6 @@
+// firebase-admin stand-in for unit tests that import Cloud Functions modules (aliased in vite.config).
+// Only the pure helpers of those modules are tested; anything that reaches Firestore fails loudly.
+
+export function firestore(): never {
+  throw new Error('firebase-admin is not available in unit tests');
+}
@@ -0,0 +1,25 @@
+// firebase-functions/v1 stand-in for unit tests that import functions/src/index.ts (aliased in vite.config).
+// Triggers return their handler, so callables are invoked directly with (data, context).
+
+export class HttpsError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function handlerOf<T>(handler: T): T {
+  return handler;
+}
+
+export const https = { HttpsError, onCall: handlerOf, onRequest: handlerOf };
+
+export const pubsub = {
+  schedule: () => ({ timeZone: () => ({ onRun: handlerOf }) }),
+};
+
+export function config(): Record<string, undefined> {
+  return {};
+}
@@ -0,0 +1,46 @@
+export type EditTarget = 'threshold' | 'entryExit';
+
+export type EditValue = number | string | null;
+
+/** One committed field change in editHistory (threshold or entry/exit), or a revert of one */
+export interface EditHistoryEntry {
+  id: string;
+  target: EditTarget;
+  action: 'edit' | 'revert';
+  /** industryKey for thresholds, companyName for entry/exit */
+  key: string;
+  ticker: string | null;
+  field: string;
+  oldValue: EditValue;
+  newValue: EditValue;
+  userId: string;
+  userEmail: string | null;
+  timestamp: Date | null;
+  /** Id of the entry this one reverted */
+  revertOf: string | null;
+  /** Universe of a threshold edit (null = default universe) */
+  universeId: string | null;
+}
+
+export type NewEditHistoryEntry = Omit<EditHistoryEntry, 'id' | 'userId' | 'userEmail' | 'timestamp' | 'universeId'>;
+
+/** A row in the audit log view: an adminActions record or an editHistory entry */
+export interface AuditLogRow {
+  id: string;
+  source: 'adminActions' | 'editHistory';
+  /** adminActions action (e.g. adminRefreshCache), or thresholdEdit / thresholdRevert / entryExitEdit / entryExitRevert */
+  action: string;
+  userId: string;
+  timestamp: Date | null;
+  /** Industry key (threshold edits) */
+  industry: string | null;
+  /** Ticker, or company name when the edit has no ticker */
+  ticker: string | null;
+  field: string | null;
+  oldValue: EditValue;
+  newValue: EditValue;
+  /** Short description for adminActions records (views refreshed, target user, errors) */
+  details: string | null;
+  /** Set for editHistory rows; used to revert */
+  edit: EditHistoryEntry | null;
+}
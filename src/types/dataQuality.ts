@@ -0,0 +1,69 @@
+/**
+ * Data quality types: plausibility issues found in the DashBoard rows after each fetch, and the price
+ * baselines the price-move check compares against.
+ */
+
+export type DataQualityCheck = 'priceMove' | 'peOutOfRange' | 'duplicateTicker' | 'unknownIndustry' | 'staleEntryExit';
+
+export type DataQualitySeverity = 'warning' | 'error';
+
+/** The DashBoard values the checks read */
+export interface DataQualityRow {
+  ticker: string;
+  companyName: string;
+  industry: string;
+  price: number | null;
+  pe: number | null;
+  pe1: number | null;
+  pe2: number | null;
+}
+
+export interface DataQualityIssue {
+  check: DataQualityCheck;
+  severity: DataQualitySeverity;
+  ticker: string;
+  companyName: string;
+  /** DashBoard field (or 'dateOfUpdate' for entry/exit values) the issue is about */
+  field: string;
+  value: number | string | null;
+  /** What the value was checked against: previous price, violated bound, row count or maximum age in days */
+  reference: number | string | null;
+}
+
+/** Issues of one ticker, for the drill-down */
+export interface DataQualityTickerIssues {
+  ticker: string;
+  companyName: string;
+  severity: DataQualitySeverity;
+  issues: DataQualityIssue[];
+}
+
+/** Prices per ticker (upper-cased) of one snapshot */
+export interface PriceBaseline {
+  prices: Record<string, number>;
+  takenAt: number;
+}
+
+/**
+ * Price baselines of a universe: the latest snapshot and the one before it. Several hooks load the same
+ * snapshot, so a snapshot equal to `current` is compared with `previous` instead of with itself.
+ */
+export interface PriceBaselines {
+  current: PriceBaseline;
+  previous: PriceBaseline | null;
+}
+
+export interface DataQualityReport {
+  universeId: string;
+  rowCount: number;
+  /** When the baseline the prices were compared with was taken; null on the first snapshot */
+  comparedWith: number | null;
+  issues: DataQualityIssue[];
+  generatedAt: number;
+}
+
+/** Latest report of a universe with the rows it checked, kept in the offline store across sessions */
+export interface StoredDataQuality {
+  report: DataQualityReport;
+  rows: DataQualityRow[];
+}
@@ -41,4 +41,6 @@ export interface ShareableTableState {
   columnFilters?: ColumnFilters;
   searchValue?: string;
   sortConfig?: { key: string; direction: 'asc' | 'desc' };
+  /** Keys of visible columns; omitted = table defaults */
+  visibleColumns?: string[];
 }
@@ -0,0 +1,20 @@
+/**
+ * Industry alias types: the admin-maintained table mapping sheet spellings to canonical industries
+ * (INDUSTRY_MAP keys), fuzzy suggestions and the report of rows whose industry does not resolve.
+ */
+
+export type { IndustryAliasTable } from '../../shared/industries';
+
+export interface IndustrySuggestion {
+  industryKey: string;
+  label: string;
+  /** Similarity in [0, 1] */
+  score: number;
+}
+
+export interface UnresolvedIndustry {
+  /** Industry as written in the sheet ('' when missing) */
+  industry: string;
+  rows: Array<{ ticker: string; companyName: string }>;
+  suggestions: IndustrySuggestion[];
+}
@@ -0,0 +1,44 @@
+/**
+ * ISM Manufacturing data and the macro regime derived from it (ISM Posture & Positioning view, Score view).
+ */
+
+/** One monthly ISM Manufacturing report. Subindices are null when the source has no value. */
+export interface IsmReading {
+  /** Report month, YYYY-MM */
+  date: string;
+  pmi: number;
+  newOrders: number | null;
+  inventories: number | null;
+  prices: number | null;
+}
+
+export type IsmRegime = 'expansion' | 'slowdown' | 'contraction' | 'recovery';
+
+export interface IsmRegimeAssessment {
+  regime: IsmRegime;
+  /** Month the assessment is for, YYYY-MM */
+  date: string;
+  pmi: number;
+  /** PMI change over the trend window, null with only one reading */
+  pmiChange: number | null;
+  /** New Orders minus Inventories, null when either is missing */
+  newOrdersLessInventories: number | null;
+  /** First month of the current run of this regime */
+  since: string;
+}
+
+export type IndustryTilt = 'favored' | 'neutral' | 'unfavored';
+
+export interface IndustryTiltRow {
+  industryKey: string;
+  industry: string;
+  tilt: IndustryTilt;
+}
+
+/** Uploaded ISM history that overrides the sheet tab month by month */
+export interface IsmUpload {
+  readings: IsmReading[];
+  fileName: string | null;
+  updatedBy: string | null;
+  updatedAt: Date | null;
+}
@@ -15,7 +15,10 @@ export type ViewId =
   | 'teknikal-tachart'
   | 'industry-threshold'
   | 'management-monitoring'
-  | 'personal-portfolio';
+  | 'personal-portfolio'
+  | 'admin-users'
+  | 'admin-audit'
+  | 'admin-data-health';
 
 export interface NavigationItem {
   id: ViewId;
@@ -0,0 +1,36 @@
+import type { EditValue } from './audit';
+import type { EntryExitValuesForScore } from './score';
+
+/** Last good viewData payload kept in IndexedDB (key: universe-scoped viewId) */
+export interface LocalViewData<T = unknown> {
+  data: T;
+  /** When the payload was built (viewData/appCache timestamp) */
+  timestamp: number;
+  /** When it was written to IndexedDB */
+  savedAt: number;
+}
+
+/** Delta sync state kept in IndexedDB (key: universe-scoped cache key) */
+export interface LocalDeltaEntry<T = unknown> {
+  data: T;
+  version: number;
+  lastSnapshotAt: number;
+  timestamp: number;
+  keys?: string[];
+}
+
+/** Entry/exit save made while offline, replayed when the connection is back */
+export interface QueuedEntryExitEdit {
+  /** IndexedDB auto-increment id (set once stored) */
+  id?: number;
+  kind: 'entryExit';
+  /** Changed fields per company (companyName → field → value), replayed as per-field merges */
+  changes: Record<string, Partial<EntryExitValuesForScore>>;
+  /** Saved draft values ("companyName.field" → value) for editHistory */
+  committed: Record<string, EditValue>;
+  /** Values before the first unsaved edit ("companyName.field" → value) */
+  baselines: Record<string, EditValue>;
+  /** companyName → ticker of edited rows */
+  tickers: Record<string, string>;
+  queuedAt: number;
+}
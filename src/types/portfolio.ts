@@ -3,8 +3,33 @@
  *
  * Type definitions for Personal Portfolio feature.
  * Supports multi-broker positions per ticker with optional migration from legacy single-position items.
+ * Positions are derived from a per-ticker transaction ledger (see personalPortfolioService).
  */
 
+export type PortfolioTransactionType = 'buy' | 'sell' | 'dividend' | 'fee' | 'split';
+
+/** How the cost of sold shares is determined */
+export type CostBasisMethod = 'fifo' | 'average';
+
+/**
+ * One ledger entry for a ticker at one broker.
+ * Amounts are in `currency`; `fxRateToUSD` is USD per 1 unit of `currency` on the trade date.
+ */
+export interface PortfolioTransaction {
+  id: string;
+  type: PortfolioTransactionType;
+  broker: string;
+  tradeDate: string; // YYYY-MM-DD
+  quantity: number; // Shares bought/sold (buy/sell), 0 otherwise
+  price: number; // Price per share (buy/sell), 0 otherwise
+  amount?: number | null; // Cash amount (dividend/fee)
+  fee?: number | null; // Commission on buy/sell
+  splitRatio?: number | null; // New shares per old share (split), e.g. 2 for a 2:1 split
+  currency: string;
+  fxRateToUSD: number;
+  note?: string | null;
+}
+
 /** Single position at one broker (quantity, invested amount and currency). */
 export interface PortfolioPosition {
   broker: string;
@@ -24,11 +49,30 @@ export interface PortfolioItem {
   investmentCurrency?: string | null; // Legacy; prefer positions
   /** Per-broker positions; if missing, item is normalized from quantity/investedAmount/investmentCurrency */
   positions?: PortfolioPosition[];
+  /** Transaction ledger; positions, quantity and averagePrice are derived from it */
+  transactions?: PortfolioTransaction[];
+  realizedProfitLoss?: number | null; // Realized P/L in USD (sales, dividends and standalone fees), derived
   [key: string]: unknown;
 }
 
 export interface UserPortfolio {
   userId: string;
   portfolio: PortfolioItem[];
+  costBasisMethod: CostBasisMethod;
+  /** Broker import: instrument key (isin:…, symbol:…, name:…) → Score Board ticker */
+  instrumentMappings: Record<string, string>;
+  performanceSettings: PortfolioPerformanceSettings;
   updatedAt: Date;
 }
+
+/** Benchmark used by the performance panel (the base currency is a user preference) */
+export interface PortfolioPerformanceSettings {
+  benchmarkTicker: string | null;
+}
+
+/**
+ * Daily valuation of the whole portfolio (userPortfolios/{userId}/snapshots/{YYYY-MM-DD}), shared with the
+ * Cloud Functions (shared/portfolioSnapshot.ts). Written nightly by dailyPortfolioSnapshot; the Personal
+ * Portfolio view writes today's snapshot only when the scheduled one is missing.
+ */
+export type { PortfolioSnapshot } from '../../shared/portfolioSnapshot';
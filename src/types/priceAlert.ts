@@ -0,0 +1,46 @@
+/**
+ * Per-user price alerts (stored in priceAlerts/{userId}).
+ */
+
+import type { EntryExitValuesForScore } from './score';
+
+/**
+ * What an alert watches. Alerts fire when the condition turns from false to true,
+ * not on every update while it stays true.
+ */
+export type PriceAlertCondition =
+  /** price ≤ Entry1/Entry2 × factor (e.g. 1.05 = within 5 % above entry) */
+  | { type: 'price-below-entry'; target: 'entry1' | 'entry2'; factor: number }
+  /** price ≥ Exit1/Exit2 */
+  | { type: 'price-above-exit'; target: 'exit1' | 'exit2' }
+  /** price ≤ fixed level */
+  | { type: 'price-below'; value: number }
+  /** price ≥ fixed level */
+  | { type: 'price-above'; value: number }
+  /** score rises to or above the level */
+  | { type: 'score-crosses'; value: number }
+  /** TheoEntry turns GREEN (same rule as the TheoEntry column) */
+  | { type: 'theo-entry-green' };
+
+export type PriceAlertConditionType = PriceAlertCondition['type'];
+
+export interface PriceAlert {
+  id: string;
+  ticker: string;
+  companyName: string;
+  condition: PriceAlertCondition;
+  enabled: boolean;
+  createdAt: number;
+  lastTriggeredAt: number | null;
+  /** Condition result at the last evaluation; null until first evaluated */
+  lastState: boolean | null;
+}
+
+/** Latest known market values for one ticker, merged from price and score updates. */
+export interface AlertMarketData {
+  ticker: string;
+  companyName: string;
+  price: number | null;
+  score: number | null;
+  entryExit?: EntryExitValuesForScore;
+}
@@ -0,0 +1,30 @@
+/** Largest change in one score input for one company between two refreshes */
+export interface TopMover {
+  ticker: string;
+  companyName: string;
+  field: string;
+  oldValue: number;
+  newValue: number;
+  /** Relative change in percent (absolute change when the old value is 0) */
+  changePercent: number;
+}
+
+/** Diff of one view's refreshed payload against the previous one (see functions/src/refreshDiffHelpers.ts) */
+export interface ViewRefreshDiff {
+  viewId: string;
+  added: number;
+  removed: number;
+  updated: number;
+  total: number;
+  hasSignificantChanges: boolean;
+  topMovers: TopMover[];
+}
+
+/** One refreshRuns doc, written after every scheduled or manual server refresh */
+export interface RefreshRun {
+  id: string;
+  trigger: 'scheduled' | 'manual';
+  timestamp: Date | null;
+  views: ViewRefreshDiff[];
+  errors: string[];
+}
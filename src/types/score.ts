@@ -3,6 +3,8 @@
  * Kept separate from contexts so domain logic does not depend on React context types.
  */
 
+import type { ScoreMetricId } from '../../shared/scoringModel';
+
 export interface EntryExitValuesForScore {
   entry1: number;
   entry2: number;
@@ -11,3 +13,28 @@ export interface EntryExitValuesForScore {
   currency: string;
   dateOfUpdate: string | null;
 }
+
+/** Scoring model types, shared with the Cloud Functions (shared/scoringModel.ts) */
+export type {
+  ScoreMetricId,
+  ScoreMetricMethod,
+  ScoreMetricCategory,
+  ScoreMetricConfig,
+  ScoreColorFactors,
+  ScoringModel,
+} from '../../shared/scoringModel';
+
+/**
+ * One day of a ticker's score history (scoreHistory/{tickerKey}/snapshots/{date}).
+ * Written by the dailyScoreSnapshot Cloud Function.
+ */
+export interface ScoreSnapshot {
+  /** YYYY-MM-DD (Europe/Stockholm) */
+  date: string;
+  ticker: string;
+  companyName: string;
+  score: number;
+  price: number | null;
+  colors: Partial<Record<ScoreMetricId, 'GREEN' | 'ORANGE' | 'RED' | 'BLANK'>>;
+  modelVersion: number;
+}
@@ -0,0 +1,12 @@
+import type { SheetDiagnostics } from '../../shared/sheetDiagnostics';
+
+export type { SheetColumnDiagnostics, SheetDiagnostics } from '../../shared/sheetDiagnostics';
+
+/** 'session' = fetched by this browser tab; 'server' = written by the last server refresh (sheetDiagnostics/{schemaId}) */
+export type SheetDiagnosticsSource = 'session' | 'server';
+
+/** A sheet diagnostics report as shown in the Data Health admin view */
+export interface SheetDiagnosticsReport extends SheetDiagnostics {
+  source: SheetDiagnosticsSource;
+  universeId: string;
+}
@@ -47,6 +47,8 @@ export interface IndustryThresholdData extends Record<string, unknown> {
   cashSdebtMax: number;
   currentRatioMin: number;
   currentRatioMax: number;
+  /** Normalized industry aliases that resolve to this row (see utils/industryResolution) */
+  aliases?: string[];
 }
 
 export interface SMAData extends Record<string, unknown> {
@@ -0,0 +1,38 @@
+/**
+ * Threshold suggestion types: percentile-based industry thresholds derived from the Score Board population,
+ * with a preview of how many stocks would change color if they were accepted.
+ */
+
+export type ThresholdField =
+  | 'leverageF2Min'
+  | 'leverageF2Max'
+  | 'cashSdebtMin'
+  | 'cashSdebtMax'
+  | 'currentRatioMin'
+  | 'currentRatioMax';
+
+export type ThresholdMetric = 'leverageF2' | 'cashSdebt' | 'currentRatio';
+
+/** The Score Board values the suggestions read */
+export interface ThresholdSuggestionRow {
+  industry: string;
+  leverageF2: number | null;
+  cashSdebt: number | null;
+  isCashSdebtDivZero: boolean;
+  currentRatio: number | null;
+}
+
+export interface IndustryThresholdSuggestion {
+  industryKey: string;
+  industry: string;
+  /** Score Board rows resolving to the industry */
+  stockCount: number;
+  /** Values per metric the percentiles were computed from */
+  sampleSizes: Record<ThresholdMetric, number>;
+  /** Suggested values; metrics with too few values are left out */
+  suggested: Partial<Record<ThresholdField, number>>;
+  /** Stocks whose color changes when only that field is accepted */
+  fieldChanges: Partial<Record<ThresholdField, number>>;
+  /** Stocks with at least one color change when all suggested fields are accepted */
+  industryChanges: number;
+}
@@ -0,0 +1,16 @@
+import type { ViewId } from './navigation';
+
+export type ManagedRole = 'viewer' | 'admin';
+
+/** A user as listed by the adminListUsers callable (userData + Auth record) */
+export interface ManagedUser {
+  uid: string;
+  email: string;
+  role: ManagedRole | null;
+  /** Views granted on top of score and personal-portfolio */
+  allowedViews: ViewId[];
+  disabled: boolean;
+  /** ISO timestamps */
+  createdAt: string | null;
+  lastSignInAt: string | null;
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { EMPTY_AUDIT_FILTERS, filterAuditRows, takeCommittedEdits, toEditAction } from '../auditLog';
+import type { AuditLogRow } from '../../types/audit';
+
+function makeRow(overrides: Partial<AuditLogRow> = {}): AuditLogRow {
+  return {
+    id: 'r1',
+    source: 'editHistory',
+    action: 'thresholdEdit',
+    userId: 'u1',
+    timestamp: new Date(2024, 4, 10, 12, 0),
+    industry: 'semiconductors',
+    ticker: null,
+    field: 'leverageF2Max',
+    oldValue: 2.5,
+    newValue: 25,
+    details: null,
+    edit: null,
+    ...overrides,
+  };
+}
+
+describe('takeCommittedEdits', () => {
+  it('pairs committed values with their baseline and clears those baselines', () => {
+    const baselines = new Map<string, number | string | null>([
+      ['semiconductors.leverageF2Max', 2.5],
+      ['banks.cashSdebtMin', 1],
+    ]);
+    const edits = takeCommittedEdits(baselines, { 'semiconductors.leverageF2Max': 25 });
+    expect(edits).toEqual([{ key: 'semiconductors', field: 'leverageF2Max', oldValue: 2.5, newValue: 25 }]);
+    expect(Array.from(baselines.keys())).toEqual(['banks.cashSdebtMin']);
+  });
+
+  it('skips unchanged values and keys without a baseline', () => {
+    const baselines = new Map<string, number | string | null>([['banks.cashSdebtMin', 1]]);
+    expect(takeCommittedEdits(baselines, { 'banks.cashSdebtMin': 1, 'other.cashSdebtMax': 3 })).toEqual([]);
+    expect(baselines.size).toBe(0);
+  });
+
+  it('splits on the last dot so company names may contain dots', () => {
+    const baselines = new Map<string, number | string | null>([['Apple Inc..entry1', 0]]);
+    expect(takeCommittedEdits(baselines, { 'Apple Inc..entry1': 150 })).toEqual([
+      { key: 'Apple Inc.', field: 'entry1', oldValue: 0, newValue: 150 },
+    ]);
+  });
+});
+
+describe('toEditAction', () => {
+  it('combines target and action', () => {
+    expect(toEditAction({ target: 'threshold', action: 'edit' })).toBe('thresholdEdit');
+    expect(toEditAction({ target: 'entryExit', action: 'revert' })).toBe('entryExitRevert');
+  });
+});
+
+describe('filterAuditRows', () => {
+  const rows = [
+    makeRow(),
+    makeRow({ id: 'r2', action: 'entryExitEdit', userId: 'u2', industry: null, ticker: 'AAPL', timestamp: new Date(2024, 4, 12, 9, 0) }),
+    makeRow({ id: 'r3', source: 'adminActions', action: 'adminRefreshCache', industry: null, timestamp: null }),
+  ];
+
+  it('returns all rows without filters', () => {
+    expect(filterAuditRows(rows, EMPTY_AUDIT_FILTERS)).toHaveLength(3);
+  });
+
+  it('filters by user, action, industry and ticker', () => {
+    expect(filterAuditRows(rows, { ...EMPTY_AUDIT_FILTERS, userId: 'u2' }).map((r) => r.id)).toEqual(['r2']);
+    expect(filterAuditRows(rows, { ...EMPTY_AUDIT_FILTERS, action: 'adminRefreshCache' }).map((r) => r.id)).toEqual(['r3']);
+    expect(filterAuditRows(rows, { ...EMPTY_AUDIT_FILTERS, industry: 'Semi' }).map((r) => r.id)).toEqual(['r1']);
+    expect(filterAuditRows(rows, { ...EMPTY_AUDIT_FILTERS, ticker: 'aap' }).map((r) => r.id)).toEqual(['r2']);
+  });
+
+  it('filters by inclusive date range and drops rows without timestamp', () => {
+    expect(filterAuditRows(rows, { ...EMPTY_AUDIT_FILTERS, from: '2024-05-11' }).map((r) => r.id)).toEqual(['r2']);
+    expect(filterAuditRows(rows, { ...EMPTY_AUDIT_FILTERS, to: '2024-05-10' }).map((r) => r.id)).toEqual(['r1']);
+    expect(filterAuditRows(rows, { ...EMPTY_AUDIT_FILTERS, from: '2024-05-10', to: '2024-05-12' })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  runBacktest,
+  mergeScoreHistory,
+  parsePriceHistoryCsv,
+  getExitTargetPrice,
+  type BacktestRuleSet,
+  type PricePoint,
+} from '../backtest';
+import type { EntryExitValuesForScore } from '../../types/score';
+
+const entryExit: EntryExitValuesForScore = {
+  entry1: 100,
+  entry2: 90,
+  exit1: 160,
+  exit2: 0,
+  currency: 'USD',
+  dateOfUpdate: null,
+};
+
+const scoreRule: BacktestRuleSet = {
+  id: 'score',
+  name: 'Score',
+  buyScoreMin: 70,
+  buyOnTheoEntryGreen: false,
+  sellAt: null,
+  sellScoreBelow: 50,
+};
+
+function point(date: string, close: number, score: number | null = null): PricePoint {
+  return { date, close, score };
+}
+
+describe('backtest', () => {
+  it('uses the RR column fallback for exit targets', () => {
+    // Exit2 is empty, so RR2 (and the Exit2 target) falls back to Exit1
+    expect(getExitTargetPrice(entryExit, 'exit1')).toBeCloseTo(160);
+    expect(getExitTargetPrice(entryExit, 'exit2')).toBeCloseTo(160);
+    expect(getExitTargetPrice(undefined, 'exit1')).toBeNull();
+  });
+
+  it('buys on score and sells when the score drops', () => {
+    const result = runBacktest(
+      [{ ticker: 'AAA', series: [point('2026-01-01', 10, 60), point('2026-01-02', 10, 75), point('2026-01-05', 8, 72), point('2026-01-09', 12, 40)] }],
+      scoreRule
+    );
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({
+      entryDate: '2026-01-02',
+      exitDate: '2026-01-09',
+      returnPct: 20,
+      holdingDays: 7,
+      maxDrawdownPct: 20,
+      exitReason: 'score',
+    });
+    expect(result.hitRate).toBe(100);
+  });
+
+  it('buys when TheoEntry turns GREEN and sells at Exit1', () => {
+    const rule: BacktestRuleSet = { ...scoreRule, buyScoreMin: null, buyOnTheoEntryGreen: true, sellAt: 'exit1', sellScoreBelow: null };
+    const result = runBacktest(
+      [{ ticker: 'AAA', entryExit, series: [point('2026-01-01', 120), point('2026-01-02', 104), point('2026-02-01', 150), point('2026-03-01', 161)] }],
+      rule
+    );
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({ entryPrice: 104, exitPrice: 161, exitReason: 'exit1', plannedRRPct: 60 });
+  });
+
+  it('marks positions still held at the end as open and keeps them out of the hit rate', () => {
+    const result = runBacktest([{ ticker: 'AAA', series: [point('2026-01-01', 10, 80), point('2026-01-02', 9, 80)] }], scoreRule);
+    expect(result.trades[0].exitReason).toBe('open');
+    expect(result.closedTrades).toBe(0);
+    expect(result.hitRate).toBeNull();
+  });
+
+  it('fills missing scores from the latest snapshot on or before each day', () => {
+    const merged = mergeScoreHistory(
+      [point('2026-01-01', 1), point('2026-01-03', 1), point('2026-01-04', 1, 10)],
+      [{ date: '2026-01-02', ticker: 'AAA', companyName: 'A', score: 55, price: 1, colors: {}, modelVersion: 1 }]
+    );
+    expect(merged.map((p) => p.score)).toEqual([null, 55, 10]);
+  });
+
+  it('parses a long-format price CSV', () => {
+    const { series, hasScores, errors } = parsePriceHistoryCsv(
+      'Date,Ticker,Close,Score\n2026-01-02,AAA,"10,5",70\n2026-01-01,AAA,10,\nbad,AAA,1,1\n'
+    );
+    expect(hasScores).toBe(true);
+    expect(errors).toHaveLength(1);
+    expect(series.get('AAA')).toEqual([point('2026-01-01', 10, null), point('2026-01-02', 10.5, 70)]);
+  });
+
+  it('reports missing columns', () => {
+    expect(parsePriceHistoryCsv('Date,Close\n2026-01-01,1\n').errors[0]).toContain('Ticker');
+  });
+});
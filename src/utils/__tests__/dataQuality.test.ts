@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPriceBaseline,
+  checkEntryExitStaleness,
+  checkSnapshotQuality,
+  daysSinceUpdate,
+  groupIssuesByTicker,
+  rotatePriceBaselines,
+  toDataQualityRows,
+  type DataQualityRow,
+} from '../dataQuality';
+
+function row(overrides: Partial<DataQualityRow> = {}): DataQualityRow {
+  return { ticker: 'ACM', companyName: 'Acme', industry: 'Machinery', price: 100, pe: 15, pe1: 14, pe2: 13, ...overrides };
+}
+
+const LIMITS = { maxPriceMovePct: 30, peRange: { min: 0, max: 200 } };
+
+describe('toDataQualityRows', () => {
+  it('reads the DashBoard columns through the schema and drops rows without a ticker', () => {
+    const rows = toDataQualityRows([
+      { 'Company Name': 'Acme', Ticker: 'ACM', INDUSTRY: 'Machinery', Price: '1 234,5', 'P/E': '#N/A', 'P/E1': '12', 'P/E2': '' },
+      { 'Company Name': 'No ticker', Ticker: '' },
+    ]);
+
+    expect(rows).toEqual([
+      { ticker: 'ACM', companyName: 'Acme', industry: 'Machinery', price: 1234.5, pe: null, pe1: 12, pe2: null },
+    ]);
+  });
+});
+
+describe('checkSnapshotQuality', () => {
+  it('returns no issues for plausible rows', () => {
+    expect(checkSnapshotQuality([row()], { ACM: 95 }, LIMITS)).toEqual([]);
+  });
+
+  it('flags price moves above the limit in either direction', () => {
+    const issues = checkSnapshotQuality(
+      [row({ ticker: 'UP', price: 140 }), row({ ticker: 'down', price: 60 }), row({ ticker: 'NEW', price: 10 })],
+      { UP: 100, DOWN: 100 },
+      LIMITS
+    );
+
+    expect(issues.map((i) => [i.check, i.ticker, i.value, i.reference])).toEqual([
+      ['priceMove', 'UP', 140, 100],
+      ['priceMove', 'down', 60, 100],
+    ]);
+  });
+
+  it('does not compare prices on the first snapshot', () => {
+    expect(checkSnapshotQuality([row({ price: 1 })], null, LIMITS)).toEqual([]);
+  });
+
+  it('flags P/E values outside the plausible range with the violated bound', () => {
+    const issues = checkSnapshotQuality([row({ pe: -5, pe1: 250, pe2: 200 })], null, LIMITS);
+
+    expect(issues.map((i) => [i.check, i.field, i.reference])).toEqual([
+      ['peOutOfRange', 'pe', 0],
+      ['peOutOfRange', 'pe1', 200],
+    ]);
+  });
+
+  it('flags every row of a duplicated ticker, case-insensitively', () => {
+    const issues = checkSnapshotQuality([row(), row({ ticker: 'acm ' }), row({ ticker: 'OTH' })], null, LIMITS);
+
+    expect(issues.filter((i) => i.check === 'duplicateTicker')).toHaveLength(2);
+    expect(issues.every((i) => i.severity === 'error' && i.reference === 2)).toBe(true);
+  });
+
+  it('flags industries that are missing or not in INDUSTRY_MAP', () => {
+    const issues = checkSnapshotQuality(
+      [row({ ticker: 'A', industry: ' machinery ' }), row({ ticker: 'B', industry: 'Widgets' }), row({ ticker: 'C', industry: '' })],
+      null,
+      LIMITS
+    );
+
+    expect(issues.map((i) => [i.check, i.ticker, i.value])).toEqual([
+      ['unknownIndustry', 'B', 'Widgets'],
+      ['unknownIndustry', 'C', null],
+    ]);
+  });
+});
+
+describe('rotatePriceBaselines', () => {
+  const first = buildPriceBaseline([row({ price: 100 })], 1);
+  const second = buildPriceBaseline([row({ price: 110 })], 2);
+
+  it('starts without a comparison', () => {
+    expect(rotatePriceBaselines(null, first)).toEqual({ baselines: { current: first, previous: null }, compareWith: null });
+  });
+
+  it('compares a new snapshot with the current baseline and shifts it to previous', () => {
+    const { baselines, compareWith } = rotatePriceBaselines({ current: first, previous: null }, second);
+    expect(compareWith).toBe(first);
+    expect(baselines).toEqual({ current: second, previous: first });
+  });
+
+  it('compares the same snapshot loaded again with the previous baseline', () => {
+    const stored = { current: second, previous: first };
+    const again = buildPriceBaseline([row({ price: 110 })], 3);
+    expect(rotatePriceBaselines(stored, again)).toEqual({ baselines: stored, compareWith: first });
+  });
+});
+
+describe('entry/exit staleness', () => {
+  const now = new Date(2026, 5, 30).getTime();
+
+  it('counts whole days since a YYYY-MM-DD date', () => {
+    expect(daysSinceUpdate('2026-06-20', now)).toBe(10);
+    expect(daysSinceUpdate('not a date', now)).toBeNull();
+  });
+
+  it('flags values older than the limit and skips rows without values', () => {
+    const dates: Record<string, string | null> = { Old: '2025-01-01', Fresh: '2026-06-01', None: null };
+    const issues = checkEntryExitStaleness(
+      [row({ companyName: 'Old' }), row({ companyName: 'Fresh' }), row({ companyName: 'None' })],
+      (_ticker, companyName) => dates[companyName],
+      now,
+      180
+    );
+
+    expect(issues.map((i) => [i.companyName, i.value, i.reference])).toEqual([['Old', '2025-01-01', 180]]);
+  });
+});
+
+describe('groupIssuesByTicker', () => {
+  it('groups per ticker with errors first', () => {
+    const issues = checkSnapshotQuality(
+      [row({ ticker: 'WARN', pe: 500 }), row({ ticker: 'ERR', industry: 'Widgets' }), row({ ticker: 'ERR', industry: 'Widgets' })],
+      null,
+      LIMITS
+    );
+
+    const groups = groupIssuesByTicker(issues);
+
+    expect(groups.map((g) => [g.ticker, g.severity, g.issues.length])).toEqual([
+      ['ERR', 'error', 4],
+      ['WARN', 'warning', 1],
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyKeyOps,
+  applyKeyOpsToRows,
+  computeKeySetHash,
+  matchesKeySetFingerprint,
+  tickerKeyAccessor,
+} from '../deltaSyncIntegrity';
+
+describe('computeKeySetHash', () => {
+  it('ignores order and duplicates', () => {
+    expect(computeKeySetHash(['MSFT', 'AAPL', 'AAPL'])).toBe(computeKeySetHash(['AAPL', 'MSFT']));
+  });
+
+  it('matches the Apps Script implementation', () => {
+    // Values produced by computeKeySetHash in apps-script/Code.gs
+    expect(computeKeySetHash([])).toBe('811c9dc5');
+    expect(computeKeySetHash(['AAPL', 'MSFT'])).toBe('a7b5b459');
+  });
+});
+
+describe('applyKeyOps', () => {
+  it('applies deletes, renames and new upserted keys in order', () => {
+    const keys = applyKeyOps(['AAPL', 'MSFT', 'NVDA'], [
+      { op: 'delete', key: 'MSFT' },
+      { op: 'rename', key: 'NVDA.US', previousKey: 'NVDA' },
+      { op: 'upsert', key: 'AAPL' },
+      { op: 'upsert', key: 'TSLA' },
+    ]);
+    expect(keys).toEqual(['AAPL', 'NVDA.US', 'TSLA']);
+  });
+
+  it('removes a single occurrence per delete', () => {
+    expect(applyKeyOps(['AAPL', 'AAPL'], [{ op: 'delete', key: 'AAPL' }])).toEqual(['AAPL']);
+  });
+});
+
+describe('applyKeyOpsToRows', () => {
+  it('deletes and renames rows through the key accessor', () => {
+    const rows = [
+      { ticker: 'AAPL', companyName: 'Apple' },
+      { ticker: 'MSFT', companyName: 'Microsoft' },
+      { ticker: 'NVDA', companyName: 'Nvidia' },
+    ];
+    const next = applyKeyOpsToRows(
+      rows,
+      [
+        { op: 'delete', key: 'MSFT' },
+        { op: 'rename', key: 'NVDA.US', previousKey: 'NVDA' },
+      ],
+      tickerKeyAccessor()
+    );
+    expect(next).toEqual([
+      { ticker: 'AAPL', companyName: 'Apple' },
+      { ticker: 'NVDA.US', companyName: 'Nvidia' },
+    ]);
+    expect(rows).toHaveLength(3);
+  });
+});
+
+describe('matchesKeySetFingerprint', () => {
+  const keys = ['AAPL', 'MSFT'];
+
+  it('accepts matching row count and hash', () => {
+    expect(matchesKeySetFingerprint(keys, { rowCount: 2, keyHash: computeKeySetHash(keys) })).toBe(true);
+  });
+
+  it('rejects a diverging row count or hash', () => {
+    expect(matchesKeySetFingerprint(keys, { rowCount: 3 })).toBe(false);
+    expect(matchesKeySetFingerprint(keys, { keyHash: computeKeySetHash(['AAPL']) })).toBe(false);
+  });
+
+  it('skips fields the server did not send', () => {
+    expect(matchesKeySetFingerprint(keys, {})).toBe(true);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  attachIndustryAliases,
+  findIndustryThreshold,
+  findUnresolvedIndustries,
+  industrySimilarity,
+  normalizeIndustryName,
+  resolveIndustryKey,
+  suggestIndustries,
+} from '../industryResolution';
+import { getLeverageF2Color } from '../colorThresholds';
+import type { IndustryThresholdData } from '../../types/stock';
+
+function threshold(industryKey: string, industry: string): IndustryThresholdData {
+  return {
+    industryKey,
+    industry,
+    leverageF2Min: 2,
+    leverageF2Max: 3,
+    cashSdebtMin: 0.7,
+    cashSdebtMax: 1.2,
+    currentRatioMin: 1.1,
+    currentRatioMax: 2,
+  };
+}
+
+const thresholdData = [threshold('retailTrade', 'Retail Trade'), threshold('chemicalProducts', 'Chemical Products')];
+
+describe('normalizeIndustryName', () => {
+  it('ignores case, punctuation and spacing and reads & as and', () => {
+    expect(normalizeIndustryName('  Food, Beverage & Tobacco  Products ')).toBe('food beverage and tobacco products');
+  });
+});
+
+describe('resolveIndustryKey', () => {
+  it('resolves canonical labels, keys and aliases', () => {
+    expect(resolveIndustryKey('food beverage and tobacco products')).toBe('foodBeverageAndTobaccoProducts');
+    expect(resolveIndustryKey('retailTrade')).toBe('retailTrade');
+    expect(resolveIndustryKey('Retail')).toBeNull();
+    expect(resolveIndustryKey('Retail', { retail: 'retailTrade' })).toBe('retailTrade');
+  });
+
+  it('ignores empty names and aliases to unknown keys', () => {
+    expect(resolveIndustryKey('  ')).toBeNull();
+    expect(resolveIndustryKey('Retail', { retail: 'notAnIndustry' })).toBeNull();
+  });
+});
+
+describe('findIndustryThreshold', () => {
+  it('matches labels case-insensitively and after normalization', () => {
+    expect(findIndustryThreshold('retail trade', thresholdData)?.industryKey).toBe('retailTrade');
+    expect(findIndustryThreshold('Retail-Trade', thresholdData)?.industryKey).toBe('retailTrade');
+    expect(findIndustryThreshold('', thresholdData)).toBeUndefined();
+  });
+
+  it('matches the aliases attached to the threshold rows', () => {
+    const withAliases = attachIndustryAliases(thresholdData, { retail: 'retailTrade', chemicals: 'chemicalProducts' });
+
+    expect(withAliases.map((row) => row.aliases)).toEqual([['retail'], ['chemicals']]);
+    expect(findIndustryThreshold('Chemicals', withAliases)?.industryKey).toBe('chemicalProducts');
+    expect(findIndustryThreshold('Chemicals', thresholdData)).toBeUndefined();
+  });
+
+  it('gives aliased industries a threshold color instead of BLANK', () => {
+    const withAliases = attachIndustryAliases(thresholdData, { retail: 'retailTrade' });
+
+    expect(getLeverageF2Color(1, 'Retail', thresholdData)).toBe('BLANK');
+    expect(getLeverageF2Color(1, 'Retail', withAliases)).toBe('GREEN');
+  });
+});
+
+describe('suggestIndustries', () => {
+  it('suggests close spellings first', () => {
+    expect(suggestIndustries('Chemical Product')[0].industryKey).toBe('chemicalProducts');
+    expect(suggestIndustries('Utilites')[0].industryKey).toBe('utilities');
+    expect(suggestIndustries('Retail')[0].industryKey).toBe('retailTrade');
+  });
+
+  it('suggests nothing for unrelated names', () => {
+    expect(suggestIndustries('zzz')).toEqual([]);
+  });
+
+  it('scores identical names 1 and disjoint names low', () => {
+    expect(industrySimilarity('mining', 'mining')).toBe(1);
+    expect(industrySimilarity('mining', 'utilities')).toBeLessThan(0.5);
+  });
+});
+
+describe('findUnresolvedIndustries', () => {
+  it('groups rows without a threshold by industry, most rows first', () => {
+    const rows = [
+      { ticker: 'A', companyName: 'A Inc', industry: 'Retail Trade' },
+      { ticker: 'B', companyName: 'B Inc', industry: 'Chemicals' },
+      { ticker: 'C', companyName: 'C Inc', industry: 'Chemicals ' },
+      { ticker: 'D', companyName: 'D Inc', industry: '' },
+    ];
+
+    const report = findUnresolvedIndustries(rows, thresholdData);
+
+    expect(report.map((group) => [group.industry, group.rows.map((row) => row.ticker)])).toEqual([
+      ['Chemicals', ['B', 'C']],
+      ['', ['D']],
+    ]);
+    expect(report[0].suggestions[0].industryKey).toBe('chemicalProducts');
+    expect(report[1].suggestions).toEqual([]);
+  });
+});
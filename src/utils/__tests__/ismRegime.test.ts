@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyIsmHistory,
+  classifyIsmRegime,
+  getIndustryTilt,
+  getIndustryTilts,
+  mergeIsmReadings,
+  toIsmMonth,
+} from '../ismRegime';
+import type { IsmReading } from '../../types/ism';
+
+function reading(date: string, pmi: number, newOrders: number | null = null, inventories: number | null = null): IsmReading {
+  return { date, pmi, newOrders, inventories, prices: null };
+}
+
+function series(pmis: number[]): IsmReading[] {
+  return pmis.map((pmi, i) => reading(`2024-${String(i + 1).padStart(2, '0')}`, pmi));
+}
+
+describe('toIsmMonth', () => {
+  it('normalizes report dates to YYYY-MM', () => {
+    expect(toIsmMonth('2024-3')).toBe('2024-03');
+    expect(toIsmMonth('2024-03-01')).toBe('2024-03');
+    expect(toIsmMonth('March 2024')).toBe('2024-03');
+    expect(toIsmMonth('2024-13')).toBeNull();
+    expect(toIsmMonth('n/a')).toBeNull();
+  });
+});
+
+describe('classifyIsmRegime', () => {
+  it('reads the regime from the PMI level and its trend', () => {
+    expect(classifyIsmRegime(series([50, 51, 52, 53]))?.regime).toBe('expansion');
+    expect(classifyIsmRegime(series([56, 55, 54, 52]))?.regime).toBe('slowdown');
+    expect(classifyIsmRegime(series([50, 49, 48, 46]))?.regime).toBe('contraction');
+    expect(classifyIsmRegime(series([44, 45, 46, 47]))?.regime).toBe('recovery');
+  });
+
+  it('compares with the reading three months back and reports the change', () => {
+    const result = classifyIsmRegime(series([46, 49, 48, 47, 48]));
+    expect(result?.pmiChange).toBeCloseTo(-1);
+    expect(result?.regime).toBe('contraction');
+  });
+
+  it('uses New Orders minus Inventories when the trend is flat or unknown', () => {
+    expect(classifyIsmRegime([reading('2024-01', 48, 52, 47)])?.regime).toBe('recovery');
+    expect(classifyIsmRegime([reading('2024-01', 52, 48, 50)])?.regime).toBe('slowdown');
+    expect(classifyIsmRegime([reading('2024-01', 52)])?.regime).toBe('expansion');
+    expect(classifyIsmRegime([])).toBeNull();
+  });
+
+  it('tracks when the current regime started', () => {
+    const history = classifyIsmHistory(series([47, 48, 49, 51, 52]));
+    expect(history.map((h) => h.regime)).toEqual(['contraction', 'recovery', 'recovery', 'expansion', 'expansion']);
+    expect(history[4].since).toBe('2024-04');
+  });
+});
+
+describe('mergeIsmReadings', () => {
+  it('lets overrides replace months and sorts oldest first', () => {
+    const merged = mergeIsmReadings([reading('2024-02', 50), reading('2024-01', 49)], [reading('2024-02', 51)]);
+    expect(merged.map((r) => [r.date, r.pmi])).toEqual([
+      ['2024-01', 49],
+      ['2024-02', 51],
+    ]);
+  });
+});
+
+describe('industry tilts', () => {
+  it('favors defensives in contraction and matches Dashboard labels case-insensitively', () => {
+    expect(getIndustryTilt('utilities', 'contraction')).toBe('favored');
+    expect(getIndustryTilt('Construction', 'contraction')).toBe('unfavored');
+    expect(getIndustryTilt('Mining', 'contraction')).toBe('neutral');
+    expect(getIndustryTilt('Unknown Industry', 'expansion')).toBe('neutral');
+    expect(getIndustryTilts('recovery')[0].tilt).toBe('favored');
+  });
+});
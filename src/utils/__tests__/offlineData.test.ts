@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { coalesceQueuedEdits, getDataAge, pickCommittedChanges } from '../offlineData';
+import type { QueuedEntryExitEdit } from '../../types/offline';
+
+const values = (entry1: number) => ({ entry1, entry2: 0, exit1: 0, exit2: 0, currency: 'USD', dateOfUpdate: null });
+
+function queued(partial: Partial<QueuedEntryExitEdit> & { queuedAt: number }): QueuedEntryExitEdit {
+  return { kind: 'entryExit', changes: {}, committed: {}, baselines: {}, tickers: {}, ...partial };
+}
+
+describe('coalesceQueuedEdits', () => {
+  it('returns null for an empty queue', () => {
+    expect(coalesceQueuedEdits([])).toBeNull();
+  });
+
+  it('keeps the latest value and the earliest baseline per field', () => {
+    const merged = coalesceQueuedEdits([
+      queued({
+        queuedAt: 2,
+        changes: { Apple: { entry1: 120 } },
+        committed: { 'Apple.entry1': 120 },
+        baselines: { 'Apple.entry1': 110 },
+      }),
+      queued({
+        queuedAt: 1,
+        changes: { Apple: { entry1: 110, exit1: 200 }, Nvidia: { entry1: 50 } },
+        committed: { 'Apple.entry1': 110, 'Nvidia.entry1': 50 },
+        baselines: { 'Apple.entry1': 100, 'Nvidia.entry1': 0 },
+        tickers: { Apple: 'AAPL' },
+      }),
+    ]);
+    expect(merged).toEqual({
+      changes: { Apple: { entry1: 120, exit1: 200 }, Nvidia: { entry1: 50 } },
+      committed: { 'Apple.entry1': 120, 'Nvidia.entry1': 50 },
+      baselines: { 'Apple.entry1': 100, 'Nvidia.entry1': 0 },
+      tickers: { Apple: 'AAPL' },
+    });
+  });
+});
+
+describe('pickCommittedChanges', () => {
+  it('keeps only the committed fields and the dateOfUpdate of edited companies', () => {
+    const changes = pickCommittedChanges(
+      { Apple: { ...values(120), dateOfUpdate: '2024-01-10' }, 'Nvidia Corp.': values(50), Tesla: values(10) },
+      { 'Apple.entry1': 120, 'Nvidia Corp..currency': 'USD' }
+    );
+    expect(changes).toEqual({
+      Apple: { entry1: 120, dateOfUpdate: '2024-01-10' },
+      'Nvidia Corp.': { currency: 'USD', dateOfUpdate: null },
+    });
+  });
+});
+
+describe('getDataAge', () => {
+  const now = Date.UTC(2024, 0, 10, 12, 0);
+
+  it('uses minutes below one hour', () => {
+    expect(getDataAge(now - 59 * 60000, now)).toEqual({ unit: 'minutes', count: 59 });
+  });
+
+  it('uses hours below one day and days above', () => {
+    expect(getDataAge(now - 5 * 3600000, now)).toEqual({ unit: 'hours', count: 5 });
+    expect(getDataAge(now - 50 * 3600000, now)).toEqual({ unit: 'days', count: 2 });
+  });
+
+  it('clamps future timestamps to zero', () => {
+    expect(getDataAge(now + 60000, now)).toEqual({ unit: 'minutes', count: 0 });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { createTradeDateRateLookup, splitUnrealizedProfitLoss } from '../portfolioBaseCurrency';
+import type { PortfolioSnapshot, PortfolioTransaction } from '../../types/portfolio';
+
+function snapshot(date: string, usdToSek: number): PortfolioSnapshot {
+  return {
+    date,
+    valueUSD: 0,
+    baseCurrency: 'SEK',
+    usdToBase: usdToSek,
+    valueBase: 0,
+    usdRates: { SEK: usdToSek },
+    pricesUSD: {},
+    missingPrices: [],
+  };
+}
+
+function buy(overrides: Partial<PortfolioTransaction>): PortfolioTransaction {
+  return {
+    id: 'b1',
+    type: 'buy',
+    broker: 'Avanza',
+    tradeDate: '2024-03-01',
+    quantity: 1,
+    price: 100,
+    currency: 'USD',
+    fxRateToUSD: 1,
+    ...overrides,
+  };
+}
+
+describe('createTradeDateRateLookup', () => {
+  const snapshots = [snapshot('2024-01-01', 10), snapshot('2024-06-01', 10.5)];
+
+  it('uses the latest snapshot rate on or before the trade date', () => {
+    const lookup = createTradeDateRateLookup(snapshots, 'SEK', 11);
+    expect(lookup(buy({}))).toBe(10);
+    expect(lookup(buy({ tradeDate: '2024-07-01' }))).toBe(10.5);
+    expect(lookup(buy({ currency: 'EUR', fxRateToUSD: 1.1 }))).toBeCloseTo(11);
+  });
+
+  it('falls back to today for older trades and is 1 for the base currency itself', () => {
+    const lookup = createTradeDateRateLookup(snapshots, 'SEK', 11);
+    expect(lookup(buy({ tradeDate: '2023-01-01' }))).toBe(11);
+    expect(lookup(buy({ currency: 'sek', fxRateToUSD: 0.09 }))).toBe(1);
+  });
+});
+
+describe('splitUnrealizedProfitLoss', () => {
+  it('separates the price move from the currency move', () => {
+    // 1 share bought at 100 USD when USD/SEK was 10, now 110 USD at 11
+    const split = splitUnrealizedProfitLoss(
+      1210,
+      1000,
+      [{ broker: 'Avanza', quantity: 1, investedAmount: 100, investmentCurrency: 'USD' }],
+      (currency) => (currency === 'USD' ? 11 : null)
+    );
+    expect(split).toEqual({ price: 110, currency: 100 });
+  });
+
+  it('returns null when a currency has no rate', () => {
+    expect(
+      splitUnrealizedProfitLoss(1, 1, [{ broker: 'X', quantity: 1, investedAmount: 1, investmentCurrency: 'EUR' }], () => null)
+    ).toBeNull();
+  });
+});
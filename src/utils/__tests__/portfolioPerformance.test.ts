@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { computePerformance, ledgerCashFlows, xirr } from '../portfolioPerformance';
+import type { PortfolioItem, PortfolioSnapshot } from '../../types/portfolio';
+
+function snapshot(date: string, valueUSD: number, prices: Record<string, number> = {}, sek = 10): PortfolioSnapshot {
+  return {
+    date,
+    valueUSD,
+    baseCurrency: 'SEK',
+    usdToBase: sek,
+    valueBase: valueUSD * sek,
+    usdRates: { SEK: sek },
+    pricesUSD: prices,
+    missingPrices: [],
+  };
+}
+
+const snapshots = [
+  snapshot('2024-01-01', 1000, { IDX: 100 }),
+  snapshot('2024-01-02', 1100, { IDX: 105 }, 11),
+  snapshot('2024-01-03', 2200, { IDX: 110 }),
+  snapshot('2024-01-04', 2420, { IDX: 121 }),
+];
+
+describe('ledgerCashFlows', () => {
+  it('nets buys, sales, dividends and fees per day in USD', () => {
+    const base = { broker: 'Avanza', quantity: 0, price: 0, currency: 'SEK', fxRateToUSD: 0.1 };
+    const item: PortfolioItem = {
+      ticker: 'ABC',
+      companyName: 'ABC',
+      quantity: 5,
+      currency: 'SEK',
+      price: null,
+      averagePrice: null,
+      transactions: [
+        { ...base, id: '1', type: 'buy', tradeDate: '2024-01-01', quantity: 10, price: 100, fee: 10 },
+        { ...base, id: '2', type: 'sell', tradeDate: '2024-02-01', quantity: 5, price: 120, fee: 10 },
+        { ...base, id: '3', type: 'dividend', tradeDate: '2024-02-01', amount: 20 },
+        { ...base, id: '4', type: 'split', tradeDate: '2024-03-01', splitRatio: 2 },
+      ],
+    };
+    expect(ledgerCashFlows([item])).toEqual([
+      { date: '2024-01-01', amount: 101 },
+      { date: '2024-02-01', amount: -61 },
+    ]);
+  });
+});
+
+describe('xirr', () => {
+  it('solves a one-year investment', () => {
+    expect(xirr([{ date: '2023-01-01', amount: -1000 }, { date: '2024-01-01', amount: 1100 }])).toBeCloseTo(0.1, 6);
+  });
+
+  it('returns null without both inflows and outflows', () => {
+    expect(xirr([{ date: '2023-01-01', amount: -1000 }])).toBeNull();
+  });
+});
+
+describe('computePerformance', () => {
+  const flows = [{ date: '2024-01-03', amount: 1100 }];
+
+  it('chains interval returns so deposits do not count as performance', () => {
+    const result = computePerformance(snapshots, flows, { currency: 'USD', benchmarkTicker: 'IDX', startDate: null });
+    expect(result.points.map((p) => p.portfolioReturn)).toEqual([0, expect.closeTo(0.1), expect.closeTo(0.1), expect.closeTo(0.21)]);
+    expect(result.twr).toBeCloseTo(0.21);
+    expect(result.benchmarkReturn).toBeCloseTo(0.21);
+    expect(result.netContributions).toBe(1100);
+  });
+
+  it('converts values and flows to the base currency and limits the window', () => {
+    const result = computePerformance(snapshots, flows, { currency: 'SEK', benchmarkTicker: null, startDate: '2024-01-02' });
+    expect(result.startValue).toBe(12100);
+    // SEK strengthens from 11 to 10 per USD: flat in USD on day 3 is -1/11 in SEK
+    expect(result.points[1].portfolioReturn).toBeCloseTo(-1 / 11);
+    expect(result.points[1].benchmarkReturn).toBeNull();
+    expect(computePerformance(snapshots, flows, { currency: 'EUR', benchmarkTicker: null, startDate: null }).points).toEqual([]);
+  });
+});
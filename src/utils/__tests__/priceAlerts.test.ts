@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { evaluatePriceAlerts, evaluateCondition } from '../priceAlerts';
+import { isDoNotDisturbActive, DEFAULT_NOTIFICATION_PREFERENCES } from '../../services/userPreferencesService';
+import type { AlertMarketData, PriceAlert } from '../../types/priceAlert';
+
+const entryExit = {
+  entry1: 100,
+  entry2: 90,
+  exit1: 160,
+  exit2: 0,
+  currency: 'USD',
+  dateOfUpdate: null,
+};
+
+function makeAlert(overrides: Partial<PriceAlert> = {}): PriceAlert {
+  return {
+    id: 'a1',
+    ticker: 'ABC',
+    companyName: 'ABC Corp',
+    condition: { type: 'price-below-entry', target: 'entry1', factor: 1.05 },
+    enabled: true,
+    createdAt: 0,
+    lastTriggeredAt: null,
+    lastState: null,
+    ...overrides,
+  };
+}
+
+function market(price: number | null, score: number | null = null): Map<string, AlertMarketData> {
+  return new Map([['abc', { ticker: 'ABC', companyName: 'ABC Corp', price, score, entryExit }]]);
+}
+
+describe('evaluatePriceAlerts', () => {
+  it('records state on first evaluation without firing', () => {
+    const result = evaluatePriceAlerts([makeAlert()], market(100), 1000);
+    expect(result.triggered).toHaveLength(0);
+    expect(result.changed).toBe(true);
+    expect(result.alerts[0].lastState).toBe(true);
+  });
+
+  it('fires only when the condition turns true', () => {
+    const first = evaluatePriceAlerts([makeAlert({ lastState: false })], market(104), 1000);
+    expect(first.triggered).toHaveLength(1);
+    expect(first.alerts[0].lastTriggeredAt).toBe(1000);
+
+    const again = evaluatePriceAlerts(first.alerts, market(103), 2000);
+    expect(again.triggered).toHaveLength(0);
+    expect(again.changed).toBe(false);
+  });
+
+  it('keeps previous state when data is missing', () => {
+    const alert = makeAlert({ lastState: false, condition: { type: 'score-crosses', value: 70 } });
+    const result = evaluatePriceAlerts([alert], market(100, null));
+    expect(result.changed).toBe(false);
+    expect(evaluateCondition(alert.condition, market(100, 71).get('abc')!)).toBe(true);
+  });
+});
+
+describe('isDoNotDisturbActive', () => {
+  const prefs = { ...DEFAULT_NOTIFICATION_PREFERENCES, doNotDisturb: true, doNotDisturbStart: '22:00', doNotDisturbEnd: '07:00' };
+
+  it('handles windows that wrap midnight', () => {
+    expect(isDoNotDisturbActive(prefs, new Date(2024, 0, 1, 23, 30))).toBe(true);
+    expect(isDoNotDisturbActive(prefs, new Date(2024, 0, 1, 6, 59))).toBe(true);
+    expect(isDoNotDisturbActive(prefs, new Date(2024, 0, 1, 12, 0))).toBe(false);
+    expect(isDoNotDisturbActive({ ...prefs, doNotDisturb: false }, new Date(2024, 0, 1, 23, 30))).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeRefreshRuns } from '../refreshRuns';
+import type { RefreshRun, TopMover, ViewRefreshDiff } from '../../types/refreshRun';
+
+function mover(ticker: string, field: string, oldValue: number, newValue: number): TopMover {
+  return { ticker, companyName: `${ticker} Corp`, field, oldValue, newValue, changePercent: ((newValue - oldValue) / oldValue) * 100 };
+}
+
+function diff(viewId: string, overrides: Partial<ViewRefreshDiff> = {}): ViewRefreshDiff {
+  return { viewId, added: 0, removed: 0, updated: 0, total: 100, hasSignificantChanges: false, topMovers: [], ...overrides };
+}
+
+function run(id: string, time: string, views: ViewRefreshDiff[]): RefreshRun {
+  return { id, trigger: 'scheduled', timestamp: new Date(time), views, errors: [] };
+}
+
+describe('summarizeRefreshRuns', () => {
+  it('returns an empty summary without runs', () => {
+    expect(summarizeRefreshRuns([])).toEqual({ runs: 0, latestAt: null, views: [], topMovers: [] });
+  });
+
+  it('sums added, removed and updated per view and drops views without changes', () => {
+    const summary = summarizeRefreshRuns([
+      run('a', '2024-05-10T10:00:00Z', [diff('score-board', { added: 1, updated: 3 }), diff('industry-threshold')]),
+      run('b', '2024-05-10T10:30:00Z', [diff('score-board', { removed: 2, updated: 1 })]),
+    ]);
+    expect(summary.runs).toBe(2);
+    expect(summary.latestAt).toEqual(new Date('2024-05-10T10:30:00Z'));
+    expect(summary.views).toEqual([{ viewId: 'score-board', added: 1, removed: 2, updated: 4 }]);
+  });
+
+  it('nets a mover across runs from its first old value to its last new value', () => {
+    const summary = summarizeRefreshRuns([
+      run('a', '2024-05-10T10:00:00Z', [diff('score-board', { topMovers: [mover('ABC', 'leverageF2', 2, 3), mover('XYZ', 'currentRatio', 1, 1.5)] })]),
+      run('b', '2024-05-10T10:30:00Z', [diff('score-board', { topMovers: [mover('ABC', 'leverageF2', 3, 4), mover('XYZ', 'currentRatio', 1.5, 1)] })]),
+    ]);
+    expect(summary.topMovers).toHaveLength(1);
+    expect(summary.topMovers[0]).toMatchObject({ ticker: 'ABC', oldValue: 2, newValue: 4, changePercent: 100 });
+  });
+
+  it('orders movers by absolute change and applies the limit', () => {
+    const summary = summarizeRefreshRuns(
+      [run('a', '2024-05-10T10:00:00Z', [diff('score-board', { topMovers: [mover('A', 'sma200', 100, 110), mover('B', 'sma200', 100, 50), mover('C', 'sma200', 100, 120)] })])],
+      2
+    );
+    expect(summary.topMovers.map((m) => m.ticker)).toEqual(['B', 'C']);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { calculateScore } from '../calculateScore';
+import { calculateDetailedScore, calculateDetailedScoreBreakdown } from '../calculateScoreDetailed';
+import { parseScoringModel, validateScoringModel, getTotalWeight } from '../scoringModel';
+import { DEFAULT_SCORING_MODEL } from '../../config/scoringModel';
+import type { ScoreBoardData } from '../../types/stock';
+import type { ScoringModel } from '../../types/score';
+
+function createScoreBoardData(partial: Partial<ScoreBoardData> = {}): ScoreBoardData {
+  return {
+    companyName: 'Test Co',
+    ticker: 'TEST',
+    industry: '',
+    mungerQualityScore: null,
+    valueCreation: null,
+    leverageF2: null,
+    pe1Industry: null,
+    pe2Industry: null,
+    currentRatio: null,
+    cashSdebt: null,
+    isCashSdebtDivZero: false,
+    sma9: null,
+    sma21: null,
+    sma55: null,
+    sma200: null,
+    ...partial,
+  };
+}
+
+function withMetrics(patch: (m: ScoringModel['metrics'][number]) => Partial<ScoringModel['metrics'][number]>): ScoringModel {
+  return {
+    ...DEFAULT_SCORING_MODEL,
+    version: 7,
+    metrics: DEFAULT_SCORING_MODEL.metrics.map((m) => ({ ...m, ...patch(m) })),
+  };
+}
+
+describe('scoring model', () => {
+  it('default model keeps the 100-point total', () => {
+    expect(getTotalWeight(DEFAULT_SCORING_MODEL)).toBe(100);
+  });
+
+  it('calculateScore and calculateDetailedScore agree under the default model', () => {
+    const data = createScoreBoardData({ valueCreation: 5, mungerQualityScore: 50, sma9Color: 'GREEN' });
+    // VALUE CREATION 9 (GREEN) + Munger 12 * 0.7 (ORANGE) + SMA(9) 2.5 (GREEN) = 19.9
+    expect(calculateScore(data, [], [], new Map())).toBe(19.9);
+    expect(calculateDetailedScore(data, [], [], new Map())).toBe(19.9);
+  });
+
+  it('scales against enabled metrics only', () => {
+    const model = withMetrics((m) => ({ enabled: m.id === 'valueCreation' }));
+    const data = createScoreBoardData({ valueCreation: 5, mungerQualityScore: 80 });
+    expect(calculateScore(data, [], [], new Map(), model)).toBe(100);
+  });
+
+  it('applies model color factors for 3Band metrics', () => {
+    const model: ScoringModel = {
+      ...withMetrics((m) => ({ enabled: m.id === 'mungerQualityScore' })),
+      colorFactors: { GREEN: 1, ORANGE: 0.5, RED: 0, BLANK: 0 },
+    };
+    const data = createScoreBoardData({ mungerQualityScore: 50 });
+    expect(calculateDetailedScore(data, [], [], new Map(), model)).toBe(50);
+  });
+
+  it('breakdown carries model version and category maxima', () => {
+    const model = withMetrics((m) => (m.id === 'theoEntry' ? { weight: 20 } : {}));
+    const breakdown = calculateDetailedScoreBreakdown(createScoreBoardData(), [], [], new Map(), model);
+    expect(breakdown.modelVersion).toBe(7);
+    expect(breakdown.fundamentalMax).toBe(50);
+    expect(breakdown.technicalMax).toBe(25);
+    expect(breakdown.items.find((i) => i.metricId === 'theoEntry')?.weight).toBe(20);
+  });
+
+  describe('validateScoringModel', () => {
+    it('accepts the default model', () => {
+      expect(validateScoringModel(DEFAULT_SCORING_MODEL)).toEqual([]);
+    });
+    it('rejects out-of-range color factors', () => {
+      const errors = validateScoringModel({
+        metrics: DEFAULT_SCORING_MODEL.metrics,
+        colorFactors: { ...DEFAULT_SCORING_MODEL.colorFactors, ORANGE: 1.5 },
+      });
+      expect(errors).toHaveLength(1);
+    });
+    it('rejects a model without any active weight', () => {
+      const model = withMetrics(() => ({ enabled: false }));
+      expect(validateScoringModel(model).length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('parseScoringModel', () => {
+    it('returns null for invalid documents', () => {
+      expect(parseScoringModel(null)).toBeNull();
+      expect(parseScoringModel({ version: 'x', metrics: [] })).toBeNull();
+    });
+    it('adds metrics missing from the document as disabled', () => {
+      const model = parseScoringModel({
+        version: 3,
+        metrics: [{ id: 'valueCreation', weight: 10, method: '3Band', enabled: true }],
+        colorFactors: { GREEN: 1, ORANGE: 0.7, RED: 0, BLANK: 0 },
+        updatedBy: 'admin-uid',
+      });
+      expect(model?.version).toBe(3);
+      expect(model?.updatedBy).toBe('admin-uid');
+      expect(model?.metrics).toHaveLength(DEFAULT_SCORING_MODEL.metrics.length);
+      expect(model?.metrics.find((m) => m.id === 'theoEntry')?.enabled).toBe(false);
+      expect(getTotalWeight(model!)).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeSharedTableLink,
+  decodeSharedTableLink,
+  buildSharedTableUrl,
+  SHARE_STATE_PARAM,
+  type SharedTableLink,
+} from '../shareableTableState';
+
+const link: SharedTableLink = {
+  viewId: 'score-board',
+  tableId: 'score-board',
+  state: {
+    filterState: { industry: 'Bank', pe: { min: 5, max: 15 } },
+    columnFilters: { ticker: { columnKey: 'ticker', type: 'values', selectedValues: ['ERIC B', 'Å&Ö'] } },
+    searchValue: 'västra',
+    sortConfig: { key: 'score', direction: 'desc' },
+    visibleColumns: ['companyName', 'ticker', 'score'],
+  },
+};
+
+function encodeRaw(payload: unknown): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+describe('shareableTableState', () => {
+  it('round-trips table state through a URL-safe parameter', () => {
+    const encoded = encodeSharedTableLink(link);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeSharedTableLink(encoded)).toEqual({ ok: true, link });
+  });
+
+  it('omits empty state', () => {
+    const encoded = encodeSharedTableLink({ viewId: 'sma', tableId: 'sma-100', state: { filterState: {}, searchValue: '' } });
+    expect(decodeSharedTableLink(encoded)).toEqual({ ok: true, link: { viewId: 'sma', tableId: 'sma-100', state: {} } });
+  });
+
+  it('reports links from another payload version as outdated', () => {
+    expect(decodeSharedTableLink(encodeRaw({ v: 0, w: 'score', t: 'score' }))).toEqual({ ok: false, reason: 'outdated' });
+  });
+
+  it('rejects garbage and malformed payloads', () => {
+    expect(decodeSharedTableLink('not base64!')).toEqual({ ok: false, reason: 'invalid' });
+    expect(decodeSharedTableLink(encodeRaw({ v: 1, w: 'score', t: 'score', s: ['score', 'up'] }))).toEqual({ ok: false, reason: 'invalid' });
+    expect(decodeSharedTableLink(encodeRaw({ v: 1, w: 'score', t: 'score', c: { ticker: { type: 'values' } } }))).toEqual({ ok: false, reason: 'invalid' });
+  });
+
+  it('builds a link to the view route under the app base path', () => {
+    expect(new URL(buildSharedTableUrl(link, 'https://example.com/')).pathname).toBe('/score-board');
+    const url = new URL(buildSharedTableUrl(link, 'https://example.com/app/'));
+    expect(url.pathname).toBe('/app/score-board');
+    expect(url.searchParams.get(SHARE_STATE_PARAM)).toBe(encodeSharedTableLink(link));
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { getColumnStatus, getReportStatus, sortSheetDiagnosticsReports } from '../sheetDiagnostics';
+import type { SheetColumnDiagnostics, SheetDiagnosticsReport } from '../../types/sheetDiagnostics';
+
+function col(overrides: Partial<SheetColumnDiagnostics> = {}): SheetColumnDiagnostics {
+  return { field: 'price', type: 'number', required: false, header: 'Price', filled: 10, parseFailures: 0, parseFailureRate: 0, ...overrides };
+}
+
+function report(overrides: Partial<SheetDiagnosticsReport> = {}): SheetDiagnosticsReport {
+  return {
+    schemaId: 'dashboard',
+    sheetName: 'DashBoard',
+    rowCount: 10,
+    unmappedHeaders: [],
+    missingRequired: [],
+    columns: [col()],
+    generatedAt: 0,
+    source: 'session',
+    universeId: 'default',
+    ...overrides,
+  };
+}
+
+describe('getColumnStatus', () => {
+  it('flags missing columns by requiredness and high failure rates as warnings', () => {
+    expect(getColumnStatus(col())).toBe('ok');
+    expect(getColumnStatus(col({ header: null, required: true }))).toBe('error');
+    expect(getColumnStatus(col({ header: null }))).toBe('warning');
+    expect(getColumnStatus(col({ parseFailures: 2, parseFailureRate: 0.2 }))).toBe('warning');
+  });
+});
+
+describe('getReportStatus', () => {
+  it('is the worst column status', () => {
+    expect(getReportStatus(report())).toBe('ok');
+    expect(getReportStatus(report({ columns: [col(), col({ header: null })] }))).toBe('warning');
+    expect(getReportStatus(report({ missingRequired: ['ticker'] }))).toBe('error');
+  });
+});
+
+describe('sortSheetDiagnosticsReports', () => {
+  it('orders by schema, then session before server, then newest first', () => {
+    const sorted = sortSheetDiagnosticsReports([
+      report({ schemaId: 'sma', generatedAt: 1 }),
+      report({ source: 'server', generatedAt: 5 }),
+      report({ generatedAt: 2 }),
+      report({ generatedAt: 3 }),
+    ]);
+
+    expect(sorted.map((r) => [r.schemaId, r.source, r.generatedAt])).toEqual([
+      ['dashboard', 'session', 3],
+      ['dashboard', 'session', 2],
+      ['dashboard', 'server', 5],
+      ['sma', 'session', 1],
+    ]);
+  });
+});
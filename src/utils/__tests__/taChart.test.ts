@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildTAChartPoints, computeSMA, findSMAFlips, hasOHLC, parsePriceBarsCsv, type PriceBar } from '../taChart';
+import { createLocalPriceSource } from '../../services/priceSeriesService';
+
+vi.mock('../../config/firebase', () => ({ db: {} }));
+
+function closes(values: number[]): PriceBar[] {
+  return values.map((close, i) => ({
+    date: `2024-01-${String(i + 1).padStart(2, '0')}`,
+    open: null,
+    high: null,
+    low: null,
+    close,
+  }));
+}
+
+describe('computeSMA', () => {
+  it('averages the trailing window and is null until it is full', () => {
+    expect(computeSMA([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+});
+
+describe('findSMAFlips', () => {
+  it('marks the days where price crossed the SMA', () => {
+    // SMA(9) is flat at 10 for the first nine days, then price moves above and back below it
+    const points = buildTAChartPoints(closes([10, 10, 10, 10, 10, 10, 10, 10, 9, 12, 12, 8, 8]));
+    const flips = findSMAFlips(points, 9);
+    expect(flips.map((f) => [f.date, f.color])).toEqual([
+      ['2024-01-10', 'GREEN'],
+      ['2024-01-12', 'RED'],
+    ]);
+  });
+
+  it('does not flip on the first colored day', () => {
+    const points = buildTAChartPoints(closes([5, 5, 5, 5, 5, 5, 5, 5, 5, 6]));
+    expect(findSMAFlips(points, 9)).toEqual([]);
+  });
+});
+
+describe('parsePriceBarsCsv', () => {
+  it('reads OHLC rows for the default ticker, oldest first', () => {
+    const csv = 'Date,Open,High,Low,Close\n2024-01-03,11,12,10,11.5\n2024-01-02,10,11,9,10.5\nbad,1,1,1,1\n';
+    const series = parsePriceBarsCsv(csv, 'abc');
+    const bars = series.get('ABC') ?? [];
+    expect(bars.map((b) => b.date)).toEqual(['2024-01-02', '2024-01-03']);
+    expect(hasOHLC(bars)).toBe(true);
+    expect(buildTAChartPoints(bars)[0].candle).toEqual([9, 11]);
+  });
+
+  it('splits by ticker column and requires Date and Close', () => {
+    const series = parsePriceBarsCsv('Date,Ticker,Close\n2024-01-02,AAA,1\n2024-01-02,BBB,2\n', '');
+    expect([...series.keys()]).toEqual(['AAA', 'BBB']);
+    expect(hasOHLC(series.get('AAA') ?? [])).toBe(false);
+    expect(parsePriceBarsCsv('Date,Open\n2024-01-02,1\n', 'X').size).toBe(0);
+  });
+});
+
+describe('createLocalPriceSource', () => {
+  it('serves series offline with case-insensitive tickers', async () => {
+    const source = createLocalPriceSource('test', new Map([['abc', closes([1, 2])]]));
+    expect(await source.loadSeries('ABC ')).toHaveLength(2);
+    expect(await source.loadSeries('XYZ')).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { countColorChanges, metricValues, percentile, suggestIndustryThresholds } from '../thresholdSuggestions';
+import type { IndustryThresholdData } from '../../types/stock';
+import type { ThresholdSuggestionRow } from '../../types/thresholdSuggestion';
+
+const retail: IndustryThresholdData = {
+  industryKey: 'retailTrade',
+  industry: 'Retail Trade',
+  leverageF2Min: 2,
+  leverageF2Max: 3,
+  cashSdebtMin: 0.7,
+  cashSdebtMax: 1.2,
+  currentRatioMin: 1.1,
+  currentRatioMax: 2,
+  aliases: ['retail'],
+};
+
+function row(values: Partial<ThresholdSuggestionRow>): ThresholdSuggestionRow {
+  return { industry: 'Retail Trade', leverageF2: null, cashSdebt: null, isCashSdebtDivZero: false, currentRatio: null, ...values };
+}
+
+describe('percentile', () => {
+  it('interpolates linearly between the closest ranks', () => {
+    expect(percentile([5, 1, 3, 2, 4], 25)).toBe(2);
+    expect(percentile([5, 1, 3, 2, 4], 75)).toBe(4);
+    expect(percentile([1, 2], 50)).toBe(1.5);
+    expect(percentile([7], 90)).toBe(7);
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe('metricValues', () => {
+  it('skips missing values and Cash/SDebt without debt', () => {
+    const rows = [row({ cashSdebt: 1 }), row({ cashSdebt: null }), row({ cashSdebt: Infinity, isCashSdebtDivZero: true })];
+    expect(metricValues(rows, 'cashSdebt')).toEqual([1]);
+  });
+});
+
+describe('countColorChanges', () => {
+  it('counts rows whose color differs in any of the metrics', () => {
+    const rows = [row({ leverageF2: 1 }), row({ leverageF2: 2.5 }), row({ leverageF2: 3.5 })];
+    expect(countColorChanges(rows, retail, { ...retail, leverageF2Max: 4 })).toBe(1);
+    expect(countColorChanges(rows, retail, { ...retail, leverageF2Min: 3, leverageF2Max: 4 })).toBe(2);
+    expect(countColorChanges(rows, retail, { ...retail, leverageF2Max: 4 }, ['currentRatio'])).toBe(0);
+  });
+});
+
+describe('suggestIndustryThresholds', () => {
+  const rows = [1, 2, 3, 4, 5].map((leverageF2) => row({ leverageF2, industry: leverageF2 === 5 ? 'Retail' : 'Retail Trade' }));
+
+  it('suggests percentile bands per industry, aliases included', () => {
+    const [suggestion] = suggestIndustryThresholds([...rows, row({ industry: 'Unknown', leverageF2: 99 })], [retail]);
+    expect(suggestion.industryKey).toBe('retailTrade');
+    expect(suggestion.stockCount).toBe(5);
+    expect(suggestion.suggested).toEqual({ leverageF2Min: 2, leverageF2Max: 4 });
+    expect(suggestion.sampleSizes).toEqual({ leverageF2: 5, cashSdebt: 0, currentRatio: 0 });
+  });
+
+  it('previews the color changes per field and per industry', () => {
+    const [suggestion] = suggestIndustryThresholds(rows, [retail], { lower: 10, upper: 90 });
+    expect(suggestion.suggested).toEqual({ leverageF2Min: 1.4, leverageF2Max: 4.6 });
+    expect(suggestion.fieldChanges).toEqual({ leverageF2Min: 1, leverageF2Max: 1 });
+    expect(suggestion.industryChanges).toBe(2);
+  });
+
+  it('leaves out metrics with too few values', () => {
+    const [suggestion] = suggestIndustryThresholds(rows, [retail], undefined, 6);
+    expect(suggestion.suggested).toEqual({});
+    expect(suggestion.industryChanges).toBe(0);
+  });
+});
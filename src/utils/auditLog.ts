@@ -0,0 +1,69 @@
+/**
+ * Audit log helpers: turning committed drafts into edit records and filtering audit rows.
+ */
+
+import type { AuditLogRow, EditHistoryEntry, EditValue } from '../types/audit';
+
+export interface CommittedEdit {
+  /** Draft key prefix: industryKey or companyName */
+  key: string;
+  field: string;
+  oldValue: EditValue;
+  newValue: EditValue;
+}
+
+export interface AuditLogFilters {
+  userId: string;
+  industry: string;
+  ticker: string;
+  action: string;
+  /** YYYY-MM-DD, inclusive; empty for no bound */
+  from: string;
+  to: string;
+}
+
+export const EMPTY_AUDIT_FILTERS: AuditLogFilters = { userId: '', industry: '', ticker: '', action: '', from: '', to: '' };
+
+export function toEditAction(edit: Pick<EditHistoryEntry, 'target' | 'action'>): string {
+  return `${edit.target}${edit.action === 'edit' ? 'Edit' : 'Revert'}`;
+}
+
+/**
+ * Pairs each committed draft value ("key.field" → value) with the value it had before the first unsaved edit.
+ * Baselines of committed keys are removed; keys without a baseline or whose value did not change are skipped.
+ */
+export function takeCommittedEdits(baselines: Map<string, EditValue>, committed: Record<string, EditValue>): CommittedEdit[] {
+  const edits: CommittedEdit[] = [];
+  for (const [draftKey, newValue] of Object.entries(committed)) {
+    if (!baselines.has(draftKey)) continue;
+    const oldValue = baselines.get(draftKey) ?? null;
+    baselines.delete(draftKey);
+    if (oldValue === newValue) continue;
+    const dot = draftKey.lastIndexOf('.');
+    edits.push({ key: draftKey.slice(0, dot), field: draftKey.slice(dot + 1), oldValue, newValue });
+  }
+  return edits;
+}
+
+function toDayKey(date: Date): string {
+  return date.toLocaleDateString('sv-SE');
+}
+
+export function filterAuditRows(rows: AuditLogRow[], filters: AuditLogFilters): AuditLogRow[] {
+  const industry = filters.industry.trim().toLowerCase();
+  const ticker = filters.ticker.trim().toLowerCase();
+
+  return rows.filter((row) => {
+    if (filters.userId && row.userId !== filters.userId) return false;
+    if (filters.action && row.action !== filters.action) return false;
+    if (industry && !(row.industry ?? '').toLowerCase().includes(industry)) return false;
+    if (ticker && !(row.ticker ?? '').toLowerCase().includes(ticker)) return false;
+    if (filters.from || filters.to) {
+      if (!row.timestamp) return false;
+      const day = toDayKey(row.timestamp);
+      if (filters.from && day < filters.from) return false;
+      if (filters.to && day > filters.to) return false;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,274 @@
+/**
+ * Score backtesting.
+ * Replays daily prices and scores against buy/sell rule sets. TheoEntry and the
+ * Exit1/Exit2 targets use the same logic as the tables (theoEntryLogic), so a
+ * simulated signal fires on exactly the days the tables would have colored it.
+ */
+
+import Papa from 'papaparse';
+import { isTheoEntryGreen, getRR1Value, getRR2Value } from './colorThresholds/theoEntryLogic';
+import type { EntryExitValuesForScore, ScoreSnapshot } from '../types/score';
+
+export interface PricePoint {
+  /** YYYY-MM-DD */
+  date: string;
+  close: number;
+  /** Score that day (0–100), null when unknown */
+  score: number | null;
+}
+
+export interface BacktestTickerInput {
+  ticker: string;
+  /** Sorted by date, oldest first */
+  series: PricePoint[];
+  entryExit?: EntryExitValuesForScore;
+}
+
+export type BacktestExitTarget = 'exit1' | 'exit2';
+
+export interface BacktestRuleSet {
+  id: string;
+  name: string;
+  /** Buy when the score reaches this level (null = not used) */
+  buyScoreMin: number | null;
+  /** Buy when TheoEntry turns GREEN */
+  buyOnTheoEntryGreen: boolean;
+  /** Sell when price reaches Exit1/Exit2 (null = not used) */
+  sellAt: BacktestExitTarget | null;
+  /** Sell when the score drops below this level (null = not used) */
+  sellScoreBelow: number | null;
+}
+
+export type BacktestExitReason = BacktestExitTarget | 'score' | 'open';
+
+export interface BacktestTrade {
+  ticker: string;
+  entryDate: string;
+  entryPrice: number;
+  exitDate: string;
+  exitPrice: number;
+  returnPct: number;
+  holdingDays: number;
+  /** Largest peak-to-trough fall while the position was held */
+  maxDrawdownPct: number;
+  exitReason: BacktestExitReason;
+  /** RR1/RR2 (%) at entry for the chosen exit target, as shown in the tables */
+  plannedRRPct: number | null;
+}
+
+export interface BacktestResult {
+  ruleSet: BacktestRuleSet;
+  trades: BacktestTrade[];
+  closedTrades: number;
+  /** Share of closed trades with a positive return (0–100) */
+  hitRate: number | null;
+  avgReturnPct: number | null;
+  /** Sum of closed trade returns (one equal-sized position per trade) */
+  totalReturnPct: number;
+  maxDrawdownPct: number | null;
+  avgHoldingDays: number | null;
+}
+
+export const DEFAULT_BACKTEST_RULE_SETS: BacktestRuleSet[] = [
+  { id: 'score-70', name: 'Score ≥ 70 → Exit1 / < 50', buyScoreMin: 70, buyOnTheoEntryGreen: false, sellAt: 'exit1', sellScoreBelow: 50 },
+  { id: 'theo-entry', name: 'TheoEntry GREEN → Exit2', buyScoreMin: null, buyOnTheoEntryGreen: true, sellAt: 'exit2', sellScoreBelow: null },
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Exit price for a target, using the same Exit1 ↔ Exit2 fallback as the RR1/RR2 columns.
+ */
+export function getExitTargetPrice(
+  entryExit: EntryExitValuesForScore | undefined,
+  target: BacktestExitTarget
+): number | null {
+  if (!entryExit) return null;
+  const rr = target === 'exit1' ? getRR1Value(entryExit) : getRR2Value(entryExit);
+  const entry = target === 'exit1' ? entryExit.entry1 : entryExit.entry2;
+  if (rr === null || !entry) return null;
+  return entry * (1 + rr / 100);
+}
+
+function isBuySignal(
+  ruleSet: BacktestRuleSet,
+  point: PricePoint,
+  entryExit: EntryExitValuesForScore | undefined
+): boolean {
+  const scoreBuy = ruleSet.buyScoreMin !== null && point.score !== null && point.score >= ruleSet.buyScoreMin;
+  const theoBuy = ruleSet.buyOnTheoEntryGreen && isTheoEntryGreen(entryExit, point.close);
+  return scoreBuy || theoBuy;
+}
+
+function simulateTicker(input: BacktestTickerInput, ruleSet: BacktestRuleSet): BacktestTrade[] {
+  const trades: BacktestTrade[] = [];
+  const target = ruleSet.sellAt ? getExitTargetPrice(input.entryExit, ruleSet.sellAt) : null;
+  const plannedRRPct = ruleSet.sellAt === 'exit1'
+    ? getRR1Value(input.entryExit)
+    : ruleSet.sellAt === 'exit2'
+      ? getRR2Value(input.entryExit)
+      : null;
+
+  let position: { entryDate: string; entryPrice: number; peak: number; maxDrawdownPct: number } | null = null;
+  let wasSignal = false;
+
+  const close = (point: PricePoint, exitReason: BacktestExitReason) => {
+    if (!position) return;
+    trades.push({
+      ticker: input.ticker,
+      entryDate: position.entryDate,
+      entryPrice: position.entryPrice,
+      exitDate: point.date,
+      exitPrice: point.close,
+      returnPct: round(((point.close - position.entryPrice) / position.entryPrice) * 100),
+      holdingDays: daysBetween(position.entryDate, point.date),
+      maxDrawdownPct: round(position.maxDrawdownPct),
+      exitReason,
+      plannedRRPct: plannedRRPct !== null ? round(plannedRRPct) : null,
+    });
+    position = null;
+  };
+
+  for (const point of input.series) {
+    if (!(point.close > 0)) continue;
+    // Signals fire on the day a condition becomes true, not on every day it stays true
+    const signal = isBuySignal(ruleSet, point, input.entryExit);
+    const signalTurnedOn = signal && !wasSignal;
+    wasSignal = signal;
+
+    if (position) {
+      position.peak = Math.max(position.peak, point.close);
+      position.maxDrawdownPct = Math.max(position.maxDrawdownPct, ((position.peak - point.close) / position.peak) * 100);
+
+      if (target !== null && ruleSet.sellAt && point.close >= target) {
+        close(point, ruleSet.sellAt);
+      } else if (ruleSet.sellScoreBelow !== null && point.score !== null && point.score < ruleSet.sellScoreBelow) {
+        close(point, 'score');
+      }
+      continue;
+    }
+
+    if (signalTurnedOn) {
+      position = { entryDate: point.date, entryPrice: point.close, peak: point.close, maxDrawdownPct: 0 };
+    }
+  }
+
+  const last = input.series[input.series.length - 1];
+  if (position && last) {
+    close(last, 'open');
+  }
+  return trades;
+}
+
+/** Run one rule set over all tickers. */
+export function runBacktest(inputs: BacktestTickerInput[], ruleSet: BacktestRuleSet): BacktestResult {
+  const trades = inputs.flatMap((input) => simulateTicker(input, ruleSet));
+  const closed = trades.filter((t) => t.exitReason !== 'open');
+  const wins = closed.filter((t) => t.returnPct > 0).length;
+  const totalReturnPct = closed.reduce((sum, t) => sum + t.returnPct, 0);
+
+  return {
+    ruleSet,
+    trades,
+    closedTrades: closed.length,
+    hitRate: closed.length > 0 ? round((wins / closed.length) * 100, 1) : null,
+    avgReturnPct: closed.length > 0 ? round(totalReturnPct / closed.length) : null,
+    totalReturnPct: round(totalReturnPct),
+    maxDrawdownPct: trades.length > 0 ? Math.max(...trades.map((t) => t.maxDrawdownPct)) : null,
+    avgHoldingDays: closed.length > 0 ? round(closed.reduce((sum, t) => sum + t.holdingDays, 0) / closed.length, 1) : null,
+  };
+}
+
+/**
+ * Fill missing daily scores from stored snapshots (latest snapshot on or before each day).
+ * Scores already present in the price series win.
+ */
+export function mergeScoreHistory(series: PricePoint[], snapshots: ScoreSnapshot[]): PricePoint[] {
+  if (snapshots.length === 0) return series;
+  const sorted = [...snapshots].sort((a, b) => a.date.localeCompare(b.date));
+  let idx = -1;
+  return series.map((point) => {
+    while (idx + 1 < sorted.length && sorted[idx + 1].date <= point.date) idx++;
+    if (point.score !== null || idx < 0) return point;
+    return { ...point, score: sorted[idx].score };
+  });
+}
+
+export interface PriceHistoryParseResult {
+  /** Price series per ticker (as written in the file), oldest first */
+  series: Map<string, PricePoint[]>;
+  hasScores: boolean;
+  errors: string[];
+}
+
+function findColumn(fields: string[], names: string[]): string | undefined {
+  return fields.find((f) => names.includes(f.trim().toLowerCase()));
+}
+
+function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const n = Number(value.trim().replace(/\s/g, '').replace(',', '.'));
+  return Number.isFinite(n) ? n : null;
+}
+
+function parseDate(value: unknown): string | null {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+  const time = Date.parse(trimmed);
+  return Number.isNaN(time) ? null : new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a long-format price history CSV: one row per ticker and day.
+ * Required columns: Date, Ticker (or Symbol), Close (or Price / Adj Close). Optional: Score.
+ */
+export function parsePriceHistoryCsv(text: string): PriceHistoryParseResult {
+  const parsed = Papa.parse<Record<string, string>>(text, { header: true, skipEmptyLines: true });
+  const fields = parsed.meta.fields ?? [];
+  const dateCol = findColumn(fields, ['date', 'datum']);
+  const tickerCol = findColumn(fields, ['ticker', 'symbol']);
+  const closeCol = findColumn(fields, ['close', 'adj close', 'price', 'pris']);
+  const scoreCol = findColumn(fields, ['score']);
+
+  const missing = [
+    !dateCol && 'Date',
+    !tickerCol && 'Ticker',
+    !closeCol && 'Close',
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    return { series: new Map(), hasScores: false, errors: [`Missing columns: ${missing.join(', ')}`] };
+  }
+
+  const errors: string[] = [];
+  const byTicker = new Map<string, Map<string, PricePoint>>();
+
+  parsed.data.forEach((row, i) => {
+    const date = parseDate(row[dateCol!]);
+    const ticker = (row[tickerCol!] ?? '').trim();
+    const close = parseNumber(row[closeCol!]);
+    if (!date || !ticker || close === null) {
+      errors.push(`Row ${i + 2}: invalid date, ticker or close`);
+      return;
+    }
+    const score = scoreCol ? parseNumber(row[scoreCol]) : null;
+    if (!byTicker.has(ticker)) byTicker.set(ticker, new Map());
+    byTicker.get(ticker)!.set(date, { date, close, score });
+  });
+
+  const series = new Map<string, PricePoint[]>();
+  for (const [ticker, points] of byTicker) {
+    series.set(ticker, [...points.values()].sort((a, b) => a.date.localeCompare(b.date)));
+  }
+  return { series, hasScores: !!scoreCol, errors };
+}
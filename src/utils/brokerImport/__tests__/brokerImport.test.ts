@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectBrokerFormat,
+  matchImportedTransactions,
+  parseBrokerStatement,
+  toPortfolioTransactions,
+} from '../index';
+
+const AVANZA = [
+  'Datum;Konto;Typ av transaktion;Värdepapper/beskrivning;Antal;Kurs;Belopp;Transaktionsvaluta;Courtage (SEK);Valutakurs;Instrumentvaluta;ISIN;Resultat',
+  '2024-03-01;ISK;Köp;Apple Inc;10;180,50;-19 100,00;SEK;10,58;10,58;USD;US0378331005;-',
+  '2024-05-16;ISK;Utdelning;Apple Inc;10;0,25;26,30;SEK;;;USD;US0378331005;-',
+  '2024-06-01;ISK;Insättning;Insättning;;;5 000,00;SEK;;;SEK;;-',
+].join('\n');
+
+const NORDNET = [
+  'Id\tBokföringsdag\tAffärsdag\tLikviddag\tDepå\tTransaktionstyp\tVärdepapper\tISIN\tAntal\tKurs\tRänta\tTotal Avgift\tValuta\tBelopp\tValuta\tVäxlingskurs',
+  '1\t2024-02-01\t2024-02-01\t2024-02-05\t123\tKÖPT\tVOLV B\tSE0000115446\t20\t250,5\t0\t39\tSEK\t-5 049\tSEK\t1',
+].join('\n');
+
+const ETORO = [
+  'Date,Type,Details,Amount,Units,Realized Equity Change,Realized Equity,Balance,Position ID,Asset type,NWA',
+  '05/01/2024 14:30:00,Open Position,MSFT/USD,1000.00,2.5,0,0,0,111,Stocks,0',
+  '06/02/2024 10:00:00,Deposit,,500.00,-,0,0,0,,,0',
+].join('\n');
+
+const IBKR = [
+  'Statement,Header,Field Name,Field Value',
+  'Trades,Header,DataDiscriminator,Asset Category,Currency,Symbol,Date/Time,Quantity,T. Price,C. Price,Proceeds,Comm/Fee,Basis,Realized P/L,MTM P/L,Code',
+  'Trades,Data,Order,Stocks,USD,AAPL,"2024-01-05, 10:30:00",-5,185.5,186,927.5,-1,-900,26.5,2.5,C',
+  'Trades,SubTotal,,Stocks,USD,AAPL,,-5,,,927.5,-1,-900,26.5,2.5,',
+  'Dividends,Header,Currency,Date,Description,Amount',
+  'Dividends,Data,USD,2024-02-15,AAPL(US0378331005) Cash Dividend USD 0.24 per Share (Ordinary Dividend),1.2',
+  'Dividends,Data,Total,,,1.2',
+  'Financial Instrument Information,Header,Asset Category,Symbol,Description,Conid,Security ID,Listing Exch',
+  'Financial Instrument Information,Data,Stocks,AAPL,APPLE INC,265598,US0378331005,NASDAQ',
+].join('\n');
+
+describe('broker statement parsers', () => {
+  it('detects the broker from the header', () => {
+    expect(detectBrokerFormat(AVANZA)).toBe('avanza');
+    expect(detectBrokerFormat(NORDNET)).toBe('nordnet');
+    expect(detectBrokerFormat(ETORO)).toBe('etoro');
+    expect(detectBrokerFormat(IBKR)).toBe('ibkr');
+  });
+
+  it('parses Avanza trades and dividends and ignores cash movements', () => {
+    const { transactions } = parseBrokerStatement(AVANZA, 'avanza');
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0]).toMatchObject({ type: 'buy', quantity: 10, price: 180.5, currency: 'USD', isin: 'US0378331005' });
+    expect(transactions[0].fee).toBeCloseTo(1);
+    expect(transactions[1]).toMatchObject({ type: 'dividend', amount: 26.3, currency: 'SEK' });
+  });
+
+  it('parses Nordnet, eToro and IBKR rows', () => {
+    expect(parseBrokerStatement(NORDNET, 'nordnet').transactions[0]).toMatchObject({
+      type: 'buy', quantity: 20, price: 250.5, fee: 39, currency: 'SEK', symbol: 'VOLV B',
+    });
+    expect(parseBrokerStatement(ETORO, 'etoro').transactions).toEqual([
+      expect.objectContaining({ type: 'buy', tradeDate: '2024-01-05', symbol: 'MSFT', quantity: 2.5, price: 400 }),
+    ]);
+    const ibkr = parseBrokerStatement(IBKR, 'ibkr').transactions;
+    expect(ibkr).toHaveLength(2);
+    expect(ibkr[0]).toMatchObject({ type: 'sell', quantity: 5, price: 185.5, fee: 1, isin: 'US0378331005' });
+    expect(ibkr[1]).toMatchObject({ type: 'dividend', amount: 1.2, symbol: 'AAPL' });
+  });
+});
+
+describe('matchImportedTransactions', () => {
+  const universe = [
+    { ticker: 'AAPL', companyName: 'Apple Inc.' },
+    { ticker: 'VOLV-B', companyName: 'Volvo B' },
+  ];
+
+  it('matches by symbol and name and lists the rest for manual mapping', () => {
+    const transactions = [
+      ...parseBrokerStatement(AVANZA, 'avanza').transactions,
+      ...parseBrokerStatement(NORDNET, 'nordnet').transactions,
+      ...parseBrokerStatement(ETORO, 'etoro').transactions,
+    ];
+    const result = matchImportedTransactions(transactions, universe, {});
+    expect(result.matched.get('AAPL')?.transactions).toHaveLength(2);
+    expect(result.matched.get('VOLV-B')?.transactions).toHaveLength(1);
+    expect(result.unmatched).toEqual([expect.objectContaining({ key: 'symbol:MSFT', transactionCount: 1 })]);
+
+    const mapped = matchImportedTransactions(transactions, [...universe, { ticker: 'MSFT.O', companyName: 'Microsoft' }], {
+      'symbol:MSFT': 'MSFT.O',
+    });
+    expect(mapped.unmatched).toHaveLength(0);
+  });
+
+  it('gives re-imported rows the same ids', () => {
+    const { transactions } = parseBrokerStatement(IBKR, 'ibkr');
+    const first = toPortfolioTransactions('ibkr', transactions, {});
+    const second = toPortfolioTransactions('ibkr', transactions, {});
+    expect(first.map((tx) => tx.id)).toEqual(second.map((tx) => tx.id));
+    expect(first[0]).toMatchObject({ broker: 'Interactive Brokers', fxRateToUSD: 1 });
+  });
+});
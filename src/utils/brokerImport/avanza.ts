@@ -0,0 +1,77 @@
+/**
+ * Avanza "Transaktioner" export (semicolon separated, decimal comma).
+ * Supports both the older layout (Courtage, Valuta) and the newer one
+ * (Transaktionsvaluta, Courtage (SEK), Valutakurs, Instrumentvaluta).
+ */
+
+import type { PortfolioTransactionType } from '../../types/portfolio';
+import type { BrokerParseResult, ImportedTransaction } from './types';
+import { cellAt, findColumn, normalizeIsin, parseLocaleNumber, parseTradeDate, readRows } from './common';
+
+const TYPE_MAP: Record<string, PortfolioTransactionType> = {
+  'köp': 'buy',
+  'sälj': 'sell',
+  'utdelning': 'dividend',
+  'utländsk källskatt': 'fee',
+};
+
+export function parseAvanza(text: string): BrokerParseResult {
+  const rows = readRows(text, ';');
+  const headers = rows[0] ?? [];
+  const col = {
+    date: findColumn(headers, ['Datum']),
+    type: findColumn(headers, ['Typ av transaktion']),
+    name: findColumn(headers, ['Värdepapper/beskrivning']),
+    quantity: findColumn(headers, ['Antal']),
+    price: findColumn(headers, ['Kurs']),
+    amount: findColumn(headers, ['Belopp']),
+    fee: findColumn(headers, ['Courtage', 'Courtage (SEK)']),
+    transactionCurrency: findColumn(headers, ['Transaktionsvaluta', 'Valuta']),
+    instrumentCurrency: findColumn(headers, ['Instrumentvaluta']),
+    fxRate: findColumn(headers, ['Valutakurs']),
+    isin: findColumn(headers, ['ISIN']),
+  };
+
+  const result: BrokerParseResult = { transactions: [], skipped: [] };
+  rows.slice(1).forEach((row, i) => {
+    const sourceRow = i + 2;
+    const type = TYPE_MAP[(cellAt(row, col.type) ?? '').toLowerCase()];
+    if (!type) return;
+
+    const tradeDate = parseTradeDate(cellAt(row, col.date));
+    const name = cellAt(row, col.name) ?? '';
+    if (!tradeDate || !name) {
+      result.skipped.push({ sourceRow, reason: 'missing date or security' });
+      return;
+    }
+
+    const quantity = Math.abs(parseLocaleNumber(cellAt(row, col.quantity)) ?? 0);
+    const price = parseLocaleNumber(cellAt(row, col.price));
+    const amount = parseLocaleNumber(cellAt(row, col.amount));
+    const transactionCurrency = (cellAt(row, col.transactionCurrency) || 'SEK').toUpperCase();
+    const instrumentCurrency = (cellAt(row, col.instrumentCurrency) || transactionCurrency).toUpperCase();
+    const fxRate = parseLocaleNumber(cellAt(row, col.fxRate));
+    const feeSEK = Math.abs(parseLocaleNumber(cellAt(row, col.fee)) ?? 0);
+    // Courtage is in the transaction currency; convert with Valutakurs when the instrument trades in another currency
+    const fee =
+      instrumentCurrency === transactionCurrency ? feeSEK : fxRate && fxRate > 0 ? feeSEK / fxRate : null;
+
+    const base = { sourceRow, type, tradeDate, isin: normalizeIsin(cellAt(row, col.isin)), symbol: null, name };
+    let tx: ImportedTransaction;
+    if (type === 'buy' || type === 'sell') {
+      if (quantity <= 0 || price === null) {
+        result.skipped.push({ sourceRow, reason: 'missing quantity or price' });
+        return;
+      }
+      tx = { ...base, quantity, price, amount: null, fee: fee || null, currency: instrumentCurrency };
+    } else {
+      if (amount === null) {
+        result.skipped.push({ sourceRow, reason: 'missing amount' });
+        return;
+      }
+      tx = { ...base, quantity: 0, price: 0, amount: Math.abs(amount), fee: null, currency: transactionCurrency };
+    }
+    result.transactions.push(tx);
+  });
+  return result;
+}
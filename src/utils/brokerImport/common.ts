@@ -0,0 +1,67 @@
+/**
+ * Shared helpers for broker statement parsers.
+ */
+
+import Papa from 'papaparse';
+
+/** Parse CSV/TSV text into rows of trimmed cells; delimiter is auto-detected unless given */
+export function readRows(text: string, delimiter?: string): string[][] {
+  const result = Papa.parse<string[]>(text.replace(/^\uFEFF/, ''), {
+    delimiter: delimiter ?? '',
+    skipEmptyLines: true,
+  });
+  return result.data.map((row) => row.map((cell) => (cell ?? '').trim()));
+}
+
+/**
+ * Parse a number in Swedish or English notation: "1 234,50", "1,234.50", "−12,5", "-".
+ * Returns null for empty or dash cells.
+ */
+export function parseLocaleNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  let s = value.replace(/[\s\u00A0]/g, '').replace(/\u2212/g, '-');
+  if (s === '' || s === '-' || s === '--') return null;
+  const lastComma = s.lastIndexOf(',');
+  const lastDot = s.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    // Comma is the decimal separator
+    s = s.replace(/\./g, '').replace(',', '.');
+  } else {
+    s = s.replace(/,/g, '');
+  }
+  const n = Number(s);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Normalize "2024-01-05", "2024-01-05, 10:30:00", "05/01/2024 10:30:00" or "20240105" to YYYY-MM-DD */
+export function parseTradeDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const dmy = /^(\d{1,2})[/.](\d{1,2})[/.](\d{4})/.exec(value);
+  if (dmy) return `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`;
+  const compact = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+  if (compact) return `${compact[1]}-${compact[2]}-${compact[3]}`;
+  return null;
+}
+
+/** Index of the first header matching any alias (case-insensitive), or -1 */
+export function findColumn(headers: string[], aliases: string[]): number {
+  const lower = headers.map((h) => h.toLowerCase());
+  for (const alias of aliases) {
+    const index = lower.indexOf(alias.toLowerCase());
+    if (index >= 0) return index;
+  }
+  return -1;
+}
+
+export function cellAt(row: string[], index: number): string | undefined {
+  return index >= 0 ? row[index] : undefined;
+}
+
+const ISIN_PATTERN = /^[A-Z]{2}[A-Z0-9]{9}\d$/;
+
+export function normalizeIsin(value: string | undefined): string | null {
+  const s = (value ?? '').trim().toUpperCase();
+  return ISIN_PATTERN.test(s) ? s : null;
+}
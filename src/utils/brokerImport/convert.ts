@@ -0,0 +1,49 @@
+/**
+ * Convert parsed broker rows into ledger transactions.
+ * Ids are derived from the row content so importing the same file twice does not duplicate transactions.
+ */
+
+import type { PortfolioTransaction } from '../../types/portfolio';
+import { BROKER_FORMAT_NAMES, type BrokerFormat, type ImportedTransaction } from './types';
+
+/** FNV-1a, 32-bit, as hex */
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * @param fxRatesToUSD - USD per 1 unit for each currency in the file; statements carry no USD rate,
+ *   so callers pass the current rate and the user can correct it in the ledger afterwards
+ */
+export function toPortfolioTransactions(
+  format: BrokerFormat,
+  transactions: ImportedTransaction[],
+  fxRatesToUSD: Record<string, number>
+): PortfolioTransaction[] {
+  const occurrences = new Map<string, number>();
+  return transactions.map((tx) => {
+    const content = [tx.tradeDate, tx.type, tx.isin ?? tx.symbol ?? tx.name, tx.quantity, tx.price, tx.amount, tx.fee, tx.currency].join('|');
+    // Identical rows (e.g. two equal fills on one day) get distinct ids
+    const occurrence = occurrences.get(content) ?? 0;
+    occurrences.set(content, occurrence + 1);
+    return {
+      id: `import-${format}-${hashString(content)}-${occurrence}`,
+      type: tx.type,
+      broker: BROKER_FORMAT_NAMES[format],
+      tradeDate: tx.tradeDate,
+      quantity: tx.quantity,
+      price: tx.price,
+      amount: tx.amount,
+      fee: tx.fee,
+      splitRatio: null,
+      currency: tx.currency,
+      fxRateToUSD: tx.currency === 'USD' ? 1 : fxRatesToUSD[tx.currency] ?? 0,
+      note: null,
+    };
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * eToro account statement, "Account Activity" sheet saved as CSV.
+ * Amounts are in USD; the instrument is given as "SYMBOL/USD" in Details.
+ */
+
+import type { PortfolioTransactionType } from '../../types/portfolio';
+import type { BrokerParseResult } from './types';
+import { cellAt, findColumn, parseLocaleNumber, parseTradeDate, readRows } from './common';
+
+const TYPE_MAP: Record<string, PortfolioTransactionType> = {
+  'open position': 'buy',
+  'position closed': 'sell',
+  'dividend': 'dividend',
+  'overnight fee': 'fee',
+  'sdrt': 'fee',
+};
+
+export function parseEtoro(text: string): BrokerParseResult {
+  const rows = readRows(text);
+  const headers = rows[0] ?? [];
+  const col = {
+    date: findColumn(headers, ['Date']),
+    type: findColumn(headers, ['Type']),
+    details: findColumn(headers, ['Details']),
+    amount: findColumn(headers, ['Amount']),
+    units: findColumn(headers, ['Units']),
+  };
+
+  const result: BrokerParseResult = { transactions: [], skipped: [] };
+  rows.slice(1).forEach((row, i) => {
+    const sourceRow = i + 2;
+    const type = TYPE_MAP[(cellAt(row, col.type) ?? '').toLowerCase()];
+    if (!type) return;
+
+    const tradeDate = parseTradeDate(cellAt(row, col.date));
+    const details = cellAt(row, col.details) ?? '';
+    const symbol = details.split('/')[0].trim();
+    const amount = parseLocaleNumber(cellAt(row, col.amount));
+    if (!tradeDate || !symbol || amount === null) {
+      result.skipped.push({ sourceRow, reason: 'missing date, instrument or amount' });
+      return;
+    }
+
+    const base = { sourceRow, type, tradeDate, isin: null, symbol, name: symbol, currency: 'USD' };
+    if (type === 'buy' || type === 'sell') {
+      const units = Math.abs(parseLocaleNumber(cellAt(row, col.units)) ?? 0);
+      if (units <= 0) {
+        result.skipped.push({ sourceRow, reason: 'missing units' });
+        return;
+      }
+      result.transactions.push({ ...base, quantity: units, price: Math.abs(amount) / units, amount: null, fee: null });
+      return;
+    }
+    result.transactions.push({ ...base, quantity: 0, price: 0, amount: Math.abs(amount), fee: null });
+  });
+  return result;
+}
@@ -0,0 +1,101 @@
+/**
+ * Interactive Brokers activity statement (CSV). Each line starts with the section name and
+ * "Header" or "Data"; Trades, Dividends and Withholding Tax are read, ISINs come from
+ * "Financial Instrument Information".
+ */
+
+import type { BrokerParseResult, ImportedTransaction } from './types';
+import { cellAt, findColumn, normalizeIsin, parseLocaleNumber, parseTradeDate, readRows } from './common';
+
+/** "AAPL(US0378331005) Cash Dividend USD 0.24 per Share" → symbol and ISIN */
+const DESCRIPTION_PATTERN = /^([^(]+?)\s*\(([A-Z0-9]{12})\)/;
+
+export function parseIbkr(text: string): BrokerParseResult {
+  const rows = readRows(text, ',');
+  const headersBySection = new Map<string, string[]>();
+  const isinBySymbol = new Map<string, string>();
+  const transactions: ImportedTransaction[] = [];
+  const result: BrokerParseResult = { transactions, skipped: [] };
+
+  // ISINs first, the instrument section comes after the trades
+  rows.forEach((row) => {
+    if (row[0] !== 'Financial Instrument Information') return;
+    if (row[1] === 'Header') {
+      headersBySection.set(row[0], row.slice(2));
+      return;
+    }
+    const headers = headersBySection.get(row[0]) ?? [];
+    const data = row.slice(2);
+    const symbol = cellAt(data, findColumn(headers, ['Symbol']));
+    const isin = normalizeIsin(cellAt(data, findColumn(headers, ['Security ID'])));
+    if (symbol && isin) isinBySymbol.set(symbol.toUpperCase(), isin);
+  });
+
+  rows.forEach((row, i) => {
+    const sourceRow = i + 1;
+    const [section, kind] = row;
+    if (kind === 'Header') {
+      headersBySection.set(section, row.slice(2));
+      return;
+    }
+    if (kind !== 'Data') return;
+    const headers = headersBySection.get(section) ?? [];
+    const data = row.slice(2);
+    const get = (aliases: string[]) => cellAt(data, findColumn(headers, aliases));
+
+    if (section === 'Trades') {
+      if (get(['DataDiscriminator']) !== 'Order' || get(['Asset Category']) !== 'Stocks') return;
+      const symbol = get(['Symbol']);
+      const tradeDate = parseTradeDate(get(['Date/Time']));
+      const quantity = parseLocaleNumber(get(['Quantity']));
+      const price = parseLocaleNumber(get(['T. Price']));
+      if (!symbol || !tradeDate || !quantity || price === null) {
+        result.skipped.push({ sourceRow, reason: 'missing symbol, date, quantity or price' });
+        return;
+      }
+      const fee = Math.abs(parseLocaleNumber(get(['Comm/Fee'])) ?? 0);
+      transactions.push({
+        sourceRow,
+        type: quantity > 0 ? 'buy' : 'sell',
+        tradeDate,
+        quantity: Math.abs(quantity),
+        price,
+        amount: null,
+        fee: fee || null,
+        currency: (get(['Currency']) || 'USD').toUpperCase(),
+        isin: isinBySymbol.get(symbol.toUpperCase()) ?? null,
+        symbol,
+        name: symbol,
+      });
+      return;
+    }
+
+    if (section === 'Dividends' || section === 'Withholding Tax') {
+      const currency = get(['Currency']) ?? '';
+      if (currency.startsWith('Total')) return;
+      const match = DESCRIPTION_PATTERN.exec(get(['Description']) ?? '');
+      const tradeDate = parseTradeDate(get(['Date']));
+      const amount = parseLocaleNumber(get(['Amount']));
+      if (!match || !tradeDate || amount === null) {
+        result.skipped.push({ sourceRow, reason: 'missing instrument, date or amount' });
+        return;
+      }
+      const symbol = match[1].trim();
+      transactions.push({
+        sourceRow,
+        // Withholding tax is negative; a positive line is a refund and counts as income
+        type: section === 'Dividends' || amount > 0 ? 'dividend' : 'fee',
+        tradeDate,
+        quantity: 0,
+        price: 0,
+        amount: Math.abs(amount),
+        fee: null,
+        currency: currency.toUpperCase(),
+        isin: normalizeIsin(match[2]),
+        symbol,
+        name: symbol,
+      });
+    }
+  });
+  return result;
+}
@@ -0,0 +1,45 @@
+/**
+ * Broker statement import (Avanza, Nordnet, eToro, Interactive Brokers) for Personal Portfolio.
+ */
+
+import { parseAvanza } from './avanza';
+import { parseNordnet } from './nordnet';
+import { parseEtoro } from './etoro';
+import { parseIbkr } from './ibkr';
+import type { BrokerFormat, BrokerParseResult } from './types';
+
+export { toPortfolioTransactions } from './convert';
+export { matchImportedTransactions, matchInstrument, instrumentMappingKey, normalizeSymbol } from './matching';
+export type { ImportMatchResult, MatchedImport, UnmatchedInstrument } from './matching';
+export { BROKER_FORMAT_NAMES } from './types';
+export type { BrokerFormat, BrokerParseResult, ImportedTransaction, SkippedRow, UniverseInstrument } from './types';
+
+const PARSERS: Record<BrokerFormat, (text: string) => BrokerParseResult> = {
+  avanza: parseAvanza,
+  nordnet: parseNordnet,
+  etoro: parseEtoro,
+  ibkr: parseIbkr,
+};
+
+export function parseBrokerStatement(text: string, format: BrokerFormat): BrokerParseResult {
+  return PARSERS[format](text);
+}
+
+/** Guess the broker from the file's header line(s); null when unknown */
+export function detectBrokerFormat(text: string): BrokerFormat | null {
+  const head = text.replace(/^\uFEFF/, '').slice(0, 4000);
+  if (/^Statement,Header/m.test(head) || /^Trades,Header/m.test(head)) return 'ibkr';
+  const firstLine = head.split(/\r?\n/, 1)[0];
+  if (firstLine.includes('Typ av transaktion')) return 'avanza';
+  if (firstLine.includes('Transaktionstyp') && firstLine.includes('Affärsdag')) return 'nordnet';
+  if (firstLine.includes('Position ID') && firstLine.includes('Details')) return 'etoro';
+  return null;
+}
+
+/** Decode a statement file; Nordnet exports are UTF-16 with a byte order mark */
+export function decodeStatementFile(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  return new TextDecoder('utf-8').decode(bytes);
+}
@@ -0,0 +1,130 @@
+/**
+ * Match imported instruments to the Score Board universe.
+ * Order: saved manual mappings (ISIN, symbol or name), then symbol, then company name.
+ * Symbol and name matches are only used when they are unambiguous.
+ */
+
+import type { ImportedTransaction, UniverseInstrument } from './types';
+
+const EXCHANGE_SUFFIXES = ['.ST', '.US', '.L', '.DE', '.HE', '.CO', '.OL', ':US', ':SS'];
+const NAME_NOISE = new Set([
+  'ab', 'publ', 'inc', 'corp', 'corporation', 'plc', 'ltd', 'sa', 'nv', 'ag', 'asa', 'oyj', 'co',
+  'company', 'holding', 'holdings', 'group', 'class', 'ser', 'series', 'the', 'a', 'b',
+]);
+
+/** "VOLV B", "BRK.B", "VOLVB.ST" → "VOLV-B", "BRK-B", "VOLVB" */
+export function normalizeSymbol(symbol: string): string {
+  let s = symbol.trim().toUpperCase();
+  const suffix = EXCHANGE_SUFFIXES.find((x) => s.endsWith(x));
+  if (suffix) s = s.slice(0, -suffix.length);
+  return s.replace(/[\s._/]+/g, '-');
+}
+
+export function normalizeCompanyName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9åäöæøéü]+/g, ' ')
+    .split(' ')
+    .filter((word) => word && !NAME_NOISE.has(word))
+    .join(' ');
+}
+
+/** Key under which a manual mapping is saved: ISIN when known, else symbol, else name */
+export function instrumentMappingKey(tx: Pick<ImportedTransaction, 'isin' | 'symbol' | 'name'>): string {
+  if (tx.isin) return `isin:${tx.isin}`;
+  if (tx.symbol) return `symbol:${normalizeSymbol(tx.symbol)}`;
+  return `name:${normalizeCompanyName(tx.name)}`;
+}
+
+function addUnique(map: Map<string, UniverseInstrument | null>, key: string, instrument: UniverseInstrument): void {
+  if (!key) return;
+  const existing = map.get(key);
+  // null marks an ambiguous key
+  map.set(key, existing === undefined || existing?.ticker === instrument.ticker ? instrument : null);
+}
+
+export interface UniverseIndex {
+  byTicker: Map<string, UniverseInstrument>;
+  bySymbol: Map<string, UniverseInstrument | null>;
+  byName: Map<string, UniverseInstrument | null>;
+}
+
+export function buildUniverseIndex(universe: UniverseInstrument[]): UniverseIndex {
+  const index: UniverseIndex = { byTicker: new Map(), bySymbol: new Map(), byName: new Map() };
+  for (const instrument of universe) {
+    index.byTicker.set(instrument.ticker.trim().toUpperCase(), instrument);
+    const symbol = normalizeSymbol(instrument.ticker);
+    addUnique(index.bySymbol, symbol, instrument);
+    addUnique(index.bySymbol, symbol.replace(/-/g, ''), instrument);
+    addUnique(index.byName, normalizeCompanyName(instrument.companyName), instrument);
+  }
+  return index;
+}
+
+export function matchInstrument(
+  tx: Pick<ImportedTransaction, 'isin' | 'symbol' | 'name'>,
+  index: UniverseIndex,
+  mappings: Record<string, string>
+): UniverseInstrument | null {
+  const keys = [
+    tx.isin ? `isin:${tx.isin}` : null,
+    tx.symbol ? `symbol:${normalizeSymbol(tx.symbol)}` : null,
+    `name:${normalizeCompanyName(tx.name)}`,
+  ];
+  for (const key of keys) {
+    const ticker = key ? mappings[key] : undefined;
+    const mapped = ticker ? index.byTicker.get(ticker.trim().toUpperCase()) : undefined;
+    if (mapped) return mapped;
+  }
+  if (tx.symbol) {
+    const symbol = normalizeSymbol(tx.symbol);
+    const bySymbol = index.bySymbol.get(symbol) ?? index.bySymbol.get(symbol.replace(/-/g, ''));
+    if (bySymbol) return bySymbol;
+  }
+  return index.byName.get(normalizeCompanyName(tx.name)) ?? null;
+}
+
+export interface MatchedImport {
+  instrument: UniverseInstrument;
+  transactions: ImportedTransaction[];
+}
+
+export interface UnmatchedInstrument {
+  key: string;
+  isin: string | null;
+  symbol: string | null;
+  name: string;
+  transactionCount: number;
+}
+
+export interface ImportMatchResult {
+  /** Keyed by Score Board ticker */
+  matched: Map<string, MatchedImport>;
+  unmatched: UnmatchedInstrument[];
+}
+
+export function matchImportedTransactions(
+  transactions: ImportedTransaction[],
+  universe: UniverseInstrument[],
+  mappings: Record<string, string>
+): ImportMatchResult {
+  const index = buildUniverseIndex(universe);
+  const matched = new Map<string, MatchedImport>();
+  const unmatched = new Map<string, UnmatchedInstrument>();
+
+  for (const tx of transactions) {
+    const instrument = matchInstrument(tx, index, mappings);
+    if (instrument) {
+      const entry = matched.get(instrument.ticker) ?? { instrument, transactions: [] };
+      entry.transactions.push(tx);
+      matched.set(instrument.ticker, entry);
+      continue;
+    }
+    const key = instrumentMappingKey(tx);
+    const entry = unmatched.get(key) ?? { key, isin: tx.isin, symbol: tx.symbol, name: tx.name, transactionCount: 0 };
+    entry.transactionCount += 1;
+    unmatched.set(key, entry);
+  }
+
+  return { matched, unmatched: [...unmatched.values()] };
+}
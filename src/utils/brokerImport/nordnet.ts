@@ -0,0 +1,79 @@
+/**
+ * Nordnet "Transaktioner och notor" export (tab or semicolon separated, decimal comma, often UTF-16).
+ * The file repeats the "Valuta" header; amounts are read in the settlement currency (the "Valuta" after "Belopp"),
+ * with the price converted by "Växlingskurs".
+ */
+
+import type { PortfolioTransactionType } from '../../types/portfolio';
+import type { BrokerParseResult } from './types';
+import { cellAt, findColumn, normalizeIsin, parseLocaleNumber, parseTradeDate, readRows } from './common';
+
+const TYPE_MAP: Record<string, PortfolioTransactionType> = {
+  'köpt': 'buy',
+  'sålt': 'sell',
+  'utdelning': 'dividend',
+  'utl kupskatt': 'fee',
+};
+
+export function parseNordnet(text: string): BrokerParseResult {
+  const rows = readRows(text);
+  const headers = rows[0] ?? [];
+  const amountIndex = findColumn(headers, ['Belopp']);
+  const currencyAfterAmount = headers.findIndex((h, i) => i > amountIndex && h.toLowerCase() === 'valuta');
+  const col = {
+    date: findColumn(headers, ['Affärsdag', 'Bokföringsdag']),
+    type: findColumn(headers, ['Transaktionstyp']),
+    symbol: findColumn(headers, ['Värdepapper']),
+    isin: findColumn(headers, ['ISIN']),
+    quantity: findColumn(headers, ['Antal']),
+    price: findColumn(headers, ['Kurs']),
+    fee: findColumn(headers, ['Total Avgift', 'Courtage']),
+    fxRate: findColumn(headers, ['Växlingskurs']),
+    amount: amountIndex,
+    currency: currencyAfterAmount >= 0 ? currencyAfterAmount : findColumn(headers, ['Valuta']),
+  };
+
+  const result: BrokerParseResult = { transactions: [], skipped: [] };
+  rows.slice(1).forEach((row, i) => {
+    const sourceRow = i + 2;
+    const type = TYPE_MAP[(cellAt(row, col.type) ?? '').toLowerCase()];
+    if (!type) return;
+
+    const tradeDate = parseTradeDate(cellAt(row, col.date));
+    const symbol = cellAt(row, col.symbol) || null;
+    if (!tradeDate || !symbol) {
+      result.skipped.push({ sourceRow, reason: 'missing date or security' });
+      return;
+    }
+
+    const currency = (cellAt(row, col.currency) || 'SEK').toUpperCase();
+    const quantity = Math.abs(parseLocaleNumber(cellAt(row, col.quantity)) ?? 0);
+    const amount = parseLocaleNumber(cellAt(row, col.amount));
+    const base = { sourceRow, type, tradeDate, isin: normalizeIsin(cellAt(row, col.isin)), symbol, name: symbol, currency };
+
+    if (type === 'buy' || type === 'sell') {
+      const price = parseLocaleNumber(cellAt(row, col.price));
+      if (quantity <= 0 || price === null) {
+        result.skipped.push({ sourceRow, reason: 'missing quantity or price' });
+        return;
+      }
+      const fxRate = parseLocaleNumber(cellAt(row, col.fxRate));
+      const fee = Math.abs(parseLocaleNumber(cellAt(row, col.fee)) ?? 0);
+      result.transactions.push({
+        ...base,
+        quantity,
+        price: fxRate && fxRate > 0 ? price * fxRate : price,
+        amount: null,
+        fee: fee || null,
+      });
+      return;
+    }
+
+    if (amount === null) {
+      result.skipped.push({ sourceRow, reason: 'missing amount' });
+      return;
+    }
+    result.transactions.push({ ...base, quantity: 0, price: 0, amount: Math.abs(amount), fee: null });
+  });
+  return result;
+}
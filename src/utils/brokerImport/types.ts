@@ -0,0 +1,48 @@
+/**
+ * Broker statement import types.
+ */
+
+import type { PortfolioTransactionType } from '../../types/portfolio';
+
+export type BrokerFormat = 'avanza' | 'nordnet' | 'etoro' | 'ibkr';
+
+/** Broker name stored on imported transactions (matches config/brokers DEFAULT_BROKERS) */
+export const BROKER_FORMAT_NAMES: Record<BrokerFormat, string> = {
+  avanza: 'Avanza',
+  nordnet: 'Nordnet',
+  etoro: 'eToro',
+  ibkr: 'Interactive Brokers',
+};
+
+/** One transaction read from a broker file, before it is matched to a Score Board ticker */
+export interface ImportedTransaction {
+  /** 1-based row (line) in the source file */
+  sourceRow: number;
+  type: PortfolioTransactionType;
+  tradeDate: string; // YYYY-MM-DD
+  quantity: number;
+  price: number;
+  amount: number | null;
+  fee: number | null;
+  currency: string;
+  isin: string | null;
+  symbol: string | null;
+  name: string;
+}
+
+export interface SkippedRow {
+  sourceRow: number;
+  reason: string;
+}
+
+export interface BrokerParseResult {
+  transactions: ImportedTransaction[];
+  /** Rows that look like data but could not be read (unsupported types such as deposits are not listed) */
+  skipped: SkippedRow[];
+}
+
+/** Instrument in the Score Board universe */
+export interface UniverseInstrument {
+  ticker: string;
+  companyName: string;
+}
@@ -1,76 +1,31 @@
 import { ScoreBoardData, IndustryThresholdData, BenjaminGrahamData } from '../types/stock';
-import { EntryExitValuesForScore } from '../types/score';
+import { EntryExitValuesForScore, ScoringModel, ScoreMetricId } from '../types/score';
+import { DEFAULT_SCORING_MODEL } from '../config/scoringModel';
 import {
-  COLOR_FACTOR_GREEN,
-  COLOR_FACTOR_ORANGE_BLUE,
-} from '../config/constants';
-import {
-  getMungerQualityScoreColor,
-  getValueCreationColor,
-  getLeverageF2Color,
-  getCashSdebtColor,
-  getCurrentRatioColor,
-  getPEPercentageColor,
-  isTheoEntryGreen,
-} from './colorThresholds';
+  getActiveMetrics,
+  getCategoryMaxPoints,
+  getMetricColor,
+  getMetricFactor,
+  getTotalWeight,
+  scaleScore,
+} from './scoringModel';
 import type { ColorType } from './colorThresholds';
 
 /** Detailed view uses BLUE for middle band (maps ORANGE from colorThresholds). */
 type DetailedColor = 'GREEN' | 'BLUE' | 'RED' | 'BLANK';
 
-const COLOR_FACTORS: Record<DetailedColor, number> = {
-  GREEN: COLOR_FACTOR_GREEN,
-  BLUE: COLOR_FACTOR_ORANGE_BLUE,
-  RED: 0.00,
-  BLANK: 0.00,
-};
-
-/** Maps colorThresholds ColorType (ORANGE) to DetailedColor (BLUE) for factor lookup and display. */
+/** Maps colorThresholds ColorType (ORANGE) to DetailedColor (BLUE) for display. */
 function toDetailedColor(color: ColorType): DetailedColor {
   return color === 'ORANGE' ? 'BLUE' : (color as DetailedColor);
 }
 
-// Metrics configuration with weights; GreenOnly metrics get full weight only when GREEN
-interface Metric {
-  name: string;
-  weight: number;
-  method: '3Band' | 'GreenOnly';
-}
-
-const METRICS: Metric[] = [
-  // Fundamental (50p)
-  { name: 'VALUE CREATION', weight: 9, method: '3Band' },
-  { name: 'Munger Quality Score', weight: 12, method: '3Band' },
-  { name: 'LEVERAGE F2', weight: 7, method: '3Band' },
-  { name: 'Cash/SDebt', weight: 7, method: '3Band' },
-  { name: 'Current Ratio', weight: 5, method: '3Band' },
-  { name: 'P/E1 INDUSTRY', weight: 5, method: '3Band' },
-  { name: 'P/E2 INDUSTRY', weight: 5, method: '3Band' },
-  // Technical (50p)
-  { name: 'THEOENTRY', weight: 45, method: 'GreenOnly' },
-  { name: 'SMA(9)', weight: 2.5, method: 'GreenOnly' },
-  { name: 'SMA(21)', weight: 2.5, method: 'GreenOnly' },
-];
+/** Max fundamental points under the default scoring model. Prefer ScoreBreakdown.fundamentalMax. */
+export const FUNDAMENTAL_MAX_SCORE_POINTS = getCategoryMaxPoints(DEFAULT_SCORING_MODEL, 'Fundamental');
 
-const FUNDAMENTAL_METRIC_NAMES = new Set<string>([
-  'VALUE CREATION',
-  'Munger Quality Score',
-  'LEVERAGE F2',
-  'Cash/SDebt',
-  'Current Ratio',
-  'P/E1 INDUSTRY',
-  'P/E2 INDUSTRY',
-]);
+/** Max technical points under the default scoring model. Prefer ScoreBreakdown.technicalMax. */
+export const TECHNICAL_MAX_SCORE_POINTS = getCategoryMaxPoints(DEFAULT_SCORING_MODEL, 'Technical');
 
-export const FUNDAMENTAL_MAX_SCORE_POINTS = METRICS.filter((m) =>
-  FUNDAMENTAL_METRIC_NAMES.has(m.name)
-).reduce((sum, m) => sum + m.weight, 0);
-
-export const TECHNICAL_MAX_SCORE_POINTS = METRICS.filter(
-  (m) => !FUNDAMENTAL_METRIC_NAMES.has(m.name)
-).reduce((sum, m) => sum + m.weight, 0);
-
-export const TOTAL_SCORE_WEIGHT = METRICS.reduce((sum, m) => sum + m.weight, 0);
+export const TOTAL_SCORE_WEIGHT = getTotalWeight(DEFAULT_SCORING_MODEL);
 
 // Get price from BenjaminGrahamData
 function getPriceFromBenjaminGraham(
@@ -96,17 +51,19 @@ function getEntryExitValue(
 
 /**
  * Individual metric breakdown item
- * 
+ *
  * Represents how a single metric contributes to the overall score.
  */
 export interface ScoreBreakdownItem {
-  /** Metric name (e.g., 'VALUE CREATION', 'TheoEntry') */
+  /** Metric id in the scoring model (e.g., 'valueCreation', 'theoEntry') */
+  metricId: ScoreMetricId;
+  /** Metric name (e.g., 'VALUE CREATION', 'THEOENTRY') */
   metric: string;
   /** Weight of this metric in the total score calculation */
   weight: number;
   /** Color classification: GREEN (1.00), BLUE (0.70), RED (0.00), or BLANK (0.00) */
   color: 'GREEN' | 'BLUE' | 'RED' | 'BLANK';
-  /** Color factor applied: 1.00 (GREEN), 0.70 (BLUE/ORANGE), or 0.00 (RED/BLANK) */
+  /** Color factor applied: 1.00 (GREEN), 0.70 (BLUE/ORANGE), or 0.00 (RED/BLANK) with the default model */
   factor: number;
   /** Points contributed: weight * factor */
   points: number;
@@ -116,7 +73,7 @@ export interface ScoreBreakdownItem {
 
 /**
  * Complete score breakdown structure
- * 
+ *
  * Provides detailed breakdown of how the score was calculated, allowing
  * users to understand which metrics contributed positively or negatively.
  */
@@ -129,46 +86,55 @@ export interface ScoreBreakdown {
   fundamentalTotal: number;
   /** Sum of all technical metric points */
   technicalTotal: number;
+  /** Max fundamental points under the scoring model used */
+  fundamentalMax: number;
+  /** Max technical points under the scoring model used */
+  technicalMax: number;
+  /** Version of the scoring model that produced this breakdown */
+  modelVersion: number;
 }
 
 /**
  * Calculates detailed score breakdown showing individual metric contributions
- * 
+ *
  * This function provides transparency into how the score was calculated by
  * breaking down each metric's contribution. Useful for:
  * - Understanding which metrics are driving the score
  * - Identifying areas for improvement
  * - Debugging score calculations
  * - Displaying score breakdown in UI tooltips
- * 
+ *
  * **Differences from calculateScore():**
  * - Returns detailed breakdown instead of just final score
  * - Separates fundamental vs technical totals
  * - Uses BLUE instead of ORANGE for consistency with detailed view
  * - Provides per-metric point contributions
- * 
+ * - Carries the scoring model version used
+ *
  * **Score Breakdown Structure:**
- * - Each metric shows: name, weight, color, factor, points, category
+ * - Each enabled metric shows: name, weight, color, factor, points, category
  * - Fundamental total: Sum of all fundamental metric points
  * - Technical total: Sum of all technical metric points
- * - Total score: Sum of both categories (0-100)
- * 
+ * - Total score: Sum of both categories scaled to 0-100
+ *
  * @param scoreBoardData - Core stock data with fundamental and technical metrics
  * @param thresholdData - Industry-specific threshold values for metric classification
  * @param benjaminGrahamData - Price data for technical metric calculations
  * @param entryExitValues - Entry/exit values for TheoEntry calculation
+ * @param scoringModel - Weights, methods and color factors (defaults to the built-in model)
  * @returns Detailed score breakdown with per-metric contributions
- * 
+ *
  * @example
  * ```typescript
  * const breakdown = calculateDetailedScoreBreakdown(
  *   scoreBoardData,
  *   thresholdData,
  *   benjaminGrahamData,
- *   entryExitValues
+ *   entryExitValues,
+ *   scoringModel
  * );
- * 
- * console.log(`Total Score: ${breakdown.totalScore}`);
+ *
+ * console.log(`Total Score: ${breakdown.totalScore} (model v${breakdown.modelVersion})`);
  * console.log(`Fundamental: ${breakdown.fundamentalTotal}`);
  * console.log(`Technical: ${breakdown.technicalTotal}`);
  * breakdown.items.forEach(item => {
@@ -180,7 +146,8 @@ export function calculateDetailedScoreBreakdown(
   scoreBoardData: ScoreBoardData,
   thresholdData: IndustryThresholdData[],
   benjaminGrahamData: BenjaminGrahamData[],
-  entryExitValues: Map<string, EntryExitValuesForScore>
+  entryExitValues: Map<string, EntryExitValuesForScore>,
+  scoringModel: ScoringModel = DEFAULT_SCORING_MODEL
 ): ScoreBreakdown {
   const items: ScoreBreakdownItem[] = [];
   let fundamentalTotal = 0;
@@ -198,119 +165,68 @@ export function calculateDetailedScoreBreakdown(
     entryExitValues
   );
 
-  const fundamentalMetrics = [...FUNDAMENTAL_METRIC_NAMES];
-
-  // Process each metric
-  for (const metric of METRICS) {
-    let color: ColorType = 'BLANK';
-
-    switch (metric.name) {
-      case 'VALUE CREATION':
-        color = getValueCreationColor(scoreBoardData.valueCreation);
-        break;
-      case 'Munger Quality Score':
-        color = getMungerQualityScoreColor(scoreBoardData.mungerQualityScore);
-        break;
-      case 'LEVERAGE F2':
-        color = getLeverageF2Color(scoreBoardData.leverageF2, scoreBoardData.industry, thresholdData);
-        break;
-      case 'Cash/SDebt':
-        color = getCashSdebtColor(
-          scoreBoardData.cashSdebt,
-          scoreBoardData.isCashSdebtDivZero,
-          scoreBoardData.industry,
-          thresholdData
-        );
-        break;
-      case 'Current Ratio':
-        color = getCurrentRatioColor(scoreBoardData.currentRatio, scoreBoardData.industry, thresholdData);
-        break;
-      case 'P/E1 INDUSTRY':
-        color = getPEPercentageColor(scoreBoardData.pe1Industry);
-        break;
-      case 'P/E2 INDUSTRY':
-        color = getPEPercentageColor(scoreBoardData.pe2Industry);
-        break;
-      case 'THEOENTRY':
-        color = isTheoEntryGreen(entryExitValue, price) ? 'GREEN' : 'BLANK';
-        break;
-      case 'SMA(9)':
-        color = scoreBoardData.sma9Color === 'GREEN' ? 'GREEN' : scoreBoardData.sma9Color === 'RED' ? 'RED' : 'BLANK';
-        break;
-      case 'SMA(21)':
-        color = scoreBoardData.sma21Color === 'GREEN' ? 'GREEN' : scoreBoardData.sma21Color === 'RED' ? 'RED' : 'BLANK';
-        break;
-    }
-
-    // Map ORANGE -> BLUE for detailed view (factor lookup and display)
-    const detailedColor = toDetailedColor(color);
-    const factor = metric.method === 'GreenOnly'
-      ? (detailedColor === 'GREEN' ? 1 : 0)
-      : COLOR_FACTORS[detailedColor];
+  // Process each enabled metric
+  for (const metric of getActiveMetrics(scoringModel)) {
+    const color = getMetricColor(metric.id, scoreBoardData, thresholdData, price, entryExitValue);
+    const factor = getMetricFactor(metric, color, scoringModel.colorFactors);
     const points = metric.weight * factor;
-    
-    // Determine category
-    const category = fundamentalMetrics.includes(metric.name) ? 'Fundamental' : 'Technical';
-    
+
     items.push({
-      metric: metric.name,
+      metricId: metric.id,
+      metric: metric.label,
       weight: metric.weight,
-      color: detailedColor,
+      // Map ORANGE -> BLUE for detailed view
+      color: toDetailedColor(color),
       factor: factor,
       points: points,
-      category: category,
+      category: metric.category,
     });
 
     // Add to category total
-    if (category === 'Fundamental') {
+    if (metric.category === 'Fundamental') {
       fundamentalTotal += points;
     } else {
       technicalTotal += points;
     }
   }
 
-  const rawTotal = fundamentalTotal + technicalTotal;
-  const totalScore =
-    TOTAL_SCORE_WEIGHT > 0
-      ? Math.round(Math.max(0, Math.min(100, (rawTotal / TOTAL_SCORE_WEIGHT) * 100)) * 10) / 10
-      : 0;
-
   return {
-    totalScore,
+    totalScore: scaleScore(fundamentalTotal + technicalTotal, getTotalWeight(scoringModel)),
     items,
     fundamentalTotal: Math.round(fundamentalTotal * 10) / 10,
     technicalTotal: Math.round(technicalTotal * 10) / 10,
+    fundamentalMax: getCategoryMaxPoints(scoringModel, 'Fundamental'),
+    technicalMax: getCategoryMaxPoints(scoringModel, 'Technical'),
+    modelVersion: scoringModel.version,
   };
 }
 
 /**
  * Calculates detailed score (0-100) using the detailed scoring algorithm
- * 
- * This function uses the same algorithm as calculateScore() but with
- * different metric weights optimized for the detailed view. The main
- * differences are:
- * 
- * - Same metric weights as calculateScore (50p fundamental + 50p technical, total 100)
- * - Uses BLUE color classification instead of ORANGE
- * 
+ *
+ * This function uses the same algorithm as calculateScore() and
+ * calculateDetailedScoreBreakdown(); all three read weights, methods and
+ * color factors from the same ScoringModel.
+ *
  * **When to use:**
  * - For detailed score view that matches the breakdown display
  * - When consistency with calculateDetailedScoreBreakdown() is required
- * - For alternative scoring perspective with balanced fundamental/technical weights
- * 
+ *
  * @param scoreBoardData - Core stock data with fundamental and technical metrics
  * @param thresholdData - Industry-specific threshold values for metric classification
  * @param benjaminGrahamData - Price data for technical metric calculations
  * @param entryExitValues - Entry/exit values for TheoEntry calculation
+ * @param scoringModel - Weights, methods and color factors (defaults to the built-in model)
  * @returns Stock score between 0.0 and 100.0 (rounded to 1 decimal)
- * 
+ *
  * @example
  * ```typescript
  * const detailedScore = calculateDetailedScore(
  *   scoreBoardData,
  *   thresholdData,
  *   benjaminGrahamData,
- *   entryExitValues
+ *   entryExitValues,
+ *   scoringModel
  * );
  * // Returns: 78.5 (example score using detailed algorithm)
  * ```
@@ -319,7 +235,8 @@ export function calculateDetailedScore(
   scoreBoardData: ScoreBoardData,
   thresholdData: IndustryThresholdData[],
   benjaminGrahamData: BenjaminGrahamData[],
-  entryExitValues: Map<string, EntryExitValuesForScore>
+  entryExitValues: Map<string, EntryExitValuesForScore>,
+  scoringModel: ScoringModel = DEFAULT_SCORING_MODEL
 ): number {
   let totalPoints = 0;
 
@@ -335,58 +252,11 @@ export function calculateDetailedScore(
     entryExitValues
   );
 
-  // Process each metric
-  for (const metric of METRICS) {
-    let color: ColorType = 'BLANK';
-
-    switch (metric.name) {
-      case 'VALUE CREATION':
-        color = getValueCreationColor(scoreBoardData.valueCreation);
-        break;
-      case 'Munger Quality Score':
-        color = getMungerQualityScoreColor(scoreBoardData.mungerQualityScore);
-        break;
-      case 'LEVERAGE F2':
-        color = getLeverageF2Color(scoreBoardData.leverageF2, scoreBoardData.industry, thresholdData);
-        break;
-      case 'Cash/SDebt':
-        color = getCashSdebtColor(
-          scoreBoardData.cashSdebt,
-          scoreBoardData.isCashSdebtDivZero,
-          scoreBoardData.industry,
-          thresholdData
-        );
-        break;
-      case 'Current Ratio':
-        color = getCurrentRatioColor(scoreBoardData.currentRatio, scoreBoardData.industry, thresholdData);
-        break;
-      case 'P/E1 INDUSTRY':
-        color = getPEPercentageColor(scoreBoardData.pe1Industry);
-        break;
-      case 'P/E2 INDUSTRY':
-        color = getPEPercentageColor(scoreBoardData.pe2Industry);
-        break;
-      case 'THEOENTRY':
-        color = isTheoEntryGreen(entryExitValue, price) ? 'GREEN' : 'BLANK';
-        break;
-      case 'SMA(9)':
-        color = scoreBoardData.sma9Color === 'GREEN' ? 'GREEN' : scoreBoardData.sma9Color === 'RED' ? 'RED' : 'BLANK';
-        break;
-      case 'SMA(21)':
-        color = scoreBoardData.sma21Color === 'GREEN' ? 'GREEN' : scoreBoardData.sma21Color === 'RED' ? 'RED' : 'BLANK';
-        break;
-    }
-
-    const detailedColor = toDetailedColor(color);
-    const factor = metric.method === 'GreenOnly'
-      ? (detailedColor === 'GREEN' ? 1 : 0)
-      : COLOR_FACTORS[detailedColor];
-    totalPoints += metric.weight * factor;
+  // Process each enabled metric
+  for (const metric of getActiveMetrics(scoringModel)) {
+    const color = getMetricColor(metric.id, scoreBoardData, thresholdData, price, entryExitValue);
+    totalPoints += metric.weight * getMetricFactor(metric, color, scoringModel.colorFactors);
   }
 
-  const scaled =
-    TOTAL_SCORE_WEIGHT > 0
-      ? Math.max(0, Math.min(100, (totalPoints / TOTAL_SCORE_WEIGHT) * 100))
-      : 0;
-  return Math.round(scaled * 10) / 10;
+  return scaleScore(totalPoints, getTotalWeight(scoringModel));
 }
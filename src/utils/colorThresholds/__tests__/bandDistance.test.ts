@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { getCashSdebtBandPosition, getCurrentRatioBandPosition } from '../bandDistance';
+import type { IndustryThresholdData } from '../../../types/stock';
+
+describe('colorThresholds bandDistance', () => {
+  const thresholdData: IndustryThresholdData[] = [
+    {
+      industryKey: 'test',
+      industry: 'Test Industry',
+      leverageF2Min: 2.0,
+      leverageF2Max: 3.0,
+      cashSdebtMin: 0.7,
+      cashSdebtMax: 1.2,
+      currentRatioMin: 1.1,
+      currentRatioMax: 2.0,
+    },
+  ];
+
+  describe('getCurrentRatioBandPosition', () => {
+    it('points RED values up to the min', () => {
+      const pos = getCurrentRatioBandPosition(0.6, 'test industry', thresholdData);
+      expect(pos).toMatchObject({ color: 'RED', min: 1.1, max: 2.0, nextColor: 'GREEN' });
+      expect(pos.distance).toBeCloseTo(0.5);
+    });
+    it('points ORANGE values down to the max', () => {
+      const pos = getCurrentRatioBandPosition(2.5, 'Test Industry', thresholdData);
+      expect(pos).toMatchObject({ color: 'ORANGE', nextColor: 'GREEN' });
+      expect(pos.distance).toBeCloseTo(-0.5);
+    });
+    it('gives GREEN values the buffer to the nearest edge', () => {
+      expect(getCurrentRatioBandPosition(1.9, 'Test Industry', thresholdData)).toMatchObject({ nextColor: 'ORANGE' });
+      const nearMin = getCurrentRatioBandPosition(1.2, 'Test Industry', thresholdData);
+      expect(nearMin.nextColor).toBe('RED');
+      expect(nearMin.distance).toBeCloseTo(-0.1);
+    });
+    it('returns no distance for unknown industries', () => {
+      expect(getCurrentRatioBandPosition(1.5, 'Other', thresholdData)).toEqual({
+        color: 'BLANK', min: null, max: null, nextColor: null, distance: null,
+      });
+    });
+  });
+
+  describe('getCashSdebtBandPosition', () => {
+    it('walks RED -> ORANGE -> GREEN', () => {
+      const red = getCashSdebtBandPosition(0.5, false, 'Test Industry', thresholdData);
+      expect(red).toMatchObject({ color: 'RED', nextColor: 'ORANGE' });
+      expect(red.distance).toBeCloseTo(0.2);
+      const orange = getCashSdebtBandPosition(1.0, false, 'Test Industry', thresholdData);
+      expect(orange).toMatchObject({ color: 'ORANGE', nextColor: 'GREEN' });
+      expect(orange.distance).toBeCloseTo(0.2);
+    });
+    it('gives GREEN values the buffer to the max', () => {
+      const pos = getCashSdebtBandPosition(1.5, false, 'Test Industry', thresholdData);
+      expect(pos).toMatchObject({ color: 'GREEN', nextColor: 'ORANGE' });
+      expect(pos.distance).toBeCloseTo(-0.3);
+    });
+    it('has no next band when there is no short-term debt', () => {
+      expect(getCashSdebtBandPosition(null, true, 'Test Industry', thresholdData)).toMatchObject({
+        color: 'GREEN', nextColor: null, distance: null,
+      });
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { colorTypeToCssClass, COLORS } from '../cssMapping';
+import { colorTypeToCssClass, cssClassToColorKey, COLORS } from '../cssMapping';
 
 describe('colorThresholds cssMapping', () => {
   describe('colorTypeToCssClass', () => {
@@ -19,4 +19,15 @@ describe('colorThresholds cssMapping', () => {
       expect(colorTypeToCssClass('BLANK')).toBeNull();
     });
   });
+
+  describe('cssClassToColorKey', () => {
+    it('maps rendered classes back to the COLORS key', () => {
+      expect(cssClassToColorKey(`${COLORS.green} font-bold`)).toBe('green');
+      expect(cssClassToColorKey('text-sm text-red-700 dark:text-red-200 bg-red-50')).toBe('red');
+      expect(cssClassToColorKey(COLORS.yellow)).toBe('yellow');
+    });
+    it('returns null for uncolored cells', () => {
+      expect(cssClassToColorKey('text-black dark:text-white')).toBeNull();
+    });
+  });
 });
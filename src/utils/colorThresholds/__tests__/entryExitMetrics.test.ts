@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getEntry2DistancePercent,
+  getEntry2DistanceColor,
+  getExitUpsidePercent,
+  getExit1UpsideColor,
+  getExit2UpsideColor,
+  getIRR1Color,
+  getIvFcfMarginPercent,
+  getIvFcfMarginColor,
+} from '../entryExitMetrics';
+import type { EntryExitValuesForScore } from '../../../types/score';
+
+function createMockEntryExitValues(partial: Partial<EntryExitValuesForScore> = {}): EntryExitValuesForScore {
+  return {
+    entry1: 0,
+    entry2: 0,
+    exit1: 0,
+    exit2: 0,
+    currency: 'USD',
+    dateOfUpdate: null,
+    ...partial,
+  };
+}
+
+describe('colorThresholds entryExitMetrics', () => {
+  describe('Entry2 distance', () => {
+    it('measures price above Entry2 in percent', () => {
+      expect(getEntry2DistancePercent(110, 100)).toBeCloseTo(10);
+      expect(getEntry2DistancePercent(90, 100)).toBeCloseTo(-10);
+      expect(getEntry2DistancePercent(null, 100)).toBeNull();
+      expect(getEntry2DistancePercent(100, 0)).toBeNull();
+    });
+    it('is GREEN within 5%, ORANGE within 15%, RED beyond', () => {
+      expect(getEntry2DistanceColor(95, 100)).toBe('GREEN');
+      expect(getEntry2DistanceColor(105, 100)).toBe('GREEN');
+      expect(getEntry2DistanceColor(110, 100)).toBe('ORANGE');
+      expect(getEntry2DistanceColor(120, 100)).toBe('RED');
+      expect(getEntry2DistanceColor(100, 0)).toBe('BLANK');
+    });
+  });
+
+  describe('Exit upside', () => {
+    it('measures upside from price in percent', () => {
+      expect(getExitUpsidePercent(100, 150)).toBeCloseTo(50);
+      expect(getExitUpsidePercent(0, 150)).toBeNull();
+    });
+    it('is RED near Exit1, GREEN with at least 60% upside', () => {
+      expect(getExit1UpsideColor(96, 100)).toBe('RED');
+      expect(getExit1UpsideColor(100, 150)).toBe('ORANGE');
+      expect(getExit1UpsideColor(100, 160)).toBe('GREEN');
+    });
+    it('uses the RR2 threshold for Exit2', () => {
+      expect(getExit2UpsideColor(100, 160)).toBe('ORANGE');
+      expect(getExit2UpsideColor(100, 190)).toBe('GREEN');
+      expect(getExit2UpsideColor(100, 101)).toBe('RED');
+    });
+  });
+
+  describe('getIRR1Color', () => {
+    const values = createMockEntryExitValues({ entry1: 100, exit1: 170 });
+    it('is GREEN when RR1 passes and price is near Entry1', () => {
+      expect(getIRR1Color(104, values)).toBe('GREEN');
+    });
+    it('is ORANGE when RR1 passes but price is above Entry1', () => {
+      expect(getIRR1Color(120, values)).toBe('ORANGE');
+    });
+    it('is RED below the RR1 threshold and BLANK without levels', () => {
+      expect(getIRR1Color(100, createMockEntryExitValues({ entry1: 100, exit1: 120 }))).toBe('RED');
+      expect(getIRR1Color(100, undefined)).toBe('BLANK');
+    });
+  });
+
+  describe('IV (FCF) margin of safety', () => {
+    it('measures the margin below IV in percent', () => {
+      expect(getIvFcfMarginPercent(70, 100)).toBeCloseTo(30);
+      expect(getIvFcfMarginPercent(70, null)).toBeNull();
+    });
+    it('is GREEN from 30%, ORANGE below IV, RED at or above IV', () => {
+      expect(getIvFcfMarginColor(70, 100)).toBe('GREEN');
+      expect(getIvFcfMarginColor(90, 100)).toBe('ORANGE');
+      expect(getIvFcfMarginColor(100, 100)).toBe('RED');
+      expect(getIvFcfMarginColor(100, 0)).toBe('BLANK');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Distance to the next color band for the industry-banded metrics (Current Ratio, Cash/SDebt).
+ * Used by the fundamental Current Ratio / Cash/SDebt views to explain why a value has its color.
+ */
+
+import type { IndustryThresholdData } from '../../types/stock';
+import type { ColorType } from './types';
+import { getCashSdebtColor, getCurrentRatioColor } from './colorLogic';
+import { findIndustryThreshold } from '../industryResolution';
+
+export type BandedMetric = 'currentRatio' | 'cashSdebt';
+
+export interface BandPosition {
+  color: ColorType;
+  /** Industry band, null when the industry has no threshold row */
+  min: number | null;
+  max: number | null;
+  /** Color the value moves into when it crosses `distance`; null when there is no band to reach */
+  nextColor: ColorType | null;
+  /**
+   * Signed change in value that reaches the next band (positive = value must rise).
+   * For non-GREEN values this points towards the better band; for GREEN values it is the
+   * buffer to the nearest worse band.
+   */
+  distance: number | null;
+}
+
+/**
+ * Current Ratio bands: RED below min, GREEN in [min, max), ORANGE from max upwards.
+ */
+export function getCurrentRatioBandPosition(
+  currentRatio: number | null,
+  industry: string,
+  thresholdData: IndustryThresholdData[]
+): BandPosition {
+  const color = getCurrentRatioColor(currentRatio, industry, thresholdData);
+  const threshold = findIndustryThreshold(industry, thresholdData);
+  const min = threshold ? threshold.currentRatioMin : null;
+  const max = threshold ? threshold.currentRatioMax : null;
+  if (color === 'BLANK' || currentRatio === null || min === null || max === null) {
+    return { color, min, max, nextColor: null, distance: null };
+  }
+
+  if (color === 'RED') return { color, min, max, nextColor: 'GREEN', distance: min - currentRatio };
+  if (color === 'ORANGE') {
+    // An empty band (max <= min) means the value drops straight from ORANGE to RED
+    return { color, min, max, nextColor: max > min ? 'GREEN' : 'RED', distance: max - currentRatio };
+  }
+  const toOrange = max - currentRatio;
+  const toRed = min - currentRatio;
+  return Math.abs(toOrange) <= Math.abs(toRed)
+    ? { color, min, max, nextColor: 'ORANGE', distance: toOrange }
+    : { color, min, max, nextColor: 'RED', distance: toRed };
+}
+
+/**
+ * Cash/SDebt bands: RED at or below min, ORANGE between, GREEN from max upwards (or no short-term debt).
+ */
+export function getCashSdebtBandPosition(
+  cashSdebt: number | null,
+  isDivZero: boolean,
+  industry: string,
+  thresholdData: IndustryThresholdData[]
+): BandPosition {
+  const color = getCashSdebtColor(cashSdebt, isDivZero, industry, thresholdData);
+  const threshold = findIndustryThreshold(industry, thresholdData);
+  const min = threshold ? threshold.cashSdebtMin : null;
+  const max = threshold ? threshold.cashSdebtMax : null;
+  if (isDivZero || color === 'BLANK' || cashSdebt === null || min === null || max === null) {
+    return { color, min, max, nextColor: null, distance: null };
+  }
+
+  if (color === 'RED') return { color, min, max, nextColor: max > min ? 'ORANGE' : 'GREEN', distance: min - cashSdebt };
+  if (color === 'ORANGE') return { color, min, max, nextColor: 'GREEN', distance: max - cashSdebt };
+  return { color, min, max, nextColor: max > min ? 'ORANGE' : 'RED', distance: Math.max(max, min) - cashSdebt };
+}
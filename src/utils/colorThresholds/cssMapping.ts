@@ -31,3 +31,18 @@ export function colorTypeToCssClass(
   }
   return null;
 }
+
+export type ColorKey = keyof typeof COLORS;
+
+/**
+ * Inverse of colorTypeToCssClass: finds which COLORS entry a rendered className carries
+ * (matched on the light-mode text class). Returns null for uncolored cells.
+ */
+export function cssClassToColorKey(className: string): ColorKey | null {
+  const tokens = className.split(/\s+/);
+  for (const key of Object.keys(COLORS) as ColorKey[]) {
+    const lightClass = COLORS[key].split(' ')[0];
+    if (tokens.includes(lightClass)) return key;
+  }
+  return null;
+}
@@ -0,0 +1,102 @@
+/**
+ * Metrics and colors for the Entry/Exit analysis views (Entry2, Exit1, Exit2, IRR1, IV (FCF)).
+ * Percentages are returned unrounded; the tables format them.
+ */
+
+import type { EntryExitValuesForScore } from '../../types/score';
+import {
+  ENTRY_DISTANCE_ORANGE_PERCENT,
+  IV_FCF_MARGIN_GREEN_PERCENT,
+  PRICE_TOLERANCE_GREEN,
+  RR1_GREEN_THRESHOLD_PERCENT,
+  RR2_GREEN_THRESHOLD_PERCENT,
+} from '../../config/constants';
+import type { ColorType } from './types';
+import { getRR1Value } from './theoEntryLogic';
+import { isEntry2GreenForCell, isExit1RedForCell, isExit2RedForCell } from './entryExitCellColors';
+
+function isValidPrice(price: number | null | undefined): price is number {
+  return price !== null && price !== undefined && isFinite(price) && price > 0;
+}
+
+/**
+ * Distance of price above Entry2 in percent: (Price - Entry2) / Entry2 * 100. Negative = below Entry2.
+ */
+export function getEntry2DistancePercent(price: number | null | undefined, entry2: number): number | null {
+  if (!isValidPrice(price) || !(entry2 > 0)) return null;
+  return ((price - entry2) / entry2) * 100;
+}
+
+/**
+ * GREEN at or within 5% above Entry2 (same as the SCORE Entry2 cell), ORANGE within 15%, RED further above.
+ */
+export function getEntry2DistanceColor(price: number | null | undefined, entry2: number): ColorType {
+  const distance = getEntry2DistancePercent(price, entry2);
+  if (distance === null) return 'BLANK';
+  if (isEntry2GreenForCell(price, entry2)) return 'GREEN';
+  if (distance <= ENTRY_DISTANCE_ORANGE_PERCENT) return 'ORANGE';
+  return 'RED';
+}
+
+/**
+ * Upside from price to an exit level in percent: (Exit - Price) / Price * 100.
+ */
+export function getExitUpsidePercent(price: number | null | undefined, exit: number): number | null {
+  if (!isValidPrice(price) || !(exit > 0)) return null;
+  return ((exit - price) / price) * 100;
+}
+
+/**
+ * RED once price is within 5% of Exit1 (same as the SCORE Exit1 cell), GREEN with at least the RR1 threshold
+ * of upside left, ORANGE in between.
+ */
+export function getExit1UpsideColor(price: number | null | undefined, exit1: number): ColorType {
+  const upside = getExitUpsidePercent(price, exit1);
+  if (upside === null) return 'BLANK';
+  if (isExit1RedForCell(price, exit1)) return 'RED';
+  return upside >= RR1_GREEN_THRESHOLD_PERCENT ? 'GREEN' : 'ORANGE';
+}
+
+/**
+ * As getExit1UpsideColor, against Exit2 and the RR2 threshold.
+ */
+export function getExit2UpsideColor(price: number | null | undefined, exit2: number): ColorType {
+  const upside = getExitUpsidePercent(price, exit2);
+  if (upside === null) return 'BLANK';
+  if (isExit2RedForCell(price, exit2)) return 'RED';
+  return upside >= RR2_GREEN_THRESHOLD_PERCENT ? 'GREEN' : 'ORANGE';
+}
+
+/**
+ * RR1 coloring: GREEN when RR1 >= 60% and price <= Entry1 * 1.05 (as the RR1 column and TheoEntry),
+ * ORANGE when RR1 is high enough but price has not come down to Entry1, RED below the threshold.
+ */
+export function getIRR1Color(
+  price: number | null | undefined,
+  entryExitValues: EntryExitValuesForScore | undefined
+): ColorType {
+  const rr1 = getRR1Value(entryExitValues);
+  if (rr1 === null) return 'BLANK';
+  if (rr1 < RR1_GREEN_THRESHOLD_PERCENT) return 'RED';
+  const entry1 = entryExitValues?.entry1 || 0;
+  return isValidPrice(price) && entry1 > 0 && price <= entry1 * PRICE_TOLERANCE_GREEN ? 'GREEN' : 'ORANGE';
+}
+
+/**
+ * Margin of safety against IV (FCF) in percent: (IV - Price) / IV * 100. Negative = price above IV.
+ */
+export function getIvFcfMarginPercent(price: number | null | undefined, ivFcf: number | null | undefined): number | null {
+  if (!isValidPrice(price) || ivFcf === null || ivFcf === undefined || !isFinite(ivFcf) || ivFcf <= 0) return null;
+  return ((ivFcf - price) / ivFcf) * 100;
+}
+
+/**
+ * GREEN with at least 30% margin of safety, ORANGE below IV (FCF) with a smaller margin, RED at or above IV (FCF).
+ */
+export function getIvFcfMarginColor(price: number | null | undefined, ivFcf: number | null | undefined): ColorType {
+  const margin = getIvFcfMarginPercent(price, ivFcf);
+  if (margin === null) return 'BLANK';
+  if (margin >= IV_FCF_MARGIN_GREEN_PERCENT) return 'GREEN';
+  if (margin > 0) return 'ORANGE';
+  return 'RED';
+}
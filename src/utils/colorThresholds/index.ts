@@ -7,5 +7,7 @@ export type { ColorType } from './types';
 export * from './colorLogic';
 export * from './theoEntryLogic';
 export * from './entryExitCellColors';
-export { COLORS, colorTypeToCssClass } from './cssMapping';
-export type { ColorToCssOptions } from './cssMapping';
+export * from './entryExitMetrics';
+export * from './bandDistance';
+export { COLORS, colorTypeToCssClass, cssClassToColorKey } from './cssMapping';
+export type { ColorToCssOptions, ColorKey } from './cssMapping';
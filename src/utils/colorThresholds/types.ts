@@ -4,4 +4,4 @@
  */
 
 /** Color classification for score calculation (GREEN=1.0, ORANGE=0.70, RED=0, BLANK=0) */
-export type ColorType = 'GREEN' | 'ORANGE' | 'RED' | 'BLANK';
+export type { ColorType } from '../../../shared/colorLogic';
@@ -0,0 +1,188 @@
+/**
+ * Data quality checks for DashBoard rows: price moves since the previous snapshot, implausible P/E values,
+ * duplicate tickers, industries that do not resolve to INDUSTRY_MAP and stale entry/exit values. Structure is validated
+ * elsewhere (fetchValidation, sheet diagnostics); these checks catch values that parse but are likely wrong.
+ */
+
+import { MAX_PRICE_MOVE_PCT, PE_PLAUSIBLE_RANGE, STALE_ENTRY_EXIT_DAYS } from '../config/dataQuality';
+import { DASHBOARD_SCHEMA } from '../../shared/sheetSchema';
+import { readNumber, readText, type DataRow } from '../../shared/sheetTransforms';
+import { resolveIndustryKey } from './industryResolution';
+import type {
+  DataQualityIssue,
+  DataQualityRow,
+  DataQualityTickerIssues,
+  PriceBaseline,
+  PriceBaselines,
+} from '../types/dataQuality';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type { DataQualityRow } from '../types/dataQuality';
+
+export function toDataQualityRows(rows: DataRow[]): DataQualityRow[] {
+  const fields = DASHBOARD_SCHEMA.fields;
+  return rows
+    .map((row) => ({
+      ticker: readText(fields.ticker, row),
+      companyName: readText(fields.companyName, row),
+      industry: readText(fields.industry, row),
+      price: readNumber(fields.price, row),
+      pe: readNumber(fields.pe, row),
+      pe1: readNumber(fields.pe1, row),
+      pe2: readNumber(fields.pe2, row),
+    }))
+    .filter((row) => row.ticker !== '');
+}
+
+function tickerKey(ticker: string): string {
+  return ticker.trim().toUpperCase();
+}
+
+export function buildPriceBaseline(rows: DataQualityRow[], takenAt: number): PriceBaseline {
+  const prices: Record<string, number> = {};
+  rows.forEach((row) => {
+    if (row.price !== null && row.price > 0) prices[tickerKey(row.ticker)] = row.price;
+  });
+  return { prices, takenAt };
+}
+
+function samePrices(a: Record<string, number>, b: Record<string, number>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+}
+
+/**
+ * Baselines after a snapshot and the baseline to compare it with. A snapshot with the same prices as the
+ * current baseline is the same snapshot loaded again and keeps being compared with the previous one.
+ */
+export function rotatePriceBaselines(
+  stored: PriceBaselines | null,
+  next: PriceBaseline
+): { baselines: PriceBaselines; compareWith: PriceBaseline | null } {
+  if (!stored) return { baselines: { current: next, previous: null }, compareWith: null };
+  if (samePrices(stored.current.prices, next.prices)) {
+    return { baselines: stored, compareWith: stored.previous };
+  }
+  return { baselines: { current: next, previous: stored.current }, compareWith: stored.current };
+}
+
+/**
+ * Issues in one snapshot. previousPrices are the prices of the snapshot before (null on the first one);
+ * rows without a ticker are left to the sheet diagnostics.
+ */
+export function checkSnapshotQuality(
+  rows: DataQualityRow[],
+  previousPrices: Record<string, number> | null,
+  limits: { maxPriceMovePct: number; peRange: { min: number; max: number } } = {
+    maxPriceMovePct: MAX_PRICE_MOVE_PCT,
+    peRange: PE_PLAUSIBLE_RANGE,
+  }
+): DataQualityIssue[] {
+  const issues: DataQualityIssue[] = [];
+  const rowsPerTicker = new Map<string, number>();
+  rows.forEach((row) => rowsPerTicker.set(tickerKey(row.ticker), (rowsPerTicker.get(tickerKey(row.ticker)) ?? 0) + 1));
+
+  for (const row of rows) {
+    const key = tickerKey(row.ticker);
+    const base = { ticker: row.ticker, companyName: row.companyName };
+
+    const count = rowsPerTicker.get(key) ?? 0;
+    if (count > 1) {
+      issues.push({ ...base, check: 'duplicateTicker', severity: 'error', field: 'ticker', value: row.ticker, reference: count });
+    }
+
+    // Without the alias table here: the data quality hooks drop the issues the aliases resolve
+    if (resolveIndustryKey(row.industry) === null) {
+      issues.push({
+        ...base,
+        check: 'unknownIndustry',
+        severity: 'error',
+        field: 'industry',
+        value: row.industry || null,
+        reference: null,
+      });
+    }
+
+    const previousPrice = previousPrices?.[key];
+    if (row.price !== null && previousPrice !== undefined && previousPrice > 0) {
+      const movePct = ((row.price - previousPrice) / previousPrice) * 100;
+      if (Math.abs(movePct) > limits.maxPriceMovePct) {
+        issues.push({ ...base, check: 'priceMove', severity: 'warning', field: 'price', value: row.price, reference: previousPrice });
+      }
+    }
+
+    for (const field of ['pe', 'pe1', 'pe2'] as const) {
+      const value = row[field];
+      if (value === null) continue;
+      if (value <= limits.peRange.min || value > limits.peRange.max) {
+        issues.push({
+          ...base,
+          check: 'peOutOfRange',
+          severity: 'warning',
+          field,
+          value,
+          reference: value <= limits.peRange.min ? limits.peRange.min : limits.peRange.max,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/** Days since a 'YYYY-MM-DD' dateOfUpdate, or null when it does not parse */
+export function daysSinceUpdate(dateOfUpdate: string, now: number): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(dateOfUpdate.trim());
+  if (!match) return null;
+  const updatedAt = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+  return Math.floor((now - updatedAt) / DAY_MS);
+}
+
+/** Entry/exit values of the given rows last updated more than maxAgeDays ago */
+export function checkEntryExitStaleness(
+  rows: Array<Pick<DataQualityRow, 'ticker' | 'companyName'>>,
+  getDateOfUpdate: (ticker: string, companyName: string) => string | null,
+  now: number,
+  maxAgeDays: number = STALE_ENTRY_EXIT_DAYS
+): DataQualityIssue[] {
+  const issues: DataQualityIssue[] = [];
+  for (const row of rows) {
+    const dateOfUpdate = getDateOfUpdate(row.ticker, row.companyName);
+    if (!dateOfUpdate) continue;
+    const age = daysSinceUpdate(dateOfUpdate, now);
+    if (age !== null && age > maxAgeDays) {
+      issues.push({
+        check: 'staleEntryExit',
+        severity: 'warning',
+        ticker: row.ticker,
+        companyName: row.companyName,
+        field: 'dateOfUpdate',
+        value: dateOfUpdate,
+        reference: maxAgeDays,
+      });
+    }
+  }
+  return issues;
+}
+
+/** Issues grouped per ticker, tickers with errors first, then by issue count and ticker */
+export function groupIssuesByTicker(issues: DataQualityIssue[]): DataQualityTickerIssues[] {
+  const groups = new Map<string, DataQualityTickerIssues>();
+  for (const issue of issues) {
+    const key = tickerKey(issue.ticker);
+    const group = groups.get(key);
+    if (group) {
+      group.issues.push(issue);
+      if (issue.severity === 'error') group.severity = 'error';
+    } else {
+      groups.set(key, { ticker: issue.ticker, companyName: issue.companyName, severity: issue.severity, issues: [issue] });
+    }
+  }
+  return Array.from(groups.values()).sort(
+    (a, b) =>
+      (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1) ||
+      b.issues.length - a.issues.length ||
+      a.ticker.localeCompare(b.ticker)
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * Delta Sync Integrity
+ *
+ * Key-set bookkeeping for delta sync: applying delete / rename operations to the cached sheet keys
+ * and comparing row count + key-set hash with the server. computeKeySetHash must match
+ * computeKeySetHash in apps-script/Code.gs.
+ */
+
+export type DeltaChangeOp = 'upsert' | 'delete' | 'rename';
+
+export interface DeltaKeyOp {
+  op: DeltaChangeOp;
+  key: string;
+  /** rename only: key before the rename */
+  previousKey?: string;
+}
+
+export interface KeySetFingerprint {
+  rowCount?: number;
+  keyHash?: string;
+}
+
+/**
+ * FNV-1a (32-bit, hex) over the sorted, de-duplicated keys joined by newlines.
+ */
+export function computeKeySetHash(keys: string[]): string {
+  const joined = Array.from(new Set(keys)).sort().join('\n');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < joined.length; i++) {
+    hash ^= joined.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/**
+ * Apply delete / rename operations (in order) to a key list. Upserts of unknown keys add the key.
+ * Each delete removes one row; each rename replaces one occurrence of previousKey.
+ */
+export function applyKeyOps(keys: string[], ops: DeltaKeyOp[]): string[] {
+  const next = [...keys];
+  for (const { op, key, previousKey } of ops) {
+    if (op === 'delete') {
+      const index = next.indexOf(key);
+      if (index !== -1) next.splice(index, 1);
+    } else if (op === 'rename' && previousKey !== undefined) {
+      const index = next.indexOf(previousKey);
+      if (index !== -1) next[index] = key;
+      else if (!next.includes(key)) next.push(key);
+    } else if (op === 'upsert' && !next.includes(key)) {
+      next.push(key);
+    }
+  }
+  return next;
+}
+
+/**
+ * True when the keys match the server's row count and key-set hash (fields the server did not send are not checked).
+ */
+export function matchesKeySetFingerprint(keys: string[], expected: KeySetFingerprint): boolean {
+  if (expected.rowCount !== undefined && expected.rowCount !== keys.length) return false;
+  if (expected.keyHash !== undefined && expected.keyHash !== computeKeySetHash(keys)) return false;
+  return true;
+}
+
+/** Reads / replaces the sheet key of a transformed row (e.g. ticker) */
+export interface DeltaRowKeyAccessor<T> {
+  getKey: (row: T) => string;
+  withKey: (row: T, key: string) => T;
+}
+
+/**
+ * Apply delete / rename operations to transformed rows. Upserts are ignored: their values need the transformer.
+ */
+export function applyKeyOpsToRows<T>(rows: T[], ops: DeltaKeyOp[], accessor: DeltaRowKeyAccessor<T>): T[] {
+  const next = [...rows];
+  const findIndex = (key: string) => next.findIndex((row) => accessor.getKey(row).trim() === key);
+  for (const { op, key, previousKey } of ops) {
+    if (op === 'delete') {
+      const index = findIndex(key);
+      if (index !== -1) next.splice(index, 1);
+    } else if (op === 'rename' && previousKey !== undefined) {
+      const index = findIndex(previousKey);
+      if (index !== -1) next[index] = accessor.withKey(next[index], key);
+    }
+  }
+  return next;
+}
+
+/** Key accessor for rows keyed by ticker that stand alone (Benjamin Graham) */
+export function tickerKeyAccessor<T extends { ticker: string }>(): DeltaRowKeyAccessor<T> {
+  return {
+    getKey: (row) => row.ticker,
+    withKey: (row, ticker) => ({ ...row, ticker }),
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Industry resolution: maps the free-text industry of a DashBoard row to one of the canonical industries
+ * (INDUSTRY_MAP) and its threshold row. Names are compared normalized ('&' = 'and', case, punctuation and
+ * spacing ignored); names that still differ resolve through the admin-maintained alias table.
+ */
+
+import {
+  INDUSTRY_MAP,
+  findIndustryThreshold,
+  normalizeIndustryName,
+} from '../../shared/industries';
+import type { IndustryThresholdData } from '../types/stock';
+import type { IndustrySuggestion, UnresolvedIndustry } from '../types/industryAlias';
+
+// Resolution itself is shared with the Cloud Functions; the suggestions and the unresolved report are client-only
+export {
+  normalizeIndustryName,
+  resolveIndustryKey,
+  attachIndustryAliases,
+  findIndustryThreshold,
+} from '../../shared/industries';
+
+/** Minimum similarity for a fuzzy suggestion */
+const SUGGESTION_MIN_SCORE = 0.5;
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function significantWords(name: string): Set<string> {
+  return new Set(name.split(' ').filter((word) => word !== 'and' && word !== ''));
+}
+
+/** Similarity in [0, 1] of two normalized names: the better of shared words and edit distance */
+export function industrySimilarity(a: string, b: string): number {
+  if (a === '' || b === '') return 0;
+  const wordsA = significantWords(a);
+  const wordsB = significantWords(b);
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  const words = wordsA.size + wordsB.size > 0 ? (2 * shared) / (wordsA.size + wordsB.size) : 0;
+  const edits = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  return Math.max(words, edits);
+}
+
+/** Canonical industries most similar to an unresolved name, best first */
+export function suggestIndustries(industry: string, limit = 3): IndustrySuggestion[] {
+  const name = normalizeIndustryName(industry);
+  return Object.entries(INDUSTRY_MAP)
+    .map(([industryKey, label]) => ({ industryKey, label, score: industrySimilarity(name, normalizeIndustryName(label)) }))
+    .filter((suggestion) => suggestion.score >= SUGGESTION_MIN_SCORE)
+    .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label))
+    .slice(0, limit);
+}
+
+/**
+ * Rows whose industry has no threshold row, grouped by industry name (most rows first) with suggestions.
+ * Rows without an industry are grouped under ''.
+ */
+export function findUnresolvedIndustries(
+  rows: Array<{ ticker: string; companyName: string; industry: string }>,
+  thresholdData: IndustryThresholdData[]
+): UnresolvedIndustry[] {
+  const groups = new Map<string, UnresolvedIndustry>();
+  for (const row of rows) {
+    if (findIndustryThreshold(row.industry, thresholdData)) continue;
+    const industry = row.industry.trim();
+    const group = groups.get(industry);
+    if (group) {
+      group.rows.push({ ticker: row.ticker, companyName: row.companyName });
+    } else {
+      groups.set(industry, {
+        industry,
+        rows: [{ ticker: row.ticker, companyName: row.companyName }],
+        suggestions: industry === '' ? [] : suggestIndustries(industry),
+      });
+    }
+  }
+  return Array.from(groups.values()).sort((a, b) => b.rows.length - a.rows.length || a.industry.localeCompare(b.industry));
+}
@@ -0,0 +1,97 @@
+/**
+ * ISM regime model.
+ * Pure functions over monthly ISM Manufacturing readings: regime classification from the PMI level
+ * and trend (New Orders minus Inventories breaks ties) and the regime's tilt for each Score Board industry.
+ */
+
+import { INDUSTRY_MAP } from '../config/industryThresholdData';
+import { ISM_NEUTRAL_LEVEL, ISM_TREND_MONTHS, REGIME_INDUSTRY_TILTS } from '../config/ismRegime';
+import type { IndustryTilt, IndustryTiltRow, IsmReading, IsmRegime, IsmRegimeAssessment } from '../types/ism';
+
+/**
+ * Normalize a report date to YYYY-MM. Accepts YYYY-MM, YYYY-MM-DD and anything Date.parse understands.
+ * Null when the value is not a date.
+ */
+export function toIsmMonth(value: string): string | null {
+  const trimmed = value.trim();
+  const match = /^(\d{4})-(\d{1,2})(?:-\d{1,2})?$/.exec(trimmed);
+  if (match) {
+    const month = Number(match[2]);
+    return month >= 1 && month <= 12 ? `${match[1]}-${String(month).padStart(2, '0')}` : null;
+  }
+  const time = Date.parse(trimmed);
+  if (Number.isNaN(time)) return null;
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Combine two series by month; readings in `overrides` replace those in `base`. Result is oldest first.
+ */
+export function mergeIsmReadings(base: IsmReading[], overrides: IsmReading[]): IsmReading[] {
+  const byMonth = new Map<string, IsmReading>();
+  for (const reading of base) byMonth.set(reading.date, reading);
+  for (const reading of overrides) byMonth.set(reading.date, reading);
+  return [...byMonth.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function classifyAt(readings: IsmReading[], index: number): Omit<IsmRegimeAssessment, 'since'> {
+  const current = readings[index];
+  const previous = index > 0 ? readings[Math.max(0, index - ISM_TREND_MONTHS)] : null;
+  const pmiChange = previous ? current.pmi - previous.pmi : null;
+  const newOrdersLessInventories =
+    current.newOrders != null && current.inventories != null ? current.newOrders - current.inventories : null;
+
+  // Direction: PMI trend first, the leading New Orders − Inventories spread when the trend is flat or unknown
+  const direction = pmiChange ? Math.sign(pmiChange) : Math.sign(newOrdersLessInventories ?? 0);
+  let regime: IsmRegime;
+  if (current.pmi >= ISM_NEUTRAL_LEVEL) {
+    regime = direction < 0 ? 'slowdown' : 'expansion';
+  } else {
+    regime = direction > 0 ? 'recovery' : 'contraction';
+  }
+  return { regime, date: current.date, pmi: current.pmi, pmiChange, newOrdersLessInventories };
+}
+
+/**
+ * Regime for every month, oldest first. Readings must be sorted oldest first (see mergeIsmReadings).
+ */
+export function classifyIsmHistory(readings: IsmReading[]): IsmRegimeAssessment[] {
+  const history: IsmRegimeAssessment[] = [];
+  readings.forEach((_, index) => {
+    const assessment = classifyAt(readings, index);
+    const previous = history[history.length - 1];
+    const since = previous && previous.regime === assessment.regime ? previous.since : assessment.date;
+    history.push({ ...assessment, since });
+  });
+  return history;
+}
+
+/** Regime of the latest reading, null without readings */
+export function classifyIsmRegime(readings: IsmReading[]): IsmRegimeAssessment | null {
+  const history = classifyIsmHistory(readings);
+  return history[history.length - 1] ?? null;
+}
+
+/** Tilt of every Score Board industry under the regime, favored first */
+export function getIndustryTilts(regime: IsmRegime): IndustryTiltRow[] {
+  const { favored, unfavored } = REGIME_INDUSTRY_TILTS[regime];
+  const order: Record<IndustryTilt, number> = { favored: 0, neutral: 1, unfavored: 2 };
+  return Object.entries(INDUSTRY_MAP)
+    .map(([industryKey, industry]) => ({
+      industryKey,
+      industry,
+      tilt: (favored.includes(industryKey) ? 'favored' : unfavored.includes(industryKey) ? 'unfavored' : 'neutral') as IndustryTilt,
+    }))
+    .sort((a, b) => order[a.tilt] - order[b.tilt] || a.industry.localeCompare(b.industry));
+}
+
+/**
+ * Tilt for an industry label as written in the Dashboard sheet (matched case-insensitively, like thresholds).
+ * Unknown industries are neutral.
+ */
+export function getIndustryTilt(industry: string, regime: IsmRegime): IndustryTilt {
+  const label = industry.trim().toLowerCase();
+  const row = getIndustryTilts(regime).find((r) => r.industry.toLowerCase() === label);
+  return row?.tilt ?? 'neutral';
+}
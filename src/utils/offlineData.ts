@@ -0,0 +1,63 @@
+/**
+ * Offline data helpers: merging queued entry/exit saves before replay and the age of the data on screen.
+ */
+
+import type { EditValue } from '../types/audit';
+import type { QueuedEntryExitEdit } from '../types/offline';
+import type { EntryExitValuesForScore } from '../types/score';
+
+export type QueuedEditReplay = Omit<QueuedEntryExitEdit, 'id' | 'queuedAt' | 'kind'>;
+
+/**
+ * The fields a save changed, per company: the committed drafts ("companyName.field") plus the derived
+ * dateOfUpdate of each edited company. Only these are replayed, so edits others made meanwhile are kept.
+ */
+export function pickCommittedChanges(
+  values: Record<string, EntryExitValuesForScore>,
+  committed: Record<string, EditValue>
+): Record<string, Partial<EntryExitValuesForScore>> {
+  const changes: Record<string, Partial<EntryExitValuesForScore>> = {};
+  for (const draftKey of Object.keys(committed)) {
+    const dot = draftKey.lastIndexOf('.');
+    const companyName = draftKey.slice(0, dot);
+    const field = draftKey.slice(dot + 1) as keyof EntryExitValuesForScore;
+    const entry = values[companyName];
+    if (!entry || !(field in entry)) continue;
+    changes[companyName] = { ...changes[companyName], [field]: entry[field], dateOfUpdate: entry.dateOfUpdate };
+  }
+  return changes;
+}
+
+/**
+ * Merge queued saves (oldest first) into one: later field values and committed drafts win,
+ * the earliest baseline of each field is kept so editHistory shows the value before going offline.
+ */
+export function coalesceQueuedEdits(edits: QueuedEntryExitEdit[]): QueuedEditReplay | null {
+  if (edits.length === 0) return null;
+  const merged: QueuedEditReplay = { changes: {}, committed: {}, baselines: {}, tickers: {} };
+  for (const edit of [...edits].sort((a, b) => a.queuedAt - b.queuedAt)) {
+    for (const [companyName, fields] of Object.entries(edit.changes)) {
+      merged.changes[companyName] = { ...merged.changes[companyName], ...fields };
+    }
+    Object.assign(merged.committed, edit.committed);
+    Object.assign(merged.tickers, edit.tickers);
+    for (const [key, value] of Object.entries(edit.baselines)) {
+      if (!(key in merged.baselines)) merged.baselines[key] = value;
+    }
+  }
+  return merged;
+}
+
+export interface DataAge {
+  unit: 'minutes' | 'hours' | 'days';
+  count: number;
+}
+
+/** Age of data built at `timestamp`, in the largest whole unit (minutes below one hour, hours below one day) */
+export function getDataAge(timestamp: number, now: number = Date.now()): DataAge {
+  const minutes = Math.max(0, Math.floor((now - timestamp) / 60000));
+  if (minutes < 60) return { unit: 'minutes', count: minutes };
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return { unit: 'hours', count: hours };
+  return { unit: 'days', count: Math.floor(hours / 24) };
+}
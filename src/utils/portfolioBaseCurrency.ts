@@ -0,0 +1,61 @@
+/**
+ * Base-currency conversion for the Personal Portfolio.
+ * Cost basis uses the base-currency rate on each trade date: the transaction's own USD rate crossed with
+ * the USD→base rate of the latest portfolio snapshot on or before that date (today's rate when none exists).
+ */
+
+import { snapshotRate } from './portfolioPerformance';
+import type { PortfolioPosition, PortfolioSnapshot, PortfolioTransaction } from '../types/portfolio';
+
+/** Unrealized P/L split into the stock's price move and the move of its currency against the base currency */
+export interface ProfitLossSplit {
+  price: number;
+  currency: number;
+}
+
+/**
+ * Trade-date rate lookup for deriveHolding: units of `baseCurrency` per 1 unit of the transaction currency.
+ * Snapshots must be sorted oldest first.
+ */
+export function createTradeDateRateLookup(
+  snapshots: PortfolioSnapshot[],
+  baseCurrency: string,
+  usdToBaseNow: number
+): (tx: PortfolioTransaction) => number {
+  const base = baseCurrency.toUpperCase();
+  const usdToBaseOn = (date: string): number => {
+    if (base === 'USD') return 1;
+    let rate: number | null = null;
+    for (const snapshot of snapshots) {
+      if (snapshot.date > date) break;
+      rate = snapshotRate(snapshot, base) ?? rate;
+    }
+    return rate ?? usdToBaseNow;
+  };
+  return (tx) => ((tx.currency || 'USD').toUpperCase() === base ? 1 : tx.fxRateToUSD * usdToBaseOn(tx.tradeDate));
+}
+
+/**
+ * Split unrealized P/L (market value − cost basis, both in base currency).
+ * The currency part is the open cost in each trade currency revalued at today's rate minus its trade-date value;
+ * the price part is the rest. Null when a position's currency has no rate today.
+ */
+export function splitUnrealizedProfitLoss(
+  marketValueBase: number,
+  costBasisBase: number,
+  positions: PortfolioPosition[],
+  rateToBaseNow: (currency: string) => number | null
+): ProfitLossSplit | null {
+  let costAtTodaysRate = 0;
+  for (const position of positions) {
+    const invested = position.investedAmount ?? 0;
+    if (invested <= 0) continue;
+    const rate = rateToBaseNow((position.investmentCurrency || 'USD').toUpperCase());
+    if (rate == null) return null;
+    costAtTodaysRate += invested * rate;
+  }
+  return {
+    price: marketValueBase - costAtTodaysRate,
+    currency: costAtTodaysRate - costBasisBase,
+  };
+}
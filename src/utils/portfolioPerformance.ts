@@ -0,0 +1,255 @@
+/**
+ * Portfolio performance.
+ * Pure functions over the daily valuation snapshots and the transaction ledger:
+ * time-weighted return (Modified Dietz per snapshot interval, chained), money-weighted
+ * return (XIRR) and a benchmark ticker's return over the same window.
+ */
+
+import type { PortfolioItem, PortfolioSnapshot } from '../types/portfolio';
+
+/** External cash flow on a day. Positive = money put into the portfolio (buys, fees), negative = taken out (sales, dividends). */
+export interface PerformanceCashFlow {
+  date: string; // YYYY-MM-DD
+  amount: number;
+}
+
+export interface PerformancePoint {
+  date: string;
+  value: number;
+  /** Cumulative time-weighted return since the window start (0.05 = +5 %) */
+  portfolioReturn: number;
+  /** Cumulative benchmark return since its first price in the window, null before that */
+  benchmarkReturn: number | null;
+}
+
+export interface PerformanceResult {
+  points: PerformancePoint[];
+  /** Cumulative time-weighted return over the window */
+  twr: number | null;
+  /** Annualized money-weighted return, null when it cannot be solved */
+  xirr: number | null;
+  benchmarkReturn: number | null;
+  startValue: number | null;
+  endValue: number | null;
+  /** Sum of cash flows inside the window (contributions minus withdrawals) */
+  netContributions: number;
+}
+
+export interface PerformanceOptions {
+  /** 'USD' or a currency with a rate in the snapshots (usdRates / baseCurrency) */
+  currency: string;
+  benchmarkTicker: string | null;
+  /** First day of the window; null = since inception (XIRR uses the whole ledger) */
+  startDate: string | null;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function toDayNumber(date: string): number {
+  const [y, m, d] = date.split('-').map(Number);
+  return Date.UTC(y, m - 1, d) / MS_PER_DAY;
+}
+
+/**
+ * Net external cash flow per trade date in USD, using each transaction's stored FX rate
+ * (same amounts as deriveHolding: buy fee adds to cost, sell fee reduces proceeds).
+ */
+export function ledgerCashFlows(portfolio: PortfolioItem[]): PerformanceCashFlow[] {
+  const byDate = new Map<string, number>();
+  for (const item of portfolio) {
+    for (const tx of item.transactions ?? []) {
+      const fee = tx.fee ?? 0;
+      let local = 0;
+      switch (tx.type) {
+        case 'buy':
+          local = tx.quantity * tx.price + fee;
+          break;
+        case 'sell':
+          local = -(tx.quantity * tx.price - fee);
+          break;
+        case 'dividend':
+          local = -(tx.amount ?? 0);
+          break;
+        case 'fee':
+          local = tx.amount ?? 0;
+          break;
+        case 'split':
+          break;
+      }
+      if (local === 0) continue;
+      byDate.set(tx.tradeDate, (byDate.get(tx.tradeDate) ?? 0) + local * tx.fxRateToUSD);
+    }
+  }
+  return [...byDate.entries()]
+    .map(([date, amount]) => ({ date, amount }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** Units of `currency` per 1 USD on the snapshot date, null when the snapshot has no rate for it */
+export function snapshotRate(snapshot: PortfolioSnapshot, currency: string): number | null {
+  if (currency === 'USD') return 1;
+  const rate = snapshot.usdRates[currency] ?? (snapshot.baseCurrency === currency ? snapshot.usdToBase : null);
+  return rate != null && rate > 0 ? rate : null;
+}
+
+/**
+ * Convert USD flows with the rate of the first snapshot on or after the flow
+ * (the snapshot that closes its interval); flows after the last snapshot use the last rate.
+ * Snapshots must be sorted and carry a rate for `currency`.
+ */
+export function convertFlows(
+  flows: PerformanceCashFlow[],
+  snapshots: PortfolioSnapshot[],
+  currency: string
+): PerformanceCashFlow[] {
+  if (currency === 'USD' || snapshots.length === 0) return flows;
+  return flows.map((flow) => {
+    const closing = snapshots.find((s) => s.date >= flow.date) ?? snapshots[snapshots.length - 1];
+    return { date: flow.date, amount: flow.amount * (snapshotRate(closing, currency) ?? 0) };
+  });
+}
+
+/**
+ * Modified Dietz return for one interval: each flow is weighted by the share of the
+ * interval it was invested. Zero when nothing was invested (empty portfolio).
+ */
+function intervalReturn(
+  startValue: number,
+  endValue: number,
+  startDay: number,
+  endDay: number,
+  flows: PerformanceCashFlow[]
+): number {
+  const length = endDay - startDay;
+  let netFlow = 0;
+  let weightedFlow = 0;
+  for (const flow of flows) {
+    netFlow += flow.amount;
+    weightedFlow += length > 0 ? (flow.amount * (endDay - toDayNumber(flow.date))) / length : 0;
+  }
+  const invested = startValue + weightedFlow;
+  if (invested <= 0) return 0;
+  return (endValue - startValue - netFlow) / invested;
+}
+
+/**
+ * Annualized internal rate of return for dated cash flows (investor perspective:
+ * negative = paid in, positive = received). Newton's method with a bisection fallback.
+ * Null without both signs or when no root is found.
+ */
+export function xirr(cashFlows: PerformanceCashFlow[]): number | null {
+  const flows = cashFlows.filter((f) => f.amount !== 0);
+  if (!flows.some((f) => f.amount < 0) || !flows.some((f) => f.amount > 0)) return null;
+  const firstDay = Math.min(...flows.map((f) => toDayNumber(f.date)));
+  const years = flows.map((f) => (toDayNumber(f.date) - firstDay) / 365);
+  if (Math.max(...years) === 0) return null;
+
+  const npv = (rate: number) => flows.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+  const derivative = (rate: number) =>
+    flows.reduce((sum, f, i) => sum - (years[i] * f.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    if (Math.abs(value) < 1e-7) return rate;
+    const slope = derivative(rate);
+    if (slope === 0 || !isFinite(slope)) break;
+    const next = rate - value / slope;
+    if (!isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  let low = -0.9999;
+  let high = 100;
+  let lowValue = npv(low);
+  if (lowValue * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid);
+    if (Math.abs(midValue) < 1e-7 || high - low < 1e-10) return mid;
+    if (lowValue * midValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Performance over the snapshots in the window. `usdFlows` are ledger flows (see ledgerCashFlows);
+ * values, flows and benchmark prices are converted with each snapshot's rate for `currency`.
+ * Snapshots without that rate are skipped.
+ */
+export function computePerformance(
+  snapshots: PortfolioSnapshot[],
+  usdFlows: PerformanceCashFlow[],
+  options: PerformanceOptions
+): PerformanceResult {
+  const { currency, benchmarkTicker, startDate } = options;
+  const sorted = snapshots
+    .filter((s) => snapshotRate(s, currency) != null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const flows = convertFlows(usdFlows, sorted, currency);
+  const window = startDate ? sorted.filter((s) => s.date >= startDate) : sorted;
+  const valueOf = (snapshot: PortfolioSnapshot) => snapshot.valueUSD * (snapshotRate(snapshot, currency) ?? 0);
+
+  if (window.length === 0) {
+    return { points: [], twr: null, xirr: null, benchmarkReturn: null, startValue: null, endValue: null, netContributions: 0 };
+  }
+
+  const points: PerformancePoint[] = [];
+  let growth = 1;
+  let benchmarkBase: number | null = null;
+  window.forEach((snapshot, index) => {
+    const value = valueOf(snapshot);
+    if (index > 0) {
+      const previous = window[index - 1];
+      const intervalFlows = flows.filter((f) => f.date > previous.date && f.date <= snapshot.date);
+      growth *= 1 + intervalReturn(
+        valueOf(previous),
+        value,
+        toDayNumber(previous.date),
+        toDayNumber(snapshot.date),
+        intervalFlows
+      );
+    }
+
+    let benchmarkReturn: number | null = null;
+    if (benchmarkTicker) {
+      const priceUSD = snapshot.pricesUSD[benchmarkTicker];
+      const price = priceUSD != null && priceUSD > 0 ? priceUSD * (snapshotRate(snapshot, currency) ?? 0) : null;
+      if (price != null) {
+        if (benchmarkBase == null) benchmarkBase = price;
+        benchmarkReturn = price / benchmarkBase - 1;
+      }
+    }
+    points.push({ date: snapshot.date, value, portfolioReturn: growth - 1, benchmarkReturn });
+  });
+
+  const first = window[0];
+  const last = window[window.length - 1];
+  const startValue = valueOf(first);
+  const endValue = valueOf(last);
+  const windowFlows = startDate
+    ? flows.filter((f) => f.date > first.date && f.date <= last.date)
+    : flows.filter((f) => f.date <= last.date);
+  const xirrFlows: PerformanceCashFlow[] = [
+    ...(startDate ? [{ date: first.date, amount: -startValue }] : []),
+    ...windowFlows.map((f) => ({ date: f.date, amount: -f.amount })),
+    { date: last.date, amount: endValue },
+  ];
+  const lastBenchmark = points[points.length - 1].benchmarkReturn;
+
+  return {
+    points,
+    twr: window.length > 1 ? growth - 1 : null,
+    xirr: xirr(xirrFlows),
+    benchmarkReturn: window.length > 1 ? lastBenchmark : null,
+    startValue,
+    endValue,
+    netContributions: windowFlows.reduce((sum, f) => sum + f.amount, 0),
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Price alert evaluation.
+ * Pure functions: the PriceAlertContext feeds them the latest prices/scores and persists the result.
+ */
+
+import { isTheoEntryGreen } from './colorThresholds/theoEntryLogic';
+import type { AlertMarketData, PriceAlert, PriceAlertCondition } from '../types/priceAlert';
+
+export function toAlertTickerKey(ticker: string): string {
+  return ticker.trim().toLowerCase();
+}
+
+/**
+ * Condition result for current data. Null when the data needed is missing
+ * (no price, no score yet, Entry/Exit not set) – such alerts keep their previous state.
+ */
+export function evaluateCondition(condition: PriceAlertCondition, market: AlertMarketData): boolean | null {
+  const { price, score, entryExit } = market;
+  switch (condition.type) {
+    case 'price-below-entry': {
+      const entry = entryExit?.[condition.target];
+      if (price === null || !entry) return null;
+      return price <= entry * condition.factor;
+    }
+    case 'price-above-exit': {
+      const exit = entryExit?.[condition.target];
+      if (price === null || !exit) return null;
+      return price >= exit;
+    }
+    case 'price-below':
+      return price === null ? null : price <= condition.value;
+    case 'price-above':
+      return price === null ? null : price >= condition.value;
+    case 'score-crosses':
+      return score === null ? null : score >= condition.value;
+    case 'theo-entry-green':
+      if (price === null || !entryExit) return null;
+      return isTheoEntryGreen(entryExit, price);
+  }
+}
+
+export interface PriceAlertEvaluation {
+  /** Alerts whose condition turned true in this evaluation */
+  triggered: PriceAlert[];
+  /** All alerts with updated lastState/lastTriggeredAt */
+  alerts: PriceAlert[];
+  /** True when any alert changed (caller should persist) */
+  changed: boolean;
+}
+
+/**
+ * Evaluate alerts against market data keyed by toAlertTickerKey.
+ * The first evaluation of a new alert only records its state, so creating an alert
+ * whose condition already holds does not fire immediately.
+ */
+export function evaluatePriceAlerts(
+  alerts: PriceAlert[],
+  market: Map<string, AlertMarketData>,
+  now: number = Date.now()
+): PriceAlertEvaluation {
+  const triggered: PriceAlert[] = [];
+  let changed = false;
+
+  const next = alerts.map((alert) => {
+    if (!alert.enabled) return alert;
+    const data = market.get(toAlertTickerKey(alert.ticker));
+    if (!data) return alert;
+    const state = evaluateCondition(alert.condition, data);
+    if (state === null || state === alert.lastState) return alert;
+
+    changed = true;
+    const fires = state && alert.lastState === false;
+    const updated: PriceAlert = { ...alert, lastState: state, lastTriggeredAt: fires ? now : alert.lastTriggeredAt };
+    if (fires) triggered.push(updated);
+    return updated;
+  });
+
+  return { triggered, alerts: next, changed };
+}
+
+type Translate = (key: string, options: Record<string, unknown>) => string;
+
+/** Human-readable condition, e.g. "Pris ≤ Entry1 × 1.05". */
+export function describePriceAlertCondition(condition: PriceAlertCondition, t: Translate): string {
+  switch (condition.type) {
+    case 'price-below-entry':
+      return t('priceAlerts.condition.priceBelowEntry', {
+        target: condition.target === 'entry1' ? 'Entry1' : 'Entry2',
+        factor: condition.factor,
+        defaultValue: `Pris ≤ ${condition.target === 'entry1' ? 'Entry1' : 'Entry2'} × ${condition.factor}`,
+      });
+    case 'price-above-exit':
+      return t('priceAlerts.condition.priceAboveExit', {
+        target: condition.target === 'exit1' ? 'Exit1' : 'Exit2',
+        defaultValue: `Pris ≥ ${condition.target === 'exit1' ? 'Exit1' : 'Exit2'}`,
+      });
+    case 'price-below':
+      return t('priceAlerts.condition.priceBelow', { value: condition.value, defaultValue: `Pris ≤ ${condition.value}` });
+    case 'price-above':
+      return t('priceAlerts.condition.priceAbove', { value: condition.value, defaultValue: `Pris ≥ ${condition.value}` });
+    case 'score-crosses':
+      return t('priceAlerts.condition.scoreCrosses', { value: condition.value, defaultValue: `Score passerar ${condition.value}` });
+    case 'theo-entry-green':
+      return t('priceAlerts.condition.theoEntryGreen', { defaultValue: 'TheoEntry blir GRÖN' });
+  }
+}
+
+/** Conditions that need Entry/Exit values from the entiryExit collection */
+export function needsEntryExit(condition: PriceAlertCondition): boolean {
+  return condition.type === 'price-below-entry' || condition.type === 'price-above-exit' || condition.type === 'theo-entry-green';
+}
@@ -0,0 +1,65 @@
+/**
+ * Combines refresh run summaries into one "what changed since you last looked" summary.
+ */
+
+import type { RefreshRun, TopMover } from '../types/refreshRun';
+
+export interface ViewChangeTotals {
+  viewId: string;
+  added: number;
+  removed: number;
+  updated: number;
+}
+
+export interface RefreshChangesSummary {
+  runs: number;
+  latestAt: Date | null;
+  /** Per view, summed over all runs (views without changes are left out) */
+  views: ViewChangeTotals[];
+  /** Score input moves netted over all runs, largest first */
+  topMovers: TopMover[];
+}
+
+export const SUMMARY_TOP_MOVERS_LIMIT = 10;
+
+function changePercent(oldValue: number, newValue: number): number {
+  return oldValue !== 0 ? ((newValue - oldValue) / Math.abs(oldValue)) * 100 : newValue - oldValue;
+}
+
+/**
+ * Summarize runs given oldest first. A mover seen in several runs keeps the first old value and the last new value;
+ * moves that net out are dropped.
+ */
+export function summarizeRefreshRuns(runs: RefreshRun[], limit: number = SUMMARY_TOP_MOVERS_LIMIT): RefreshChangesSummary {
+  const views = new Map<string, ViewChangeTotals>();
+  const movers = new Map<string, TopMover>();
+  let latestAt: Date | null = null;
+
+  for (const run of runs) {
+    if (run.timestamp && (!latestAt || run.timestamp > latestAt)) latestAt = run.timestamp;
+    for (const diff of run.views) {
+      const totals = views.get(diff.viewId) ?? { viewId: diff.viewId, added: 0, removed: 0, updated: 0 };
+      totals.added += diff.added;
+      totals.removed += diff.removed;
+      totals.updated += diff.updated;
+      views.set(diff.viewId, totals);
+
+      for (const mover of diff.topMovers) {
+        const key = `${mover.ticker}|${mover.field}`;
+        const prev = movers.get(key);
+        const oldValue = prev ? prev.oldValue : mover.oldValue;
+        movers.set(key, { ...mover, oldValue, changePercent: changePercent(oldValue, mover.newValue) });
+      }
+    }
+  }
+
+  return {
+    runs: runs.length,
+    latestAt,
+    views: Array.from(views.values()).filter((v) => v.added + v.removed + v.updated > 0),
+    topMovers: Array.from(movers.values())
+      .filter((m) => m.oldValue !== m.newValue)
+      .sort((a, b) => Math.abs(b.changePercent) - Math.abs(a.changePercent))
+      .slice(0, limit),
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Scoring model helpers.
+ * Single source of metric evaluation for calculateScore and calculateScoreDetailed;
+ * weights, methods, color factors and enabled metrics come from the ScoringModel.
+ * The implementation lives in shared/scoringModel.ts, which the daily score snapshot function uses too.
+ */
+
+export {
+  getMetricColor,
+  getMetricFactor,
+  getActiveMetrics,
+  getTotalWeight,
+  getCategoryMaxPoints,
+  scaleScore,
+  scoreFromColors,
+  validateScoringModel,
+  parseScoringModel,
+} from '../../shared/scoringModel';
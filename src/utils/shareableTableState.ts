@@ -0,0 +1,124 @@
+/**
+ * Shareable table links.
+ * Table state (filters, column filters, search, sort, visible columns) is serialized into one
+ * compact, versioned URL parameter: base64url(JSON) with short keys. Bump SHARE_STATE_VERSION
+ * when the payload shape changes; older links are then reported as outdated instead of
+ * hydrating a table with state it no longer understands.
+ */
+
+import type { ShareableTableState, FilterValues } from '../types/filters';
+import type { ColumnFilter, ColumnFilters } from '../hooks/useColumnFilters';
+import { isObject, isString } from './typeGuards';
+
+export const SHARE_STATE_PARAM = 'ts';
+export const SHARE_STATE_VERSION = 1;
+
+export interface SharedTableLink {
+  /** View (route) the link opens */
+  viewId: string;
+  tableId: string;
+  state: ShareableTableState;
+}
+
+export type SharedTableLinkResult =
+  | { ok: true; link: SharedTableLink }
+  | { ok: false; reason: 'invalid' | 'outdated' };
+
+/** Wire format – keep keys short, URLs get long quickly */
+interface SharePayload {
+  v: number;
+  w: string;
+  t: string;
+  f?: FilterValues;
+  c?: ColumnFilters;
+  q?: string;
+  s?: [string, 'a' | 'd'];
+  h?: string[];
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+}
+
+export function encodeSharedTableLink({ viewId, tableId, state }: SharedTableLink): string {
+  const payload: SharePayload = { v: SHARE_STATE_VERSION, w: viewId, t: tableId };
+  if (state.filterState && Object.keys(state.filterState).length > 0) payload.f = state.filterState;
+  if (state.columnFilters && Object.keys(state.columnFilters).length > 0) payload.c = state.columnFilters;
+  if (state.searchValue) payload.q = state.searchValue;
+  if (state.sortConfig) payload.s = [state.sortConfig.key, state.sortConfig.direction === 'asc' ? 'a' : 'd'];
+  if (state.visibleColumns) payload.h = state.visibleColumns;
+  return toBase64Url(JSON.stringify(payload));
+}
+
+function isFilterValues(value: unknown): value is FilterValues {
+  if (!isObject(value)) return false;
+  return Object.values(value).every(
+    (v) =>
+      v === null ||
+      typeof v === 'string' ||
+      typeof v === 'number' ||
+      typeof v === 'boolean' ||
+      (isObject(v) && Object.values(v).every((n) => n === undefined || typeof n === 'number'))
+  );
+}
+
+function isColumnFilter(value: unknown): value is ColumnFilter {
+  if (!isObject(value) || !isString(value.columnKey)) return false;
+  if (value.type !== 'values' && value.type !== 'condition' && value.type !== 'none') return false;
+  if (value.selectedValues !== undefined && !Array.isArray(value.selectedValues)) return false;
+  return value.conditionValue === undefined || typeof value.conditionValue === 'string' || typeof value.conditionValue === 'number';
+}
+
+function isColumnFilters(value: unknown): value is ColumnFilters {
+  return isObject(value) && Object.values(value).every(isColumnFilter);
+}
+
+export function decodeSharedTableLink(param: string): SharedTableLinkResult {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(param));
+  } catch {
+    return { ok: false, reason: 'invalid' };
+  }
+  if (!isObject(payload) || typeof payload.v !== 'number') return { ok: false, reason: 'invalid' };
+  if (payload.v !== SHARE_STATE_VERSION) return { ok: false, reason: 'outdated' };
+
+  const { w, t, f, c, q, s, h } = payload as Partial<Record<keyof SharePayload, unknown>>;
+  if (!isString(w) || !isString(t)) return { ok: false, reason: 'invalid' };
+  if (f !== undefined && !isFilterValues(f)) return { ok: false, reason: 'invalid' };
+  if (c !== undefined && !isColumnFilters(c)) return { ok: false, reason: 'invalid' };
+  if (q !== undefined && !isString(q)) return { ok: false, reason: 'invalid' };
+  if (s !== undefined && !(Array.isArray(s) && s.length === 2 && isString(s[0]) && (s[1] === 'a' || s[1] === 'd'))) {
+    return { ok: false, reason: 'invalid' };
+  }
+  if (h !== undefined && !(Array.isArray(h) && h.every(isString))) return { ok: false, reason: 'invalid' };
+
+  const state: ShareableTableState = {};
+  if (f) state.filterState = f;
+  if (c) state.columnFilters = c;
+  if (q) state.searchValue = q;
+  if (s) state.sortConfig = { key: s[0] as string, direction: s[1] === 'a' ? 'asc' : 'desc' };
+  if (h) state.visibleColumns = h as string[];
+  return { ok: true, link: { viewId: w, tableId: t, state } };
+}
+
+/**
+ * Absolute URL that opens the view with the table state applied.
+ * baseUrl is the app root including the router basename (e.g. https://host/app/).
+ */
+export function buildSharedTableUrl(link: SharedTableLink, baseUrl: string): string {
+  const params = new URLSearchParams({ [SHARE_STATE_PARAM]: encodeSharedTableLink(link) });
+  return `${baseUrl.replace(/\/$/, '')}/${link.viewId}?${params.toString()}`;
+}
@@ -0,0 +1,37 @@
+/**
+ * Status and ordering of sheet diagnostics reports for the Data Health admin view.
+ */
+
+import { SHEET_SCHEMAS } from '../../shared/sheetSchema';
+import type { SheetColumnDiagnostics, SheetDiagnosticsReport } from '../types/sheetDiagnostics';
+
+/** Share of filled cells that may fail to parse before a column is flagged (sheets carry some #N/A) */
+export const PARSE_FAILURE_WARNING_RATE = 0.2;
+
+export type SheetDiagnosticsStatus = 'ok' | 'warning' | 'error';
+
+/** error: required column missing; warning: optional column missing or too many parse failures */
+export function getColumnStatus(column: SheetColumnDiagnostics): SheetDiagnosticsStatus {
+  if (column.header === null) return column.required ? 'error' : 'warning';
+  return column.parseFailureRate >= PARSE_FAILURE_WARNING_RATE ? 'warning' : 'ok';
+}
+
+/** Worst column status of a report */
+export function getReportStatus(report: SheetDiagnosticsReport): SheetDiagnosticsStatus {
+  if (report.missingRequired.length > 0) return 'error';
+  return report.columns.some((column) => getColumnStatus(column) !== 'ok') ? 'warning' : 'ok';
+}
+
+/** Reports in schema order (DashBoard, SMA, IndustryThreshold), session before server, newest first */
+export function sortSheetDiagnosticsReports(reports: SheetDiagnosticsReport[]): SheetDiagnosticsReport[] {
+  const schemaOrder = (report: SheetDiagnosticsReport) => {
+    const index = SHEET_SCHEMAS.findIndex((schema) => schema.id === report.schemaId);
+    return index === -1 ? SHEET_SCHEMAS.length : index;
+  };
+  return [...reports].sort(
+    (a, b) =>
+      schemaOrder(a) - schemaOrder(b) ||
+      (a.source === b.source ? 0 : a.source === 'session' ? -1 : 1) ||
+      b.generatedAt - a.generatedAt
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * TAChart series.
+ * Pure functions behind the TAChart view: SMA overlays computed from the price series,
+ * the points where price crossed an SMA (getSMAColor flipped between GREEN and RED),
+ * and parsing of local OHLC price files.
+ */
+
+import Papa from 'papaparse';
+import { getSMAColor } from './colorThresholds/colorLogic';
+
+/** One day of prices. open/high/low are null for close-only sources (score history). */
+export interface PriceBar {
+  date: string; // YYYY-MM-DD
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number;
+}
+
+export const SMA_PERIODS = [9, 21, 55, 200] as const;
+export type SMAPeriod = (typeof SMA_PERIODS)[number];
+
+export interface TAChartPoint extends PriceBar {
+  sma9: number | null;
+  sma21: number | null;
+  sma55: number | null;
+  sma200: number | null;
+  /** [low, high] for the candlestick bar, null without OHLC */
+  candle: [number, number] | null;
+}
+
+export interface SMAFlip {
+  date: string;
+  period: SMAPeriod;
+  /** Color after the flip: GREEN = price crossed above the SMA, RED = below */
+  color: 'GREEN' | 'RED';
+  price: number;
+}
+
+/** Simple moving average of the closes ending at each index; null until `period` values exist */
+export function computeSMA(closes: number[], period: number): (number | null)[] {
+  const result: (number | null)[] = [];
+  let sum = 0;
+  closes.forEach((close, i) => {
+    sum += close;
+    if (i >= period) sum -= closes[i - period];
+    result.push(i >= period - 1 ? sum / period : null);
+  });
+  return result;
+}
+
+/** True when every bar has open, high and low (candlesticks can be drawn) */
+export function hasOHLC(bars: PriceBar[]): boolean {
+  return bars.length > 0 && bars.every((b) => b.open != null && b.high != null && b.low != null);
+}
+
+/** Chart points with SMA overlays; bars must be sorted oldest first */
+export function buildTAChartPoints(bars: PriceBar[]): TAChartPoint[] {
+  const closes = bars.map((b) => b.close);
+  const [sma9, sma21, sma55, sma200] = SMA_PERIODS.map((period) => computeSMA(closes, period));
+  return bars.map((bar, i) => ({
+    ...bar,
+    sma9: sma9[i],
+    sma21: sma21[i],
+    sma55: sma55[i],
+    sma200: sma200[i],
+    candle: bar.high != null && bar.low != null ? [bar.low, bar.high] : null,
+  }));
+}
+
+/**
+ * Days where the SMA color (getSMAColor of close vs SMA) flipped between GREEN and RED.
+ * ORANGE (close equal to SMA) and BLANK (no SMA yet) keep the previous color.
+ */
+export function findSMAFlips(points: TAChartPoint[], period: SMAPeriod): SMAFlip[] {
+  const key = `sma${period}` as const;
+  const flips: SMAFlip[] = [];
+  let previous: 'GREEN' | 'RED' | null = null;
+  for (const point of points) {
+    const color = getSMAColor(point.close, point[key]);
+    if (color !== 'GREEN' && color !== 'RED') continue;
+    if (previous && previous !== color) {
+      flips.push({ date: point.date, period, color, price: point.close });
+    }
+    previous = color;
+  }
+  return flips;
+}
+
+function parseNumber(value: unknown): number | null {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const n = Number(value.trim().replace(/\s/g, '').replace(',', '.'));
+  return Number.isFinite(n) ? n : null;
+}
+
+function parseDate(value: unknown): string | null {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+  const time = Date.parse(trimmed);
+  return Number.isNaN(time) ? null : new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a local price file: Date and Close (or Adj Close / Price) required; Open, High, Low optional.
+ * With a Ticker (or Symbol) column the file may hold several tickers, otherwise every row belongs to
+ * `defaultTicker`. Returns series keyed by upper-case ticker, oldest first.
+ */
+export function parsePriceBarsCsv(text: string, defaultTicker: string): Map<string, PriceBar[]> {
+  const parsed = Papa.parse<Record<string, string>>(text.replace(/^\uFEFF/, ''), { header: true, skipEmptyLines: true });
+  const fields = parsed.meta.fields ?? [];
+  const column = (names: string[]) => fields.find((f) => names.includes(f.trim().toLowerCase()));
+  const dateCol = column(['date', 'datum']);
+  const closeCol = column(['close', 'adj close', 'price', 'pris']);
+  const openCol = column(['open']);
+  const highCol = column(['high']);
+  const lowCol = column(['low']);
+  const tickerCol = column(['ticker', 'symbol']);
+
+  const byTicker = new Map<string, Map<string, PriceBar>>();
+  if (!dateCol || !closeCol) return new Map();
+  for (const row of parsed.data) {
+    const date = parseDate(row[dateCol]);
+    const close = parseNumber(row[closeCol]);
+    const ticker = (tickerCol ? row[tickerCol] ?? '' : defaultTicker).trim().toUpperCase();
+    if (!date || close === null || !ticker) continue;
+    if (!byTicker.has(ticker)) byTicker.set(ticker, new Map());
+    byTicker.get(ticker)!.set(date, {
+      date,
+      open: openCol ? parseNumber(row[openCol]) : null,
+      high: highCol ? parseNumber(row[highCol]) : null,
+      low: lowCol ? parseNumber(row[lowCol]) : null,
+      close,
+    });
+  }
+
+  const series = new Map<string, PriceBar[]>();
+  for (const [ticker, bars] of byTicker) {
+    series.set(ticker, [...bars.values()].sort((a, b) => a.date.localeCompare(b.date)));
+  }
+  return series;
+}
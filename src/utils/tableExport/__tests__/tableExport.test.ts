@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { createElement } from 'react';
+import { extractCell, buildPrintHtml } from '..';
+import { buildZip } from '../zip';
+import { COLORS } from '../../colorThresholds';
+
+describe('tableExport', () => {
+  it('extracts text and cssMapping color from a rendered cell', () => {
+    const cell = createElement('span', { className: `${COLORS.green} font-medium` }, 'Score ', 87.5, createElement('svg', null, 'icon'));
+    expect(extractCell(cell)).toEqual({ text: 'Score 87.5', color: 'green' });
+    expect(extractCell(createElement('span', { className: 'text-black dark:text-white' }, '-'))).toEqual({ text: '-', color: null });
+  });
+
+  it('exports the current value of editable cells', () => {
+    const cell = createElement('div', null, createElement('input', { value: '12.5', onChange: () => {} }));
+    expect(extractCell(cell).text).toBe('12.5');
+  });
+
+  it('exports the raw value for cells rendered by components', () => {
+    const Flag = () => createElement('span', null, 'flagged');
+    const cell = createElement('span', { className: COLORS.red }, 'AAPL', createElement(Flag));
+    expect(extractCell(cell, 'AAPL')).toEqual({ text: 'AAPL', color: 'red' });
+    expect(extractCell(createElement(Flag), 42)).toEqual({ text: '42', color: null });
+    expect(extractCell(createElement('span', null, '12 %'), 12).text).toBe('12 %');
+  });
+
+  it('writes fills and escapes text in the print view', () => {
+    const html = buildPrintHtml(
+      { title: 'Score Board', columns: ['Ticker', 'P/E'], rows: [[{ text: 'A&B', color: null }, { text: '12', color: 'red' }]] },
+      '2026-01-01'
+    );
+    expect(html).toContain('<td>A&amp;B</td>');
+    expect(html).toContain('<td style="background:#FEE2E2">12</td>');
+  });
+
+  it('builds a zip with local headers and an end of central directory record', () => {
+    const zip = buildZip([{ path: 'a.txt', content: 'hello' }]);
+    const view = new DataView(zip.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    // CRC32 of "hello"
+    expect(view.getUint32(14, true)).toBe(0x3610a686);
+    expect(view.getUint32(zip.length - 22, true)).toBe(0x06054b50);
+  });
+});
@@ -0,0 +1,11 @@
+import Papa from 'papaparse';
+import type { TableExportData } from './types';
+
+/** CSV with a BOM so Excel opens UTF-8 (å, ä, ö) correctly. Colors are not representable in CSV. */
+export function buildCsv(table: TableExportData): Blob {
+  const csv = Papa.unparse({
+    fields: table.columns,
+    data: table.rows.map((row) => row.map((cell) => cell.text)),
+  });
+  return new Blob(['﻿', csv], { type: 'text/csv;charset=utf-8' });
+}
@@ -0,0 +1,63 @@
+/**
+ * Turns a rendered BaseTable cell (ReactNode) into export text and color.
+ * Walks the element tree without rendering it, so cells keep exactly the
+ * text and cssMapping color class the table shows. Components (function,
+ * memo, forwardRef) cannot be read without rendering them: cells that
+ * contain one, or have no text, export the column's raw value instead.
+ */
+
+import { Fragment, isValidElement, type ReactNode } from 'react';
+import { cssClassToColorKey } from '../colorThresholds';
+import type { TableExportCell } from './types';
+
+interface ElementProps {
+  className?: unknown;
+  children?: ReactNode;
+  value?: unknown;
+}
+
+interface WalkState {
+  color: TableExportCell['color'];
+  /** A component element was met; its rendered text is unknown */
+  hasComponents: boolean;
+}
+
+function walk(node: ReactNode, parts: string[], state: WalkState): void {
+  if (node === null || node === undefined || typeof node === 'boolean') return;
+  if (typeof node === 'string' || typeof node === 'number') {
+    parts.push(String(node));
+    return;
+  }
+  if (Array.isArray(node)) {
+    node.forEach((child) => walk(child, parts, state));
+    return;
+  }
+  if (!isValidElement(node)) return;
+
+  const props = node.props as ElementProps;
+  if (typeof node.type !== 'string' && node.type !== Fragment) state.hasComponents = true;
+  if (state.color === null && typeof props.className === 'string') {
+    state.color = cssClassToColorKey(props.className);
+  }
+  // Icons carry no data
+  if (node.type === 'svg') return;
+  // Editable cells: export the current value
+  if (node.type === 'input' || node.type === 'select' || node.type === 'textarea') {
+    if (typeof props.value === 'string' || typeof props.value === 'number') parts.push(String(props.value));
+    return;
+  }
+  walk(props.children, parts, state);
+}
+
+/**
+ * Export text and color of a rendered cell. rawValue (the row's value for the column) is exported as text
+ * when the cell has no text or contains components; the color still comes from the rendered classes.
+ */
+export function extractCell(node: ReactNode, rawValue?: unknown): TableExportCell {
+  const parts: string[] = [];
+  const state: WalkState = { color: null, hasComponents: false };
+  walk(node, parts, state);
+  const text = parts.join('').replace(/\s+/g, ' ').trim();
+  const useRaw = (text === '' || state.hasComponents) && (typeof rawValue === 'string' || typeof rawValue === 'number');
+  return { text: useRaw ? String(rawValue) : text, color: state.color };
+}
@@ -0,0 +1,39 @@
+/**
+ * Table export (CSV / XLSX / print-friendly PDF) for BaseTable.
+ */
+
+import { buildCsv } from './csv';
+import { buildXlsx } from './xlsx';
+import { printTable } from './print';
+import type { TableExportData, TableExportFormat } from './types';
+
+export { extractCell } from './extractCell';
+export { buildCsv } from './csv';
+export { buildXlsx } from './xlsx';
+export { buildPrintHtml, printTable } from './print';
+export { EXPORT_FILL_COLORS } from './types';
+export type { TableExportCell, TableExportData, TableExportFormat } from './types';
+
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export a table. fileName is without extension.
+ */
+export function exportTable(table: TableExportData, format: TableExportFormat, fileName: string): void {
+  if (format === 'csv') {
+    downloadBlob(buildCsv(table), `${fileName}.csv`);
+  } else if (format === 'xlsx') {
+    downloadBlob(buildXlsx(table), `${fileName}.xlsx`);
+  } else {
+    printTable(table);
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Print-friendly PDF: opens the table in a new window and starts the browser's print
+ * dialog ("Save as PDF"). Fills are forced with print-color-adjust so colors survive printing.
+ */
+
+import { EXPORT_FILL_COLORS, type TableExportData } from './types';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function buildPrintHtml(table: TableExportData, generatedAt: string): string {
+  const header = table.columns.map((col) => `<th>${escapeHtml(col)}</th>`).join('');
+  const rows = table.rows
+    .map((row) => {
+      const cells = row
+        .map((cell) => {
+          const style = cell.color ? ` style="background:#${EXPORT_FILL_COLORS[cell.color]}"` : '';
+          return `<td${style}>${escapeHtml(cell.text)}</td>`;
+        })
+        .join('');
+      return `<tr>${cells}</tr>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(table.title)}</title>
+<style>
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  body { font-family: system-ui, sans-serif; font-size: 10px; margin: 16px; color: #000; }
+  h1 { font-size: 14px; margin: 0 0 4px; }
+  p { margin: 0 0 12px; color: #555; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #d1d5db; padding: 3px 5px; text-align: left; }
+  th { background: #f3f4f6; }
+  thead { display: table-header-group; }
+  tr { page-break-inside: avoid; }
+  @page { size: landscape; margin: 10mm; }
+</style></head>
+<body><h1>${escapeHtml(table.title)}</h1><p>${escapeHtml(generatedAt)}</p>
+<table><thead><tr>${header}</tr></thead><tbody>${rows}</tbody></table></body></html>`;
+}
+
+/** Throws when the popup is blocked so the caller can tell the user. */
+export function printTable(table: TableExportData): void {
+  const win = window.open('', '_blank');
+  if (!win) {
+    throw new Error('Popup blocked');
+  }
+  win.document.open();
+  win.document.write(buildPrintHtml(table, new Date().toLocaleString()));
+  win.document.close();
+  win.focus();
+  win.print();
+}
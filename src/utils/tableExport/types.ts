@@ -0,0 +1,28 @@
+/**
+ * Table export types (CSV / XLSX / print-friendly PDF).
+ */
+
+import type { ColorKey } from '../colorThresholds';
+
+export type TableExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export interface TableExportCell {
+  /** Text as shown in the table */
+  text: string;
+  /** COLORS key from colorThresholds/cssMapping, exported as cell fill */
+  color: ColorKey | null;
+}
+
+export interface TableExportData {
+  title: string;
+  columns: string[];
+  rows: TableExportCell[][];
+}
+
+/** Light fills (Tailwind *-100) for each cssMapping color, as RRGGBB */
+export const EXPORT_FILL_COLORS: Record<ColorKey, string> = {
+  green: 'DCFCE7',
+  red: 'FEE2E2',
+  blue: 'DBEAFE',
+  yellow: 'FEF9C3',
+};
@@ -0,0 +1,132 @@
+/**
+ * Single-sheet XLSX (Office Open XML) writer.
+ * Header row is bold; colored cells get a solid fill matching the table colors.
+ */
+
+import { buildZip } from './zip';
+import { EXPORT_FILL_COLORS, type TableExportData } from './types';
+import type { ColorKey } from '../colorThresholds';
+
+const COLOR_KEYS = Object.keys(EXPORT_FILL_COLORS) as ColorKey[];
+
+// Style ids in cellXfs: 0 = default, 1 = header, 2.. = one per fill color
+const HEADER_STYLE = 1;
+const colorStyle = (color: ColorKey) => 2 + COLOR_KEYS.indexOf(color);
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function columnName(index: number): string {
+  let name = '';
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    name = String.fromCharCode(65 + rem) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+}
+
+/** Plain numbers are written as numeric cells so they can be sorted and summed in Excel. */
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+
+function cellXml(ref: string, text: string, style: number): string {
+  const s = style > 0 ? ` s="${style}"` : '';
+  if (NUMERIC.test(text)) return `<c r="${ref}"${s}><v>${text}</v></c>`;
+  if (text === '') return style > 0 ? `<c r="${ref}"${s}/>` : '';
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+function sheetXml(table: TableExportData): string {
+  const header = table.columns.map((col, i) => cellXml(`${columnName(i)}1`, col, HEADER_STYLE)).join('');
+  const rows = table.rows.map((row, r) => {
+    const cells = row
+      .map((cell, c) => cellXml(`${columnName(c)}${r + 2}`, cell.text, cell.color ? colorStyle(cell.color) : 0))
+      .join('');
+    return `<row r="${r + 2}">${cells}</row>`;
+  });
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData><row r="1">${header}</row>${rows.join('')}</sheetData>` +
+    (table.columns.length > 0 ? `<autoFilter ref="A1:${columnName(table.columns.length - 1)}${table.rows.length + 1}"/>` : '') +
+    '</worksheet>'
+  );
+}
+
+function stylesXml(): string {
+  const fills = COLOR_KEYS.map(
+    (key) => `<fill><patternFill patternType="solid"><fgColor rgb="FF${EXPORT_FILL_COLORS[key]}"/><bgColor indexed="64"/></patternFill></fill>`
+  ).join('');
+  // Fills 0 and 1 are reserved by the spec (none, gray125)
+  const colorXfs = COLOR_KEYS.map((_, i) => `<xf numFmtId="0" fontId="0" fillId="${i + 2}" borderId="0" applyFill="1"/>`).join('');
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    `<fills count="${COLOR_KEYS.length + 2}"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>${fills}</fills>` +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    `<cellXfs count="${COLOR_KEYS.length + 2}"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" applyFont="1"/>${colorXfs}</cellXfs>` +
+    '</styleSheet>'
+  );
+}
+
+/** Excel sheet names: max 31 chars, no []:*?/\ */
+function sheetName(title: string): string {
+  return (title.replace(/[[\]:*?/\\]/g, ' ').trim() || 'Sheet1').slice(0, 31);
+}
+
+export function buildXlsx(table: TableExportData): Blob {
+  const zip = buildZip([
+    {
+      path: '[Content_Types].xml',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>',
+    },
+    {
+      path: '_rels/.rels',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      path: 'xl/workbook.xml',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${escapeXml(sheetName(table.title))}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>',
+    },
+    {
+      path: 'xl/_rels/workbook.xml.rels',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        '</Relationships>',
+    },
+    { path: 'xl/styles.xml', content: stylesXml() },
+    { path: 'xl/worksheets/sheet1.xml', content: sheetXml(table) },
+  ]);
+  return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
@@ -0,0 +1,129 @@
+/**
+ * Percentile-based threshold suggestions per industry. The MIN and MAX of each metric are suggested as the
+ * lower and upper percentile of the industry's Score Board values, so the colors spread the industry into its
+ * best, middle and worst stocks. The preview runs the regular color functions with current and suggested values.
+ */
+
+import { DEFAULT_SUGGESTION_PERCENTILES, MIN_SUGGESTION_SAMPLE_SIZE, type SuggestionPercentiles } from '../config/thresholdSuggestions';
+import { getCashSdebtColor, getCurrentRatioColor, getLeverageF2Color } from './colorThresholds/colorLogic';
+import { findIndustryThreshold } from './industryResolution';
+import type { ColorType } from './colorThresholds/types';
+import type { IndustryThresholdData } from '../types/stock';
+import type {
+  IndustryThresholdSuggestion,
+  ThresholdField,
+  ThresholdMetric,
+  ThresholdSuggestionRow,
+} from '../types/thresholdSuggestion';
+
+export const THRESHOLD_METRIC_FIELDS: Record<ThresholdMetric, { min: ThresholdField; max: ThresholdField }> = {
+  leverageF2: { min: 'leverageF2Min', max: 'leverageF2Max' },
+  cashSdebt: { min: 'cashSdebtMin', max: 'cashSdebtMax' },
+  currentRatio: { min: 'currentRatioMin', max: 'currentRatioMax' },
+};
+
+const METRICS = Object.keys(THRESHOLD_METRIC_FIELDS) as ThresholdMetric[];
+
+/** Percentile p (0-100) of the values with linear interpolation between the closest ranks; null when empty */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const below = Math.floor(rank);
+  const above = Math.ceil(rank);
+  return sorted[below] + (sorted[above] - sorted[below]) * (rank - below);
+}
+
+/** Values of a metric that take part in the color; Cash/SDebt without debt is always green and left out */
+export function metricValues(rows: ThresholdSuggestionRow[], metric: ThresholdMetric): number[] {
+  const values: number[] = [];
+  for (const row of rows) {
+    if (metric === 'cashSdebt' && row.isCashSdebtDivZero) continue;
+    const value = row[metric];
+    if (value !== null && isFinite(value)) values.push(value);
+  }
+  return values;
+}
+
+function roundThreshold(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function metricColor(row: ThresholdSuggestionRow, metric: ThresholdMetric, threshold: IndustryThresholdData): ColorType {
+  const thresholds = [threshold];
+  switch (metric) {
+    case 'leverageF2':
+      return getLeverageF2Color(row.leverageF2, threshold.industry, thresholds);
+    case 'cashSdebt':
+      return getCashSdebtColor(row.cashSdebt, row.isCashSdebtDivZero, threshold.industry, thresholds);
+    case 'currentRatio':
+      return getCurrentRatioColor(row.currentRatio, threshold.industry, thresholds);
+  }
+}
+
+/** Rows whose color in any of the metrics differs between the two thresholds */
+export function countColorChanges(
+  rows: ThresholdSuggestionRow[],
+  current: IndustryThresholdData,
+  next: IndustryThresholdData,
+  metrics: ThresholdMetric[] = METRICS
+): number {
+  return rows.filter((row) => metrics.some((metric) => metricColor(row, metric, current) !== metricColor(row, metric, next)))
+    .length;
+}
+
+/**
+ * Suggested thresholds for each industry with Score Board rows. thresholdData holds the current values (drafts
+ * included) and decides which industry a row belongs to, aliases included; rows that do not resolve are skipped.
+ */
+export function suggestIndustryThresholds(
+  rows: ThresholdSuggestionRow[],
+  thresholdData: IndustryThresholdData[],
+  percentiles: SuggestionPercentiles = DEFAULT_SUGGESTION_PERCENTILES,
+  minSampleSize: number = MIN_SUGGESTION_SAMPLE_SIZE
+): IndustryThresholdSuggestion[] {
+  const groups = new Map<string, { threshold: IndustryThresholdData; rows: ThresholdSuggestionRow[] }>();
+  for (const row of rows) {
+    if (!row.industry || row.industry.trim() === '') continue;
+    const threshold = findIndustryThreshold(row.industry, thresholdData);
+    if (!threshold) continue;
+    const group = groups.get(threshold.industryKey);
+    if (group) group.rows.push(row);
+    else groups.set(threshold.industryKey, { threshold, rows: [row] });
+  }
+
+  return Array.from(groups.values())
+    .map(({ threshold, rows: industryRows }) => {
+      const sampleSizes = {} as Record<ThresholdMetric, number>;
+      const suggested: Partial<Record<ThresholdField, number>> = {};
+      for (const metric of METRICS) {
+        const values = metricValues(industryRows, metric);
+        sampleSizes[metric] = values.length;
+        const min = percentile(values, percentiles.lower);
+        const max = percentile(values, percentiles.upper);
+        if (values.length < minSampleSize || min === null || max === null) continue;
+        suggested[THRESHOLD_METRIC_FIELDS[metric].min] = roundThreshold(min);
+        suggested[THRESHOLD_METRIC_FIELDS[metric].max] = roundThreshold(max);
+      }
+
+      const fieldChanges: Partial<Record<ThresholdField, number>> = {};
+      for (const metric of METRICS) {
+        for (const field of [THRESHOLD_METRIC_FIELDS[metric].min, THRESHOLD_METRIC_FIELDS[metric].max]) {
+          const value = suggested[field];
+          if (value === undefined) continue;
+          fieldChanges[field] = countColorChanges(industryRows, threshold, { ...threshold, [field]: value }, [metric]);
+        }
+      }
+
+      return {
+        industryKey: threshold.industryKey,
+        industry: threshold.industry,
+        stockCount: industryRows.length,
+        sampleSizes,
+        suggested,
+        fieldChanges,
+        industryChanges: countColorChanges(industryRows, threshold, { ...threshold, ...suggested }),
+      };
+    })
+    .sort((a, b) => a.industry.localeCompare(b.industry));
+}
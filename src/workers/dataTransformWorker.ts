@@ -4,17 +4,24 @@
  * Web Worker for transforming data from Google Sheets.
  * Runs transformations in a separate thread to avoid blocking the main UI thread.
  * 
- * This file contains inline copies of transformer functions and helper utilities
- * since Web Workers cannot easily import modules.
+ * The transforms come from shared/sheetTransforms.ts (bundled into the worker by Vite), the same module the
+ * main thread and the Cloud Functions use.
  */
 
+import {
+  transformBenjaminGrahamRows,
+  transformPEIndustryRows,
+  transformSMARows,
+  transformScoreBoardRows,
+  type DataRow,
+  type SMALookupEntry,
+} from '../../shared/sheetTransforms';
+
 // ============================================================================
-// Type Definitions (inline copies)
+// Type Definitions
 // ============================================================================
 
-type DataRow = Record<string, string | number | undefined>;
-
-interface TransformMessage {
+export interface TransformMessage {
   type: 'transform';
   transformerId: string;
   data: DataRow[];
@@ -23,7 +30,7 @@ interface TransformMessage {
   // For ScoreBoard transformer, include external data
   industryPe1Map?: Record<string, number>;
   industryPe2Map?: Record<string, number>;
-  smaDataMap?: Record<string, { sma9: number | null; sma21: number | null; sma55: number | null; sma200: number | null }>;
+  smaDataMap?: Record<string, SMALookupEntry>;
 }
 
 interface ProgressMessage {
@@ -48,362 +55,6 @@ interface ErrorMessage {
   error: string;
 }
 
-// ============================================================================
-// Helper Functions (inline copies from dataTransformers.ts)
-// ============================================================================
-
-function getValue(possibleNames: string[], row: DataRow): string {
-  if (!row || typeof row !== 'object') {
-    return '';
-  }
-  
-  for (const name of possibleNames) {
-    if (typeof name !== 'string') continue;
-    
-    // Try exact match first
-    const value = row[name];
-    if (value !== undefined && value !== null && value !== '') {
-      return String(value).trim();
-    }
-    // Try case-insensitive match
-    const lowerName = name.toLowerCase();
-    for (const key in row) {
-      if (key.toLowerCase() === lowerName) {
-        const val = row[key];
-        if (val !== undefined && val !== null && val !== '') {
-          return String(val).trim();
-        }
-      }
-    }
-  }
-  return '';
-}
-
-function getValueAllowZero(possibleNames: string[], row: DataRow): string {
-  for (const name of possibleNames) {
-    // Try exact match first
-    if (row[name] !== undefined && row[name] !== null) {
-      const value = row[name];
-      // If value is 0 (number or string "0"), return "0"
-      if (value === 0 || value === '0') {
-        return '0';
-      }
-      // If value is empty string, skip
-      if (value === '') {
-        continue;
-      }
-      return String(value).trim();
-    }
-    // Try case-insensitive match
-    const lowerName = name.toLowerCase();
-    for (const key in row) {
-      if (key.toLowerCase() === lowerName) {
-        const value = row[key];
-        // Allow 0 as a valid value
-        if (value !== undefined && value !== null) {
-          // If value is 0 (number or string "0"), return "0"
-          if (value === 0 || value === '0') {
-            return '0';
-          }
-          // If value is empty string, skip
-          if (value === '') {
-            continue;
-          }
-          return String(value).trim();
-        }
-      }
-    }
-  }
-  return '';
-}
-
-function isValidValue(value: string): boolean {
-  if (!value) return false;
-  const normalized = value.trim().toUpperCase();
-  return normalized !== '#N/A' && normalized !== 'N/A' && normalized !== '#NUM!' && normalized !== '#VALUE!' && normalized !== '#DIV/0!' && normalized !== '#REF!' && normalized !== 'LOADING...';
-}
-
-function parseNumericValueNullable(valueStr: string): number | null {
-  if (typeof valueStr !== 'string' || !isValidValue(valueStr)) return null;
-  
-  // Remove common prefixes and clean the string
-  let cleaned = String(valueStr)
-    .replace(/,/g, '.')
-    .replace(/\s/g, '')
-    .replace(/#/g, '')
-    .replace(/%/g, '')
-    .replace(/\$/g, '');
-  
-  const parsed = parseFloat(cleaned);
-  if (typeof parsed !== 'number' || isNaN(parsed) || !isFinite(parsed)) return null;
-  
-  return parsed;
-}
-
-function parsePercentageValueNullable(valueStr: string): number | null {
-  if (typeof valueStr !== 'string' || !isValidValue(valueStr)) return null;
-  
-  // Remove % sign and clean the string
-  let cleaned = String(valueStr)
-    .replace(/,/g, '.')
-    .replace(/\s/g, '')
-    .replace(/#/g, '')
-    .replace(/%/g, '')
-    .replace(/\$/g, '');
-  
-  const parsed = parseFloat(cleaned);
-  if (typeof parsed !== 'number' || isNaN(parsed) || !isFinite(parsed)) return null;
-  
-  return parsed;
-}
-
-function calculateMedian(values: number[]): number | null {
-  if (!Array.isArray(values) || values.length === 0) return null;
-  
-  // Filter out invalid numbers
-  const validNumbers = values.filter(v => typeof v === 'number' && !isNaN(v) && isFinite(v));
-  if (validNumbers.length === 0) return null;
-  
-  const sorted = [...validNumbers].sort((a, b) => a - b);
-  const mid = Math.floor(sorted.length / 2);
-  
-  if (sorted.length % 2 === 0) {
-    return (sorted[mid - 1] + sorted[mid]) / 2;
-  } else {
-    return sorted[mid];
-  }
-}
-
-// Industry threshold lookup functions (simplified - we'll pass the maps if needed)
-// For Industry Threshold transformer, we'll need to pass the maps as data
-
-// ============================================================================
-// Transformer Functions (inline copies)
-// ============================================================================
-
-function transformBenjaminGrahamData(results: { data: DataRow[]; meta: { fields: string[] | null } }): unknown[] {
-  const benjaminGrahamData = results.data
-    .map((row: DataRow) => {
-      const companyName = getValue(['Company Name', 'Company', 'company'], row);
-      const ticker = getValue(['Ticker', 'ticker', 'Ticket', 'ticket', 'Symbol', 'symbol'], row);
-      const priceStr = getValue(['Price', 'price', 'PRICE'], row);
-      // Only process if company name is valid (not #N/A)
-      if (!isValidValue(companyName)) {
-        return null;
-      }
-      
-      // Filter out rows where Ticker is N/A
-      if (!isValidValue(ticker)) {
-        return null;
-      }
-      
-      // Parse Price value as number (handle #N/A)
-      const price = parseNumericValueNullable(priceStr);
-      
-      // Parse IV (FCF) if it exists
-      const ivFcfStr = getValue(['IV (FCF)', 'IV(FCF)', 'iv fcf', 'ivfcf'], row);
-      const ivFcf = parseNumericValueNullable(ivFcfStr);
-      
-      // Parse IRR1 if it exists
-      const irr1Str = getValue(['IRR1', 'irr1', 'IRR 1', 'irr 1'], row);
-      const irr1 = parseNumericValueNullable(irr1Str);
-      
-      return {
-        companyName: companyName,
-        ticker: ticker,
-        price: price,
-        ivFcf: ivFcf,
-        irr1: irr1,
-      };
-    })
-    .filter((data) => data !== null);
-  
-  return benjaminGrahamData;
-}
-
-function transformPEIndustryData(results: { data: DataRow[]; meta: { fields: string[] | null } }): unknown[] {
-  // Group data by industry
-  const industryMap = new Map<string, { pe: number[]; pe1: number[]; pe2: number[]; count: number }>();
-
-  results.data.forEach((row: DataRow) => {
-    const companyName = getValue(['Company Name', 'Company', 'company'], row);
-    const ticker = getValue(['Ticker', 'ticker', 'Ticket', 'ticket', 'Symbol', 'symbol'], row);
-    const industry = getValue(['INDUSTRY', 'Industry', 'industry'], row);
-    
-    // Filter out rows where Company Name, Ticker, or Industry is N/A
-    if (!isValidValue(companyName) || !isValidValue(ticker) || !isValidValue(industry)) {
-      return;
-    }
-
-    const peStr = getValue(['P/E', 'P/E', 'pe', 'PE'], row);
-    const pe1Str = getValue(['P/E1', 'P/E 1', 'pe1', 'PE1'], row);
-    const pe2Str = getValue(['P/E2', 'P/E 2', 'pe2', 'PE2'], row);
-
-    let industryData = industryMap.get(industry);
-    if (!industryData) {
-      industryData = { pe: [], pe1: [], pe2: [], count: 0 };
-      industryMap.set(industry, industryData);
-    }
-    industryData.count++;
-
-    const pe = parseNumericValueNullable(peStr);
-    const pe1 = parseNumericValueNullable(pe1Str);
-    const pe2 = parseNumericValueNullable(pe2Str);
-
-    // Include 0 values (actual zeros) but exclude null (invalid/missing)
-    if (pe !== null) {
-      industryData.pe.push(pe);
-    }
-    if (pe1 !== null) {
-      industryData.pe1.push(pe1);
-    }
-    if (pe2 !== null) {
-      industryData.pe2.push(pe2);
-    }
-  });
-
-  // Convert to PEIndustryData array
-  const peIndustryData = Array.from(industryMap.entries())
-    .map(([industry, data]) => ({
-      industry: industry,
-      pe: calculateMedian(data.pe),
-      pe1: calculateMedian(data.pe1),
-      pe2: calculateMedian(data.pe2),
-      companyCount: data.count,
-    }))
-    .filter(item => item.companyCount > 0);
-  
-  return peIndustryData;
-}
-
-function transformSMAData(results: { data: DataRow[]; meta: { fields: string[] | null } }): unknown[] {
-  const smaData = results.data
-    .map((row: DataRow) => {
-      const companyName = getValue(['Company Name', 'Company', 'company'], row);
-      const ticker = getValue(['Ticker', 'ticker', 'Ticket', 'ticket', 'Symbol', 'symbol'], row);
-      const sma9Str = getValue(['SMA(9)', 'sma(9)', 'sma9', 'SMA9'], row);
-      const sma21Str = getValue(['SMA(21)', 'sma(21)', 'sma21', 'SMA21'], row);
-      const sma55Str = getValue(['SMA(55)', 'sma(55)', 'sma55', 'SMA55'], row);
-      const sma200Str = getValue(['SMA(200)', 'SMA(200)', 'sma(200)', 'sma200', 'SMA200'], row);
-
-      // Only skip row if both company name and ticker are invalid (keep row if either is valid)
-      if (!isValidValue(companyName) && !isValidValue(ticker)) {
-        return null;
-      }
-
-      const sma9 = parseNumericValueNullable(sma9Str);
-      const sma21 = parseNumericValueNullable(sma21Str);
-      const sma55 = parseNumericValueNullable(sma55Str);
-      const sma200 = parseNumericValueNullable(sma200Str);
-
-      return {
-        companyName,
-        ticker,
-        sma9,
-        sma21,
-        sma55,
-        sma200,
-      };
-    })
-    .filter((data) => data !== null);
-
-  return smaData;
-}
-
-function transformScoreBoardData(
-  results: { data: DataRow[]; meta: { fields: string[] | null } },
-  industryPe1Map: Record<string, number>,
-  industryPe2Map: Record<string, number>,
-  smaDataMap: Record<string, { sma9: number | null; sma21: number | null; sma55: number | null; sma200: number | null }>
-): unknown[] {
-  const scoreBoardData = results.data
-    .map((row: DataRow) => {
-      const companyName = getValueAllowZero(['Company Name', 'Company', 'company'], row);
-      const ticker = getValueAllowZero(['Ticker', 'ticker', 'Ticket', 'ticket', 'Symbol', 'symbol'], row);
-      const mungerQualityScoreStr = getValueAllowZero(['Munger Quality Score', 'Munger Quality Score', 'munger quality score', 'MUNGER QUALITY SCORE'], row);
-      const valueCreationStr = getValueAllowZero(['VALUE CREATION', 'Value Creation', 'value creation', 'VALUE_CREATION'], row);
-      const leverageF2Str = getValueAllowZero(['Leverage F2', 'Leverage F2', 'leverage f2', 'LEVERAGE F2'], row);
-      const currentRatioStr = getValueAllowZero(['Current Ratio', 'Current Ratio', 'current ratio', 'CURRENT RATIO'], row);
-      const cashSdebtStr = getValueAllowZero(['Cash/SDebt', 'Cash/SDebt', 'cash/sdebt', 'CASH/SDEBT'], row);
-      
-      // Detect division-by-zero for Cash/SDebt
-      const isCashSdebtDivZero = cashSdebtStr && 
-        (cashSdebtStr.trim().toUpperCase() === '#DIV/0!' || 
-         cashSdebtStr.trim().toUpperCase() === 'INF' ||
-         cashSdebtStr.trim().toUpperCase() === '∞');
-      
-      const pe1Str = getValueAllowZero(['P/E1', 'P/E 1', 'pe1', 'PE1'], row);
-      const pe2Str = getValueAllowZero(['P/E2', 'P/E 2', 'pe2', 'PE2'], row);
-      const industryStr = getValueAllowZero(['INDUSTRY', 'Industry', 'industry'], row);
-      
-      // Filter out rows where Company Name or Ticker is N/A
-      if (!isValidValue(companyName) || !isValidValue(ticker)) {
-        return null;
-      }
-
-      const mungerQualityScore = parseNumericValueNullable(mungerQualityScoreStr);
-      const valueCreation = parsePercentageValueNullable(valueCreationStr);
-      const leverageF2 = parseNumericValueNullable(leverageF2Str);
-      const currentRatio = parseNumericValueNullable(currentRatioStr);
-      const cashSdebt = parseNumericValueNullable(cashSdebtStr);
-      // Om #DIV/0! detekteras, sätt cashSdebt till 0 istället för null
-      const finalCashSdebt = isCashSdebtDivZero ? 0 : cashSdebt;
-      
-      // Calculate P/E1 INDUSTRY (procentuell skillnad)
-      const pe1 = parseNumericValueNullable(pe1Str);
-      let pe1Industry: number | null = null;
-      
-      if (isValidValue(industryStr) && pe1 !== null && pe1 > 0) {
-        const industryKey = industryStr.trim().toLowerCase();
-        const pe1IndustryMedian = industryPe1Map[industryKey];
-        
-        if (pe1IndustryMedian !== undefined && pe1IndustryMedian > 0) {
-          // Calculate percentage difference: (pe1 - pe1IndustryMedian) / pe1IndustryMedian * 100
-          pe1Industry = ((pe1 - pe1IndustryMedian) / pe1IndustryMedian) * 100;
-        }
-      }
-      
-      // Calculate P/E2 INDUSTRY (procentuell skillnad)
-      const pe2 = parseNumericValueNullable(pe2Str);
-      let pe2Industry: number | null = null;
-      
-      if (isValidValue(industryStr) && pe2 !== null && pe2 > 0) {
-        const industryKey = industryStr.trim().toLowerCase();
-        const pe2IndustryMedian = industryPe2Map[industryKey];
-        
-        if (pe2IndustryMedian !== undefined && pe2IndustryMedian > 0) {
-          // Calculate percentage difference: (pe2 - pe2IndustryMedian) / pe2IndustryMedian * 100
-          pe2Industry = ((pe2 - pe2IndustryMedian) / pe2IndustryMedian) * 100;
-        }
-      }
-
-      // Match SMA data from SMA table by ticker (colors computed in view from price vs SMA values)
-      const tickerKey = ticker.toLowerCase().trim();
-      const smaMatch = smaDataMap[tickerKey];
-
-      return {
-        companyName: companyName,
-        ticker: ticker,
-        industry: industryStr || '',
-        mungerQualityScore: mungerQualityScore,
-        valueCreation: valueCreation,
-        leverageF2: leverageF2,
-        pe1Industry: pe1Industry,
-        pe2Industry: pe2Industry,
-        currentRatio: currentRatio,
-        cashSdebt: finalCashSdebt,
-        isCashSdebtDivZero: isCashSdebtDivZero || false,
-        sma9: smaMatch ? smaMatch.sma9 : null,
-        sma21: smaMatch ? smaMatch.sma21 : null,
-        sma55: smaMatch ? smaMatch.sma55 : null,
-        sma200: smaMatch ? smaMatch.sma200 : null,
-      };
-    })
-    .filter((data) => data !== null);
-  
-  return scoreBoardData;
-}
-
 // Industry Threshold uses large industry maps and runs on main thread only.
 // getTransformerId returns null for industry-threshold; no worker path.
 
@@ -411,15 +62,37 @@ function transformScoreBoardData(
 // Transformer Registry
 // ============================================================================
 
-type TransformerFunction = (results: { data: DataRow[]; meta: { fields: string[] | null } }, ...args: unknown[]) => unknown[];
+type TransformerFunction = (message: TransformMessage) => unknown[];
 
 const transformers: Record<string, TransformerFunction> = {
-  'benjamin-graham': transformBenjaminGrahamData,
-  'pe-industry': transformPEIndustryData,
-  'sma': transformSMAData,
-  'score-board': transformScoreBoardData,
+  'benjamin-graham': (message) => transformBenjaminGrahamRows(message.data),
+  'pe-industry': (message) => transformPEIndustryRows(message.data),
+  'sma': (message) => transformSMARows(message.data),
+  'score-board': (message) => {
+    // ScoreBoard needs external maps
+    if (!message.industryPe1Map || !message.industryPe2Map || !message.smaDataMap) {
+      throw new Error('ScoreBoard transformer requires industryPe1Map, industryPe2Map, and smaDataMap');
+    }
+    return transformScoreBoardRows(message.data, {
+      industryPe1: message.industryPe1Map,
+      industryPe2: message.industryPe2Map,
+      sma: message.smaDataMap,
+    });
+  },
 };
 
+/**
+ * Transform the rows of a message with its transformer. Throws for unknown transformers and missing
+ * ScoreBoard maps.
+ */
+export function runTransform(message: TransformMessage): unknown[] {
+  const transformer = transformers[message.transformerId];
+  if (!transformer) {
+    throw new Error(`Unknown transformer: ${message.transformerId}`);
+  }
+  return transformer(message);
+}
+
 // ============================================================================
 // Worker Error Handlers
 // ============================================================================
@@ -479,8 +152,7 @@ self.onmessage = function(e: MessageEvent<TransformMessage>) {
   }
 
   try {
-    const transformer = transformers[message.transformerId];
-    if (!transformer) {
+    if (!transformers[message.transformerId]) {
       self.postMessage({
         type: 'error',
         jobId: message.jobId,
@@ -500,24 +172,9 @@ self.onmessage = function(e: MessageEvent<TransformMessage>) {
     } as ProgressMessage);
 
     // Transform data
-    let transformedData: unknown[];
+    const transformedData = runTransform(message);
     const totalRows = message.data.length;
 
-    if (message.transformerId === 'score-board') {
-      // ScoreBoard needs external maps
-      if (!message.industryPe1Map || !message.industryPe2Map || !message.smaDataMap) {
-        throw new Error('ScoreBoard transformer requires industryPe1Map, industryPe2Map, and smaDataMap');
-      }
-      transformedData = transformer(
-        { data: message.data, meta: message.meta },
-        message.industryPe1Map,
-        message.industryPe2Map,
-        message.smaDataMap
-      ) as unknown[];
-    } else {
-      transformedData = transformer({ data: message.data, meta: message.meta }) as unknown[];
-    }
-
     // Send progress update during processing (simulate)
     if (totalRows > 100) {
       // For large datasets, send progress updates
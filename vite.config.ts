@@ -12,7 +12,10 @@ export default defineConfig({
   base: process.env.VITE_BASE_PATH ?? '/',
   resolve: {
     alias: process.env.VITEST
-      ? { 'firebase-admin': path.resolve(__dirname, 'src/test/mocks/firebaseAdmin.ts') }
+      ? {
+          'firebase-admin': path.resolve(__dirname, 'src/test/mocks/firebaseAdmin.ts'),
+          'firebase-functions/v1': path.resolve(__dirname, 'src/test/mocks/firebaseFunctions.ts'),
+        }
       : {},
   },
   server: {